@@ -0,0 +1,75 @@
+// Download the Pyodide runtime for bundling, so Python cells in Nerdbooks work offline
+// Builds run it with --if-missing, so they always ship the runtime and fail if it can't be downloaded
+// Usage: npm run download:pyodide [-- --if-missing]
+
+import { existsSync, readFileSync } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = path.dirname(fileURLToPath(import.meta.url));
+
+// The version the app loads, so the two can't drift apart
+const runtimeSource = readFileSync(path.join(root, 'src/utils/pyodideRuntime.ts'), 'utf-8');
+const version = runtimeSource.match(/PYODIDE_VERSION = '([^']+)'/)?.[1];
+if (!version) {
+    console.error('Could not find PYODIDE_VERSION in src/utils/pyodideRuntime.ts');
+    process.exit(1);
+}
+const baseUrl = `https://cdn.jsdelivr.net/pyodide/v${version}/full`;
+const pyodideDir = path.join(root, 'public', 'pyodide');
+
+// Core runtime files, plus the packages loaded whenever Python starts (micropip and its dependency)
+const runtimeFiles = ['pyodide.js', 'pyodide.asm.js', 'pyodide.asm.wasm', 'python_stdlib.zip', 'pyodide-lock.json'];
+const startupPackages = ['micropip', 'packaging'];
+
+// Package file names come from the lock file, so they always match the runtime version
+function startupPackageFiles() {
+    const lock = JSON.parse(readFileSync(path.join(pyodideDir, 'pyodide-lock.json'), 'utf-8'));
+    return startupPackages.map(name => lock.packages[name].file_name);
+}
+
+function bundledFilesMissing() {
+    if (!runtimeFiles.every(file => existsSync(path.join(pyodideDir, file)))) return true;
+    try {
+        return !startupPackageFiles().every(file => existsSync(path.join(pyodideDir, file)));
+    } catch {
+        return true;
+    }
+}
+
+async function download(name) {
+    const response = await fetch(`${baseUrl}/${name}`);
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    const data = Buffer.from(await response.arrayBuffer());
+    await writeFile(path.join(pyodideDir, name), data);
+    console.log(`  Done: ${name} (${(data.length / 1024).toFixed(1)} KB)`);
+}
+
+if (process.argv.includes('--if-missing') && !bundledFilesMissing()) {
+    console.log(`Pyodide ${version} is already in ${pyodideDir}`);
+    process.exit(0);
+}
+
+await mkdir(pyodideDir, { recursive: true });
+console.log(`Downloading Pyodide ${version} to: ${pyodideDir}`);
+
+const failed = [];
+const fetchAll = async names => {
+    for (const name of names) {
+        console.log(`Downloading ${name}...`);
+        await download(name).catch(error => {
+            console.error(`  Failed: ${name} - ${error.message}`);
+            failed.push(name);
+        });
+    }
+};
+
+await fetchAll(runtimeFiles);
+if (!failed.includes('pyodide-lock.json')) await fetchAll(startupPackageFiles());
+
+if (failed.length > 0) {
+    console.error(`\nFailed to download ${failed.length} file(s): ${failed.join(', ')}`);
+    process.exit(1);
+}
+console.log('\nDownload complete. Rebuild the app, then run a Python cell in a Nerdbook with the network off.');
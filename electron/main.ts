@@ -1,14 +1,115 @@
-import { app, BrowserWindow, ipcMain, dialog, Menu, shell, nativeImage, safeStorage, globalShortcut, Notification } from 'electron'
+import { app, BrowserWindow, ipcMain, dialog, Menu, shell, nativeImage, safeStorage, globalShortcut, Notification, protocol, net } from 'electron'
 import path from 'node:path'
 import { fileURLToPath } from 'node:url'
 import fs from 'node:fs/promises'
-import { existsSync } from 'node:fs'
+import { existsSync, realpathSync, statSync } from 'node:fs'
+import { gzip, gunzip } from 'node:zlib'
+import { promisify } from 'node:util'
 import os from 'node:os'
-import { randomUUID } from 'node:crypto'
+import { randomUUID, randomBytes, createHash, timingSafeEqual } from 'node:crypto'
+import http from 'node:http'
+import { spawn, ChildProcess } from 'node:child_process'
 import { GoogleGenerativeAI } from '@google/generative-ai'
 import OpenAI from 'openai'
 import dotenv from 'dotenv'
 import chokidar, { FSWatcher } from 'chokidar'
+import { generateICS } from '../src/utils/icsHelper'
+import { getNotesForDate } from '../src/utils/recurrence'
+import { getLocalTimeZone, getNoteInstant, isValidTimeZone, toViewerDateTime } from '../src/utils/timezone'
+import {
+    ReminderRecord,
+    ReminderState,
+    REMINDER_EXPIRY_MINUTES,
+    SNOOZE_PRESET_MINUTES,
+    acknowledgeReminder,
+    createReminderState,
+    getActiveReminders,
+    getDueRepeats,
+    hasFired,
+    normaliseReminderState,
+    pruneReminderState,
+    recordFired,
+    recordRepeat,
+    reminderKey,
+    snoozeReminder,
+} from '../src/utils/reminderSchedule'
+import { SearchIndex, SearchOptions, createEventDocuments, createFileDocument, createTaskDocuments, extractWorkspaceText } from '../src/utils/searchIndex'
+import {
+    BACKUP_DATA_FILES,
+    BACKUP_WORKSPACE_FOLDER,
+    BackupManifest,
+    BackupReason,
+    BackupSummary,
+    createBackupId,
+    selectBackupsToKeep,
+    summarizeBackupContents,
+} from '../src/utils/backups'
+import {
+    BrokenMention,
+    MENTION_FILE_EXTENSIONS,
+    MentionRenameFile,
+    findBrokenMentions,
+    linkUnlinkedMentionsInFile,
+    renameMentionsInFile,
+} from '../src/utils/mentionRefactor'
+import {
+    DEFAULT_TRASH_RETENTION_DAYS,
+    TRASHABLE_EXTENSIONS,
+    TRASH_FOLDER_NAME,
+    TrashEntry,
+    isTrashEntryExpired,
+} from '../src/utils/workspaceTrash'
+import {
+    HISTORY_FOLDER_NAME,
+    VERSIONED_EXTENSIONS,
+    FileHistoryIndex,
+    FileRevision,
+    createRevisionId,
+    selectRevisionsToKeep,
+} from '../src/utils/fileHistory'
+import { ipynbToNotebook, notebookToIpynb } from '../src/utils/jupyter'
+import { resolveInsideFolder } from '../src/utils/jsSandbox'
+import { EXPORT_IMAGE_EXTENSIONS, planMarkdownExport, workspaceFileToMarkdown } from '../src/utils/markdownExport'
+import {
+    SITE_STYLESHEET,
+    SitePage,
+    localFilePathFromUrl,
+    markdownToHtml,
+    planSite,
+    renderNavTree,
+    renderSiteIndex,
+    renderSitePage,
+    sitePageMarkdown,
+} from '../src/utils/sitePublisher'
+import {
+    PYODIDE_CDN_URL,
+    PYODIDE_SCHEME,
+    PYODIDE_VERSION,
+    PYPI_FILES_URL,
+    pointPypiFilesAtCache,
+    pyodideRequestPath,
+} from '../src/utils/pyodideRuntime'
+import {
+    DEFAULT_LOCAL_MEMORY_MB,
+    DEFAULT_LOCAL_TIMEOUT_SECONDS,
+    LOCAL_KERNELS,
+    LocalKernelSpec,
+    LocalRunEnd,
+    LocalRunStatus,
+    MAX_LOCAL_OUTPUT_CHARS,
+    buildLocalCommand,
+    getLocalKernel,
+} from '../src/utils/localKernels'
+import {
+    VAULT_IMAGE_EXTENSIONS,
+    VAULT_NOTE_EXTENSIONS,
+    UnresolvedVaultLink,
+    convertVaultNote,
+    extractFrontmatterTags,
+    resolveVaultPath,
+} from '../src/utils/vaultImport'
+import type { NotesData, Task } from '../src/types'
+import type { WorkspaceData, WorkspaceFile, WorkspaceFolder } from '../src/types/workspace'
 
 // Windows Store auto-launch support (for APPX builds)
 let WindowsStoreAutoLaunch: any = null;
@@ -66,9 +167,24 @@ let win: BrowserWindow | null
 // minimized, hidden, or unfocused. Reads calendar data directly from disk.
 // ============================================================================
 let remindersEnabled = true;
-const triggeredReminderKeys = new Set<string>();
 let reminderInterval: ReturnType<typeof setInterval> | null = null;
 
+// Fired, snoozed and escalating reminders survive restarts so nothing is lost or shown twice
+const REMINDER_STATE_PATH = path.join(app.getPath('userData'), 'reminder-state.json');
+let reminderState: ReminderState = createReminderState();
+let reminderStateLoaded = false;
+
+interface ReminderAlertData {
+    id: string;
+    noteId: string;
+    date: string;
+    note: any;
+    triggeredAt: number;
+    repeatCount?: number;
+    snoozed?: boolean;      // Shown again after a snooze
+    escalating?: boolean;   // High-importance reminder that repeats until acknowledged
+}
+
 function toLocalDateKeyMain(date: Date): string {
     const y = date.getFullYear();
     const m = String(date.getMonth() + 1).padStart(2, '0');
@@ -76,6 +192,175 @@ function toLocalDateKeyMain(date: Date): string {
     return `${y}-${m}-${d}`;
 }
 
+async function loadReminderState() {
+    if (reminderStateLoaded) return;
+    try {
+        if (existsSync(REMINDER_STATE_PATH)) {
+            reminderState = normaliseReminderState(JSON.parse(await fs.readFile(REMINDER_STATE_PATH, 'utf-8')));
+        }
+    } catch (e) {
+        console.error('[Reminder] Failed to load reminder state:', e);
+    }
+    reminderStateLoaded = true;
+}
+
+async function saveReminderState() {
+    try {
+        await fs.writeFile(REMINDER_STATE_PATH, JSON.stringify(reminderState, null, 2));
+    } catch (e) {
+        console.error('[Reminder] Failed to save reminder state:', e);
+    }
+}
+
+// Calendar notes as last read, kept while the file is unchanged so days expanded on earlier checks stay cached
+let reminderNotesCache: { path: string; mtimeMs: number; notes: NotesData | null } | null = null;
+
+async function loadReminderNotes(): Promise<NotesData | null> {
+    if (!existsSync(currentDataPath)) return null;
+    const { mtimeMs } = await fs.stat(currentDataPath);
+    if (reminderNotesCache?.path !== currentDataPath || reminderNotesCache.mtimeMs !== mtimeMs) {
+        const rawData = JSON.parse(await fs.readFile(currentDataPath, 'utf-8'));
+        reminderNotesCache = { path: currentDataPath, mtimeMs, notes: rawData.notes || null };
+    }
+    return reminderNotesCache.notes;
+}
+
+/**
+ * Event occurrences that may have reminders due: today's, plus yesterday's and
+ * tomorrow's when pinned to another time zone (they can fall on a neighbouring
+ * date key). Recurring series are expanded per day.
+ */
+function getReminderCandidates(notes: NotesData, now: Date): { dateKey: string; note: any }[] {
+    const candidates: { dateKey: string; note: any }[] = [];
+    for (const offset of [-1, 0, 1]) {
+        const day = new Date(now);
+        day.setDate(day.getDate() + offset);
+        const dateKey = toLocalDateKeyMain(day);
+        for (const note of getNotesForDate(notes, dateKey)) {
+            if (offset === 0 || note.timeZone) candidates.push({ dateKey, note });
+        }
+    }
+    return candidates;
+}
+
+/**
+ * The occurrence a fired reminder belongs to, looked up on its own date: a
+ * snooze or escalation can carry it past midnight, when that date is no longer
+ * among today's candidates.
+ */
+function findReminderNote(notes: NotesData, record: ReminderRecord): any | undefined {
+    return getNotesForDate(notes, record.dateKey).find(note => note.id === record.noteId);
+}
+
+/** High-importance reminders repeat until acknowledged, up to a cutoff after the event starts. */
+function shouldEscalate(dateKey: string, note: any, nowMs: number): boolean {
+    return note.importance === 'high' && nowMs < getNoteInstant(dateKey, note).getTime() + REMINDER_EXPIRY_MINUTES * 60 * 1000;
+}
+
+/** Snooze reminders until a given time (from the overlay or a notification action). */
+async function snoozeReminders(alertIds: string[], until: number) {
+    await loadReminderState();
+    for (const id of alertIds) reminderState = snoozeReminder(reminderState, id, until);
+    await saveReminderState();
+    console.log(`[Reminder] Snoozed ${alertIds.length} reminder(s) until ${new Date(until).toLocaleTimeString()}`);
+}
+
+const escapeXml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Windows toast for a reminder. Electron doesn't report which toast button was
+ * pressed, so rather than one button per snooze preset it has a "Snooze..."
+ * button that activates the app (a click) to pick one in the overlay, and a
+ * Dismiss button handled by Windows.
+ */
+function buildReminderToastXml(title: string, body: string, escalating: boolean): string {
+    return `<toast${escalating ? ' scenario="reminder"' : ''}>
+    <visual><binding template="ToastGeneric"><text>${escapeXml(title)}</text><text>${escapeXml(body)}</text></binding></visual>
+    <actions>
+        <action content="Snooze..." arguments="snooze" activationType="foreground"/>
+        <action content="Dismiss" arguments="dismiss" activationType="system"/>
+    </actions>
+</toast>`;
+}
+
+/**
+ * Show reminder alerts: a native notification with snooze actions (buttons on
+ * macOS, a button opening the overlay's snooze options on Windows) plus the
+ * in-app overlay when the window is focused.
+ */
+function showReminderAlerts(alerts: ReminderAlertData[]) {
+    console.log(`[Reminder] >>> FIRING ${alerts.length} notification(s):`);
+    alerts.forEach(a => console.log(`[Reminder]   - "${a.note.title}" @ ${a.note.time} (${a.note._triggerMinutes}min before${a.repeatCount ? `, repeat ${a.repeatCount}` : ''})`));
+    console.log(`[Reminder] Notification.isSupported() = ${Notification.isSupported()}`);
+
+    const escalating = alerts.some(a => a.escalating);
+    const title = alerts.length === 1
+        ? `${alerts[0].snoozed ? 'Snoozed: ' : escalating && alerts[0].repeatCount ? 'Still pending: ' : ''}${alerts[0].note.title}`
+        : `${alerts.length} upcoming events`;
+    // Show times in this machine's zone
+    const alertTime = (a: ReminderAlertData) => toViewerDateTime(a.date, a.note).time;
+    const body = alerts.length === 1
+        ? `${alertTime(alerts[0])} - ${alerts[0].note.description || 'Event reminder'}`
+        : alerts.map((a: ReminderAlertData) => `${alertTime(a)} ${a.note.title}`).join(', ');
+
+    const showOverlay = () => {
+        if (win && win.webContents) win.webContents.send('event-reminder-alerts', alerts);
+    };
+
+    // Fire native desktop notification (works even when window is minimized/hidden)
+    try {
+        console.log(`[Reminder] Native notification: "${title}" - "${body}"`);
+
+        const notification = new Notification({
+            title,
+            body,
+            icon: app.isPackaged
+                ? path.join(process.resourcesPath, 'icon.png')
+                : path.join(process.env.VITE_PUBLIC || '', 'app-icons/default.png'),
+            silent: false,
+            // Escalating reminders stay on screen until dealt with
+            urgency: escalating ? 'critical' : 'normal',
+            timeoutType: escalating ? 'never' : 'default',
+            // Snooze buttons (macOS only; on Linux clicking opens the overlay's snooze options)
+            actions: SNOOZE_PRESET_MINUTES.map(mins => ({ type: 'button' as const, text: `Snooze ${mins} min` })),
+            closeButtonText: 'Dismiss',
+            ...(process.platform === 'win32' ? { toastXml: buildReminderToastXml(title, body, escalating) } : {}),
+        });
+        notification.on('click', () => {
+            console.log('[Reminder] Notification clicked - restoring window');
+            if (win) {
+                if (win.isMinimized()) win.restore();
+                win.show();
+                win.focus();
+            }
+            showOverlay();
+        });
+        notification.on('action', (_event, index) => {
+            const mins = SNOOZE_PRESET_MINUTES[index];
+            if (mins) snoozeReminders(alerts.map(a => a.id), Date.now() + mins * 60 * 1000);
+        });
+        notification.show();
+        console.log('[Reminder] notification.show() called successfully');
+    } catch (e) {
+        console.error('[Reminder] Failed to show native notification:', e);
+    }
+
+    // Flash the taskbar
+    if (win) {
+        win.flashFrame(true);
+        setTimeout(() => { if (win) win.flashFrame(false); }, 5000);
+    }
+
+    // Only show in-app overlay if the window is focused (avoid double notification)
+    if (win && win.webContents && win.isFocused()) {
+        console.log('[Reminder] Window focused - sending in-app overlay');
+        showOverlay();
+    } else {
+        console.log('[Reminder] Window not focused - desktop notification only');
+    }
+}
+
 async function checkRemindersBackground() {
     if (!remindersEnabled) {
         console.log('[Reminder] Check skipped - reminders disabled');
@@ -83,120 +368,83 @@ async function checkRemindersBackground() {
     }
 
     try {
-        if (!existsSync(currentDataPath)) return;
-        const rawData = JSON.parse(await fs.readFile(currentDataPath, 'utf-8'));
-        if (!rawData.notes) return;
-
+        await loadReminderState();
         const now = new Date();
         const nowMs = now.getTime();
-        const todayKey = toLocalDateKeyMain(now);
-        const todayNotes = rawData.notes[todayKey];
+        const notes = await loadReminderNotes();
+        if (!notes) return;
+        const candidates = getReminderCandidates(notes, now);
 
+        const todayNotes = candidates.map(c => c.note);
         const timeStr = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}:${String(now.getSeconds()).padStart(2, '0')}`;
-        const eventsWithReminders = Array.isArray(todayNotes)
-            ? todayNotes.filter((n: any) => n.reminder && Array.isArray(n.reminder) && n.reminder.length > 0 && n.time && !n.completed && !n.missed)
-            : [];
-        console.log(`[Reminder] Check @ ${timeStr} | Today: ${Array.isArray(todayNotes) ? todayNotes.length : 0} events, ${eventsWithReminders.length} with reminders, ${triggeredReminderKeys.size} already triggered`);
+        const eventsWithReminders = todayNotes.filter((n: any) => n.reminder && Array.isArray(n.reminder) && n.reminder.length > 0 && n.time && !n.completed && !n.missed);
+        console.log(`[Reminder] Check @ ${timeStr} | Today: ${todayNotes.length} events, ${eventsWithReminders.length} with reminders, ${Object.keys(reminderState.records).length} already triggered`);
 
-        if (!Array.isArray(todayNotes) || todayNotes.length === 0) return;
+        // Forget reminders for events from previous days
+        const previousState = reminderState;
+        reminderState = pruneReminderState(reminderState, toLocalDateKeyMain(now));
 
-        // Clean up triggered keys at midnight
-        if (now.getHours() === 0 && now.getMinutes() === 0) {
-            triggeredReminderKeys.clear();
-        }
-
-        interface ReminderAlertData {
-            id: string;
-            noteId: string;
-            date: string;
-            note: any;
-            triggeredAt: number;
-        }
         const newAlerts: ReminderAlertData[] = [];
 
-        for (const note of todayNotes) {
+        for (const { dateKey, note } of candidates) {
             if (!note.time || note.completed || note.missed) continue;
             if (!note.reminder || !Array.isArray(note.reminder) || note.reminder.length === 0) continue;
 
-            const [h, m] = note.time.split(':').map(Number);
-            const eventTime = new Date(now);
-            eventTime.setHours(h, m, 0, 0);
+            // Wall time in the event's own zone (or local time for floating events)
+            const eventTime = getNoteInstant(dateKey, note);
+            const localTime = toViewerDateTime(dateKey, note).time;
 
             for (const mins of note.reminder) {
                 const reminderTime = new Date(eventTime.getTime() - mins * 60 * 1000);
-                const reminderKey = `${todayKey}-${note.id}-${mins}`;
+                const key = reminderKey(dateKey, note.id, mins);
 
                 const pastReminder = nowMs >= reminderTime.getTime();
                 const withinWindow = nowMs <= eventTime.getTime() + 5 * 60 * 1000;
-                const alreadyTriggered = triggeredReminderKeys.has(reminderKey);
+                const alreadyTriggered = hasFired(reminderState, key);
 
-                console.log(`[Reminder]   "${note.title}" @ ${note.time} | reminder=${mins}min | past=${pastReminder} window=${withinWindow} triggered=${alreadyTriggered}`);
+                console.log(`[Reminder]   "${note.title}" @ ${localTime}${note.timeZone ? ` (${note.time} ${note.timeZone})` : ''} | reminder=${mins}min | past=${pastReminder} window=${withinWindow} triggered=${alreadyTriggered}`);
 
                 if (pastReminder && withinWindow && !alreadyTriggered) {
-                    triggeredReminderKeys.add(reminderKey);
+                    const escalate = shouldEscalate(dateKey, note, nowMs);
+                    reminderState = recordFired(reminderState, key, { dateKey, noteId: note.id, minutes: mins }, nowMs, escalate);
                     newAlerts.push({
-                        id: reminderKey,
+                        id: key,
                         noteId: note.id,
-                        date: todayKey,
+                        date: dateKey,
                         note: { ...note, _triggerMinutes: mins },
                         triggeredAt: nowMs,
+                        escalating: escalate,
                     });
                 }
             }
         }
 
-        if (newAlerts.length > 0) {
-            console.log(`[Reminder] >>> FIRING ${newAlerts.length} notification(s):`);
-            newAlerts.forEach(a => console.log(`[Reminder]   - "${a.note.title}" @ ${a.note.time} (${a.note._triggerMinutes}min before)`));
-            console.log(`[Reminder] Notification.isSupported() = ${Notification.isSupported()}`);
-
-            const title = newAlerts.length === 1
-                ? newAlerts[0].note.title
-                : `${newAlerts.length} upcoming events`;
-            const body = newAlerts.length === 1
-                ? `${newAlerts[0].note.time} - ${newAlerts[0].note.description || 'Event reminder'}`
-                : newAlerts.map((a: ReminderAlertData) => `${a.note.time} ${a.note.title}`).join(', ');
-
-            // Fire native desktop notification (works even when window is minimized/hidden)
-            try {
-                console.log(`[Reminder] Native notification: "${title}" - "${body}"`);
-
-                const notification = new Notification({
-                    title,
-                    body,
-                    icon: app.isPackaged
-                        ? path.join(process.resourcesPath, 'icon.png')
-                        : path.join(process.env.VITE_PUBLIC || '', 'app-icons/default.png'),
-                    silent: false,
-                });
-                notification.on('click', () => {
-                    console.log('[Reminder] Notification clicked - restoring window');
-                    if (win) {
-                        if (win.isMinimized()) win.restore();
-                        win.show();
-                        win.focus();
-                    }
-                });
-                notification.show();
-                console.log('[Reminder] notification.show() called successfully');
-            } catch (e) {
-                console.error('[Reminder] Failed to show native notification:', e);
-            }
-
-            // Flash the taskbar
-            if (win) {
-                win.flashFrame(true);
-                setTimeout(() => { if (win) win.flashFrame(false); }, 5000);
+        // Snoozes that have run out and escalating reminders still waiting for acknowledgement
+        for (const [key, record] of getDueRepeats(reminderState, nowMs)) {
+            const note = findReminderNote(notes, record);
+            if (!note || note.completed || note.missed) {
+                // Event was deleted or dealt with in the meantime
+                reminderState = acknowledgeReminder(reminderState, key);
+                continue;
             }
 
-            // Only show in-app overlay if the window is focused (avoid double notification)
-            if (win && win.webContents && win.isFocused()) {
-                console.log('[Reminder] Window focused - sending in-app overlay');
-                win.webContents.send('event-reminder-alerts', newAlerts);
-            } else {
-                console.log('[Reminder] Window not focused - desktop notification only');
-            }
+            const escalate = shouldEscalate(record.dateKey, note, nowMs);
+            const wasSnoozed = record.status === 'snoozed';
+            reminderState = recordRepeat(reminderState, key, nowMs, escalate);
+            newAlerts.push({
+                id: key,
+                noteId: record.noteId,
+                date: record.dateKey,
+                note: { ...note, _triggerMinutes: record.minutes },
+                triggeredAt: nowMs,
+                repeatCount: reminderState.records[key].repeatCount,
+                snoozed: wasSnoozed,
+                escalating: escalate,
+            });
         }
+
+        if (reminderState !== previousState) await saveReminderState();
+        if (newAlerts.length > 0) showReminderAlerts(newAlerts);
     } catch (e) {
         console.error('[Reminder] Background check error:', e);
     }
@@ -210,6 +458,702 @@ function startReminderChecker() {
     reminderInterval = setInterval(() => checkRemindersBackground(), 30000);
 }
 
+// ============================================================================
+// ICS SUBSCRIPTION FEED
+// ============================================================================
+// Serves a read-only calendar feed on the loopback interface so other local
+// calendar clients can subscribe (http://127.0.0.1:<port>/calendar.ics).
+// Requests need the feed's token unless the user turned it off, and must be
+// addressed to 127.0.0.1 or localhost so a web page can't reach the feed
+// through DNS rebinding. The feed is regenerated from calendar-data.json on every save-data write
+// and cached in memory between writes.
+// ============================================================================
+const ICS_FEED_DEFAULT_PORT = 41520;
+let icsFeedServer: http.Server | null = null;
+let icsFeedCache: string | null = null;
+
+interface IcsFeedSettings {
+    enabled: boolean;
+    port: number;
+    token?: string; // When set, requests must include ?token=<value>
+    tokenDisabled?: boolean; // The user turned the token off; otherwise one is always created
+}
+
+function getIcsFeedSettings(): IcsFeedSettings {
+    return {
+        enabled: false,
+        port: ICS_FEED_DEFAULT_PORT,
+        ...(deviceSettings.icsFeed || {}),
+    };
+}
+
+// Give feeds without a token one, unless the user turned it off
+async function ensureIcsFeedToken(settings: IcsFeedSettings) {
+    if (settings.token || settings.tokenDisabled) return;
+    settings.token = randomBytes(16).toString('hex');
+    deviceSettings.icsFeed = settings;
+    await saveDeviceSettings();
+}
+
+// Compares digests so neither the token's characters nor its length leak through timing
+const icsTokenMatches = (given: string | null, expected: string): boolean =>
+    given !== null && timingSafeEqual(
+        createHash('sha256').update(given).digest(),
+        createHash('sha256').update(expected).digest(),
+    );
+
+function getIcsFeedUrl(settings: IcsFeedSettings): string {
+    const query = settings.token ? `?token=${settings.token}` : '';
+    return `http://127.0.0.1:${settings.port}/calendar.ics${query}`;
+}
+
+async function regenerateIcsFeed() {
+    if (!icsFeedServer) return;
+    try {
+        const rawData = existsSync(currentDataPath)
+            ? JSON.parse(await fs.readFile(currentDataPath, 'utf-8'))
+            : {};
+        icsFeedCache = generateICS({
+            notes: rawData.notes || {},
+            milestones: rawData.milestones || {},
+            lifeChapters: rawData.lifeChapters || { chapters: [] },
+        });
+    } catch (e) {
+        // Keep serving the last good feed if the data file can't be read
+        console.error('[ICS Feed] Failed to regenerate feed:', e);
+    }
+}
+
+function stopIcsFeedServer(): Promise<void> {
+    return new Promise((resolve) => {
+        if (!icsFeedServer) return resolve();
+        const server = icsFeedServer;
+        icsFeedServer = null;
+        icsFeedCache = null;
+        server.close(() => resolve());
+    });
+}
+
+async function startIcsFeedServer(): Promise<void> {
+    await stopIcsFeedServer();
+    const settings = getIcsFeedSettings();
+    await ensureIcsFeedToken(settings);
+    const allowedHosts = [`127.0.0.1:${settings.port}`, `localhost:${settings.port}`];
+
+    const server = http.createServer((req, res) => {
+        if (!allowedHosts.includes((req.headers.host || '').toLowerCase())) {
+            res.writeHead(403).end();
+            return;
+        }
+        const url = new URL(req.url || '/', `http://127.0.0.1:${settings.port}`);
+        if (req.method !== 'GET' && req.method !== 'HEAD') {
+            res.writeHead(405, { Allow: 'GET, HEAD' }).end();
+            return;
+        }
+        if (url.pathname !== '/calendar.ics') {
+            res.writeHead(404).end();
+            return;
+        }
+        if (settings.token && !icsTokenMatches(url.searchParams.get('token'), settings.token)) {
+            res.writeHead(401).end();
+            return;
+        }
+        res.writeHead(200, {
+            'Content-Type': 'text/calendar; charset=utf-8',
+            'Content-Disposition': 'inline; filename="calendar.ics"',
+            'Cache-Control': 'no-cache',
+        });
+        res.end(req.method === 'HEAD' ? undefined : icsFeedCache || '');
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        // Loopback only - the feed is never exposed to the network
+        server.listen(settings.port, '127.0.0.1', () => {
+            server.off('error', reject);
+            resolve();
+        });
+    });
+
+    icsFeedServer = server;
+    await regenerateIcsFeed();
+    console.log(`[ICS Feed] Serving ${getIcsFeedUrl({ ...settings, token: settings.token ? '***' : undefined })}`);
+}
+
+// ============================================================================
+// WORKSPACE SEARCH INDEX
+// ============================================================================
+// Full-text index over workspace files (including text extracted from PDF,
+// DOCX and XLSX documents), calendar events and tasks. Files are indexed on
+// the first search and kept current by the workspace watcher; while the
+// watcher is stopped, each search re-checks modification times instead.
+// Events and tasks are re-indexed whenever they are saved.
+// ============================================================================
+const SEARCH_MAX_FILE_BYTES = 50 * 1024 * 1024;
+const SEARCH_MAX_TEXT_CHARS = 500_000; // Per file, so huge documents don't dominate memory
+const SEARCH_SCAN_DEPTH = 5;
+const SEARCH_EXTENSIONS = [
+    '.exec', '.brd', '.nbm', '.nt', '.deck', '.txt', '.md', '.markdown',
+    '.pdf', '.docx', '.xlsx', '.xls'
+];
+
+const searchIndex = new SearchIndex();
+const searchFileMtimes = new Map<string, number>();
+let searchIndexedDir: string | null = null;
+let searchSyncPromise: Promise<void> | null = null;
+
+const isSearchableFile = (filePath: string) =>
+    SEARCH_EXTENSIONS.includes(path.extname(filePath).toLowerCase()) &&
+    !filePath.split(/[\\/]/).some(part => part.startsWith('.'));
+
+async function extractPdfText(filePath: string): Promise<string> {
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+    const data = new Uint8Array(await fs.readFile(filePath));
+    const pdf = await pdfjs.getDocument({ data, isEvalSupported: false, useSystemFonts: true }).promise;
+    try {
+        const pages: string[] = [];
+        for (let i = 1; i <= pdf.numPages; i++) {
+            const content = await (await pdf.getPage(i)).getTextContent();
+            pages.push(content.items.map(item => ('str' in item ? item.str : '')).join(' '));
+        }
+        return pages.join('\n');
+    } finally {
+        await pdf.destroy();
+    }
+}
+
+// Searchable text of a workspace file (null if it has none), plus for notebooks the
+// text without code cells, as `tagText`, that its #tags are read from
+async function extractSearchText(filePath: string): Promise<{ text: string | null; tagText?: string | null }> {
+    const ext = path.extname(filePath).toLowerCase();
+    switch (ext) {
+        case '.pdf':
+            return { text: await extractPdfText(filePath) };
+        case '.docx': {
+            const mammoth = require('mammoth');
+            const result = await mammoth.extractRawText({ path: filePath });
+            return { text: result.value };
+        }
+        case '.xlsx':
+        case '.xls': {
+            const XLSX = require('xlsx');
+            const workbook = XLSX.readFile(filePath);
+            return {
+                text: workbook.SheetNames
+                    .map((name: string) => `${name}\n${XLSX.utils.sheet_to_csv(workbook.Sheets[name], { blankrows: false })}`)
+                    .join('\n'),
+            };
+        }
+        default: {
+            const raw = await fs.readFile(filePath, 'utf-8');
+            return { text: extractWorkspaceText(ext, raw), tagText: extractWorkspaceText(ext, raw, false) };
+        }
+    }
+}
+
+async function indexWorkspaceFile(filePath: string, mtimeMs?: number) {
+    try {
+        const stats = await fs.stat(filePath);
+        const mtime = mtimeMs ?? stats.mtimeMs;
+        let text = '';
+        let tagText: string | undefined;
+        if (stats.size <= SEARCH_MAX_FILE_BYTES) {
+            try {
+                const extracted = await extractSearchText(filePath);
+                text = extracted.text || '';
+                tagText = extracted.tagText?.slice(0, SEARCH_MAX_TEXT_CHARS);
+            } catch (e) {
+                // Still findable by name
+                console.error('[Search] Failed to extract text from', filePath, e);
+            }
+        }
+        const indexedText = text.slice(0, SEARCH_MAX_TEXT_CHARS);
+        searchIndex.add(createFileDocument(filePath, indexedText, mtime, tagText ?? indexedText));
+        searchFileMtimes.set(filePath, mtime);
+    } catch {
+        // Gone before it could be read
+        removeWorkspaceFileFromIndex(filePath);
+    }
+}
+
+function removeWorkspaceFileFromIndex(filePath: string) {
+    searchIndex.remove(filePath);
+    searchFileMtimes.delete(filePath);
+}
+
+function removeWorkspaceFolderFromIndex(dirPath: string) {
+    const prefix = dirPath + path.sep;
+    searchIndex.removeWhere(d => d.kind === 'file' && !!d.filePath?.startsWith(prefix));
+    for (const filePath of [...searchFileMtimes.keys()]) {
+        if (filePath.startsWith(prefix)) searchFileMtimes.delete(filePath);
+    }
+}
+
+// Bring file documents in line with what is on disk, re-extracting only changed files
+async function syncWorkspaceSearchIndex(wsDir: string) {
+    if (searchIndexedDir !== wsDir) {
+        searchIndex.removeWhere(d => d.kind === 'file');
+        searchFileMtimes.clear();
+        searchIndexedDir = wsDir;
+    }
+
+    const seen = new Set<string>();
+    const scan = async (dir: string, depth: number): Promise<void> => {
+        if (depth > SEARCH_SCAN_DEPTH) return;
+        const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+        for (const entry of entries) {
+            if (entry.name.startsWith('.')) continue;
+            const fullPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                await scan(fullPath, depth + 1);
+            } else if (entry.isFile() && isSearchableFile(fullPath)) {
+                seen.add(fullPath);
+                const stats = await fs.stat(fullPath).catch(() => null);
+                if (stats && searchFileMtimes.get(fullPath) !== stats.mtimeMs) {
+                    await indexWorkspaceFile(fullPath, stats.mtimeMs);
+                }
+            }
+        }
+    };
+    await scan(wsDir, 0);
+
+    for (const filePath of [...searchFileMtimes.keys()]) {
+        if (!seen.has(filePath)) removeWorkspaceFileFromIndex(filePath);
+    }
+}
+
+function indexCalendarEvents(notes: NotesData | undefined) {
+    searchIndex.replaceKind('event', createEventDocuments(notes || {}));
+}
+
+function indexTasks(todos: Task[] | undefined) {
+    searchIndex.replaceKind('task', createTaskDocuments(Array.isArray(todos) ? todos : []));
+}
+
+// Tags assigned to files in the workspace tree, so tag searches find them too
+function indexAssignedFileTags(workspace: WorkspaceData | undefined) {
+    const tagsByPath = new Map<string, string[]>();
+    for (const file of workspace?.files || []) {
+        if (file.filePath && file.tags?.length) tagsByPath.set(file.filePath, file.tags);
+    }
+    searchIndex.setAssignedTags(tagsByPath);
+}
+
+async function loadSearchEventsAndTasks() {
+    const dataDir = path.dirname(currentDataPath);
+    try {
+        const rawData = existsSync(currentDataPath) ? JSON.parse(await fs.readFile(currentDataPath, 'utf-8')) : {};
+        indexCalendarEvents(rawData.notes);
+        indexAssignedFileTags(rawData.workspace);
+    } catch (e) {
+        console.error('[Search] Failed to index calendar events:', e);
+    }
+    try {
+        const todosPath = path.join(dataDir, 'tasks.json');
+        const rawTodos = existsSync(todosPath) ? JSON.parse(await fs.readFile(todosPath, 'utf-8')) : {};
+        indexTasks(rawTodos.todos);
+    } catch (e) {
+        console.error('[Search] Failed to index tasks:', e);
+    }
+}
+
+/**
+ * Make sure the index reflects `wsDir`. A full build happens the first time
+ * (or after the data folder moves); afterwards files only need re-checking
+ * when the watcher isn't running to report changes.
+ */
+function ensureSearchIndex(wsDir: string, watching: boolean): Promise<void> {
+    if (searchSyncPromise) return searchSyncPromise;
+    if (watching && searchIndexedDir === wsDir) return Promise.resolve();
+
+    const firstBuild = searchIndexedDir !== wsDir;
+    searchSyncPromise = (async () => {
+        const started = Date.now();
+        if (firstBuild) await loadSearchEventsAndTasks();
+        await syncWorkspaceSearchIndex(wsDir);
+        if (firstBuild) console.log(`[Search] Indexed ${searchIndex.size} items in ${Date.now() - started}ms`);
+    })().finally(() => {
+        searchSyncPromise = null;
+    });
+    return searchSyncPromise;
+}
+
+// ============================================================================
+// AUTOMATIC BACKUPS
+// ============================================================================
+// Every hour the main process copies calendar-data.json, tasks.json,
+// settings.json and the workspace folder into a timestamped backup under the
+// app's userData folder (kept out of the synced data folder). Backups are
+// skipped when nothing changed since the last one and rotate by the
+// hourly/daily/weekly rules in src/utils/backups.ts. Files unchanged since the
+// previous backup are hard-linked to its copy rather than copied again, so
+// each backup only takes the space of what changed. Restoring takes a
+// pre-restore backup first so a restore can itself be undone.
+// ============================================================================
+const BACKUP_INTERVAL_MS = 60 * 60 * 1000;
+const BACKUP_FIRST_RUN_DELAY_MS = 60 * 1000;
+let backupInterval: NodeJS.Timeout | null = null;
+let backupQueue: Promise<unknown> = Promise.resolve();
+
+const getBackupsDir = () => path.join(app.getPath('userData'), 'backups');
+
+// Backups and restores never overlap
+function queueBackupTask<T>(task: () => Promise<T>): Promise<T> {
+    const result = backupQueue.then(task);
+    backupQueue = result.catch(() => { });
+    return result;
+}
+
+// Workspace file paths relative to `dir`, '/'-separated; hidden entries (e.g. .trash) are skipped
+async function listBackupFiles(dir: string, prefix = ''): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    const files: string[] = [];
+    for (const entry of entries) {
+        if (entry.name.startsWith('.')) continue;
+        const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) files.push(...await listBackupFiles(path.join(dir, entry.name), relativePath));
+        else if (entry.isFile()) files.push(relativePath);
+    }
+    return files;
+}
+
+async function readJsonIfExists(filePath: string): Promise<any> {
+    try {
+        return existsSync(filePath) ? JSON.parse(await fs.readFile(filePath, 'utf-8')) : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+// Summarize a data folder laid out like the real one (the data folder itself or a backup)
+async function summarizeDataFolder(folder: string): Promise<BackupSummary> {
+    const workspaceDir = path.join(folder, BACKUP_WORKSPACE_FOLDER);
+    const workspaceFiles = await listBackupFiles(workspaceDir);
+    const decks = await Promise.all(workspaceFiles
+        .filter(file => file.toLowerCase().endsWith('.deck'))
+        .map(file => readJsonIfExists(path.join(workspaceDir, file))));
+
+    return summarizeBackupContents({
+        calendarData: await readJsonIfExists(path.join(folder, 'calendar-data.json')),
+        tasksData: await readJsonIfExists(path.join(folder, 'tasks.json')),
+        workspaceFiles,
+        decks,
+    });
+}
+
+// Cheap change detection from file sizes and modification times
+async function fingerprintDataFolder(dataDir: string): Promise<string> {
+    const hash = createHash('sha1');
+    const workspaceFiles = (await listBackupFiles(path.join(dataDir, BACKUP_WORKSPACE_FOLDER)))
+        .map(file => `${BACKUP_WORKSPACE_FOLDER}/${file}`);
+    for (const file of [...BACKUP_DATA_FILES, ...workspaceFiles]) {
+        const stats = await fs.stat(path.join(dataDir, file)).catch(() => null);
+        hash.update(`${file}\0${stats ? `${stats.size}:${stats.mtimeMs}` : '-'}\n`);
+    }
+    return hash.digest('hex');
+}
+
+async function listBackups(): Promise<BackupManifest[]> {
+    const entries = await fs.readdir(getBackupsDir(), { withFileTypes: true }).catch(() => []);
+    const manifests: BackupManifest[] = [];
+    for (const entry of entries) {
+        if (!entry.isDirectory()) continue;
+        const manifest = await readJsonIfExists(path.join(getBackupsDir(), entry.name, 'manifest.json'));
+        if (manifest?.id === entry.name) manifests.push(manifest);
+    }
+    return manifests.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+async function pruneBackups() {
+    const backups = await listBackups();
+    const keep = selectBackupsToKeep(backups, Date.now());
+    const entries = await fs.readdir(getBackupsDir(), { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+        // Folders without a manifest are backups that were interrupted part-way
+        if (!entry.isDirectory() || keep.has(entry.name)) continue;
+        await fs.rm(path.join(getBackupsDir(), entry.name), { recursive: true, force: true })
+            .catch(e => console.error('[Backup] Failed to remove old backup', entry.name, e));
+    }
+}
+
+/**
+ * Put `file` (relative to the data folder) into a new backup: a hard link to
+ * the previous backup's copy if the file hasn't been modified since that
+ * backup was taken, otherwise a fresh copy. Backup files are never written to
+ * after they are created, so sharing them between backups is safe.
+ */
+async function backupFile(dataDir: string, backupDir: string, file: string, previous?: BackupManifest) {
+    const source = path.join(dataDir, file);
+    const target = path.join(backupDir, file);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    if (previous) {
+        const previousCopy = path.join(getBackupsDir(), previous.id, file);
+        const [sourceStats, previousStats] = await Promise.all([
+            fs.stat(source).catch(() => null),
+            fs.stat(previousCopy).catch(() => null),
+        ]);
+        if (sourceStats && previousStats && sourceStats.mtimeMs < previous.createdAt && sourceStats.size === previousStats.size) {
+            // Falls back to copying where links aren't supported
+            const linked = await fs.link(previousCopy, target).then(() => true, () => false);
+            if (linked) return;
+        }
+    }
+    await fs.copyFile(source, target);
+}
+
+// Take a backup unless the data is unchanged since the last one (or `force` is set)
+async function createBackup(reason: BackupReason, force = false): Promise<BackupManifest | null> {
+    const dataDir = path.dirname(currentDataPath);
+    if (!existsSync(currentDataPath)) return null;
+
+    const fingerprint = await fingerprintDataFolder(dataDir);
+    const [latest] = await listBackups();
+    if (!force && latest?.fingerprint === fingerprint) return null;
+
+    const createdAt = Date.now();
+    const id = createBackupId(new Date(createdAt));
+    const backupDir = path.join(getBackupsDir(), id);
+    await fs.mkdir(backupDir, { recursive: true });
+
+    // Copy the data files under the data lock so a save can't land half-way through
+    await dataFileLock.withLock(async () => {
+        for (const file of BACKUP_DATA_FILES) {
+            if (existsSync(path.join(dataDir, file))) await backupFile(dataDir, backupDir, file, latest);
+        }
+    });
+
+    // The workspace's folders first, so empty ones are restored too
+    const workspaceDir = path.join(dataDir, BACKUP_WORKSPACE_FOLDER);
+    if (existsSync(workspaceDir)) {
+        await fs.cp(workspaceDir, path.join(backupDir, BACKUP_WORKSPACE_FOLDER), {
+            recursive: true,
+            filter: async source => !path.basename(source).startsWith('.') && (await fs.stat(source)).isDirectory(),
+        });
+    }
+    for (const file of await listBackupFiles(workspaceDir)) {
+        await backupFile(dataDir, backupDir, `${BACKUP_WORKSPACE_FOLDER}/${file}`, latest);
+    }
+
+    const manifest: BackupManifest = { id, createdAt, reason, fingerprint, summary: await summarizeDataFolder(backupDir) };
+    // Written last: a backup only counts once its manifest exists
+    await fs.writeFile(path.join(backupDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+    await pruneBackups();
+    console.log(`[Backup] Created ${reason} backup ${id}`);
+    return manifest;
+}
+
+/**
+ * Restore a backup into the data folder. With `relativePath` only that file
+ * (e.g. 'tasks.json' or 'workspace/Notes/Ideas.nt') or folder is restored;
+ * otherwise the data files and the whole workspace folder are replaced.
+ */
+async function restoreBackup(id: string, relativePath?: string) {
+    const backups = await listBackups();
+    if (!backups.some(b => b.id === id)) throw new Error('Backup not found');
+
+    const backupDir = path.join(getBackupsDir(), id);
+    const dataDir = path.dirname(currentDataPath);
+    const source = relativePath ? path.resolve(backupDir, relativePath) : backupDir;
+    if (!source.startsWith(backupDir + path.sep) && source !== backupDir) throw new Error('Invalid path');
+    if (!existsSync(source)) throw new Error('File not found in backup');
+
+    await createBackup('pre-restore', true);
+
+    const restoreDataFile = async (file: string) => {
+        const content = await fs.readFile(path.join(backupDir, file), 'utf-8');
+        await dataFileLock.withLock(() => atomicWriteFile(path.join(dataDir, file), content));
+    };
+
+    if (relativePath) {
+        const normalized = path.relative(backupDir, source).split(path.sep).join('/');
+        if (BACKUP_DATA_FILES.includes(normalized)) {
+            await restoreDataFile(normalized);
+        } else {
+            const target = path.join(dataDir, normalized);
+            await fs.mkdir(path.dirname(target), { recursive: true });
+            await fs.cp(source, target, { recursive: true, force: true });
+        }
+    } else {
+        for (const file of BACKUP_DATA_FILES) {
+            if (existsSync(path.join(backupDir, file))) await restoreDataFile(file);
+        }
+        // Replace the workspace, leaving hidden folders alone
+        const workspaceDir = path.join(dataDir, BACKUP_WORKSPACE_FOLDER);
+        const backupWorkspace = path.join(backupDir, BACKUP_WORKSPACE_FOLDER);
+        const entries = await fs.readdir(workspaceDir, { withFileTypes: true }).catch(() => []);
+        for (const entry of entries) {
+            if (!entry.name.startsWith('.')) await fs.rm(path.join(workspaceDir, entry.name), { recursive: true, force: true });
+        }
+        if (existsSync(backupWorkspace)) await fs.cp(backupWorkspace, workspaceDir, { recursive: true, force: true });
+    }
+
+    await regenerateIcsFeed();
+    await loadSearchEventsAndTasks();
+    console.log(`[Backup] Restored ${relativePath || 'everything'} from ${id}`);
+}
+
+function startBackupScheduler() {
+    if (backupInterval) clearInterval(backupInterval);
+    const run = () => queueBackupTask(() => createBackup('auto'))
+        .catch(e => console.error('[Backup] Automatic backup failed:', e));
+    setTimeout(run, BACKUP_FIRST_RUN_DELAY_MS);
+    backupInterval = setInterval(run, BACKUP_INTERVAL_MS);
+}
+
+// ============================================================================
+// WORKSPACE FILE HISTORY
+// ============================================================================
+// Every save of a native workspace file also stores a gzip-compressed
+// revision in workspace/.history/<key>/, listed in that folder's index.json.
+// The key hashes the file's path relative to the workspace, so renames move
+// the history along. Old revisions are thinned by the rules in
+// src/utils/fileHistory.ts each time a new one is added.
+// ============================================================================
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+let historyQueue: Promise<unknown> = Promise.resolve();
+
+const getWorkspaceHistoryDir = () => path.join(path.dirname(currentDataPath), 'workspace', HISTORY_FOLDER_NAME);
+
+const isVersionedFile = (filePath: string) => VERSIONED_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+
+const isValidRevisionId = (id: unknown): id is string => typeof id === 'string' && /^[\w-]+$/.test(id);
+
+function getFileHistoryDir(filePath: string): string {
+    const wsDir = path.join(path.dirname(currentDataPath), 'workspace');
+    const resolved = path.resolve(filePath);
+    const key = resolved.startsWith(wsDir + path.sep)
+        ? path.relative(wsDir, resolved).split(path.sep).join('/')
+        : resolved;
+    return path.join(getWorkspaceHistoryDir(), createHash('sha1').update(key).digest('hex'));
+}
+
+// History writes for all files run one at a time
+function queueHistoryTask<T>(task: () => Promise<T>): Promise<T> {
+    const result = historyQueue.then(task);
+    historyQueue = result.catch(() => { });
+    return result;
+}
+
+async function readHistoryIndex(filePath: string): Promise<FileHistoryIndex> {
+    const index = await readJsonIfExists(path.join(getFileHistoryDir(filePath), 'index.json'));
+    return Array.isArray(index?.revisions) ? index : { filePath, revisions: [] };
+}
+
+// Store `content` as the newest revision of `filePath` unless it is unchanged
+function recordFileRevision(filePath: string, content: string): Promise<void> {
+    return queueHistoryTask(async () => {
+        if (!isVersionedFile(filePath)) return;
+        const dir = getFileHistoryDir(filePath);
+        const index = await readHistoryIndex(filePath);
+        const hash = createHash('sha1').update(content).digest('hex');
+        const latest = index.revisions[index.revisions.length - 1];
+        const now = new Date();
+        const revision: FileRevision = { id: createRevisionId(now), savedAt: now.getTime(), size: Buffer.byteLength(content), hash };
+        if (latest?.hash === hash || latest?.id === revision.id) return;
+
+        await fs.mkdir(dir, { recursive: true });
+        await fs.writeFile(path.join(dir, `${revision.id}.gz`), await gzipAsync(content));
+
+        const all = [...index.revisions, revision];
+        const keep = selectRevisionsToKeep(all, now.getTime());
+        for (const old of all) {
+            if (!keep.has(old.id)) await fs.rm(path.join(dir, `${old.id}.gz`), { force: true });
+        }
+        const updated: FileHistoryIndex = { filePath, revisions: all.filter(r => keep.has(r.id)) };
+        await atomicWriteFile(path.join(dir, 'index.json'), JSON.stringify(updated, null, 2));
+    });
+}
+
+async function readFileRevision(filePath: string, revisionId: string): Promise<string> {
+    if (!isValidRevisionId(revisionId)) throw new Error('Invalid revision');
+    const data = await fs.readFile(path.join(getFileHistoryDir(filePath), `${revisionId}.gz`));
+    return (await gunzipAsync(data)).toString('utf-8');
+}
+
+function moveFileHistory(oldPath: string, newPath: string): Promise<void> {
+    return queueHistoryTask(async () => {
+        const from = getFileHistoryDir(oldPath);
+        const to = getFileHistoryDir(newPath);
+        if (from === to || !existsSync(from) || existsSync(to)) return;
+        await fs.rename(from, to);
+        const index = await readHistoryIndex(newPath);
+        await atomicWriteFile(path.join(to, 'index.json'), JSON.stringify({ ...index, filePath: newPath }, null, 2));
+    });
+}
+
+function deleteFileHistory(filePath: string): Promise<void> {
+    return queueHistoryTask(() => fs.rm(getFileHistoryDir(filePath), { recursive: true, force: true }));
+}
+
+// ============================================================================
+// WORKSPACE TRASH
+// ============================================================================
+// Deleting from the workspace moves native files into
+// workspace/.trash/<entry id>/ beside an entry.json describing what was
+// deleted and where it sat in the tree. Dot-folders are skipped by the
+// watcher, the search index, backups and document scans, so trashed files
+// stay out of sight until restored. Entries older than the retention period
+// (a device setting) are purged on startup and whenever the trash is listed.
+// ============================================================================
+const getWorkspaceTrashDir = () => path.join(path.dirname(currentDataPath), 'workspace', TRASH_FOLDER_NAME);
+
+const getTrashRetentionDays = (): number => deviceSettings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+
+const isValidTrashId = (id: unknown): id is string => typeof id === 'string' && /^[\w-]+$/.test(id);
+
+// Rename, falling back to copy + delete across devices
+async function moveFile(from: string, to: string) {
+    try {
+        await fs.rename(from, to);
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== 'EXDEV') throw e;
+        await fs.copyFile(from, to);
+        await fs.unlink(from);
+    }
+}
+
+async function listTrashEntries(): Promise<TrashEntry[]> {
+    const trashDir = getWorkspaceTrashDir();
+    const dirs = await fs.readdir(trashDir, { withFileTypes: true }).catch(() => []);
+    const entries: TrashEntry[] = [];
+    for (const dir of dirs) {
+        if (!dir.isDirectory()) continue;
+        try {
+            entries.push(JSON.parse(await fs.readFile(path.join(trashDir, dir.name, 'entry.json'), 'utf-8')));
+        } catch {
+            // Half-written entry; leave it for a manual purge
+        }
+    }
+    return entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+async function purgeTrashEntry(id: string) {
+    const entry = await readJsonIfExists(path.join(getWorkspaceTrashDir(), id, 'entry.json')) as TrashEntry | undefined;
+    await fs.rm(path.join(getWorkspaceTrashDir(), id), { recursive: true, force: true });
+
+    // The files are gone for good, so is their history
+    for (const { file, trashPath } of entry?.files || []) {
+        if (trashPath && file.filePath && !existsSync(file.filePath)) await deleteFileHistory(file.filePath);
+    }
+}
+
+// Drop expired entries and return the rest
+async function purgeExpiredTrash(): Promise<TrashEntry[]> {
+    const retentionDays = getTrashRetentionDays();
+    const remaining: TrashEntry[] = [];
+    for (const entry of await listTrashEntries()) {
+        if (isTrashEntryExpired(entry, Date.now(), retentionDays)) {
+            await purgeTrashEntry(entry.id);
+            console.log(`[Trash] Purged "${entry.name}" (deleted ${entry.deletedAt})`);
+        } else {
+            remaining.push(entry);
+        }
+    }
+    return remaining;
+}
+
 // ============================================================================
 // DEV MODE DATA ISOLATION
 // ============================================================================
@@ -894,6 +1838,8 @@ function createWindow() {
 // Unregister all shortcuts when quitting
 app.on('will-quit', () => {
     globalShortcut.unregisterAll();
+    stopIcsFeedServer();
+    stopAllLocalRuns();
 });
 
 app.on('window-all-closed', () => { if (process.platform !== 'darwin') app.quit() })
@@ -973,6 +1919,138 @@ function setupIpcHandlers() {
         return true;
     });
 
+    // Reminder overlay actions: snooze until a time, or acknowledge (stops escalation)
+    ipcMain.handle('snooze-reminders', async (_, alertIds: string[], until: number) => {
+        if (!Array.isArray(alertIds) || typeof until !== 'number' || until <= Date.now()) return false;
+        await snoozeReminders(alertIds, until);
+        return true;
+    });
+
+    ipcMain.handle('acknowledge-reminders', async (_, alertIds: string[]) => {
+        if (!Array.isArray(alertIds)) return false;
+        await loadReminderState();
+        for (const id of alertIds) reminderState = acknowledgeReminder(reminderState, id);
+        await saveReminderState();
+        return true;
+    });
+
+    // Reminders still waiting for the user, so the overlay can be restored after a restart
+    ipcMain.handle('get-active-reminders', async () => {
+        try {
+            await loadReminderState();
+            const notes = await loadReminderNotes();
+            if (!notes) return [];
+
+            const nowMs = Date.now();
+            const alerts: ReminderAlertData[] = [];
+            for (const [key, record] of getActiveReminders(reminderState)) {
+                const note = findReminderNote(notes, record);
+                if (!note || note.completed || note.missed) continue;
+                if (nowMs > getNoteInstant(record.dateKey, note).getTime() + REMINDER_EXPIRY_MINUTES * 60 * 1000) continue;
+                alerts.push({
+                    id: key,
+                    noteId: record.noteId,
+                    date: record.dateKey,
+                    note: { ...note, _triggerMinutes: record.minutes },
+                    triggeredAt: record.firedAt,
+                    repeatCount: record.repeatCount,
+                    escalating: record.nextRepeatAt !== undefined,
+                });
+            }
+            return alerts;
+        } catch (e) {
+            console.error('[Reminder] Failed to read active reminders:', e);
+            return [];
+        }
+    });
+
+    // ICS subscription feed status and configuration
+    ipcMain.handle('get-ics-feed-status', () => {
+        const settings = getIcsFeedSettings();
+        return {
+            enabled: settings.enabled,
+            running: !!icsFeedServer,
+            port: settings.port,
+            hasToken: !!settings.token,
+            url: getIcsFeedUrl(settings),
+        };
+    });
+
+    ipcMain.handle('set-ics-feed-config', async (_, config: { enabled?: boolean; port?: number; useToken?: boolean; regenerateToken?: boolean }) => {
+        const settings = getIcsFeedSettings();
+        if (typeof config.enabled === 'boolean') settings.enabled = config.enabled;
+        if (config.port && Number.isInteger(config.port) && config.port >= 1024 && config.port <= 65535) settings.port = config.port;
+        if (config.useToken === false) {
+            delete settings.token;
+            settings.tokenDisabled = true;
+        }
+        if (config.useToken) settings.tokenDisabled = false;
+        if ((config.useToken && !settings.token) || config.regenerateToken) settings.token = randomBytes(16).toString('hex');
+        if (settings.enabled) await ensureIcsFeedToken(settings);
+
+        deviceSettings.icsFeed = settings;
+        await saveDeviceSettings();
+
+        try {
+            if (settings.enabled) await startIcsFeedServer();
+            else await stopIcsFeedServer();
+            return { success: true, running: !!icsFeedServer, url: getIcsFeedUrl(settings), hasToken: !!settings.token, port: settings.port };
+        } catch (e) {
+            console.error('[ICS Feed] Failed to start server:', e);
+            const code = (e as NodeJS.ErrnoException).code;
+            return {
+                success: false,
+                running: false,
+                url: getIcsFeedUrl(settings),
+                hasToken: !!settings.token,
+                port: settings.port,
+                error: code === 'EADDRINUSE' ? `Port ${settings.port} is already in use` : (e as Error).message,
+            };
+        }
+    });
+
+    // Automatic backups: list, back up now, browse and restore
+    ipcMain.handle('list-backups', async () => {
+        try {
+            const [backups, current] = await Promise.all([listBackups(), summarizeDataFolder(path.dirname(currentDataPath))]);
+            return { success: true, backups, current };
+        } catch (e) {
+            console.error('[Backup] Failed to list backups:', e);
+            return { success: false, error: (e as Error).message, backups: [] };
+        }
+    });
+
+    ipcMain.handle('create-backup', async () => {
+        try {
+            const backup = await queueBackupTask(() => createBackup('manual', true));
+            return { success: true, backup };
+        } catch (e) {
+            console.error('[Backup] Manual backup failed:', e);
+            return { success: false, error: (e as Error).message };
+        }
+    });
+
+    ipcMain.handle('get-backup-files', async (_, id: string) => {
+        const backups = await listBackups();
+        if (!backups.some(b => b.id === id)) return { success: false, error: 'Backup not found', files: [] };
+        const backupDir = path.join(getBackupsDir(), id);
+        const files = [
+            ...BACKUP_DATA_FILES.filter(file => existsSync(path.join(backupDir, file))),
+            ...(await listBackupFiles(path.join(backupDir, BACKUP_WORKSPACE_FOLDER))).map(file => `${BACKUP_WORKSPACE_FOLDER}/${file}`),
+        ];
+        return { success: true, files };
+    });
+
+    ipcMain.handle('restore-backup', async (_, id: string, relativePath?: string) => {
+        try {
+            await queueBackupTask(() => restoreBackup(id, relativePath));
+            return { success: true };
+        } catch (e) {
+            console.error('[Backup] Restore failed:', e);
+            return { success: false, error: (e as Error).message };
+        }
+    });
+
     // Set taskbar overlay icon (notification badge) - Windows only
     ipcMain.handle('set-taskbar-badge', () => {
         if (win && process.platform === 'win32') {
@@ -1839,7 +2917,7 @@ function setupIpcHandlers() {
         }
     });
 
-    ipcMain.handle('generate-ai-overview', async (_, notes, userName) => {
+    ipcMain.handle('generate-ai-overview', async (_, notes, userName, schedule = []) => {
         try {
             console.log('generate-ai-overview called. Has apiKey:', !!deviceSettings.apiKey);
             if (!deviceSettings.apiKey) return "Please add your AI API key in settings! Make sure not to share it with anyone.";
@@ -1859,6 +2937,16 @@ function setupIpcHandlers() {
             const nameToUse = userName ? userName.split(' ')[0] : 'User';
             const today = new Date().toLocaleDateString('en-GB', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
 
+            // Free/busy summary for today and tomorrow (busy minutes, free slots within 09:00-18:00, clashes, all-day events)
+            const hasSchedule = Array.isArray(schedule) && schedule.length > 0;
+            const scheduleSection = hasSchedule ? `
+Schedule (today and tomorrow):
+${JSON.stringify(schedule)}
+` : '';
+            const scheduleRule = hasSchedule
+                ? `\n- If events overlap, gently point out the clash; if there's a useful free slot today, mention it`
+                : '';
+
             const prompt = `
 You are a warm, friendly personal assistant for ${nameToUse}. 
 Today is ${today}.
@@ -1875,10 +2963,11 @@ Rules:
 - Use **bold** for task names only
 - British English spelling
 - NO em dashes (—), NO colons after greetings
-- Write in flowing sentences, not bullet points
+- Write in flowing sentences, not bullet points${scheduleRule}
 
 Notes:
 ${notesStr}
+${scheduleSection}
             `;
 
             try {
@@ -1927,6 +3016,7 @@ Provide a 60-word analysis highlighting:
             }
 
             const now = new Date();
+            const localTimeZone = getLocalTimeZone();
             const descriptionField = generateDescriptions
                 ? `- descriptionOptions: Generate 3 distinct, helpful, professional, and slightly detailed description options based on the input context. Do not just copy the input. Use British English spelling (e.g. 'colour', 'centre', 'programme', 'organise').`
                 : `- description: Leave empty or set to empty string.`;
@@ -1934,6 +3024,7 @@ Provide a 60-word analysis highlighting:
             const prompt = `
             You are a smart calendar assistant.
             Current Date/Time: ${now.toISOString()} (${now.toLocaleDateString('en-GB', { weekday: 'long' })})
+            User's Time Zone: ${localTimeZone} (local time now: ${toLocalDateKeyMain(now)} ${now.toTimeString().slice(0, 5)})
             
             User Input: "${input}"
             
@@ -1942,6 +3033,7 @@ Provide a 60-word analysis highlighting:
             ${descriptionField}
             - date: YYYY-MM-DD format. NOTE: If the user says "next week" without a specific day, assume it means exactly 7 days from today.
             - time: HH:mm format (24h). Default to "09:00" if not specified.
+            - timeZone: optional IANA time zone name (e.g. "America/New_York", "Asia/Tokyo"). Only set this if the user explicitly gives a zone or city for the time (e.g. "3pm New York time", "10:00 CET"); date and time are then in that zone. Otherwise omit it and give date and time in the user's time zone.
             - importance: "low", "medium", or "high" (infer from urgency/tone)
             - recurrence: optional object if recurrence is mentioned (e.g. "every day", "weekly", "fortnightly", "monthly"). Fields:
                 - type: "daily", "weekly", "fortnightly", "monthly"
@@ -1961,6 +3053,11 @@ Provide a 60-word analysis highlighting:
                     throw new Error('Invalid response structure');
                 }
 
+                // Drop zones the runtime doesn't recognise, and ones that are just the user's own
+                if (parsed.timeZone && (!isValidTimeZone(parsed.timeZone) || parsed.timeZone === localTimeZone)) {
+                    delete parsed.timeZone;
+                }
+
                 return parsed;
             } catch (error: any) {
                 console.warn(`AI generation failed:`, error.message);
@@ -2402,6 +3499,8 @@ Format: [{"q":"question here","a":"answer here"}]`;
                     await fs.mkdir(dir, { recursive: true });
                 }
                 await atomicWriteFile(currentDataPath, JSON.stringify(data, null, 2));
+                await regenerateIcsFeed();
+                indexCalendarEvents(data?.notes);
                 return { success: true };
             } catch (e) { return { success: false, error: e }; }
         });
@@ -2461,6 +3560,7 @@ Format: [{"q":"question here","a":"answer here"}]`;
             console.log('[Todos] Saving', todos.length, 'todos to:', todosPath);
             await atomicWriteFile(todosPath, JSON.stringify(dataToSave, null, 2));
             console.log('[Todos] Save successful');
+            indexTasks(todos);
 
             return { success: true };
         } catch (e) {
@@ -2516,6 +3616,7 @@ Format: [{"q":"question here","a":"answer here"}]`;
         log(`File exists at new location: ${existsSync(currentDataPath)}`);
 
         await saveGlobalSettings({ dataPath: newPath });
+        await regenerateIcsFeed();
         return newPath;
     });
 
@@ -2655,6 +3756,7 @@ Format: [{"q":"question here","a":"answer here"}]`;
                 }
                 data.workspace = workspaceData;
                 await atomicWriteFile(currentDataPath, JSON.stringify(data, null, 2));
+                indexAssignedFileTags(workspaceData);
                 return { success: true };
             } catch (e) {
                 console.error('Failed to save workspace:', e);
@@ -2772,6 +3874,25 @@ Format: [{"q":"question here","a":"answer here"}]`;
         return path.dirname(currentDataPath);
     });
 
+    // Save a notebook converted from another format as a new .exec file in the workspace folder
+    const saveImportedNotebook = async (baseName: string, notebookContent: object): Promise<string> => {
+        const wsDir = getWorkspaceFilesDir();
+        if (!existsSync(wsDir)) {
+            await fs.mkdir(wsDir, { recursive: true });
+        }
+
+        const safeName = baseName.replace(/[<>:"/\\|?*]/g, '_').trim() || 'Untitled';
+        let execFilePath = path.join(wsDir, `${safeName}.exec`);
+        let counter = 1;
+        while (existsSync(execFilePath)) {
+            execFilePath = path.join(wsDir, `${safeName} (${counter}).exec`);
+            counter++;
+        }
+
+        await atomicWriteFile(execFilePath, JSON.stringify(notebookContent, null, 2));
+        return execFilePath;
+    };
+
     // Open file dialog to select a workspace file
     ipcMain.handle('open-workspace-file-dialog', async () => {
         if (!win) return { success: false, error: 'No window' };
@@ -2783,12 +3904,13 @@ Format: [{"q":"question here","a":"answer here"}]`;
                     {
                         name: 'All Supported Files',
                         extensions: [
-                            'exec', 'brd', 'nt', 'nbm', 'deck', 'md',
+                            'exec', 'ipynb', 'brd', 'nt', 'nbm', 'deck', 'md',
                             'pdf', 'docx', 'doc', 'xlsx', 'xls', 'pptx', 'ppt',
                             'txt', 'png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp', 'svg'
                         ]
                     },
                     { name: 'Notebook Files', extensions: ['exec'] },
+                    { name: 'Jupyter Notebooks', extensions: ['ipynb'] },
                     { name: 'Board Files', extensions: ['brd'] },
                     { name: 'Node Map Files', extensions: ['nbm'] },
                     { name: 'Note Files', extensions: ['nt'] },
@@ -2837,20 +3959,7 @@ Format: [{"q":"question here","a":"answer here"}]`;
                 };
 
                 // Save as a .exec file in the workspace folder
-                const wsDir = getWorkspaceFilesDir();
-                if (!existsSync(wsDir)) {
-                    await fs.mkdir(wsDir, { recursive: true });
-                }
-
-                const safeName = path.basename(fileName, ext).replace(/[<>:"/\\|?*]/g, '_').trim() || 'Untitled';
-                let execFilePath = path.join(wsDir, `${safeName}.exec`);
-                let counter = 1;
-                while (existsSync(execFilePath)) {
-                    execFilePath = path.join(wsDir, `${safeName} (${counter}).exec`);
-                    counter++;
-                }
-
-                await atomicWriteFile(execFilePath, JSON.stringify(notebookContent, null, 2));
+                const execFilePath = await saveImportedNotebook(path.basename(fileName, ext), notebookContent);
 
                 console.log(`[open-workspace-file-dialog] Converted MD to exec: ${filePath} -> ${execFilePath}`);
 
@@ -2865,6 +3974,23 @@ Format: [{"q":"question here","a":"answer here"}]`;
                 };
             }
 
+            // Handle .ipynb files - convert the Jupyter notebook to an exec notebook
+            if (ext === '.ipynb') {
+                const notebookContent = ipynbToNotebook(content, path.basename(fileName, ext));
+                const execFilePath = await saveImportedNotebook(path.basename(fileName, ext), notebookContent);
+
+                console.log(`[open-workspace-file-dialog] Converted Jupyter notebook to exec: ${filePath} -> ${execFilePath}`);
+
+                return {
+                    success: true,
+                    filePath: execFilePath,
+                    fileName: path.basename(execFilePath, '.exec'),
+                    fileType: 'exec',
+                    content: notebookContent,
+                    convertedFromIpynb: true,
+                };
+            }
+
             // Determine file type from extension
             let fileType: 'exec' | 'board' | 'note' | 'nbm' | 'deck' | 'pdf' | 'docx' | 'xlsx' | 'pptx' | 'txt' | 'md' | 'image' | null = null;
 
@@ -2918,6 +4044,85 @@ Format: [{"q":"question here","a":"answer here"}]`;
         }
     });
 
+    // Export a Nerdbook as a Jupyter notebook (nbformat 4) wherever the user picks
+    ipcMain.handle('export-notebook-ipynb', async (_, { filePath }: { filePath: string }) => {
+        if (!win) return { success: false, error: 'No window' };
+
+        try {
+            const notebook = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+            const result = await dialog.showSaveDialog(win, {
+                title: 'Export as Jupyter Notebook',
+                defaultPath: `${path.basename(filePath, path.extname(filePath))}.ipynb`,
+                filters: [{ name: 'Jupyter Notebooks', extensions: ['ipynb'] }],
+            });
+
+            if (result.canceled || !result.filePath) {
+                return { success: false, canceled: true };
+            }
+
+            // Jupyter writes notebooks with one-space indentation and a trailing newline
+            await atomicWriteFile(result.filePath, JSON.stringify(notebookToIpynb(notebook), null, 1) + '\n');
+            return { success: true, filePath: result.filePath };
+        } catch (e) {
+            console.error('Failed to export notebook:', e);
+            return { success: false, error: (e as Error).message };
+        }
+    });
+
+    // Local kernels: interpreters on PATH that run Nerdbook cells (see LOCAL KERNELS)
+    ipcMain.handle('list-local-kernels', () =>
+        LOCAL_KERNELS.map(spec => ({ id: spec.id, name: spec.name, path: resolveLocalKernel(spec) })));
+
+    // Real path of a notebook file inside the workspace, or null. Local runs, trust and the
+    // folder a run starts in all go through it, so they can't be pointed anywhere else.
+    const resolveWorkspaceNotebook = (filePath: unknown): string | null => {
+        if (typeof filePath !== 'string' || !path.isAbsolute(filePath)) return null;
+        try {
+            const workspaceDir = realpathSync(getWorkspaceFilesDir());
+            const resolved = realpathSync(filePath);
+            return resolved.startsWith(workspaceDir + path.sep) && statSync(resolved).isFile() ? resolved : null;
+        } catch {
+            return null;
+        }
+    };
+
+    ipcMain.handle('run-local-cell', async (_, request: { runId: string; filePath: string; kernelId: string; code: string; timeoutSeconds: number; memoryMb: number }) => {
+        if (typeof request?.runId !== 'string' || typeof request.code !== 'string') {
+            return { status: 'failed', exitCode: null, error: 'Invalid run request.' };
+        }
+        const filePath = resolveWorkspaceNotebook(request.filePath);
+        if (!filePath) return { status: 'failed', exitCode: null, error: 'Only notebooks saved in the workspace can run local interpreters.' };
+        try {
+            return await runLocalCell({
+                ...request,
+                filePath,
+                timeoutSeconds: Math.min(Math.max(Number(request.timeoutSeconds) || DEFAULT_LOCAL_TIMEOUT_SECONDS, 1), 3600),
+                memoryMb: Math.min(Math.max(Number(request.memoryMb) || DEFAULT_LOCAL_MEMORY_MB, 128), 65536),
+            });
+        } catch (e) {
+            console.error('Failed to run local cell:', e);
+            return { status: 'failed', exitCode: null, error: (e as Error).message };
+        }
+    });
+
+    ipcMain.handle('stop-local-cell', (_, runId: string) => {
+        activeLocalRuns.get(runId)?.('stopped');
+        return true;
+    });
+
+    ipcMain.handle('get-notebook-trust', async (_, filePath: string) => {
+        const notebookPath = resolveWorkspaceNotebook(filePath);
+        return notebookPath !== null && await isNotebookTrusted(notebookPath);
+    });
+
+    // Trust is only ever granted through the prompt, so cells with app access can't grant it themselves
+    ipcMain.handle('revoke-notebook-trust', async (_, filePath: string) => {
+        const notebookPath = resolveWorkspaceNotebook(filePath);
+        if (!notebookPath) return false;
+        await setNotebookTrusted(notebookPath, false);
+        return true;
+    });
+
     // ============================================================================
     // FILE-BASED WORKSPACE STORAGE
     // ============================================================================
@@ -2957,6 +4162,13 @@ Format: [{"q":"question here","a":"answer here"}]`;
         return filePath;
     };
 
+    // Re-index a saved file, then let editors showing embeds of it re-read it; indexing first means
+    // inline tags and search already reflect the save when the renderer asks
+    const notifyWorkspaceFileSaved = async (filePath: string) => {
+        if (searchIndexedDir && isSearchableFile(filePath)) await indexWorkspaceFile(filePath);
+        win?.webContents.send('workspace-file-saved', { filePath });
+    };
+
     // Save a workspace file to disk
     ipcMain.handle('save-workspace-file', async (_, { filePath, content, createNew, name, type, folderName }) => {
         try {
@@ -2987,12 +4199,20 @@ Format: [{"q":"question here","a":"answer here"}]`;
                 await fs.mkdir(dir, { recursive: true });
             }
 
+            // Edits made in the app keep a trusted notebook trusted; only outside changes ask again
+            const trustedNotebook = type === 'exec' && !createNew ? resolveWorkspaceNotebook(targetPath) : null;
+            const keepsTrust = trustedNotebook !== null && await isNotebookTrusted(trustedNotebook);
+
             // For .nt files, save as plain text, not JSON
+            const data = type === 'note' ? (typeof content === 'string' ? content : '') : JSON.stringify(content, null, 2);
             if (type === 'note') {
-                await atomicWriteFile(targetPath, typeof content === 'string' ? content : '', true); // Skip JSON validation
+                await atomicWriteFile(targetPath, data, true); // Skip JSON validation
             } else {
-                await atomicWriteFile(targetPath, JSON.stringify(content, null, 2));
+                await atomicWriteFile(targetPath, data);
             }
+            if (keepsTrust) await setNotebookTrusted(trustedNotebook, true);
+            recordFileRevision(targetPath, data).catch(e => console.error('[History] Failed to record revision:', e));
+            notifyWorkspaceFileSaved(targetPath);
 
             return { success: true, filePath: targetPath };
         } catch (e) {
@@ -3053,42 +4273,173 @@ Format: [{"q":"question here","a":"answer here"}]`;
     // Rename a workspace file on disk
     ipcMain.handle('rename-workspace-file', async (_, { oldPath, newName, type }) => {
         try {
-            if (!existsSync(oldPath)) {
-                return { success: false, error: 'File not found' };
+            if (!existsSync(oldPath)) {
+                return { success: false, error: 'File not found' };
+            }
+
+            const dir = path.dirname(oldPath);
+            const ext = type === 'exec' ? '.exec' : type === 'board' ? '.brd' : type === 'nbm' ? '.nbm' : '.nt';
+            const safeName = sanitizeFileName(newName);
+            const newPath = await getUniqueFilePath(dir, safeName, ext);
+
+            await fs.rename(oldPath, newPath);
+            await moveFileHistory(oldPath, newPath).catch(e => console.error('[History] Failed to move history:', e));
+            return { success: true, newPath };
+        } catch (e) {
+            console.error('Failed to rename workspace file:', e);
+            return { success: false, error: (e as Error).message };
+        }
+    });
+
+    // Revisions of a workspace file, newest first
+    ipcMain.handle('list-file-history', async (_, filePath: string) => {
+        try {
+            const index = await readHistoryIndex(filePath);
+            return { success: true, revisions: [...index.revisions].reverse() };
+        } catch (e) {
+            console.error('[History] Failed to list revisions:', e);
+            return { success: false, error: (e as Error).message, revisions: [] };
+        }
+    });
+
+    ipcMain.handle('get-file-revision', async (_, { filePath, revisionId }: { filePath: string; revisionId: string }) => {
+        try {
+            return { success: true, content: await readFileRevision(filePath, revisionId) };
+        } catch (e) {
+            console.error('[History] Failed to read revision:', e);
+            return { success: false, error: (e as Error).message };
+        }
+    });
+
+    // Write a revision back over the file, or next to it as "<name> (restored)"
+    ipcMain.handle('restore-file-revision', async (_, { filePath, revisionId, asCopy }: { filePath: string; revisionId: string; asCopy?: boolean }) => {
+        try {
+            const content = await readFileRevision(filePath, revisionId);
+            const ext = path.extname(filePath);
+            const targetPath = asCopy
+                ? await getUniqueFilePath(path.dirname(filePath), `${path.basename(filePath, ext)} (restored)`, ext)
+                : filePath;
+            await atomicWriteFile(targetPath, content, true);
+            recordFileRevision(targetPath, content).catch(e => console.error('[History] Failed to record revision:', e));
+            notifyWorkspaceFileSaved(targetPath);
+            return { success: true, filePath: targetPath };
+        } catch (e) {
+            console.error('[History] Failed to restore revision:', e);
+            return { success: false, error: (e as Error).message };
+        }
+    });
+
+    // Move deleted files and folders into the workspace trash
+    ipcMain.handle('trash-workspace-items', async (_, { name, isFolder, files, folders }: {
+        name: string;
+        isFolder: boolean;
+        files: TrashEntry['files'][number]['file'][];
+        folders: TrashEntry['folders'];
+    }) => {
+        const id = randomUUID();
+        const entryDir = path.join(getWorkspaceTrashDir(), id);
+        const trashed: TrashEntry['files'] = [];
+        try {
+            const wsDir = await ensureWorkspaceDir();
+            await fs.mkdir(entryDir, { recursive: true });
+
+            for (const file of files) {
+                const ext = path.extname(file.filePath || '').toLowerCase();
+                const inWorkspace = !!file.filePath && path.resolve(file.filePath).startsWith(wsDir + path.sep);
+                if (file.filePath && inWorkspace && TRASHABLE_EXTENSIONS.includes(ext) && existsSync(file.filePath)) {
+                    const trashPath = path.join(entryDir, `${file.id}${ext}`);
+                    await moveFile(file.filePath, trashPath);
+                    trashed.push({ file, trashPath });
+                } else {
+                    trashed.push({ file });
+                }
+            }
+
+            const entry: TrashEntry = { id, deletedAt: new Date().toISOString(), name, isFolder, files: trashed, folders };
+            await atomicWriteFile(path.join(entryDir, 'entry.json'), JSON.stringify(entry, null, 2));
+            return { success: true, entry };
+        } catch (e) {
+            console.error('Failed to move items to trash:', e);
+            // Put back whatever was already moved
+            for (const { file, trashPath } of trashed) {
+                if (trashPath && file.filePath) await moveFile(trashPath, file.filePath).catch(() => { });
+            }
+            await fs.rm(entryDir, { recursive: true, force: true }).catch(() => { });
+            return { success: false, error: (e as Error).message };
+        }
+    });
+
+    ipcMain.handle('list-workspace-trash', async () => {
+        try {
+            return { success: true, entries: await purgeExpiredTrash(), retentionDays: getTrashRetentionDays() };
+        } catch (e) {
+            console.error('Failed to list trash:', e);
+            return { success: false, error: (e as Error).message, entries: [], retentionDays: getTrashRetentionDays() };
+        }
+    });
+
+    // Move an entry's files back to where they were; the renderer restores the tree metadata
+    ipcMain.handle('restore-workspace-trash', async (_, id: string) => {
+        try {
+            if (!isValidTrashId(id)) return { success: false, error: 'Invalid trash entry' };
+            const entry = (await listTrashEntries()).find(e => e.id === id);
+            if (!entry) return { success: false, error: 'Trash entry not found' };
+
+            const restoredPaths: Record<string, string> = {};
+            for (const { file, trashPath } of entry.files) {
+                if (!trashPath || !file.filePath || !existsSync(trashPath)) continue;
+                const ext = path.extname(file.filePath);
+                const target = existsSync(file.filePath)
+                    ? await getUniqueFilePath(path.dirname(file.filePath), path.basename(file.filePath, ext), ext)
+                    : file.filePath;
+                await fs.mkdir(path.dirname(target), { recursive: true });
+                await moveFile(trashPath, target);
+                restoredPaths[file.id] = target;
             }
 
-            const dir = path.dirname(oldPath);
-            const ext = type === 'exec' ? '.exec' : type === 'board' ? '.brd' : type === 'nbm' ? '.nbm' : '.nt';
-            const safeName = sanitizeFileName(newName);
-            const newPath = await getUniqueFilePath(dir, safeName, ext);
-
-            await fs.rename(oldPath, newPath);
-            return { success: true, newPath };
+            await purgeTrashEntry(id);
+            return { success: true, entry, restoredPaths };
         } catch (e) {
-            console.error('Failed to rename workspace file:', e);
+            console.error('Failed to restore from trash:', e);
             return { success: false, error: (e as Error).message };
         }
     });
 
-    // Delete a workspace file from disk
-    ipcMain.handle('delete-workspace-file', async (_, filePath) => {
+    // Permanently delete one entry, or everything when no id is given
+    ipcMain.handle('purge-workspace-trash', async (_, id?: string) => {
         try {
-            if (existsSync(filePath)) {
-                await fs.unlink(filePath);
+            if (id !== undefined) {
+                if (!isValidTrashId(id)) return { success: false, error: 'Invalid trash entry' };
+                await purgeTrashEntry(id);
+            } else {
+                for (const entry of await listTrashEntries()) await purgeTrashEntry(entry.id);
+                await fs.rm(getWorkspaceTrashDir(), { recursive: true, force: true });
             }
             return { success: true };
         } catch (e) {
-            console.error('Failed to delete workspace file:', e);
+            console.error('Failed to purge trash:', e);
             return { success: false, error: (e as Error).message };
         }
     });
 
+    ipcMain.handle('set-trash-retention', async (_, days: number) => {
+        if (!Number.isInteger(days) || days < 0) return { success: false, error: 'Invalid retention period' };
+        deviceSettings.trashRetentionDays = days;
+        await saveDeviceSettings();
+        const entries = await purgeExpiredTrash().catch(() => []);
+        return { success: true, retentionDays: days, entries };
+    });
+
     // Get workspace files directory path
     ipcMain.handle('get-workspace-files-dir', async () => {
         const wsDir = await ensureWorkspaceDir();
         return wsDir;
     });
 
+    // Real path of a file inside the workspace, or null; JavaScript cells may only read files it accepts
+    ipcMain.handle('resolve-workspace-file', async (_, filePath) =>
+        typeof filePath === 'string' ? resolveInsideFolder(filePath, await ensureWorkspaceDir(), fs.realpath) : null);
+
     // Read a workspace file content (for web export)
     ipcMain.handle('read-workspace-file', async (_, filePath) => {
         try {
@@ -3186,9 +4537,14 @@ Format: [{"q":"question here","a":"answer here"}]`;
                 await fileWatcher.close();
             }
 
+            // Catch up on anything that changed while the watcher was stopped
+            if (searchIndexedDir) {
+                ensureSearchIndex(wsDir, false).catch(e => console.error('[Search] Sync failed:', e));
+            }
+
             // Watch for new files (not directories)
             fileWatcher = chokidar.watch(wsDir, {
-                ignored: /(^|[\/\\])\../, // ignore dotfiles
+                ignored: /(^|[\/\\])\../, // ignore dotfiles, including the .trash folder
                 persistent: true,
                 ignoreInitial: true, // Don't trigger for existing files
                 depth: 2, // Watch subdirectories up to 2 levels
@@ -3209,7 +4565,10 @@ Format: [{"q":"question here","a":"answer here"}]`;
                     '.bmp', '.webp', '.svg'
                 ];
 
-                if (supportedExtensions.includes(ext)) {
+                // Images in assets/ belong to the notes embedding them (pasted or imported), not the tree
+                const isAsset = path.dirname(filePath) === path.join(wsDir, 'assets');
+
+                if (supportedExtensions.includes(ext) && !isAsset) {
                     // Notify renderer process about new file
                     if (win?.webContents) {
                         win.webContents.send('workspace-file-added', {
@@ -3219,10 +4578,25 @@ Format: [{"q":"question here","a":"answer here"}]`;
                         });
                     }
                 }
+
+                if (searchIndexedDir === wsDir && isSearchableFile(filePath)) {
+                    await indexWorkspaceFile(filePath);
+                }
+            });
+
+            fileWatcher.on('change', async (filePath: string) => {
+                if (searchIndexedDir === wsDir && isSearchableFile(filePath)) {
+                    await indexWorkspaceFile(filePath);
+                }
+            });
+
+            fileWatcher.on('unlinkDir', (dirPath: string) => {
+                removeWorkspaceFolderFromIndex(dirPath);
             });
 
             fileWatcher.on('unlink', async (filePath: string) => {
                 console.log('[FileWatcher] File deleted:', filePath);
+                removeWorkspaceFileFromIndex(filePath);
                 if (win?.webContents) {
                     win.webContents.send('workspace-file-deleted', {
                         filePath
@@ -3257,6 +4631,30 @@ Format: [{"q":"question here","a":"answer here"}]`;
         }
     });
 
+    // Full-text search over workspace files, calendar events and tasks
+    ipcMain.handle('search-workspace', async (_, query: string, options: SearchOptions = {}) => {
+        try {
+            const wsDir = await ensureWorkspaceDir();
+            await ensureSearchIndex(wsDir, fileWatcher !== null);
+            return { success: true, results: searchIndex.search(String(query || ''), options), indexed: searchIndex.size };
+        } catch (e) {
+            console.error('[Search] Query failed:', e);
+            return { success: false, error: (e as Error).message, results: [] };
+        }
+    });
+
+    // Inline #tags of every workspace file, by file path
+    ipcMain.handle('get-workspace-tags', async () => {
+        try {
+            const wsDir = await ensureWorkspaceDir();
+            await ensureSearchIndex(wsDir, fileWatcher !== null);
+            return { success: true, tags: searchIndex.listDocumentTags('file') };
+        } catch (e) {
+            console.error('[Tags] Failed to list workspace tags:', e);
+            return { success: false, error: (e as Error).message, tags: {} };
+        }
+    });
+
     // Scan workspace directory for external files to import
     ipcMain.handle('scan-workspace-for-documents', async () => {
         try {
@@ -3568,6 +4966,334 @@ Format: [{"q":"question here","a":"answer here"}]`;
         }
     });
 
+    // Local images embedded in exported notes, copied into the export's assets/ once each. Only
+    // images in the workspace's assets folder qualify, so a note can't pull in any other file.
+    const createImageCopies = () => {
+        const copies = new Map<string, string>();   // Image on disk → its path in the export
+        const names = new Set<string>();
+        const resolve = (src: string): string | null => {
+            const filePath = localFilePathFromUrl(src);
+            if (!filePath || !EXPORT_IMAGE_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) return null;
+            let resolved: string;
+            try {
+                // Real paths, so a symlink in assets/ can't point outside it
+                const assetsDir = realpathSync(path.join(getWorkspaceFilesDir(), 'assets'));
+                resolved = realpathSync(path.resolve(filePath));
+                if (!resolved.startsWith(assetsDir + path.sep) || !statSync(resolved).isFile()) return null;
+            } catch {
+                return null;
+            }
+            if (!copies.has(resolved)) {
+                const ext = path.extname(resolved);
+                const base = path.basename(resolved, ext);
+                let name = `${base}${ext}`;
+                for (let counter = 1; names.has(name.toLowerCase()); counter++) name = `${base} (${counter})${ext}`;
+                names.add(name.toLowerCase());
+                copies.set(resolved, `assets/${name}`);
+            }
+            return copies.get(resolved)!;
+        };
+        const copyInto = async (dir: string, logTag: string) => {
+            if (copies.size > 0) await fs.mkdir(path.join(dir, 'assets'), { recursive: true });
+            for (const [source, target] of copies) {
+                await fs.copyFile(source, path.join(dir, ...target.split('/'))).catch(e => {
+                    console.error(`[${logTag}] Failed to copy image`, source, e);
+                });
+            }
+        };
+        return { resolve, copyInto };
+    };
+
+    // Export the whole workspace as markdown files in a folder mirroring the tree.
+    // Board snapshots are rendered by the renderer and passed in as PNG data URLs.
+    ipcMain.handle('export-workspace-markdown', async (_, { files, folders, snapshots }: {
+        files: WorkspaceFile[];
+        folders: WorkspaceFolder[];
+        snapshots: Record<string, string>;
+    }) => {
+        if (!win) return { success: false, error: 'No window' };
+
+        try {
+            const result = await dialog.showOpenDialog(win, {
+                title: 'Export Workspace as Markdown',
+                buttonLabel: 'Export Here',
+                properties: ['openDirectory', 'createDirectory'],
+            });
+            if (result.canceled || result.filePaths.length === 0) {
+                return { success: false, canceled: true };
+            }
+
+            let exportDir = path.join(result.filePaths[0], 'Workspace export');
+            for (let counter = 1; existsSync(exportDir); counter++) {
+                exportDir = path.join(result.filePaths[0], `Workspace export (${counter})`);
+            }
+
+            const entries = planMarkdownExport(files, folders);
+            const linkTargets = new Map<string, string>();
+            for (const entry of entries) {
+                const name = files.find(f => f.id === entry.fileId)?.name.toLowerCase();
+                if (name && !linkTargets.has(name)) linkTargets.set(name, entry.exportPath);
+            }
+
+            let exported = 0;
+            const failed: string[] = [];
+            const images = createImageCopies();
+            for (const entry of entries) {
+                const target = path.join(exportDir, ...entry.exportPath.split('/'));
+                try {
+                    if (!existsSync(entry.sourcePath)) throw new Error('File not found');
+                    await fs.mkdir(path.dirname(target), { recursive: true });
+                    if (!entry.convert) {
+                        await fs.copyFile(entry.sourcePath, target);
+                    } else {
+                        const ext = path.extname(entry.sourcePath).toLowerCase();
+                        const raw = await fs.readFile(entry.sourcePath, 'utf-8');
+                        const snapshot = snapshots[entry.fileId];
+                        const markdown = workspaceFileToMarkdown(ext, raw, path.basename(target, '.md'), {
+                            exportPath: entry.exportPath,
+                            linkTargets,
+                            snapshotPath: snapshot ? entry.snapshotPath : undefined,
+                            resolveImage: images.resolve,
+                        });
+                        if (markdown === null) throw new Error('Unreadable file');
+                        await fs.writeFile(target, markdown, 'utf-8');
+                        if (snapshot && entry.snapshotPath) {
+                            const png = Buffer.from(snapshot.replace(/^data:image\/png;base64,/, ''), 'base64');
+                            await fs.writeFile(path.join(exportDir, ...entry.snapshotPath.split('/')), png);
+                        }
+                    }
+                    exported++;
+                } catch (e) {
+                    console.error('[export-workspace-markdown] Failed to export', entry.sourcePath, e);
+                    failed.push(path.basename(entry.sourcePath));
+                }
+            }
+
+            await images.copyInto(exportDir, 'export-workspace-markdown');
+
+            shell.openPath(exportDir);
+            return { success: true, exportDir, exported, failed };
+        } catch (e) {
+            console.error('Failed to export workspace as markdown:', e);
+            return { success: false, error: (e as Error).message };
+        }
+    });
+
+    // Publish a folder (or the whole workspace for null) as a static website.
+    // Pages are converted first so every page knows its backlinks before any is written.
+    ipcMain.handle('publish-static-site', async (_, { folderId, files, folders, snapshots }: {
+        folderId: string | null;
+        files: WorkspaceFile[];
+        folders: WorkspaceFolder[];
+        snapshots: Record<string, string>;
+    }) => {
+        if (!win) return { success: false, error: 'No window' };
+
+        try {
+            const siteName = (folderId && folders.find(f => f.id === folderId)?.name) || 'Workspace';
+            const result = await dialog.showOpenDialog(win, {
+                title: `Publish ${siteName} as Website`,
+                buttonLabel: 'Publish Here',
+                properties: ['openDirectory', 'createDirectory'],
+            });
+            if (result.canceled || result.filePaths.length === 0) {
+                return { success: false, canceled: true };
+            }
+            const siteDir = await getUniqueFilePath(result.filePaths[0], `${sanitizeFileName(siteName)} site`, '');
+            const toDiskPath = (sitePath: string) => path.join(siteDir, ...sitePath.split('/'));
+
+            const entries = planSite(files, folders, folderId);
+            const titles = new Map(entries.map(entry => [
+                entry.exportPath,
+                files.find(f => f.id === entry.fileId)?.name || path.basename(entry.sourcePath),
+            ]));
+            const linkTargets = new Map<string, string>();
+            for (const entry of entries) {
+                const name = titles.get(entry.exportPath)!.toLowerCase();
+                if (entry.convert && !linkTargets.has(name)) linkTargets.set(name, entry.exportPath);
+            }
+
+            const failed: string[] = [];
+            const markdownByPath = new Map<string, string>();
+            const backlinks = new Map<string, Set<string>>();
+            for (const entry of entries.filter(e => e.convert)) {
+                try {
+                    const ext = path.extname(entry.sourcePath).toLowerCase();
+                    const raw = await fs.readFile(entry.sourcePath, 'utf-8');
+                    const linked = new Set<string>();
+                    const markdown = sitePageMarkdown(ext, raw, titles.get(entry.exportPath)!, {
+                        exportPath: entry.exportPath,
+                        linkTargets,
+                        snapshotPath: snapshots[entry.fileId] ? entry.snapshotPath : undefined,
+                        linked,
+                    });
+                    if (markdown === null) throw new Error('Unreadable file');
+                    markdownByPath.set(entry.exportPath, markdown);
+                    for (const target of linked) {
+                        if (target === entry.exportPath) continue;
+                        backlinks.set(target, (backlinks.get(target) || new Set()).add(entry.exportPath));
+                    }
+                } catch (e) {
+                    console.error('[publish-static-site] Failed to convert', entry.sourcePath, e);
+                    failed.push(path.basename(entry.sourcePath));
+                }
+            }
+
+            const published = entries.filter(e => e.convert ? markdownByPath.has(e.exportPath) : existsSync(e.sourcePath));
+            const pages: SitePage[] = published.map(entry => ({ title: titles.get(entry.exportPath)!, path: entry.exportPath }));
+
+            // Images embedded from the workspace's assets folder are copied into the site's assets/
+            const images = createImageCopies();
+
+            for (const entry of published) {
+                const target = toDiskPath(entry.exportPath);
+                try {
+                    await fs.mkdir(path.dirname(target), { recursive: true });
+                    if (!entry.convert) {
+                        await fs.copyFile(entry.sourcePath, target);
+                        continue;
+                    }
+                    const html = renderSitePage({
+                        siteName,
+                        title: titles.get(entry.exportPath)!,
+                        pagePath: entry.exportPath,
+                        bodyHtml: markdownToHtml(markdownByPath.get(entry.exportPath)!, { pagePath: entry.exportPath, resolveImage: images.resolve }),
+                        navHtml: renderNavTree(pages, entry.exportPath),
+                        backlinks: [...(backlinks.get(entry.exportPath) || [])].map(p => ({ title: titles.get(p)!, path: p })),
+                    });
+                    await fs.writeFile(target, html, 'utf-8');
+                    const snapshot = snapshots[entry.fileId];
+                    if (snapshot && entry.snapshotPath) {
+                        const png = Buffer.from(snapshot.replace(/^data:image\/png;base64,/, ''), 'base64');
+                        await fs.writeFile(toDiskPath(entry.snapshotPath), png);
+                    }
+                } catch (e) {
+                    console.error('[publish-static-site] Failed to publish', entry.sourcePath, e);
+                    failed.push(path.basename(entry.sourcePath));
+                }
+            }
+
+            await images.copyInto(siteDir, 'publish-static-site');
+
+            await fs.writeFile(path.join(siteDir, 'site.css'), SITE_STYLESHEET, 'utf-8');
+            await fs.writeFile(path.join(siteDir, 'index.html'), renderSiteIndex(siteName, pages, new Date().toLocaleDateString()), 'utf-8');
+
+            shell.openPath(path.join(siteDir, 'index.html'));
+            return { success: true, siteDir, published: published.length, failed };
+        } catch (e) {
+            console.error('Failed to publish static site:', e);
+            return { success: false, error: (e as Error).message };
+        }
+    });
+
+    // Import a markdown vault (e.g. Obsidian): notes become .nt files in a folder
+    // mirroring the vault, images they embed are copied into the assets folder.
+    // The renderer adds the returned folders and notes to the workspace tree.
+    ipcMain.handle('import-markdown-vault', async () => {
+        if (!win) return { success: false, error: 'No window' };
+
+        try {
+            const result = await dialog.showOpenDialog(win, {
+                title: 'Import Markdown Vault',
+                properties: ['openDirectory'],
+            });
+            if (result.canceled || result.filePaths.length === 0) {
+                return { success: false, canceled: true };
+            }
+
+            const vaultDir = result.filePaths[0];
+            const vaultName = path.basename(vaultDir);
+
+            // Vault-relative paths with forward slashes, skipping .obsidian, .trash and other dot folders
+            const notePaths: string[] = [];
+            const attachmentPaths: string[] = [];
+            const walk = async (dir: string, relative: string) => {
+                for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+                    if (entry.name.startsWith('.')) continue;
+                    const entryRelative = relative ? `${relative}/${entry.name}` : entry.name;
+                    if (entry.isDirectory()) {
+                        await walk(path.join(dir, entry.name), entryRelative);
+                    } else if (VAULT_NOTE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+                        notePaths.push(entryRelative);
+                    } else {
+                        attachmentPaths.push(entryRelative);
+                    }
+                }
+            };
+            await walk(vaultDir, '');
+            if (notePaths.length === 0) {
+                return { success: false, error: 'No markdown notes found in this folder.' };
+            }
+
+            const wsDir = await ensureWorkspaceDir();
+            let targetRoot = path.join(wsDir, sanitizeFileName(vaultName));
+            for (let counter = 1; existsSync(targetRoot); counter++) {
+                targetRoot = path.join(wsDir, `${sanitizeFileName(vaultName)} (${counter})`);
+            }
+            const assetsDir = path.join(wsDir, 'assets');
+
+            // Workspace names first, so links can be rewritten to them
+            const noteNames = new Map(notePaths.map(p => [p, sanitizeFileName(path.basename(p, path.extname(p)))]));
+
+            // Images are copied once each, under a name not taken in assets/
+            const assetCopies = new Map<string, string>();
+            const takenAssetNames = new Set<string>();
+            const getAssetPath = (relative: string): string => {
+                const existing = assetCopies.get(relative);
+                if (existing) return existing;
+                const ext = path.extname(relative);
+                const base = sanitizeFileName(path.basename(relative, ext));
+                let name = `${base}${ext}`;
+                for (let counter = 1; takenAssetNames.has(name.toLowerCase()) || existsSync(path.join(assetsDir, name)); counter++) {
+                    name = `${base} (${counter})${ext}`;
+                }
+                takenAssetNames.add(name.toLowerCase());
+                const assetPath = path.join(assetsDir, name);
+                assetCopies.set(relative, assetPath);
+                return assetPath;
+            };
+
+            const notes: { relativePath: string; name: string; filePath: string; tags: string[] }[] = [];
+            const unresolved: UnresolvedVaultLink[] = [];
+            for (const relativePath of notePaths) {
+                const raw = await fs.readFile(path.join(vaultDir, ...relativePath.split('/')), 'utf-8');
+                const name = noteNames.get(relativePath)!;
+                const { content, unresolved: missing } = convertVaultNote(raw, {
+                    resolveNote: target => {
+                        if (!target) return name;
+                        const notePath = resolveVaultPath(target, relativePath, notePaths);
+                        return notePath ? noteNames.get(notePath)! : null;
+                    },
+                    resolveAttachment: target => {
+                        const attachmentPath = resolveVaultPath(target, relativePath, attachmentPaths);
+                        if (!attachmentPath || !VAULT_IMAGE_EXTENSIONS.includes(path.extname(attachmentPath).toLowerCase())) return null;
+                        return `file://${getAssetPath(attachmentPath).replace(/\\/g, '/')}`;
+                    },
+                });
+
+                const targetDir = path.join(targetRoot, ...relativePath.split('/').slice(0, -1));
+                await fs.mkdir(targetDir, { recursive: true });
+                const filePath = await getUniqueFilePath(targetDir, name, '.nt');
+                await atomicWriteFile(filePath, content, true); // Plain text
+                if (searchIndexedDir) await indexWorkspaceFile(filePath);
+
+                notes.push({ relativePath, name: path.basename(filePath, '.nt'), filePath, tags: extractFrontmatterTags(raw) });
+                missing.forEach(target => unresolved.push({ notePath: relativePath, target }));
+            }
+
+            if (assetCopies.size > 0) await fs.mkdir(assetsDir, { recursive: true });
+            for (const [relative, assetPath] of assetCopies) {
+                await fs.copyFile(path.join(vaultDir, ...relative.split('/')), assetPath);
+            }
+
+            console.log(`[import-markdown-vault] Imported ${notes.length} notes and ${assetCopies.size} images from ${vaultDir}`);
+            return { success: true, vaultName: path.basename(targetRoot), notes, imagesCopied: assetCopies.size, unresolved };
+        } catch (e) {
+            console.error('Failed to import markdown vault:', e);
+            return { success: false, error: (e as Error).message };
+        }
+    });
+
     // Save a pasted image to the workspace assets folder
     ipcMain.handle('save-pasted-image', async (_, { imageData, fileName }) => {
         try {
@@ -4208,13 +5934,27 @@ Format: [{"q":"question here","a":"answer here"}]`;
     // ============================================================================
 
     // Add a @connection (mention) to a file
-    ipcMain.handle('add-connection-to-file', async (_, { filePath, fileType, targetFileName }) => {
+    // With linkUnlinked, plain-text occurrences of the target's name are turned into mentions instead
+    ipcMain.handle('add-connection-to-file', async (_, { filePath, fileType, targetFileName, linkUnlinked }) => {
         try {
             if (!existsSync(filePath)) {
                 return { success: false, error: 'File not found' };
             }
 
             const content = await fs.readFile(filePath, 'utf-8');
+
+            if (linkUnlinked) {
+                const ext = path.extname(filePath).toLowerCase();
+                const result = linkUnlinkedMentionsInFile(ext, content, targetFileName);
+                if (!result) {
+                    return { success: false, error: 'No unlinked mentions found' };
+                }
+                await atomicWriteFile(filePath, result.content, ext === '.nt');
+                recordFileRevision(filePath, result.content).catch(e => console.error('[History] Failed to record revision:', e));
+                notifyWorkspaceFileSaved(filePath);
+                return { success: true, linked: result.linked };
+            }
+
             let parsed;
             try {
                 parsed = JSON.parse(content);
@@ -4376,6 +6116,97 @@ Format: [{"q":"question here","a":"answer here"}]`;
         }
     });
 
+    // ============================================================================
+    // MENTION REFACTORING
+    // ============================================================================
+    // Renaming a file offers to rewrite @mentions of it in every other
+    // workspace file, and the broken links report lists mentions that no
+    // longer resolve. Rewrites are applied all-or-nothing.
+    // ============================================================================
+
+    // Workspace files that can contain @mentions, with their raw contents
+    const readMentionFiles = async (filePaths?: string[]) => {
+        const wsDir = await ensureWorkspaceDir();
+        const found: string[] = [];
+        const scan = async (dir: string, depth: number): Promise<void> => {
+            if (depth > 5) return;
+            const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+            for (const entry of entries) {
+                if (entry.name.startsWith('.')) continue;
+                const fullPath = path.join(dir, entry.name);
+                if (entry.isDirectory()) await scan(fullPath, depth + 1);
+                else if (MENTION_FILE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) found.push(fullPath);
+            }
+        };
+        await scan(wsDir, 0);
+
+        // Only touch files inside the workspace, even when the renderer names them
+        const selected = filePaths ? found.filter(p => filePaths.includes(p)) : found;
+        const files: { filePath: string; ext: string; raw: string }[] = [];
+        for (const filePath of selected) {
+            try {
+                files.push({ filePath, ext: path.extname(filePath).toLowerCase(), raw: await fs.readFile(filePath, 'utf-8') });
+            } catch (e) {
+                console.error('[Mentions] Failed to read', filePath, e);
+            }
+        }
+        return files;
+    };
+
+    // Preview which files mention `oldName` and how each mention would change
+    ipcMain.handle('plan-mention-rename', async (_, { oldName, newName }: { oldName: string; newName: string }) => {
+        try {
+            const files: MentionRenameFile[] = [];
+            for (const file of await readMentionFiles()) {
+                const renamed = renameMentionsInFile(file.ext, file.raw, oldName, newName);
+                if (renamed) files.push({ filePath: file.filePath, occurrences: renamed.occurrences });
+            }
+            return { success: true, files };
+        } catch (e) {
+            console.error('[Mentions] Failed to plan rename:', e);
+            return { success: false, error: (e as Error).message, files: [] };
+        }
+    });
+
+    // Rewrite mentions of `oldName` in the given files, rolling back if any write fails
+    ipcMain.handle('apply-mention-rename', async (_, { oldName, newName, filePaths }: { oldName: string; newName: string; filePaths: string[] }) => {
+        const written: { filePath: string; raw: string }[] = [];
+        try {
+            const edits = (await readMentionFiles(filePaths))
+                .map(file => ({ ...file, renamed: renameMentionsInFile(file.ext, file.raw, oldName, newName) }))
+                .filter(file => file.renamed);
+
+            for (const edit of edits) {
+                await atomicWriteFile(edit.filePath, edit.renamed!.content, edit.ext === '.nt');
+                written.push(edit);
+                recordFileRevision(edit.filePath, edit.renamed!.content).catch(e => console.error('[History] Failed to record revision:', e));
+                notifyWorkspaceFileSaved(edit.filePath);
+            }
+            return { success: true, updated: written.map(w => w.filePath) };
+        } catch (e) {
+            console.error('[Mentions] Failed to rewrite mentions, rolling back:', e);
+            for (const file of written) {
+                await atomicWriteFile(file.filePath, file.raw, true)
+                    .catch(err => console.error('[Mentions] Rollback failed for', file.filePath, err));
+            }
+            return { success: false, error: (e as Error).message, updated: [] };
+        }
+    });
+
+    // Mentions anywhere in the workspace that don't match a known file name
+    ipcMain.handle('find-broken-mentions', async (_, knownNames: string[]) => {
+        try {
+            const mentions: BrokenMention[] = [];
+            for (const file of await readMentionFiles()) {
+                mentions.push(...findBrokenMentions(file.filePath, file.ext, file.raw, knownNames));
+            }
+            return { success: true, mentions };
+        } catch (e) {
+            console.error('[Mentions] Failed to find broken mentions:', e);
+            return { success: false, error: (e as Error).message, mentions: [] };
+        }
+    });
+
     // Fortnite Creator Codes Configuration
     ipcMain.handle('get-creator-codes', () => deviceSettings.creatorCodes || []);
     ipcMain.handle('set-creator-codes', async (_, codes) => {
@@ -4818,8 +6649,275 @@ async function enableAutoLaunchOnFirstRun() {
     }
 }
 
+// ============================================================================
+// PYTHON RUNTIME (PYODIDE)
+// ============================================================================
+// Nerdbooks load Pyodide over pyodide:// (see src/utils/pyodideRuntime.ts) so
+// Python cells work offline. Files come from the runtime bundled in
+// public/pyodide, then from the cache in userData; anything else is
+// downloaded once and cached.
+// ============================================================================
+protocol.registerSchemesAsPrivileged([{
+    scheme: PYODIDE_SCHEME,
+    privileges: { standard: true, secure: true, supportFetchAPI: true, corsEnabled: true },
+}]);
+
+const getPyodideCacheDir = () => path.join(app.getPath('userData'), 'pyodide-cache');
+
+const PYODIDE_CONTENT_TYPES: Record<string, string> = {
+    '.js': 'text/javascript',
+    '.mjs': 'text/javascript',
+    '.wasm': 'application/wasm',
+    '.json': 'application/json',
+    '.zip': 'application/zip',
+};
+
+const readIfExists = async (filePath: string): Promise<Buffer | null> =>
+    existsSync(filePath) ? fs.readFile(filePath) : null;
+
+// Write the whole download before renaming it into place, so a dropped connection never leaves half a wheel
+const downloadToCache = async (url: string, cachePath: string): Promise<Buffer> => {
+    const response = await net.fetch(url);
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    const data = Buffer.from(await response.arrayBuffer());
+    await fs.mkdir(path.dirname(cachePath), { recursive: true });
+    const tempPath = `${cachePath}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, cachePath);
+    return data;
+};
+
+const handlePyodideRequest = async (request: Request): Promise<Response> => {
+    const { host, pathname } = new URL(request.url);
+    const relativePath = pyodideRequestPath(pathname);
+    if (!relativePath) return new Response('Bad request', { status: 400 });
+
+    const cacheDir = getPyodideCacheDir();
+    const respond = (data: Buffer | string, contentType: string) => new Response(typeof data === 'string' ? data : new Uint8Array(data), {
+        headers: { 'Content-Type': contentType, 'Access-Control-Allow-Origin': '*' },
+    });
+    const contentTypeOf = (filePath: string) => PYODIDE_CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+
+    try {
+        switch (host) {
+            case 'runtime': {
+                const cachePath = path.join(cacheDir, 'runtime', PYODIDE_VERSION, ...relativePath.split('/'));
+                const data = await readIfExists(path.join(process.env.VITE_PUBLIC || '', 'pyodide', ...relativePath.split('/')))
+                    ?? await readIfExists(cachePath)
+                    ?? await downloadToCache(PYODIDE_CDN_URL + relativePath, cachePath);
+                return respond(data, contentTypeOf(relativePath));
+            }
+            case 'pypi': {
+                // Fresh metadata when online so new releases show up, the last copy when not
+                const cachePath = path.join(cacheDir, 'pypi', ...relativePath.split('/'));
+                let data: Buffer;
+                try {
+                    data = await downloadToCache(`https://pypi.org/pypi/${relativePath}`, cachePath);
+                } catch (e) {
+                    const cached = await readIfExists(cachePath);
+                    if (!cached) throw e;
+                    data = cached;
+                }
+                return respond(JSON.stringify(pointPypiFilesAtCache(JSON.parse(data.toString('utf-8')))), 'application/json');
+            }
+            case 'files': {
+                const cachePath = path.join(cacheDir, 'files', ...relativePath.split('/'));
+                const data = await readIfExists(cachePath) ?? await downloadToCache(PYPI_FILES_URL + relativePath, cachePath);
+                return respond(data, contentTypeOf(relativePath));
+            }
+            default:
+                return new Response('Not found', { status: 404 });
+        }
+    } catch (e) {
+        console.error('[pyodide] Failed to load', request.url, e);
+        return new Response(`Not available offline: ${relativePath}`, { status: 404 });
+    }
+};
+
+// ============================================================================
+// LOCAL KERNELS
+// ============================================================================
+// Nerdbook cells in bash, Node, system Python and other languages found on
+// PATH run here as child processes (see src/utils/localKernels.ts). A notebook
+// must be trusted before its first local run. Trust is kept in the device
+// settings as the notebook's path plus a hash of its file, so it never travels
+// with a shared file and is asked for again when the file changes outside the app.
+// ============================================================================
+const localKernelPaths = new Map<string, string | null>();
+const activeLocalRuns = new Map<string, (status: LocalRunStatus) => void>();
+
+// How long a run waits for its output to drain once the process has exited or been killed.
+// Programs a cell leaves running in the background can hold the output open indefinitely.
+const LOCAL_RUN_DRAIN_MS = 2000;
+
+interface TrustedNotebook {
+    path: string;
+    hash: string;               // sha256 of the file when it was trusted
+}
+
+// First executable file named `command` on PATH. Windows only gets .exe files:
+// batch shims can't be spawned without a shell.
+function findOnPath(command: string): string | null {
+    const extensions = process.platform === 'win32' ? ['.exe'] : [''];
+    for (const dir of (process.env.PATH || '').split(path.delimiter)) {
+        if (!dir) continue;
+        for (const extension of extensions) {
+            const candidate = path.join(dir, command + extension);
+            try {
+                if (statSync(candidate).isFile()) return candidate;
+            } catch {
+                // Not in this folder
+            }
+        }
+    }
+    return null;
+}
+
+// Looked up once per session; installing an interpreter needs an app restart to show up
+function resolveLocalKernel(spec: LocalKernelSpec): string | null {
+    if (!localKernelPaths.has(spec.id)) {
+        localKernelPaths.set(spec.id, spec.commands.map(findOnPath).find(Boolean) ?? null);
+    }
+    return localKernelPaths.get(spec.id) ?? null;
+}
+
+// Entries saved before trust was tied to the file's contents were bare paths; those are asked for again
+const getTrustedNotebooks = (): TrustedNotebook[] =>
+    Array.isArray(deviceSettings.trustedNotebooks)
+        ? deviceSettings.trustedNotebooks.filter((entry: any) => typeof entry?.path === 'string' && typeof entry.hash === 'string')
+        : [];
+
+const hashNotebook = async (filePath: string) => createHash('sha256').update(await fs.readFile(filePath)).digest('hex');
+
+// `filePath` is a real path inside the workspace (see resolveWorkspaceNotebook)
+async function isNotebookTrusted(filePath: string): Promise<boolean> {
+    const entry = getTrustedNotebooks().find(e => e.path === filePath);
+    if (!entry) return false;
+    try {
+        return entry.hash === await hashNotebook(filePath);
+    } catch {
+        return false;
+    }
+}
+
+// Trusting records the file as it is now, or as `hash` if given: the contents the user was asked about
+async function setNotebookTrusted(filePath: string, trusted: boolean, hash?: string) {
+    const others = getTrustedNotebooks().filter(e => e.path !== filePath);
+    deviceSettings.trustedNotebooks = trusted ? [...others, { path: filePath, hash: hash ?? await hashNotebook(filePath) }] : others;
+    await saveDeviceSettings();
+}
+
+// Ask before a notebook first runs anything on this computer, and again once its file has changed
+async function confirmNotebookTrust(filePath: string, spec: LocalKernelSpec, executable: string): Promise<boolean> {
+    if (await isNotebookTrusted(filePath)) return true;
+    const hash = await hashNotebook(filePath);
+    const options = {
+        type: 'warning' as const,
+        buttons: ['Trust and Run', 'Cancel'],
+        defaultId: 1,
+        cancelId: 1,
+        title: 'Trust this notebook?',
+        message: `Let "${path.basename(filePath, path.extname(filePath))}" run programs on this computer?`,
+        detail: `Its ${spec.name} cells will run with ${executable} in ${path.dirname(filePath)}, with the same access to your files that you have. Only trust notebooks you wrote or got from someone you trust.\n\nYou'll be asked again if the notebook is changed outside ThoughtsPlus. Trust can be revoked from the notebook's Local menu.`,
+    };
+    const { response } = win ? await dialog.showMessageBox(win, options) : await dialog.showMessageBox(options);
+    if (response !== 0) return false;
+    await setNotebookTrusted(filePath, true, hash);
+    return true;
+}
+
+// Ends the cell's process and anything it started
+function killProcessTree(child: ChildProcess) {
+    if (child.pid === undefined || child.exitCode !== null) return;
+    try {
+        if (process.platform === 'win32') spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { windowsHide: true });
+        else process.kill(-child.pid, 'SIGKILL');
+    } catch {
+        child.kill('SIGKILL');
+    }
+}
+
+async function runLocalCell({ runId, filePath, kernelId, code, timeoutSeconds, memoryMb }: {
+    runId: string; filePath: string; kernelId: string; code: string; timeoutSeconds: number; memoryMb: number;
+}): Promise<LocalRunEnd> {
+    const spec = getLocalKernel(kernelId);
+    if (!spec) return { status: 'failed', exitCode: null, error: `Unknown kernel "${kernelId}".` };
+    const executable = resolveLocalKernel(spec);
+    if (!executable) return { status: 'unavailable', exitCode: null };
+    if (!await confirmNotebookTrust(filePath, spec, executable)) return { status: 'untrusted', exitCode: null };
+
+    const scriptDir = path.join(os.tmpdir(), 'nerdbook-kernels');
+    await fs.mkdir(scriptDir, { recursive: true });
+    const scriptPath = path.join(scriptDir, `${randomUUID()}${spec.extension}`);
+    await fs.writeFile(scriptPath, code, 'utf-8');
+
+    const { command, args } = buildLocalCommand(spec, executable, scriptPath, memoryMb, process.platform);
+    try {
+        return await new Promise<LocalRunEnd>(resolve => {
+            const child = spawn(command, args, {
+                cwd: path.dirname(filePath),
+                env: { ...process.env, PYTHONIOENCODING: 'utf-8' },
+                stdio: ['ignore', 'pipe', 'pipe'],
+                // Its own process group, so stopping it also ends what the cell started
+                detached: process.platform !== 'win32',
+                windowsHide: true,
+            });
+
+            let endStatus: LocalRunStatus | null = null;
+            let drainTimer: NodeJS.Timeout | undefined;
+            const stop = (status: LocalRunStatus) => {
+                if (endStatus) return;
+                endStatus = status;
+                killProcessTree(child);
+                // End the run even if the kill doesn't take
+                drainTimer ??= setTimeout(() => finish({ status, exitCode: null }), LOCAL_RUN_DRAIN_MS);
+            };
+            const timer = setTimeout(() => stop('timed-out'), timeoutSeconds * 1000);
+            activeLocalRuns.set(runId, stop);
+
+            let printedChars = 0;
+            const forward = (text: string) => {
+                if (endStatus) return;
+                printedChars += text.length;
+                win?.webContents.send('local-kernel-output', { runId, text });
+                if (printedChars > MAX_LOCAL_OUTPUT_CHARS) stop('too-much-output');
+            };
+            child.stdout?.setEncoding('utf-8').on('data', forward);
+            child.stderr?.setEncoding('utf-8').on('data', forward);
+
+            let finished = false;
+            const finish = (end: LocalRunEnd) => {
+                if (finished) return;
+                finished = true;
+                clearTimeout(timer);
+                clearTimeout(drainTimer);
+                activeLocalRuns.delete(runId);
+                child.stdout?.destroy();
+                child.stderr?.destroy();
+                resolve(end);
+            };
+            const ended = (exitCode: number | null): LocalRunEnd => ({ status: endStatus ?? (exitCode === 0 ? 'completed' : 'failed'), exitCode });
+            child.on('error', e => finish({ status: 'failed', exitCode: null, error: e.message }));
+            // 'close' waits for every holder of the output to let go, so 'exit' starts a short drain instead
+            child.on('exit', exitCode => {
+                clearTimeout(drainTimer);
+                drainTimer = setTimeout(() => finish(ended(exitCode)), LOCAL_RUN_DRAIN_MS);
+            });
+            child.on('close', exitCode => finish(ended(exitCode)));
+        });
+    } finally {
+        fs.unlink(scriptPath).catch(() => { });
+    }
+}
+
+function stopAllLocalRuns() {
+    activeLocalRuns.forEach(stop => stop('stopped'));
+}
+
 // Initialize app when ready
 app.whenReady().then(async () => {
+    protocol.handle(PYODIDE_SCHEME, handlePyodideRequest);
+
     // In dev mode, copy production data to dev folder first
     await copyProductionToDevFolder();
 
@@ -4833,4 +6931,15 @@ app.whenReady().then(async () => {
 
     // Start background reminder checker (runs even when window is minimized)
     startReminderChecker();
+
+    // Hourly rotating backups of calendar, task, settings and workspace data
+    startBackupScheduler();
+
+    // Empty workspace trash entries past their retention period
+    purgeExpiredTrash().catch(e => console.error('[Trash] Failed to purge expired entries:', e));
+
+    // Resume the ICS subscription feed if the user enabled it
+    if (getIcsFeedSettings().enabled) {
+        startIcsFeedServer().catch(e => console.error('[ICS Feed] Failed to start server:', e));
+    }
 });
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { useState, useEffect, lazy, Suspense } from 'react';
+import { useState, useEffect, useMemo, lazy, Suspense } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Sidebar } from './components/Sidebar';
 import { Dashboard } from './pages/Dashboard';
@@ -14,11 +14,17 @@ import { EventReminderOverlay, ReminderAlert } from './components/EventReminderO
 import { UpdateNotification } from './components/UpdateNotification';
 import { QuickTimerModal } from './components/QuickTimerModal';
 import { RatingPrompt } from './components/RatingPrompt';
+import { CommandPalette, CommandPaletteMode } from './components/CommandPalette';
+import { ShortcutConfig, loadShortcuts, matchesShortcut } from './components/KeyboardShortcuts';
+import { PaletteCommand } from './utils/commandRegistry';
+import { useRegisterCommands } from './hooks/useCommandRegistry';
+import { requestWorkspaceOpen } from './utils/workspaceStorage';
 import { DevPage } from './pages/Dev';
 import { Page, Note, NotesData, Milestone, MilestonesData, LifeChapter, LifeChaptersData, Snapshot, SnapshotsData, QuickNote, NerdNotebook, NerdNotebooksData } from './types';
 import { DashboardLayoutProvider, useDashboardLayout } from './contexts/DashboardLayoutContext';
 import { LanguageProvider } from './contexts/LanguageContext';
 import { ratingPrompt } from './utils/ratingPrompt';
+import { expandRecurringNotes, migrateLegacySeries, createSeries, updateOccurrence, isOccurrence, withNextOccurrenceOnly } from './utils/recurrence';
 
 /** Returns a local-time YYYY-MM-DD string (timezone-safe). */
 const toLocalDateKey = (date: Date): string => {
@@ -89,6 +95,8 @@ function App() {
     const [isQuickTimerOpen, setIsQuickTimerOpen] = useState(false);
     const [wasWindowHiddenBeforeAiQuickAdd, setWasWindowHiddenBeforeAiQuickAdd] = useState(false);
     const [wasWindowHiddenBeforeQuickTimer, setWasWindowHiddenBeforeQuickTimer] = useState(false);
+    const [commandPaletteMode, setCommandPaletteMode] = useState<CommandPaletteMode | null>(null);
+    const [shortcuts, setShortcuts] = useState<ShortcutConfig[]>(loadShortcuts);
     const { addNotification } = useNotification();
 
     // Tutorial State
@@ -369,16 +377,24 @@ function App() {
             const isSuppressed = localStorage.getItem('notification-suppression') === 'true';
             if (!remindersEnabled || isSuppressed) return;
 
+            // Repeats of an alert already on screen replace it (escalating reminders update their count)
             setReminderAlerts(prev => {
+                const incoming = new Map(newAlerts.map(a => [a.id, a]));
+                const updated = prev.map(a => incoming.get(a.id) || a);
                 const existingIds = new Set(prev.map(a => a.id));
-                const fresh = newAlerts.filter(a => !existingIds.has(a.id));
-                return [...prev, ...fresh];
+                return [...updated, ...newAlerts.filter(a => !existingIds.has(a.id))];
             });
         };
 
         // @ts-ignore
         window.ipcRenderer?.on('event-reminder-alerts', handleReminderAlerts);
 
+        // Restore reminders that were still waiting when the app was last closed
+        // @ts-ignore
+        window.ipcRenderer?.invoke('get-active-reminders').then((alerts: ReminderAlert[]) => {
+            if (Array.isArray(alerts) && alerts.length > 0) handleReminderAlerts(null, alerts);
+        }).catch((e: unknown) => console.error('Failed to restore reminders:', e));
+
         // Sync enabled state to main process on mount and when it changes
         const syncEnabled = () => {
             const enabled = localStorage.getItem('event-reminders-enabled') !== 'false';
@@ -429,8 +445,23 @@ function App() {
         };
     }, []);
 
+    // Keep the palette shortcuts in sync with Settings
+    useEffect(() => {
+        const handleShortcutsChanged = (e: CustomEvent) => setShortcuts(e.detail);
+        window.addEventListener('shortcuts-changed', handleShortcutsChanged as EventListener);
+        return () => window.removeEventListener('shortcuts-changed', handleShortcutsChanged as EventListener);
+    }, []);
+
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
+            const paletteShortcut = shortcuts.find(s =>
+                s.enabled && (s.id === 'quick-open' || s.id === 'command-palette') && matchesShortcut(s, e));
+            if (paletteShortcut) {
+                e.preventDefault();
+                setCommandPaletteMode(paletteShortcut.id === 'quick-open' ? 'files' : 'commands');
+                return;
+            }
+
             if (e.ctrlKey && e.key === '/') {
                 e.preventDefault();
                 setShowDev(prev => !prev);
@@ -471,7 +502,7 @@ function App() {
 
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [isAiModalOpen, isQuickTimerOpen, isQuickCaptureOpen, currentPage, showDev]);
+    }, [isAiModalOpen, isQuickTimerOpen, isQuickCaptureOpen, currentPage, showDev, shortcuts]);
 
     // Handle custom navigation events from widgets
     useEffect(() => {
@@ -492,7 +523,14 @@ function App() {
             console.log('[Notes] Loaded notes data:', data);
             console.log('[Notes] Notes keys:', data?.notes ? Object.keys(data.notes) : 'No notes');
             if (data && data.notes) {
-                setNotes(data.notes);
+                // Collapse recurring series saved as one copy per date into single definitions
+                const { notes: migratedNotes, migrated } = migrateLegacySeries(data.notes);
+                setNotes(migratedNotes);
+                if (migrated > 0) {
+                    console.log(`[Notes] Migrated ${migrated} legacy recurring series`);
+                    // @ts-ignore
+                    await window.ipcRenderer.invoke('save-data', { ...data, notes: migratedNotes });
+                }
             }
             if (data && data.milestones) {
                 setMilestones(data.milestones);
@@ -520,15 +558,25 @@ function App() {
         setCurrentMonth(date);
     };
 
-    // Event Reminder Handlers
+    // Event Reminder Handlers - dismissing acknowledges the reminder so it won't repeat or come back after a restart
     const handleDismissReminder = (alertId: string) => {
         setReminderAlerts(prev => prev.filter(a => a.id !== alertId));
+        // @ts-ignore
+        window.ipcRenderer?.invoke('acknowledge-reminders', [alertId]);
     };
 
     const handleDismissAllReminders = () => {
+        // @ts-ignore
+        window.ipcRenderer?.invoke('acknowledge-reminders', reminderAlerts.map(a => a.id));
         setReminderAlerts([]);
     };
 
+    const handleSnoozeReminder = (alertIds: string[], until: number) => {
+        setReminderAlerts(prev => prev.filter(a => !alertIds.includes(a.id)));
+        // @ts-ignore
+        window.ipcRenderer?.invoke('snooze-reminders', alertIds, until);
+    };
+
     const handleViewReminderEvent = (date: string, _noteId: string) => {
         const [y, m, d] = date.split('-').map(Number);
         const eventDate = new Date(y, m - 1, d);
@@ -554,59 +602,18 @@ function App() {
 
         const dateKey = toLocalDateKey(date);
 
+        // Recurring notes are stored once; occurrences are expanded when displayed
+        const storedNote = note.recurrence ? createSeries(note, note.recurrence) : note;
+
         if (isMockMode) {
             const existingNotes = mockNotesState[dateKey] || [];
-            const newNotes = { ...mockNotesState, [dateKey]: [...existingNotes, note] };
+            const newNotes = { ...mockNotesState, [dateKey]: [...existingNotes, storedNote] };
             setMockNotesState(newNotes);
         } else {
             console.log('[Note] Creating notes map...');
-            let newNotesMap = { ...notes };
-
-            // Generate a seriesId if this is a recurring note
-            const seriesId = note.recurrence ? crypto.randomUUID() : undefined;
-            console.log('[Note] SeriesId:', seriesId);
-
-            // Add the first instance with seriesId
-            const firstNote = { ...note, seriesId };
-            if (!newNotesMap[dateKey]) newNotesMap[dateKey] = [];
-            newNotesMap[dateKey].push(firstNote);
-            console.log('[Note] First note added to', dateKey);
-
-            // Handle recurring notes
-            if (note.recurrence) {
-                console.log('[Note] Processing recurring notes...');
-                let currentDate = date;
-                let count = 0;
-                const r = note.recurrence;
-                const limit = r.count || 10;
-                const endDate = r.endDate ? new Date(r.endDate) : null;
-
-                // Create additional instances
-                while (count < limit - 1) { // -1 because we already added the first one
-                    // Calculate next date based on recurrence type
-                    if (r.type === 'daily') {
-                        currentDate = new Date(currentDate);
-                        currentDate.setDate(currentDate.getDate() + 1);
-                    } else if (r.type === 'weekly') {
-                        currentDate = new Date(currentDate);
-                        currentDate.setDate(currentDate.getDate() + 7);
-                    } else if (r.type === 'fortnightly') {
-                        currentDate = new Date(currentDate);
-                        currentDate.setDate(currentDate.getDate() + 14);
-                    } else if (r.type === 'monthly') {
-                        currentDate = new Date(currentDate);
-                        currentDate.setMonth(currentDate.getMonth() + 1);
-                    }
-
-                    if (endDate && currentDate > endDate) break;
-
-                    const dk = toLocalDateKey(currentDate);
-                    if (!newNotesMap[dk]) newNotesMap[dk] = [];
-                    newNotesMap[dk].push({ ...note, id: crypto.randomUUID(), seriesId });
-                    count++;
-                }
-                console.log(`[Note] Created ${count + 1} recurring instances`);
-            }
+            const newNotesMap = { ...notes };
+            newNotesMap[dateKey] = [...(newNotesMap[dateKey] || []), storedNote];
+            console.log('[Note] Note added to', dateKey);
 
             console.log('[Note] Setting notes state...');
             setNotes(newNotesMap);
@@ -633,7 +640,16 @@ function App() {
     const handleUpdateNote = (note: Note, date: Date) => {
         const dateKey = toLocalDateKey(date);
 
-        if (isMockMode) {
+        if (isOccurrence(note)) {
+            // Quick edits (e.g. ticking off) only ever apply to this occurrence
+            if (isMockMode) {
+                setMockNotesState(updateOccurrence(mockNotesState, note, 'this'));
+            } else {
+                const newNotes = updateOccurrence(notes, note, 'this');
+                setNotes(newNotes);
+                saveNotesToBackend(newNotes);
+            }
+        } else if (isMockMode) {
             const existingNotes = mockNotesState[dateKey] || [];
             const updatedNotes = existingNotes.map(n => n.id === note.id ? note : n);
             const newNotes = { ...mockNotesState, [dateKey]: updatedNotes };
@@ -1008,6 +1024,8 @@ function App() {
                         setIsQuickTimerOpen={setIsQuickTimerOpen}
                         wasWindowHiddenBeforeQuickTimer={wasWindowHiddenBeforeQuickTimer}
                         setWasWindowHiddenBeforeQuickTimer={setWasWindowHiddenBeforeQuickTimer}
+                        commandPaletteMode={commandPaletteMode}
+                        setCommandPaletteMode={setCommandPaletteMode}
                         handleNavigateToNote={handleNavigateToNote}
                         handleMonthSelect={handleMonthSelect}
                         handleAddNote={handleAddNote}
@@ -1048,6 +1066,7 @@ function App() {
                         reminderAlerts={reminderAlerts}
                         handleDismissReminder={handleDismissReminder}
                         handleDismissAllReminders={handleDismissAllReminders}
+                        handleSnoozeReminder={handleSnoozeReminder}
                         handleViewReminderEvent={handleViewReminderEvent}
                     />
                 </TimerProvider>
@@ -1082,6 +1101,8 @@ interface AppContentProps {
     setIsQuickTimerOpen: (value: boolean) => void;
     wasWindowHiddenBeforeQuickTimer: boolean;
     setWasWindowHiddenBeforeQuickTimer: (value: boolean) => void;
+    commandPaletteMode: CommandPaletteMode | null;
+    setCommandPaletteMode: (mode: CommandPaletteMode | null) => void;
     handleNavigateToNote: (date: Date, noteId: string) => void;
     handleMonthSelect: (monthIndex: number) => void;
     handleAddNote: (note: Note, date: Date) => void;
@@ -1122,6 +1143,7 @@ interface AppContentProps {
     reminderAlerts: ReminderAlert[];
     handleDismissReminder: (alertId: string) => void;
     handleDismissAllReminders: () => void;
+    handleSnoozeReminder: (alertIds: string[], until: number) => void;
     handleViewReminderEvent: (date: string, noteId: string) => void;
 }
 
@@ -1189,6 +1211,7 @@ function AppContent(props: AppContentProps) {
         selectedDate, setNotes, isMockMode, setIsMockMode,
         isAiModalOpen, setIsAiModalOpen, wasWindowHiddenBeforeAiQuickAdd, setWasWindowHiddenBeforeAiQuickAdd,
         isQuickTimerOpen, setIsQuickTimerOpen, wasWindowHiddenBeforeQuickTimer, setWasWindowHiddenBeforeQuickTimer,
+        commandPaletteMode, setCommandPaletteMode,
         handleNavigateToNote, handleMonthSelect, handleAddNote, handleUpdateNote,
         setIsSetupDemoMode, setShowSetup, companionMode,
 
@@ -1203,9 +1226,41 @@ function AppContent(props: AppContentProps) {
         nerdbooks, handleAddNerdbook, handleUpdateNerdbook, handleDeleteNerdbook,
         showRatingPrompt, setShowRatingPrompt,
         activeTutorialId, setActiveTutorialId,
-        reminderAlerts, handleDismissReminder, handleDismissAllReminders, handleViewReminderEvent
+        reminderAlerts, handleDismissReminder, handleDismissAllReminders, handleSnoozeReminder, handleViewReminderEvent
     } = props;
 
+    // Stored notes with recurring series expanded into occurrences, up to a year past the viewed month
+    const displayNotes = useMemo(() => {
+        const horizon = new Date(Math.max(Date.now(), currentMonth.getTime()));
+        horizon.setFullYear(horizon.getFullYear() + 1);
+        return expandRecurringNotes(activeNotes, toLocalDateKey(horizon));
+    }, [activeNotes, currentMonth]);
+
+    // The dashboard's counts and trends see each series' future once, not a year of occurrences
+    const dashboardNotes = useMemo(() => withNextOccurrenceOnly(displayNotes, toLocalDateKey(new Date())), [displayNotes]);
+
+    // App-wide actions for the command palette
+    const appCommands = useMemo<PaletteCommand[]>(() => [
+        {
+            id: 'app.new-note', title: 'New note', category: 'action', keywords: ['create', 'file'],
+            run: () => {
+                requestWorkspaceOpen({ createType: 'note' });
+                setCurrentPage('workspace');
+            },
+        },
+        {
+            id: 'app.start-timer', title: 'Start timer', category: 'action', keywords: ['pomodoro', 'stopwatch', 'focus'],
+            shortcut: 'Ctrl+Enter', run: () => setIsQuickTimerOpen(true),
+        },
+        {
+            id: 'app.ai-quick-add', title: 'Quick add event', category: 'action', keywords: ['ai', 'calendar'],
+            shortcut: 'Ctrl+M', run: () => setIsAiModalOpen(true),
+        },
+        { id: 'app.quick-todo', title: 'Quick add task', category: 'action', keywords: ['todo'], run: () => setIsQuickTodoOpen(true) },
+        { id: 'app.quick-capture', title: 'Quick capture', category: 'action', keywords: ['note', 'scratch'], run: () => setIsQuickCaptureOpen(true) },
+    ], [setCurrentPage, setIsQuickTimerOpen, setIsAiModalOpen, setIsQuickTodoOpen, setIsQuickCaptureOpen]);
+    useRegisterCommands(appCommands);
+
     // Check if we're on workspace page - it needs full width layout
     const isWorkspacePage = currentPage === 'workspace';
 
@@ -1235,7 +1290,7 @@ function AppContent(props: AppContentProps) {
                             <Sidebar
                                 currentPage={currentPage}
                                 setPage={setCurrentPage}
-                                notes={activeNotes}
+                                notes={displayNotes}
                                 onMonthSelect={handleMonthSelect}
                                 currentMonth={currentMonth}
                                 isCollapsed={isSidebarCollapsed}
@@ -1261,7 +1316,7 @@ function AppContent(props: AppContentProps) {
                             }>
                                 {currentPage === 'dashboard' && (
                                     <Dashboard
-                                        notes={activeNotes}
+                                        notes={dashboardNotes}
                                         onNavigateToNote={handleNavigateToNote}
                                         userName={activeUserName}
                                         onAddNote={handleAddNote}
@@ -1296,7 +1351,7 @@ function AppContent(props: AppContentProps) {
                                 {currentPage === 'timer' && <TimerPage isSidebarCollapsed={isSidebarCollapsed} />}
                                 {currentPage === 'progress' && (
                                     <ProgressPage
-                                        notes={activeNotes}
+                                        notes={displayNotes}
                                         milestones={milestones}
                                         lifeChapters={lifeChapters}
                                         snapshots={snapshots}
@@ -1380,6 +1435,14 @@ function AppContent(props: AppContentProps) {
 
             <ShortcutsOverlay currentPage={currentPage} />
 
+            <CommandPalette
+                mode={commandPaletteMode}
+                onClose={() => setCommandPaletteMode(null)}
+                currentPage={currentPage}
+                setPage={setCurrentPage}
+                showDev={showDev}
+            />
+
             {/* Timer overlays - visible on all pages */}
             <TimerAlertOverlay isSidebarCollapsed={isSidebarCollapsed} />
 
@@ -1388,6 +1451,7 @@ function AppContent(props: AppContentProps) {
                 alerts={reminderAlerts}
                 onDismiss={handleDismissReminder}
                 onDismissAll={handleDismissAllReminders}
+                onSnooze={handleSnoozeReminder}
                 onViewEvent={handleViewReminderEvent}
                 isSidebarCollapsed={isSidebarCollapsed}
             />
@@ -139,7 +139,7 @@ export function AiQuickAddModal({ isOpen, onClose, onSave, wasTriggeredFromHidde
             }
 
             if (result && result.title && result.date) {
-                const { title, description, time, importance, date, descriptionOptions, recurrence } = result;
+                const { title, description, time, timeZone, importance, date, descriptionOptions, recurrence } = result;
                 const targetDate = date ? new Date(date) : new Date();
 
                 // Use descriptionOptions from backend, fallback to description or empty array
@@ -159,6 +159,7 @@ export function AiQuickAddModal({ isOpen, onClose, onSave, wasTriggeredFromHidde
                     title,
                     description: validOptions.length > 0 ? validOptions[0] : '',
                     time: time || '09:00',
+                    timeZone: timeZone || undefined,
                     importance: importance || 'misc',
                     recurrence: recurrence || undefined
                 };
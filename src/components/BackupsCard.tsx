@@ -0,0 +1,182 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Archive, ChevronDown, ChevronUp, RotateCcw, Loader2, FileText } from 'lucide-react';
+import clsx from 'clsx';
+import { format } from 'date-fns';
+import { useNotification } from '../contexts/NotificationContext';
+import { BackupManifest, BackupSummary, compareBackupSummaries } from '../utils/backups';
+
+const REASON_LABELS: Record<BackupManifest['reason'], string> = {
+    auto: 'Automatic',
+    manual: 'Manual',
+    'pre-restore': 'Before restore',
+};
+
+const SUMMARY_LABELS: Record<keyof BackupSummary, string> = {
+    events: 'events',
+    tasks: 'tasks',
+    files: 'files',
+    cards: 'cards',
+};
+
+/**
+ * Settings card listing the automatic backups, how each differs from the
+ * current data, and restoring a whole backup or a single file from it.
+ */
+export function BackupsCard() {
+    const { addNotification } = useNotification();
+    const [backups, setBackups] = useState<BackupManifest[]>([]);
+    const [current, setCurrent] = useState<BackupSummary | null>(null);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [files, setFiles] = useState<string[]>([]);
+    const [busy, setBusy] = useState(false);
+
+    const loadBackups = async () => {
+        // @ts-ignore
+        const result = await window.ipcRenderer?.invoke('list-backups');
+        if (result?.success) {
+            setBackups(result.backups);
+            setCurrent(result.current);
+        }
+    };
+
+    useEffect(() => {
+        loadBackups();
+    }, []);
+
+    const toggleExpanded = async (id: string) => {
+        if (expandedId === id) {
+            setExpandedId(null);
+            return;
+        }
+        setExpandedId(id);
+        setFiles([]);
+        // @ts-ignore
+        const result = await window.ipcRenderer.invoke('get-backup-files', id);
+        if (result.success) setFiles(result.files);
+    };
+
+    const handleBackUpNow = async () => {
+        setBusy(true);
+        // @ts-ignore
+        const result = await window.ipcRenderer.invoke('create-backup');
+        setBusy(false);
+        if (result.success) {
+            addNotification({ title: 'Backup Created', message: 'Your data has been backed up.', type: 'success' });
+            loadBackups();
+        } else {
+            addNotification({ title: 'Backup Failed', message: result.error || 'Could not create a backup.', type: 'error' });
+        }
+    };
+
+    const handleRestore = async (backup: BackupManifest, relativePath?: string) => {
+        const when = format(backup.createdAt, 'MMM d, yyyy HH:mm');
+        const what = relativePath ? `"${relativePath}"` : 'all calendar, task, settings and workspace data';
+        if (!confirm(`Restore ${what} from the backup taken ${when}? Your current data is backed up first.`)) return;
+
+        setBusy(true);
+        // @ts-ignore
+        const result = await window.ipcRenderer.invoke('restore-backup', backup.id, relativePath);
+        setBusy(false);
+        if (result.success) {
+            // Reload so every page picks up the restored data
+            window.location.reload();
+        } else {
+            addNotification({ title: 'Restore Failed', message: result.error || 'Could not restore the backup.', type: 'error' });
+        }
+    };
+
+    return (
+        <motion.div
+            initial={{ y: -15, scale: 0.97 }}
+            animate={{ y: 0, scale: 1 }}
+            transition={{ type: 'spring', stiffness: 300, damping: 20, delay: 0.32 }}
+            className="p-6 rounded-3xl bg-white dark:bg-gray-800 border border-gray-100 dark:border-gray-700 shadow-xl shadow-gray-200/50 dark:shadow-gray-900/50 overflow-hidden flex flex-col h-full"
+        >
+            <div className="flex items-center gap-3 mb-4 min-w-0">
+                <div className="p-2.5 rounded-xl bg-gray-100 dark:bg-gray-700/50 text-amber-600 dark:text-amber-400 shrink-0">
+                    <Archive className="w-5 h-5" />
+                </div>
+                <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 truncate">Backups</h2>
+            </div>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4 line-clamp-2">
+                Hourly snapshots of your events, tasks, settings and workspace, kept for up to 8 weeks.
+            </p>
+
+            <div className="flex-1 min-h-0 max-h-72 overflow-y-auto space-y-2 pr-1">
+                {backups.length === 0 && (
+                    <p className="text-xs text-gray-400 dark:text-gray-500 text-center py-6">No backups yet</p>
+                )}
+                {backups.map(backup => {
+                    const changes = current ? compareBackupSummaries(backup.summary, current).filter(c => c.delta !== 0) : [];
+                    const isExpanded = expandedId === backup.id;
+                    return (
+                        <div key={backup.id} className="rounded-xl bg-gray-50 dark:bg-gray-700/50 border border-gray-100 dark:border-gray-600 min-w-0">
+                            <div className="flex items-center gap-2 p-3 min-w-0">
+                                <button onClick={() => toggleExpanded(backup.id)} className="flex items-center gap-2 min-w-0 flex-1 text-left">
+                                    {isExpanded ? <ChevronUp className="w-4 h-4 text-gray-400 shrink-0" /> : <ChevronDown className="w-4 h-4 text-gray-400 shrink-0" />}
+                                    <div className="min-w-0 flex-1">
+                                        <span className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate block">
+                                            {format(backup.createdAt, 'MMM d, HH:mm')}
+                                            <span className="ml-2 text-xs font-normal text-gray-400">{REASON_LABELS[backup.reason]}</span>
+                                        </span>
+                                        <span className="text-xs text-gray-500 dark:text-gray-400 truncate block">
+                                            {changes.length === 0
+                                                ? 'Same counts as current data'
+                                                : changes.map(c => `${c.delta > 0 ? '+' : ''}${c.delta} ${SUMMARY_LABELS[c.key]}`).join(', ')}
+                                        </span>
+                                    </div>
+                                </button>
+                                <button
+                                    onClick={() => handleRestore(backup)}
+                                    disabled={busy}
+                                    className="p-1.5 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-500 shrink-0 disabled:opacity-50"
+                                    title="Restore this backup"
+                                >
+                                    <RotateCcw className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+                            <AnimatePresence>
+                                {isExpanded && (
+                                    <motion.div
+                                        initial={{ height: 0, opacity: 0 }}
+                                        animate={{ height: 'auto', opacity: 1 }}
+                                        exit={{ height: 0, opacity: 0 }}
+                                        className="overflow-hidden border-t border-gray-100 dark:border-gray-600"
+                                    >
+                                        <div className="p-2 space-y-0.5">
+                                            {files.map(file => (
+                                                <div key={file} className="flex items-center gap-2 px-2 py-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 group min-w-0">
+                                                    <FileText className="w-3.5 h-3.5 text-gray-400 shrink-0" />
+                                                    <span className="text-xs text-gray-600 dark:text-gray-300 truncate flex-1" title={file}>{file}</span>
+                                                    <button
+                                                        onClick={() => handleRestore(backup, file)}
+                                                        disabled={busy}
+                                                        className="text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-200 opacity-0 group-hover:opacity-100 shrink-0"
+                                                    >
+                                                        Restore
+                                                    </button>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </motion.div>
+                                )}
+                            </AnimatePresence>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <button
+                onClick={handleBackUpNow}
+                disabled={busy}
+                className={clsx(
+                    "mt-4 flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-gray-50 dark:bg-gray-700/50 hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600 transition-all text-xs font-semibold",
+                    busy && "opacity-50 cursor-wait"
+                )}
+            >
+                {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Archive className="w-3.5 h-3.5" />} Back up now
+            </button>
+        </motion.div>
+    );
+}
@@ -0,0 +1,310 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+    Search, Compass, Layers, Palette, Zap, Sun, Moon, Clock, LucideIcon,
+} from 'lucide-react';
+import clsx from 'clsx';
+import { Page } from '../types';
+import { WorkspaceData, FILE_ICONS } from '../types/workspace';
+import { useTheme } from '../contexts/ThemeContext';
+import { loadShortcuts } from './KeyboardShortcuts';
+import { loadWorkspace, requestWorkspaceOpen } from '../utils/workspaceStorage';
+import {
+    PaletteCommand,
+    CommandCategory,
+    loadRecentCommandIds,
+    rankCommands,
+    recordRecentCommand,
+} from '../utils/commandRegistry';
+import { useRegisteredCommands } from '../hooks/useCommandRegistry';
+
+export type CommandPaletteMode = 'files' | 'commands';
+
+interface CommandPaletteProps {
+    mode: CommandPaletteMode | null; // null = closed
+    onClose: () => void;
+    currentPage: Page;
+    setPage: (page: Page) => void;
+    showDev: boolean;
+}
+
+// Typing this first switches from files to commands, as in code editors
+const COMMAND_PREFIX = '>';
+
+const CATEGORY_ICONS: Record<CommandCategory, LucideIcon> = {
+    action: Zap,
+    page: Compass,
+    file: Search,
+    session: Layers,
+    theme: Palette,
+};
+
+const CATEGORY_LABELS: Record<CommandCategory, string> = {
+    action: 'Action',
+    page: 'Page',
+    file: 'File',
+    session: 'Session',
+    theme: 'Theme',
+};
+
+// Pages that can be opened from the palette, with the shortcut id that opens each
+const PALETTE_PAGES: { page: Page; title: string; shortcutId?: string; keywords?: string[] }[] = [
+    { page: 'dashboard', title: 'Dashboard', shortcutId: 'dashboard', keywords: ['home'] },
+    { page: 'calendar', title: 'Calendar', shortcutId: 'calendar', keywords: ['events'] },
+    { page: 'workspace', title: 'Workspace', shortcutId: 'notebook', keywords: ['notebook', 'files', 'notes'] },
+    { page: 'timer', title: 'Timer', shortcutId: 'timer', keywords: ['stopwatch', 'focus'] },
+    { page: 'progress', title: 'Progress', shortcutId: 'progress', keywords: ['milestones', 'life chapters'] },
+    { page: 'github', title: 'GitHub', shortcutId: 'github' },
+    { page: 'stats', title: 'Stats', keywords: ['statistics'] },
+    { page: 'drawing', title: 'Board', keywords: ['drawing', 'sticky notes'] },
+    { page: 'icons', title: 'Icon Gallery' },
+    { page: 'settings', title: 'Settings', shortcutId: 'settings', keywords: ['preferences'] },
+];
+
+export function CommandPalette({ mode, onClose, currentPage, setPage, showDev }: CommandPaletteProps) {
+    const { theme, setTheme, savedThemes, loadTheme, accentColor } = useTheme();
+    const registeredCommands = useRegisteredCommands();
+    const [query, setQuery] = useState('');
+    const [selectedIndex, setSelectedIndex] = useState(0);
+    const [workspace, setWorkspace] = useState<WorkspaceData | null>(null);
+    const [recentIds, setRecentIds] = useState<string[]>([]);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const listRef = useRef<HTMLDivElement>(null);
+
+    // Reset and load fresh data each time the palette opens
+    useEffect(() => {
+        if (!mode) return;
+        setQuery(mode === 'commands' ? COMMAND_PREFIX : '');
+        setSelectedIndex(0);
+        setRecentIds(loadRecentCommandIds());
+        loadWorkspace().then(setWorkspace).catch(() => setWorkspace(null));
+        setTimeout(() => inputRef.current?.focus(), 0);
+    }, [mode]);
+
+    const isCommandQuery = query.startsWith(COMMAND_PREFIX);
+    const searchText = isCommandQuery ? query.slice(COMMAND_PREFIX.length) : query;
+
+    // Files and saved sessions
+    const fileCommands = useMemo<PaletteCommand[]>(() => {
+        if (!workspace) return [];
+
+        const folderPath = (parentId: string | null) => {
+            const parts: string[] = [];
+            let current = workspace.folders.find(f => f.id === parentId);
+            while (current) {
+                parts.unshift(current.name);
+                const parent = current.parentId;
+                current = workspace.folders.find(f => f.id === parent);
+            }
+            return parts.join('/');
+        };
+
+        const openInWorkspace = (request: Parameters<typeof requestWorkspaceOpen>[0]) => {
+            requestWorkspaceOpen(request);
+            setPage('workspace');
+        };
+
+        return [
+            ...workspace.files.map(file => ({
+                id: `file:${file.id}`,
+                title: file.name,
+                subtitle: folderPath(file.parentId) || undefined,
+                category: 'file' as const,
+                run: () => openInWorkspace({ fileId: file.id }),
+            })),
+            ...(workspace.sessions || []).map(session => ({
+                id: `session:${session.id}`,
+                title: session.name,
+                subtitle: `${session.openTabs.length} tab${session.openTabs.length === 1 ? '' : 's'}`,
+                category: 'session' as const,
+                keywords: ['session'],
+                run: () => openInWorkspace({ sessionId: session.id }),
+            })),
+        ];
+    }, [workspace, setPage]);
+
+    // Pages, themes and contributed actions
+    const commandList = useMemo<PaletteCommand[]>(() => {
+        const shortcuts = loadShortcuts();
+        const shortcutFor = (id?: string) => {
+            const shortcut = shortcuts.find(s => s.id === id && s.enabled);
+            return shortcut ? `${shortcut.modifier}+${shortcut.key}` : undefined;
+        };
+
+        const pageEntries: typeof PALETTE_PAGES = [
+            ...PALETTE_PAGES,
+            ...(showDev ? [{ page: 'dev' as const, title: 'Dev Tools' }] : []),
+        ];
+        const pages: PaletteCommand[] = pageEntries
+            .filter(p => p.page !== currentPage)
+            .map(p => ({
+                id: `page:${p.page}`,
+                title: `Go to ${p.title}`,
+                category: 'page' as const,
+                keywords: [p.title, ...(p.keywords || [])],
+                shortcut: shortcutFor(p.shortcutId),
+                run: () => setPage(p.page),
+            }));
+
+        const themes: PaletteCommand[] = [
+            {
+                id: 'theme:toggle',
+                title: `Switch to ${theme === 'dark' ? 'light' : 'dark'} theme`,
+                category: 'theme',
+                keywords: ['toggle theme', 'dark mode', 'light mode'],
+                run: () => setTheme(theme === 'dark' ? 'light' : 'dark'),
+            },
+            ...savedThemes.map(saved => ({
+                id: `theme:${saved.id}`,
+                title: `Use theme: ${saved.name}`,
+                category: 'theme' as const,
+                keywords: [saved.name],
+                run: () => loadTheme(saved.id),
+            })),
+        ];
+
+        return [...registeredCommands, ...pages, ...themes];
+    }, [registeredCommands, currentPage, showDev, theme, savedThemes, setTheme, setPage, loadTheme]);
+
+    const results = useMemo(() => {
+        if (isCommandQuery) return rankCommands(commandList, searchText, recentIds);
+
+        // Files opened recently in the workspace count as recent too
+        const fileRecents = [
+            ...recentIds.filter(id => id.startsWith('file:') || id.startsWith('session:')),
+            ...(workspace?.recentFiles || []).map(id => `file:${id}`),
+        ];
+        return rankCommands(fileCommands, searchText, [...new Set(fileRecents)]);
+    }, [isCommandQuery, commandList, fileCommands, searchText, recentIds, workspace]);
+
+    useEffect(() => {
+        setSelectedIndex(0);
+    }, [query]);
+
+    // Keep the selected row in view
+    useEffect(() => {
+        listRef.current?.querySelector(`[data-index="${selectedIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+    }, [selectedIndex]);
+
+    const runCommand = (command: PaletteCommand) => {
+        recordRecentCommand(command.id);
+        onClose();
+        Promise.resolve(command.run()).catch(err => console.error(`[CommandPalette] "${command.title}" failed:`, err));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setSelectedIndex(i => Math.min(i + 1, results.length - 1));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setSelectedIndex(i => Math.max(i - 1, 0));
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            if (results[selectedIndex]) runCommand(results[selectedIndex]);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            e.stopPropagation();
+            onClose();
+        }
+    };
+
+    const recentSet = useMemo(() => new Set(recentIds), [recentIds]);
+
+    const iconFor = (command: PaletteCommand): LucideIcon => {
+        if (command.category === 'file' && workspace) {
+            const file = workspace.files.find(f => `file:${f.id}` === command.id);
+            if (file) return FILE_ICONS[file.type];
+        }
+        if (command.id === 'theme:toggle') return theme === 'dark' ? Sun : Moon;
+        return CATEGORY_ICONS[command.category];
+    };
+
+    return (
+        <AnimatePresence>
+            {mode && (
+                <>
+                    {/* Backdrop */}
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={onClose}
+                        className="fixed inset-0 bg-black/40 backdrop-blur-sm z-[9999]"
+                    />
+
+                    {/* Palette */}
+                    <motion.div
+                        initial={{ opacity: 0, y: -20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -20 }}
+                        transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+                        className="fixed inset-x-0 top-24 z-[10000] flex justify-center pointer-events-none"
+                    >
+                        <div className="pointer-events-auto w-full max-w-xl mx-4 bg-white dark:bg-gray-800 rounded-2xl shadow-2xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+                            <div className="flex items-center gap-3 px-4 py-3 border-b border-gray-100 dark:border-gray-700">
+                                <Search className="w-4 h-4 text-gray-400 shrink-0" />
+                                <input
+                                    ref={inputRef}
+                                    value={query}
+                                    onChange={(e) => setQuery(e.target.value)}
+                                    onKeyDown={handleKeyDown}
+                                    placeholder={isCommandQuery ? 'Type a command, page or theme…' : `Search files and sessions (type ${COMMAND_PREFIX} for commands)`}
+                                    className="flex-1 bg-transparent outline-none text-sm text-gray-900 dark:text-white placeholder-gray-400"
+                                    spellCheck={false}
+                                />
+                            </div>
+
+                            <div ref={listRef} className="max-h-80 overflow-y-auto py-1">
+                                {results.length === 0 ? (
+                                    <div className="px-4 py-6 text-center text-sm text-gray-400">
+                                        {isCommandQuery ? 'No matching commands' : workspace ? 'No matching files' : 'Loading files…'}
+                                    </div>
+                                ) : (
+                                    results.map((command, index) => {
+                                        const Icon = iconFor(command);
+                                        const isSelected = index === selectedIndex;
+                                        return (
+                                            <button
+                                                key={command.id}
+                                                data-index={index}
+                                                onClick={() => runCommand(command)}
+                                                onMouseMove={() => setSelectedIndex(index)}
+                                                className={clsx(
+                                                    'w-full flex items-center gap-3 px-4 py-2 text-left transition-colors',
+                                                    isSelected ? 'bg-gray-100 dark:bg-gray-700' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                                                )}
+                                            >
+                                                <Icon
+                                                    className="w-4 h-4 shrink-0"
+                                                    style={{ color: isSelected ? accentColor : undefined }}
+                                                />
+                                                <div className="flex-1 min-w-0">
+                                                    <div className="text-sm text-gray-900 dark:text-white truncate">{command.title}</div>
+                                                    {command.subtitle && (
+                                                        <div className="text-[11px] text-gray-400 truncate">{command.subtitle}</div>
+                                                    )}
+                                                </div>
+                                                {recentSet.has(command.id) && !searchText && (
+                                                    <Clock className="w-3 h-3 text-gray-300 dark:text-gray-500 shrink-0" />
+                                                )}
+                                                {command.shortcut && (
+                                                    <kbd className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-300 border border-gray-200 dark:border-gray-600 shrink-0">
+                                                        {command.shortcut}
+                                                    </kbd>
+                                                )}
+                                                <span className="text-[10px] uppercase tracking-wide text-gray-400 w-14 text-right shrink-0">
+                                                    {CATEGORY_LABELS[command.category]}
+                                                </span>
+                                            </button>
+                                        );
+                                    })
+                                )}
+                            </div>
+                        </div>
+                    </motion.div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+}
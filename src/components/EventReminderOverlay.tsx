@@ -1,8 +1,10 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Bell, X, Clock, Calendar, ChevronRight, Check } from 'lucide-react';
+import { Bell, X, Clock, Calendar, ChevronRight, Check, AlarmClock } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
 import { Note } from '../types';
+import { isForeignTimeZone, toViewerDateTime, formatTimeZoneCity } from '../utils/timezone';
+import { SNOOZE_PRESET_MINUTES } from '../utils/reminderSchedule';
 
 export interface ReminderAlert {
     id: string;
@@ -10,12 +12,16 @@ export interface ReminderAlert {
     date: string; // YYYY-MM-DD
     note: Note;
     triggeredAt: number; // timestamp
+    repeatCount?: number; // Times shown again after a snooze or escalation
+    snoozed?: boolean; // Shown again after a snooze
+    escalating?: boolean; // High-importance reminder that repeats until dismissed
 }
 
 interface EventReminderOverlayProps {
     alerts: ReminderAlert[];
     onDismiss: (alertId: string) => void;
     onDismissAll: () => void;
+    onSnooze: (alertIds: string[], until: number) => void;
     onViewEvent: (date: string, noteId: string) => void;
     isSidebarCollapsed?: boolean;
 }
@@ -48,9 +54,27 @@ function formatReminderLabel(note: Note): string {
     return 'Event reminder';
 }
 
-export function EventReminderOverlay({ alerts, onDismiss, onDismissAll, onViewEvent, isSidebarCollapsed = false }: EventReminderOverlayProps) {
+/** Status line for snoozed and repeating reminders. */
+function formatRepeatLabel(alert: ReminderAlert): string | null {
+    if (alert.snoozed) return 'Snoozed reminder';
+    if (alert.escalating) return alert.repeatCount ? `Reminder ${alert.repeatCount + 1} - repeats until dismissed` : 'Repeats until dismissed';
+    return null;
+}
+
+/** Next time the clock shows `time` (HH:mm): later today, or tomorrow if that has passed. */
+function nextTimeOfDay(time: string): number {
+    const [h, m] = time.split(':').map(Number);
+    const target = new Date();
+    target.setHours(h || 0, m || 0, 0, 0);
+    if (target.getTime() <= Date.now()) target.setDate(target.getDate() + 1);
+    return target.getTime();
+}
+
+export function EventReminderOverlay({ alerts, onDismiss, onDismissAll, onSnooze, onViewEvent, isSidebarCollapsed = false }: EventReminderOverlayProps) {
     const { accentColor } = useTheme();
     const [expandedAlert, setExpandedAlert] = useState<string | null>(null);
+    const [snoozeUntilAlert, setSnoozeUntilAlert] = useState<string | null>(null);
+    const [snoozeUntilTime, setSnoozeUntilTime] = useState('');
 
     // Auto-expand the first alert
     useEffect(() => {
@@ -111,6 +135,7 @@ export function EventReminderOverlay({ alerts, onDismiss, onDismissAll, onViewEv
                                     {visibleAlerts.length === 1 && (
                                         <p className="text-xs text-gray-500 dark:text-gray-400">
                                             {formatReminderLabel(visibleAlerts[0].note)}
+                                            {formatRepeatLabel(visibleAlerts[0]) && ` · ${formatRepeatLabel(visibleAlerts[0])}`}
                                         </p>
                                     )}
                                 </div>
@@ -156,14 +181,20 @@ export function EventReminderOverlay({ alerts, onDismiss, onDismissAll, onViewEv
                                                     </p>
                                                     <div className="flex items-center gap-2 mt-0.5">
                                                         <Clock className="w-3 h-3 text-gray-400" />
-                                                        <span className="text-xs text-gray-500 dark:text-gray-400">
-                                                            {formatEventTime(alert.note.time)}
+                                                        <span
+                                                            className="text-xs text-gray-500 dark:text-gray-400"
+                                                            title={isForeignTimeZone(alert.note) ? `${formatEventTime(alert.note.time)} ${formatTimeZoneCity(alert.note.timeZone!)}` : undefined}
+                                                        >
+                                                            {formatEventTime(toViewerDateTime(alert.date, alert.note).time)}
                                                         </span>
                                                         {visibleAlerts.length > 1 && (
                                                             <span className={`text-xs ${colors.text}`}>
                                                                 {formatReminderLabel(alert.note)}
                                                             </span>
                                                         )}
+                                                        {visibleAlerts.length > 1 && alert.escalating && (
+                                                            <Bell className={`w-3 h-3 ${colors.text}`} />
+                                                        )}
                                                     </div>
                                                 </div>
 
@@ -222,6 +253,62 @@ export function EventReminderOverlay({ alerts, onDismiss, onDismissAll, onViewEv
                                                                     Dismiss
                                                                 </motion.button>
                                                             </div>
+
+                                                            {/* Snooze */}
+                                                            <div className="flex flex-wrap items-center gap-1.5 pl-5">
+                                                                <AlarmClock className="w-3 h-3 text-gray-400" />
+                                                                {SNOOZE_PRESET_MINUTES.map(mins => (
+                                                                    <button
+                                                                        key={mins}
+                                                                        onClick={(e) => {
+                                                                            e.stopPropagation();
+                                                                            onSnooze([alert.id], Date.now() + mins * 60 * 1000);
+                                                                        }}
+                                                                        className="px-2 py-1 rounded-lg text-xs font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                                                                    >
+                                                                        {mins} min
+                                                                    </button>
+                                                                ))}
+                                                                {snoozeUntilAlert === alert.id ? (
+                                                                    <form
+                                                                        className="flex items-center gap-1"
+                                                                        onClick={(e) => e.stopPropagation()}
+                                                                        onSubmit={(e) => {
+                                                                            e.preventDefault();
+                                                                            if (!snoozeUntilTime) return;
+                                                                            onSnooze([alert.id], nextTimeOfDay(snoozeUntilTime));
+                                                                            setSnoozeUntilAlert(null);
+                                                                        }}
+                                                                    >
+                                                                        <input
+                                                                            type="time"
+                                                                            value={snoozeUntilTime}
+                                                                            onChange={(e) => setSnoozeUntilTime(e.target.value)}
+                                                                            autoFocus
+                                                                            className="px-1.5 py-0.5 rounded-lg text-xs bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-200"
+                                                                        />
+                                                                        <button
+                                                                            type="submit"
+                                                                            disabled={!snoozeUntilTime}
+                                                                            className="px-2 py-1 rounded-lg text-xs font-medium text-white disabled:opacity-50"
+                                                                            style={{ backgroundColor: accentColor }}
+                                                                        >
+                                                                            Snooze
+                                                                        </button>
+                                                                    </form>
+                                                                ) : (
+                                                                    <button
+                                                                        onClick={(e) => {
+                                                                            e.stopPropagation();
+                                                                            setSnoozeUntilAlert(alert.id);
+                                                                            setSnoozeUntilTime('');
+                                                                        }}
+                                                                        className="px-2 py-1 rounded-lg text-xs font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                                                                    >
+                                                                        Until…
+                                                                    </button>
+                                                                )}
+                                                            </div>
                                                         </div>
                                                     </motion.div>
                                                 )}
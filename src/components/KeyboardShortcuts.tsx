@@ -22,15 +22,56 @@ export const DEFAULT_SHORTCUTS: ShortcutConfig[] = [
     { id: 'timer', label: 'Timer', key: 'T', modifier: 'Ctrl', description: 'Open Timer', enabled: true },
     { id: 'board', label: 'Board', key: 'B', modifier: 'Ctrl', description: 'Open Board', enabled: true },
     { id: 'github', label: 'GitHub', key: 'G', modifier: 'Ctrl', description: 'Open GitHub', enabled: true },
-    { id: 'progress', label: 'Progress', key: 'P', modifier: 'Ctrl', description: 'Open Progress', enabled: true },
+    { id: 'progress', label: 'Progress', key: 'R', modifier: 'Ctrl', description: 'Open Progress', enabled: true },
     { id: 'notebook', label: 'Notebook', key: 'N', modifier: 'Ctrl', description: 'Open Notebook', enabled: true },
     { id: 'settings', label: 'Settings', key: 'S', modifier: 'Ctrl', description: 'Open Settings', enabled: true },
     { id: 'ai-quick-add', label: 'AI Quick Add', key: 'M', modifier: 'Ctrl', description: 'Open AI Quick Add modal', enabled: true, isGlobal: true },
     { id: 'quick-timer', label: 'Quick Timer', key: 'T', modifier: 'Ctrl+Shift', description: 'Open Quick Timer modal', enabled: true, isGlobal: true },
     { id: 'quick-capture', label: 'Quick Capture', key: 'N', modifier: 'Ctrl+Shift', description: 'Capture a note from anywhere, saved in workspace', enabled: true, isGlobal: true },
     { id: 'quick-todo', label: 'Quick To-Do', key: 'K', modifier: 'Ctrl+Shift', description: 'Add a to-do from anywhere', enabled: true, isGlobal: true },
+    { id: 'quick-open', label: 'Quick Open', key: 'P', modifier: 'Ctrl', description: 'Find and open a workspace file', enabled: true },
+    { id: 'command-palette', label: 'Command Palette', key: 'P', modifier: 'Ctrl+Shift', description: 'Search pages, files, themes and actions', enabled: true },
 ];
 
+// Bindings that used to be the default for a shortcut. A saved shortcut still on
+// its old default follows the new one, so it doesn't clash with what replaced it.
+const PREVIOUS_DEFAULTS: Record<string, Pick<ShortcutConfig, 'key' | 'modifier'>> = {
+    progress: { key: 'P', modifier: 'Ctrl' }, // Ctrl+P now opens Quick Open
+};
+
+const isPreviousDefault = (saved: Partial<ShortcutConfig>) => {
+    const previous = saved.id ? PREVIOUS_DEFAULTS[saved.id] : undefined;
+    return !!previous && saved.key === previous.key && saved.modifier === previous.modifier;
+};
+
+/**
+ * Load the user's shortcuts from localStorage, merged over the defaults.
+ */
+export function loadShortcuts(): ShortcutConfig[] {
+    try {
+        const saved = localStorage.getItem('keyboard-shortcuts');
+        if (!saved) return [...DEFAULT_SHORTCUTS];
+
+        const parsed = JSON.parse(saved);
+        return DEFAULT_SHORTCUTS.map(def => {
+            const found = parsed.find((s: ShortcutConfig) => s.id === def.id);
+            if (!found) return def;
+            return isPreviousDefault(found) ? { ...def, ...found, key: def.key, modifier: def.modifier } : { ...def, ...found };
+        });
+    } catch {
+        return [...DEFAULT_SHORTCUTS];
+    }
+}
+
+/** Whether a keydown event matches a shortcut's key and modifiers. */
+export function matchesShortcut(shortcut: ShortcutConfig, e: KeyboardEvent): boolean {
+    const isCtrl = e.ctrlKey || e.metaKey;
+    if (shortcut.key.toLowerCase() !== e.key.toLowerCase()) return false;
+    if (shortcut.modifier === 'Ctrl') return isCtrl && !e.shiftKey && !e.altKey;
+    if (shortcut.modifier === 'Ctrl+Shift') return isCtrl && e.shiftKey && !e.altKey;
+    return isCtrl && !e.shiftKey && e.altKey;
+}
+
 // Keys to show on the keyboard (only relevant ones)
 const KEYBOARD_KEYS = [
     // Row 1 - Letters for shortcuts
@@ -158,6 +199,9 @@ export function KeyboardShortcuts({ className }: KeyboardShortcutsProps) {
                     if (found) {
                         // Always use the default key/modifier unless user has explicitly customized it
                         // Check if the saved key is different from the old default (migration case)
+                        if (isPreviousDefault(found)) {
+                            return { ...def, enabled: found.enabled !== undefined ? found.enabled : def.enabled };
+                        }
                         return {
                             ...def,
                             enabled: found.enabled !== undefined ? found.enabled : def.enabled,
@@ -11,11 +11,13 @@ import {
     ArrowUp,
     Timer,
     Notebook,
+    Search,
+    Command,
     LucideIcon
 } from 'lucide-react';
 import { useEffect, useState } from 'react';
 import { Page } from '../types';
-import { DEFAULT_SHORTCUTS, ShortcutConfig } from './KeyboardShortcuts';
+import { DEFAULT_SHORTCUTS, ShortcutConfig, loadShortcuts } from './KeyboardShortcuts';
 
 interface ShortcutsOverlayProps {
     currentPage: Page;
@@ -33,6 +35,8 @@ const SHORTCUT_ICONS: Record<string, LucideIcon> = {
     'settings': Settings,
     'ai-quick-add': Sparkles,
     'quick-timer': Timer,
+    'quick-open': Search,
+    'command-palette': Command,
 };
 
 export function ShortcutsOverlay({ currentPage }: ShortcutsOverlayProps) {
@@ -41,26 +45,7 @@ export function ShortcutsOverlay({ currentPage }: ShortcutsOverlayProps) {
 
     // Load shortcuts from localStorage and listen for changes
     useEffect(() => {
-        const loadShortcuts = () => {
-            const saved = localStorage.getItem('keyboard-shortcuts');
-            if (saved) {
-                try {
-                    const parsed = JSON.parse(saved);
-                    // Merge with defaults to ensure all shortcuts exist
-                    const merged = DEFAULT_SHORTCUTS.map(def => {
-                        const found = parsed.find((s: ShortcutConfig) => s.id === def.id);
-                        return found ? { ...def, ...found } : def;
-                    });
-                    setShortcuts(merged);
-                } catch {
-                    setShortcuts([...DEFAULT_SHORTCUTS]);
-                }
-            } else {
-                setShortcuts([...DEFAULT_SHORTCUTS]);
-            }
-        };
-
-        loadShortcuts();
+        setShortcuts(loadShortcuts());
 
         const handleShortcutsChanged = (e: CustomEvent) => {
             setShortcuts(e.detail);
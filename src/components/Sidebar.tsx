@@ -3,7 +3,7 @@ import { motion, AnimatePresence, Reorder } from 'framer-motion';
 import clsx from 'clsx';
 import { useState, useEffect } from 'react';
 import { Page, NotesData } from '../types';
-import { DEFAULT_SHORTCUTS, ShortcutConfig } from './KeyboardShortcuts';
+import { DEFAULT_SHORTCUTS, ShortcutConfig, loadShortcuts } from './KeyboardShortcuts';
 import { getAppIcon } from '../assets/appIcons';
 import { useDashboardLayout } from '../contexts/DashboardLayoutContext';
 import { useTheme } from '../contexts/ThemeContext';
@@ -109,26 +109,7 @@ export function Sidebar({ currentPage, setPage, notes, onMonthSelect, currentMon
 
     // Load shortcuts and listen for changes
     useEffect(() => {
-        const loadShortcuts = () => {
-            const saved = localStorage.getItem('keyboard-shortcuts');
-            if (saved) {
-                try {
-                    const parsed = JSON.parse(saved);
-                    // Merge with defaults
-                    const merged = DEFAULT_SHORTCUTS.map(def => {
-                        const found = parsed.find((s: ShortcutConfig) => s.id === def.id);
-                        return found ? { ...def, ...found } : def;
-                    });
-                    setShortcuts(merged);
-                } catch {
-                    setShortcuts(DEFAULT_SHORTCUTS);
-                }
-            } else {
-                setShortcuts(DEFAULT_SHORTCUTS);
-            }
-        };
-
-        loadShortcuts();
+        setShortcuts(loadShortcuts());
 
         const handleShortcutsChanged = (e: CustomEvent) => {
             setShortcuts(e.detail);
@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { BoardPage } from '../../pages/Board';
+import { MentionAnchor } from '../../utils/noteLinking';
 
 interface BoardEditorProps {
     /** The content ID that references the board in storage */
@@ -8,6 +9,8 @@ interface BoardEditorProps {
     filePath?: string;
     /** Callback when board name changes */
     onNameChange?: (name: string) => void;
+    /** Block reference (@board^noteId) whose sticky note should be centered */
+    focusAnchor?: MentionAnchor;
 }
 
 /**
@@ -17,7 +20,7 @@ interface BoardEditorProps {
  * 
  * Requirements: 8.2
  */
-export function BoardEditor({ contentId, filePath, onNameChange }: BoardEditorProps) {
+export function BoardEditor({ contentId, filePath, onNameChange, focusAnchor }: BoardEditorProps) {
     const [refreshTrigger, setRefreshTrigger] = useState(0);
 
     // Set the pending board navigation so Board page loads the correct board
@@ -56,6 +59,7 @@ export function BoardEditor({ contentId, filePath, onNameChange }: BoardEditorPr
                 embeddedMode={true}
                 embeddedBoardId={contentId}
                 onBoardNameChange={onNameChange}
+                focusAnchor={focusAnchor}
             />
         </div>
     );
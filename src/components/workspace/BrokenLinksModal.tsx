@@ -0,0 +1,136 @@
+/**
+ * BrokenLinksModal
+ *
+ * Workspace-wide report of @mentions that don't resolve to any file, grouped
+ * by the file they appear in, with one-click fixes to the closest names.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { Unlink, X, ExternalLink, Loader2, RefreshCw } from 'lucide-react';
+import { BrokenMention } from '../../utils/mentionRefactor';
+
+interface BrokenLinksModalProps {
+    knownNames: string[];
+    getFileName: (filePath: string) => string;
+    onOpenFile: (filePath: string) => void;
+    onFix: (filePath: string, noteName: string, newName: string) => Promise<boolean>;
+    onClose: () => void;
+}
+
+export function BrokenLinksModal({ knownNames, getFileName, onOpenFile, onFix, onClose }: BrokenLinksModalProps) {
+    const [mentions, setMentions] = useState<BrokenMention[] | null>(null);
+    const [fixing, setFixing] = useState<string | null>(null);
+
+    const loadMentions = useCallback(async () => {
+        setMentions(null);
+        // @ts-ignore
+        const result = await window.ipcRenderer?.invoke('find-broken-mentions', knownNames);
+        setMentions(result?.mentions || []);
+    }, [knownNames]);
+
+    useEffect(() => {
+        loadMentions();
+    }, [loadMentions]);
+
+    const handleFix = async (mention: BrokenMention, newName: string) => {
+        setFixing(`${mention.filePath}:${mention.noteName}`);
+        const fixed = await onFix(mention.filePath, mention.noteName, newName);
+        setFixing(null);
+        if (fixed) {
+            // Every mention of that name in the file was rewritten
+            setMentions(prev => prev?.filter(m => !(m.filePath === mention.filePath && m.noteName === mention.noteName)) ?? null);
+        }
+    };
+
+    const byFile = new Map<string, BrokenMention[]>();
+    mentions?.forEach(m => byFile.set(m.filePath, [...(byFile.get(m.filePath) || []), m]));
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+            onClick={onClose}
+        >
+            <motion.div
+                initial={{ scale: 0.95, opacity: 0 }}
+                animate={{ scale: 1, opacity: 1 }}
+                exit={{ scale: 0.95, opacity: 0 }}
+                className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-[36rem] max-h-[80vh] flex flex-col"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex items-center gap-2 mb-1">
+                    <Unlink className="w-5 h-5 text-red-500" />
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 flex-1">Broken links</h3>
+                    <button
+                        onClick={loadMentions}
+                        className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500"
+                        title="Scan again"
+                    >
+                        <RefreshCw className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                    @mentions that don't match any file in the workspace.
+                </p>
+
+                <div className="flex-1 overflow-y-auto space-y-3 pr-1">
+                    {mentions === null && (
+                        <div className="flex items-center justify-center gap-2 py-8 text-sm text-gray-500">
+                            <Loader2 className="w-4 h-4 animate-spin" /> Scanning workspace…
+                        </div>
+                    )}
+                    {mentions?.length === 0 && (
+                        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">No broken links found.</p>
+                    )}
+                    {[...byFile.entries()].map(([filePath, fileMentions]) => (
+                        <div key={filePath} className="rounded-lg border border-gray-200 dark:border-gray-700">
+                            <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-100 dark:border-gray-700">
+                                <span className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate flex-1">{getFileName(filePath)}</span>
+                                <button
+                                    onClick={() => onOpenFile(filePath)}
+                                    className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                                >
+                                    <ExternalLink className="w-3 h-3" /> Open
+                                </button>
+                            </div>
+                            <div className="px-3 py-2 space-y-2">
+                                {fileMentions.map((mention, index) => (
+                                    <div key={index} className="text-xs">
+                                        <p className="font-mono text-red-500">{mention.mention}</p>
+                                        <p className="text-gray-500 dark:text-gray-400 truncate" title={mention.context}>{mention.context}</p>
+                                        {mention.suggestions.length > 0 && (
+                                            <div className="flex flex-wrap items-center gap-1.5 mt-1">
+                                                <span className="text-gray-400">Replace with</span>
+                                                {mention.suggestions.map(name => (
+                                                    <button
+                                                        key={name}
+                                                        onClick={() => handleFix(mention, name)}
+                                                        disabled={fixing !== null}
+                                                        className="px-2 py-0.5 rounded-md bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 hover:bg-blue-100 dark:hover:bg-blue-900/50 disabled:opacity-50"
+                                                    >
+                                                        {name}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+}
+
+export default BrokenLinksModal;
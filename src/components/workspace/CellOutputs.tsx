@@ -0,0 +1,210 @@
+/**
+ * CellOutputs
+ *
+ * A code cell's rich outputs: sortable tables, images that open zoomable,
+ * JSON, and HTML in a sandboxed frame where scripts can't run.
+ */
+
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { ArrowUp, ArrowDown, ZoomIn, ZoomOut, X } from 'lucide-react';
+import clsx from 'clsx';
+import { NerdCellOutput } from '../../types';
+import { TABLE_MIME, TableCell, parseTable, sortTableRows } from '../../utils/cellOutputs';
+
+interface CellOutputsProps {
+    outputs: NerdCellOutput[];
+    dark: boolean;
+}
+
+function TableOutput({ data, dark }: { data: string; dark: boolean }) {
+    const table = useMemo(() => parseTable(data), [data]);
+    const [sort, setSort] = useState<{ column: number; direction: 'asc' | 'desc' } | null>(null);
+
+    const rows = useMemo(() => {
+        if (!table) return [];
+        return sort ? sortTableRows(table.rows, sort.column, sort.direction) : table.rows;
+    }, [table, sort]);
+
+    if (!table) return <pre className="whitespace-pre-wrap">{data}</pre>;
+
+    // Ascending, then descending, then back to the original order
+    const toggleSort = (column: number) => setSort(prev =>
+        prev?.column !== column ? { column, direction: 'asc' }
+            : prev.direction === 'asc' ? { column, direction: 'desc' }
+                : null);
+
+    const formatCell = (cell: TableCell) => cell === null ? '' : String(cell);
+
+    return (
+        <div>
+            <div className="max-h-96 overflow-auto rounded border border-gray-200 dark:border-gray-700">
+                <table className="min-w-full text-xs font-mono">
+                    <thead className={clsx("sticky top-0", dark ? "bg-gray-800" : "bg-gray-50")}>
+                        <tr>
+                            {table.columns.map((column, index) => (
+                                <th key={index} className="px-3 py-1.5 text-left font-semibold whitespace-nowrap">
+                                    <button
+                                        onClick={() => toggleSort(index)}
+                                        className="flex items-center gap-1 hover:underline"
+                                        title="Sort"
+                                    >
+                                        {column}
+                                        {sort?.column === index && (sort.direction === 'asc'
+                                            ? <ArrowUp className="w-3 h-3" />
+                                            : <ArrowDown className="w-3 h-3" />)}
+                                    </button>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map((row, rowIndex) => (
+                            <tr key={rowIndex} className={clsx("border-t", dark ? "border-gray-800" : "border-gray-100")}>
+                                {table.columns.map((_, index) => (
+                                    <td
+                                        key={index}
+                                        className={clsx("px-3 py-1 whitespace-nowrap", typeof row[index] === 'number' && "text-right")}
+                                    >
+                                        {formatCell(row[index] ?? null)}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            {table.totalRows !== undefined && table.totalRows > table.rows.length && (
+                <p className="mt-1 text-xs text-gray-500">Showing {table.rows.length} of {table.totalRows} rows</p>
+            )}
+        </div>
+    );
+}
+
+// HTML without scripts; same-origin only so the frame's height can follow its content
+function HtmlOutput({ html, dark }: { html: string; dark: boolean }) {
+    const frameRef = useRef<HTMLIFrameElement>(null);
+    const [height, setHeight] = useState(40);
+
+    const resize = useCallback(() => {
+        const document = frameRef.current?.contentDocument;
+        if (document) setHeight(Math.min(document.documentElement.scrollHeight, 800));
+    }, []);
+
+    const srcDoc = `<!DOCTYPE html><html><head><style>
+body { margin: 0; font: 13px system-ui, sans-serif; color: ${dark ? '#e5e7eb' : '#111827'}; }
+table { border-collapse: collapse; } th, td { border: 1px solid ${dark ? '#374151' : '#e5e7eb'}; padding: 2px 8px; }
+img { max-width: 100%; }
+</style></head><body>${html}</body></html>`;
+
+    return (
+        <iframe
+            ref={frameRef}
+            srcDoc={srcDoc}
+            sandbox="allow-same-origin"
+            onLoad={resize}
+            className="w-full border-0 bg-transparent"
+            style={{ height }}
+            title="HTML output"
+        />
+    );
+}
+
+function ImageOutput({ src }: { src: string }) {
+    const [zoomed, setZoomed] = useState(false);
+    const [scale, setScale] = useState(1);
+
+    useEffect(() => {
+        if (!zoomed) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') setZoomed(false);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [zoomed]);
+
+    const zoomBy = (factor: number) => setScale(prev => Math.min(8, Math.max(0.25, prev * factor)));
+
+    return (
+        <>
+            <img
+                src={src}
+                alt="Output"
+                onClick={() => {
+                    setScale(1);
+                    setZoomed(true);
+                }}
+                className="max-w-full max-h-96 rounded cursor-zoom-in bg-white"
+            />
+            {zoomed && (
+                <div
+                    className="fixed inset-0 z-[100] bg-black/80 flex items-center justify-center overflow-auto"
+                    onClick={() => setZoomed(false)}
+                    onWheel={e => zoomBy(e.deltaY < 0 ? 1.1 : 1 / 1.1)}
+                >
+                    <img
+                        src={src}
+                        alt="Output"
+                        onClick={e => e.stopPropagation()}
+                        className="bg-white rounded shadow-2xl transition-transform"
+                        style={{ transform: `scale(${scale})` }}
+                    />
+                    <div className="fixed top-4 right-4 flex items-center gap-2" onClick={e => e.stopPropagation()}>
+                        <button onClick={() => zoomBy(1 / 1.25)} className="p-2 rounded-full bg-white/10 hover:bg-white/20 text-white" title="Zoom out">
+                            <ZoomOut className="w-5 h-5" />
+                        </button>
+                        <span className="text-sm text-white/80 w-12 text-center">{Math.round(scale * 100)}%</span>
+                        <button onClick={() => zoomBy(1.25)} className="p-2 rounded-full bg-white/10 hover:bg-white/20 text-white" title="Zoom in">
+                            <ZoomIn className="w-5 h-5" />
+                        </button>
+                        <button onClick={() => setZoomed(false)} className="p-2 rounded-full bg-white/10 hover:bg-white/20 text-white" title="Close (Esc)">
+                            <X className="w-5 h-5" />
+                        </button>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+}
+
+function JsonOutput({ data }: { data: string }) {
+    const pretty = useMemo(() => {
+        try {
+            return JSON.stringify(JSON.parse(data), null, 2);
+        } catch {
+            return data;
+        }
+    }, [data]);
+    return <pre className="whitespace-pre-wrap font-mono text-sm">{pretty}</pre>;
+}
+
+function CellOutput({ output, dark }: { output: NerdCellOutput; dark: boolean }) {
+    switch (output.mime) {
+        case TABLE_MIME:
+            return <TableOutput data={output.data} dark={dark} />;
+        case 'image/png':
+            return <ImageOutput src={`data:image/png;base64,${output.data}`} />;
+        case 'image/svg+xml':
+            return <ImageOutput src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(output.data)}`} />;
+        case 'text/html':
+            return <HtmlOutput html={output.data} dark={dark} />;
+        case 'application/json':
+            return <JsonOutput data={output.data} />;
+        default:
+            return <pre className="whitespace-pre-wrap font-mono text-sm">{output.data}</pre>;
+    }
+}
+
+export function CellOutputs({ outputs, dark }: CellOutputsProps) {
+    return (
+        <div className={clsx(
+            "mt-2 rounded-lg px-4 py-3 space-y-3 overflow-x-auto",
+            dark ? "bg-gray-900 text-gray-200" : "bg-gray-100 text-gray-800"
+        )}>
+            {outputs.map((output, index) => (
+                <CellOutput key={index} output={output} dark={dark} />
+            ))}
+        </div>
+    );
+}
+
+export default CellOutputs;
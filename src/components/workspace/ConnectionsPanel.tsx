@@ -1,14 +1,17 @@
 /**
  * ConnectionsPanel Component
- * A sidebar panel that shows @ connections for a file.
+ * A sidebar panel that shows @ connections for a file, with the sentence
+ * around each backlink and plain-text (unlinked) mentions of the file's name
+ * that can be turned into links.
  * Extends from the right edge of the file tree sidebar.
  */
 
 import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Link2Off, Search, ArrowRight, ArrowLeft, FileCode, PenTool, FileText, Plus } from 'lucide-react';
+import { X, Link2, Link2Off, Search, ArrowRight, ArrowLeft, FileCode, PenTool, FileText, Plus, Unlink } from 'lucide-react';
 import { WorkspaceFile, FileType, FILE_EXTENSIONS } from '../../types/workspace';
-import { parseMentions } from '../../utils/noteLinking';
+import { NoteMention, formatAnchor, parseMentions } from '../../utils/noteLinking';
+import { findUnlinkedMentions, getMentionExcerpt } from '../../utils/mentionRefactor';
 import { useTheme } from '../../contexts/ThemeContext';
 import clsx from 'clsx';
 
@@ -20,6 +23,7 @@ interface ConnectionsPanelProps {
     getFileContent: (fileId: string) => Promise<string>;
     onAddConnection: (fromFileId: string, toFileName: string) => Promise<void>;
     onRemoveConnection: (fromFileId: string, mentionText: string) => Promise<void>;
+    onLinkUnlinkedMentions?: (fromFileId: string, toFileName: string) => Promise<void>;
     sidebarWidth?: number;
 }
 
@@ -28,9 +32,37 @@ interface Connection {
     fileName: string;
     fileType: FileType;
     direction: 'outgoing' | 'incoming';
-    mentionText?: string;
+    mentionTexts: string[];         // Every mention of the file, so removing the connection removes them all
+    anchors: ConnectionAnchor[];    // Headings and blocks the mentions point at
+    excerpts: string[];             // Sentences around the mentions (backlinks only)
 }
 
+// A file that names this one in plain text without an @mention
+interface UnlinkedMentionFile {
+    fileId: string;
+    fileName: string;
+    fileType: FileType;
+    excerpts: string[];
+}
+
+// Excerpts shown per file
+const MAX_EXCERPTS = 3;
+
+interface ConnectionAnchor {
+    label: string;                  // e.g. #Setup or ^cell-3
+    isEmbed: boolean;
+}
+
+// Add a mention to a connection, keeping its texts and anchors unique
+const addMention = (connection: Connection, mention: NoteMention) => {
+    if (!connection.mentionTexts.includes(mention.fullMatch)) connection.mentionTexts.push(mention.fullMatch);
+    if (!mention.anchor) return;
+    const label = formatAnchor(mention.anchor);
+    const existing = connection.anchors.find(a => a.label === label);
+    if (existing) existing.isEmbed = existing.isEmbed || mention.isEmbed;
+    else connection.anchors.push({ label, isEmbed: mention.isEmbed });
+};
+
 // Get icon for file type
 const getFileIcon = (type: FileType) => {
     switch (type) {
@@ -51,6 +83,48 @@ const getFileTypeColor = (type: FileType) => {
     }
 };
 
+// Headings and blocks a connection points at, shown under the file name
+function AnchorChips({ anchors, isDark }: { anchors: ConnectionAnchor[]; isDark: boolean }) {
+    if (anchors.length === 0) return null;
+    return (
+        <div className="flex flex-wrap gap-1 pl-[34px] pr-2.5 pb-1.5">
+            {anchors.map(anchor => (
+                <span
+                    key={anchor.label}
+                    className={clsx(
+                        'px-1.5 py-0.5 rounded text-[10px] truncate max-w-[200px]',
+                        isDark ? 'bg-gray-800 text-gray-400' : 'bg-gray-100 text-gray-500',
+                        anchor.isEmbed && 'border border-dashed border-current'
+                    )}
+                    title={anchor.isEmbed ? `Embeds ${anchor.label}` : anchor.label}
+                >
+                    {anchor.label}
+                </span>
+            ))}
+        </div>
+    );
+}
+
+// Sentences where a file is mentioned, shown under its name
+function Excerpts({ excerpts, isDark }: { excerpts: string[]; isDark: boolean }) {
+    if (excerpts.length === 0) return null;
+    return (
+        <div className="pl-[34px] pr-2.5 pb-1.5 space-y-1">
+            {excerpts.map((excerpt, index) => (
+                <p
+                    key={index}
+                    className={clsx(
+                        'text-[11px] leading-snug line-clamp-2 border-l-2 pl-2',
+                        isDark ? 'text-gray-500 border-gray-700' : 'text-gray-500 border-gray-200'
+                    )}
+                >
+                    {excerpt}
+                </p>
+            ))}
+        </div>
+    );
+}
+
 export function ConnectionsPanel({
     isOpen,
     onClose,
@@ -59,10 +133,13 @@ export function ConnectionsPanel({
     getFileContent,
     onAddConnection,
     onRemoveConnection,
+    onLinkUnlinkedMentions,
     sidebarWidth = 256,
 }: ConnectionsPanelProps) {
     const { accentColor, theme } = useTheme();
     const [connections, setConnections] = useState<Connection[]>([]);
+    const [unlinkedMentions, setUnlinkedMentions] = useState<UnlinkedMentionFile[]>([]);
+    const [reloadKey, setReloadKey] = useState(0);
     const [isLoading, setIsLoading] = useState(true);
     const [searchQuery, setSearchQuery] = useState('');
     const [showAddPanel, setShowAddPanel] = useState(false);
@@ -97,6 +174,7 @@ export function ConnectionsPanel({
         const loadConnections = async () => {
             setIsLoading(true);
             const loadedConnections: Connection[] = [];
+            const loadedUnlinked: UnlinkedMentionFile[] = [];
 
             try {
                 // Get outgoing connections
@@ -105,18 +183,22 @@ export function ConnectionsPanel({
                     const mentions = parseMentions(content, workspaceFiles);
                     mentions.forEach(mention => {
                         if (mention.linkedFile) {
-                            const exists = loadedConnections.some(
+                            let connection = loadedConnections.find(
                                 c => c.fileId === mention.linkedFile!.id && c.direction === 'outgoing'
                             );
-                            if (!exists) {
-                                loadedConnections.push({
+                            if (!connection) {
+                                connection = {
                                     fileId: mention.linkedFile.id,
                                     fileName: mention.linkedFile.name,
                                     fileType: mention.linkedFile.type,
                                     direction: 'outgoing',
-                                    mentionText: mention.fullMatch,
-                                });
+                                    mentionTexts: [],
+                                    anchors: [],
+                                    excerpts: [],
+                                };
+                                loadedConnections.push(connection);
                             }
+                            addMention(connection, mention);
                         }
                     });
                 }
@@ -127,22 +209,32 @@ export function ConnectionsPanel({
 
                     const otherContent = await getFileContent(otherFile.id);
                     if (otherContent) {
-                        const mentions = parseMentions(otherContent, workspaceFiles);
-                        const referencesThisFile = mentions.some(
-                            m => m.linkedFile?.id === file.id
-                        );
-                        if (referencesThisFile) {
-                            const exists = loadedConnections.some(
-                                c => c.fileId === otherFile.id && c.direction === 'incoming'
-                            );
-                            if (!exists) {
-                                loadedConnections.push({
-                                    fileId: otherFile.id,
-                                    fileName: otherFile.name,
-                                    fileType: otherFile.type,
-                                    direction: 'incoming',
-                                });
-                            }
+                        const mentions = parseMentions(otherContent, workspaceFiles)
+                            .filter(m => m.linkedFile?.id === file.id);
+                        if (mentions.length > 0) {
+                            const connection: Connection = {
+                                fileId: otherFile.id,
+                                fileName: otherFile.name,
+                                fileType: otherFile.type,
+                                direction: 'incoming',
+                                mentionTexts: [],
+                                anchors: [],
+                                excerpts: mentions.slice(0, MAX_EXCERPTS)
+                                    .map(m => getMentionExcerpt(otherContent, m.startIndex, m.endIndex)),
+                            };
+                            mentions.forEach(mention => addMention(connection, mention));
+                            loadedConnections.push(connection);
+                        }
+
+                        // Plain-text mentions of this file's name
+                        const unlinked = findUnlinkedMentions(otherContent, file.name);
+                        if (unlinked.length > 0) {
+                            loadedUnlinked.push({
+                                fileId: otherFile.id,
+                                fileName: otherFile.name,
+                                fileType: otherFile.type,
+                                excerpts: unlinked.slice(0, MAX_EXCERPTS).map(m => m.excerpt),
+                            });
                         }
                     }
                 }
@@ -151,11 +243,12 @@ export function ConnectionsPanel({
             }
 
             setConnections(loadedConnections);
+            setUnlinkedMentions(loadedUnlinked);
             setIsLoading(false);
         };
 
         loadConnections();
-    }, [isOpen, file, workspaceFiles, getFileContent]);
+    }, [isOpen, file, workspaceFiles, getFileContent, reloadKey]);
 
     // Reset state when closed
     useEffect(() => {
@@ -204,9 +297,11 @@ export function ConnectionsPanel({
                     fileName: targetFile.name,
                     fileType: targetFile.type,
                     direction: 'outgoing',
-                    mentionText: targetFile.name.includes(' ')
+                    mentionTexts: [targetFile.name.includes(' ')
                         ? `@"${targetFile.name}"`
-                        : `@${targetFile.name}`,
+                        : `@${targetFile.name}`],
+                    anchors: [],
+                    excerpts: [],
                 }
             ]);
             setShowAddPanel(false);
@@ -218,11 +313,13 @@ export function ConnectionsPanel({
     }, [file, onAddConnection]);
 
     const handleRemoveConnection = useCallback(async (connection: Connection) => {
-        if (!file || connection.direction !== 'outgoing' || !connection.mentionText) return;
+        if (!file || connection.direction !== 'outgoing' || connection.mentionTexts.length === 0) return;
 
         setPendingAction(connection.fileId);
         try {
-            await onRemoveConnection(file.id, connection.mentionText);
+            for (const mentionText of connection.mentionTexts) {
+                await onRemoveConnection(file.id, mentionText);
+            }
             setConnections(prev =>
                 prev.filter(c => !(c.fileId === connection.fileId && c.direction === 'outgoing'))
             );
@@ -232,6 +329,20 @@ export function ConnectionsPanel({
         setPendingAction(null);
     }, [file, onRemoveConnection]);
 
+    const handleLinkMentions = useCallback(async (unlinked: UnlinkedMentionFile) => {
+        if (!file || !onLinkUnlinkedMentions) return;
+
+        setPendingAction(unlinked.fileId);
+        try {
+            await onLinkUnlinkedMentions(unlinked.fileId, file.name);
+            // Reload so the file moves to the backlinks with its new excerpts
+            setReloadKey(prev => prev + 1);
+        } catch (e) {
+            console.error('[ConnectionsPanel] Error linking mentions:', e);
+        }
+        setPendingAction(null);
+    }, [file, onLinkUnlinkedMentions]);
+
     if (!file) return null;
 
     return (
@@ -443,49 +554,51 @@ export function ConnectionsPanel({
                                                 const isRemoving = pendingAction === conn.fileId;
 
                                                 return (
-                                                    <div
-                                                        key={conn.fileId}
-                                                        className={clsx(
-                                                            'flex items-center gap-2 px-2.5 py-2 rounded-lg group',
-                                                            theme === 'dark'
-                                                                ? 'hover:bg-gray-800/50'
-                                                                : 'hover:bg-gray-50'
-                                                        )}
-                                                    >
-                                                        <Icon
-                                                            className="w-3.5 h-3.5 shrink-0"
-                                                            style={{ color }}
-                                                        />
-                                                        <span className={clsx(
-                                                            'flex-1 text-xs truncate',
-                                                            theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
-                                                        )}>
-                                                            {conn.fileName}
-                                                        </span>
-                                                        <button
-                                                            onClick={() => handleRemoveConnection(conn)}
-                                                            disabled={isRemoving}
+                                                    <div key={conn.fileId}>
+                                                        <div
                                                             className={clsx(
-                                                                'p-1 rounded opacity-0 group-hover:opacity-100 transition-all',
+                                                                'flex items-center gap-2 px-2.5 py-2 rounded-lg group',
                                                                 theme === 'dark'
-                                                                    ? 'hover:bg-red-500/20 text-red-400'
-                                                                    : 'hover:bg-red-50 text-red-500',
-                                                                isRemoving && 'opacity-50'
+                                                                    ? 'hover:bg-gray-800/50'
+                                                                    : 'hover:bg-gray-50'
                                                             )}
-                                                            title="Remove"
                                                         >
-                                                            {isRemoving ? (
-                                                                <div
-                                                                    className="w-3 h-3 border rounded-full animate-spin"
-                                                                    style={{
-                                                                        borderColor: '#f8717130',
-                                                                        borderTopColor: '#f87171'
-                                                                    }}
-                                                                />
-                                                            ) : (
-                                                                <Link2Off className="w-3 h-3" />
-                                                            )}
-                                                        </button>
+                                                            <Icon
+                                                                className="w-3.5 h-3.5 shrink-0"
+                                                                style={{ color }}
+                                                            />
+                                                            <span className={clsx(
+                                                                'flex-1 text-xs truncate',
+                                                                theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+                                                            )}>
+                                                                {conn.fileName}
+                                                            </span>
+                                                            <button
+                                                                onClick={() => handleRemoveConnection(conn)}
+                                                                disabled={isRemoving}
+                                                                className={clsx(
+                                                                    'p-1 rounded opacity-0 group-hover:opacity-100 transition-all',
+                                                                    theme === 'dark'
+                                                                        ? 'hover:bg-red-500/20 text-red-400'
+                                                                        : 'hover:bg-red-50 text-red-500',
+                                                                    isRemoving && 'opacity-50'
+                                                                )}
+                                                                title="Remove"
+                                                            >
+                                                                {isRemoving ? (
+                                                                    <div
+                                                                        className="w-3 h-3 border rounded-full animate-spin"
+                                                                        style={{
+                                                                            borderColor: '#f8717130',
+                                                                            borderTopColor: '#f87171'
+                                                                        }}
+                                                                    />
+                                                                ) : (
+                                                                    <Link2Off className="w-3 h-3" />
+                                                                )}
+                                                            </button>
+                                                        </div>
+                                                        <AnchorChips anchors={conn.anchors} isDark={theme === 'dark'} />
                                                     </div>
                                                 );
                                             })}
@@ -528,25 +641,109 @@ export function ConnectionsPanel({
                                                 const color = getFileTypeColor(conn.fileType);
 
                                                 return (
-                                                    <div
-                                                        key={conn.fileId}
-                                                        className={clsx(
-                                                            'flex items-center gap-2 px-2.5 py-2 rounded-lg',
-                                                            theme === 'dark'
-                                                                ? 'hover:bg-gray-800/50'
-                                                                : 'hover:bg-gray-50'
-                                                        )}
-                                                    >
-                                                        <Icon
-                                                            className="w-3.5 h-3.5 shrink-0"
-                                                            style={{ color }}
-                                                        />
-                                                        <span className={clsx(
-                                                            'flex-1 text-xs truncate',
-                                                            theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
-                                                        )}>
-                                                            {conn.fileName}
-                                                        </span>
+                                                    <div key={conn.fileId}>
+                                                        <div
+                                                            className={clsx(
+                                                                'flex items-center gap-2 px-2.5 py-2 rounded-lg',
+                                                                theme === 'dark'
+                                                                    ? 'hover:bg-gray-800/50'
+                                                                    : 'hover:bg-gray-50'
+                                                            )}
+                                                        >
+                                                            <Icon
+                                                                className="w-3.5 h-3.5 shrink-0"
+                                                                style={{ color }}
+                                                            />
+                                                            <span className={clsx(
+                                                                'flex-1 text-xs truncate',
+                                                                theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+                                                            )}>
+                                                                {conn.fileName}
+                                                            </span>
+                                                        </div>
+                                                        <AnchorChips anchors={conn.anchors} isDark={theme === 'dark'} />
+                                                        <Excerpts excerpts={conn.excerpts} isDark={theme === 'dark'} />
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                </div>
+
+                                {/* Divider */}
+                                <div className={clsx(
+                                    'h-px',
+                                    theme === 'dark' ? 'bg-gray-800' : 'bg-gray-100'
+                                )} />
+
+                                {/* Unlinked Mentions */}
+                                <div>
+                                    <div className="flex items-center gap-1.5 mb-2">
+                                        <Unlink className={clsx(
+                                            'w-3.5 h-3.5',
+                                            theme === 'dark' ? 'text-amber-400' : 'text-amber-500'
+                                        )} />
+                                        <span className={clsx(
+                                            'text-xs font-medium',
+                                            theme === 'dark' ? 'text-gray-400' : 'text-gray-600'
+                                        )}>
+                                            Unlinked mentions ({unlinkedMentions.length})
+                                        </span>
+                                    </div>
+
+                                    {unlinkedMentions.length === 0 ? (
+                                        <p className={clsx(
+                                            'text-xs py-3 text-center',
+                                            theme === 'dark' ? 'text-gray-600' : 'text-gray-400'
+                                        )}>
+                                            No unlinked mentions
+                                        </p>
+                                    ) : (
+                                        <div className="space-y-1">
+                                            {unlinkedMentions.map(unlinked => {
+                                                const Icon = getFileIcon(unlinked.fileType);
+                                                const color = getFileTypeColor(unlinked.fileType);
+                                                const isLinking = pendingAction === unlinked.fileId;
+
+                                                return (
+                                                    <div key={unlinked.fileId}>
+                                                        <div
+                                                            className={clsx(
+                                                                'flex items-center gap-2 px-2.5 py-2 rounded-lg',
+                                                                theme === 'dark'
+                                                                    ? 'hover:bg-gray-800/50'
+                                                                    : 'hover:bg-gray-50'
+                                                            )}
+                                                        >
+                                                            <Icon
+                                                                className="w-3.5 h-3.5 shrink-0"
+                                                                style={{ color }}
+                                                            />
+                                                            <span className={clsx(
+                                                                'flex-1 text-xs truncate',
+                                                                theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+                                                            )}>
+                                                                {unlinked.fileName}
+                                                            </span>
+                                                            {onLinkUnlinkedMentions && (
+                                                                <button
+                                                                    onClick={() => handleLinkMentions(unlinked)}
+                                                                    disabled={isLinking}
+                                                                    className={clsx(
+                                                                        'flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium transition-colors shrink-0',
+                                                                        theme === 'dark'
+                                                                            ? 'text-blue-400 hover:bg-blue-500/20'
+                                                                            : 'text-blue-600 hover:bg-blue-50',
+                                                                        isLinking && 'opacity-50'
+                                                                    )}
+                                                                    title={`Turn these mentions into @${file.name} links`}
+                                                                >
+                                                                    <Link2 className="w-3 h-3" />
+                                                                    Link
+                                                                </button>
+                                                            )}
+                                                        </div>
+                                                        <Excerpts excerpts={unlinked.excerpts} isDark={theme === 'dark'} />
                                                     </div>
                                                 );
                                             })}
@@ -1,7 +1,10 @@
-import { motion } from 'framer-motion';
+import { motion, AnimatePresence } from 'framer-motion';
 import { WelcomeView } from './WelcomeView';
 import { TextNoteEditor } from './TextNoteEditor';
 import { DocumentViewer } from './DocumentViewer';
+import { FileHistoryPanel } from './FileHistoryPanel';
+import { VERSIONED_EXTENSIONS } from '../../utils/fileHistory';
+import { MentionAnchor } from '../../utils/noteLinking';
 import {
     WorkspaceFile,
     RecentFile,
@@ -23,6 +26,13 @@ interface ContentAreaProps {
     renderBoardEditor?: (contentId: string, filePath?: string) => React.ReactNode;
     renderNodeMapEditor?: (contentId: string, filePath?: string) => React.ReactNode;
     renderFlashcardsEditor?: (contentId: string, filePath?: string) => React.ReactNode;
+    // Version history panel for native files
+    showHistory?: boolean;
+    onCloseHistory?: () => void;
+    onRevisionRestored?: (file: WorkspaceFile, filePath: string, asCopy: boolean) => void;
+    // Heading of the selected note to jump to, and navigation for references in it
+    focusAnchor?: MentionAnchor;
+    onNavigateToNote?: (fileId: string, anchor?: MentionAnchor) => void;
 }
 
 /**
@@ -44,6 +54,11 @@ export function ContentArea({
     renderBoardEditor,
     renderNodeMapEditor,
     renderFlashcardsEditor,
+    showHistory = false,
+    onCloseHistory,
+    onRevisionRestored,
+    focusAnchor,
+    onNavigateToNote,
 }: ContentAreaProps) {
 
     // Show welcome view when no file is selected
@@ -61,6 +76,9 @@ export function ContentArea({
         );
     }
 
+    const hasHistory = !!selectedFile.filePath && VERSIONED_EXTENSIONS.some(ext =>
+        selectedFile.filePath!.toLowerCase().endsWith(ext));
+
     // Render the appropriate editor based on file type
     const renderEditor = () => {
         switch (selectedFile.type) {
@@ -92,6 +110,9 @@ export function ContentArea({
                     <TextNoteEditor
                         content={fileContent}
                         onChange={(content) => onContentChange(selectedFile.id, content)}
+                        files={files}
+                        focusAnchor={focusAnchor}
+                        onNavigateToNote={onNavigateToNote}
                     />
                 );
 
@@ -155,8 +176,20 @@ export function ContentArea({
             className="h-full flex flex-col bg-white dark:bg-gray-900"
         >
             {/* Editor Container - no header, tabs are in TabBar now */}
-            <div className="flex-1 overflow-hidden">
-                {renderEditor()}
+            <div className="flex-1 overflow-hidden flex">
+                <div className="flex-1 min-w-0 overflow-hidden">
+                    {renderEditor()}
+                </div>
+                <AnimatePresence initial={false}>
+                    {showHistory && hasHistory && (
+                        <FileHistoryPanel
+                            key={selectedFile.filePath}
+                            filePath={selectedFile.filePath!}
+                            onRestored={(filePath, asCopy) => onRevisionRestored?.(selectedFile, filePath, asCopy)}
+                            onClose={() => onCloseHistory?.()}
+                        />
+                    )}
+                </AnimatePresence>
             </div>
         </motion.div>
     );
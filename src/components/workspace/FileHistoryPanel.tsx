@@ -0,0 +1,265 @@
+/**
+ * FileHistoryPanel
+ *
+ * Side panel listing the saved revisions of a workspace file. Selecting a
+ * revision shows what changed in that save, or how it differs from the
+ * current version, and it can be restored over the file or as a copy.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { History, X, Loader2, RotateCcw, Copy } from 'lucide-react';
+import clsx from 'clsx';
+import { FileRevision, DiffLine, RevisionDiff, countDiffChanges, diffRevisions } from '../../utils/fileHistory';
+
+type CompareMode = 'previous' | 'current';
+
+interface FileHistoryPanelProps {
+    filePath: string;
+    onRestored: (filePath: string, asCopy: boolean) => void;
+    onClose: () => void;
+}
+
+// Unchanged lines shown around each change
+const CONTEXT_LINES = 2;
+
+const formatSavedAt = (time: number) => {
+    const date = new Date(time);
+    return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }) +
+        ' ' + date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+};
+
+const formatSize = (bytes: number) => bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+function DiffLines({ lines }: { lines: DiffLine[] }) {
+    const visible = lines.map((line, index) => line.type !== 'same' || lines
+        .slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1)
+        .some(l => l.type !== 'same'));
+
+    const rows: React.ReactNode[] = [];
+    let hidden = 0;
+    lines.forEach((line, index) => {
+        if (!visible[index]) {
+            hidden++;
+            return;
+        }
+        if (hidden > 0) {
+            rows.push(<div key={`gap-${index}`} className="px-2 text-gray-400 italic">… {hidden} unchanged {hidden === 1 ? 'line' : 'lines'}</div>);
+            hidden = 0;
+        }
+        rows.push(
+            <div
+                key={index}
+                className={clsx('px-2 whitespace-pre-wrap break-all', {
+                    'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400': line.type === 'added',
+                    'bg-red-50 text-red-600 dark:bg-red-900/20 dark:text-red-400': line.type === 'removed',
+                    'text-gray-600 dark:text-gray-400': line.type === 'same',
+                })}
+            >
+                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+            </div>
+        );
+    });
+    if (hidden > 0 && rows.length > 0) {
+        rows.push(<div key="gap-end" className="px-2 text-gray-400 italic">… {hidden} unchanged {hidden === 1 ? 'line' : 'lines'}</div>);
+    }
+
+    return <div className="font-mono text-[11px] leading-5">{rows}</div>;
+}
+
+function DiffView({ diff }: { diff: RevisionDiff }) {
+    const { added, removed } = countDiffChanges(diff);
+    if (added === 0 && removed === 0) {
+        return <p className="text-xs text-gray-500 dark:text-gray-400 text-center py-6">No changes.</p>;
+    }
+
+    if (diff.kind === 'text') return <DiffLines lines={diff.lines} />;
+
+    return (
+        <div className="space-y-2">
+            {diff.cells.filter(cell => cell.status !== 'same').map(cell => (
+                <div key={cell.id} className="rounded-md border border-gray-200 dark:border-gray-700 overflow-hidden">
+                    <div className="flex items-center gap-2 px-2 py-1 text-[11px] bg-gray-50 dark:bg-gray-800 text-gray-500">
+                        <span className="capitalize">{cell.cellType} cell</span>
+                        <span className={clsx('ml-auto font-medium', {
+                            'text-green-600 dark:text-green-400': cell.status === 'added',
+                            'text-red-500': cell.status === 'removed',
+                            'text-amber-600 dark:text-amber-400': cell.status === 'changed',
+                        })}>
+                            {cell.status}
+                        </span>
+                    </div>
+                    <DiffLines lines={cell.lines} />
+                </div>
+            ))}
+        </div>
+    );
+}
+
+export function FileHistoryPanel({ filePath, onRestored, onClose }: FileHistoryPanelProps) {
+    const [revisions, setRevisions] = useState<FileRevision[] | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [compareMode, setCompareMode] = useState<CompareMode>('previous');
+    const [diff, setDiff] = useState<RevisionDiff | null>(null);
+    const [isRestoring, setIsRestoring] = useState(false);
+    const contentCache = useRef(new Map<string, string>());
+
+    const loadRevisions = useCallback(async () => {
+        // @ts-ignore
+        const result = await window.ipcRenderer?.invoke('list-file-history', filePath);
+        const list: FileRevision[] = result?.revisions || [];
+        setRevisions(list);
+        setSelectedId(prev => prev && list.some(r => r.id === prev) ? prev : list[0]?.id ?? null);
+    }, [filePath]);
+
+    useEffect(() => {
+        contentCache.current.clear();
+        loadRevisions();
+    }, [loadRevisions]);
+
+    const getContent = useCallback(async (revisionId: string) => {
+        const cached = contentCache.current.get(revisionId);
+        if (cached !== undefined) return cached;
+        // @ts-ignore
+        const result = await window.ipcRenderer?.invoke('get-file-revision', { filePath, revisionId });
+        const content = result?.success ? result.content as string : '';
+        contentCache.current.set(revisionId, content);
+        return content;
+    }, [filePath]);
+
+    // Revisions are newest first: the one saved before the selected one follows it
+    const selectedIndex = revisions?.findIndex(r => r.id === selectedId) ?? -1;
+    const compareWith = revisions && selectedIndex >= 0
+        ? compareMode === 'previous' ? revisions[selectedIndex + 1] : revisions[0]
+        : undefined;
+
+    useEffect(() => {
+        let cancelled = false;
+        setDiff(null);
+        if (!selectedId) return;
+
+        const ext = filePath.slice(filePath.lastIndexOf('.'));
+        (async () => {
+            const selected = await getContent(selectedId);
+            const other = compareWith ? await getContent(compareWith.id) : '';
+            if (cancelled) return;
+            // "Previous" shows what the selected save changed; "current" what restoring it would change
+            setDiff(diffRevisions(ext, other, selected));
+        })();
+        return () => { cancelled = true; };
+    }, [selectedId, compareWith?.id, compareMode, filePath, getContent]);
+
+    const handleRestore = async (asCopy: boolean) => {
+        if (!selectedId) return;
+        setIsRestoring(true);
+        // @ts-ignore
+        const result = await window.ipcRenderer?.invoke('restore-file-revision', { filePath, revisionId: selectedId, asCopy });
+        setIsRestoring(false);
+        if (!result?.success) {
+            alert(`Failed to restore this version: ${result?.error || 'Unknown error'}`);
+            return;
+        }
+        onRestored(result.filePath, asCopy);
+        if (!asCopy) loadRevisions();
+    };
+
+    return (
+        <motion.div
+            initial={{ width: 0, opacity: 0 }}
+            animate={{ width: 384, opacity: 1 }}
+            exit={{ width: 0, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="h-full flex-shrink-0 overflow-hidden border-l border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900"
+        >
+            <div className="w-96 h-full flex flex-col">
+                <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+                    <History className="w-4 h-4 text-gray-500" />
+                    <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 flex-1">Version history</h3>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                {revisions === null && (
+                    <div className="flex items-center justify-center gap-2 py-8 text-sm text-gray-500">
+                        <Loader2 className="w-4 h-4 animate-spin" /> Loading…
+                    </div>
+                )}
+                {revisions?.length === 0 && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 text-center px-4 py-8">
+                        No saved versions yet. A version is kept each time this file is saved.
+                    </p>
+                )}
+
+                {!!revisions?.length && (
+                    <>
+                        {/* Timeline */}
+                        <div className="max-h-56 overflow-y-auto border-b border-gray-200 dark:border-gray-700 py-1">
+                            {revisions.map((revision, index) => (
+                                <button
+                                    key={revision.id}
+                                    onClick={() => setSelectedId(revision.id)}
+                                    className={clsx('w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs transition-colors', {
+                                        'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300': revision.id === selectedId,
+                                        'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800': revision.id !== selectedId,
+                                    })}
+                                >
+                                    <span className={clsx('w-2 h-2 rounded-full shrink-0', index === 0 ? 'bg-blue-500' : 'bg-gray-300 dark:bg-gray-600')} />
+                                    <span className="flex-1">{formatSavedAt(revision.savedAt)}</span>
+                                    {index === 0 && <span className="text-gray-400">current</span>}
+                                    <span className="text-gray-400">{formatSize(revision.size)}</span>
+                                </button>
+                            ))}
+                        </div>
+
+                        {/* Diff */}
+                        <div className="flex items-center gap-1 px-3 py-2 text-xs">
+                            <span className="text-gray-500 mr-1">Compare with</span>
+                            {(['previous', 'current'] as const).map(mode => (
+                                <button
+                                    key={mode}
+                                    onClick={() => setCompareMode(mode)}
+                                    className={clsx('px-2 py-0.5 rounded-md capitalize', {
+                                        'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100': compareMode === mode,
+                                        'text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800': compareMode !== mode,
+                                    })}
+                                >
+                                    {mode}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex-1 overflow-y-auto px-3 pb-3">
+                            {diff ? <DiffView diff={diff} /> : (
+                                <div className="flex items-center justify-center py-6">
+                                    <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="flex gap-2 px-3 py-2 border-t border-gray-200 dark:border-gray-700">
+                            <button
+                                onClick={() => handleRestore(false)}
+                                disabled={!selectedId || selectedIndex === 0 || isRestoring}
+                                className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 text-xs text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-md transition-colors"
+                            >
+                                <RotateCcw className="w-3.5 h-3.5" /> Restore
+                            </button>
+                            <button
+                                onClick={() => handleRestore(true)}
+                                disabled={!selectedId || isRestoring}
+                                className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 text-xs text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 rounded-md transition-colors"
+                            >
+                                <Copy className="w-3.5 h-3.5" /> Restore as copy
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </motion.div>
+    );
+}
+
+export default FileHistoryPanel;
@@ -0,0 +1,285 @@
+/**
+ * FilePropertiesModal
+ *
+ * Edits the tags and typed properties of a workspace file. Tags written
+ * inline in the file's text are shown alongside but can only be changed in
+ * the text itself. New properties defined here become available to every
+ * file in the workspace.
+ */
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Tags, X, Plus, Hash } from 'lucide-react';
+import { WorkspaceFile, PropertyDefinition, PropertyType, PropertyValue } from '../../types/workspace';
+import { normalizeTag, parsePropertyInput } from '../../utils/fileMetadata';
+
+const PROPERTY_TYPES: { value: PropertyType; label: string }[] = [
+    { value: 'text', label: 'Text' },
+    { value: 'number', label: 'Number' },
+    { value: 'date', label: 'Date' },
+    { value: 'select', label: 'Select' },
+    { value: 'checkbox', label: 'Checkbox' },
+];
+
+interface FilePropertiesModalProps {
+    file: WorkspaceFile;
+    definitions: PropertyDefinition[];
+    inlineTags: string[];       // #tags found in the file's text
+    knownTags: string[];        // Every tag in the workspace, for suggestions
+    onSave: (tags: string[], properties: Record<string, PropertyValue>, definitions: PropertyDefinition[]) => void;
+    onClose: () => void;
+}
+
+const inputClass = 'w-full px-2 py-1 text-sm rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export function FilePropertiesModal({ file, definitions: initialDefinitions, inlineTags, knownTags, onSave, onClose }: FilePropertiesModalProps) {
+    const [tags, setTags] = useState<string[]>(file.tags || []);
+    const [tagInput, setTagInput] = useState('');
+    const [definitions, setDefinitions] = useState<PropertyDefinition[]>(initialDefinitions);
+    const [properties, setProperties] = useState<Record<string, PropertyValue>>(file.properties || {});
+    // Raw text of inputs, so half-typed numbers and dates aren't thrown away
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    const [newProperty, setNewProperty] = useState<{ name: string; type: PropertyType; options: string } | null>(null);
+
+    const addTag = () => {
+        const tag = normalizeTag(tagInput);
+        if (tag && !tags.includes(tag)) setTags([...tags, tag]);
+        setTagInput('');
+    };
+
+    const setValue = (definition: PropertyDefinition, input: string | boolean) => {
+        if (typeof input === 'string') setDrafts(prev => ({ ...prev, [definition.id]: input }));
+        const value = parsePropertyInput(definition, input);
+        setProperties(prev => {
+            const next = { ...prev };
+            if (value === undefined) delete next[definition.id];
+            else next[definition.id] = value;
+            return next;
+        });
+    };
+
+    const handleAddProperty = () => {
+        if (!newProperty) return;
+        const name = newProperty.name.trim();
+        if (!name) return;
+        if (definitions.some(d => d.name.toLowerCase() === name.toLowerCase())) {
+            alert(`A property named "${name}" already exists.`);
+            return;
+        }
+        const options = newProperty.options.split(',').map(o => o.trim()).filter(Boolean);
+        if (newProperty.type === 'select' && options.length === 0) {
+            alert('Add at least one option, separated by commas.');
+            return;
+        }
+        setDefinitions([...definitions, {
+            id: crypto.randomUUID(),
+            name,
+            type: newProperty.type,
+            ...(newProperty.type === 'select' && { options }),
+        }]);
+        setNewProperty(null);
+    };
+
+    const renderInput = (definition: PropertyDefinition) => {
+        const value = properties[definition.id];
+        const draft = drafts[definition.id] ?? (value === undefined ? '' : String(value));
+        switch (definition.type) {
+            case 'checkbox':
+                return (
+                    <input
+                        type="checkbox"
+                        checked={value === true}
+                        onChange={e => setValue(definition, e.target.checked)}
+                        className="w-4 h-4"
+                    />
+                );
+            case 'select':
+                return (
+                    <select value={typeof value === 'string' ? value : ''} onChange={e => setValue(definition, e.target.value)} className={inputClass}>
+                        <option value="">—</option>
+                        {definition.options?.map(option => <option key={option} value={option}>{option}</option>)}
+                    </select>
+                );
+            case 'date':
+                return <input type="date" value={draft} onChange={e => setValue(definition, e.target.value)} className={inputClass} />;
+            case 'number':
+                return <input type="number" value={draft} onChange={e => setValue(definition, e.target.value)} className={inputClass} />;
+            default:
+                return <input type="text" value={draft} onChange={e => setValue(definition, e.target.value)} className={inputClass} />;
+        }
+    };
+
+    const suggestions = knownTags.filter(tag => !tags.includes(tag));
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+            onClick={onClose}
+        >
+            <motion.div
+                initial={{ scale: 0.95, opacity: 0 }}
+                animate={{ scale: 1, opacity: 1 }}
+                exit={{ scale: 0.95, opacity: 0 }}
+                className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-[32rem] max-h-[80vh] flex flex-col"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex items-center gap-2 mb-4">
+                    <Tags className="w-5 h-5 text-gray-500" />
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 flex-1 truncate">{file.name}</h3>
+                    <button
+                        onClick={onClose}
+                        className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto space-y-5 pr-1">
+                    {/* Tags */}
+                    <div>
+                        <h4 className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-2">Tags</h4>
+                        <div className="flex flex-wrap gap-1.5 mb-2">
+                            {tags.map(tag => (
+                                <span key={tag} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full text-xs bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">
+                                    #{tag}
+                                    <button onClick={() => setTags(tags.filter(t => t !== tag))} className="p-0.5 rounded-full hover:bg-blue-100 dark:hover:bg-blue-800">
+                                        <X className="w-3 h-3" />
+                                    </button>
+                                </span>
+                            ))}
+                            {inlineTags.filter(tag => !tags.includes(tag)).map(tag => (
+                                <span
+                                    key={tag}
+                                    className="px-2 py-0.5 rounded-full text-xs bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400"
+                                    title="Written in the file's text"
+                                >
+                                    #{tag}
+                                </span>
+                            ))}
+                        </div>
+                        <div className="flex gap-2">
+                            <div className="relative flex-1">
+                                <Hash className="w-3.5 h-3.5 absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+                                <input
+                                    type="text"
+                                    list="workspace-tag-suggestions"
+                                    value={tagInput}
+                                    onChange={e => setTagInput(e.target.value)}
+                                    onKeyDown={e => {
+                                        if (e.key === 'Enter') {
+                                            e.preventDefault();
+                                            addTag();
+                                        }
+                                    }}
+                                    placeholder="Add a tag, e.g. project/alpha"
+                                    className={`${inputClass} pl-7`}
+                                />
+                                <datalist id="workspace-tag-suggestions">
+                                    {suggestions.map(tag => <option key={tag} value={tag} />)}
+                                </datalist>
+                            </div>
+                            <button
+                                onClick={addTag}
+                                disabled={!normalizeTag(tagInput)}
+                                className="px-3 py-1 text-sm rounded-md bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+                            >
+                                Add
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* Properties */}
+                    <div>
+                        <h4 className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-2">Properties</h4>
+                        {definitions.length === 0 && !newProperty && (
+                            <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">No properties defined yet.</p>
+                        )}
+                        <div className="space-y-2">
+                            {definitions.map(definition => (
+                                <div key={definition.id} className="flex items-center gap-3">
+                                    <span className="w-32 shrink-0 text-sm text-gray-700 dark:text-gray-300 truncate" title={definition.name}>
+                                        {definition.name}
+                                    </span>
+                                    <div className="flex-1">{renderInput(definition)}</div>
+                                </div>
+                            ))}
+                        </div>
+
+                        {newProperty ? (
+                            <div className="mt-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2">
+                                <div className="flex gap-2">
+                                    <input
+                                        type="text"
+                                        value={newProperty.name}
+                                        onChange={e => setNewProperty({ ...newProperty, name: e.target.value })}
+                                        placeholder="Property name"
+                                        className={inputClass}
+                                        autoFocus
+                                    />
+                                    <select
+                                        value={newProperty.type}
+                                        onChange={e => setNewProperty({ ...newProperty, type: e.target.value as PropertyType })}
+                                        className={`${inputClass} w-32`}
+                                    >
+                                        {PROPERTY_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+                                    </select>
+                                </div>
+                                {newProperty.type === 'select' && (
+                                    <input
+                                        type="text"
+                                        value={newProperty.options}
+                                        onChange={e => setNewProperty({ ...newProperty, options: e.target.value })}
+                                        placeholder="Options, separated by commas"
+                                        className={inputClass}
+                                    />
+                                )}
+                                <div className="flex justify-end gap-2">
+                                    <button
+                                        onClick={() => setNewProperty(null)}
+                                        className="px-3 py-1 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+                                    >
+                                        Cancel
+                                    </button>
+                                    <button
+                                        onClick={handleAddProperty}
+                                        disabled={!newProperty.name.trim()}
+                                        className="px-3 py-1 text-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-md"
+                                    >
+                                        Add property
+                                    </button>
+                                </div>
+                            </div>
+                        ) : (
+                            <button
+                                onClick={() => setNewProperty({ name: '', type: 'text', options: '' })}
+                                className="mt-2 flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                            >
+                                <Plus className="w-3.5 h-3.5" /> New property
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-2 mt-4">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => onSave(tags, properties, definitions)}
+                        className="px-4 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors"
+                    >
+                        Save
+                    </button>
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+}
+
+export default FilePropertiesModal;
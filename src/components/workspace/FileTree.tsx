@@ -1,10 +1,12 @@
 import { useState, useCallback, useRef, useMemo } from 'react';
 import { createPortal } from 'react-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FolderPlus, FilePlus, Pencil, Trash2, ArrowUpDown, Share2, Image, Link, FolderOpen, Brain, Palette } from 'lucide-react';
+import { FolderPlus, FilePlus, Pencil, Trash2, ArrowUpDown, Share2, Image, Link, FolderOpen, Brain, Palette, Unlink, ArchiveRestore, History, Tags, X, Download, FolderInput, FolderOutput, Globe } from 'lucide-react';
 import clsx from 'clsx';
 import { FileTreeNode } from './FileTreeNode';
+import { TagBrowser } from './TagBrowser';
 import { buildTreeStructure } from '../../utils/workspace';
+import { matchesTagFilters } from '../../utils/fileMetadata';
 import { WorkspaceFile, WorkspaceFolder, FileType, TreeNode } from '../../types/workspace';
 
 // Sort options for the file tree
@@ -24,15 +26,27 @@ interface FileTreeProps {
     onMove: (id: string, newParentId: string | null, isFolder: boolean) => void;
     onReorder: (id: string, targetId: string, position: 'before' | 'after', isFolder: boolean) => void;
     onOpenLinkedNotesGraph?: () => void;
+    onOpenBrokenLinks?: () => void;
+    onOpenTrash?: () => void;
+    onOpenVersionHistory?: (fileId: string) => void;
+    onOpenProperties?: (fileId: string) => void;
+    onExportIpynb?: (fileId: string) => void;
     onOpenImageGallery?: () => void;
     onOpenFlashcards?: () => void;
     onOpenConnections?: (fileId: string) => void;
     onOpenFile?: () => void;
+    onImportVault?: () => void;
+    onExportMarkdown?: () => void;
+    onPublishSite?: (folderId: string | null) => void;
     onTurnIntoFlashcards?: (fileId: string) => void;
     onFolderColorChange?: (folderId: string, color: string) => void;
     selectedFileIds?: Set<string>;
     onSelectedFileIdsChange?: (ids: Set<string>) => void;
     onMultiDelete?: (ids: string[]) => void;
+    // Tags of each file by id (assigned and inline), for the tag browser and filter
+    fileTags?: Record<string, string[]>;
+    tagFilter?: string | null;
+    onTagFilterChange?: (tag: string | null) => void;
 }
 
 interface ContextMenuState {
@@ -75,12 +89,23 @@ export function FileTree({
     onMove,
     onReorder,
     onOpenLinkedNotesGraph,
+    onOpenBrokenLinks,
+    onOpenTrash,
+    onOpenVersionHistory,
+    onOpenProperties,
+    onExportIpynb,
     onOpenImageGallery,
     onOpenFlashcards,
     onOpenConnections,
     onOpenFile,
+    onImportVault,
+    onExportMarkdown,
+    onPublishSite,
     onTurnIntoFlashcards,
     onFolderColorChange,
+    fileTags,
+    tagFilter,
+    onTagFilterChange,
 }: FileTreeProps) {
     const [contextMenu, setContextMenu] = useState<ContextMenuState>({
         visible: false,
@@ -110,8 +135,14 @@ export function FileTree({
     const treeContainerRef = useRef<HTMLDivElement>(null);
 
     // Build tree structure from flat arrays (exclude flashcards - only accessible via Brain icon)
-    const filteredFiles = files.filter(f => f.type !== 'flashcards');
-    const unsortedTreeNodes = buildTreeStructure(filteredFiles, folders);
+    const filteredFiles = files.filter(f => f.type !== 'flashcards' &&
+        (!tagFilter || matchesTagFilters(fileTags?.[f.id] || [], [tagFilter])));
+    const treeFromFiles = buildTreeStructure(filteredFiles, folders);
+    // While filtering by tag, hide folders without a matching file
+    const pruneEmptyFolders = (nodes: TreeNode[]): TreeNode[] => nodes
+        .map(node => node.type === 'folder' ? { ...node, children: pruneEmptyFolders(node.children) } : node)
+        .filter(node => node.type !== 'folder' || node.children.length > 0);
+    const unsortedTreeNodes = tagFilter ? pruneEmptyFolders(treeFromFiles) : treeFromFiles;
 
     // Sort tree nodes based on selected option
     const sortNodes = useCallback((nodes: TreeNode[]): TreeNode[] => {
@@ -413,6 +444,34 @@ export function FileTree({
                     </button>
                 )}
 
+                {/* Broken links report button */}
+                {onOpenBrokenLinks && (
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onOpenBrokenLinks();
+                        }}
+                        className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                        title="Find Broken Links"
+                    >
+                        <Unlink className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+                    </button>
+                )}
+
+                {/* Trash button */}
+                {onOpenTrash && (
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onOpenTrash();
+                        }}
+                        className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                        title="Trash"
+                    >
+                        <ArchiveRestore className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+                    </button>
+                )}
+
                 {/* Flashcards button */}
                 {onOpenFlashcards && (
                     <button
@@ -496,6 +555,21 @@ export function FileTree({
                 </button>
             </div>
 
+            {/* Active tag filter */}
+            {tagFilter && onTagFilterChange && (
+                <div className="flex items-center gap-1.5 px-3 py-1.5 text-xs border-b border-gray-100 dark:border-gray-700/50 text-blue-700 dark:text-blue-300 bg-blue-50/60 dark:bg-blue-900/20">
+                    <Tags className="w-3.5 h-3.5" />
+                    <span className="flex-1 truncate">Tagged #{tagFilter}</span>
+                    <button
+                        onClick={() => onTagFilterChange(null)}
+                        className="p-0.5 rounded hover:bg-blue-100 dark:hover:bg-blue-800"
+                        title="Clear tag filter"
+                    >
+                        <X className="w-3 h-3" />
+                    </button>
+                </div>
+            )}
+
             {/* Tree container */}
             <div
                 ref={treeContainerRef}
@@ -504,7 +578,11 @@ export function FileTree({
                 onDrop={(e) => handleDrop(e, null)}
                 onContextMenu={handleEmptySpaceContextMenu}
             >
-                {treeNodes.length === 0 ? (
+                {treeNodes.length === 0 && tagFilter ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 text-center p-4">
+                        No files tagged #{tagFilter}
+                    </p>
+                ) : treeNodes.length === 0 ? (
                     <div className="flex flex-col items-center justify-center h-full text-center p-4">
                         <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
                             No files yet
@@ -518,6 +596,15 @@ export function FileTree({
                 )}
             </div>
 
+            {/* Tag browser */}
+            {fileTags && onTagFilterChange && (
+                <TagBrowser
+                    tagsByFile={fileTags}
+                    activeTag={tagFilter ?? null}
+                    onSelectTag={onTagFilterChange}
+                />
+            )}
+
             {/* Context Menu */}
             <AnimatePresence>
                 {contextMenu.visible && (
@@ -544,6 +631,26 @@ export function FileTree({
                             }
                             setContextMenu(prev => ({ ...prev, visible: false }));
                         } : undefined}
+                        onVersionHistory={onOpenVersionHistory && contextMenu.nodeId && !contextMenu.isFolder
+                            && files.find(f => f.id === contextMenu.nodeId)?.filePath ? () => {
+                            if (contextMenu.nodeId) {
+                                onOpenVersionHistory(contextMenu.nodeId);
+                            }
+                            setContextMenu(prev => ({ ...prev, visible: false }));
+                        } : undefined}
+                        onProperties={onOpenProperties ? () => {
+                            if (contextMenu.nodeId && !contextMenu.isFolder) {
+                                onOpenProperties(contextMenu.nodeId);
+                            }
+                            setContextMenu(prev => ({ ...prev, visible: false }));
+                        } : undefined}
+                        onExportIpynb={onExportIpynb && contextMenu.nodeId && !contextMenu.isFolder
+                            && files.find(f => f.id === contextMenu.nodeId)?.type === 'exec' ? () => {
+                            if (contextMenu.nodeId) {
+                                onExportIpynb(contextMenu.nodeId);
+                            }
+                            setContextMenu(prev => ({ ...prev, visible: false }));
+                        } : undefined}
                         onTurnIntoFlashcards={onTurnIntoFlashcards ? () => {
                             if (contextMenu.nodeId && !contextMenu.isFolder) {
                                 onTurnIntoFlashcards(contextMenu.nodeId);
@@ -562,6 +669,18 @@ export function FileTree({
                             onOpenFile();
                             setContextMenu(prev => ({ ...prev, visible: false }));
                         } : undefined}
+                        onImportVault={onImportVault ? () => {
+                            onImportVault();
+                            setContextMenu(prev => ({ ...prev, visible: false }));
+                        } : undefined}
+                        onExportMarkdown={onExportMarkdown ? () => {
+                            onExportMarkdown();
+                            setContextMenu(prev => ({ ...prev, visible: false }));
+                        } : undefined}
+                        onPublishSite={onPublishSite && (contextMenu.isFolder || contextMenu.nodeId === null) ? () => {
+                            onPublishSite(contextMenu.nodeId);
+                            setContextMenu(prev => ({ ...prev, visible: false }));
+                        } : undefined}
                         onClose={() => setContextMenu(prev => ({ ...prev, visible: false }))}
                     />
                 )}
@@ -597,7 +716,13 @@ function ContextMenu({
     onRename,
     onDelete,
     onConnections,
+    onVersionHistory,
+    onProperties,
+    onExportIpynb,
     onOpenFile,
+    onImportVault,
+    onExportMarkdown,
+    onPublishSite,
     onTurnIntoFlashcards,
     onChangeColor,
     onClose,
@@ -609,7 +734,13 @@ function ContextMenu({
     onRename: () => void;
     onDelete: () => void;
     onConnections?: () => void;
+    onVersionHistory?: () => void;
+    onProperties?: () => void;
+    onExportIpynb?: () => void;
     onOpenFile?: () => void;
+    onImportVault?: () => void;
+    onExportMarkdown?: () => void;
+    onPublishSite?: () => void;
     onTurnIntoFlashcards?: () => void;
     onChangeColor?: (color: string) => void;
     onClose: () => void;
@@ -658,6 +789,33 @@ function ContextMenu({
                         <span>Open File...</span>
                     </button>
                 )}
+                {isEmptySpace && onImportVault && (
+                    <button
+                        onClick={onImportVault}
+                        className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                    >
+                        <FolderInput className="w-4 h-4" />
+                        <span>Import Markdown Vault...</span>
+                    </button>
+                )}
+                {isEmptySpace && onExportMarkdown && (
+                    <button
+                        onClick={onExportMarkdown}
+                        className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                    >
+                        <FolderOutput className="w-4 h-4" />
+                        <span>Export Workspace as Markdown...</span>
+                    </button>
+                )}
+                {isEmptySpace && onPublishSite && (
+                    <button
+                        onClick={onPublishSite}
+                        className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                    >
+                        <Globe className="w-4 h-4" />
+                        <span>Publish Workspace as Website...</span>
+                    </button>
+                )}
                 {/* File/Folder menu */}
                 {!isEmptySpace && (
                     <>
@@ -671,6 +829,36 @@ function ContextMenu({
                                 <span>@ Connections</span>
                             </button>
                         )}
+                        {/* Version history - only for files saved on disk */}
+                        {!isFolder && onVersionHistory && (
+                            <button
+                                onClick={onVersionHistory}
+                                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                            >
+                                <History className="w-4 h-4" />
+                                <span>Version History</span>
+                            </button>
+                        )}
+                        {/* Tags & properties - only for files */}
+                        {!isFolder && onProperties && (
+                            <button
+                                onClick={onProperties}
+                                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                            >
+                                <Tags className="w-4 h-4" />
+                                <span>Tags &amp; Properties</span>
+                            </button>
+                        )}
+                        {/* Export to Jupyter - only for notebooks */}
+                        {!isFolder && onExportIpynb && (
+                            <button
+                                onClick={onExportIpynb}
+                                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                            >
+                                <Download className="w-4 h-4" />
+                                <span>Export as Jupyter Notebook</span>
+                            </button>
+                        )}
                         {/* Turn into flashcards - only for files */}
                         {!isFolder && onTurnIntoFlashcards && (
                             <button
@@ -682,10 +870,21 @@ function ContextMenu({
                                 <span>Turn into Flashcards</span>
                             </button>
                         )}
-                        {(!isFolder && (onConnections || onTurnIntoFlashcards)) && (
+                        {(!isFolder && (onConnections || onVersionHistory || onProperties || onExportIpynb || onTurnIntoFlashcards)) && (
                             <div className="h-px bg-gray-200 dark:bg-gray-700 my-1" />
                         )}
 
+                        {/* Publish as website - only for folders */}
+                        {isFolder && onPublishSite && (
+                            <button
+                                onClick={onPublishSite}
+                                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                            >
+                                <Globe className="w-4 h-4" />
+                                <span>Publish as Website...</span>
+                            </button>
+                        )}
+
                         {/* Change Color - only for folders */}
                         {isFolder && onChangeColor && (
                             <>
@@ -0,0 +1,98 @@
+/**
+ * JsSandboxMenu
+ *
+ * Toolbar dropdown with a Nerdbook's JavaScript settings: how long a cell may
+ * run before it's stopped, and whether cells may call into the app through
+ * app.invoke (off unless the notebook is trusted).
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ShieldCheck, ShieldAlert, ChevronDown } from 'lucide-react';
+import { DEFAULT_JS_TIMEOUT_SECONDS } from '../../utils/jsSandbox';
+
+interface JsSandboxMenuProps {
+    timeoutSeconds?: number;
+    allowAppAccess?: boolean;
+    onChange: (settings: { jsTimeoutSeconds?: number; jsAppAccess?: boolean }) => void;
+}
+
+export function JsSandboxMenu({ timeoutSeconds, allowAppAccess = false, onChange }: JsSandboxMenuProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (e: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const ShieldIcon = allowAppAccess ? ShieldAlert : ShieldCheck;
+
+    return (
+        <div className="relative" ref={menuRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center gap-1.5 px-2 py-1 rounded-md text-sm transition-colors bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
+                title="JavaScript settings"
+            >
+                <ShieldIcon className={allowAppAccess ? "w-3.5 h-3.5 text-amber-500" : "w-3.5 h-3.5"} />
+                <span className="text-xs">JS</span>
+                <ChevronDown className="w-3 h-3" />
+            </button>
+
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        initial={{ opacity: 0, y: -5 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -5 }}
+                        className="absolute top-full left-0 mt-1 w-72 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 p-3 z-50 space-y-3"
+                    >
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            JavaScript cells run in a sandbox, apart from the app. Stop a running cell with its stop button.
+                        </p>
+
+                        <label className="flex items-center justify-between gap-2 text-sm text-gray-700 dark:text-gray-300">
+                            <span>Stop cells after</span>
+                            <span className="flex items-center gap-1">
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={3600}
+                                    value={timeoutSeconds ?? DEFAULT_JS_TIMEOUT_SECONDS}
+                                    onChange={e => {
+                                        const seconds = Math.round(Number(e.target.value));
+                                        if (seconds >= 1 && seconds <= 3600) onChange({ jsTimeoutSeconds: seconds });
+                                    }}
+                                    className="w-16 px-2 py-1 text-xs rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 focus:outline-none"
+                                />
+                                <span className="text-xs text-gray-500">seconds</span>
+                            </span>
+                        </label>
+
+                        <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={allowAppAccess}
+                                onChange={e => onChange({ jsAppAccess: e.target.checked })}
+                                className="mt-0.5"
+                            />
+                            <span>
+                                Allow app access
+                                <span className="block text-xs text-gray-500 dark:text-gray-400">
+                                    Lets cells call <code>app.invoke(channel, ...args)</code> to read your events, tasks and workspace files. Only turn on for notebooks you trust.
+                                </span>
+                            </span>
+                        </label>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+}
+
+export default JsSandboxMenu;
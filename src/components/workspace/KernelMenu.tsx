@@ -0,0 +1,89 @@
+/**
+ * KernelMenu
+ *
+ * Toolbar dropdown for a Nerdbook's kernels: shows whether a cell is running
+ * and offers Jupyter's interrupt and restart actions.
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Cpu, ChevronDown, Square, RefreshCw, FastForward } from 'lucide-react';
+import clsx from 'clsx';
+
+interface KernelMenuProps {
+    busy: boolean;
+    onInterrupt: () => void;
+    onRestart: () => void;
+    onRestartAndRunAll: () => void;
+}
+
+export function KernelMenu({ busy, onInterrupt, onRestart, onRestartAndRunAll }: KernelMenuProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (e: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const items = [
+        { icon: Square, label: 'Interrupt', hint: 'Stop the running cell', onClick: onInterrupt, disabled: !busy },
+        { icon: RefreshCw, label: 'Restart', hint: 'Clear all variables', onClick: onRestart, disabled: false },
+        { icon: FastForward, label: 'Restart & Run All', hint: 'Clear variables, then run every cell', onClick: onRestartAndRunAll, disabled: false },
+    ];
+
+    return (
+        <div className="relative" ref={menuRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center gap-1.5 px-2 py-1 rounded-md text-sm transition-colors bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
+                title={busy ? 'Kernel busy' : 'Kernel idle'}
+            >
+                <Cpu className="w-3.5 h-3.5" />
+                <span className={clsx("w-2 h-2 rounded-full", busy ? "bg-amber-500 animate-pulse" : "bg-green-500")} />
+                <span className="text-xs">Kernel</span>
+                <ChevronDown className="w-3 h-3" />
+            </button>
+
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        initial={{ opacity: 0, y: -5 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -5 }}
+                        className="absolute top-full left-0 mt-1 w-60 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 py-1 z-50"
+                    >
+                        {items.map(({ icon: Icon, label, hint, onClick, disabled }) => (
+                            <button
+                                key={label}
+                                onClick={() => {
+                                    onClick();
+                                    setIsOpen(false);
+                                }}
+                                disabled={disabled}
+                                className={clsx(
+                                    "w-full flex items-start gap-2 px-3 py-2 text-left transition-colors",
+                                    disabled
+                                        ? "opacity-40 cursor-not-allowed"
+                                        : "hover:bg-gray-100 dark:hover:bg-gray-700"
+                                )}
+                            >
+                                <Icon className="w-4 h-4 mt-0.5 text-gray-500 dark:text-gray-400 shrink-0" />
+                                <span>
+                                    <span className="block text-sm text-gray-800 dark:text-gray-200">{label}</span>
+                                    <span className="block text-xs text-gray-500 dark:text-gray-400">{hint}</span>
+                                </span>
+                            </button>
+                        ))}
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+}
+
+export default KernelMenu;
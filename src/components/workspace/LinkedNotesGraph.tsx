@@ -6,9 +6,10 @@
 
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, ZoomIn, ZoomOut, Maximize2, RefreshCw, FileCode, PenTool, FileText } from 'lucide-react';
+import { X, ZoomIn, ZoomOut, Maximize2, RefreshCw, FileCode, PenTool, FileText, Hash } from 'lucide-react';
 import { WorkspaceFile, FileType } from '../../types/workspace';
-import { parseMentions } from '../../utils/noteLinking';
+import { formatAnchor, parseMentions } from '../../utils/noteLinking';
+import { matchesTagFilters } from '../../utils/fileMetadata';
 import { useTheme } from '../../contexts/ThemeContext';
 import clsx from 'clsx';
 
@@ -31,6 +32,8 @@ interface GraphEdge {
     source: string;
     target: string;
     animated: boolean;
+    anchors: { fileId: string; label: string }[];   // Headings and blocks the links point at, by the file holding them
+    embed: boolean;                                  // One of the links is a !@ embed (drawn dashed)
 }
 
 interface LinkedNotesGraphProps {
@@ -39,6 +42,9 @@ interface LinkedNotesGraphProps {
     workspaceFiles: WorkspaceFile[];
     onNavigateToFile: (fileId: string) => void;
     getFileContent: (fileId: string) => Promise<string>;
+    fileTags?: Record<string, string[]>;        // Tags of each file by id
+    tagFilter?: string | null;                  // Dim files without this tag
+    onTagFilterChange?: (tag: string | null) => void;
 }
 
 // Get icon for file type
@@ -77,6 +83,9 @@ export function LinkedNotesGraph({
     workspaceFiles,
     onNavigateToFile,
     getFileContent,
+    fileTags,
+    tagFilter,
+    onTagFilterChange,
 }: LinkedNotesGraphProps) {
     const { accentColor, theme } = useTheme();
     const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -98,6 +107,12 @@ export function LinkedNotesGraph({
     const [animationProgress, setAnimationProgress] = useState(0);
     const [revealedCount, setRevealedCount] = useState(0);
 
+    // Nodes outside the type filter or the tag filter are drawn dimmed
+    const isFilteredNode = useCallback((node: GraphNode) =>
+        (filterType !== null && node.type !== filterType) ||
+        (!!tagFilter && !matchesTagFilters(fileTags?.[node.id] || [], [tagFilter])),
+    [filterType, tagFilter, fileTags]);
+
     // Build graph data from workspace files
     const buildGraph = useCallback(async () => {
         setIsLoading(true);
@@ -130,19 +145,30 @@ export function LinkedNotesGraph({
                     mentions.forEach(mention => {
                         if (mention.linkedFile) {
                             // Avoid duplicate edges
-                            const edgeExists = graphEdges.some(
+                            let edge = graphEdges.find(
                                 e => (e.source === file.id && e.target === mention.linkedFile!.id) ||
                                     (e.source === mention.linkedFile!.id && e.target === file.id)
                             );
-                            if (!edgeExists) {
-                                graphEdges.push({
+                            if (!edge) {
+                                edge = {
                                     source: file.id,
                                     target: mention.linkedFile.id,
                                     animated: false,
-                                });
+                                    anchors: [],
+                                    embed: false,
+                                };
+                                graphEdges.push(edge);
                                 connectionCount[file.id]++;
                                 connectionCount[mention.linkedFile.id]++;
                             }
+                            edge.embed = edge.embed || mention.isEmbed;
+                            if (mention.anchor) {
+                                const label = formatAnchor(mention.anchor);
+                                const fileId = mention.linkedFile.id;
+                                if (!edge.anchors.some(a => a.fileId === fileId && a.label === label)) {
+                                    edge.anchors.push({ fileId, label });
+                                }
+                            }
                         }
                     });
                 }
@@ -454,8 +480,7 @@ export function LinkedNotesGraph({
             if (source.revealOrder >= revealedCount || target.revealOrder >= revealedCount) return;
 
             // Check if edge involves filtered-out nodes
-            const isEdgeFiltered = filterType !== null &&
-                (source.type !== filterType || target.type !== filterType);
+            const isEdgeFiltered = isFilteredNode(source) || isFilteredNode(target);
 
             // Edge opacity based on the later-revealed node's opacity
             let edgeOpacity = Math.min(source.opacity, target.opacity);
@@ -472,7 +497,9 @@ export function LinkedNotesGraph({
                 ? (theme === 'dark' ? 'rgba(255, 255, 255, 0.5)' : 'rgba(0, 0, 0, 0.35)')
                 : theme === 'dark' ? 'rgba(156, 163, 175, 0.4)' : 'rgba(107, 114, 128, 0.4)';
             ctx.lineWidth = isHighlighted && !isEdgeFiltered ? 2.5 : 1.5;
+            ctx.setLineDash(edge.embed ? [6, 4] : []);
             ctx.stroke();
+            ctx.setLineDash([]);
             ctx.globalAlpha = 1;
         });
 
@@ -494,8 +521,8 @@ export function LinkedNotesGraph({
             );
             const isDimmedByHover = hoveredNode && !isHighlighted && !isConnected;
 
-            // Check if this node is filtered out by type filter
-            const isFilteredOut = filterType !== null && node.type !== filterType;
+            // Check if this node is filtered out by type or tag filter
+            const isFilteredOut = isFilteredNode(node);
             const isDimmed = isDimmedByHover || isFilteredOut;
 
             // Get the file type color for this node
@@ -672,7 +699,7 @@ export function LinkedNotesGraph({
         });
 
         ctx.restore();
-    }, [nodes, edges, zoom, pan, hoveredNode, animationProgress, accentColor, theme, revealedCount, filterType]);
+    }, [nodes, edges, zoom, pan, hoveredNode, animationProgress, accentColor, theme, revealedCount, isFilteredNode]);
 
 
     // Mouse event handlers
@@ -922,6 +949,10 @@ export function LinkedNotesGraph({
                                 if (!node) return null;
                                 const Icon = getFileIcon(node.type);
                                 const nodeColor = getFileTypeColor(node.type);
+                                const referencedSections = [...new Set(edges
+                                    .flatMap(e => e.anchors)
+                                    .filter(a => a.fileId === node.id)
+                                    .map(a => a.label))];
                                 return (
                                     <div className="flex items-center gap-3">
                                         <Icon className="w-5 h-5" style={{ color: nodeColor }} />
@@ -932,6 +963,11 @@ export function LinkedNotesGraph({
                                             <div className="text-xs text-gray-500 dark:text-gray-400">
                                                 {node.connections} connection{node.connections !== 1 ? 's' : ''} • Double-click to open
                                             </div>
+                                            {referencedSections.length > 0 && (
+                                                <div className="mt-1 text-xs text-gray-500 dark:text-gray-400 max-w-xs truncate">
+                                                    Linked sections: {referencedSections.join(', ')}
+                                                </div>
+                                            )}
                                         </div>
                                     </div>
                                 );
@@ -1003,6 +1039,21 @@ export function LinkedNotesGraph({
                                 </span>
                             </div>
                         )}
+                        {tagFilter && (
+                            <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-600 flex items-center justify-center gap-1 text-gray-500 dark:text-gray-400">
+                                <Hash className="w-3 h-3" />
+                                <span>Tagged {tagFilter}</span>
+                                {onTagFilterChange && (
+                                    <button
+                                        onClick={() => onTagFilterChange(null)}
+                                        className="p-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                                        title="Clear tag filter"
+                                    >
+                                        <X className="w-3 h-3" />
+                                    </button>
+                                )}
+                            </div>
+                        )}
                     </div>
 
                     {/* Zoom indicator */}
@@ -0,0 +1,170 @@
+/**
+ * LocalKernelsMenu
+ *
+ * Toolbar dropdown with a Nerdbook's local kernel settings: which
+ * interpreters were found on this computer, whether Python cells use the
+ * system's Python, the time and memory limits, and whether the notebook is
+ * trusted to run them.
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { TerminalSquare, ChevronDown } from 'lucide-react';
+import { DEFAULT_LOCAL_MEMORY_MB, DEFAULT_LOCAL_TIMEOUT_SECONDS, LocalKernelInfo, listLocalKernels } from '../../utils/localKernels';
+
+interface LocalKernelsMenuProps {
+    filePath?: string;
+    useSystemPython?: boolean;
+    timeoutSeconds?: number;
+    memoryMb?: number;
+    onChange: (settings: { localPython?: boolean; localTimeoutSeconds?: number; localMemoryMb?: number }) => void;
+}
+
+export function LocalKernelsMenu({ filePath, useSystemPython = false, timeoutSeconds, memoryMb, onChange }: LocalKernelsMenuProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [kernels, setKernels] = useState<LocalKernelInfo[] | null>(null);
+    const [trusted, setTrusted] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (e: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    // Trust may have been granted by a run since the menu was last open
+    useEffect(() => {
+        if (!isOpen) return;
+        listLocalKernels().then(setKernels);
+        if (filePath) {
+            // @ts-ignore
+            window.ipcRenderer?.invoke('get-notebook-trust', filePath).then((value: boolean) => setTrusted(value === true));
+        }
+    }, [isOpen, filePath]);
+
+    const handleRevokeTrust = async () => {
+        // @ts-ignore
+        await window.ipcRenderer?.invoke('revoke-notebook-trust', filePath);
+        setTrusted(false);
+    };
+
+    return (
+        <div className="relative" ref={menuRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center gap-1.5 px-2 py-1 rounded-md text-sm transition-colors bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
+                title="Local kernels"
+            >
+                <TerminalSquare className="w-3.5 h-3.5" />
+                <span className="text-xs">Local</span>
+                <ChevronDown className="w-3 h-3" />
+            </button>
+
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        initial={{ opacity: 0, y: -5 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -5 }}
+                        className="absolute top-full left-0 mt-1 w-80 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 p-3 z-50 space-y-3"
+                    >
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            Cells in other languages run with interpreters installed on this computer, in the notebook's folder. Each cell is a new process, so variables don't carry over.
+                        </p>
+
+                        <div>
+                            <h4 className="mb-1 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">Interpreters</h4>
+                            {kernels === null ? (
+                                <p className="text-xs text-gray-400">Looking on PATH...</p>
+                            ) : (
+                                <ul className="space-y-0.5">
+                                    {kernels.map(kernel => (
+                                        <li key={kernel.id} className="flex items-baseline gap-2 text-xs" title={kernel.path || undefined}>
+                                            <span className={kernel.path ? "text-gray-700 dark:text-gray-300" : "text-gray-400 dark:text-gray-500"}>{kernel.name}</span>
+                                            <span className="ml-auto truncate font-mono text-gray-400 dark:text-gray-500">{kernel.path || 'not found'}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+
+                        <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={useSystemPython}
+                                onChange={e => onChange({ localPython: e.target.checked })}
+                                className="mt-0.5"
+                            />
+                            <span>
+                                Run Python with the system's Python
+                                <span className="block text-xs text-gray-500 dark:text-gray-400">
+                                    Instead of Python in the browser: uses the packages installed on this computer.
+                                </span>
+                            </span>
+                        </label>
+
+                        <label className="flex items-center justify-between gap-2 text-sm text-gray-700 dark:text-gray-300">
+                            <span>Stop cells after</span>
+                            <span className="flex items-center gap-1">
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={3600}
+                                    value={timeoutSeconds ?? DEFAULT_LOCAL_TIMEOUT_SECONDS}
+                                    onChange={e => {
+                                        const seconds = Math.round(Number(e.target.value));
+                                        if (seconds >= 1 && seconds <= 3600) onChange({ localTimeoutSeconds: seconds });
+                                    }}
+                                    className="w-16 px-2 py-1 text-xs rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 focus:outline-none"
+                                />
+                                <span className="text-xs text-gray-500">seconds</span>
+                            </span>
+                        </label>
+
+                        <label className="flex items-center justify-between gap-2 text-sm text-gray-700 dark:text-gray-300">
+                            <span>
+                                Memory limit
+                                <span className="block text-xs text-gray-500 dark:text-gray-400">
+                                    Not on Windows, where only the time limit applies.
+                                </span>
+                            </span>
+                            <span className="flex items-center gap-1">
+                                <input
+                                    type="number"
+                                    min={128}
+                                    max={65536}
+                                    step={128}
+                                    value={memoryMb ?? DEFAULT_LOCAL_MEMORY_MB}
+                                    onChange={e => {
+                                        const megabytes = Math.round(Number(e.target.value));
+                                        if (megabytes >= 128 && megabytes <= 65536) onChange({ localMemoryMb: megabytes });
+                                    }}
+                                    className="w-20 px-2 py-1 text-xs rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 focus:outline-none"
+                                />
+                                <span className="text-xs text-gray-500">MB</span>
+                            </span>
+                        </label>
+
+                        <div className="pt-2 border-t border-gray-100 dark:border-gray-700 text-xs">
+                            {!filePath ? (
+                                <p className="text-gray-500 dark:text-gray-400">Only notebooks saved as files in the workspace can run local interpreters.</p>
+                            ) : trusted ? (
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="text-amber-600 dark:text-amber-400">Trusted to run programs on this computer</span>
+                                    <button onClick={handleRevokeTrust} className="text-blue-500 hover:text-blue-600 dark:text-blue-400">Revoke</button>
+                                </div>
+                            ) : (
+                                <p className="text-gray-500 dark:text-gray-400">Not trusted yet. You'll be asked before its first cell runs.</p>
+                            )}
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+}
+
+export default LocalKernelsMenu;
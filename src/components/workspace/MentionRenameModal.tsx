@@ -0,0 +1,120 @@
+/**
+ * MentionRenameModal
+ *
+ * Shown after a file is renamed when other files still mention it by its old
+ * name. Previews every affected mention and rewrites the selected files.
+ */
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { AtSign, ArrowRight } from 'lucide-react';
+import { MentionRenameFile } from '../../utils/mentionRefactor';
+
+interface MentionRenameModalProps {
+    oldName: string;
+    newName: string;
+    files: MentionRenameFile[];
+    getFileName: (filePath: string) => string;
+    onApply: (filePaths: string[]) => Promise<void>;
+    onSkip: () => void;
+}
+
+export function MentionRenameModal({ oldName, newName, files, getFileName, onApply, onSkip }: MentionRenameModalProps) {
+    const [selected, setSelected] = useState<Set<string>>(() => new Set(files.map(f => f.filePath)));
+    const [isApplying, setIsApplying] = useState(false);
+
+    const mentionCount = files
+        .filter(f => selected.has(f.filePath))
+        .reduce((sum, f) => sum + f.occurrences.length, 0);
+
+    const toggle = (filePath: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(filePath)) next.delete(filePath);
+            else next.add(filePath);
+            return next;
+        });
+    };
+
+    const handleApply = async () => {
+        setIsApplying(true);
+        try {
+            await onApply(files.map(f => f.filePath).filter(p => selected.has(p)));
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+            onClick={onSkip}
+        >
+            <motion.div
+                initial={{ scale: 0.95, opacity: 0 }}
+                animate={{ scale: 1, opacity: 1 }}
+                exit={{ scale: 0.95, opacity: 0 }}
+                className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-[32rem] max-h-[80vh] flex flex-col"
+                onClick={e => e.stopPropagation()}
+            >
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-1 flex items-center gap-2">
+                    <AtSign className="w-5 h-5 text-blue-500" />
+                    Update mentions?
+                </h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                    {files.length} {files.length === 1 ? 'file mentions' : 'files mention'} "{oldName}". Update them to "{newName}"?
+                </p>
+
+                <div className="flex-1 overflow-y-auto space-y-3 pr-1">
+                    {files.map(file => (
+                        <div key={file.filePath} className="rounded-lg border border-gray-200 dark:border-gray-700">
+                            <label className="flex items-center gap-2 px-3 py-2 cursor-pointer border-b border-gray-100 dark:border-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={selected.has(file.filePath)}
+                                    onChange={() => toggle(file.filePath)}
+                                    className="rounded"
+                                />
+                                <span className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate flex-1">{getFileName(file.filePath)}</span>
+                                <span className="text-xs text-gray-400">{file.occurrences.length}</span>
+                            </label>
+                            <div className="px-3 py-2 space-y-1.5">
+                                {file.occurrences.map((occurrence, index) => (
+                                    <div key={index} className="text-xs">
+                                        <p className="text-gray-500 dark:text-gray-400 truncate" title={occurrence.context}>{occurrence.context}</p>
+                                        <p className="flex items-center gap-1.5 font-mono">
+                                            <span className="text-red-500 line-through">{occurrence.mention}</span>
+                                            <ArrowRight className="w-3 h-3 text-gray-400 shrink-0" />
+                                            <span className="text-green-600 dark:text-green-400">{occurrence.replacement}</span>
+                                        </p>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex justify-end gap-2 mt-4">
+                    <button
+                        onClick={onSkip}
+                        className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+                    >
+                        Leave as is
+                    </button>
+                    <button
+                        onClick={handleApply}
+                        disabled={mentionCount === 0 || isApplying}
+                        className="px-4 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-md transition-colors"
+                    >
+                        {isApplying ? 'Updating…' : `Update ${mentionCount} ${mentionCount === 1 ? 'mention' : 'mentions'}`}
+                    </button>
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+}
+
+export default MentionRenameModal;
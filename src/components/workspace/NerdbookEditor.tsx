@@ -3,10 +3,10 @@ import { motion, AnimatePresence } from 'framer-motion';
 import {
     Plus, Trash2, Edit2, Check, X, ChevronDown,
     Code, Save, Scissors,
-    Clipboard, Play, Square, Copy, ArrowUp, ArrowDown, RotateCcw,
-    Sun, Moon, Palette, Monitor, Wand2, LocateFixed
+    Clipboard, Play, FastForward, Square, Copy, ArrowUp, ArrowDown, RotateCcw,
+    Sun, Moon, Palette, Monitor, Wand2, LocateFixed, Variable
 } from 'lucide-react';
-import { NerdNotebook, NerdCell, NerdCellType } from '../../types';
+import { NerdNotebook, NerdCell, NerdCellType, NerdCellOutput } from '../../types';
 import { WorkspaceFile } from '../../types/workspace';
 import { useTheme } from '../../contexts/ThemeContext';
 import { AiBackboneModal } from '../AiBackboneModal';
@@ -14,6 +14,14 @@ import { MarkdownContextMenu } from '../MarkdownContextMenu';
 import { MentionAutocomplete } from './MentionAutocomplete';
 import { ImageEditor } from './ImageEditor';
 import { TableEditor } from './TableEditor';
+import { NotebookPackagesMenu, PackageStatus } from './NotebookPackagesMenu';
+import { JsSandboxMenu } from './JsSandboxMenu';
+import { LocalKernelsMenu } from './LocalKernelsMenu';
+import { KernelMenu } from './KernelMenu';
+import { VariableInspector } from './VariableInspector';
+import { CellOutputs } from './CellOutputs';
+import { PaletteCommand } from '../../utils/commandRegistry';
+import { useRegisterCommands } from '../../hooks/useCommandRegistry';
 import {
     getSelection,
     toggleBold,
@@ -32,8 +40,18 @@ import {
     shouldShowMentionAutocomplete,
     insertMention,
     renderMentionsAsHtml,
+    formatAnchor,
+    parseAnchor,
     MentionSuggestion,
+    MentionAnchor,
+    NoteMention,
 } from '../../utils/noteLinking';
+import { extractReferenceBlocks, resolveReferenceBlock } from '../../utils/blockRefs';
+import { useEmbeddedBlocks } from '../../hooks/useEmbeddedBlocks';
+import { installRequirements, parseRequirements, requirementName } from '../../utils/pyodideRuntime';
+import { DEFAULT_JS_TIMEOUT_SECONDS } from '../../utils/jsSandbox';
+import { KernelLanguage, VariableInfo, getNotebookKernels, isPyodideLoaded, loadSharedPyodide, restartNotebookKernels } from '../../utils/notebookKernels';
+import { DEFAULT_LOCAL_MEMORY_MB, DEFAULT_LOCAL_TIMEOUT_SECONDS, localKernelForLanguage, runLocalCell, stopLocalCell } from '../../utils/localKernels';
 import clsx from 'clsx';
 import Prism from 'prismjs';
 import 'prismjs/themes/prism-tomorrow.css';
@@ -60,10 +78,12 @@ interface NerdbookEditorProps {
     onNotebookChange?: (notebook: NerdNotebook) => void;
     /** All workspace files for @ mention linking */
     workspaceFiles?: WorkspaceFile[];
-    /** Callback when user clicks a note mention to navigate */
-    onNavigateToNote?: (fileId: string) => void;
+    /** Callback when user clicks a note mention to navigate, with the #heading or ^block it points at */
+    onNavigateToNote?: (fileId: string, anchor?: MentionAnchor) => void;
     /** Current file ID (to exclude from mention suggestions) */
     currentFileId?: string;
+    /** Heading or cell to scroll to and select once the notebook is loaded */
+    focusAnchor?: MentionAnchor;
 }
 
 /**
@@ -73,7 +93,7 @@ interface NerdbookEditorProps {
  * 
  * Requirements: 8.1
  */
-export function NerdbookEditor({ contentId, filePath, onNotebookChange, workspaceFiles = [], onNavigateToNote, currentFileId }: NerdbookEditorProps) {
+export function NerdbookEditor({ contentId, filePath, onNotebookChange, workspaceFiles = [], onNavigateToNote, currentFileId, focusAnchor }: NerdbookEditorProps) {
     const { accentColor, theme } = useTheme();
     const [notebook, setNotebook] = useState<NerdNotebook | null>(null);
     const [isLoading, setIsLoading] = useState(true);
@@ -87,8 +107,14 @@ export function NerdbookEditor({ contentId, filePath, onNotebookChange, workspac
     const textareaRefs = useRef<{ [key: string]: HTMLTextAreaElement | null }>({});
     const containerRef = useRef<HTMLDivElement>(null);
     const [pyodideLoading, setPyodideLoading] = useState(false);
-    const [pyodideReady, setPyodideReady] = useState(false);
-    const pyodideRef = useRef<any>(null);
+    const [pyodideReady, setPyodideReady] = useState(isPyodideLoaded);
+    const [packageStatuses, setPackageStatuses] = useState<Record<string, PackageStatus>>({});
+    const installPromiseRef = useRef<Promise<void> | null>(null);
+    const restoredNotebookIdRef = useRef<string | null>(null);
+    const [runningCell, setRunningCell] = useState<{ id: string; language: KernelLanguage } | { id: string; language: 'local'; runId: string } | null>(null);
+    const [showVariables, setShowVariables] = useState(false);
+    const [variables, setVariables] = useState<Record<KernelLanguage, VariableInfo[]>>({ python: [], javascript: [] });
+    const [kernelVersion, setKernelVersion] = useState(0);     // Bumped whenever a kernel's variables may have changed
     const lastMathComputeRef = useRef<{ cellId: string; expression: string; timestamp: number } | null>(null);
     const [showAiBackboneModal, setShowAiBackboneModal] = useState(false);
 
@@ -319,7 +345,7 @@ export function NerdbookEditor({ contentId, filePath, onNotebookChange, workspac
                 }
 
                 if (found) {
-                    // Clear outputs when loading
+                    // Clear text outputs when loading; rich outputs are kept like figures in a saved .ipynb
                     const clearedCells = found.cells.map((c: NerdCell) => ({
                         ...c,
                         output: undefined,
@@ -1250,12 +1276,14 @@ export function NerdbookEditor({ contentId, filePath, onNotebookChange, workspac
         }
     }, [tableEditor, notebook, handleUpdateCell]);
 
-    // Detect language from code content
-    const detectLanguage = useCallback((content: string): string => {
+    // Detect language from code content, unless the cell has one set (e.g. imported from Jupyter)
+    const detectLanguage = useCallback((content: string, language?: string): string => {
+        if (language) return language.toLowerCase();
         const firstLine = content.trim().split('\n')[0].toLowerCase();
 
         if (firstLine.includes('// javascript') || firstLine.includes('// js')) return 'javascript';
         if (firstLine.includes('// typescript') || firstLine.includes('// ts')) return 'typescript';
+        if (firstLine.includes('// node')) return 'node';
         if (firstLine.includes('# python') || firstLine.includes('# py')) return 'python';
         if (firstLine.includes('// css')) return 'css';
         if (firstLine.includes('// sql')) return 'sql';
@@ -1310,27 +1338,13 @@ export function NerdbookEditor({ contentId, filePath, onNotebookChange, workspac
 
 
     // Load Pyodide for Python execution
+    // Every notebook shares one interpreter; running a cell while packages are being restored waits for the same load
     const loadPyodide = useCallback(async () => {
-        if (pyodideRef.current) return pyodideRef.current;
+        if (isPyodideLoaded()) return loadSharedPyodide();
 
         setPyodideLoading(true);
         try {
-            if (!(window as any).loadPyodide) {
-                await new Promise<void>((resolve, reject) => {
-                    const script = document.createElement('script');
-                    script.src = "https://cdn.jsdelivr.net/pyodide/v0.24.1/full/pyodide.js";
-                    script.async = true;
-                    script.onload = () => resolve();
-                    script.onerror = () => reject(new Error('Failed to load Pyodide script.'));
-                    document.body.appendChild(script);
-                });
-            }
-
-            // @ts-ignore
-            const pyodide = await window.loadPyodide({
-                indexURL: "https://cdn.jsdelivr.net/pyodide/v0.24.1/full/"
-            });
-            pyodideRef.current = pyodide;
+            const pyodide = await loadSharedPyodide();
             setPyodideReady(true);
             return pyodide;
         } catch (error) {
@@ -1341,19 +1355,96 @@ export function NerdbookEditor({ contentId, filePath, onNotebookChange, workspac
         }
     }, []);
 
-    // Run a code cell
-    const handleRunCell = useCallback(async (cellId: string) => {
-        if (!notebook) return;
+    // Install packages one batch after another; cells wait for them before running
+    const installPackages = useCallback(async (requirements: string[]) => {
+        if (requirements.length === 0) return;
+        const setStatuses = (entries: [string, PackageStatus][]) =>
+            setPackageStatuses(prev => ({ ...prev, ...Object.fromEntries(entries.map(([r, status]) => [requirementName(r), status])) }));
+        setStatuses(requirements.map(r => [r, { state: 'installing' }]));
+
+        const previous = installPromiseRef.current;
+        const run = (async () => {
+            await previous;
+            const pyodide = await loadPyodide();
+            if (!pyodide) {
+                setStatuses(requirements.map(r => [r, { state: 'failed', error: 'The Python runtime could not be loaded' }]));
+                return;
+            }
+            const result = await installRequirements(pyodide, requirements);
+            setStatuses([
+                ...result.installed.map((r): [string, PackageStatus] => [r, { state: 'installed' }]),
+                ...result.failed.map(({ requirement, error }): [string, PackageStatus] => [requirement, { state: 'failed', error }]),
+            ]);
+        })();
+        installPromiseRef.current = run;
+        await run;
+    }, [loadPyodide]);
+
+    // Restore the notebook's packages when it opens
+    useEffect(() => {
+        if (!notebook || restoredNotebookIdRef.current === notebook.id) return;
+        restoredNotebookIdRef.current = notebook.id;
+        if (notebook.requirements?.length) installPackages(notebook.requirements);
+    }, [notebook, installPackages]);
+
+    const handleAddPackages = useCallback((text: string) => {
+        const known = new Set((notebook?.requirements || []).map(requirementName));
+        const added = parseRequirements(text).filter(r => !known.has(requirementName(r)));
+        if (added.length === 0) return;
+        setNotebook(prev => prev ? { ...prev, requirements: [...(prev.requirements || []), ...added], updatedAt: new Date().toISOString() } : prev);
+        installPackages(added);
+    }, [notebook?.requirements, installPackages]);
+
+    // An installed package stays importable until the notebook is reopened
+    const handleRemovePackage = useCallback((requirement: string) => {
+        setNotebook(prev => prev ? { ...prev, requirements: (prev.requirements || []).filter(r => r !== requirement), updatedAt: new Date().toISOString() } : prev);
+        setPackageStatuses(prev => {
+            const { [requirementName(requirement)]: _removed, ...rest } = prev;
+            return rest;
+        });
+    }, []);
+
+    // Live variables of this notebook's kernels, for the inspector
+    const refreshVariables = useCallback(async () => {
+        const kernels = getNotebookKernels(contentId);
+        let python: VariableInfo[] = [];
+        try {
+            python = kernels.python.variables();
+        } catch (error) {
+            console.error('Failed to list Python variables:', error);
+        }
+        const javascript = await kernels.javascript.variables();
+        setVariables(prev => ({ python, javascript: javascript ?? prev.javascript }));
+    }, [contentId]);
+
+    useEffect(() => {
+        if (showVariables) refreshVariables();
+    }, [showVariables, kernelVersion, refreshVariables]);
+
+    const handleJsSettingsChange = useCallback((settings: Pick<NerdNotebook, 'jsTimeoutSeconds' | 'jsAppAccess'>) => {
+        setNotebook(prev => prev ? { ...prev, ...settings, updatedAt: new Date().toISOString() } : prev);
+    }, []);
+
+    const handleLocalSettingsChange = useCallback((settings: Pick<NerdNotebook, 'localPython' | 'localTimeoutSeconds' | 'localMemoryMb'>) => {
+        setNotebook(prev => prev ? { ...prev, ...settings, updatedAt: new Date().toISOString() } : prev);
+    }, []);
+
+    // Run a code cell in this notebook's kernel. Resolves to false when it was interrupted, so "run all" stops too.
+    const handleRunCell = useCallback(async (cellId: string): Promise<boolean> => {
+        if (!notebook) return false;
 
         const cell = notebook.cells.find(c => c.id === cellId);
-        if (!cell || cell.type !== 'code') return;
+        if (!cell || cell.type !== 'code') return false;
 
         const textareaEl = textareaRefs.current[cellId];
         const currentContent = textareaEl?.value || cell.content;
 
-        const detectedLang = detectLanguage(currentContent);
-        const isPython = ['python', 'py'].includes(detectedLang.toLowerCase());
-        const isNonExecutable = ['bash', 'shell', 'sql', 'css'].includes(detectedLang.toLowerCase());
+        const detectedLang = detectLanguage(currentContent, cell.language);
+        // Languages the browser can't run go to an interpreter on this computer, if there is one for them
+        const localKernel = localKernelForLanguage(detectedLang, notebook.localPython === true);
+        const isPython = !localKernel && ['python', 'py'].includes(detectedLang.toLowerCase());
+        // Only Python and JavaScript run in the browser; imported notebooks may hold any kernel's language
+        const isNonExecutable = !localKernel && !['python', 'py', 'javascript', 'js', 'typescript', 'ts'].includes(detectedLang.toLowerCase());
 
         if (isNonExecutable) {
             setNotebook(prev => {
@@ -1374,27 +1465,55 @@ export function NerdbookEditor({ contentId, filePath, onNotebookChange, workspac
                     updatedAt: new Date().toISOString(),
                 };
             });
-            return;
+            return true;
         }
 
+        const kernels = getNotebookKernels(contentId);
+        const executionCount = ++kernels.executionCount;
+
         setNotebook(prev => {
             if (!prev) return prev;
             return {
                 ...prev,
                 cells: prev.cells.map(c =>
-                    c.id === cellId ? { ...c, isExecuting: true, output: undefined } : c
+                    c.id === cellId ? { ...c, isExecuting: true, output: undefined, outputs: undefined } : c
                 ),
             };
         });
 
         let output = '';
+        let outputs: NerdCellOutput[] = [];
         let hasError = false;
+        let wasStopped = false;
+        const localRunId = crypto.randomUUID();
+        setRunningCell(localKernel ? { id: cellId, language: 'local', runId: localRunId } : { id: cellId, language: isPython ? 'python' : 'javascript' });
 
-        if (isPython) {
+        if (localKernel) {
+            if (!filePath) {
+                hasError = true;
+                output = `[${detectedLang.toUpperCase()}] Only notebooks saved as files in the workspace can run local interpreters.`;
+            } else {
+                const result = await runLocalCell(localRunId, {
+                    filePath,
+                    kernelId: localKernel.id,
+                    code: currentContent,
+                    timeoutSeconds: notebook.localTimeoutSeconds ?? DEFAULT_LOCAL_TIMEOUT_SECONDS,
+                    memoryMb: notebook.localMemoryMb ?? DEFAULT_LOCAL_MEMORY_MB,
+                    // Show what the process prints while it's still running
+                    onOutput: partial => setNotebook(prev => prev ? {
+                        ...prev,
+                        cells: prev.cells.map(c => c.id === cellId ? { ...c, output: partial } : c),
+                    } : prev),
+                });
+                output = result.output;
+                hasError = result.error;
+                // Declining to trust the notebook stops "run all" too
+                wasStopped = result.status === 'stopped' || result.status === 'untrusted';
+            }
+        } else if (isPython) {
             try {
-                let pyodide = pyodideRef.current;
-                if (!pyodide) {
-                    output = 'Downloading Python runtime...';
+                if (!isPyodideLoaded()) {
+                    output = 'Loading Python runtime...';
                     setNotebook(prev => {
                         if (!prev) return prev;
                         return {
@@ -1405,8 +1524,7 @@ export function NerdbookEditor({ contentId, filePath, onNotebookChange, workspac
                         };
                     });
 
-                    pyodide = await loadPyodide();
-                    if (!pyodide) {
+                    if (!await loadPyodide()) {
                         throw new Error('Failed to load Python runtime');
                     }
                 }
@@ -1416,74 +1534,35 @@ export function NerdbookEditor({ contentId, filePath, onNotebookChange, workspac
                     code = code.replace(/^# python\s*\n?/, '');
                 }
 
-                await pyodide.runPythonAsync(`
-import sys
-from io import StringIO
-sys.stdout = StringIO()
-sys.stderr = StringIO()
-                `);
-
-                const result = await pyodide.runPythonAsync(code);
-                const stdout = await pyodide.runPythonAsync('sys.stdout.getvalue()');
-                const stderr = await pyodide.runPythonAsync('sys.stderr.getvalue()');
-
-                if (stderr) {
-                    output = stderr;
-                    hasError = true;
-                } else if (stdout) {
-                    output = stdout;
-                } else if (result !== undefined && result !== null) {
-                    output = String(result);
-                } else {
-                    output = '(No output)';
-                }
+                // Packages still being restored
+                await installPromiseRef.current;
+
+                const result = await kernels.python.run(code);
+                output = result.output;
+                outputs = result.outputs;
+                hasError = result.error;
+                wasStopped = result.interrupted;
             } catch (error: any) {
                 hasError = true;
                 output = `[PYTHON ERROR] ${error.message}`;
             }
         } else {
-            const outputs: string[] = [];
-            const originalLog = console.log;
-            const originalError = console.error;
-            const originalWarn = console.warn;
-
-            console.log = (...args) => {
-                outputs.push(args.map(a =>
-                    typeof a === 'object' ? JSON.stringify(a, null, 2) : String(a)
-                ).join(' '));
-            };
-            console.error = (...args) => {
-                outputs.push(`[ERROR] ${args.map(a =>
-                    typeof a === 'object' ? JSON.stringify(a, null, 2) : String(a)
-                ).join(' ')}`);
-            };
-            console.warn = (...args) => {
-                outputs.push(`[WARN] ${args.map(a =>
-                    typeof a === 'object' ? JSON.stringify(a, null, 2) : String(a)
-                ).join(' ')}`);
-            };
-
-            try {
-                const AsyncFunction = Object.getPrototypeOf(async function () { }).constructor;
-                const fn = new AsyncFunction(currentContent);
-                const result = await fn();
-
-                if (result !== undefined) {
-                    outputs.push(`>> ${typeof result === 'object' ? JSON.stringify(result, null, 2) : String(result)}`);
-                }
-
-                output = outputs.join('\n') || '(No output)';
-            } catch (error: any) {
-                hasError = true;
-                output = outputs.length > 0
-                    ? outputs.join('\n') + '\n\n' + `[ERROR] ${error.message}`
-                    : `[ERROR] ${error.message}`;
-            } finally {
-                console.log = originalLog;
-                console.error = originalError;
-                console.warn = originalWarn;
-            }
+            const result = await kernels.javascript.run(currentContent, {
+                timeoutMs: (notebook.jsTimeoutSeconds ?? DEFAULT_JS_TIMEOUT_SECONDS) * 1000,
+                allowAppAccess: notebook.jsAppAccess === true,
+                // Show console output and displays while the cell is still running
+                onOutput: (partial, partialOutputs) => setNotebook(prev => prev ? {
+                    ...prev,
+                    cells: prev.cells.map(c => c.id === cellId ? { ...c, output: partial, outputs: partialOutputs } : c),
+                } : prev),
+            });
+            output = result.output;
+            outputs = result.outputs;
+            hasError = result.error;
+            wasStopped = result.status === 'stopped';
         }
+        setRunningCell(current => current?.id === cellId ? null : current);
+        setKernelVersion(v => v + 1);
 
         setNotebook(prev => {
             if (!prev) return prev;
@@ -1494,9 +1573,11 @@ sys.stderr = StringIO()
                         ? {
                             ...c,
                             content: currentContent,
-                            output: output,
+                            output: output || undefined,
+                            outputs: outputs.length > 0 ? outputs : undefined,
                             isExecuting: false,
                             executionError: hasError,
+                            executionCount,
                             updatedAt: new Date().toISOString()
                         }
                         : c
@@ -1504,7 +1585,48 @@ sys.stderr = StringIO()
                 updatedAt: new Date().toISOString(),
             };
         });
-    }, [notebook, detectLanguage, loadPyodide]);
+        return !wasStopped;
+    }, [notebook, contentId, filePath, detectLanguage, loadPyodide]);
+
+    // Run every code cell from top to bottom, one at a time, until one is stopped
+    const handleRunAllCells = useCallback(async () => {
+        if (!notebook) return;
+        for (const cell of notebook.cells) {
+            if (cell.type === 'code') {
+                if (!await handleRunCell(cell.id)) break;
+            }
+        }
+    }, [notebook, handleRunCell]);
+
+    // Interrupt the running cell. JavaScript can only be stopped by ending its worker, which loses its variables.
+    const handleInterruptKernel = useCallback(() => {
+        if (!runningCell) return;
+        const kernels = getNotebookKernels(contentId);
+        if (runningCell.language === 'local') stopLocalCell(runningCell.runId);
+        else if (runningCell.language === 'javascript') kernels.javascript.stop();
+        else kernels.python.interrupt();
+    }, [runningCell, contentId]);
+
+    const handleRestartKernel = useCallback(() => {
+        restartNotebookKernels(contentId);
+        setKernelVersion(v => v + 1);
+    }, [contentId]);
+
+    const handleRestartAndRunAll = useCallback(async () => {
+        handleRestartKernel();
+        await handleRunAllCells();
+    }, [handleRestartKernel, handleRunAllCells]);
+
+    // Notebook actions for the command palette while this notebook is open
+    const paletteCommands = useMemo<PaletteCommand[]>(() => notebook ? [
+        { id: 'notebook.run-all', title: 'Run all cells', subtitle: notebook.title, category: 'action', keywords: ['execute'], run: handleRunAllCells },
+        { id: 'notebook.restart-kernel', title: 'Restart kernel', subtitle: notebook.title, category: 'action', keywords: ['clear variables'], run: handleRestartKernel },
+        { id: 'notebook.restart-run-all', title: 'Restart kernel and run all cells', subtitle: notebook.title, category: 'action', keywords: ['execute'], run: handleRestartAndRunAll },
+        { id: 'notebook.variables', title: showVariables ? 'Hide variables' : 'Show variables', subtitle: notebook.title, category: 'action', keywords: ['inspector'], run: () => setShowVariables(v => !v) },
+        { id: 'notebook.save', title: 'Save notebook', subtitle: notebook.title, category: 'action', shortcut: 'Ctrl+S', run: () => saveNotebook(notebook) },
+    ] : [], [notebook, handleRunAllCells, handleRestartKernel, handleRestartAndRunAll, showVariables, saveNotebook]);
+
+    useRegisterCommands(paletteCommands);
 
     // Keyboard shortcuts
     useEffect(() => {
@@ -1651,13 +1773,39 @@ sys.stderr = StringIO()
         getSelectedCellIndex, handleRunCell
     ]);
 
-    // Render markdown preview
-    const renderMarkdownPreview = useCallback((content: string, _cellId: string) => {
+    // Live content for !@ embeds in markdown cells
+    const markdownContents = useMemo(
+        () => notebook?.cells.filter(c => c.type === 'markdown').map(c => c.content) ?? [],
+        [notebook?.cells]
+    );
+    const getEmbeddedBlock = useEmbeddedBlocks(markdownContents, workspaceFiles);
+
+    // Render markdown preview; embedded blocks render their own content without further embeds
+    const renderMarkdownPreview = useCallback((content: string, _cellId: string, isEmbedded = false): string => {
         let html = content;
         let checkboxIndex = 0;
+        const embeds: string[] = [];
+
+        const renderEmbed = (mention: NoteMention) => {
+            const embed = getEmbeddedBlock(mention);
+            const anchorAttr = mention.anchor ? ` data-anchor="${encodeURIComponent(formatAnchor(mention.anchor))}"` : '';
+            const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+            const body = embed.status === 'loading'
+                ? '<span class="text-gray-400">Loading…</span>'
+                : embed.status === 'missing'
+                    ? '<span class="text-gray-400 italic">Referenced block not found</span>'
+                    : embed.isCode
+                        ? `<pre class="p-3 rounded-lg bg-gray-100 dark:bg-gray-800 overflow-x-auto"><code class="text-sm font-mono">${escape(embed.content)}</code></pre>`
+                        : renderMarkdownPreview(embed.content, '', true);
+            embeds.push(
+                `<div class="note-embed my-2 pl-3 py-1 border-l-4 rounded-sm cursor-pointer bg-gray-50 dark:bg-gray-800/50" data-note-embed="true" data-note-id="${embed.file?.id || ''}"${anchorAttr} style="border-color: ${accentColor}">` +
+                `<div class="text-xs font-medium mb-1" style="color: ${accentColor}">↪ ${escape(embed.title)}</div>${body}</div>`
+            );
+            return `\u0000EMBED${embeds.length - 1}\u0000`;
+        };
 
         // First, render @ mentions before other processing
-        html = renderMentionsAsHtml(html, workspaceFiles, accentColor);
+        html = renderMentionsAsHtml(html, workspaceFiles, accentColor, isEmbedded ? undefined : renderEmbed);
 
         // Code blocks (triple backticks) - must be first to prevent inner content from being processed
         html = html.replace(/```(\w*)\n([\s\S]*?)```/gm, (_, _lang, code) => {
@@ -1848,13 +1996,50 @@ sys.stderr = StringIO()
             // Single newlines = line break
             .replace(/\n/g, '<br />');
 
-        return html;
-    }, [workspaceFiles, accentColor]);
+        // Embeds go in last so their rendered content isn't processed again
+        return html.replace(/\u0000EMBED(\d+)\u0000/g, (_, index) => embeds[Number(index)]);
+    }, [workspaceFiles, accentColor, getEmbeddedBlock]);
+
+    // Select and scroll to the cell a #heading or ^block reference points at
+    useEffect(() => {
+        if (!focusAnchor || !notebook) return;
+        const blocks = notebook.cells.flatMap(cell =>
+            extractReferenceBlocks('.exec', JSON.stringify({ cells: [cell] })));
+        const cellId = resolveReferenceBlock(blocks, focusAnchor)?.cellId;
+        if (!cellId) return;
+
+        setSelectedCellId(cellId);
+        setCellMode('command');
+        requestAnimationFrame(() => {
+            scrollContainerRef.current
+                ?.querySelector(`[data-cell-id="${CSS.escape(cellId)}"]`)
+                ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        });
+        // Only when a new reference is followed, not on every edit
+    }, [focusAnchor, isLoading]);
 
     // Handle clicks on markdown preview (links, checkboxes)
     const handlePreviewClick = useCallback((e: React.MouseEvent<HTMLDivElement>, cellId: string, cellContent: string) => {
         const target = e.target as HTMLElement;
 
+        // Open the note (and heading or block) a mention or embed points at
+        const navigateToMention = (element: Element) => {
+            e.preventDefault();
+            e.stopPropagation();
+            const noteId = element.getAttribute('data-note-id');
+            const anchor = element.getAttribute('data-anchor');
+            if (noteId && onNavigateToNote) {
+                onNavigateToNote(noteId, anchor ? parseAnchor(decodeURIComponent(anchor)) : undefined);
+            }
+        };
+
+        // Embedded blocks belong to another file, so clicks inside one navigate there
+        const embed = target.closest('[data-note-embed]');
+        if (embed) {
+            navigateToMention(target.closest('.note-mention-valid') || embed);
+            return;
+        }
+
         // Handle image clicks - open image editor
         const img = target.closest('img[data-image-url]') as HTMLImageElement;
         if (img) {
@@ -1926,12 +2111,7 @@ sys.stderr = StringIO()
         // Handle @ mention clicks - navigate to linked note
         const mention = target.closest('.note-mention-valid') as HTMLSpanElement;
         if (mention) {
-            e.preventDefault();
-            e.stopPropagation();
-            const noteId = mention.getAttribute('data-note-id');
-            if (noteId && onNavigateToNote) {
-                onNavigateToNote(noteId);
-            }
+            navigateToMention(mention);
             return;
         }
 
@@ -1962,11 +2142,12 @@ sys.stderr = StringIO()
     }, [handleUpdateCell, onNavigateToNote]);
 
     // Toolbar button component
-    const ToolbarButton = ({ icon: Icon, label, onClick, disabled = false, title }: {
+    const ToolbarButton = ({ icon: Icon, label, onClick, disabled = false, active = false, title }: {
         icon: any;
         label?: string;
         onClick: () => void;
         disabled?: boolean;
+        active?: boolean;
         title: string;
     }) => (
         <button
@@ -1976,7 +2157,8 @@ sys.stderr = StringIO()
                 "flex items-center gap-1.5 px-2 py-1.5 rounded-md text-sm transition-colors",
                 disabled
                     ? "text-gray-300 dark:text-gray-600 cursor-not-allowed"
-                    : "text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    : "text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700",
+                active && "bg-gray-100 dark:bg-gray-700"
             )}
             title={title}
         >
@@ -2009,6 +2191,7 @@ sys.stderr = StringIO()
                 <div className="flex items-center justify-between px-4 py-2">
                     <div className="flex items-center gap-1">
                         <ToolbarButton icon={Save} onClick={() => saveNotebook(notebook)} title="Save (Ctrl+S)" />
+                        <ToolbarButton icon={FastForward} onClick={handleRunAllCells} disabled={notebook.cells.every(c => c.type !== 'code')} title="Run all cells" />
                         <div className="w-px h-6 bg-gray-200 dark:bg-gray-700 mx-1" />
                         <ToolbarButton icon={Plus} onClick={() => handleAddCell('markdown', 'below')} title="Add cell below (B)" />
                         <ToolbarButton icon={Scissors} onClick={handleCutCell} disabled={!selectedCellId} title="Cut cell (X)" />
@@ -2021,6 +2204,41 @@ sys.stderr = StringIO()
                         <ToolbarButton icon={RotateCcw} onClick={handleUndoDelete} disabled={deletedCells.length === 0} title="Undo delete (Z)" />
                         <div className="w-px h-6 bg-gray-200 dark:bg-gray-700 mx-1" />
 
+                        {/* Python packages */}
+                        <NotebookPackagesMenu
+                            requirements={notebook.requirements || []}
+                            statuses={packageStatuses}
+                            accentColor={accentColor}
+                            onAdd={handleAddPackages}
+                            onRemove={handleRemovePackage}
+                            onRetry={requirement => installPackages([requirement])}
+                        />
+
+                        {/* Kernel controls and variables */}
+                        <KernelMenu
+                            busy={runningCell !== null}
+                            onInterrupt={handleInterruptKernel}
+                            onRestart={handleRestartKernel}
+                            onRestartAndRunAll={handleRestartAndRunAll}
+                        />
+                        <ToolbarButton icon={Variable} onClick={() => setShowVariables(v => !v)} active={showVariables} title="Variables" />
+
+                        {/* JavaScript sandbox settings */}
+                        <JsSandboxMenu
+                            timeoutSeconds={notebook.jsTimeoutSeconds}
+                            allowAppAccess={notebook.jsAppAccess}
+                            onChange={handleJsSettingsChange}
+                        />
+
+                        {/* Interpreters on this computer */}
+                        <LocalKernelsMenu
+                            filePath={filePath}
+                            useSystemPython={notebook.localPython}
+                            timeoutSeconds={notebook.localTimeoutSeconds}
+                            memoryMb={notebook.localMemoryMb}
+                            onChange={handleLocalSettingsChange}
+                        />
+
                         {/* AI Backbone Generator Button */}
                         <ToolbarButton icon={Wand2} onClick={() => setShowAiBackboneModal(true)} title="AI Backbone Generator - Create note structures" />
 
@@ -2172,467 +2390,486 @@ sys.stderr = StringIO()
                 </div>
             </div>
 
-            {/* Cells Container */}
-            <div ref={scrollContainerRef} className="flex-1 overflow-y-auto scrollbar-none bg-white dark:bg-gray-900">
-                <div className="w-full max-w-[95%] xl:max-w-[80rem] mx-auto py-6 px-4 xl:px-8">
-                    <AnimatePresence>
-                        {notebook.cells.map((cell, index) => {
-                            const isSelected = selectedCellId === cell.id;
-                            const isEditing = isSelected && cellMode === 'edit';
-
-                            return (
-                                <motion.div
-                                    key={cell.id}
-                                    layout
-                                    initial={{ opacity: 0, y: 10 }}
-                                    animate={{ opacity: 1, y: 0 }}
-                                    exit={{ opacity: 0, y: -10 }}
-                                    className="group relative flex mb-2"
-                                    onClick={() => {
-                                        // Don't select cell if user is selecting text
-                                        const selection = window.getSelection();
-                                        if (selection && selection.toString().length > 0) {
-                                            return;
-                                        }
-
-                                        setSelectedCellId(cell.id);
-                                        if (cellMode === 'edit') {
-                                            textareaRefs.current[cell.id]?.focus();
-                                        }
-                                    }}
-                                >
-                                    {/* Left side - Execution count */}
-                                    <div className="flex-shrink-0 w-16 flex items-start justify-end pr-2 pt-2">
-                                        {cell.type === 'code' && (
-                                            <span className="text-xs font-mono text-gray-400">
-                                                [{index + 1}]:
-                                            </span>
-                                        )}
-                                    </div>
-
-                                    {/* Selection indicator bar */}
-                                    <div
-                                        className={clsx(
-                                            "w-1 rounded-full mr-2 transition-colors",
-                                            !isSelected && "bg-transparent group-hover:bg-gray-200 dark:group-hover:bg-gray-700"
-                                        )}
-                                        style={{
-                                            backgroundColor: isSelected
-                                                ? cellMode === 'command'
-                                                    ? accentColor
-                                                    : '#22c55e'
-                                                : undefined
+            <div className="flex-1 flex min-h-0">
+                {/* Cells Container */}
+                <div ref={scrollContainerRef} className="flex-1 overflow-y-auto scrollbar-none bg-white dark:bg-gray-900">
+                    <div className="w-full max-w-[95%] xl:max-w-[80rem] mx-auto py-6 px-4 xl:px-8">
+                        <AnimatePresence>
+                            {notebook.cells.map((cell, index) => {
+                                const isSelected = selectedCellId === cell.id;
+                                const isEditing = isSelected && cellMode === 'edit';
+
+                                return (
+                                    <motion.div
+                                        key={cell.id}
+                                        data-cell-id={cell.id}
+                                        layout
+                                        initial={{ opacity: 0, y: 10 }}
+                                        animate={{ opacity: 1, y: 0 }}
+                                        exit={{ opacity: 0, y: -10 }}
+                                        className="group relative flex mb-2"
+                                        onClick={() => {
+                                            // Don't select cell if user is selecting text
+                                            const selection = window.getSelection();
+                                            if (selection && selection.toString().length > 0) {
+                                                return;
+                                            }
+
+                                            setSelectedCellId(cell.id);
+                                            if (cellMode === 'edit') {
+                                                textareaRefs.current[cell.id]?.focus();
+                                            }
                                         }}
-                                    />
-
-                                    {/* Cell Content */}
-                                    <div className="flex-1 min-w-0">
-                                        {/* Code cell header */}
-                                        {cell.type === 'code' && (
-                                            <div className="flex items-center gap-2 mb-1">
-                                                <span className="text-xs font-mono px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400">
-                                                    {detectLanguage(cell.content)}
+                                    >
+                                        {/* Left side - Execution count */}
+                                        <div className="flex-shrink-0 w-16 flex items-start justify-end pr-2 pt-2">
+                                            {cell.type === 'code' && (
+                                                <span className="text-xs font-mono text-gray-400">
+                                                    [{cell.isExecuting ? '*' : cell.executionCount ?? ' '}]:
                                                 </span>
-                                                {['python', 'py'].includes(detectLanguage(cell.content).toLowerCase()) && (
-                                                    <span className={clsx(
-                                                        "text-xs px-2 py-0.5 rounded",
-                                                        pyodideLoading
-                                                            ? "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-600 dark:text-yellow-400"
-                                                            : pyodideReady
-                                                                ? "bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400"
-                                                                : "bg-gray-100 dark:bg-gray-700 text-gray-500"
-                                                    )}>
-                                                        {pyodideLoading ? "Loading Python..." : pyodideReady ? "Python Ready" : "Python (click Run)"}
+                                            )}
+                                        </div>
+
+                                        {/* Selection indicator bar */}
+                                        <div
+                                            className={clsx(
+                                                "w-1 rounded-full mr-2 transition-colors",
+                                                !isSelected && "bg-transparent group-hover:bg-gray-200 dark:group-hover:bg-gray-700"
+                                            )}
+                                            style={{
+                                                backgroundColor: isSelected
+                                                    ? cellMode === 'command'
+                                                        ? accentColor
+                                                        : '#22c55e'
+                                                    : undefined
+                                            }}
+                                        />
+
+                                        {/* Cell Content */}
+                                        <div className="flex-1 min-w-0">
+                                            {/* Code cell header */}
+                                            {cell.type === 'code' && (
+                                                <div className="flex items-center gap-2 mb-1">
+                                                    <span className="text-xs font-mono px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400">
+                                                        {detectLanguage(cell.content, cell.language)}
                                                     </span>
-                                                )}
-                                                {/* Run button */}
-                                                <button
-                                                    onClick={(e) => {
-                                                        e.stopPropagation();
-                                                        handleRunCell(cell.id);
-                                                    }}
-                                                    disabled={cell.isExecuting}
-                                                    className={clsx(
-                                                        "p-1 rounded transition-colors",
-                                                        cell.isExecuting
-                                                            ? "text-gray-400 cursor-not-allowed"
-                                                            : "text-gray-500 hover:text-green-500 hover:bg-green-50 dark:hover:bg-green-900/20"
-                                                    )}
-                                                    title="Run cell (Ctrl+Enter)"
-                                                >
-                                                    {cell.isExecuting ? (
-                                                        <Square className="w-4 h-4" />
-                                                    ) : (
-                                                        <Play className="w-4 h-4" />
+                                                    {!notebook.localPython && ['python', 'py'].includes(detectLanguage(cell.content, cell.language).toLowerCase()) && (
+                                                        <span className={clsx(
+                                                            "text-xs px-2 py-0.5 rounded",
+                                                            pyodideLoading
+                                                                ? "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-600 dark:text-yellow-400"
+                                                                : pyodideReady
+                                                                    ? "bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400"
+                                                                    : "bg-gray-100 dark:bg-gray-700 text-gray-500"
+                                                        )}>
+                                                            {pyodideLoading ? "Loading Python..." : pyodideReady ? "Python Ready" : "Python (click Run)"}
+                                                        </span>
                                                     )}
-                                                </button>
-                                                {/* Duplicate button */}
-                                                <button
-                                                    onClick={(e) => {
-                                                        e.stopPropagation();
-                                                        const cellToCopy = notebook.cells.find(c => c.id === cell.id);
-                                                        if (cellToCopy) {
-                                                            setClipboard({ ...cellToCopy });
-                                                            const cellIndex = notebook.cells.findIndex(c => c.id === cell.id);
-                                                            const newCell: NerdCell = {
-                                                                ...cellToCopy,
-                                                                id: crypto.randomUUID(),
-                                                                createdAt: new Date().toISOString(),
-                                                            };
-                                                            const newCells = [
-                                                                ...notebook.cells.slice(0, cellIndex + 1),
-                                                                newCell,
-                                                                ...notebook.cells.slice(cellIndex + 1)
-                                                            ];
-                                                            setNotebook({
-                                                                ...notebook,
-                                                                cells: newCells,
-                                                                updatedAt: new Date().toISOString(),
-                                                            });
-                                                            setSelectedCellId(newCell.id);
+                                                    {/* Run button */}
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            if (runningCell?.id === cell.id) handleInterruptKernel();
+                                                            else handleRunCell(cell.id);
+                                                        }}
+                                                        disabled={cell.isExecuting && runningCell?.id !== cell.id}
+                                                        className={clsx(
+                                                            "p-1 rounded transition-colors",
+                                                            runningCell?.id === cell.id
+                                                                ? "text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
+                                                                : cell.isExecuting
+                                                                    ? "text-gray-400 cursor-not-allowed"
+                                                                    : "text-gray-500 hover:text-green-500 hover:bg-green-50 dark:hover:bg-green-900/20"
+                                                        )}
+                                                        title={runningCell?.id === cell.id ? "Interrupt cell" : "Run cell (Ctrl+Enter)"}
+                                                    >
+                                                        {cell.isExecuting ? (
+                                                            <Square className="w-4 h-4" />
+                                                        ) : (
+                                                            <Play className="w-4 h-4" />
+                                                        )}
+                                                    </button>
+                                                    {/* Duplicate button */}
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            const cellToCopy = notebook.cells.find(c => c.id === cell.id);
+                                                            if (cellToCopy) {
+                                                                setClipboard({ ...cellToCopy });
+                                                                const cellIndex = notebook.cells.findIndex(c => c.id === cell.id);
+                                                                const newCell: NerdCell = {
+                                                                    ...cellToCopy,
+                                                                    id: crypto.randomUUID(),
+                                                                    createdAt: new Date().toISOString(),
+                                                                };
+                                                                const newCells = [
+                                                                    ...notebook.cells.slice(0, cellIndex + 1),
+                                                                    newCell,
+                                                                    ...notebook.cells.slice(cellIndex + 1)
+                                                                ];
+                                                                setNotebook({
+                                                                    ...notebook,
+                                                                    cells: newCells,
+                                                                    updatedAt: new Date().toISOString(),
+                                                                });
+                                                                setSelectedCellId(newCell.id);
+                                                            }
+                                                        }}
+                                                        className="p-1 rounded transition-colors text-gray-500 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                                                        title="Duplicate cell"
+                                                    >
+                                                        <Copy className="w-4 h-4" />
+                                                    </button>
+                                                    {/* Move up button */}
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            handleMoveCell(cell.id, 'up');
+                                                        }}
+                                                        disabled={index === 0}
+                                                        className={clsx(
+                                                            "p-1 rounded transition-colors",
+                                                            index === 0
+                                                                ? "text-gray-300 dark:text-gray-600 cursor-not-allowed"
+                                                                : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                                                        )}
+                                                        title="Move cell up"
+                                                    >
+                                                        <ArrowUp className="w-4 h-4" />
+                                                    </button>
+                                                    {/* Move down button */}
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            handleMoveCell(cell.id, 'down');
+                                                        }}
+                                                        disabled={index === notebook.cells.length - 1}
+                                                        className={clsx(
+                                                            "p-1 rounded transition-colors",
+                                                            index === notebook.cells.length - 1
+                                                                ? "text-gray-300 dark:text-gray-600 cursor-not-allowed"
+                                                                : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                                                        )}
+                                                        title="Move cell down"
+                                                    >
+                                                        <ArrowDown className="w-4 h-4" />
+                                                    </button>
+                                                    {/* Add cell button */}
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            handleAddCell('markdown', 'below', cell.id);
+                                                        }}
+                                                        className="p-1 rounded transition-colors text-gray-500 hover:text-green-500 hover:bg-green-50 dark:hover:bg-green-900/20"
+                                                        title="Add cell below"
+                                                    >
+                                                        <Plus className="w-4 h-4" />
+                                                    </button>
+                                                    {/* Cell Type Selector */}
+                                                    <select
+                                                        value={cell.type}
+                                                        onChange={(e) => {
+                                                            e.stopPropagation();
+                                                            handleChangeCellType(cell.id, e.target.value as NerdCellType);
+                                                        }}
+                                                        onClick={(e) => e.stopPropagation()}
+                                                        className="px-1.5 py-1 rounded text-xs bg-gray-100 dark:bg-gray-700 border-none focus:outline-none text-gray-600 dark:text-gray-300 cursor-pointer hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                                                        title="Cell type"
+                                                    >
+                                                        <option value="code">Code</option>
+                                                        <option value="markdown">Markdown</option>
+                                                        <option value="text">Text</option>
+                                                    </select>
+                                                    {/* Delete cell button */}
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            handleDeleteCell(cell.id);
+                                                        }}
+                                                        disabled={notebook.cells.length <= 1}
+                                                        className={clsx(
+                                                            "p-1 rounded transition-colors",
+                                                            notebook.cells.length <= 1
+                                                                ? "text-gray-300 dark:text-gray-600 cursor-not-allowed"
+                                                                : "text-gray-500 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
+                                                        )}
+                                                        title="Delete cell"
+                                                    >
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </button>
+                                                </div>
+                                            )}
+
+                                            {/* Non-code cell controls */}
+                                            {cell.type !== 'code' && (
+                                                <div className="flex items-center gap-1 mb-1">
+                                                    {/* Duplicate button */}
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            const cellToCopy = notebook.cells.find(c => c.id === cell.id);
+                                                            if (cellToCopy) {
+                                                                setClipboard({ ...cellToCopy });
+                                                                const cellIndex = notebook.cells.findIndex(c => c.id === cell.id);
+                                                                const newCell: NerdCell = {
+                                                                    ...cellToCopy,
+                                                                    id: crypto.randomUUID(),
+                                                                    createdAt: new Date().toISOString(),
+                                                                };
+                                                                const newCells = [
+                                                                    ...notebook.cells.slice(0, cellIndex + 1),
+                                                                    newCell,
+                                                                    ...notebook.cells.slice(cellIndex + 1)
+                                                                ];
+                                                                setNotebook({
+                                                                    ...notebook,
+                                                                    cells: newCells,
+                                                                    updatedAt: new Date().toISOString(),
+                                                                });
+                                                                setSelectedCellId(newCell.id);
+                                                            }
+                                                        }}
+                                                        className="p-1 rounded transition-colors text-gray-500 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                                                        title="Duplicate cell"
+                                                    >
+                                                        <Copy className="w-4 h-4" />
+                                                    </button>
+                                                    {/* Move up button */}
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            handleMoveCell(cell.id, 'up');
+                                                        }}
+                                                        disabled={index === 0}
+                                                        className={clsx(
+                                                            "p-1 rounded transition-colors",
+                                                            index === 0
+                                                                ? "text-gray-300 dark:text-gray-600 cursor-not-allowed"
+                                                                : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                                                        )}
+                                                        title="Move cell up"
+                                                    >
+                                                        <ArrowUp className="w-4 h-4" />
+                                                    </button>
+                                                    {/* Move down button */}
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            handleMoveCell(cell.id, 'down');
+                                                        }}
+                                                        disabled={index === notebook.cells.length - 1}
+                                                        className={clsx(
+                                                            "p-1 rounded transition-colors",
+                                                            index === notebook.cells.length - 1
+                                                                ? "text-gray-300 dark:text-gray-600 cursor-not-allowed"
+                                                                : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                                                        )}
+                                                        title="Move cell down"
+                                                    >
+                                                        <ArrowDown className="w-4 h-4" />
+                                                    </button>
+                                                    {/* Add cell button */}
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            handleAddCell('markdown', 'below', cell.id);
+                                                        }}
+                                                        className="p-1 rounded transition-colors text-gray-500 hover:text-green-500 hover:bg-green-50 dark:hover:bg-green-900/20"
+                                                        title="Add cell below"
+                                                    >
+                                                        <Plus className="w-4 h-4" />
+                                                    </button>
+                                                    {/* Cell Type Selector */}
+                                                    <select
+                                                        value={cell.type}
+                                                        onChange={(e) => {
+                                                            e.stopPropagation();
+                                                            handleChangeCellType(cell.id, e.target.value as NerdCellType);
+                                                        }}
+                                                        onClick={(e) => e.stopPropagation()}
+                                                        className="px-1.5 py-1 rounded text-xs bg-gray-100 dark:bg-gray-700 border-none focus:outline-none text-gray-600 dark:text-gray-300 cursor-pointer hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                                                        title="Cell type"
+                                                    >
+                                                        <option value="code">Code</option>
+                                                        <option value="markdown">Markdown</option>
+                                                        <option value="text">Text</option>
+                                                    </select>
+                                                    {/* Delete cell button */}
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            handleDeleteCell(cell.id);
+                                                        }}
+                                                        disabled={notebook.cells.length <= 1}
+                                                        className={clsx(
+                                                            "p-1 rounded transition-colors",
+                                                            notebook.cells.length <= 1
+                                                                ? "text-gray-300 dark:text-gray-600 cursor-not-allowed"
+                                                                : "text-gray-500 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
+                                                        )}
+                                                        title="Delete cell"
+                                                    >
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </button>
+                                                </div>
+                                            )}
+
+                                            {isEditing ? (
+                                                <div className="relative">
+                                                    <textarea
+                                                        ref={(el) => {
+                                                            textareaRefs.current[cell.id] = el;
+                                                            if (el) autoResizeTextarea(el);
+                                                        }}
+                                                        value={cell.content}
+                                                        onChange={(e) => handleTextareaInput(e, cell.id, cell.type)}
+                                                        onKeyDown={(e) => handleSmartMarkdownKeyDown(e, cell.id, cell.type)}
+                                                        onPaste={(e) => handlePaste(e, cell.id, cell.type)}
+                                                        onContextMenu={(e) => handleContextMenu(e, cell.id, cell.type)}
+                                                        placeholder={
+                                                            cell.type === 'markdown'
+                                                                ? "Write markdown here... (Ctrl+B bold, Ctrl+I italic, @ to link notes, paste images)"
+                                                                : cell.type === 'code'
+                                                                    ? "// Write code here..."
+                                                                    : "Start typing..."
                                                         }
-                                                    }}
-                                                    className="p-1 rounded transition-colors text-gray-500 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20"
-                                                    title="Duplicate cell"
-                                                >
-                                                    <Copy className="w-4 h-4" />
-                                                </button>
-                                                {/* Move up button */}
-                                                <button
-                                                    onClick={(e) => {
-                                                        e.stopPropagation();
-                                                        handleMoveCell(cell.id, 'up');
-                                                    }}
-                                                    disabled={index === 0}
-                                                    className={clsx(
-                                                        "p-1 rounded transition-colors",
-                                                        index === 0
-                                                            ? "text-gray-300 dark:text-gray-600 cursor-not-allowed"
-                                                            : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
-                                                    )}
-                                                    title="Move cell up"
-                                                >
-                                                    <ArrowUp className="w-4 h-4" />
-                                                </button>
-                                                {/* Move down button */}
-                                                <button
-                                                    onClick={(e) => {
-                                                        e.stopPropagation();
-                                                        handleMoveCell(cell.id, 'down');
-                                                    }}
-                                                    disabled={index === notebook.cells.length - 1}
-                                                    className={clsx(
-                                                        "p-1 rounded transition-colors",
-                                                        index === notebook.cells.length - 1
-                                                            ? "text-gray-300 dark:text-gray-600 cursor-not-allowed"
-                                                            : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                                                        spellCheck={cell.type !== 'code'}
+                                                        className={clsx(
+                                                            "w-full resize-none focus:outline-none",
+                                                            cell.type === 'code'
+                                                                ? clsx(
+                                                                    "font-mono text-sm rounded-lg px-4 py-3",
+                                                                    useCodeDarkTheme
+                                                                        ? "bg-gray-900 text-gray-100 placeholder-gray-500"
+                                                                        : "bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder-gray-400"
+                                                                )
+                                                                : "bg-transparent py-2 text-gray-900 dark:text-gray-100 placeholder-gray-400"
+                                                        )}
+                                                        autoFocus
+                                                    />
+                                                    {/* @ Mention Autocomplete */}
+                                                    {mentionAutocomplete.isOpen && mentionAutocomplete.cellId === cell.id && (
+                                                        <MentionAutocomplete
+                                                            isOpen={true}
+                                                            suggestions={getMentionSuggestions(mentionAutocomplete.query, workspaceFiles, currentFileId)}
+                                                            selectedIndex={mentionAutocomplete.selectedIndex}
+                                                            position={mentionAutocomplete.position}
+                                                            onSelect={(suggestion) => handleMentionSelect(suggestion, cell.id)}
+                                                            onClose={() => setMentionAutocomplete(prev => ({ ...prev, isOpen: false }))}
+                                                            onNavigate={(direction) => {
+                                                                const suggestions = getMentionSuggestions(mentionAutocomplete.query, workspaceFiles, currentFileId);
+                                                                setMentionAutocomplete(prev => ({
+                                                                    ...prev,
+                                                                    selectedIndex: direction === 'up'
+                                                                        ? Math.max(prev.selectedIndex - 1, 0)
+                                                                        : Math.min(prev.selectedIndex + 1, suggestions.length - 1),
+                                                                }));
+                                                            }}
+                                                        />
                                                     )}
-                                                    title="Move cell down"
-                                                >
-                                                    <ArrowDown className="w-4 h-4" />
-                                                </button>
-                                                {/* Add cell button */}
-                                                <button
-                                                    onClick={(e) => {
-                                                        e.stopPropagation();
-                                                        handleAddCell('markdown', 'below', cell.id);
-                                                    }}
-                                                    className="p-1 rounded transition-colors text-gray-500 hover:text-green-500 hover:bg-green-50 dark:hover:bg-green-900/20"
-                                                    title="Add cell below"
-                                                >
-                                                    <Plus className="w-4 h-4" />
-                                                </button>
-                                                {/* Cell Type Selector */}
-                                                <select
-                                                    value={cell.type}
-                                                    onChange={(e) => {
-                                                        e.stopPropagation();
-                                                        handleChangeCellType(cell.id, e.target.value as NerdCellType);
-                                                    }}
-                                                    onClick={(e) => e.stopPropagation()}
-                                                    className="px-1.5 py-1 rounded text-xs bg-gray-100 dark:bg-gray-700 border-none focus:outline-none text-gray-600 dark:text-gray-300 cursor-pointer hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
-                                                    title="Cell type"
-                                                >
-                                                    <option value="code">Code</option>
-                                                    <option value="markdown">Markdown</option>
-                                                    <option value="text">Text</option>
-                                                </select>
-                                                {/* Delete cell button */}
-                                                <button
-                                                    onClick={(e) => {
-                                                        e.stopPropagation();
-                                                        handleDeleteCell(cell.id);
-                                                    }}
-                                                    disabled={notebook.cells.length <= 1}
+                                                </div>
+                                            ) : (
+                                                <div
                                                     className={clsx(
-                                                        "p-1 rounded transition-colors",
-                                                        notebook.cells.length <= 1
-                                                            ? "text-gray-300 dark:text-gray-600 cursor-not-allowed"
-                                                            : "text-gray-500 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
+                                                        "min-h-[2rem] cursor-text",
+                                                        cell.type !== 'code' && "py-2",
+                                                        !cell.content && "text-gray-400 italic"
                                                     )}
-                                                    title="Delete cell"
-                                                >
-                                                    <Trash2 className="w-4 h-4" />
-                                                </button>
-                                            </div>
-                                        )}
-
-                                        {/* Non-code cell controls */}
-                                        {cell.type !== 'code' && (
-                                            <div className="flex items-center gap-1 mb-1">
-                                                {/* Duplicate button */}
-                                                <button
                                                     onClick={(e) => {
-                                                        e.stopPropagation();
-                                                        const cellToCopy = notebook.cells.find(c => c.id === cell.id);
-                                                        if (cellToCopy) {
-                                                            setClipboard({ ...cellToCopy });
-                                                            const cellIndex = notebook.cells.findIndex(c => c.id === cell.id);
-                                                            const newCell: NerdCell = {
-                                                                ...cellToCopy,
-                                                                id: crypto.randomUUID(),
-                                                                createdAt: new Date().toISOString(),
-                                                            };
-                                                            const newCells = [
-                                                                ...notebook.cells.slice(0, cellIndex + 1),
-                                                                newCell,
-                                                                ...notebook.cells.slice(cellIndex + 1)
-                                                            ];
-                                                            setNotebook({
-                                                                ...notebook,
-                                                                cells: newCells,
-                                                                updatedAt: new Date().toISOString(),
-                                                            });
-                                                            setSelectedCellId(newCell.id);
+                                                        if (cell.type === 'markdown') {
+                                                            handlePreviewClick(e, cell.id, cell.content);
+                                                        } else {
+                                                            setSelectedCellId(cell.id);
+                                                            setCellMode('edit');
                                                         }
                                                     }}
-                                                    className="p-1 rounded transition-colors text-gray-500 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20"
-                                                    title="Duplicate cell"
-                                                >
-                                                    <Copy className="w-4 h-4" />
-                                                </button>
-                                                {/* Move up button */}
-                                                <button
-                                                    onClick={(e) => {
-                                                        e.stopPropagation();
-                                                        handleMoveCell(cell.id, 'up');
-                                                    }}
-                                                    disabled={index === 0}
-                                                    className={clsx(
-                                                        "p-1 rounded transition-colors",
-                                                        index === 0
-                                                            ? "text-gray-300 dark:text-gray-600 cursor-not-allowed"
-                                                            : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
-                                                    )}
-                                                    title="Move cell up"
-                                                >
-                                                    <ArrowUp className="w-4 h-4" />
-                                                </button>
-                                                {/* Move down button */}
-                                                <button
-                                                    onClick={(e) => {
-                                                        e.stopPropagation();
-                                                        handleMoveCell(cell.id, 'down');
-                                                    }}
-                                                    disabled={index === notebook.cells.length - 1}
-                                                    className={clsx(
-                                                        "p-1 rounded transition-colors",
-                                                        index === notebook.cells.length - 1
-                                                            ? "text-gray-300 dark:text-gray-600 cursor-not-allowed"
-                                                            : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
-                                                    )}
-                                                    title="Move cell down"
-                                                >
-                                                    <ArrowDown className="w-4 h-4" />
-                                                </button>
-                                                {/* Add cell button */}
-                                                <button
-                                                    onClick={(e) => {
-                                                        e.stopPropagation();
-                                                        handleAddCell('markdown', 'below', cell.id);
-                                                    }}
-                                                    className="p-1 rounded transition-colors text-gray-500 hover:text-green-500 hover:bg-green-50 dark:hover:bg-green-900/20"
-                                                    title="Add cell below"
-                                                >
-                                                    <Plus className="w-4 h-4" />
-                                                </button>
-                                                {/* Cell Type Selector */}
-                                                <select
-                                                    value={cell.type}
-                                                    onChange={(e) => {
-                                                        e.stopPropagation();
-                                                        handleChangeCellType(cell.id, e.target.value as NerdCellType);
-                                                    }}
-                                                    onClick={(e) => e.stopPropagation()}
-                                                    className="px-1.5 py-1 rounded text-xs bg-gray-100 dark:bg-gray-700 border-none focus:outline-none text-gray-600 dark:text-gray-300 cursor-pointer hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
-                                                    title="Cell type"
-                                                >
-                                                    <option value="code">Code</option>
-                                                    <option value="markdown">Markdown</option>
-                                                    <option value="text">Text</option>
-                                                </select>
-                                                {/* Delete cell button */}
-                                                <button
-                                                    onClick={(e) => {
-                                                        e.stopPropagation();
-                                                        handleDeleteCell(cell.id);
-                                                    }}
-                                                    disabled={notebook.cells.length <= 1}
-                                                    className={clsx(
-                                                        "p-1 rounded transition-colors",
-                                                        notebook.cells.length <= 1
-                                                            ? "text-gray-300 dark:text-gray-600 cursor-not-allowed"
-                                                            : "text-gray-500 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
-                                                    )}
-                                                    title="Delete cell"
                                                 >
-                                                    <Trash2 className="w-4 h-4" />
-                                                </button>
-                                            </div>
-                                        )}
-
-                                        {isEditing ? (
-                                            <div className="relative">
-                                                <textarea
-                                                    ref={(el) => {
-                                                        textareaRefs.current[cell.id] = el;
-                                                        if (el) autoResizeTextarea(el);
-                                                    }}
-                                                    value={cell.content}
-                                                    onChange={(e) => handleTextareaInput(e, cell.id, cell.type)}
-                                                    onKeyDown={(e) => handleSmartMarkdownKeyDown(e, cell.id, cell.type)}
-                                                    onPaste={(e) => handlePaste(e, cell.id, cell.type)}
-                                                    onContextMenu={(e) => handleContextMenu(e, cell.id, cell.type)}
-                                                    placeholder={
-                                                        cell.type === 'markdown'
-                                                            ? "Write markdown here... (Ctrl+B bold, Ctrl+I italic, @ to link notes, paste images)"
-                                                            : cell.type === 'code'
-                                                                ? "// Write code here..."
-                                                                : "Start typing..."
-                                                    }
-                                                    spellCheck={cell.type !== 'code'}
-                                                    className={clsx(
-                                                        "w-full resize-none focus:outline-none",
-                                                        cell.type === 'code'
-                                                            ? clsx(
-                                                                "font-mono text-sm rounded-lg px-4 py-3",
-                                                                useCodeDarkTheme
-                                                                    ? "bg-gray-900 text-gray-100 placeholder-gray-500"
-                                                                    : "bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder-gray-400"
-                                                            )
-                                                            : "bg-transparent py-2 text-gray-900 dark:text-gray-100 placeholder-gray-400"
-                                                    )}
-                                                    autoFocus
-                                                />
-                                                {/* @ Mention Autocomplete */}
-                                                {mentionAutocomplete.isOpen && mentionAutocomplete.cellId === cell.id && (
-                                                    <MentionAutocomplete
-                                                        isOpen={true}
-                                                        suggestions={getMentionSuggestions(mentionAutocomplete.query, workspaceFiles, currentFileId)}
-                                                        selectedIndex={mentionAutocomplete.selectedIndex}
-                                                        position={mentionAutocomplete.position}
-                                                        onSelect={(suggestion) => handleMentionSelect(suggestion, cell.id)}
-                                                        onClose={() => setMentionAutocomplete(prev => ({ ...prev, isOpen: false }))}
-                                                        onNavigate={(direction) => {
-                                                            const suggestions = getMentionSuggestions(mentionAutocomplete.query, workspaceFiles, currentFileId);
-                                                            setMentionAutocomplete(prev => ({
-                                                                ...prev,
-                                                                selectedIndex: direction === 'up'
-                                                                    ? Math.max(prev.selectedIndex - 1, 0)
-                                                                    : Math.min(prev.selectedIndex + 1, suggestions.length - 1),
-                                                            }));
-                                                        }}
-                                                    />
-                                                )}
-                                            </div>
-                                        ) : (
-                                            <div
-                                                className={clsx(
-                                                    "min-h-[2rem] cursor-text",
-                                                    cell.type !== 'code' && "py-2",
-                                                    !cell.content && "text-gray-400 italic"
-                                                )}
-                                                onClick={(e) => {
-                                                    if (cell.type === 'markdown') {
-                                                        handlePreviewClick(e, cell.id, cell.content);
-                                                    } else {
-                                                        setSelectedCellId(cell.id);
-                                                        setCellMode('edit');
-                                                    }
-                                                }}
-                                            >
-                                                {cell.content ? (
-                                                    cell.type === 'markdown' ? (
-                                                        <div
-                                                            className="prose dark:prose-invert prose-sm max-w-none"
-                                                            dangerouslySetInnerHTML={{
-                                                                __html: renderMarkdownPreview(cell.content, cell.id)
-                                                            }}
-                                                        />
-                                                    ) : cell.type === 'code' ? (
-                                                        <pre className={clsx(
-                                                            "rounded-lg px-4 py-3 overflow-x-auto font-mono text-sm",
-                                                            useCodeDarkTheme
-                                                                ? "bg-gray-900 text-gray-100"
-                                                                : "bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100"
-                                                        )}>
-                                                            <code
+                                                    {cell.content ? (
+                                                        cell.type === 'markdown' ? (
+                                                            <div
+                                                                className="prose dark:prose-invert prose-sm max-w-none"
                                                                 dangerouslySetInnerHTML={{
-                                                                    __html: highlightCode(cell.content, detectLanguage(cell.content))
+                                                                    __html: renderMarkdownPreview(cell.content, cell.id)
                                                                 }}
                                                             />
-                                                        </pre>
+                                                        ) : cell.type === 'code' ? (
+                                                            <pre className={clsx(
+                                                                "rounded-lg px-4 py-3 overflow-x-auto font-mono text-sm",
+                                                                useCodeDarkTheme
+                                                                    ? "bg-gray-900 text-gray-100"
+                                                                    : "bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                                                            )}>
+                                                                <code
+                                                                    dangerouslySetInnerHTML={{
+                                                                        __html: highlightCode(cell.content, detectLanguage(cell.content, cell.language))
+                                                                    }}
+                                                                />
+                                                            </pre>
+                                                        ) : (
+                                                            <div className="whitespace-pre-wrap text-gray-700 dark:text-gray-300">
+                                                                {cell.content}
+                                                            </div>
+                                                        )
                                                     ) : (
-                                                        <div className="whitespace-pre-wrap text-gray-700 dark:text-gray-300">
-                                                            {cell.content}
-                                                        </div>
-                                                    )
-                                                ) : (
-                                                    <span>Click to edit...</span>
-                                                )}
-                                            </div>
-                                        )}
-
-                                        {/* Cell output */}
-                                        {cell.output && (
-                                            <div className={clsx(
-                                                "mt-2 rounded-lg px-4 py-3 font-mono text-sm overflow-x-auto",
-                                                useCodeDarkTheme
-                                                    ? clsx(
-                                                        "bg-gray-900",
-                                                        cell.executionError
-                                                            ? "border border-red-500/50 text-red-400"
-                                                            : "text-green-400"
-                                                    )
-                                                    : clsx(
-                                                        "bg-gray-100",
-                                                        cell.executionError
-                                                            ? "border border-red-500/50 text-red-600"
-                                                            : "text-green-600"
-                                                    )
-                                            )}>
-                                                <pre className="whitespace-pre-wrap">{cell.output}</pre>
-                                            </div>
-                                        )}
-                                    </div>
-
-
-                                </motion.div>
-                            );
-                        })}
-                    </AnimatePresence>
-
-                    {/* Add cell button at bottom */}
-                    <div className="flex justify-center mt-4">
-                        <button
-                            onClick={() => handleAddCell('markdown', 'below')}
-                            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
-                        >
-                            <Plus className="w-4 h-4" />
-                            Add cell
-                        </button>
+                                                        <span>Click to edit...</span>
+                                                    )}
+                                                </div>
+                                            )}
+
+                                            {/* Cell output */}
+                                            {cell.output && (
+                                                <div className={clsx(
+                                                    "mt-2 rounded-lg px-4 py-3 font-mono text-sm overflow-x-auto",
+                                                    useCodeDarkTheme
+                                                        ? clsx(
+                                                            "bg-gray-900",
+                                                            cell.executionError
+                                                                ? "border border-red-500/50 text-red-400"
+                                                                : "text-green-400"
+                                                        )
+                                                        : clsx(
+                                                            "bg-gray-100",
+                                                            cell.executionError
+                                                                ? "border border-red-500/50 text-red-600"
+                                                                : "text-green-600"
+                                                        )
+                                                )}>
+                                                    <pre className="whitespace-pre-wrap">{cell.output}</pre>
+                                                </div>
+                                            )}
+                                            {cell.outputs && cell.outputs.length > 0 && (
+                                                <CellOutputs outputs={cell.outputs} dark={useCodeDarkTheme} />
+                                            )}
+                                        </div>
+
+
+                                    </motion.div>
+                                );
+                            })}
+                        </AnimatePresence>
+
+                        {/* Add cell button at bottom */}
+                        <div className="flex justify-center mt-4">
+                            <button
+                                onClick={() => handleAddCell('markdown', 'below')}
+                                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                            >
+                                <Plus className="w-4 h-4" />
+                                Add cell
+                            </button>
+                        </div>
                     </div>
                 </div>
+
+                {/* Variable inspector */}
+                {showVariables && (
+                    <VariableInspector
+                        python={variables.python}
+                        javascript={variables.javascript}
+                        onRefresh={refreshVariables}
+                        onClose={() => setShowVariables(false)}
+                    />
+                )}
             </div>
 
             {/* AI Backbone Modal */}
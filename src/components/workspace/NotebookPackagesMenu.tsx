@@ -0,0 +1,151 @@
+/**
+ * NotebookPackagesMenu
+ *
+ * Toolbar dropdown listing the Python packages a Nerdbook needs. They're
+ * installed with micropip when the notebook opens; packages downloaded once
+ * come from the local cache afterwards, so they work offline.
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Package, ChevronDown, Loader2, Check, AlertCircle, RotateCcw, X, Plus } from 'lucide-react';
+import clsx from 'clsx';
+import { requirementName } from '../../utils/pyodideRuntime';
+
+export interface PackageStatus {
+    state: 'installing' | 'installed' | 'failed';
+    error?: string;
+}
+
+interface NotebookPackagesMenuProps {
+    requirements: string[];
+    statuses: Record<string, PackageStatus>;   // By requirementName
+    accentColor: string;
+    onAdd: (text: string) => void;
+    onRemove: (requirement: string) => void;
+    onRetry: (requirement: string) => void;
+}
+
+export function NotebookPackagesMenu({ requirements, statuses, accentColor, onAdd, onRemove, onRetry }: NotebookPackagesMenuProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [input, setInput] = useState('');
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (e: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const installing = requirements.some(r => statuses[requirementName(r)]?.state === 'installing');
+    const failed = requirements.some(r => statuses[requirementName(r)]?.state === 'failed');
+
+    const handleAdd = () => {
+        if (!input.trim()) return;
+        onAdd(input);
+        setInput('');
+    };
+
+    return (
+        <div className="relative" ref={menuRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center gap-1.5 px-2 py-1 rounded-md text-sm transition-colors bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
+                title="Python packages"
+            >
+                {installing
+                    ? <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                    : failed
+                        ? <AlertCircle className="w-3.5 h-3.5 text-red-500" />
+                        : <Package className="w-3.5 h-3.5" />}
+                <span className="text-xs">
+                    {requirements.length > 0 ? `${requirements.length} ${requirements.length === 1 ? 'package' : 'packages'}` : 'Packages'}
+                </span>
+                <ChevronDown className="w-3 h-3" />
+            </button>
+
+            <AnimatePresence>
+                {isOpen && (
+                    <motion.div
+                        initial={{ opacity: 0, y: -5 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -5 }}
+                        className="absolute top-full left-0 mt-1 w-72 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 p-3 z-50"
+                    >
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                            Installed when this notebook opens. Packages downloaded once also work offline.
+                        </p>
+
+                        {requirements.length > 0 && (
+                            <div className="space-y-1 mb-3 max-h-56 overflow-y-auto">
+                                {requirements.map(requirement => {
+                                    const status = statuses[requirementName(requirement)];
+                                    return (
+                                        <div key={requirement} className="group flex items-center gap-2 text-sm" title={status?.error}>
+                                            {status?.state === 'installing' && <Loader2 className="w-3.5 h-3.5 animate-spin text-gray-400 shrink-0" />}
+                                            {status?.state === 'installed' && <Check className="w-3.5 h-3.5 text-green-500 shrink-0" />}
+                                            {status?.state === 'failed' && <AlertCircle className="w-3.5 h-3.5 text-red-500 shrink-0" />}
+                                            {!status && <Package className="w-3.5 h-3.5 text-gray-400 shrink-0" />}
+                                            <span className="flex-1 min-w-0 truncate font-mono text-xs text-gray-800 dark:text-gray-200">{requirement}</span>
+                                            {status?.state === 'failed' && (
+                                                <button
+                                                    onClick={() => onRetry(requirement)}
+                                                    className="p-0.5 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                                                    title="Try again"
+                                                >
+                                                    <RotateCcw className="w-3.5 h-3.5" />
+                                                </button>
+                                            )}
+                                            <button
+                                                onClick={() => onRemove(requirement)}
+                                                className="p-0.5 rounded text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                                                title="Remove"
+                                            >
+                                                <X className="w-3.5 h-3.5" />
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                        {failed && (
+                            <p className="text-xs text-red-500 mb-2">
+                                Some packages couldn't be installed. Hover one to see why.
+                            </p>
+                        )}
+
+                        <div className="flex items-center gap-1.5">
+                            <input
+                                value={input}
+                                onChange={e => setInput(e.target.value)}
+                                onKeyDown={e => {
+                                    if (e.key === 'Enter') handleAdd();
+                                    if (e.key === 'Escape') setIsOpen(false);
+                                }}
+                                placeholder="numpy, pandas>=2.0"
+                                className="flex-1 min-w-0 px-2 py-1 text-xs font-mono rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 focus:outline-none"
+                            />
+                            <button
+                                onClick={handleAdd}
+                                disabled={!input.trim()}
+                                className={clsx(
+                                    "p-1 rounded text-white transition-opacity",
+                                    !input.trim() && "opacity-50 cursor-not-allowed"
+                                )}
+                                style={{ backgroundColor: accentColor }}
+                                title="Add and install"
+                            >
+                                <Plus className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+}
+
+export default NotebookPackagesMenu;
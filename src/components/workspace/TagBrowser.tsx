@@ -0,0 +1,100 @@
+/**
+ * TagBrowser
+ *
+ * Collapsible pane at the bottom of the file tree listing every tag in the
+ * workspace as a nested tree with file counts. Clicking a tag filters the
+ * file tree (and the graph) to files with that tag or one nested under it.
+ */
+
+import { useMemo, useState } from 'react';
+import { ChevronRight, ChevronDown, Hash, Tags } from 'lucide-react';
+import clsx from 'clsx';
+import { TagTreeNode, buildTagTree } from '../../utils/fileMetadata';
+
+interface TagBrowserProps {
+    tagsByFile: Record<string, string[]>;
+    activeTag: string | null;
+    onSelectTag: (tag: string | null) => void;
+}
+
+export function TagBrowser({ tagsByFile, activeTag, onSelectTag }: TagBrowserProps) {
+    const [isOpen, setIsOpen] = useState(() => localStorage.getItem('workspace-tag-browser-open') === 'true');
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+    const tree = useMemo(() => buildTagTree(tagsByFile), [tagsByFile]);
+
+    const toggleOpen = () => {
+        setIsOpen(!isOpen);
+        localStorage.setItem('workspace-tag-browser-open', String(!isOpen));
+    };
+
+    const toggleExpanded = (tag: string) => {
+        setExpanded(prev => {
+            const next = new Set(prev);
+            if (next.has(tag)) next.delete(tag);
+            else next.add(tag);
+            return next;
+        });
+    };
+
+    const renderNode = (node: TagTreeNode, depth: number): React.ReactNode => {
+        const isExpanded = expanded.has(node.tag);
+        return (
+            <div key={node.tag}>
+                <div
+                    className={clsx(
+                        'flex items-center gap-1 pr-2 py-1 text-xs cursor-pointer rounded-md mx-1',
+                        activeTag === node.tag
+                            ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                            : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700/50'
+                    )}
+                    style={{ paddingLeft: 6 + depth * 12 }}
+                    onClick={() => onSelectTag(activeTag === node.tag ? null : node.tag)}
+                >
+                    {node.children.length > 0 ? (
+                        <button
+                            onClick={e => {
+                                e.stopPropagation();
+                                toggleExpanded(node.tag);
+                            }}
+                            className="p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+                        >
+                            {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                        </button>
+                    ) : (
+                        <Hash className="w-3 h-3 mx-0.5 text-gray-400" />
+                    )}
+                    <span className="flex-1 truncate">{node.name}</span>
+                    <span className="text-gray-400">{node.fileIds.length}</span>
+                </div>
+                {isExpanded && node.children.map(child => renderNode(child, depth + 1))}
+            </div>
+        );
+    };
+
+    return (
+        <div className="border-t border-gray-100 dark:border-gray-700/50 shrink-0">
+            <button
+                onClick={toggleOpen}
+                className="w-full flex items-center gap-1.5 px-3 py-2 text-xs font-medium text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+            >
+                {isOpen ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+                <Tags className="w-3.5 h-3.5" />
+                <span className="flex-1 text-left">Tags</span>
+                {tree.length > 0 && <span className="text-gray-400">{tree.length}</span>}
+            </button>
+            {isOpen && (
+                <div className="max-h-48 overflow-y-auto pb-2 custom-scrollbar">
+                    {tree.length === 0 ? (
+                        <p className="px-3 py-2 text-xs text-gray-400 dark:text-gray-500">
+                            No tags yet. Add #tags to your notes or tag files from their context menu.
+                        </p>
+                    ) : (
+                        tree.map(node => renderNode(node, 0))
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default TagBrowser;
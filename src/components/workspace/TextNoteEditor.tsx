@@ -1,16 +1,27 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { motion } from 'framer-motion';
+import { Link2 } from 'lucide-react';
 import clsx from 'clsx';
+import { WorkspaceFile } from '../../types/workspace';
+import { MentionAnchor, formatAnchor, parseMentions } from '../../utils/noteLinking';
+import { extractHeadingBlocks, resolveReferenceBlock } from '../../utils/blockRefs';
+import { useEmbeddedBlocks } from '../../hooks/useEmbeddedBlocks';
 
 interface TextNoteEditorProps {
     content: string;
     onChange: (content: string) => void;
     autoSaveDelay?: number;
+    // Workspace files, for resolving !@ embeds
+    files?: WorkspaceFile[];
+    // Heading to select when opened through an @note#Heading reference
+    focusAnchor?: MentionAnchor;
+    onNavigateToNote?: (fileId: string, anchor?: MentionAnchor) => void;
 }
 
 /**
  * TextNoteEditor component provides a simple textarea-based editor for .note files.
  * Features auto-save on content change with debounce.
+ * Blocks embedded with !@ are shown live below the text.
  * 
  * Requirements: 8.3
  */
@@ -18,11 +29,21 @@ export function TextNoteEditor({
     content,
     onChange,
     autoSaveDelay = 500,
+    files = [],
+    focusAnchor,
+    onNavigateToNote,
 }: TextNoteEditorProps) {
     const [localContent, setLocalContent] = useState(content);
+    const containerRef = useRef<HTMLDivElement>(null);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
+    const getEmbeddedBlock = useEmbeddedBlocks([localContent], files);
+    const embeds = useMemo(
+        () => localContent.includes('!@') ? parseMentions(localContent, files).filter(m => m.isEmbed) : [],
+        [localContent, files]
+    );
+
     // Sync local content when prop changes (e.g., switching files)
     useEffect(() => {
         setLocalContent(content);
@@ -42,6 +63,25 @@ export function TextNoteEditor({
         autoResize();
     }, [localContent, autoResize]);
 
+    // Select the heading a reference points at and scroll it into view
+    useEffect(() => {
+        const textarea = textareaRef.current;
+        if (!focusAnchor || focusAnchor.kind !== 'heading' || !textarea) return;
+        const heading = resolveReferenceBlock(extractHeadingBlocks(content), focusAnchor);
+        if (heading?.offset === undefined) return;
+
+        const lineEnd = content.indexOf('\n', heading.offset);
+        textarea.focus({ preventScroll: true });
+        textarea.setSelectionRange(heading.offset, lineEnd === -1 ? content.length : lineEnd);
+
+        // The textarea grows with its text, so scroll the container instead
+        const lineCount = content.split('\n').length;
+        const lineIndex = content.slice(0, heading.offset).split('\n').length - 1;
+        if (containerRef.current) {
+            containerRef.current.scrollTop = Math.max(0, (lineIndex / lineCount) * textarea.scrollHeight - 80);
+        }
+    }, [focusAnchor, content]);
+
     // Resize on window resize
     useEffect(() => {
         window.addEventListener('resize', autoResize);
@@ -85,9 +125,10 @@ export function TextNoteEditor({
 
     return (
         <motion.div
+            ref={containerRef}
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
-            className="h-full flex flex-col"
+            className="h-full flex flex-col overflow-y-auto"
         >
             <textarea
                 ref={textareaRef}
@@ -106,6 +147,40 @@ export function TextNoteEditor({
                 )}
                 spellCheck
             />
+
+            {/* Embedded blocks */}
+            {embeds.length > 0 && (
+                <div className="px-6 pb-6 space-y-3">
+                    {embeds.map((mention, index) => {
+                        const embed = getEmbeddedBlock(mention);
+                        return (
+                            <div
+                                key={`${mention.startIndex}-${index}`}
+                                className="rounded-lg border-l-4 border-blue-400 bg-gray-50 dark:bg-gray-800/60"
+                            >
+                                <button
+                                    onClick={() => embed.file && onNavigateToNote?.(embed.file.id, mention.anchor)}
+                                    disabled={!embed.file}
+                                    className="w-full flex items-center gap-1.5 px-3 pt-2 text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:no-underline disabled:text-gray-400 text-left"
+                                    title={mention.anchor ? `Open ${formatAnchor(mention.anchor)}` : 'Open note'}
+                                >
+                                    <Link2 className="w-3 h-3 shrink-0" />
+                                    <span className="truncate">{embed.title}</span>
+                                </button>
+                                <div className={clsx(
+                                    'px-3 pb-3 pt-1 text-sm whitespace-pre-wrap break-words',
+                                    embed.isCode ? 'font-mono text-xs text-gray-700 dark:text-gray-300' : 'text-gray-700 dark:text-gray-300',
+                                    embed.status !== 'ready' && 'italic text-gray-400'
+                                )}>
+                                    {embed.status === 'loading' && 'Loading…'}
+                                    {embed.status === 'missing' && 'Referenced block not found.'}
+                                    {embed.status === 'ready' && (embed.content || 'Empty.')}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
         </motion.div>
     );
 }
@@ -0,0 +1,174 @@
+/**
+ * TrashModal
+ *
+ * Lists deleted files and folders waiting in the workspace trash, with
+ * restore and permanent delete per entry, emptying the whole trash and the
+ * number of days entries are kept before being purged automatically.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { Trash2, X, Folder, FileText, RotateCcw, Loader2 } from 'lucide-react';
+import { TrashEntry } from '../../utils/workspaceTrash';
+
+const RETENTION_OPTIONS = [7, 14, 30, 60, 90, 0];
+
+interface TrashModalProps {
+    onRestore: (entry: TrashEntry, restoredPaths: Record<string, string>) => void;
+    onClose: () => void;
+}
+
+const formatDeletedAt = (iso: string) => {
+    const date = new Date(iso);
+    return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' }) +
+        ' ' + date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+};
+
+export function TrashModal({ onRestore, onClose }: TrashModalProps) {
+    const [entries, setEntries] = useState<TrashEntry[] | null>(null);
+    const [retentionDays, setRetentionDays] = useState(30);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const loadEntries = useCallback(async () => {
+        // @ts-ignore
+        const result = await window.ipcRenderer?.invoke('list-workspace-trash');
+        setEntries(result?.entries || []);
+        if (result?.retentionDays !== undefined) setRetentionDays(result.retentionDays);
+    }, []);
+
+    useEffect(() => {
+        loadEntries();
+    }, [loadEntries]);
+
+    const handleRestore = async (entry: TrashEntry) => {
+        setBusyId(entry.id);
+        // @ts-ignore
+        const result = await window.ipcRenderer?.invoke('restore-workspace-trash', entry.id);
+        setBusyId(null);
+        if (!result?.success) {
+            alert(`Failed to restore "${entry.name}": ${result?.error || 'Unknown error'}`);
+            return;
+        }
+        onRestore(result.entry, result.restoredPaths);
+        setEntries(prev => prev?.filter(e => e.id !== entry.id) ?? null);
+    };
+
+    const handlePurge = async (entry: TrashEntry) => {
+        if (!window.confirm(`Permanently delete "${entry.name}"? This cannot be undone.`)) return;
+        setBusyId(entry.id);
+        // @ts-ignore
+        const result = await window.ipcRenderer?.invoke('purge-workspace-trash', entry.id);
+        setBusyId(null);
+        if (result?.success) setEntries(prev => prev?.filter(e => e.id !== entry.id) ?? null);
+    };
+
+    const handleEmpty = async () => {
+        if (!window.confirm('Permanently delete everything in the trash? This cannot be undone.')) return;
+        // @ts-ignore
+        const result = await window.ipcRenderer?.invoke('purge-workspace-trash');
+        if (result?.success) setEntries([]);
+    };
+
+    const handleRetentionChange = async (days: number) => {
+        // @ts-ignore
+        const result = await window.ipcRenderer?.invoke('set-trash-retention', days);
+        if (result?.success) {
+            setRetentionDays(result.retentionDays);
+            setEntries(result.entries);
+        }
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+            onClick={onClose}
+        >
+            <motion.div
+                initial={{ scale: 0.95, opacity: 0 }}
+                animate={{ scale: 1, opacity: 1 }}
+                exit={{ scale: 0.95, opacity: 0 }}
+                className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-[32rem] max-h-[80vh] flex flex-col"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex items-center gap-2 mb-1">
+                    <Trash2 className="w-5 h-5 text-gray-500" />
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 flex-1">Trash</h3>
+                    <button
+                        onClick={onClose}
+                        className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+                <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 mb-4">
+                    <span>Delete items permanently after</span>
+                    <select
+                        value={retentionDays}
+                        onChange={e => handleRetentionChange(Number(e.target.value))}
+                        className="px-2 py-1 rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+                    >
+                        {[...new Set([...RETENTION_OPTIONS, retentionDays])].map(days => (
+                            <option key={days} value={days}>{days === 0 ? 'never' : `${days} days`}</option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+                    {entries === null && (
+                        <div className="flex items-center justify-center gap-2 py-8 text-sm text-gray-500">
+                            <Loader2 className="w-4 h-4 animate-spin" /> Loading…
+                        </div>
+                    )}
+                    {entries?.length === 0 && (
+                        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">The trash is empty.</p>
+                    )}
+                    {entries?.map(entry => (
+                        <div key={entry.id} className="flex items-center gap-3 px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700">
+                            {entry.isFolder
+                                ? <Folder className="w-4 h-4 text-gray-400 shrink-0" />
+                                : <FileText className="w-4 h-4 text-gray-400 shrink-0" />}
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">{entry.name}</p>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    Deleted {formatDeletedAt(entry.deletedAt)}
+                                    {entry.isFolder && ` · ${entry.files.length} ${entry.files.length === 1 ? 'file' : 'files'}`}
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => handleRestore(entry)}
+                                disabled={busyId !== null}
+                                className="flex items-center gap-1 px-2 py-1 text-xs rounded-md text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 disabled:opacity-50"
+                            >
+                                <RotateCcw className="w-3 h-3" /> Restore
+                            </button>
+                            <button
+                                onClick={() => handlePurge(entry)}
+                                disabled={busyId !== null}
+                                className="p-1 rounded-md text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 disabled:opacity-50"
+                                title="Delete permanently"
+                            >
+                                <X className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+
+                {!!entries?.length && (
+                    <div className="flex justify-end mt-4">
+                        <button
+                            onClick={handleEmpty}
+                            className="px-4 py-2 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-md transition-colors"
+                        >
+                            Empty trash
+                        </button>
+                    </div>
+                )}
+            </motion.div>
+        </motion.div>
+    );
+}
+
+export default TrashModal;
@@ -0,0 +1,73 @@
+/**
+ * VariableInspector
+ *
+ * Side panel listing the live variables in a Nerdbook's kernels, with each
+ * one's type, size and a short preview of its value.
+ */
+
+import { X, RefreshCw } from 'lucide-react';
+import { VariableInfo } from '../../utils/notebookKernels';
+
+interface VariableInspectorProps {
+    python: VariableInfo[];
+    javascript: VariableInfo[];
+    onRefresh: () => void;
+    onClose: () => void;
+}
+
+function VariableTable({ title, variables }: { title: string; variables: VariableInfo[] }) {
+    return (
+        <div className="mb-4">
+            <h4 className="px-3 mb-1 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">{title}</h4>
+            {variables.length === 0 ? (
+                <p className="px-3 text-xs text-gray-400 dark:text-gray-500">No variables yet</p>
+            ) : (
+                <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                    {variables.map(variable => (
+                        <div key={variable.name} className="px-3 py-1.5" title={variable.preview}>
+                            <div className="flex items-baseline gap-2">
+                                <span className="font-mono text-sm text-gray-800 dark:text-gray-200 truncate">{variable.name}</span>
+                                <span className="ml-auto text-xs text-gray-500 dark:text-gray-400 shrink-0">
+                                    {variable.type}{variable.size && ` · ${variable.size}`}
+                                </span>
+                            </div>
+                            <div className="font-mono text-xs text-gray-500 dark:text-gray-400 truncate">{variable.preview}</div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export function VariableInspector({ python, javascript, onRefresh, onClose }: VariableInspectorProps) {
+    return (
+        <div className="w-72 flex-shrink-0 flex flex-col border-l border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+                <h3 className="text-sm font-semibold text-gray-800 dark:text-gray-200">Variables</h3>
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={onRefresh}
+                        className="p-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800"
+                        title="Refresh"
+                    >
+                        <RefreshCw className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800"
+                        title="Close"
+                    >
+                        <X className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            </div>
+            <div className="flex-1 overflow-y-auto py-2">
+                <VariableTable title="Python" variables={python} />
+                <VariableTable title="JavaScript" variables={javascript} />
+            </div>
+        </div>
+    );
+}
+
+export default VariableInspector;
@@ -0,0 +1,104 @@
+/**
+ * VaultImportReportModal
+ *
+ * Summary shown after importing a markdown vault: how many notes and images
+ * came over, and every link or embed that pointed at something outside the
+ * vault, grouped by the note it's in.
+ */
+
+import { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { FolderInput, X, FileText, Unlink } from 'lucide-react';
+import { UnresolvedVaultLink } from '../../utils/vaultImport';
+
+export interface VaultImportReport {
+    vaultName: string;
+    notesImported: number;
+    imagesCopied: number;
+    unresolved: UnresolvedVaultLink[];
+}
+
+interface VaultImportReportModalProps {
+    report: VaultImportReport;
+    onClose: () => void;
+}
+
+export function VaultImportReportModal({ report, onClose }: VaultImportReportModalProps) {
+    const byNote = useMemo(() => {
+        const groups = new Map<string, string[]>();
+        for (const link of report.unresolved) {
+            groups.set(link.notePath, [...(groups.get(link.notePath) || []), link.target]);
+        }
+        return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+    }, [report.unresolved]);
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+            onClick={onClose}
+        >
+            <motion.div
+                initial={{ scale: 0.95, opacity: 0 }}
+                animate={{ scale: 1, opacity: 1 }}
+                exit={{ scale: 0.95, opacity: 0 }}
+                className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-[32rem] max-h-[80vh] flex flex-col"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex items-center gap-2 mb-1">
+                    <FolderInput className="w-5 h-5 text-gray-500" />
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 flex-1 truncate">Imported {report.vaultName}</h3>
+                    <button
+                        onClick={onClose}
+                        className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                    {report.notesImported} {report.notesImported === 1 ? 'note' : 'notes'} and {report.imagesCopied} {report.imagesCopied === 1 ? 'image' : 'images'} imported.
+                    {byNote.length > 0
+                        ? ` ${report.unresolved.length} ${report.unresolved.length === 1 ? 'link points' : 'links point'} outside the vault:`
+                        : ' Every link was resolved.'}
+                </p>
+
+                {byNote.length > 0 && (
+                    <div className="flex-1 overflow-y-auto space-y-3 pr-1">
+                        {byNote.map(([notePath, targets]) => (
+                            <div key={notePath}>
+                                <div className="flex items-center gap-1.5 text-sm font-medium text-gray-800 dark:text-gray-200 mb-1">
+                                    <FileText className="w-3.5 h-3.5 text-gray-400 shrink-0" />
+                                    <span className="truncate">{notePath}</span>
+                                </div>
+                                <div className="flex flex-wrap gap-1.5 pl-5">
+                                    {targets.map(target => (
+                                        <span
+                                            key={target}
+                                            className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300"
+                                        >
+                                            <Unlink className="w-3 h-3" />
+                                            {target}
+                                        </span>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="flex justify-end mt-4">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors"
+                    >
+                        Done
+                    </button>
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+}
+
+export default VaultImportReportModal;
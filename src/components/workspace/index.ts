@@ -16,3 +16,16 @@ export { TableEditor } from './TableEditor';
 export { FlashcardsGallery } from './FlashcardsGallery';
 export { AiFlashcardGenerator } from './AiFlashcardGenerator';
 export { DocumentViewer } from './DocumentViewer';
+export { MentionRenameModal } from './MentionRenameModal';
+export { BrokenLinksModal } from './BrokenLinksModal';
+export { TrashModal } from './TrashModal';
+export { FileHistoryPanel } from './FileHistoryPanel';
+export { FilePropertiesModal } from './FilePropertiesModal';
+export { TagBrowser } from './TagBrowser';
+export { VaultImportReportModal } from './VaultImportReportModal';
+export { NotebookPackagesMenu } from './NotebookPackagesMenu';
+export { JsSandboxMenu } from './JsSandboxMenu';
+export { KernelMenu } from './KernelMenu';
+export { VariableInspector } from './VariableInspector';
+export { CellOutputs } from './CellOutputs';
+export { LocalKernelsMenu } from './LocalKernelsMenu';
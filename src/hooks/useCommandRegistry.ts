@@ -0,0 +1,22 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import {
+    PaletteCommand,
+    getRegisteredCommands,
+    registerCommands,
+    subscribeToCommands,
+} from '../utils/commandRegistry';
+
+/**
+ * Contribute commands to the command palette while the calling component is
+ * mounted. Memoise `commands` so they are only re-registered when they change.
+ */
+export const useRegisterCommands = (commands: PaletteCommand[]) => {
+    useEffect(() => {
+        if (commands.length === 0) return;
+        return registerCommands(commands);
+    }, [commands]);
+};
+
+/** Commands contributed by mounted components, re-rendering when they change. */
+export const useRegisteredCommands = (): PaletteCommand[] =>
+    useSyncExternalStore(subscribeToCommands, getRegisteredCommands);
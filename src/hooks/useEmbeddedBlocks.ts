@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { WorkspaceFile } from '../types/workspace';
+import { NoteMention, formatAnchor, parseMentions } from '../utils/noteLinking';
+import { ReferenceBlock, extractReferenceBlocks, getFileEmbedContent, resolveReferenceBlock } from '../utils/blockRefs';
+
+export interface EmbeddedBlock {
+    status: 'loading' | 'missing' | 'ready';
+    title: string;
+    content: string;
+    isCode?: boolean;
+    file?: WorkspaceFile;
+}
+
+interface LoadedFile {
+    blocks: ReferenceBlock[];
+    whole: string;
+}
+
+const extensionOf = (filePath: string) => filePath.slice(filePath.lastIndexOf('.')).toLowerCase();
+
+/**
+ * Load the files that !@ embeds in `texts` point at, re-reading them
+ * whenever they are saved, and look up what an embed should show.
+ */
+export const useEmbeddedBlocks = (texts: string[], workspaceFiles: WorkspaceFile[]) => {
+    const [loaded, setLoaded] = useState<Record<string, LoadedFile | null>>({});
+    const loadedRef = useRef(loaded);
+    loadedRef.current = loaded;
+
+    const textKey = texts.join('\u0000');
+    const embedPaths = useMemo(() => {
+        const paths = new Set<string>();
+        for (const text of textKey.split('\u0000')) {
+            if (!text.includes('!@')) continue;
+            parseMentions(text, workspaceFiles)
+                .filter(m => m.isEmbed && m.linkedFile?.filePath)
+                .forEach(m => paths.add(m.linkedFile!.filePath!));
+        }
+        return [...paths];
+    }, [textKey, workspaceFiles]);
+
+    const loadFile = useCallback(async (filePath: string) => {
+        // @ts-ignore
+        const raw = await window.ipcRenderer?.invoke('read-workspace-file', filePath);
+        const ext = extensionOf(filePath);
+        setLoaded(prev => ({
+            ...prev,
+            [filePath]: typeof raw === 'string'
+                ? { blocks: extractReferenceBlocks(ext, raw), whole: getFileEmbedContent(ext, raw) }
+                : null,
+        }));
+    }, []);
+
+    useEffect(() => {
+        embedPaths.filter(p => !(p in loadedRef.current)).forEach(loadFile);
+    }, [embedPaths, loadFile]);
+
+    // Keep embeds live as their source files are saved
+    useEffect(() => {
+        const handleSaved = (_: any, data: { filePath: string }) => {
+            if (data?.filePath && data.filePath in loadedRef.current) loadFile(data.filePath);
+        };
+        // @ts-ignore
+        window.ipcRenderer?.on('workspace-file-saved', handleSaved);
+        return () => {
+            // @ts-ignore
+            window.ipcRenderer?.off('workspace-file-saved', handleSaved);
+        };
+    }, [loadFile]);
+
+    return useCallback((mention: NoteMention): EmbeddedBlock => {
+        const file = mention.linkedFile;
+        const title = file ? file.name + (mention.anchor ? ` ${formatAnchor(mention.anchor)}` : '') : mention.noteName;
+        if (!file?.filePath) return { status: 'missing', title, content: '' };
+
+        const data = loaded[file.filePath];
+        if (data === undefined) return { status: 'loading', title, content: '', file };
+        if (data === null) return { status: 'missing', title, content: '', file };
+        if (!mention.anchor) return { status: 'ready', title, content: data.whole, file };
+
+        const block = resolveReferenceBlock(data.blocks, mention.anchor);
+        return block
+            ? { status: 'ready', title, content: block.content, isCode: block.isCode, file }
+            : { status: 'missing', title, content: '', file };
+    }, [loaded]);
+};
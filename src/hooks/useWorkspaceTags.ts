@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { WorkspaceFile } from '../types/workspace';
+import { mergeTags } from '../utils/fileMetadata';
+
+/**
+ * Every tag of each workspace file by file id: the tags assigned in the tree
+ * plus the inline #tags the main process finds in the file's text. Inline
+ * tags are re-read whenever a workspace file is saved.
+ */
+export const useWorkspaceTags = (files: WorkspaceFile[]) => {
+    const [inlineTags, setInlineTags] = useState<Record<string, string[]>>({});
+
+    const loadInlineTags = useCallback(async () => {
+        // @ts-ignore
+        const result = await window.ipcRenderer?.invoke('get-workspace-tags');
+        if (result?.success) setInlineTags(result.tags);
+    }, []);
+
+    // Files added, removed or moved change which paths are known
+    const pathsKey = files.map(f => f.filePath || '').join('\n');
+    useEffect(() => {
+        loadInlineTags();
+    }, [pathsKey, loadInlineTags]);
+
+    useEffect(() => {
+        const handleSaved = () => loadInlineTags();
+        // @ts-ignore
+        window.ipcRenderer?.on('workspace-file-saved', handleSaved);
+        return () => {
+            // @ts-ignore
+            window.ipcRenderer?.off('workspace-file-saved', handleSaved);
+        };
+    }, [loadInlineTags]);
+
+    return useMemo(() => {
+        const tagsByFile: Record<string, string[]> = {};
+        for (const file of files) {
+            const tags = mergeTags(file.tags, file.filePath ? inlineTags[file.filePath] : undefined);
+            if (tags.length > 0) tagsByFile[file.id] = tags;
+        }
+        return tagsByFile;
+    }, [files, inlineTags]);
+};
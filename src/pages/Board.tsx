@@ -3,6 +3,7 @@ import { Plus, Search, Calculator, BookOpen, Sparkles, X, Trash2, Folder, Upload
 import { motion, AnimatePresence } from 'framer-motion';
 import clsx from 'clsx';
 import html2canvas from 'html2canvas';
+import { MentionAnchor } from '../utils/noteLinking';
 
 interface StickyNote {
     id: string;
@@ -71,9 +72,11 @@ interface BoardPageProps {
     embeddedBoardId?: string;
     /** Callback when board name changes (for syncing with workspace) */
     onBoardNameChange?: (name: string) => void;
+    /** Block reference (@board^noteId) whose sticky note should be selected and centered */
+    focusAnchor?: MentionAnchor;
 }
 
-export function BoardPage({ refreshTrigger, embeddedMode = false, embeddedBoardId, onBoardNameChange }: BoardPageProps) {
+export function BoardPage({ refreshTrigger, embeddedMode = false, embeddedBoardId, onBoardNameChange, focusAnchor }: BoardPageProps) {
     const canvasRef = useRef<HTMLDivElement>(null);
     const [boards, setBoards] = useState<Board[]>([]);
     const [activeBoardId, setActiveBoardId] = useState<string>('');
@@ -363,6 +366,29 @@ export function BoardPage({ refreshTrigger, embeddedMode = false, embeddedBoardI
         return () => clearTimeout(timer);
     }, [isLoading, activeBoardId, notes.length, capturePreviewScreenshot]);
 
+    // Select and center the sticky note a reference points at, once per followed reference
+    const focusedAnchorRef = useRef<MentionAnchor | null>(null);
+    useEffect(() => {
+        if (isLoading || !focusAnchor || focusAnchor.kind !== 'block' || focusedAnchorRef.current === focusAnchor) return;
+        const note = notes.find(n => n.id === focusAnchor.target);
+        if (!note) return;
+
+        // Runs after the auto-center above so it isn't overridden
+        const timer = setTimeout(() => {
+            if (!canvasRef.current) return;
+            const canvasRect = canvasRef.current.getBoundingClientRect();
+            setZoom(1);
+            setPanOffset({
+                x: canvasRect.width / 2 - (note.x + note.width / 2),
+                y: canvasRect.height / 2 - (note.y + note.height / 2),
+            });
+            setSelectedNoteId(note.id);
+            focusedAnchorRef.current = focusAnchor;
+        }, 300);
+
+        return () => clearTimeout(timer);
+    }, [focusAnchor, isLoading, notes]);
+
 
     const loadData = async () => {
         try {
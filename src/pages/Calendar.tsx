@@ -1,6 +1,6 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ChevronLeft, ChevronRight, Plus, X, Trash2, Sparkles, Edit2, Search, Repeat, Flag, BellRing } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Plus, X, Trash2, Sparkles, Edit2, Search, Repeat, Flag, BellRing, Globe } from 'lucide-react';
 import { ScrollTimePicker, getDefaultTime } from '../components/ScrollTimePicker';
 import {
     format,
@@ -15,13 +15,46 @@ import {
     isSameDay,
     isToday,
     parseISO,
-    addDays,
-    addWeeks,
     formatDistanceToNow
 } from 'date-fns';
 import clsx from 'clsx';
-import { NotesData, Note, MilestonesData, Milestone, LifeChaptersData, LifeChapter } from '../types';
+import { NotesData, Note, MilestonesData, Milestone, LifeChaptersData, LifeChapter, RecurrenceFrequency, RecurrenceRule } from '../types';
 import { useTheme } from '../contexts/ThemeContext';
+import {
+    expandRecurringNotes,
+    createSeries,
+    updateOccurrence,
+    deleteOccurrence,
+    isOccurrence,
+    isSameRule,
+    toStandaloneNote,
+    describeRule,
+    OccurrenceEditScope
+} from '../utils/recurrence';
+import {
+    getLocalTimeZone,
+    getTimeZoneOptions,
+    isForeignTimeZone,
+    toViewerDateTime,
+    formatTimeZoneCity,
+    formatTimeZoneOffset,
+    getNoteInstant
+} from '../utils/timezone';
+import {
+    getEventsOnDate,
+    layoutSpanningEvents,
+    isMultiDayEvent,
+    findOverlaps,
+    DatedNote
+} from '../utils/eventTiming';
+
+const WEEKDAY_LETTERS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+// Monday-first display order
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const ORDINAL_LABELS = ['1st', '2nd', '3rd', '4th', '5th'];
+// Multi-day bars sit below the day number (cell padding + header) in lanes of this height
+const BAR_TOP_REM = 2.5;
+const BAR_LANE_REM = 1.25;
 
 interface CalendarPageProps {
     notes: NotesData;
@@ -51,14 +84,27 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
     const [description, setDescription] = useState('');
     const [time, setTime] = useState(getDefaultTime);
     const [importance, setImportance] = useState<Note['importance']>('misc');
+    const [eventTimeZone, setEventTimeZone] = useState(''); // '' = floating local time
+    const [allDay, setAllDay] = useState(false);
+    const [hasEndTime, setHasEndTime] = useState(false);
+    const [endTime, setEndTime] = useState('10:00');
+    const [eventEndDate, setEventEndDate] = useState(''); // '' = ends the day it starts
+    // Date the event being edited is stored under (multi-day events can be opened from a later day)
+    const [editingDateKey, setEditingDateKey] = useState<string | null>(null);
 
     // Recurrence State
     const [isRecurring, setIsRecurring] = useState(false);
-    const [recurrenceType, setRecurrenceType] = useState<'daily' | 'weekly' | 'fortnightly' | 'monthly'>('weekly');
-    const [recurrenceEndMode, setRecurrenceEndMode] = useState<'count' | 'date'>('count');
+    const [recurrenceType, setRecurrenceType] = useState<RecurrenceFrequency>('weekly');
+    const [recurrenceInterval, setRecurrenceInterval] = useState(1);
+    const [recurrenceWeekdays, setRecurrenceWeekdays] = useState<number[]>([]);
+    const [recurrenceMonthlyMode, setRecurrenceMonthlyMode] = useState<'day' | 'nth' | 'last'>('day');
+    const [recurrenceEndMode, setRecurrenceEndMode] = useState<'count' | 'date' | 'never'>('count');
     const [recurrenceCount, setRecurrenceCount] = useState(5);
     const [recurrenceEndDate, setRecurrenceEndDate] = useState('');
 
+    // Pending edit of a recurring occurrence, waiting for the user to choose its scope
+    const [editScopePrompt, setEditScopePrompt] = useState<{ updated: Note; rule?: RecurrenceRule } | null>(null);
+
     // Reminder State
     const [selectedReminders, setSelectedReminders] = useState<number[]>([]);
 
@@ -70,7 +116,7 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
         note: Note,
         date: Date,
         options: string[],
-        recurrence?: { type: 'daily' | 'weekly' | 'fortnightly' | 'monthly', count: number, endDate?: string }
+        recurrence?: RecurrenceRule
     } | null>(null);
     const [selectedOptionIndex, setSelectedOptionIndex] = useState(0);
 
@@ -81,14 +127,10 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
     // Delete Confirmation Modal State
     const [deleteConfirmation, setDeleteConfirmation] = useState<{
         isOpen: boolean;
-        noteId: string | null;
-        dateKey: string | null;
-        seriesId: string | null;
+        note: Note | null;
     }>({
         isOpen: false,
-        noteId: null,
-        dateKey: null,
-        seriesId: null
+        note: null
     });
 
     // Milestone Form State
@@ -110,9 +152,46 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
         return `${hours12}:${minutes.toString().padStart(2, '0')} ${period}`;
     };
 
+    // Recurring series expanded into occurrences, up to a year past the viewed month
+    const displayNotes = useMemo(() => {
+        const horizon = endOfMonth(addMonths(currentMonth > new Date() ? currentMonth : new Date(), 12));
+        return expandRecurringNotes(notes, format(horizon, 'yyyy-MM-dd'));
+    }, [notes, currentMonth]);
+
+    const timeZoneOptions = useMemo(() => getTimeZoneOptions().map(zone => ({
+        zone,
+        label: `${zone.replace(/_/g, ' ')} (${formatTimeZoneOffset(zone)})`
+    })), []);
+
+    /**
+     * Event time (or time range) in the viewer's zone; events pinned to another
+     * zone show their original time and zone on hover.
+     */
+    const renderNoteTime = (dateKey: string, note: Note) => {
+        if (note.allDay) {
+            return note.endDate && note.endDate > dateKey ? `All day, until ${format(parseISO(note.endDate), 'MMM d')}` : 'All day';
+        }
+        if (!isForeignTimeZone(note)) {
+            if (!note.endTime) return convertTo12Hour(note.time);
+            const endLabel = note.endDate && note.endDate > dateKey ? `${format(parseISO(note.endDate), 'MMM d')}, ` : '';
+            return `${convertTo12Hour(note.time)} – ${endLabel}${convertTo12Hour(note.endTime)}`;
+        }
+
+        const viewer = toViewerDateTime(dateKey, note);
+        const original = `${convertTo12Hour(note.time)} ${formatTimeZoneCity(note.timeZone!)} (${formatTimeZoneOffset(note.timeZone!, getNoteInstant(dateKey, note))})`;
+        return (
+            <span title={`Originally ${original}`} className="inline-flex items-center gap-1">
+                <Globe className="w-3 h-3" />
+                {convertTo12Hour(viewer.time)}
+                {note.endTime && ` – ${convertTo12Hour(toViewerDateTime(note.endDate || dateKey, { time: note.endTime, timeZone: note.timeZone }).time)}`}
+                {viewer.dayOffset !== 0 && <span className="opacity-70">{viewer.dayOffset > 0 ? `+${viewer.dayOffset}d` : `${viewer.dayOffset}d`}</span>}
+            </span>
+        );
+    };
+
     const getAllNotes = () => {
         const all: { date: Date, note: Note }[] = [];
-        Object.entries(notes).forEach(([dateStr, dayNotes]) => {
+        Object.entries(displayNotes).forEach(([dateStr, dayNotes]) => {
             const date = parseISO(dateStr);
             dayNotes.forEach(note => {
                 all.push({ date, note });
@@ -161,9 +240,18 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
         setDescription('');
         setTime(getDefaultTime());
         setImportance('misc');
+        setEventTimeZone('');
+        setAllDay(false);
+        setHasEndTime(false);
+        setEndTime('10:00');
+        setEventEndDate('');
+        setEditingDateKey(null);
         setSelectedReminders([]);
         setIsRecurring(false);
         setRecurrenceType('weekly');
+        setRecurrenceInterval(1);
+        setRecurrenceWeekdays([]);
+        setRecurrenceMonthlyMode('day');
         setRecurrenceEndMode('count');
         setRecurrenceCount(5);
         setRecurrenceEndDate('');
@@ -213,13 +301,56 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
         setMilestoneColour(milestone.colour || '#8b5cf6');
     };
 
-    const loadNoteForEditing = (note: Note) => {
+    const loadNoteForEditing = (note: Note, dateKey?: string) => {
         setEditingNoteId(note.id);
+        setEditingDateKey(dateKey || null);
         setTitle(note.title);
         setDescription(note.description);
         setTime(note.time);
         setImportance(note.importance);
+        setEventTimeZone(note.timeZone || '');
+        setAllDay(!!note.allDay);
+        setHasEndTime(!!note.endTime);
+        setEndTime(note.endTime || '10:00');
+        setEventEndDate(note.endDate || '');
         setSelectedReminders(note.reminder || []);
+
+        const rule = note.recurrence;
+        setIsRecurring(!!rule);
+        if (rule) {
+            setRecurrenceType(rule.type);
+            setRecurrenceInterval(rule.interval || 1);
+            setRecurrenceWeekdays(rule.type === 'monthly' || rule.type === 'yearly' ? [] : rule.byWeekday || []);
+            setRecurrenceMonthlyMode(rule.setPos === -1 ? 'last' : rule.setPos ? 'nth' : 'day');
+            setRecurrenceEndMode(rule.count ? 'count' : rule.endDate ? 'date' : 'never');
+            setRecurrenceCount(rule.count || 5);
+            setRecurrenceEndDate(rule.endDate || '');
+        }
+    };
+
+    /**
+     * Build a rule from the recurrence form, anchored on the event's date.
+     */
+    const buildRecurrenceRule = (anchor: Date): RecurrenceRule => {
+        const rule: RecurrenceRule = { type: recurrenceType };
+        if (recurrenceType !== 'fortnightly' && recurrenceInterval > 1) rule.interval = recurrenceInterval;
+
+        if (recurrenceType === 'monthly' || recurrenceType === 'yearly') {
+            if (recurrenceMonthlyMode !== 'day') {
+                rule.byWeekday = [anchor.getDay()];
+                rule.setPos = recurrenceMonthlyMode === 'last' ? -1 : Math.ceil(anchor.getDate() / 7);
+            }
+        } else if (recurrenceWeekdays.length > 0) {
+            rule.byWeekday = [...recurrenceWeekdays].sort();
+        }
+
+        if (recurrenceEndMode === 'count') rule.count = recurrenceCount;
+        else if (recurrenceEndMode === 'date' && recurrenceEndDate) rule.endDate = recurrenceEndDate;
+        return rule;
+    };
+
+    const toggleRecurrenceWeekday = (weekday: number) => {
+        setRecurrenceWeekdays(prev => prev.includes(weekday) ? prev.filter(d => d !== weekday) : [...prev, weekday]);
     };
 
     const saveNotes = async (newNotes: NotesData) => {
@@ -233,69 +364,63 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
     const handleSaveNote = async () => {
         if (!selectedDate || !title.trim()) return;
 
-        // Removed automatic AI summarization for manual entries
-        // Users can add events instantly without waiting for AI processing
-        let summary = '';
-
-        const dateKey = format(selectedDate, 'yyyy-MM-dd');
-        // existingNotes unused in new logic
-        let newNotesMap = { ...notes };
-
-        // Generate a seriesId if this is a new recurring note
-        const newSeriesId = (isRecurring && !editingNoteId) ? crypto.randomUUID() : undefined;
-
-        const createNoteAtDate = (date: Date, baseId?: string, seriesId?: string) => {
-            const dKey = format(date, 'yyyy-MM-dd');
-            const note: Note = {
-                id: baseId || crypto.randomUUID(),
-                title,
-                description,
-                summary: summary || undefined,
-                time,
-                importance,
-                reminder: selectedReminders.length > 0 ? selectedReminders : undefined,
-                recurrence: isRecurring ? {
-                    type: recurrenceType,
-                    count: recurrenceEndMode === 'count' ? recurrenceCount : undefined,
-                    endDate: recurrenceEndMode === 'date' ? recurrenceEndDate : undefined
-                } : undefined,
-                seriesId: seriesId // Assign the generated seriesId
-            };
-            if (!newNotesMap[dKey]) newNotesMap[dKey] = [];
-            // If editing, we replace the note with same ID. But for recurrence, we usually create new ones.
-            // Simplified: If editing and not changing recurrence, update single. 
-            // If adding recurring, add multiple.
-            // For now, if editing, we just update the single instance unless user checked recurring (which adds new future ones).
-            if (editingNoteId && dKey === dateKey) {
-                newNotesMap[dKey] = newNotesMap[dKey].map(n => n.id === editingNoteId ? note : n);
-            } else {
-                newNotesMap[dKey].push(note);
-            }
+        const dateKey = editingDateKey || format(selectedDate, 'yyyy-MM-dd');
+        const rule = isRecurring ? buildRecurrenceRule(parseISO(dateKey)) : undefined;
+        const editingNote = editingNoteId ? (displayNotes[dateKey] || []).find(n => n.id === editingNoteId) : undefined;
+        const fields = {
+            title,
+            description,
+            time,
+            endTime: !allDay && hasEndTime ? endTime : undefined,
+            endDate: eventEndDate > dateKey ? eventEndDate : undefined,
+            allDay: allDay || undefined,
+            timeZone: eventTimeZone || undefined,
+            importance,
+            reminder: selectedReminders.length > 0 ? selectedReminders : undefined
         };
 
-        createNoteAtDate(selectedDate, editingNoteId || undefined, newSeriesId);
-
-        if (isRecurring && !editingNoteId) {
-            let currentDate = selectedDate;
-            let count = 0;
-            const limit = recurrenceEndMode === 'count' ? recurrenceCount : 100; // safety limit
-            const endDate = recurrenceEndMode === 'date' && recurrenceEndDate ? parseISO(recurrenceEndDate) : null;
+        if (editingNote && isOccurrence(editingNote)) {
+            // Ask whether the change applies to this occurrence, the rest of the series or all of it
+            setEditScopePrompt({ updated: { ...editingNote, ...fields }, rule });
+            return;
+        }
 
-            // Start from NEXT occurrence
-            while (count < limit - 1) { // -1 because we already added the first one
-                if (recurrenceType === 'daily') currentDate = addDays(currentDate, 1);
-                else if (recurrenceType === 'weekly') currentDate = addWeeks(currentDate, 1);
-                else if (recurrenceType === 'fortnightly') currentDate = addWeeks(currentDate, 2);
-                else if (recurrenceType === 'monthly') currentDate = addMonths(currentDate, 1);
+        // Removed automatic AI summarization for manual entries
+        // Users can add events instantly without waiting for AI processing
+        const note: Note = {
+            ...editingNote,
+            id: editingNoteId || crypto.randomUUID(),
+            ...fields
+        };
+        // Recurring events are stored once; occurrences are expanded for display
+        const storedNote = rule ? createSeries(note, rule) : note;
+
+        const dayNotes = notes[dateKey] || [];
+        saveNotes({
+            ...notes,
+            [dateKey]: editingNote
+                ? dayNotes.map(n => n.id === editingNote.id ? storedNote : n)
+                : [...dayNotes, storedNote]
+        });
+        resetForm();
+    };
 
-                if (endDate && currentDate > endDate) break;
+    const applyOccurrenceEdit = (scope: OccurrenceEditScope) => {
+        if (!editScopePrompt) return;
+        const { updated, rule } = editScopePrompt;
 
-                createNoteAtDate(currentDate, undefined, newSeriesId);
-                count++;
-            }
+        let newNotes: NotesData;
+        if (!rule) {
+            // Repeat was switched off: the chosen occurrences are replaced by a single plain event
+            const dateKey = updated.occurrenceDate!;
+            newNotes = deleteOccurrence(notes, updated, scope);
+            newNotes = { ...newNotes, [dateKey]: [...(newNotes[dateKey] || []), toStandaloneNote(updated)] };
+        } else {
+            newNotes = updateOccurrence(notes, updated, scope, isSameRule(rule, updated.recurrence) ? undefined : rule);
         }
 
-        saveNotes(newNotesMap);
+        saveNotes(newNotes);
+        setEditScopePrompt(null);
         resetForm();
     };
 
@@ -304,43 +429,32 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
         if (!targetDate) return;
         const dateKey = format(targetDate, 'yyyy-MM-dd');
 
-        // Check if note is part of a series
-        const targetNote = (notes[dateKey] || []).find(n => n.id === noteId);
-        const seriesId = targetNote?.seriesId;
+        // Check if note is an occurrence of a recurring series
+        const targetNote = (displayNotes[dateKey] || []).find(n => n.id === noteId);
 
-        if (seriesId) {
+        if (targetNote && isOccurrence(targetNote)) {
             // Show confirmation modal for recurring events
-            setDeleteConfirmation({
-                isOpen: true,
-                noteId,
-                dateKey,
-                seriesId
-            });
+            setDeleteConfirmation({ isOpen: true, note: targetNote });
         } else {
             // Delete single note immediately
-            deleteNote(noteId, dateKey, false);
+            deleteNote(noteId, dateKey);
         }
     };
 
-    const deleteNote = (noteId: string, dateKey: string, deleteSeries: boolean) => {
-        let newNotes = { ...notes };
-
-        if (deleteSeries && deleteConfirmation.seriesId) {
-            // Delete all notes with this seriesId
-            Object.keys(newNotes).forEach(key => {
-                newNotes[key] = newNotes[key].filter(n => n.seriesId !== deleteConfirmation.seriesId);
-                if (newNotes[key].length === 0) delete newNotes[key];
-            });
-        } else {
-            // Delete just this note
-            if (newNotes[dateKey]) {
-                newNotes[dateKey] = newNotes[dateKey].filter(n => n.id !== noteId);
-                if (newNotes[dateKey].length === 0) delete newNotes[dateKey];
-            }
+    const deleteNote = (noteId: string, dateKey: string) => {
+        const newNotes = { ...notes };
+        if (newNotes[dateKey]) {
+            newNotes[dateKey] = newNotes[dateKey].filter(n => n.id !== noteId);
+            if (newNotes[dateKey].length === 0) delete newNotes[dateKey];
         }
-
         saveNotes(newNotes);
-        setDeleteConfirmation({ isOpen: false, noteId: null, dateKey: null, seriesId: null });
+    };
+
+    const deleteRecurringNote = (scope: OccurrenceEditScope) => {
+        if (deleteConfirmation.note) {
+            saveNotes(deleteOccurrence(notes, deleteConfirmation.note, scope));
+        }
+        setDeleteConfirmation({ isOpen: false, note: null });
     };
 
     const nextMonth = () => {
@@ -397,6 +511,7 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
                     description: options[0], // Default to first option
                     summary: options[0],
                     time: result.time,
+                    timeZone: result.timeZone || undefined,
                     importance: result.importance
                 };
 
@@ -431,38 +546,11 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
             if (!updatedNotes[dateKey]) updatedNotes[dateKey] = [];
 
             // Use the note exactly as it is in the state (it contains the edited values)
-            const seriesId = aiProposedNote.recurrence ? crypto.randomUUID() : undefined;
-
-            const finalNote = {
-                ...aiProposedNote.note,
-                recurrence: aiProposedNote.recurrence as any, // Add recurrence info if present
-                seriesId: seriesId
-            };
-
-            updatedNotes[dateKey].push(finalNote);
-
-            // Handle Recurrence Generation
-            if (aiProposedNote.recurrence) {
-                let currentDate = aiProposedNote.date;
-                let count = 0;
-                const r = aiProposedNote.recurrence;
-                const limit = r.count || 10;
-                const endDate = r.endDate ? parseISO(r.endDate) : null;
-
-                while (count < limit - 1) {
-                    if (r.type === 'daily') currentDate = addDays(currentDate, 1);
-                    else if (r.type === 'weekly') currentDate = addWeeks(currentDate, 1);
-                    else if (r.type === 'fortnightly') currentDate = addWeeks(currentDate, 2);
-                    else if (r.type === 'monthly') currentDate = addMonths(currentDate, 1);
-
-                    if (endDate && currentDate > endDate) break;
-
-                    const dk = format(currentDate, 'yyyy-MM-dd');
-                    if (!updatedNotes[dk]) updatedNotes[dk] = [];
-                    updatedNotes[dk].push({ ...finalNote, id: crypto.randomUUID() });
-                    count++;
-                }
-            }
+            const finalNote = aiProposedNote.recurrence
+                ? createSeries(aiProposedNote.note, aiProposedNote.recurrence)
+                : aiProposedNote.note;
+
+            updatedNotes[dateKey] = [...updatedNotes[dateKey], finalNote];
 
             saveNotes(updatedNotes);
 
@@ -484,6 +572,27 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
     const endDate = endOfWeek(monthEnd);
     const calendarDays = eachDayOfInterval({ start: startDate, end: endDate });
 
+    // Events on the selected day (including ones continuing from earlier days) and which of them clash
+    const selectedDayKey = selectedDate ? format(selectedDate, 'yyyy-MM-dd') : null;
+    const selectedDayEvents = useMemo(() => selectedDayKey ? getEventsOnDate(displayNotes, selectedDayKey) : [], [displayNotes, selectedDayKey]);
+    const selectedDayClashes = useMemo(() => {
+        const clashes: Record<string, string[]> = {};
+        if (!selectedDayKey) return clashes;
+        for (const { first, second } of findOverlaps(displayNotes, selectedDayKey)) {
+            (clashes[first.note.id] ||= []).push(second.note.title);
+            (clashes[second.note.id] ||= []).push(first.note.title);
+        }
+        return clashes;
+    }, [displayNotes, selectedDayKey]);
+
+    // Events touching each visible day, with multi-day events laid out as bars per week row
+    const monthEvents = useMemo(() => {
+        const dayKeys = calendarDays.map(day => format(day, 'yyyy-MM-dd'));
+        const byDay: Record<string, DatedNote[]> = {};
+        for (const key of dayKeys) byDay[key] = getEventsOnDate(displayNotes, key);
+        return { byDay, ...layoutSpanningEvents(displayNotes, dayKeys) };
+    }, [displayNotes, currentMonth]); // calendarDays is derived from currentMonth
+
     const variants = {
         enter: (direction: number) => ({ x: direction > 0 ? 500 : -500, opacity: 0 }),
         center: { zIndex: 1, x: 0, opacity: 1 },
@@ -578,12 +687,15 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
                                 transition={{ x: { type: "spring", stiffness: 300, damping: 30 }, opacity: { duration: 0.2 } }}
                                 className="absolute inset-0 grid grid-cols-7 grid-rows-6"
                             >
-                                {calendarDays.map((day) => {
+                                {calendarDays.map((day, dayIndex) => {
                                     const isSelected = selectedDate && isSameDay(day, selectedDate);
                                     const isCurrentMonth = isSameMonth(day, currentMonth);
                                     const isTodayDate = isToday(day);
                                     const dateKey = format(day, 'yyyy-MM-dd');
-                                    const dayNotes = notes[dateKey] || [];
+                                    const dayEvents = monthEvents.byDay[dateKey] || [];
+                                    // Multi-day events are drawn as bars across the week instead
+                                    const dayNotes = dayEvents.filter(event => !isMultiDayEvent(event.dateKey, event.note)).map(event => event.note);
+                                    const barLanes = monthEvents.laneCounts[Math.floor(dayIndex / 7)] || 0;
                                     const dayMilestones = milestones[dateKey] || [];
 
                                     // Check if this day is within any life chapter
@@ -640,9 +752,9 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
                                                     {format(day, 'd')}
                                                 </span>
                                                 <div className="flex items-center gap-1">
-                                                    {dayNotes.length > 0 && (
+                                                    {dayEvents.length > 0 && (
                                                         <span className="flex h-5 w-5 items-center justify-center rounded-full bg-purple-100 text-[10px] font-bold text-purple-600">
-                                                            {dayNotes.length}
+                                                            {dayEvents.length}
                                                         </span>
                                                     )}
                                                 </div>
@@ -672,6 +784,9 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
                                                 )}
                                             </div>
 
+                                            {/* Room for the multi-day bars drawn over this week */}
+                                            {barLanes > 0 && <div className="shrink-0" style={{ height: `${barLanes * BAR_LANE_REM}rem` }} />}
+
                                             <div className="flex-1 overflow-y-auto space-y-1 pr-1 custom-scrollbar pt-1 relative z-10">
                                                 {/* Tasks */}
                                                 {dayNotes.map((note, i) => (
@@ -683,6 +798,34 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
                                         </div>
                                     );
                                 })}
+
+                                {/* Multi-day events */}
+                                <div className="absolute inset-0 pointer-events-none z-20">
+                                    {monthEvents.weeks.map((segments, week) => segments.map(segment => (
+                                        <div
+                                            key={`${segment.note.id}-${week}`}
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                onDateClick(calendarDays[week * 7 + segment.startIndex]);
+                                            }}
+                                            title={segment.note.title}
+                                            className={clsx(
+                                                "absolute pointer-events-auto cursor-pointer text-[10px] font-semibold px-1.5 rounded-md shadow-sm truncate border flex items-center",
+                                                importanceColors[segment.note.importance || 'misc'],
+                                                segment.continuesBefore && "rounded-l-none border-l-0",
+                                                segment.continuesAfter && "rounded-r-none border-r-0"
+                                            )}
+                                            style={{
+                                                left: `calc(${(segment.startIndex / 7) * 100}% + ${segment.continuesBefore ? 0 : 4}px)`,
+                                                width: `calc(${(segment.length / 7) * 100}% - ${(segment.continuesBefore ? 0 : 4) + (segment.continuesAfter ? 0 : 4)}px)`,
+                                                top: `calc(${(week / 6) * 100}% + ${BAR_TOP_REM + segment.lane * BAR_LANE_REM}rem)`,
+                                                height: `${BAR_LANE_REM - 0.25}rem`
+                                            }}
+                                        >
+                                            {segment.continuesBefore && '… '}{segment.note.title}
+                                        </div>
+                                    )))}
+                                </div>
                             </motion.div>
                         </AnimatePresence>
                     </div>
@@ -737,7 +880,7 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
                                     style={{ '--tw-ring-color': `${accentColor}33` } as any}
                                 />
                                 <div className="flex flex-col lg:flex-row gap-2">
-                                    <ScrollTimePicker value={time} onChange={setTime} />
+                                    {!allDay && <ScrollTimePicker value={time} onChange={setTime} />}
                                     <select
                                         value={importance}
                                         onChange={(e) => setImportance(e.target.value as any)}
@@ -761,6 +904,67 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
                                         <option value="misc">Misc</option>
                                     </select>
                                 </div>
+                                <div className="space-y-2">
+                                    <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+                                        <label className="flex items-center gap-2 text-sm font-semibold text-gray-700 dark:text-gray-300 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={allDay}
+                                                onChange={(e) => setAllDay(e.target.checked)}
+                                                className="rounded border-gray-300 focus:ring-2"
+                                                style={{ accentColor: accentColor, '--tw-ring-color': `${accentColor}33` } as any}
+                                            />
+                                            All day
+                                        </label>
+                                        {!allDay && (
+                                            <label className="flex items-center gap-2 text-sm font-semibold text-gray-700 dark:text-gray-300 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={hasEndTime}
+                                                    onChange={(e) => setHasEndTime(e.target.checked)}
+                                                    className="rounded border-gray-300 focus:ring-2"
+                                                    style={{ accentColor: accentColor, '--tw-ring-color': `${accentColor}33` } as any}
+                                                />
+                                                End time
+                                            </label>
+                                        )}
+                                    </div>
+                                    {!allDay && hasEndTime && (
+                                        <ScrollTimePicker value={endTime} onChange={setEndTime} />
+                                    )}
+                                    <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                                        <span className="shrink-0">Ends on</span>
+                                        <input
+                                            type="date"
+                                            value={eventEndDate}
+                                            min={editingDateKey || (selectedDate ? format(selectedDate, 'yyyy-MM-dd') : undefined)}
+                                            onChange={(e) => setEventEndDate(e.target.value)}
+                                            className="flex-1 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg px-2 py-1 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2"
+                                            style={{ '--tw-ring-color': `${accentColor}33` } as any}
+                                            title="Leave empty for events that end the day they start"
+                                        />
+                                        {eventEndDate && (
+                                            <button onClick={() => setEventEndDate('')} className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors" title="Same day">
+                                                <X className="w-3.5 h-3.5" />
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <Globe className="w-4 h-4 text-gray-500 shrink-0" />
+                                    <select
+                                        value={eventTimeZone}
+                                        onChange={(e) => setEventTimeZone(e.target.value)}
+                                        className="w-full bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg px-2 py-1 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2"
+                                        style={{ '--tw-ring-color': `${accentColor}33` } as any}
+                                        title="Time zone the time above is in"
+                                    >
+                                        <option value="">Local time ({getLocalTimeZone()}, follows you when travelling)</option>
+                                        {timeZoneOptions.map(({ zone, label }) => (
+                                            <option key={zone} value={zone}>{label}</option>
+                                        ))}
+                                    </select>
+                                </div>
 
                                 {/* Reminder Checkboxes */}
                                 <div className="border-t border-gray-200 dark:border-gray-600 pt-3 mt-1">
@@ -825,7 +1029,7 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
                                             <div className="flex flex-col gap-2">
                                                 <select
                                                     value={recurrenceType}
-                                                    onChange={(e) => setRecurrenceType(e.target.value as any)}
+                                                    onChange={(e) => setRecurrenceType(e.target.value as RecurrenceFrequency)}
                                                     className="w-full bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg px-2 py-1 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2"
                                                     style={{ '--tw-ring-color': `${accentColor}33` } as any}
                                                 >
@@ -833,7 +1037,62 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
                                                     <option value="weekly">Weekly</option>
                                                     <option value="fortnightly">Every 2 Weeks</option>
                                                     <option value="monthly">Monthly</option>
+                                                    <option value="yearly">Yearly</option>
                                                 </select>
+                                                {recurrenceType !== 'fortnightly' && (
+                                                    <div className="flex items-center gap-2">
+                                                        <span className="text-sm text-gray-500 dark:text-gray-400">Every</span>
+                                                        <input
+                                                            type="number"
+                                                            min="1"
+                                                            max="99"
+                                                            value={recurrenceInterval}
+                                                            onChange={(e) => setRecurrenceInterval(Math.max(1, parseInt(e.target.value) || 1))}
+                                                            className="w-16 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg px-2 py-1 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2"
+                                                            style={{ '--tw-ring-color': `${accentColor}33` } as any}
+                                                        />
+                                                        <span className="text-sm text-gray-500 dark:text-gray-400">
+                                                            {{ daily: 'day(s)', weekly: 'week(s)', monthly: 'month(s)', yearly: 'year(s)' }[recurrenceType as Exclude<RecurrenceFrequency, 'fortnightly'>]}
+                                                        </span>
+                                                    </div>
+                                                )}
+                                                {(recurrenceType === 'daily' || recurrenceType === 'weekly' || recurrenceType === 'fortnightly') && (
+                                                    <div className="flex items-center gap-1">
+                                                        {WEEKDAY_ORDER.map(weekday => {
+                                                            const isActive = recurrenceWeekdays.includes(weekday);
+                                                            return (
+                                                                <button
+                                                                    key={weekday}
+                                                                    type="button"
+                                                                    onClick={() => toggleRecurrenceWeekday(weekday)}
+                                                                    className={clsx(
+                                                                        "w-7 h-7 rounded-full text-xs font-semibold transition-colors",
+                                                                        !isActive && "bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400"
+                                                                    )}
+                                                                    style={isActive ? { backgroundColor: accentColor, color: 'white' } : undefined}
+                                                                >
+                                                                    {WEEKDAY_LETTERS[weekday]}
+                                                                </button>
+                                                            );
+                                                        })}
+                                                    </div>
+                                                )}
+                                                {(recurrenceType === 'monthly' || recurrenceType === 'yearly') && selectedDate && (
+                                                    <select
+                                                        value={recurrenceMonthlyMode}
+                                                        onChange={(e) => setRecurrenceMonthlyMode(e.target.value as 'day' | 'nth' | 'last')}
+                                                        className="w-full bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg px-2 py-1 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2"
+                                                        style={{ '--tw-ring-color': `${accentColor}33` } as any}
+                                                    >
+                                                        <option value="day">On day {selectedDate.getDate()}</option>
+                                                        {selectedDate.getDate() <= 28 && (
+                                                            <option value="nth">On the {ORDINAL_LABELS[Math.ceil(selectedDate.getDate() / 7) - 1]} {format(selectedDate, 'EEEE')}</option>
+                                                        )}
+                                                        {selectedDate.getDate() + 7 > endOfMonth(selectedDate).getDate() && (
+                                                            <option value="last">On the last {format(selectedDate, 'EEEE')}</option>
+                                                        )}
+                                                    </select>
+                                                )}
                                                 <select
                                                     value={recurrenceEndMode}
                                                     onChange={(e) => setRecurrenceEndMode(e.target.value as any)}
@@ -842,6 +1101,7 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
                                                 >
                                                     <option value="count">For X times</option>
                                                     <option value="date">Until Date</option>
+                                                    <option value="never">Forever</option>
                                                 </select>
                                             </div>
                                             <div>
@@ -859,7 +1119,7 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
                                                         />
                                                         <span className="text-sm text-gray-500 dark:text-gray-400">times</span>
                                                     </div>
-                                                ) : (
+                                                ) : recurrenceEndMode === 'date' ? (
                                                     <div className="flex items-center gap-2">
                                                         <span className="text-sm text-gray-500 dark:text-gray-400">Until</span>
                                                         <input
@@ -870,8 +1130,13 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
                                                             style={{ '--tw-ring-color': `${accentColor}33` } as any}
                                                         />
                                                     </div>
-                                                )}
+                                                ) : null}
                                             </div>
+                                            {selectedDate && (
+                                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                                    {describeRule(buildRecurrenceRule(selectedDate))}
+                                                </p>
+                                            )}
                                         </motion.div>
                                     )}
                                 </div>
@@ -1052,7 +1317,7 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
                                                     <div>
                                                         <h4 className="font-bold">{note.title}</h4>
                                                         <div className="text-xs opacity-70 mt-1 font-semibold">
-                                                            {format(date, 'MMM d, yyyy')} • {convertTo12Hour(note.time)}
+                                                            {format(date, 'MMM d, yyyy')} • {renderNoteTime(format(date, 'yyyy-MM-dd'), note)}
                                                         </div>
                                                     </div>
                                                 </div>
@@ -1080,7 +1345,7 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
                                         </div>
                                     )
                                 ) : (
-                                    (notes[format(selectedDate!, 'yyyy-MM-dd')] || []).map((note) => (
+                                    selectedDayEvents.map(({ dateKey: eventDateKey, note }) => (
                                         <motion.div
                                             layout
                                             key={note.id}
@@ -1088,19 +1353,25 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
                                         >
                                             <div className="flex justify-between items-start mb-2">
                                                 <h4 className="font-bold">{note.title}</h4>
-                                                <span className="text-xs font-bold opacity-70 bg-white/50 dark:bg-gray-700/50 px-2 py-1 rounded-md">{convertTo12Hour(note.time)}</span>
+                                                <span className="text-xs font-bold opacity-70 bg-white/50 dark:bg-gray-700/50 px-2 py-1 rounded-md">{renderNoteTime(eventDateKey, note)}</span>
                                             </div>
+                                            {eventDateKey < format(selectedDate!, 'yyyy-MM-dd') && (
+                                                <p className="text-xs font-semibold opacity-70 mb-2">Continues from {format(parseISO(eventDateKey), 'EEE, MMM d')}</p>
+                                            )}
+                                            {selectedDayClashes[note.id] && (
+                                                <p className="text-xs font-semibold text-red-600 dark:text-red-400 mb-2">Overlaps with {selectedDayClashes[note.id].join(', ')}</p>
+                                            )}
                                             <p className="text-sm opacity-80 mb-3">{note.description}</p>
                                             <div className="flex justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
                                                 <button onClick={(e) => {
                                                     e.stopPropagation();
-                                                    loadNoteForEditing(note);
+                                                    loadNoteForEditing(note, eventDateKey);
                                                 }} className="p-1.5 hover:bg-white/50 dark:hover:bg-gray-700/50 rounded-lg transition-colors">
                                                     <Edit2 className="w-3.5 h-3.5" />
                                                 </button>
                                                 <button onClick={(e) => {
                                                     e.stopPropagation();
-                                                    handleDeleteNote(note.id);
+                                                    handleDeleteNote(note.id, parseISO(eventDateKey));
                                                 }} className="p-1.5 hover:bg-red-100 text-red-600 rounded-lg transition-colors">
                                                     <Trash2 className="w-3.5 h-3.5" />
                                                 </button>
@@ -1108,7 +1379,7 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
                                         </motion.div>
                                     ))
                                 )}
-                                {!isSearchActive && (!notes[format(selectedDate!, 'yyyy-MM-dd')] || notes[format(selectedDate!, 'yyyy-MM-dd')].length === 0) && (
+                                {!isSearchActive && selectedDayEvents.length === 0 && (
                                     <div className="text-center py-4 text-gray-400 dark:text-gray-500">
                                         <p className="text-sm">No events for this day</p>
                                     </div>
@@ -1282,34 +1553,84 @@ export function CalendarPage({ notes, setNotes, initialSelectedDate, currentMont
                                 Delete Recurring Event?
                             </h3>
                             <p className="text-gray-600 dark:text-gray-300 mb-6">
-                                This is a recurring event. Would you like to delete the entire series?
+                                This is a recurring event. Which occurrences would you like to delete?
                             </p>
 
-                            <div className="flex gap-3">
+                            <div className="flex flex-col gap-2">
                                 <button
-                                    onClick={() => {
-                                        if (deleteConfirmation.noteId && deleteConfirmation.dateKey) {
-                                            deleteNote(deleteConfirmation.noteId, deleteConfirmation.dateKey, true);
-                                        }
-                                    }}
-                                    className="flex-1 px-4 py-2.5 bg-red-500 hover:bg-red-600 text-white rounded-xl font-medium transition-colors"
+                                    onClick={() => deleteRecurringNote('this')}
+                                    className="w-full px-4 py-2.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-xl font-medium transition-colors"
+                                >
+                                    This Event Only
+                                </button>
+                                <button
+                                    onClick={() => deleteRecurringNote('following')}
+                                    className="w-full px-4 py-2.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-xl font-medium transition-colors"
+                                >
+                                    This and Following Events
+                                </button>
+                                <button
+                                    onClick={() => deleteRecurringNote('all')}
+                                    className="w-full px-4 py-2.5 bg-red-500 hover:bg-red-600 text-white rounded-xl font-medium transition-colors"
                                 >
                                     Delete Series
                                 </button>
+                            </div>
+
+                            <button
+                                onClick={() => setDeleteConfirmation({ isOpen: false, note: null })}
+                                className="w-full mt-3 text-sm text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                        </motion.div>
+                    </div>
+                )
+            }
+
+            {/* Recurring Edit Scope Modal */}
+            {
+                editScopePrompt && (
+                    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+                        <motion.div
+                            initial={{ scale: 0.9, opacity: 0 }}
+                            animate={{ scale: 1, opacity: 1 }}
+                            className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl p-6 max-w-md w-full border border-gray-200 dark:border-gray-700"
+                        >
+                            <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-2">
+                                Edit Recurring Event
+                            </h3>
+                            <p className="text-gray-600 dark:text-gray-300 mb-6">
+                                Apply your changes to which occurrences?
+                            </p>
+
+                            <div className="flex flex-col gap-2">
+                                {/* A changed rule can't apply to a single occurrence */}
+                                {(!editScopePrompt.rule || isSameRule(editScopePrompt.rule, editScopePrompt.updated.recurrence)) && (
+                                    <button
+                                        onClick={() => applyOccurrenceEdit('this')}
+                                        className="w-full px-4 py-2.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-xl font-medium transition-colors"
+                                    >
+                                        This Event Only
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => applyOccurrenceEdit('following')}
+                                    className="w-full px-4 py-2.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-xl font-medium transition-colors"
+                                >
+                                    This and Following Events
+                                </button>
                                 <button
-                                    onClick={() => {
-                                        if (deleteConfirmation.noteId && deleteConfirmation.dateKey) {
-                                            deleteNote(deleteConfirmation.noteId, deleteConfirmation.dateKey, false);
-                                        }
-                                    }}
-                                    className="flex-1 px-4 py-2.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-xl font-medium transition-colors"
+                                    onClick={() => applyOccurrenceEdit('all')}
+                                    className="w-full px-4 py-2.5 text-white rounded-xl font-medium transition-colors"
+                                    style={{ backgroundColor: accentColor }}
                                 >
-                                    Delete This Only
+                                    All Events in Series
                                 </button>
                             </div>
 
                             <button
-                                onClick={() => setDeleteConfirmation({ isOpen: false, noteId: null, dateKey: null, seriesId: null })}
+                                onClick={() => setEditScopePrompt(null)}
                                 className="w-full mt-3 text-sm text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
                             >
                                 Cancel
@@ -19,6 +19,7 @@ import { fetchGithubContributions } from '../utils/github';
 import confetti from 'canvas-confetti';
 import { useDashboardLayout } from '../contexts/DashboardLayoutContext';
 import logoPng from '../assets/ThoughtsPlus.png';
+import { summariseDaySchedule } from '../utils/eventTiming';
 
 interface DashboardProps {
     notes: NotesData;
@@ -1404,6 +1405,9 @@ export function Dashboard({ notes, onNavigateToNote, userName, onUpdateNote, isL
                 id: e.note.id,
                 title: e.note.title,
                 time: e.note.time,
+                endTime: e.note.endTime,
+                endDate: e.note.endDate,
+                allDay: e.note.allDay,
                 date: format(e.date, 'yyyy-MM-dd'),
                 importance: e.note.importance,
                 completed: e.note.completed,
@@ -1454,8 +1458,13 @@ export function Dashboard({ notes, onNavigateToNote, userName, onUpdateNote, isL
                     return false;
                 });
 
+                // Free/busy for today and tomorrow so the briefing can mention clashes and gaps
+                const tomorrow = new Date(now);
+                tomorrow.setDate(tomorrow.getDate() + 1);
+                const schedule = [now, tomorrow].map(day => summariseDaySchedule(notes, format(day, 'yyyy-MM-dd')));
+
                 // @ts-ignore
-                const summary = await window.ipcRenderer.invoke('generate-ai-overview', relevantEvents, userName);
+                const summary = await window.ipcRenderer.invoke('generate-ai-overview', relevantEvents, userName, schedule);
                 setAiSummary(summary);
                 localStorage.setItem('dashboard_ai_summary', summary);
                 localStorage.setItem('dashboard_events_hash', eventsHash);
@@ -6,11 +6,12 @@ import {
     Clipboard, Play, Square, Copy, ArrowUp, ArrowDown, RotateCcw, Terminal,
     Sun, Moon, Palette, Monitor, Wand2
 } from 'lucide-react';
-import { NerdNotebook, NerdCell, NerdCellType, Page } from '../types';
+import { NerdNotebook, NerdCell, NerdCellType, NerdCellOutput, Page } from '../types';
 import { useTheme } from '../contexts/ThemeContext';
 import { AiBackboneModal } from '../components/AiBackboneModal';
 import { MarkdownContextMenu } from '../components/MarkdownContextMenu';
 import { ImageEditor } from '../components/workspace/ImageEditor';
+import { CellOutputs } from '../components/workspace/CellOutputs';
 import {
     getSelection,
     toggleBold,
@@ -24,6 +25,8 @@ import {
     executeContextMenuAction,
     ContextMenuAction
 } from '../utils/smartMarkdown';
+import { DEFAULT_JS_TIMEOUT_SECONDS } from '../utils/jsSandbox';
+import { getNotebookKernels, isPyodideLoaded, loadSharedPyodide, shutdownNotebookKernels } from '../utils/notebookKernels';
 import clsx from 'clsx';
 import Prism from 'prismjs';
 import 'prismjs/themes/prism-tomorrow.css'; // Dark theme for syntax highlighting
@@ -87,7 +90,6 @@ export function NerdbookPage({
     const containerRef = useRef<HTMLDivElement>(null);
     const [pyodideLoading, setPyodideLoading] = useState(false);
     const [pyodideReady, setPyodideReady] = useState(false);
-    const pyodideRef = useRef<any>(null);
     const [showAiBackboneModal, setShowAiBackboneModal] = useState(false);
 
     // Context menu state for smart markdown editing
@@ -155,11 +157,12 @@ export function NerdbookPage({
     useEffect(() => {
         if (activeNotebook && currentView === 'editor') {
             // Clear outputs when entering editor
-            const hasOutputs = activeNotebook.cells.some(c => c.output);
+            const hasOutputs = activeNotebook.cells.some(c => c.output || c.outputs);
             if (hasOutputs) {
                 const clearedCells = activeNotebook.cells.map(c => ({
                     ...c,
                     output: undefined,
+                    outputs: undefined,
                     isExecuting: false,
                     executionError: undefined
                 }));
@@ -1031,29 +1034,12 @@ console.log(\`Current state: \${currentState}\`);`,
 
     // Load Pyodide for Python execution
     const loadPyodide = useCallback(async () => {
-        if (pyodideRef.current) return pyodideRef.current;
+        if (isPyodideLoaded()) return loadSharedPyodide();
 
         setPyodideLoading(true);
         try {
-            // Check if script is already loaded, if not inject it
-            if (!(window as any).loadPyodide) {
-                console.log('Fetching Pyodide script from CDN...');
-                await new Promise<void>((resolve, reject) => {
-                    const script = document.createElement('script');
-                    script.src = "https://cdn.jsdelivr.net/pyodide/v0.24.1/full/pyodide.js";
-                    script.async = true;
-                    script.onload = () => resolve();
-                    script.onerror = () => reject(new Error('Failed to load Pyodide script. Please check your internet connection.'));
-                    document.body.appendChild(script);
-                });
-            }
-
             console.log('Initializing Pyodide...');
-            // @ts-ignore - Pyodide loaded from CDN
-            const pyodide = await window.loadPyodide({
-                indexURL: "https://cdn.jsdelivr.net/pyodide/v0.24.1/full/"
-            });
-            pyodideRef.current = pyodide;
+            const pyodide = await loadSharedPyodide();
             setPyodideReady(true);
             console.log('Pyodide loaded successfully');
             return pyodide;
@@ -1065,6 +1051,14 @@ console.log(\`Current state: \${currentState}\`);`,
         }
     }, []);
 
+    // Only the open notebook keeps its kernels; leaving it shuts them down
+    useEffect(() => {
+        const notebookId = activeNotebook?.id;
+        return () => {
+            if (notebookId) shutdownNotebookKernels(notebookId);
+        };
+    }, [activeNotebook?.id]);
+
     // Run a code cell
     const handleRunCell = useCallback(async (cellId: string) => {
         if (!activeNotebook) return;
@@ -1105,26 +1099,30 @@ console.log(\`Current state: \${currentState}\`);`,
             return;
         }
 
+        const kernels = getNotebookKernels(activeNotebook.id);
+        const executionCount = ++kernels.executionCount;
+
         // Set executing state immediately
         setActiveNotebook(prev => {
             if (!prev) return prev;
             return {
                 ...prev,
                 cells: prev.cells.map(c =>
-                    c.id === cellId ? { ...c, isExecuting: true, output: undefined } : c
+                    c.id === cellId ? { ...c, isExecuting: true, output: undefined, outputs: undefined } : c
                 ),
             };
         });
 
         let output = '';
+        let outputs: NerdCellOutput[] = [];
         let hasError = false;
 
         if (isPython) {
             // Execute Python with Pyodide
             try {
-                let pyodide = pyodideRef.current;
+                let pyodide = isPyodideLoaded() ? await loadSharedPyodide() : null;
                 if (!pyodide) {
-                    output = 'Downloading Python runtime (first run only)...';
+                    output = 'Loading Python runtime...';
                     setActiveNotebook(prev => {
                         if (!prev) return prev;
                         return {
@@ -1183,111 +1181,24 @@ console.log(\`Current state: \${currentState}\`);`,
                     }
                 }
 
-                // Redirect stdout
-                await pyodide.runPythonAsync(`
-import sys
-from io import StringIO
-sys.stdout = StringIO()
-sys.stderr = StringIO()
-                `);
-
-                // Check if matplotlib is being used and set up for inline display
-                const usesMpl = imports.has('matplotlib') || code.includes('plt.') || code.includes('pyplot');
-                if (usesMpl) {
-                    await pyodide.runPythonAsync(`
-import matplotlib
-matplotlib.use('AGG')  # Use non-interactive backend
-import matplotlib.pyplot as plt
-import base64
-from io import BytesIO
-
-# Store original show function
-_original_show = plt.show
-
-def _capture_plot():
-    """Capture current figure as base64 PNG"""
-    buf = BytesIO()
-    plt.savefig(buf, format='png', dpi=100, bbox_inches='tight', facecolor='white')
-    buf.seek(0)
-    img_base64 = base64.b64encode(buf.read()).decode('utf-8')
-    buf.close()
-    plt.close('all')
-    return f'[IMG:data:image/png;base64,{img_base64}]'
-
-def _custom_show(*args, **kwargs):
-    """Custom show that captures and prints the plot"""
-    result = _capture_plot()
-    print(result)
-
-plt.show = _custom_show
-                    `);
-                }
-
-                // Run the user's code
-                const result = await pyodide.runPythonAsync(code);
-
-                // Get stdout
-                const stdout = await pyodide.runPythonAsync('sys.stdout.getvalue()');
-                const stderr = await pyodide.runPythonAsync('sys.stderr.getvalue()');
-
-                if (stderr) {
-                    output = stderr;
-                    hasError = true;
-                } else if (stdout) {
-                    output = stdout;
-                } else if (result !== undefined && result !== null) {
-                    output = String(result);
-                } else {
-                    output = '(No output)';
-                }
+                // Run the user's code in this notebook's namespace
+                const result = await kernels.python.run(code);
+                output = result.output;
+                outputs = result.outputs;
+                hasError = result.error;
             } catch (error: any) {
                 hasError = true;
                 output = `[PYTHON ERROR] ${error.message}`;
             }
         } else {
-            // Execute JavaScript
-            const outputs: string[] = [];
-            const originalLog = console.log;
-            const originalError = console.error;
-            const originalWarn = console.warn;
-
-            console.log = (...args) => {
-                outputs.push(args.map(a =>
-                    typeof a === 'object' ? JSON.stringify(a, null, 2) : String(a)
-                ).join(' '));
-            };
-            console.error = (...args) => {
-                outputs.push(`[ERROR] ${args.map(a =>
-                    typeof a === 'object' ? JSON.stringify(a, null, 2) : String(a)
-                ).join(' ')}`);
-            };
-            console.warn = (...args) => {
-                outputs.push(`[WARN] ${args.map(a =>
-                    typeof a === 'object' ? JSON.stringify(a, null, 2) : String(a)
-                ).join(' ')}`);
-            };
-
-            try {
-                // eslint-disable-next-line no-new-func
-                const AsyncFunction = Object.getPrototypeOf(async function () { }).constructor;
-                const fn = new AsyncFunction(currentContent);
-                const result = await fn();
-
-                if (result !== undefined) {
-                    outputs.push(`>> ${typeof result === 'object' ? JSON.stringify(result, null, 2) : String(result)}`);
-                }
-
-                output = outputs.join('\n') || '(No output)';
-            } catch (error: any) {
-                hasError = true;
-                output = outputs.length > 0
-                    ? outputs.join('\n') + '\n\n' + `[ERROR] ${error.message}`
-                    : `[ERROR] ${error.message}`;
-            } finally {
-                console.log = originalLog;
-                console.error = originalError;
-                console.warn = originalWarn;
-            }
+            // Execute JavaScript in the notebook's sandboxed worker
+            const result = await kernels.javascript.run(currentContent, {
+                timeoutMs: (activeNotebook.jsTimeoutSeconds ?? DEFAULT_JS_TIMEOUT_SECONDS) * 1000,
+                allowAppAccess: activeNotebook.jsAppAccess === true,
+            });
+            output = result.output;
+            outputs = result.outputs;
+            hasError = result.error;
         }
 
         // Update cell with output
@@ -1300,9 +1211,11 @@ plt.show = _custom_show
                         ? {
                             ...c,
                             content: currentContent, // Update content in case it was edited
-                            output: output,
+                            output: output || undefined,
+                            outputs: outputs.length > 0 ? outputs : undefined,
                             isExecuting: false,
                             executionError: hasError,
+                            executionCount,
                             updatedAt: new Date().toISOString()
                         }
                         : c
@@ -1320,7 +1233,7 @@ plt.show = _custom_show
 
         const updatedCells = activeNotebook.cells.map(c =>
             c.id === cellId
-                ? { ...c, output: undefined, executionError: undefined }
+                ? { ...c, output: undefined, outputs: undefined, executionError: undefined }
                 : c
         );
 
@@ -2196,7 +2109,7 @@ plt.show = _custom_show
                         <div className="flex-1 overflow-y-auto bg-white dark:bg-gray-900">
                             <div className="w-full max-w-[95%] xl:max-w-[90%] mx-auto py-6 px-2">
                                 <AnimatePresence>
-                                    {activeNotebook?.cells.map((cell, index) => {
+                                    {activeNotebook?.cells.map((cell) => {
                                         const isSelected = selectedCellId === cell.id;
                                         const isEditing = isSelected && cellMode === 'edit';
                                         void getCellTypeIcon(cell.type); // Icon available for future use
@@ -2228,7 +2141,7 @@ plt.show = _custom_show
                                                     <div className="w-10 flex items-center justify-end pr-1">
                                                         {cell.type === 'code' && (
                                                             <span className="text-xs font-mono text-gray-400">
-                                                                [{index + 1}]:
+                                                                [{cell.isExecuting ? '*' : cell.executionCount ?? ' '}]:
                                                             </span>
                                                         )}
                                                     </div>
@@ -2402,7 +2315,7 @@ plt.show = _custom_show
                                                     )}
 
                                                     {/* Output display for code cells */}
-                                                    {cell.type === 'code' && cell.output && (
+                                                    {cell.type === 'code' && (cell.output || cell.outputs) && (
                                                         <div className="mt-2">
                                                             <div className="flex items-center justify-between mb-1">
                                                                 <div className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
@@ -2430,7 +2343,7 @@ plt.show = _custom_show
                                                                     </button>
                                                                 </div>
                                                             </div>
-                                                            <div
+                                                            {cell.output && <div
                                                                 className={clsx(
                                                                     "rounded-lg px-4 py-3 overflow-auto",
                                                                     "max-h-[500px]", // Increased for images
@@ -2474,7 +2387,10 @@ plt.show = _custom_show
                                                                         >{line}</pre>
                                                                     );
                                                                 })}
-                                                            </div>
+                                                            </div>}
+                                                            {cell.outputs && (
+                                                                <CellOutputs outputs={cell.outputs} dark={useCodeDarkTheme} />
+                                                            )}
                                                         </div>
                                                     )}
                                                 </div>
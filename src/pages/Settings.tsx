@@ -2,9 +2,12 @@ import { useState, useEffect } from 'react';
 import { Folder, Palette, Sparkles, Check, ExternalLink, Clipboard, AlertCircle, LayoutDashboard, Github, NotebookPen, Calendar as CalendarIcon, RefreshCw, Bell, BellOff, Type, Upload, FileUp, Timer, Heart, Sidebar as SidebarIcon, Settings2, X, Trash2, Plus, ChevronDown, ChevronUp, History, Info, Save, Bug, TrendingUp, PlayCircle, Volume2, VolumeX, Moon, Download, AlertTriangle, Square, Layers, Globe, QrCode } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import clsx from 'clsx';
+import { format } from 'date-fns';
 import { useTheme } from '../contexts/ThemeContext';
 import { useNotification } from '../contexts/NotificationContext';
-import { formatICSDate } from '../utils/icsHelper';
+import { ICalEvent, parseICalendar, groupEventSeries, findDuplicateEvents, icalEventToNotes, describeRecurrence } from '../utils/icalParser';
+import { ICSExportOptions, generateICS } from '../utils/icsHelper';
+import { Note, NotesData } from '../types';
 import { useDashboardLayout } from '../contexts/DashboardLayoutContext';
 import { LayoutPreview } from '../components/LayoutPreview';
 import { LAYOUT_CONFIGS, getAllLayoutTypes } from '../utils/dashboardLayouts';
@@ -19,6 +22,7 @@ import { TextGuide } from '../components/TextGuide';
 import { getAppIcon } from '../assets/appIcons';
 import { useFlatGridDividers } from '../hooks/useFlatGridDividers';
 import { WebExportModal } from '../components/WebExportModal';
+import { BackupsCard } from '../components/BackupsCard';
 
 
 // Types for multi-provider configuration
@@ -109,11 +113,19 @@ export function SettingsPage() {
     const [showTextGuide, setShowTextGuide] = useState(false);
 
     // Calendar Import State
-    const [importedEvents, setImportedEvents] = useState<any[]>([]);
+    const [importedEvents, setImportedEvents] = useState<{ event: ICalEvent; overrides: ICalEvent[] }[]>([]);
+    const [importDuplicates, setImportDuplicates] = useState<Map<number, string>>(new Map());
     const [showImportModal, setShowImportModal] = useState(false);
 
     const [selectedImportIndices, setSelectedImportIndices] = useState<number[]>([]);
 
+    // Calendar Export State
+    const [showExportModal, setShowExportModal] = useState(false);
+
+    // ICS Subscription Feed State
+    const [icsFeed, setIcsFeed] = useState<{ enabled: boolean; running: boolean; url: string; hasToken: boolean; port: number } | null>(null);
+    const [icsFeedCopied, setIcsFeedCopied] = useState(false);
+
     // Additional Settings State (Local UI State for demonstration of enriched containers)
     const [notificationSound, setNotificationSound] = useState(true);
     const [quietMode, setQuietMode] = useState(false);
@@ -134,6 +146,7 @@ export function SettingsPage() {
 
     useEffect(() => {
         loadDataPath();
+        loadIcsFeedStatus();
         loadApiKey();
         loadFeatureToggles();
         loadGithubConfig();
@@ -224,6 +237,27 @@ export function SettingsPage() {
         }
     };
 
+    const loadIcsFeedStatus = async () => {
+        // @ts-ignore
+        const status = await window.ipcRenderer?.invoke('get-ics-feed-status');
+        if (status) setIcsFeed(status);
+    };
+
+    const updateIcsFeed = async (config: { enabled?: boolean; useToken?: boolean; regenerateToken?: boolean }) => {
+        // @ts-ignore
+        const result = await window.ipcRenderer.invoke('set-ics-feed-config', config);
+        setIcsFeed(prev => ({
+            enabled: config.enabled ?? prev?.enabled ?? false,
+            running: result.running,
+            url: result.url,
+            hasToken: result.hasToken,
+            port: result.port,
+        }));
+        if (!result.success) {
+            addNotification({ title: 'Calendar Feed Error', message: result.error || 'Could not start the calendar feed.', type: 'error' });
+        }
+    };
+
     const loadApiKey = async () => {
         // @ts-ignore
         const key = await window.ipcRenderer.invoke('get-api-key');
@@ -787,39 +821,33 @@ export function SettingsPage() {
     const handleImportCalendar = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (!file) return;
+        // Allow re-selecting the same file after a cancelled import
+        e.target.value = '';
 
         const reader = new FileReader();
         reader.onload = async (event) => {
             const content = event.target?.result as string;
-            // Basic ICS parsing
-            const events: any[] = [];
-            const lines = content.split(/\r\n|\n|\r/);
-            let currentEvent: any = null;
-
-            for (const line of lines) {
-                if (line.startsWith('BEGIN:VEVENT')) {
-                    currentEvent = {};
-                } else if (line.startsWith('END:VEVENT')) {
-                    if (currentEvent && currentEvent.summary) {
-                        events.push(currentEvent);
-                    }
-                    currentEvent = null;
-                } else if (currentEvent) {
-                    if (line.startsWith('SUMMARY:')) currentEvent.summary = line.substring(8);
-                    else if (line.startsWith('DESCRIPTION:')) currentEvent.description = line.substring(12);
-                    else if (line.startsWith('DTSTART')) {
-                        const val = line.split(':')[1];
-                        currentEvent.start = val;
-                    }
-                }
-            }
+            const { events, warnings } = parseICalendar(content);
+            warnings.forEach(w => console.warn('[ICS Import]', w));
 
-            if (events.length > 0) {
-                setImportedEvents(events);
-                setSelectedImportIndices(events.map((_, i) => i)); // Select all by default
-                setShowImportModal(true);
-            } else {
+            const series = groupEventSeries(events);
+            if (series.length === 0) {
                 addNotification({ title: 'Import Failed', message: 'No valid events found in ICS file.', type: 'error' });
+                return;
+            }
+
+            // Flag events that already exist so they aren't imported twice
+            // @ts-ignore
+            const currentData = await window.ipcRenderer.invoke('get-data');
+            const duplicates = findDuplicateEvents(series.map(s => s.event), currentData?.notes || {});
+
+            setImportedEvents(series);
+            setImportDuplicates(duplicates);
+            setSelectedImportIndices(series.map((_, i) => i).filter(i => !duplicates.has(i)));
+            setShowImportModal(true);
+
+            if (warnings.length > 0) {
+                addNotification({ title: 'Import Warnings', message: `${warnings.length} issue(s) found while reading the file. Some events may be skipped or shown in local time.`, type: 'info' });
             }
         };
         reader.readAsText(file);
@@ -829,48 +857,62 @@ export function SettingsPage() {
         // Convert imported events to Notes
         // @ts-ignore
         const currentData = await window.ipcRenderer.invoke('get-data');
-        const notes = currentData.notes || {};
+        const notes: NotesData = { ...(currentData.notes || {}) };
 
         let count = 0;
+        let occurrences = 0;
         selectedImportIndices.forEach(idx => {
-            const evt = importedEvents[idx];
-            if (!evt.start) return;
-
-            // Parse date string (simple basic ISO/ICS format handling)
-            // 20231225T100000Z or 20231225
-            let dateStr = evt.start;
-            let timeStr = '09:00';
-
-            if (dateStr.includes('T')) {
-                const parts = dateStr.split('T');
-                dateStr = parts[0];
-                const cleanTime = parts[1].replace('Z', '');
-                timeStr = `${cleanTime.substring(0, 2)}:${cleanTime.substring(2, 4)}`;
-            }
+            const series = importedEvents[idx];
+            if (!series) return;
 
-            // Format to YYYY-MM-DD
-            if (dateStr.length === 8) {
-                dateStr = `${dateStr.substring(0, 4)}-${dateStr.substring(4, 6)}-${dateStr.substring(6, 8)}`;
-            }
-
-            const note: any = {
-                id: crypto.randomUUID(),
-                title: evt.summary || 'Imported Event',
-                description: evt.description || '',
-                time: timeStr,
-                importance: 'medium'
-            };
-
-            if (!notes[dateStr]) notes[dateStr] = [];
-            notes[dateStr].push(note);
+            const instances = icalEventToNotes(series.event, series.overrides);
+            instances.forEach(({ dateKey, note }) => {
+                notes[dateKey] = [...(notes[dateKey] || []), note];
+            });
+            occurrences += instances.length;
             count++;
         });
 
         // @ts-ignore
         await window.ipcRenderer.invoke('save-data', { ...currentData, notes });
-        addNotification({ title: 'Import Complete', message: `Imported ${count} events successfully.`, type: 'success' });
+        addNotification({
+            title: 'Import Complete',
+            message: occurrences > count
+                ? `Imported ${count} events (${occurrences} occurrences) successfully.`
+                : `Imported ${count} events successfully.`,
+            type: 'success'
+        });
         setShowImportModal(false);
         setImportedEvents([]);
+        setImportDuplicates(new Map());
+    };
+
+    const handleExportCalendar = async (options: ICSExportOptions) => {
+        try {
+            // @ts-ignore
+            const currentData = await window.ipcRenderer.invoke('get-data');
+            const ics = generateICS({
+                notes: currentData?.notes || {},
+                milestones: currentData?.milestones || {},
+                lifeChapters: currentData?.lifeChapters || { chapters: [] },
+            }, options);
+
+            const blob = new Blob([ics], { type: 'text/calendar;charset=utf-8' });
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `thoughtsplus-calendar-${new Date().toISOString().split('T')[0]}.ics`;
+            document.body.appendChild(a);
+            a.click();
+            document.body.removeChild(a);
+            URL.revokeObjectURL(url);
+
+            addNotification({ title: 'Export Complete', message: 'Calendar exported as .ics file.', type: 'success' });
+            setShowExportModal(false);
+        } catch (e) {
+            console.error('Failed to export calendar', e);
+            addNotification({ title: 'Export Failed', message: 'Could not export calendar data.', type: 'error' });
+        }
     };
 
     return (
@@ -1746,15 +1788,82 @@ export function SettingsPage() {
                                 <input type="file" className="hidden" accept=".ics" onChange={handleImportCalendar} />
                             </label>
 
+                            <div className="p-3 rounded-xl bg-gray-50 dark:bg-gray-700/50 border border-gray-100 dark:border-gray-600 min-w-0 space-y-2">
+                                <div className="flex items-center justify-between min-w-0">
+                                    <div className="flex items-center gap-3 min-w-0 flex-1">
+                                        <Globe className="w-4 h-4 text-gray-400 shrink-0" />
+                                        <div className="min-w-0 flex-1">
+                                            <span className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate block">Subscription Feed</span>
+                                            <span className="text-xs text-gray-500 dark:text-gray-400 truncate block">Read-only .ics feed for local calendar apps</span>
+                                        </div>
+                                    </div>
+                                    <button
+                                        onClick={() => updateIcsFeed({ enabled: !icsFeed?.enabled })}
+                                        className={clsx(
+                                            "w-9 h-5 rounded-full p-0.5 transition-colors duration-300 focus:outline-none shrink-0"
+                                        )}
+                                        style={{ backgroundColor: icsFeed?.enabled ? accentColor : undefined }}
+                                    >
+                                        <div className={clsx("w-full h-full rounded-full transition-colors duration-300", !icsFeed?.enabled && "bg-gray-300 dark:bg-gray-600")}>
+                                            <motion.div
+                                                layout
+                                                className="w-4 h-4 rounded-full bg-white shadow-md"
+                                                animate={{ x: icsFeed?.enabled ? 16 : 0 }}
+                                                transition={{ type: "spring", stiffness: 500, damping: 30 }}
+                                            />
+                                        </div>
+                                    </button>
+                                </div>
+                                {icsFeed?.enabled && (
+                                    <>
+                                        <div className="flex items-center gap-2 min-w-0">
+                                            <code className={clsx(
+                                                "flex-1 min-w-0 truncate text-[11px] px-2 py-1 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600",
+                                                icsFeed.running ? "text-gray-600 dark:text-gray-300" : "text-red-500 line-through"
+                                            )}>
+                                                {icsFeed.url}
+                                            </code>
+                                            <button
+                                                onClick={() => {
+                                                    navigator.clipboard.writeText(icsFeed.url);
+                                                    setIcsFeedCopied(true);
+                                                    setTimeout(() => setIcsFeedCopied(false), 2000);
+                                                }}
+                                                className="p-1.5 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-500 shrink-0"
+                                                title="Copy feed URL"
+                                            >
+                                                {icsFeedCopied ? <Check className="w-3.5 h-3.5 text-green-500" /> : <Clipboard className="w-3.5 h-3.5" />}
+                                            </button>
+                                        </div>
+                                        <div className="flex items-center justify-between gap-2">
+                                            <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={icsFeed.hasToken}
+                                                    onChange={(e) => updateIcsFeed({ useToken: e.target.checked })}
+                                                    className="rounded"
+                                                />
+                                                Require access token
+                                            </label>
+                                            {icsFeed.hasToken && (
+                                                <button
+                                                    onClick={() => updateIcsFeed({ regenerateToken: true })}
+                                                    className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                                                >
+                                                    <RefreshCw className="w-3 h-3" /> New token
+                                                </button>
+                                            )}
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+
                             <div className="grid grid-cols-2 gap-3 mt-auto">
                                 <button
-                                    onClick={() => {
-                                        // @ts-ignore
-                                        window.ipcRenderer.invoke('open-external', `file://${dataPath}`);
-                                    }}
+                                    onClick={() => setShowExportModal(true)}
                                     className="flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-gray-50 dark:bg-gray-700/50 hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600 transition-all text-xs font-semibold"
                                 >
-                                    <Download className="w-3.5 h-3.5" /> Export Data
+                                    <Download className="w-3.5 h-3.5" /> Export .ics
                                 </button>
                                 <button
                                     onClick={() => {
@@ -1772,7 +1881,8 @@ export function SettingsPage() {
                         </div>
                     </motion.div>
 
-
+                    {/* Automatic Backups */}
+                    <BackupsCard />
 
                     {/* Fortnite Creator Codes - Hidden but API logic preserved */}
                     {/* Uncomment this section if you need to re-enable Fortnite creator codes in the future
@@ -2882,8 +2992,10 @@ export function SettingsPage() {
                     onClose={() => {
                         setShowImportModal(false);
                         setImportedEvents([]);
+                        setImportDuplicates(new Map());
                     }}
-                    events={importedEvents}
+                    events={importedEvents.map(s => s.event)}
+                    duplicates={importDuplicates}
                     selectedIndices={selectedImportIndices}
                     toggleIndex={(i) => {
                         setSelectedImportIndices(prev =>
@@ -2893,6 +3005,16 @@ export function SettingsPage() {
                     onConfirm={confirmImport}
                 />
 
+                <ExportModal
+                    isOpen={showExportModal}
+                    onClose={() => setShowExportModal(false)}
+                    onExport={handleExportCalendar}
+                    onOpenRawData={() => {
+                        // @ts-ignore
+                        window.ipcRenderer.invoke('open-external', `file://${dataPath}`);
+                    }}
+                />
+
                 {/* Tutorial Gallery Modal */}
                 <AnimatePresence>
                     {showTutorialGallery && (
@@ -2922,13 +3044,15 @@ function ImportModal({
     isOpen,
     onClose,
     events,
+    duplicates,
     selectedIndices,
     toggleIndex,
     onConfirm
 }: {
     isOpen: boolean;
     onClose: () => void;
-    events: any[];
+    events: ICalEvent[];
+    duplicates: Map<number, string>;
     selectedIndices: number[];
     toggleIndex: (i: number) => void;
     onConfirm: () => void;
@@ -2940,7 +3064,10 @@ function ImportModal({
             <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl max-w-2xl w-full max-h-[80vh] flex flex-col border border-gray-100 dark:border-gray-700">
                 <div className="p-6 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center bg-white dark:bg-gray-800 rounded-t-2xl">
                     <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">Select Events to Import</h3>
-                    <div className="text-sm text-gray-500">{selectedIndices.length} selected</div>
+                    <div className="text-sm text-gray-500">
+                        {selectedIndices.length} selected
+                        {duplicates.size > 0 && <span className="ml-2 text-amber-600 dark:text-amber-400">{duplicates.size} duplicate{duplicates.size === 1 ? '' : 's'}</span>}
+                    </div>
                 </div>
                 <div className="flex-1 overflow-y-auto p-6 space-y-3 custom-scrollbar">
                     {events.map((evt, i) => (
@@ -2963,8 +3090,30 @@ function ImportModal({
                             <div>
                                 <h4 className="font-bold text-gray-800 dark:text-gray-100">{evt.summary || 'Untitled Event'}</h4>
                                 <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-                                    {evt.start ? formatICSDate(evt.start) : 'No Date'}
+                                    {evt.start.allDay
+                                        ? `${format(evt.start.date, 'MMM d, yyyy')} (all day)`
+                                        : format(evt.start.date, 'MMM d, yyyy, h:mm a')}
+                                    {evt.start.tzid && !evt.start.allDay && <span className="ml-1 text-xs text-gray-400">from {evt.start.tzid}</span>}
                                 </div>
+                                {(evt.rrule || evt.alarms.length > 0 || duplicates.has(i)) && (
+                                    <div className="flex flex-wrap gap-1.5 mt-2">
+                                        {evt.rrule && (
+                                            <span className="text-[11px] px-2 py-0.5 rounded-md bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300">
+                                                {describeRecurrence(evt.rrule)}
+                                            </span>
+                                        )}
+                                        {evt.alarms.length > 0 && (
+                                            <span className="text-[11px] px-2 py-0.5 rounded-md bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">
+                                                Reminder {evt.alarms.map(m => `${m}m`).join(', ')}
+                                            </span>
+                                        )}
+                                        {duplicates.has(i) && (
+                                            <span className="text-[11px] px-2 py-0.5 rounded-md bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300">
+                                                {duplicates.get(i)}
+                                            </span>
+                                        )}
+                                    </div>
+                                )}
                                 {evt.description && <p className="text-xs text-gray-400 mt-2 line-clamp-2">{evt.description}</p>}
                             </div>
                         </div>
@@ -2986,3 +3135,123 @@ function ImportModal({
         </div>
     );
 }
+
+const EXPORT_IMPORTANCE_LEVELS: Note['importance'][] = ['high', 'medium', 'low', 'misc'];
+
+function ExportModal({
+    isOpen,
+    onClose,
+    onExport,
+    onOpenRawData
+}: {
+    isOpen: boolean;
+    onClose: () => void;
+    onExport: (options: ICSExportOptions) => void;
+    onOpenRawData: () => void;
+}) {
+    const [startDate, setStartDate] = useState('');
+    const [endDate, setEndDate] = useState('');
+    const [importance, setImportance] = useState<Note['importance'][]>(EXPORT_IMPORTANCE_LEVELS);
+    const [includeCompleted, setIncludeCompleted] = useState(true);
+    const [includeMilestones, setIncludeMilestones] = useState(true);
+    const [includeLifeChapters, setIncludeLifeChapters] = useState(true);
+
+    if (!isOpen) return null;
+
+    const toggleImportance = (level: Note['importance']) => {
+        setImportance(prev => prev.includes(level) ? prev.filter(l => l !== level) : [...prev, level]);
+    };
+
+    const checkbox = (label: string, checked: boolean, onChange: () => void) => (
+        <button
+            key={label}
+            onClick={onChange}
+            className={clsx(
+                "flex items-center gap-2 px-3 py-2 rounded-xl border text-sm font-medium transition-all",
+                checked
+                    ? "bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-300"
+                    : "bg-gray-50 dark:bg-gray-700/30 border-gray-100 dark:border-gray-700 text-gray-600 dark:text-gray-400"
+            )}
+        >
+            <div className={clsx(
+                "w-4 h-4 rounded flex items-center justify-center border",
+                checked ? "bg-blue-500 border-blue-500" : "border-gray-300 dark:border-gray-500"
+            )}>
+                {checked && <Check className="w-3 h-3 text-white" />}
+            </div>
+            {label}
+        </button>
+    );
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl max-w-lg w-full flex flex-col border border-gray-100 dark:border-gray-700">
+                <div className="p-6 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center">
+                    <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">Export Calendar (.ics)</h3>
+                    <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+                <div className="p-6 space-y-5">
+                    <div>
+                        <label className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1.5 block">Date range (leave empty for all)</label>
+                        <div className="grid grid-cols-2 gap-3">
+                            <input
+                                type="date"
+                                value={startDate}
+                                onChange={e => setStartDate(e.target.value)}
+                                className="px-3 py-2 rounded-xl bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 text-sm text-gray-800 dark:text-gray-200"
+                            />
+                            <input
+                                type="date"
+                                value={endDate}
+                                onChange={e => setEndDate(e.target.value)}
+                                className="px-3 py-2 rounded-xl bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 text-sm text-gray-800 dark:text-gray-200"
+                            />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1.5 block">Importance</label>
+                        <div className="flex flex-wrap gap-2">
+                            {EXPORT_IMPORTANCE_LEVELS.map(level =>
+                                checkbox(level.charAt(0).toUpperCase() + level.slice(1), importance.includes(level), () => toggleImportance(level))
+                            )}
+                        </div>
+                    </div>
+                    <div>
+                        <label className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1.5 block">Include</label>
+                        <div className="flex flex-wrap gap-2">
+                            {checkbox('Completed events', includeCompleted, () => setIncludeCompleted(v => !v))}
+                            {checkbox('Milestones', includeMilestones, () => setIncludeMilestones(v => !v))}
+                            {checkbox('Life chapters', includeLifeChapters, () => setIncludeLifeChapters(v => !v))}
+                        </div>
+                    </div>
+                </div>
+                <div className="p-6 border-t border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50 rounded-b-2xl flex justify-between items-center gap-3">
+                    <button onClick={onOpenRawData} className="text-xs font-medium text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 transition-colors">
+                        Open raw JSON
+                    </button>
+                    <div className="flex gap-3">
+                        <button onClick={onClose} className="px-4 py-2 rounded-xl text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 font-medium transition-colors">
+                            Cancel
+                        </button>
+                        <button
+                            onClick={() => onExport({
+                                startDate: startDate || undefined,
+                                endDate: endDate || undefined,
+                                importance,
+                                includeCompleted,
+                                includeMilestones,
+                                includeLifeChapters,
+                            })}
+                            disabled={importance.length === 0 || (!!startDate && !!endDate && startDate > endDate)}
+                            className="px-6 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 text-white font-bold shadow-lg shadow-blue-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                        >
+                            Export
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
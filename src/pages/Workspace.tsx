@@ -1,11 +1,13 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FileTree, ContentArea, NerdbookEditor, BoardEditor, TabBar, LinkedNotesGraph, ImageGallery, ConnectionsPanel, NodeMapEditor, FlashcardsGallery, AiFlashcardGenerator } from '../components/workspace';
+import { FileTree, ContentArea, NerdbookEditor, BoardEditor, TabBar, LinkedNotesGraph, ImageGallery, ConnectionsPanel, NodeMapEditor, FlashcardsGallery, AiFlashcardGenerator, MentionRenameModal, BrokenLinksModal, TrashModal, FilePropertiesModal, VaultImportReportModal } from '../components/workspace';
 import {
     WorkspaceFile,
     WorkspaceFolder,
     WorkspaceData,
     FileType,
+    PropertyDefinition,
+    PropertyValue,
     RecentFile,
     FILE_EXTENSIONS,
     detectFileType,
@@ -23,7 +25,21 @@ import {
     addToRecentFiles,
     createDebouncedSave,
     cancelDebouncedSave,
+    saveSession,
+    applySession,
+    takeWorkspaceOpenRequest,
+    WORKSPACE_OPEN_REQUEST_EVENT,
 } from '../utils/workspaceStorage';
+import { TrashEntry, planTrashRestore } from '../utils/workspaceTrash';
+import { VaultImportReport } from '../components/workspace/VaultImportReportModal';
+import { loadBoardSnapshots } from '../utils/boardSnapshot';
+import { planSite } from '../utils/sitePublisher';
+import { shutdownNotebookKernelsExcept } from '../utils/notebookKernels';
+import { MentionRenameFile } from '../utils/mentionRefactor';
+import { MentionAnchor } from '../utils/noteLinking';
+import { PaletteCommand } from '../utils/commandRegistry';
+import { useRegisterCommands } from '../hooks/useCommandRegistry';
+import { useWorkspaceTags } from '../hooks/useWorkspaceTags';
 import {
     runMigrationWithResult,
     ExistingData,
@@ -129,6 +145,19 @@ export function WorkspacePage({
     const [showImageGallery, setShowImageGallery] = useState(false);
     const [connectionsModalFile, setConnectionsModalFile] = useState<WorkspaceFile | null>(null);
     const [nodeMapRefreshKey, setNodeMapRefreshKey] = useState(0); // Increment to force NodeMapEditor reload
+    const [editorRefreshKey, setEditorRefreshKey] = useState(0); // Increment to reload editors after files change on disk
+    const [mentionRename, setMentionRename] = useState<{
+        oldName: string;
+        newName: string;
+        files: MentionRenameFile[];
+    } | null>(null);
+    const [showBrokenLinks, setShowBrokenLinks] = useState(false);
+    const [showTrash, setShowTrash] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+    const [propertiesFileId, setPropertiesFileId] = useState<string | null>(null);
+    const [vaultImportReport, setVaultImportReport] = useState<VaultImportReport | null>(null);
+    const [tagFilter, setTagFilter] = useState<string | null>(null); // Tag the file tree and graph are filtered by
+    const [pendingAnchor, setPendingAnchor] = useState<{ fileId: string; anchor: MentionAnchor } | null>(null); // Heading or block to jump to once a file opens
     const [showAiFlashcardGenerator, setShowAiFlashcardGenerator] = useState(false);
     const [aiFlashcardInitialFileId, setAiFlashcardInitialFileId] = useState<string | undefined>(undefined);
 
@@ -327,6 +356,14 @@ export function WorkspacePage({
         return workspaceData.files.find(f => f.id === activeId) || null;
     }, [workspaceData.activeTabId, workspaceData.files]);
 
+    // Anchor to focus in the active editor, if the reference that opened it named one
+    const focusAnchor = pendingAnchor && pendingAnchor.fileId === activeFile?.id ? pendingAnchor.anchor : undefined;
+
+    // Forget it once another tab is opened, so coming back doesn't jump again
+    useEffect(() => {
+        if (pendingAnchor && pendingAnchor.fileId !== activeFile?.id) setPendingAnchor(null);
+    }, [activeFile?.id, pendingAnchor]);
+
     // Load note content when a .note file becomes active
     useEffect(() => {
         const loadNoteContent = async () => {
@@ -403,6 +440,11 @@ export function WorkspacePage({
             .filter((f): f is WorkspaceFile => f !== null);
     }, [workspaceData.openTabs, workspaceData.files]);
 
+    // A Nerdbook's kernels live while its tab is open
+    useEffect(() => {
+        shutdownNotebookKernelsExcept(openTabFiles.filter(f => f?.type === 'exec').map(f => f.contentId));
+    }, [openTabFiles]);
+
     // Build recent files list
     const recentFiles: RecentFile[] = useMemo(() => {
         return workspaceData.recentFiles
@@ -680,6 +722,13 @@ export function WorkspacePage({
         });
     }, [workspaceData, saveWorkspaceData]);
 
+    // Open a file from an @mention, jumping to its #heading or ^block if it names one
+    const handleNavigateToReference = useCallback((fileId: string, anchor?: MentionAnchor) => {
+        handleFileSelect(fileId);
+        // A fresh object each time, so following the same reference again re-focuses it
+        setPendingAnchor(anchor ? { fileId, anchor: { ...anchor } } : null);
+    }, [handleFileSelect]);
+
     // Handle tab close
     const handleTabClose = useCallback((fileId: string) => {
         const newOpenTabs = workspaceData.openTabs.filter(id => id !== fileId);
@@ -909,6 +958,90 @@ export function WorkspacePage({
         return null; // Success
     }, [workspaceData, saveWorkspaceData, expandedFolders]);
 
+    // Display name for a file on disk, for mention previews and reports
+    const getFileNameForPath = useCallback((filePath: string) =>
+        workspaceData.files.find(f => f.filePath === filePath)?.name ?? filePath.split(/[\\/]/).pop() ?? filePath,
+    [workspaceData.files]);
+
+    // Files were rewritten on disk - drop cached note text and remount open editors
+    const reloadRewrittenFiles = useCallback((filePaths: string[]) => {
+        const fileIds = workspaceData.files.filter(f => f.filePath && filePaths.includes(f.filePath)).map(f => f.id);
+        setNoteContents(prev => {
+            const next = { ...prev };
+            fileIds.forEach(id => delete next[id]);
+            return next;
+        });
+        setEditorRefreshKey(prev => prev + 1);
+    }, [workspaceData.files]);
+
+    // After a rename, offer to update @mentions that still use the old name
+    const offerMentionRename = useCallback(async (files: WorkspaceFile[], oldName: string, newName: string) => {
+        if (oldName.toLowerCase() === newName.toLowerCase()) return;
+        // Mentions still resolve if another file has the old name
+        if (files.some(f => f.name.toLowerCase() === oldName.toLowerCase())) return;
+
+        // @ts-ignore
+        const plan = await window.ipcRenderer?.invoke('plan-mention-rename', { oldName, newName });
+        if (plan?.success && plan.files.length > 0) {
+            setMentionRename({ oldName, newName, files: plan.files });
+        }
+    }, []);
+
+    const rewriteMentions = useCallback(async (oldName: string, newName: string, filePaths: string[]) => {
+        // @ts-ignore
+        const result = await window.ipcRenderer?.invoke('apply-mention-rename', { oldName, newName, filePaths });
+        if (!result?.success) {
+            alert(`Could not update mentions: ${result?.error || 'unknown error'}`);
+            return false;
+        }
+        reloadRewrittenFiles(result.updated);
+        return true;
+    }, [reloadRewrittenFiles]);
+
+    const handleApplyMentionRename = useCallback(async (filePaths: string[]) => {
+        if (!mentionRename) return;
+        if (await rewriteMentions(mentionRename.oldName, mentionRename.newName, filePaths)) {
+            setMentionRename(null);
+        }
+    }, [mentionRename, rewriteMentions]);
+
+    // A restored version either replaces the file on disk or sits next to it as a new file
+    const handleRevisionRestored = useCallback((file: WorkspaceFile, filePath: string, asCopy: boolean) => {
+        if (!asCopy) {
+            reloadRewrittenFiles([filePath]);
+            return;
+        }
+
+        const now = new Date().toISOString();
+        const fileName = filePath.split(/[\\/]/).pop() || file.name;
+        const copy: WorkspaceFile = {
+            ...file,
+            id: crypto.randomUUID(),
+            name: fileName.replace(/\.[^.]+$/, ''),
+            createdAt: now,
+            updatedAt: now,
+            contentId: crypto.randomUUID(),
+            filePath,
+        };
+        saveWorkspaceData({
+            ...workspaceData,
+            files: [...workspaceData.files, copy],
+            recentFiles: addToRecentFiles(copy.id, workspaceData.recentFiles),
+            openTabs: [...workspaceData.openTabs, copy.id],
+            activeTabId: copy.id,
+        });
+    }, [workspaceData, saveWorkspaceData, reloadRewrittenFiles]);
+
+    const handleOpenFileByPath = useCallback((filePath: string) => {
+        const file = workspaceData.files.find(f => f.filePath === filePath);
+        if (file) {
+            handleFileSelect(file.id);
+            setShowBrokenLinks(false);
+        }
+    }, [workspaceData.files, handleFileSelect]);
+
+    const brokenLinkKnownNames = useMemo(() => workspaceData.files.map(f => f.name), [workspaceData.files]);
+
     const handleRename = useCallback((id: string, isFolder: boolean) => {
         if (isFolder) {
             const folder = workspaceData.folders.find(f => f.id === id);
@@ -945,7 +1078,8 @@ export function WorkspacePage({
             f.id === fileId ? { ...f, name: newName.trim(), filePath: newFilePath, updatedAt: new Date().toISOString() } : f
         );
         saveWorkspaceData({ ...workspaceData, files: updatedFiles });
-    }, [workspaceData, saveWorkspaceData]);
+        offerMentionRename(updatedFiles, file.name, newName.trim());
+    }, [workspaceData, saveWorkspaceData, offerMentionRename]);
 
     const executeRename = useCallback(async (newName: string) => {
         if (!renameModal) return;
@@ -984,9 +1118,10 @@ export function WorkspacePage({
                 f.id === id ? { ...f, name: newName.trim(), filePath: newFilePath, updatedAt: new Date().toISOString() } : f
             );
             saveWorkspaceData({ ...workspaceData, files: updatedFiles });
+            offerMentionRename(updatedFiles, file.name, newName.trim());
         }
         setRenameModal(null);
-    }, [renameModal, workspaceData, saveWorkspaceData]);
+    }, [renameModal, workspaceData, saveWorkspaceData, offerMentionRename]);
 
     const handleDelete = useCallback((id: string, isFolder: boolean) => {
         if (isFolder) {
@@ -998,22 +1133,31 @@ export function WorkspacePage({
         }
     }, [workspaceData]);
 
+    // Move deleted items into the workspace trash; external documents stay on disk
+    const moveToTrash = useCallback(async (name: string, isFolder: boolean, files: WorkspaceFile[], folders: WorkspaceFolder[]) => {
+        // @ts-ignore
+        const result = await window.ipcRenderer?.invoke('trash-workspace-items', { name, isFolder, files, folders });
+        if (result && !result.success) {
+            alert(`Failed to move "${name}" to the trash: ${result.error}`);
+            return false;
+        }
+        return true;
+    }, []);
+
     const executeDelete = useCallback(async () => {
         if (!deleteModal) return;
-        const { id, isFolder } = deleteModal;
+        const { id, isFolder, name } = deleteModal;
 
         if (isFolder) {
             const { fileIds, folderIds } = getDescendants(id, workspaceData.files, workspaceData.folders);
 
-            // Delete workspace files from disk (but not external document files)
-            for (const fileId of fileIds) {
-                const file = workspaceData.files.find(f => f.id === fileId);
-                if (file?.filePath && !isDocumentType(file.type)) {
-                    // Only delete actual workspace files, not external documents
-                    // @ts-ignore
-                    await window.ipcRenderer?.invoke('delete-workspace-file', file.filePath);
-                }
-            }
+            const trashed = await moveToTrash(
+                name,
+                true,
+                workspaceData.files.filter(f => fileIds.includes(f.id)),
+                workspaceData.folders.filter(f => f.id === id || folderIds.includes(f.id))
+            );
+            if (!trashed) return;
 
             const updatedFiles = workspaceData.files.filter(f => !fileIds.includes(f.id));
             const updatedFolders = workspaceData.folders.filter(f => f.id !== id && !folderIds.includes(f.id));
@@ -1043,15 +1187,12 @@ export function WorkspacePage({
         } else {
             // Delete file
             const file = workspaceData.files.find(f => f.id === id);
-            if (file?.filePath) {
+            if (file) {
                 if (isDocumentType(file.type)) {
                     // External document file - only remove from workspace, don't delete actual file
                     console.log('[Workspace] Removing external file from workspace (not deleting):', file.name);
-                } else {
-                    // Workspace file - delete from disk
-                    // @ts-ignore
-                    await window.ipcRenderer?.invoke('delete-workspace-file', file.filePath);
                 }
+                if (!await moveToTrash(name, false, [file], [])) return;
             }
 
             const updatedFiles = workspaceData.files.filter(f => f.id !== id);
@@ -1071,7 +1212,33 @@ export function WorkspacePage({
             });
         }
         setDeleteModal(null);
-    }, [deleteModal, workspaceData, expandedFolders, saveWorkspaceData]);
+    }, [deleteModal, workspaceData, expandedFolders, saveWorkspaceData, moveToTrash]);
+
+    // Put a restored trash entry back into the tree; its files are already back on disk
+    const handleTrashRestore = useCallback((entry: TrashEntry, restoredPaths: Record<string, string>) => {
+        const { files, folders } = planTrashRestore(entry, workspaceData.files, workspaceData.folders, restoredPaths);
+        const restoredIds = new Set([...files.map(f => f.id), ...folders.map(f => f.id)]);
+        saveWorkspaceData({
+            ...workspaceData,
+            files: [...workspaceData.files.filter(f => !restoredIds.has(f.id)), ...files],
+            folders: [...workspaceData.folders.filter(f => !restoredIds.has(f.id)), ...folders],
+        });
+    }, [workspaceData, saveWorkspaceData]);
+
+    const fileTags = useWorkspaceTags(workspaceData.files);
+    const knownTags = useMemo(() => [...new Set(Object.values(fileTags).flat())].sort(), [fileTags]);
+    const propertiesFile = propertiesFileId ? workspaceData.files.find(f => f.id === propertiesFileId) : undefined;
+
+    const handleSaveFileProperties = useCallback((fileId: string, tags: string[], properties: Record<string, PropertyValue>, definitions: PropertyDefinition[]) => {
+        saveWorkspaceData({
+            ...workspaceData,
+            files: workspaceData.files.map(f =>
+                f.id === fileId ? { ...f, tags, properties, updatedAt: new Date().toISOString() } : f
+            ),
+            propertyDefinitions: definitions,
+        });
+        setPropertiesFileId(null);
+    }, [workspaceData, saveWorkspaceData]);
 
     const handleMove = useCallback((id: string, newParentId: string | null, isFolder: boolean) => {
         if (isFolder) {
@@ -1324,6 +1491,7 @@ export function WorkspacePage({
             const result = await window.ipcRenderer?.invoke('open-workspace-file-dialog');
 
             if (!result || !result.success || result.canceled) {
+                if (result?.error) alert(`Failed to open file: ${result.error}`);
                 return;
             }
 
@@ -1373,6 +1541,178 @@ export function WorkspacePage({
         }
     }, [workspaceData, handleFileSelect]);
 
+    // Export a notebook as .ipynb; the main process asks where to save it
+    const handleExportIpynb = useCallback(async (fileId: string) => {
+        const file = workspaceData.files.find(f => f.id === fileId);
+        if (!file?.filePath) return;
+        // @ts-ignore
+        const result = await window.ipcRenderer?.invoke('export-notebook-ipynb', { filePath: file.filePath });
+        if (result && !result.success && !result.canceled) {
+            alert(`Failed to export notebook: ${result.error}`);
+        }
+    }, [workspaceData.files]);
+
+    // Import a markdown vault: the main process writes the notes, here they get folders in the tree
+    const handleImportVault = useCallback(async () => {
+        // @ts-ignore
+        const result = await window.ipcRenderer?.invoke('import-markdown-vault');
+        if (!result?.success) {
+            if (result && !result.canceled) alert(`Failed to import vault: ${result.error}`);
+            return;
+        }
+
+        const now = new Date().toISOString();
+        const rootFolder: WorkspaceFolder = { id: crypto.randomUUID(), name: result.vaultName, parentId: null, createdAt: now, updatedAt: now };
+        const folderIds = new Map<string, string>([['', rootFolder.id]]);
+        const folders: WorkspaceFolder[] = [rootFolder];
+        // Folder for a vault-relative directory, creating its parents first
+        const getFolderId = (dir: string): string => {
+            const existing = folderIds.get(dir);
+            if (existing) return existing;
+            const slash = dir.lastIndexOf('/');
+            const folder: WorkspaceFolder = {
+                id: crypto.randomUUID(),
+                name: dir.slice(slash + 1),
+                parentId: getFolderId(slash === -1 ? '' : dir.slice(0, slash)),
+                createdAt: now,
+                updatedAt: now,
+            };
+            folderIds.set(dir, folder.id);
+            folders.push(folder);
+            return folder.id;
+        };
+
+        const files: WorkspaceFile[] = result.notes.map((note: { relativePath: string; name: string; filePath: string; tags: string[] }) => {
+            const slash = note.relativePath.lastIndexOf('/');
+            return {
+                id: crypto.randomUUID(),
+                name: note.name,
+                type: 'note' as FileType,
+                parentId: getFolderId(slash === -1 ? '' : note.relativePath.slice(0, slash)),
+                createdAt: now,
+                updatedAt: now,
+                contentId: crypto.randomUUID(),
+                filePath: note.filePath,
+                ...(note.tags.length > 0 && { tags: note.tags }),
+            };
+        });
+
+        saveWorkspaceData({
+            ...workspaceData,
+            files: [...workspaceData.files, ...files],
+            folders: [...workspaceData.folders, ...folders],
+        });
+        setExpandedFolders(prev => new Set([...prev, rootFolder.id]));
+        setVaultImportReport({
+            vaultName: result.vaultName,
+            notesImported: files.length,
+            imagesCopied: result.imagesCopied,
+            unresolved: result.unresolved,
+        });
+    }, [workspaceData, saveWorkspaceData]);
+
+    // Export every file as markdown; boards are drawn here since the main process has no canvas
+    const handleExportMarkdown = useCallback(async () => {
+        const snapshots = await loadBoardSnapshots(workspaceData.files);
+
+        // @ts-ignore
+        const result = await window.ipcRenderer?.invoke('export-workspace-markdown', {
+            files: workspaceData.files,
+            folders: workspaceData.folders,
+            snapshots,
+        });
+        if (result && !result.success && !result.canceled) {
+            alert(`Failed to export workspace: ${result.error}`);
+        } else if (result?.failed?.length) {
+            alert(`Exported ${result.exported} files. These could not be exported:\n${result.failed.join('\n')}`);
+        }
+    }, [workspaceData.files, workspaceData.folders]);
+
+    // Publish a folder (or the whole workspace) as a static website
+    const handlePublishSite = useCallback(async (folderId: string | null) => {
+        const siteFileIds = new Set(planSite(workspaceData.files, workspaceData.folders, folderId).map(entry => entry.fileId));
+        const snapshots = await loadBoardSnapshots(workspaceData.files.filter(f => siteFileIds.has(f.id)));
+
+        // @ts-ignore
+        const result = await window.ipcRenderer?.invoke('publish-static-site', {
+            folderId,
+            files: workspaceData.files,
+            folders: workspaceData.folders,
+            snapshots,
+        });
+        if (result && !result.success && !result.canceled) {
+            alert(`Failed to publish website: ${result.error}`);
+        } else if (result?.failed?.length) {
+            alert(`Published ${result.published} files. These could not be published:\n${result.failed.join('\n')}`);
+        }
+    }, [workspaceData.files, workspaceData.folders]);
+
+    // Save the open tabs as a session that can be reopened from the command palette
+    const handleSaveSession = useCallback(() => {
+        if (workspaceData.openTabs.length === 0) return;
+        const others = workspaceData.openTabs.length - 1;
+        const name = `${activeFile?.name ?? 'Session'}${others > 0 ? ` + ${others} more` : ''}`;
+        saveWorkspaceData({
+            ...workspaceData,
+            sessions: saveSession(name, workspaceData.openTabs, workspaceData.activeTabId, workspaceData.sessions || []),
+        });
+    }, [workspaceData, activeFile, saveWorkspaceData]);
+
+    // Handle requests from the command palette, whether queued before this page mounted or sent while open
+    useEffect(() => {
+        if (isLoading) return;
+
+        const handleOpenRequest = () => {
+            const request = takeWorkspaceOpenRequest();
+            if (!request) return;
+
+            if (request.fileId && workspaceData.files.some(f => f.id === request.fileId)) {
+                handleFileSelect(request.fileId);
+            } else if (request.sessionId) {
+                const session = workspaceData.sessions?.find(s => s.id === request.sessionId);
+                if (session) saveWorkspaceData(applySession(session, workspaceData));
+            } else if (request.createType) {
+                handleFileCreate(null, request.createType);
+            }
+        };
+
+        handleOpenRequest();
+        window.addEventListener(WORKSPACE_OPEN_REQUEST_EVENT, handleOpenRequest);
+        return () => window.removeEventListener(WORKSPACE_OPEN_REQUEST_EVENT, handleOpenRequest);
+    }, [isLoading, workspaceData, handleFileSelect, handleFileCreate, saveWorkspaceData]);
+
+    // Workspace actions offered in the command palette while this page is open
+    const workspaceCommands = useMemo<PaletteCommand[]>(() => [
+        { id: 'workspace.new-notebook', title: 'New notebook', category: 'action', keywords: ['exec', 'code'], run: () => handleFileCreate(null, 'exec') },
+        { id: 'workspace.new-board', title: 'New board', category: 'action', keywords: ['sticky notes'], run: () => handleFileCreate(null, 'board') },
+        { id: 'workspace.new-node-map', title: 'New node map', category: 'action', keywords: ['mind map'], run: () => handleFileCreate(null, 'nbm') },
+        { id: 'workspace.new-folder', title: 'New folder', category: 'action', run: () => handleFolderCreate(null) },
+        { id: 'workspace.toggle-explorer', title: 'Toggle explorer', category: 'action', keywords: ['sidebar'], run: handleToggleSidebar },
+        { id: 'workspace.open-external', title: 'Open file from disk…', category: 'action', keywords: ['import', 'ipynb', 'jupyter'], run: handleOpenExternalFile },
+        { id: 'workspace.import-vault', title: 'Import markdown vault…', category: 'action', keywords: ['obsidian', 'folder', 'wikilinks'], run: handleImportVault },
+        { id: 'workspace.export-markdown', title: 'Export workspace as markdown…', category: 'action', keywords: ['backup', 'mermaid', 'plain text'], run: handleExportMarkdown },
+        { id: 'workspace.publish-site', title: 'Publish workspace as website…', category: 'action', keywords: ['html', 'static', 'share'], run: () => handlePublishSite(null) },
+        { id: 'workspace.broken-links', title: 'Find broken links', category: 'action', keywords: ['mentions', 'unresolved'], run: () => setShowBrokenLinks(true) },
+        ...(activeFile?.filePath
+            ? [{ id: 'workspace.file-history', title: `Version history of ${activeFile.name}`, category: 'action' as const, keywords: ['revisions', 'restore', 'diff'], run: () => setShowHistory(true) }]
+            : []),
+        ...(activeFile?.type === 'exec' && activeFile.filePath
+            ? [{ id: 'workspace.export-ipynb', title: `Export ${activeFile.name} as Jupyter notebook`, category: 'action' as const, keywords: ['ipynb', 'nbformat'], run: () => handleExportIpynb(activeFile.id) }]
+            : []),
+        ...(activeFile
+            ? [{ id: 'workspace.file-properties', title: `Tags & properties of ${activeFile.name}`, category: 'action' as const, keywords: ['tag', 'metadata'], run: () => setPropertiesFileId(activeFile.id) }]
+            : []),
+        { id: 'workspace.trash', title: 'Open trash', category: 'action', keywords: ['deleted', 'restore', 'recycle bin'], run: () => setShowTrash(true) },
+        ...(workspaceData.openTabs.length > 0
+            ? [{ id: 'workspace.save-session', title: 'Save open tabs as session', category: 'action' as const, run: handleSaveSession }]
+            : []),
+        ...(activeFile
+            ? [{ id: 'workspace.close-tab', title: `Close ${activeFile.name}`, category: 'action' as const, keywords: ['close tab'], run: () => handleTabClose(activeFile.id) }]
+            : []),
+    ], [handleFileCreate, handleFolderCreate, handleToggleSidebar, handleOpenExternalFile, handleSaveSession, handleTabClose, handleExportIpynb, handleImportVault, handleExportMarkdown, handlePublishSite, workspaceData.openTabs.length, activeFile]);
+
+    useRegisterCommands(workspaceCommands);
+
     if (isLoading) {
         return (
             <div className="h-full flex items-center justify-center bg-gray-50 dark:bg-gray-900">
@@ -1427,6 +1767,14 @@ export function WorkspacePage({
                                 onMove={handleMove}
                                 onReorder={handleReorder}
                                 onOpenLinkedNotesGraph={() => setShowLinkedNotesGraph(true)}
+                                onOpenBrokenLinks={() => setShowBrokenLinks(true)}
+                                onOpenTrash={() => setShowTrash(true)}
+                                onOpenVersionHistory={(fileId) => {
+                                    handleFileSelect(fileId);
+                                    setShowHistory(true);
+                                }}
+                                onOpenProperties={setPropertiesFileId}
+                                onExportIpynb={handleExportIpynb}
                                 onOpenImageGallery={() => setShowImageGallery(true)}
                                 onOpenFlashcards={handleOpenFlashcards}
                                 onOpenConnections={(fileId) => {
@@ -1434,8 +1782,14 @@ export function WorkspacePage({
                                     if (file) setConnectionsModalFile(file);
                                 }}
                                 onOpenFile={handleOpenExternalFile}
+                                onImportVault={handleImportVault}
+                                onExportMarkdown={handleExportMarkdown}
+                                onPublishSite={handlePublishSite}
                                 onTurnIntoFlashcards={handleTurnIntoFlashcards}
                                 onFolderColorChange={handleFolderColorChange}
+                                fileTags={fileTags}
+                                tagFilter={tagFilter}
+                                onTagFilterChange={setTagFilter}
                                 selectedFileIds={selectedFileIds}
                                 onSelectedFileIdsChange={setSelectedFileIds}
                                 onMultiDelete={(ids: string[]) => {
@@ -1470,13 +1824,20 @@ export function WorkspacePage({
                         onContentChange={handleContentChange}
                         onOpenExternalFile={handleOpenExternalFile}
                         fileContent={activeFile ? noteContents[activeFile.id] || '' : ''}
+                        showHistory={showHistory}
+                        onCloseHistory={() => setShowHistory(false)}
+                        onRevisionRestored={handleRevisionRestored}
+                        focusAnchor={focusAnchor}
+                        onNavigateToNote={handleNavigateToReference}
                         renderNerdbookEditor={(contentId, filePath) => (
                             <NerdbookEditor
+                                key={`${contentId}-${editorRefreshKey}`}
                                 contentId={contentId}
                                 filePath={filePath}
                                 workspaceFiles={workspaceData.files}
                                 currentFileId={activeFile?.id}
-                                onNavigateToNote={handleFileSelect}
+                                onNavigateToNote={handleNavigateToReference}
+                                focusAnchor={focusAnchor}
                                 onNotebookChange={(notebook) => {
                                     if (activeFile && notebook.title !== activeFile.name) {
                                         const updatedFiles = workspaceData.files.map(f =>
@@ -1491,8 +1852,10 @@ export function WorkspacePage({
                         )}
                         renderBoardEditor={(contentId, filePath) => (
                             <BoardEditor
+                                key={`${contentId}-${editorRefreshKey}`}
                                 contentId={contentId}
                                 filePath={filePath}
+                                focusAnchor={focusAnchor}
                                 onNameChange={(name) => {
                                     if (activeFile && name !== activeFile.name) {
                                         const updatedFiles = workspaceData.files.map(f =>
@@ -1507,7 +1870,7 @@ export function WorkspacePage({
                         )}
                         renderNodeMapEditor={(contentId, filePath) => (
                             <NodeMapEditor
-                                key={`${contentId}-${nodeMapRefreshKey}`}
+                                key={`${contentId}-${nodeMapRefreshKey}-${editorRefreshKey}`}
                                 contentId={contentId}
                                 filePath={filePath}
                                 onSave={() => {
@@ -1543,6 +1906,62 @@ export function WorkspacePage({
                 )}
             </AnimatePresence>
 
+            <AnimatePresence>
+                {mentionRename && (
+                    <MentionRenameModal
+                        oldName={mentionRename.oldName}
+                        newName={mentionRename.newName}
+                        files={mentionRename.files}
+                        getFileName={getFileNameForPath}
+                        onApply={handleApplyMentionRename}
+                        onSkip={() => setMentionRename(null)}
+                    />
+                )}
+            </AnimatePresence>
+
+            <AnimatePresence>
+                {showBrokenLinks && (
+                    <BrokenLinksModal
+                        knownNames={brokenLinkKnownNames}
+                        getFileName={getFileNameForPath}
+                        onOpenFile={handleOpenFileByPath}
+                        onFix={(filePath, noteName, newName) => rewriteMentions(noteName, newName, [filePath])}
+                        onClose={() => setShowBrokenLinks(false)}
+                    />
+                )}
+            </AnimatePresence>
+
+            <AnimatePresence>
+                {showTrash && (
+                    <TrashModal
+                        onRestore={handleTrashRestore}
+                        onClose={() => setShowTrash(false)}
+                    />
+                )}
+            </AnimatePresence>
+
+            <AnimatePresence>
+                {propertiesFile && (
+                    <FilePropertiesModal
+                        file={propertiesFile}
+                        definitions={workspaceData.propertyDefinitions || []}
+                        inlineTags={(fileTags[propertiesFile.id] || []).filter(tag => !propertiesFile.tags?.includes(tag))}
+                        knownTags={knownTags}
+                        onSave={(tags, properties, definitions) => handleSaveFileProperties(propertiesFile.id, tags, properties, definitions)}
+                        onClose={() => setPropertiesFileId(null)}
+                    />
+                )}
+            </AnimatePresence>
+
+            <AnimatePresence>
+                {vaultImportReport && (
+                    <VaultImportReportModal
+                        report={vaultImportReport}
+                        onClose={() => setVaultImportReport(null)}
+                    />
+                )}
+            </AnimatePresence>
+
             <AnimatePresence>
                 {deleteModal?.isOpen && (
                     <DeleteModal
@@ -1584,8 +2003,11 @@ export function WorkspacePage({
                 isOpen={showLinkedNotesGraph}
                 onClose={() => setShowLinkedNotesGraph(false)}
                 workspaceFiles={workspaceData.files}
-                onNavigateToFile={handleFileSelect}
+                onNavigateToFile={handleNavigateToReference}
                 getFileContent={getFileContent}
+                fileTags={fileTags}
+                tagFilter={tagFilter}
+                onTagFilterChange={setTagFilter}
             />
 
             {/* Image Gallery */}
@@ -1667,6 +2089,28 @@ export function WorkspacePage({
                         throw e;
                     }
                 }}
+                onLinkUnlinkedMentions={async (fromFileId, toFileName) => {
+                    // Turn plain-text mentions of the file's name into @mentions
+                    const file = workspaceData.files.find(f => f.id === fromFileId);
+                    if (!file?.filePath) {
+                        throw new Error('File not saved to disk');
+                    }
+
+                    // @ts-ignore
+                    const result = await window.ipcRenderer?.invoke('add-connection-to-file', {
+                        filePath: file.filePath,
+                        fileType: file.type,
+                        targetFileName: toFileName,
+                        linkUnlinked: true,
+                    });
+                    if (!result?.success) {
+                        alert(`Failed to link mentions: ${result?.error || 'Unknown error'}`);
+                        throw new Error(result?.error || 'Failed to link mentions');
+                    }
+
+                    // Reload the file if it's open, since its text changed on disk
+                    reloadRewrittenFiles([file.filePath]);
+                }}
             />
 
             {/* AI Flashcard Generator */}
@@ -37,17 +37,39 @@ export interface Note {
     description: string;
     summary?: string;
     time: string;
+    endTime?: string; // HH:mm; on endDate if set, otherwise the same day (or the next, if before `time`)
+    endDate?: string; // YYYY-MM-DD, inclusive last day of a multi-day event
+    allDay?: boolean; // Spans whole days; `time` is kept only for ordering and reminders
+    timeZone?: string; // IANA zone the date and time are in (e.g. "Asia/Tokyo"); floating local time if unset
     importance: 'low' | 'medium' | 'high' | 'misc';
     completed?: boolean;
     completedLate?: boolean;
     missed?: boolean; // Explicitly marked as missed by user
     reminder?: number[]; // Array of minutes before event to trigger reminders (0 = at event time, 5, 10, 15, 30, 60)
-    recurrence?: {
-        type: 'daily' | 'weekly' | 'fortnightly' | 'monthly';
-        endDate?: string; // ISO date string
-        count?: number;
-    };
+    recurrence?: RecurrenceRule;
     seriesId?: string;
+    // Present on series definitions, which are stored once and expanded on demand
+    // (see utils/recurrence). Legacy series were copies sharing a seriesId.
+    occurrenceExceptions?: { [dateKey: string]: OccurrenceException };
+    occurrenceDate?: string; // Set on expanded (virtual) occurrences only; never persisted
+    icalUid?: string; // UID of the iCalendar event this note was imported from
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'fortnightly' | 'monthly' | 'yearly';
+
+export interface RecurrenceRule {
+    type: RecurrenceFrequency;
+    interval?: number;      // Every N periods (default 1); fortnightly is weekly with interval 2
+    byWeekday?: number[];   // 0 = Sunday. Daily: only these days. Weekly: these days. Monthly/yearly: candidate days
+    setPos?: number;        // Monthly/yearly with byWeekday: nth match in the month (1-5, -1 = last)
+    endDate?: string;       // ISO date string (inclusive)
+    count?: number;         // Total occurrences, including deleted ones
+}
+
+// Per-occurrence change to a recurring series, keyed by the occurrence's date
+export interface OccurrenceException {
+    deleted?: boolean;
+    overrides?: Partial<Pick<Note, 'title' | 'description' | 'summary' | 'time' | 'endTime' | 'endDate' | 'allDay' | 'timeZone' | 'importance' | 'completed' | 'completedLate' | 'missed' | 'reminder'>>;
 }
 
 export interface NotesData {
@@ -114,14 +136,24 @@ export interface SnapshotsData {
 // Nerdbook - Cell-based note system with rich text, code, and diagrams
 export type NerdCellType = 'markdown' | 'code' | 'text';
 
+// MIME types of a code cell's rich outputs; tables are Nerdbook's own, columns and rows as JSON
+export type NerdOutputMime = 'text/plain' | 'text/html' | 'image/png' | 'image/svg+xml' | 'application/json' | 'application/vnd.nerdbook.table+json';
+
+export interface NerdCellOutput {
+    mime: NerdOutputMime;
+    data: string; // Text, HTML, base64 PNG, SVG markup, or JSON text for JSON and tables
+}
+
 export interface NerdCell {
     id: string;
     type: NerdCellType;
     content: string;
     language?: string; // For code cells: 'javascript', 'python', 'typescript', etc.
     output?: string; // For code cells: execution output
+    outputs?: NerdCellOutput[]; // For code cells: rich outputs from display(), shown after the text output
     isExecuting?: boolean; // Whether the cell is currently running
     executionError?: boolean; // Whether the last execution had an error
+    executionCount?: number; // Jupyter-style [n]: when the cell last ran in its notebook's kernel
     isEditing?: boolean;
     createdAt: string; // ISO date string
     updatedAt?: string; // ISO date string
@@ -135,6 +167,12 @@ export interface NerdNotebook {
     updatedAt?: string; // ISO date string
     tags?: string[];
     color?: string; // Accent color for the notebook
+    requirements?: string[]; // Python packages installed with micropip when the notebook opens
+    jsTimeoutSeconds?: number; // JavaScript cells are stopped after this long (default 30)
+    jsAppAccess?: boolean; // JavaScript cells may call the app's IPC bridge through app.invoke
+    localPython?: boolean; // Python cells run with the system's Python instead of Pyodide
+    localTimeoutSeconds?: number; // Cells run by local interpreters are stopped after this long (default 60)
+    localMemoryMb?: number; // Memory limit for cells run by local interpreters (default 2048)
 }
 
 export interface NerdNotebooksData {
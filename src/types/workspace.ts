@@ -91,6 +91,20 @@ export interface WorkspaceFile {
     contentId: string;      // Legacy: Reference to content in JSON (deprecated)
     sortOrder?: number;     // Custom sort order (lower = higher in list)
     filePath?: string;      // Full path to the file on disk (optional for backward compatibility)
+    tags?: string[];        // User-assigned tags, normalized (inline #tags in the text are found separately)
+    properties?: Record<string, PropertyValue>; // Property values by PropertyDefinition id
+}
+
+// Typed properties that can be attached to any workspace file
+export type PropertyType = 'text' | 'number' | 'date' | 'select' | 'checkbox';
+
+export type PropertyValue = string | number | boolean;
+
+export interface PropertyDefinition {
+    id: string;
+    name: string;
+    type: PropertyType;
+    options?: string[];     // Choices for select properties
 }
 
 // Workspace folder representation
@@ -136,6 +150,7 @@ export interface WorkspaceData {
     migrationComplete: boolean; // Legacy migration from old data format
     fileBasedMigrationComplete?: boolean; // Migration to individual files
     sessions?: WorkspaceSession[]; // Saved sessions
+    propertyDefinitions?: PropertyDefinition[]; // Properties available to every file
 }
 
 // Recent file display data
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+    BackupManifest,
+    compareBackupSummaries,
+    createBackupId,
+    selectBackupsToKeep,
+    summarizeBackupContents,
+} from './backups';
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date(2025, 2, 12, 12, 30).getTime(); // Wednesday
+
+const backup = (hoursAgo: number, reason: BackupManifest['reason'] = 'auto') => ({
+    id: `b-${hoursAgo}`, createdAt: now - hoursAgo * HOUR, reason,
+});
+
+/**
+ * Backups
+ *
+ * Hourly/daily/weekly rotation and the counts shown when comparing a backup
+ * with the current data.
+ */
+describe('backups', () => {
+    it('creates folder-safe ids', () => {
+        expect(createBackupId(new Date(Date.UTC(2025, 2, 10, 14, 5, 0, 123)))).toBe('2025-03-10T14-05-00-123Z');
+    });
+
+    it('keeps the newest backup per hour, day and week', () => {
+        const backups = [
+            backup(0.1), backup(0.5),   // Same hour: only the newer survives
+            backup(2), backup(3),
+            backup(30), backup(31),     // Yesterday: one per day
+            backup(24 * 10),            // Last week: one per week
+            backup(24 * 80),            // Past every window
+        ];
+        const keep = selectBackupsToKeep(backups, now, { hourly: 24, daily: 7, weekly: 8 });
+
+        expect([...keep].sort()).toEqual(['b-0.1', 'b-2', 'b-240', 'b-3', 'b-30'].sort());
+    });
+
+    it('keeps manual backups for the weekly window and always keeps the newest', () => {
+        const keep = selectBackupsToKeep([backup(24 * 20, 'manual'), backup(24 * 20 + 1), backup(24 * 100)], now, {
+            hourly: 0, daily: 0, weekly: 8,
+        });
+        expect(keep.has('b-480')).toBe(true);
+        expect(keep.has('b-2400')).toBe(false);
+
+        expect([...selectBackupsToKeep([backup(24 * 100)], now)]).toEqual(['b-2400']);
+    });
+
+    it('summarizes contents and compares them with current data', () => {
+        const summary = summarizeBackupContents({
+            calendarData: { notes: { '2025-03-10': [{ id: 'a' }, { id: 'b' }], '2025-03-11': [{ id: 'c' }], bad: '' } },
+            tasksData: { todos: [{ id: 't1' }] },
+            workspaceFiles: ['a.nt', 'Folder/b.exec', 'Spanish.deck'],
+            decks: [{ cards: [{}, {}] }, { name: 'empty' }],
+        });
+        expect(summary).toEqual({ events: 3, tasks: 1, files: 3, cards: 2 });
+
+        const current = summarizeBackupContents({ calendarData: undefined, tasksData: undefined, workspaceFiles: [], decks: [] });
+        expect(compareBackupSummaries(summary, current).find(c => c.key === 'events')).toEqual({
+            key: 'events', backup: 3, current: 0, delta: 3,
+        });
+    });
+});
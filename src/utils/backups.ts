@@ -0,0 +1,122 @@
+/**
+ * Backups
+ * Retention rules and content summaries for the automatic data backups taken
+ * by the main process. A backup is a folder holding copies of
+ * calendar-data.json, tasks.json, settings.json and the workspace directory,
+ * plus a manifest describing it; files unchanged since the previous backup are
+ * hard links to its copies. Backups rotate grandfather-father-son style:
+ * the newest backup of each recent hour, day and week is kept.
+ */
+
+import { DAY_MS, keepNewestPerPeriod } from './retention';
+
+export type BackupReason = 'auto' | 'manual' | 'pre-restore';
+
+export interface BackupSummary {
+    events: number;
+    tasks: number;
+    files: number;
+    cards: number;
+}
+
+export interface BackupManifest {
+    id: string;
+    createdAt: number;
+    reason: BackupReason;
+    fingerprint: string;    // Identifies the source state, so unchanged data isn't backed up twice
+    summary: BackupSummary;
+}
+
+export interface BackupRetention {
+    hourly: number;
+    daily: number;
+    weekly: number;
+}
+
+export const DEFAULT_BACKUP_RETENTION: BackupRetention = { hourly: 24, daily: 7, weekly: 8 };
+
+// Data files copied into every backup, relative to the data folder
+export const BACKUP_DATA_FILES = ['calendar-data.json', 'tasks.json', 'settings.json'];
+
+export const BACKUP_WORKSPACE_FOLDER = 'workspace';
+
+// ============================================================================
+// IDS
+// ============================================================================
+
+/** Folder-safe id for a backup taken at `date`, e.g. 2025-03-10T14-05-00-123Z. */
+export function createBackupId(date: Date): string {
+    return date.toISOString().replace(/[:.]/g, '-');
+}
+
+// ============================================================================
+// RETENTION
+// ============================================================================
+
+/**
+ * Ids of the backups to keep: the newest backup in each of the last
+ * `hourly` hours, `daily` days and `weekly` weeks. Manual and pre-restore
+ * backups are kept for the whole weekly window, and the newest backup is
+ * always kept.
+ */
+export function selectBackupsToKeep(
+    backups: Pick<BackupManifest, 'id' | 'createdAt' | 'reason'>[],
+    now: number,
+    retention: BackupRetention = DEFAULT_BACKUP_RETENTION
+): Set<string> {
+    const newestFirst = [...backups].sort((a, b) => b.createdAt - a.createdAt);
+    const keep = new Set<string>();
+    if (newestFirst.length > 0) keep.add(newestFirst[0].id);
+
+    keepNewestPerPeriod(newestFirst.map(backup => ({ id: backup.id, time: backup.createdAt })), now, retention, keep);
+
+    for (const backup of newestFirst) {
+        if (backup.reason !== 'auto' && now - backup.createdAt <= retention.weekly * 7 * DAY_MS) {
+            keep.add(backup.id);
+        }
+    }
+    return keep;
+}
+
+// ============================================================================
+// SUMMARIES
+// ============================================================================
+
+export interface BackupContents {
+    calendarData: any;          // Parsed calendar-data.json, if present
+    tasksData: any;             // Parsed tasks.json, if present
+    workspaceFiles: string[];   // File paths relative to the workspace folder
+    decks: any[];               // Parsed .deck files
+}
+
+/** Count what a backup (or the current data) holds, for comparing the two. */
+export function summarizeBackupContents(contents: BackupContents): BackupSummary {
+    const notes = contents.calendarData?.notes;
+    const events = notes && typeof notes === 'object'
+        ? Object.values(notes).reduce<number>((sum, dayNotes) => sum + (Array.isArray(dayNotes) ? dayNotes.length : 0), 0)
+        : 0;
+    const todos = contents.tasksData?.todos;
+
+    return {
+        events,
+        tasks: Array.isArray(todos) ? todos.length : 0,
+        files: contents.workspaceFiles.length,
+        cards: contents.decks.reduce<number>((sum, deck) => sum + (Array.isArray(deck?.cards) ? deck.cards.length : 0), 0),
+    };
+}
+
+export interface BackupSummaryChange {
+    key: keyof BackupSummary;
+    backup: number;
+    current: number;
+    delta: number;              // What restoring the backup would add (or remove, if negative)
+}
+
+export function compareBackupSummaries(backup: BackupSummary, current: BackupSummary): BackupSummaryChange[] {
+    return (['events', 'tasks', 'files', 'cards'] as const).map(key => ({
+        key,
+        backup: backup[key],
+        current: current[key],
+        delta: backup[key] - current[key],
+    }));
+}
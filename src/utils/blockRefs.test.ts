@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { extractHeadingBlocks, extractReferenceBlocks, getFileEmbedContent, resolveReferenceBlock, slugifyHeading } from './blockRefs';
+import { parseMentions } from './noteLinking';
+import { WorkspaceFile } from '../types/workspace';
+
+const file = (id: string, name: string): WorkspaceFile => ({
+    id, name, type: 'note', parentId: null, createdAt: '', updatedAt: '', contentId: id,
+});
+
+/**
+ * Block references
+ *
+ * Headings, cells and sticky notes that @file#Heading and @file^blockId
+ * mentions point at, and how those mentions are parsed.
+ */
+describe('blockRefs', () => {
+    it('splits a note into heading sections, ignoring fenced code', () => {
+        const text = '# Intro\nHello\n```\n# not a heading\n```\n## Setup steps\nRun it\n# Next\nBye';
+        const blocks = extractHeadingBlocks(text);
+
+        expect(blocks.map(b => [b.id, b.title])).toEqual([
+            ['intro', 'Intro'], ['setup-steps', 'Setup steps'], ['next', 'Next'],
+        ]);
+        expect(blocks[0].content).toBe('# Intro\nHello\n```\n# not a heading\n```\n## Setup steps\nRun it');
+        expect(blocks[1].content).toBe('## Setup steps\nRun it');
+        expect(text.slice(blocks[2].offset!)).toBe('# Next\nBye');
+        expect(slugifyHeading('  Results & Notes! ')).toBe('results-notes');
+    });
+
+    it('finds cells, markdown headings and sticky notes in stored files', () => {
+        const exec = JSON.stringify({ cells: [
+            { id: 'c1', type: 'markdown', content: '# Data\nLoad it' },
+            { id: 'c2', type: 'code', content: 'x = 1' },
+        ] });
+        const blocks = extractReferenceBlocks('.exec', exec);
+
+        expect(resolveReferenceBlock(blocks, { kind: 'block', target: 'c2' })).toMatchObject({ content: 'x = 1', isCode: true, cellId: 'c2' });
+        expect(resolveReferenceBlock(blocks, { kind: 'heading', target: 'data' })).toMatchObject({ title: 'Data', cellId: 'c1' });
+        expect(resolveReferenceBlock(blocks, { kind: 'heading', target: 'Missing' })).toBeUndefined();
+        expect(getFileEmbedContent('.exec', exec)).toBe('# Data\nLoad it\n\n```\nx = 1\n```');
+
+        const board = JSON.stringify({ notes: [
+            { id: 'n1', type: 'text', content: 'Buy milk' },
+            { id: 'n2', type: 'list', content: '', listItems: [{ id: 'i1', text: 'Eggs', checked: true }] },
+            { id: 'n3', type: 'image', content: '' },
+        ] });
+        expect(extractReferenceBlocks('.brd', board).map(b => [b.id, b.content])).toEqual([
+            ['n1', 'Buy milk'], ['n2', '- [x] Eggs'],
+        ]);
+
+        expect(extractReferenceBlocks('.nt', JSON.stringify({ content: '# Wrapped' }))[0].title).toBe('Wrapped');
+        expect(extractReferenceBlocks('.exec', 'not json')).toEqual([]);
+    });
+
+    it('parses anchors and embeds in mentions, preferring whole file names', () => {
+        const files = [file('a', 'lab'), file('b', 'C#'), file('c', 'Lab notes')];
+        const mentions = parseMentions('See @lab#Setup and !@lab^c2 or @C# and @"Lab notes#Next steps"', files);
+
+        expect(mentions.map(m => [m.fileName, m.anchor, m.isEmbed, m.linkedFile?.id])).toEqual([
+            ['lab', { kind: 'heading', target: 'Setup' }, false, 'a'],
+            ['lab', { kind: 'block', target: 'c2' }, true, 'a'],
+            ['C#', undefined, false, 'b'],
+            ['Lab notes', { kind: 'heading', target: 'Next steps' }, false, 'c'],
+        ]);
+    });
+});
@@ -0,0 +1,127 @@
+/**
+ * Block References
+ * The parts of a stored workspace file that an @file#Heading or @file^blockId
+ * mention can point at: markdown headings in notes and Nerdbook markdown
+ * cells, Nerdbook cells and board sticky notes. Used to jump to a reference
+ * and to render !@ embeds of it inside other notes.
+ */
+
+import { MentionAnchor } from './noteLinking';
+
+export interface ReferenceBlock {
+    kind: 'heading' | 'block';
+    id: string;             // Heading slug, or the cell / sticky note id
+    title: string;          // Heading text, or the block's first line
+    content: string;        // Markdown of the heading's section, or the block's text
+    isCode?: boolean;       // A Nerdbook code cell
+    cellId?: string;        // Notebook cell holding the block
+    offset?: number;        // Position of a heading in a plain note
+}
+
+/** Anchor slug of a heading: lower-case words joined by dashes. */
+export function slugifyHeading(text: string): string {
+    return text
+        .toLowerCase()
+        .trim()
+        .replace(/[^\p{L}\p{N}\s-]/gu, '')
+        .replace(/\s+/g, '-');
+}
+
+/**
+ * Heading sections of a markdown text. A section runs from its heading to
+ * the next heading of the same or a higher level; fenced code is skipped.
+ */
+export function extractHeadingBlocks(text: string, cellId?: string): ReferenceBlock[] {
+    const headings: { level: number; title: string; start: number }[] = [];
+    let inFence = false;
+    let position = 0;
+
+    for (const line of text.split('\n')) {
+        if (/^\s*```/.test(line)) inFence = !inFence;
+        const match = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+        if (match) headings.push({ level: match[1].length, title: match[2], start: position });
+        position += line.length + 1;
+    }
+
+    return headings.map((heading, index) => {
+        const next = headings.slice(index + 1).find(h => h.level <= heading.level);
+        return {
+            kind: 'heading' as const,
+            id: slugifyHeading(heading.title),
+            title: heading.title,
+            content: text.slice(heading.start, next ? next.start : text.length).trimEnd(),
+            cellId,
+            offset: heading.start,
+        };
+    });
+}
+
+const firstLine = (text: string) => text.trim().split('\n')[0].replace(/^#+\s*/, '').slice(0, 80);
+
+// Note text, unwrapping the { content } form notes get after a connection is added
+function readNoteText(raw: string): string {
+    try {
+        const parsed = JSON.parse(raw);
+        if (parsed && typeof parsed.content === 'string') return parsed.content;
+    } catch {
+        // Plain text
+    }
+    return raw;
+}
+
+function boardNoteText(note: any): string {
+    if (Array.isArray(note.listItems)) {
+        const items = note.listItems.map((item: any) => `- [${item.checked ? 'x' : ' '}] ${item.text || ''}`).join('\n');
+        return [note.content, items].filter(Boolean).join('\n');
+    }
+    return typeof note.text === 'string' ? note.text : typeof note.content === 'string' ? note.content : '';
+}
+
+/** Every block a reference into this stored file (by extension) can point at. */
+export function extractReferenceBlocks(ext: string, raw: string): ReferenceBlock[] {
+    if (ext === '.nt') return extractHeadingBlocks(readNoteText(raw));
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        return [];
+    }
+
+    if (ext === '.exec' && Array.isArray(parsed?.cells)) {
+        return parsed.cells.flatMap((cell: any) => {
+            const content = typeof cell.content === 'string' ? cell.content : '';
+            const isCode = cell.type === 'code';
+            const block: ReferenceBlock = { kind: 'block', id: String(cell.id), title: firstLine(content), content, isCode, cellId: String(cell.id) };
+            return isCode ? [block] : [block, ...extractHeadingBlocks(content, String(cell.id))];
+        });
+    }
+
+    if (ext === '.brd' && Array.isArray(parsed?.notes)) {
+        return parsed.notes
+            .map((note: any) => ({ kind: 'block' as const, id: String(note.id), title: firstLine(boardNoteText(note)), content: boardNoteText(note) }))
+            .filter((block: ReferenceBlock) => block.content.trim());
+    }
+
+    return [];
+}
+
+/** Text shown when embedding a whole file (!@file without an anchor). */
+export function getFileEmbedContent(ext: string, raw: string): string {
+    if (ext === '.nt') return readNoteText(raw);
+    return extractReferenceBlocks(ext, raw)
+        .filter(block => block.kind === 'block')
+        .map(block => block.isCode ? `\`\`\`\n${block.content}\n\`\`\`` : block.content)
+        .join('\n\n');
+}
+
+/** The block an anchor points at, matching headings by text or slug and blocks by id. */
+export function resolveReferenceBlock(blocks: ReferenceBlock[], anchor: MentionAnchor): ReferenceBlock | undefined {
+    if (anchor.kind === 'heading') {
+        const slug = slugifyHeading(anchor.target);
+        return blocks.find(b => b.kind === 'heading' && b.title.toLowerCase() === anchor.target.toLowerCase())
+            ?? blocks.find(b => b.kind === 'heading' && b.id === slug);
+    }
+    return blocks.find(b => b.kind === 'block' && b.id === anchor.target)
+        ?? blocks.find(b => b.kind === 'block' && b.id.toLowerCase() === anchor.target.toLowerCase());
+}
@@ -0,0 +1,101 @@
+/**
+ * Board Snapshot
+ * Draws a board's sticky notes onto a canvas as a PNG, for exports of boards
+ * that aren't open (the live board preview needs the board on screen).
+ * Notes keep their position, size and colour; text is wrapped to fit.
+ */
+
+import type { WorkspaceFile } from '../types/workspace';
+
+const PADDING = 40;
+const MAX_SIZE = 4096;
+const LINE_HEIGHT = 1.35;
+
+// Wrap text to a width, cutting off lines that don't fit the height
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split('\n')) {
+        let line = '';
+        for (const word of paragraph.split(/\s+/)) {
+            const next = line ? `${line} ${word}` : word;
+            if (ctx.measureText(next).width > maxWidth && line) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = next;
+            }
+        }
+        lines.push(line);
+        if (lines.length >= maxLines) break;
+    }
+    return lines.slice(0, maxLines);
+}
+
+/** PNG data URL of a board's notes, or null if there is nothing to draw or no canvas. */
+export function renderBoardSnapshot(board: any): string | null {
+    const notes: any[] = Array.isArray(board?.notes) ? board.notes : [];
+    if (notes.length === 0) return null;
+
+    const minX = Math.min(...notes.map(n => n.x ?? 0));
+    const minY = Math.min(...notes.map(n => n.y ?? 0));
+    const maxX = Math.max(...notes.map(n => (n.x ?? 0) + (n.width ?? 200)));
+    const maxY = Math.max(...notes.map(n => (n.y ?? 0) + (n.height ?? 200)));
+    const width = maxX - minX + PADDING * 2;
+    const height = maxY - minY + PADDING * 2;
+    const scale = Math.min(1, MAX_SIZE / Math.max(width, height));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(width * scale);
+    canvas.height = Math.ceil(height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    ctx.scale(scale, scale);
+    ctx.fillStyle = '#F5F1E8';
+    ctx.fillRect(0, 0, width, height);
+
+    for (const note of notes) {
+        const x = (note.x ?? 0) - minX + PADDING;
+        const y = (note.y ?? 0) - minY + PADDING;
+        const w = note.width ?? 200;
+        const h = note.height ?? 200;
+
+        ctx.shadowColor = 'rgba(0, 0, 0, 0.15)';
+        ctx.shadowBlur = 8;
+        ctx.shadowOffsetY = 3;
+        ctx.fillStyle = note.color || '#FFF8DC';
+        ctx.fillRect(x, y, w, h);
+        ctx.shadowColor = 'transparent';
+
+        const fontSize = note.fontSize || 16;
+        ctx.font = `${fontSize}px ${note.font === 'serif' ? 'Georgia, serif' : 'system-ui, sans-serif'}`;
+        ctx.fillStyle = '#1f2937';
+        ctx.textBaseline = 'top';
+
+        const text = note.type === 'list'
+            ? [note.content, ...(note.listItems || []).map((item: any) => `${item.checked ? '☑' : '☐'} ${item.text}`)].filter(Boolean).join('\n')
+            : note.type === 'image' ? (note.content || '[Image]')
+            : note.type === 'audio' ? (note.content || '[Audio]')
+            : note.type === 'link' ? (note.content || note.linkUrl || '')
+            : note.content || '';
+        const maxLines = Math.max(1, Math.floor((h - 24) / (fontSize * LINE_HEIGHT)));
+        wrapText(ctx, String(text), w - 24, maxLines).forEach((line, index) => {
+            ctx.fillText(line, x + 12, y + 12 + index * fontSize * LINE_HEIGHT);
+        });
+    }
+
+    return canvas.toDataURL('image/png');
+}
+
+/** Snapshots of the boards among `files`, by file id; boards that can't be loaded or are empty are left out. */
+export async function loadBoardSnapshots(files: WorkspaceFile[]): Promise<Record<string, string>> {
+    const snapshots: Record<string, string> = {};
+    for (const file of files) {
+        if (file.type !== 'board' || !file.filePath) continue;
+        // @ts-ignore
+        const result = await window.ipcRenderer?.invoke('load-workspace-file', file.filePath);
+        const snapshot = result?.success ? renderBoardSnapshot(result.content) : null;
+        if (snapshot) snapshots[file.id] = snapshot;
+    }
+    return snapshots;
+}
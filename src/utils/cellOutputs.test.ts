@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { TABLE_MIME, parseTable, sortTableRows, outputFromMimeBundle, outputToMimeBundle, outputToMarkdown } from './cellOutputs';
+
+const fence = (content: string, info: string) => '```' + info + '\n' + content + '\n```';
+
+/**
+ * Cell outputs
+ *
+ * Sorting tables, and converting rich outputs to Jupyter bundles and markdown.
+ */
+describe('cellOutputs', () => {
+    it('sorts table rows by number or text, keeping empty cells last', () => {
+        const table = parseTable(JSON.stringify({ columns: ['name', 'n'], rows: [['item10', 3], ['item2', null], ['item1', 20]], totalRows: 900 }));
+
+        expect(table?.totalRows).toBe(900);
+        expect(sortTableRows(table!.rows, 1, 'asc').map(row => row[1])).toEqual([3, 20, null]);
+        expect(sortTableRows(table!.rows, 1, 'desc').map(row => row[1])).toEqual([20, 3, null]);
+        expect(sortTableRows(table!.rows, 0, 'asc').map(row => row[0])).toEqual(['item1', 'item2', 'item10']);
+        expect(parseTable('{"columns": "a"}')).toBeNull();
+    });
+
+    it('picks the richest output from a Jupyter bundle and writes one back', () => {
+        expect(outputFromMimeBundle({ 'text/plain': ['<Figure>'], 'image/png': 'iVBOR\nw0KG\n' })).toEqual({ mime: 'image/png', data: 'iVBORw0KG' });
+        expect(outputFromMimeBundle({ 'application/json': { a: 1 }, 'text/plain': '{...}' })).toEqual({ mime: 'application/json', data: '{"a":1}' });
+        expect(outputFromMimeBundle({ 'text/plain': '42' })).toBeNull();
+
+        const bundle = outputToMimeBundle({ mime: TABLE_MIME, data: JSON.stringify({ columns: ['a'], rows: [['<b>']] }) });
+        expect(bundle['text/html']).toContain('<td>&lt;b&gt;</td>');
+        expect(bundle['text/plain']).toBe('| a |\n| --- |\n| <b> |');
+        expect(outputFromMimeBundle(bundle)?.mime).toBe(TABLE_MIME);
+    });
+
+    it('writes outputs as markdown', () => {
+        expect(outputToMarkdown({ mime: 'image/png', data: 'iVBOR' }, fence)).toBe('![output](data:image/png;base64,iVBOR)');
+        expect(outputToMarkdown({ mime: 'image/svg+xml', data: '<svg>(x)</svg>' }, fence)).toBe('![output](data:image/svg+xml;charset=utf-8,%3Csvg%3E%28x%29%3C%2Fsvg%3E)');
+        expect(outputToMarkdown({ mime: 'application/json', data: '{"a":1}' }, fence)).toBe('```json\n{\n  "a": 1\n}\n```');
+        expect(outputToMarkdown({ mime: TABLE_MIME, data: JSON.stringify({ columns: ['x|y'], rows: [[1]] }) }, fence)).toBe('| x\\|y |\n| --- |\n| 1 |');
+    });
+});
@@ -0,0 +1,147 @@
+/**
+ * Cell Outputs
+ * Rich outputs of Nerdbook code cells: what display() emits in Python and
+ * JavaScript besides printed text, kept on the cell as MIME-typed data the
+ * way Jupyter keeps output bundles. Converts them to and from Jupyter bundles
+ * and to markdown for exports.
+ */
+
+import type { NerdCellOutput, NerdOutputMime } from '../types';
+
+export const TABLE_MIME = 'application/vnd.nerdbook.table+json';
+
+// Longer tables are cut to this many rows when they're displayed
+export const MAX_TABLE_ROWS = 500;
+
+export type TableCell = string | number | boolean | null;
+
+export interface OutputTable {
+    columns: string[];
+    rows: TableCell[][];
+    totalRows?: number;     // Rows the data had before it was cut to MAX_TABLE_ROWS
+}
+
+// Richest first: the representation picked out of a Jupyter bundle
+const MIME_PRIORITY: NerdOutputMime[] = [TABLE_MIME, 'image/png', 'image/svg+xml', 'text/html', 'application/json', 'text/plain'];
+
+const joinText = (value: unknown): string => Array.isArray(value) ? value.join('') : String(value ?? '');
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// ============================================================================
+// TABLES
+// ============================================================================
+
+/** The table in a table output, or null if its data isn't one. */
+export function parseTable(data: string): OutputTable | null {
+    try {
+        const table = JSON.parse(data);
+        if (!Array.isArray(table?.columns) || !Array.isArray(table?.rows)) return null;
+        return {
+            columns: table.columns.map(String),
+            rows: table.rows.filter(Array.isArray),
+            ...(typeof table.totalRows === 'number' && { totalRows: table.totalRows }),
+        };
+    } catch {
+        return null;
+    }
+}
+
+/** Rows sorted by one column: numbers by value, text naturally, empty cells last either way. */
+export function sortTableRows(rows: TableCell[][], column: number, direction: 'asc' | 'desc'): TableCell[][] {
+    const sign = direction === 'asc' ? 1 : -1;
+    return [...rows].sort((a, b) => {
+        const x = a[column] ?? null;
+        const y = b[column] ?? null;
+        if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+        if (typeof x === 'number' && typeof y === 'number') return (x - y) * sign;
+        return String(x).localeCompare(String(y), undefined, { numeric: true }) * sign;
+    });
+}
+
+const formatCell = (cell: TableCell): string => cell === null ? '' : String(cell);
+
+function tableToHtml(table: OutputTable): string {
+    const head = table.columns.map(column => `<th>${escapeHtml(column)}</th>`).join('');
+    const body = table.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(formatCell(cell))}</td>`).join('')}</tr>`).join('\n');
+    return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+function tableToMarkdown(table: OutputTable): string {
+    const row = (cells: string[]) => `| ${cells.map(cell => cell.replace(/\|/g, '\\|').replace(/\n/g, ' ')).join(' | ')} |`;
+    return [
+        row(table.columns),
+        row(table.columns.map(() => '---')),
+        ...table.rows.map(cells => row(cells.map(formatCell))),
+    ].join('\n');
+}
+
+// ============================================================================
+// JUPYTER BUNDLES
+// ============================================================================
+
+/** The richest output in a Jupyter bundle, or null if it only has plain text. */
+export function outputFromMimeBundle(bundle: Record<string, unknown>): NerdCellOutput | null {
+    const mime = MIME_PRIORITY.find(candidate => candidate !== 'text/plain' && bundle[candidate] !== undefined);
+    if (!mime) return null;
+    const value = bundle[mime];
+    if (mime === 'application/json' || mime === TABLE_MIME) {
+        return { mime, data: typeof value === 'string' ? value : JSON.stringify(value) };
+    }
+    // Base64 may be wrapped over several lines
+    return { mime, data: mime === 'image/png' ? joinText(value).replace(/\s/g, '') : joinText(value) };
+}
+
+/** A Jupyter bundle for an output; tables also carry HTML and text so Jupyter can show them. */
+export function outputToMimeBundle(output: NerdCellOutput): Record<string, unknown> {
+    switch (output.mime) {
+        case 'application/json':
+            try {
+                return { 'application/json': JSON.parse(output.data), 'text/plain': output.data };
+            } catch {
+                return { 'text/plain': output.data };
+            }
+        case TABLE_MIME: {
+            const table = parseTable(output.data);
+            if (!table) return { 'text/plain': output.data };
+            return { [TABLE_MIME]: table, 'text/html': tableToHtml(table), 'text/plain': tableToMarkdown(table) };
+        }
+        case 'image/png':
+            return { 'image/png': output.data, 'text/plain': '<image>' };
+        default:
+            return { [output.mime]: output.data };
+    }
+}
+
+// ============================================================================
+// MARKDOWN
+// ============================================================================
+
+/**
+ * An output as markdown: images inline as data URLs, tables as markdown
+ * tables, and HTML and JSON as fenced code.
+ */
+export function outputToMarkdown(output: NerdCellOutput, fence: (content: string, info: string) => string): string {
+    switch (output.mime) {
+        case 'image/png':
+            return `![output](data:image/png;base64,${output.data})`;
+        case 'image/svg+xml':
+            // Parentheses would end the markdown link early
+            return `![output](data:image/svg+xml;charset=utf-8,${encodeURIComponent(output.data).replace(/\(/g, '%28').replace(/\)/g, '%29')})`;
+        case TABLE_MIME: {
+            const table = parseTable(output.data);
+            return table ? tableToMarkdown(table) : fence(output.data, 'output');
+        }
+        case 'text/html':
+            return fence(output.data, 'html');
+        case 'application/json':
+            try {
+                return fence(JSON.stringify(JSON.parse(output.data), null, 2), 'json');
+            } catch {
+                return fence(output.data, 'output');
+            }
+        default:
+            return fence(output.data, 'output');
+    }
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    PaletteCommand,
+    getRegisteredCommands,
+    loadRecentCommandIds,
+    rankCommands,
+    recordRecentCommand,
+    registerCommands,
+    subscribeToCommands,
+} from './commandRegistry';
+
+const command = (id: string, title: string, extra: Partial<PaletteCommand> = {}): PaletteCommand => ({
+    id, title, category: 'action', run: () => { }, ...extra,
+});
+
+/**
+ * Command registry
+ *
+ * Contributed commands, recent-first ordering and fuzzy ranking for the
+ * command palette.
+ */
+describe('commandRegistry', () => {
+    beforeEach(() => localStorage.clear());
+
+    it('adds and removes contributed commands and notifies subscribers', () => {
+        let notified = 0;
+        const unsubscribe = subscribeToCommands(() => notified++);
+
+        const unregister = registerCommands([command('run-all', 'Run all cells')]);
+        const override = registerCommands([command('run-all', 'Run all cells (notebook)')]);
+        expect(getRegisteredCommands().map(c => c.title)).toEqual(['Run all cells (notebook)']);
+
+        override();
+        unregister();
+        unregister();
+        expect(getRegisteredCommands()).toEqual([]);
+        expect(notified).toBe(4);
+        unsubscribe();
+    });
+
+    it('lists recent commands first when there is no query', () => {
+        const commands = [command('a', 'Dashboard'), command('b', 'Calendar'), command('c', 'Timer')];
+        recordRecentCommand('b');
+        recordRecentCommand('c');
+        recordRecentCommand('b');
+
+        expect(loadRecentCommandIds()).toEqual(['b', 'c']);
+        expect(rankCommands(commands, '', loadRecentCommandIds()).map(c => c.id)).toEqual(['b', 'c', 'a']);
+    });
+
+    it('ranks by name match, then keywords, with a boost for recent use', () => {
+        const commands = [
+            command('theme', 'Toggle theme', { keywords: ['dark mode'] }),
+            command('timer', 'Start timer'),
+            command('stats', 'Stats'),
+            command('settings', 'Settings'),
+        ];
+
+        expect(rankCommands(commands, 'st', []).map(c => c.id)).toEqual(['stats', 'timer', 'settings']);
+        // A recent command beats a slightly better match
+        expect(rankCommands(commands, 'st', ['timer']).map(c => c.id)).toEqual(['timer', 'stats', 'settings']);
+        expect(rankCommands(commands, 'stats', ['timer']).map(c => c.id)[0]).toBe('stats');
+        expect(rankCommands(commands, 'dark', []).map(c => c.id)).toEqual(['theme']);
+        expect(rankCommands(commands, 'zzz', [])).toEqual([]);
+    });
+});
@@ -0,0 +1,140 @@
+/**
+ * Command Registry
+ * Commands listed in the command palette. The palette builds the page, file,
+ * session and theme commands itself; components contribute their own actions
+ * (e.g. the notebook editor's "Run all cells") with registerCommands for as
+ * long as they are mounted. Ranking reuses the @mention name scoring so the
+ * palette and autocomplete agree on what a good match is.
+ */
+
+import { scoreNameMatch } from './noteLinking';
+
+export type CommandCategory = 'action' | 'page' | 'file' | 'session' | 'theme';
+
+export interface PaletteCommand {
+    id: string;                 // Stable across sessions; used to remember recent commands
+    title: string;
+    category: CommandCategory;
+    subtitle?: string;          // e.g. the folder a file is in
+    keywords?: string[];        // Extra words to match, e.g. 'dark mode' for a theme toggle
+    shortcut?: string;          // Shown as a hint only, e.g. 'Ctrl+D'
+    run: () => void | Promise<void>;
+}
+
+// Keyword matches rank below an equally good title match
+const KEYWORD_WEIGHT = 0.8;
+
+// Score added to the most recently used command, tapering off down the recent list
+const RECENT_BONUS = 15;
+
+const RECENT_COMMANDS_KEY = 'command-palette-recent';
+const MAX_RECENT_COMMANDS = 20;
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const contributions = new Map<number, PaletteCommand[]>();
+const listeners = new Set<() => void>();
+let nextContributionId = 0;
+let snapshot: PaletteCommand[] = [];
+
+const publish = () => {
+    // Later contributions replace earlier commands with the same id
+    const byId = new Map<string, PaletteCommand>();
+    contributions.forEach(commands => commands.forEach(command => byId.set(command.id, command)));
+    snapshot = [...byId.values()];
+    listeners.forEach(listener => listener());
+};
+
+/**
+ * Add commands to the palette. Returns a function that removes them again.
+ */
+export function registerCommands(commands: PaletteCommand[]): () => void {
+    const id = nextContributionId++;
+    contributions.set(id, commands);
+    publish();
+    return () => {
+        if (contributions.delete(id)) publish();
+    };
+}
+
+/** All contributed commands. The array only changes when a contribution does. */
+export function getRegisteredCommands(): PaletteCommand[] {
+    return snapshot;
+}
+
+export function subscribeToCommands(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+// ============================================================================
+// RECENT COMMANDS
+// ============================================================================
+
+/** Ids of recently run commands, most recent first. */
+export function loadRecentCommandIds(): string[] {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(RECENT_COMMANDS_KEY) || '[]');
+        return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+    } catch {
+        return [];
+    }
+}
+
+/** Move a command to the front of the recent list and persist it. */
+export function recordRecentCommand(commandId: string): string[] {
+    const updated = [commandId, ...loadRecentCommandIds().filter(id => id !== commandId)].slice(0, MAX_RECENT_COMMANDS);
+    try {
+        localStorage.setItem(RECENT_COMMANDS_KEY, JSON.stringify(updated));
+    } catch {
+        // Recents are a convenience; ignore storage errors
+    }
+    return updated;
+}
+
+// ============================================================================
+// RANKING
+// ============================================================================
+
+/**
+ * Filter and order commands for a query. With no query, recently used
+ * commands come first in the order they were used, then the rest as given.
+ * Otherwise commands are scored on their title (and, less strongly, their
+ * keywords), with a bonus for recent use.
+ */
+export function rankCommands(
+    commands: PaletteCommand[],
+    query: string,
+    recentIds: string[],
+    maxResults: number = 50
+): PaletteCommand[] {
+    const normalizedQuery = query.toLowerCase().trim();
+    const recentRank = new Map(recentIds.map((id, index) => [id, index]));
+
+    const recencyBonus = (id: string) => {
+        const rank = recentRank.get(id);
+        return rank === undefined ? 0 : RECENT_BONUS * (1 - rank / Math.max(recentIds.length, 1));
+    };
+
+    if (!normalizedQuery) {
+        const recent = commands
+            .filter(c => recentRank.has(c.id))
+            .sort((a, b) => recentRank.get(a.id)! - recentRank.get(b.id)!);
+        return [...recent, ...commands.filter(c => !recentRank.has(c.id))].slice(0, maxResults);
+    }
+
+    return commands
+        .map((command, index) => {
+            const keywordScore = Math.max(0, ...(command.keywords || []).map(k => scoreNameMatch(k, normalizedQuery)));
+            const matchScore = Math.max(scoreNameMatch(command.title, normalizedQuery), keywordScore * KEYWORD_WEIGHT);
+            return { command, index, score: matchScore > 0 ? matchScore + recencyBonus(command.id) : 0 };
+        })
+        .filter(item => item.score > 0)
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .slice(0, maxResults)
+        .map(item => item.command);
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getEventRange,
+    getSpannedDateKeys,
+    getEventsOnDate,
+    layoutSpanningEvents,
+    findOverlaps,
+    getFreeSlots,
+    summariseDaySchedule,
+} from './eventTiming';
+import { addDaysToKey } from './recurrence';
+import { Note, NotesData } from '../types';
+
+const event = (id: string, extra: Partial<Note> = {}): Note => ({
+    id, title: id, description: '', time: '09:00', importance: 'medium', ...extra,
+});
+
+/**
+ * Event timing
+ *
+ * Durations, multi-day spans and the free/busy view built from them.
+ */
+describe('eventTiming', () => {
+    it('resolves durations, overnight and all-day ranges', () => {
+        const timed = getEventRange('2025-03-10', event('a', { endTime: '10:30' }));
+        expect(timed.end.getTime() - timed.start.getTime()).toBe(90 * 60000);
+
+        const untimed = getEventRange('2025-03-10', event('b'));
+        expect(untimed.explicitEnd).toBe(false);
+        expect(untimed.end.getTime() - untimed.start.getTime()).toBe(60 * 60000);
+
+        expect(getSpannedDateKeys('2025-03-10', event('c', { time: '22:00', endTime: '02:00' })))
+            .toEqual(['2025-03-10', '2025-03-11']);
+        expect(getSpannedDateKeys('2025-03-10', event('d', { allDay: true, endDate: '2025-03-12' })))
+            .toEqual(['2025-03-10', '2025-03-11', '2025-03-12']);
+        // Ending exactly at midnight stays on the first day
+        expect(getSpannedDateKeys('2025-03-10', event('e', { time: '22:00', endTime: '00:00' })))
+            .toEqual(['2025-03-10']);
+    });
+
+    it('finds events continuing from earlier days', () => {
+        const notes: NotesData = {
+            '2025-03-08': [event('trip', { allDay: true, endDate: '2025-03-11' })],
+            '2025-03-10': [event('meeting')],
+        };
+        expect(getEventsOnDate(notes, '2025-03-10').map(e => e.note.id)).toEqual(['trip', 'meeting']);
+        expect(getEventsOnDate(notes, '2025-03-12')).toEqual([]);
+    });
+
+    it('lays out multi-day bars per week with stacked lanes', () => {
+        const dayKeys = Array.from({ length: 14 }, (_, i) => addDaysToKey('2025-03-03', i));
+        const notes: NotesData = {
+            '2025-03-07': [event('conference', { allDay: true, endDate: '2025-03-11' })],
+            '2025-03-08': [event('visit', { allDay: true, endDate: '2025-03-09' })],
+            '2025-03-05': [event('single')],
+        };
+
+        const { weeks, laneCounts } = layoutSpanningEvents(notes, dayKeys);
+        expect(weeks[0].map(s => [s.note.id, s.startIndex, s.length, s.lane, s.continuesAfter])).toEqual([
+            ['conference', 4, 3, 0, true],
+            ['visit', 5, 2, 1, false],
+        ]);
+        expect(weeks[1].map(s => [s.note.id, s.startIndex, s.length, s.continuesBefore])).toEqual([
+            ['conference', 0, 2, true],
+        ]);
+        expect(laneCounts).toEqual([2, 1]);
+    });
+
+    it('detects overlaps and free time, ignoring all-day and completed events', () => {
+        const notes: NotesData = {
+            '2025-03-10': [
+                event('standup', { time: '09:00', endTime: '10:00' }),
+                event('review', { time: '09:30', endTime: '11:00' }),
+                event('lunch', { time: '12:00', endTime: '13:00', completed: true }),
+                event('holiday', { allDay: true }),
+                event('call', { time: '15:00' }),
+            ],
+        };
+
+        const overlaps = findOverlaps(notes, '2025-03-10');
+        expect(overlaps.map(o => [o.first.note.id, o.second.note.id])).toEqual([['standup', 'review']]);
+
+        const slots = getFreeSlots(notes, '2025-03-10').map(s => [s.start.getHours(), s.end.getHours()]);
+        expect(slots).toEqual([[11, 15], [16, 18]]);
+
+        expect(summariseDaySchedule(notes, '2025-03-10')).toMatchObject({
+            busyMinutes: 180,
+            overlaps: [{ first: 'standup', second: 'review', start: '09:30', end: '10:00' }],
+            allDay: ['holiday'],
+        });
+    });
+});
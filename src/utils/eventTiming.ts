@@ -0,0 +1,319 @@
+/**
+ * Event Timing
+ * Start/end ranges for calendar events (timed, all-day and multi-day), the
+ * week-row layout used to draw multi-day events as bars, and the overlap and
+ * free/busy calculations behind the dashboard briefing.
+ *
+ * All-day events block out whole days on the calendar but don't count as busy
+ * time, the way most calendars treat holidays and trips.
+ */
+
+import { Note, NotesData } from '../types';
+import { addDaysToKey, toDateKey, fromDateKey } from './recurrence';
+import { getNoteInstant } from './timezone';
+
+// Length assumed for events that only have a start time
+export const DEFAULT_EVENT_MINUTES = 60;
+
+// How far back to look for multi-day events that started before a given day
+const MAX_SPAN_LOOKBACK_DAYS = 366;
+
+export interface EventRange {
+    start: Date;
+    end: Date;          // Exclusive
+    explicitEnd: boolean;
+}
+
+export interface DatedNote {
+    dateKey: string;    // The event's own (start) date key
+    note: Note;
+}
+
+export interface SpanSegment extends DatedNote {
+    startIndex: number;         // Column within the week (0-6)
+    length: number;             // Columns covered in this week
+    lane: number;               // Row within the week's bar area
+    continuesBefore: boolean;   // Event started in an earlier week
+    continuesAfter: boolean;    // Event carries on into a later week
+}
+
+export interface TimeInterval {
+    start: Date;
+    end: Date;
+}
+
+export interface EventOverlap {
+    first: DatedNote;
+    second: DatedNote;
+    start: Date;
+    end: Date;
+}
+
+export interface DaySchedule {
+    date: string;
+    busyMinutes: number;
+    freeSlots: { start: string; end: string }[];
+    overlaps: { first: string; second: string; start: string; end: string }[];
+    allDay: string[];
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toTime = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+const atTime = (dateKey: string, time: string): Date => {
+    const [h, m] = time.split(':').map(Number);
+    const date = fromDateKey(dateKey);
+    date.setHours(h || 0, m || 0, 0, 0);
+    return date;
+};
+
+// ============================================================================
+// RANGES
+// ============================================================================
+
+/**
+ * When an event starts and ends. Timed events without an end are given
+ * DEFAULT_EVENT_MINUTES; an end time earlier than the start runs overnight.
+ */
+export function getEventRange(dateKey: string, note: Note): EventRange {
+    if (note.allDay) {
+        const lastKey = note.endDate && note.endDate > dateKey ? note.endDate : dateKey;
+        return { start: fromDateKey(dateKey), end: fromDateKey(addDaysToKey(lastKey, 1)), explicitEnd: true };
+    }
+
+    const start = getNoteInstant(dateKey, note);
+    if (!note.endTime && !note.endDate) {
+        return { start, end: new Date(start.getTime() + DEFAULT_EVENT_MINUTES * 60000), explicitEnd: false };
+    }
+
+    let end = getNoteInstant(note.endDate || dateKey, { time: note.endTime || note.time, timeZone: note.timeZone });
+    if (end <= start) {
+        // "22:00-02:00" on a single day means it finishes after midnight
+        end = note.endDate && note.endDate > dateKey
+            ? new Date(start.getTime() + DEFAULT_EVENT_MINUTES * 60000)
+            : getNoteInstant(addDaysToKey(dateKey, 1), { time: note.endTime || note.time, timeZone: note.timeZone });
+    }
+    return { start, end, explicitEnd: true };
+}
+
+/** Length of an event in minutes. */
+export function getEventDurationMinutes(dateKey: string, note: Note): number {
+    const { start, end } = getEventRange(dateKey, note);
+    return Math.round((end.getTime() - start.getTime()) / 60000);
+}
+
+/**
+ * The viewer's date keys an event covers, from its first to its last day.
+ */
+export function getSpannedDateKeys(dateKey: string, note: Note): string[] {
+    const { start, end } = getEventRange(dateKey, note);
+    const firstKey = toDateKey(start);
+    // End is exclusive: an event finishing at midnight doesn't touch the next day
+    const lastKey = toDateKey(new Date(Math.max(start.getTime(), end.getTime() - 1)));
+
+    const keys: string[] = [];
+    for (let key = firstKey; key <= lastKey; key = addDaysToKey(key, 1)) keys.push(key);
+    return keys;
+}
+
+/** Whether an event runs over more than one day. */
+export function isMultiDayEvent(dateKey: string, note: Note): boolean {
+    if (!note.endDate && !note.endTime && !note.timeZone) return false;
+    return getSpannedDateKeys(dateKey, note).length > 1;
+}
+
+/**
+ * Every event that touches a day, including multi-day events that started earlier.
+ */
+export function getEventsOnDate(notes: NotesData, dateKey: string): DatedNote[] {
+    const lookback = addDaysToKey(dateKey, -MAX_SPAN_LOOKBACK_DAYS);
+    const result: DatedNote[] = [];
+
+    for (const [key, dayNotes] of Object.entries(notes)) {
+        if (!Array.isArray(dayNotes) || key < lookback || key > addDaysToKey(dateKey, 1)) continue;
+        for (const note of dayNotes) {
+            // Most events stay on their own day; only check spans when they could leave it
+            if (key === dateKey && !note.timeZone) {
+                result.push({ dateKey: key, note });
+            } else if ((note.endDate || note.endTime || note.timeZone) && getSpannedDateKeys(key, note).includes(dateKey)) {
+                result.push({ dateKey: key, note });
+            }
+        }
+    }
+
+    return result.sort((a, b) => getEventRange(a.dateKey, a.note).start.getTime() - getEventRange(b.dateKey, b.note).start.getTime());
+}
+
+// ============================================================================
+// MULTI-DAY LAYOUT
+// ============================================================================
+
+/**
+ * Lay out multi-day events as bars over a grid of consecutive days (whole
+ * weeks, as in the month view). Returns the segments for each week row and
+ * the number of bar lanes each row needs.
+ */
+export function layoutSpanningEvents(notes: NotesData, dayKeys: string[]): { weeks: SpanSegment[][]; laneCounts: number[] } {
+    const firstKey = dayKeys[0];
+    const lastKey = dayKeys[dayKeys.length - 1];
+    const weekCount = Math.ceil(dayKeys.length / 7);
+    const weeks: SpanSegment[][] = Array.from({ length: weekCount }, () => []);
+    const laneCounts: number[] = new Array(weekCount).fill(0);
+    if (!firstKey) return { weeks, laneCounts };
+
+    const spanning: (DatedNote & { keys: string[] })[] = [];
+    const lookback = addDaysToKey(firstKey, -MAX_SPAN_LOOKBACK_DAYS);
+    for (const [key, dayNotes] of Object.entries(notes)) {
+        if (!Array.isArray(dayNotes) || key < lookback || key > lastKey) continue;
+        for (const note of dayNotes) {
+            if (!isMultiDayEvent(key, note)) continue;
+            const keys = getSpannedDateKeys(key, note);
+            if (keys[keys.length - 1] < firstKey || keys[0] > lastKey) continue;
+            spanning.push({ dateKey: key, note, keys });
+        }
+    }
+
+    // Earlier and longer events get the top lanes
+    spanning.sort((a, b) => a.keys[0].localeCompare(b.keys[0]) || b.keys.length - a.keys.length);
+
+    for (let week = 0; week < weekCount; week++) {
+        const weekKeys = dayKeys.slice(week * 7, week * 7 + 7);
+        const laneEnds: number[] = []; // Last occupied column per lane
+
+        for (const event of spanning) {
+            const columns = weekKeys
+                .map((key, index) => (event.keys.includes(key) ? index : -1))
+                .filter(index => index !== -1);
+            if (columns.length === 0) continue;
+
+            const startIndex = columns[0];
+            let lane = laneEnds.findIndex(end => end < startIndex);
+            if (lane === -1) lane = laneEnds.length;
+            laneEnds[lane] = columns[columns.length - 1];
+
+            weeks[week].push({
+                dateKey: event.dateKey,
+                note: event.note,
+                startIndex,
+                length: columns.length,
+                lane,
+                continuesBefore: event.keys[0] < weekKeys[0],
+                continuesAfter: event.keys[event.keys.length - 1] > weekKeys[weekKeys.length - 1],
+            });
+        }
+        laneCounts[week] = laneEnds.length;
+    }
+
+    return { weeks, laneCounts };
+}
+
+// ============================================================================
+// OVERLAPS AND FREE/BUSY
+// ============================================================================
+
+/** Timed events on a day that take up time (not all-day, not completed). */
+function blockingEvents(notes: NotesData, dateKey: string): (DatedNote & EventRange)[] {
+    return getEventsOnDate(notes, dateKey)
+        .filter(({ note }) => !note.allDay && !note.completed && !note.missed)
+        .map(event => ({ ...event, ...getEventRange(event.dateKey, event.note) }));
+}
+
+/**
+ * Pairs of timed events on a day that clash. Events without an end only clash
+ * when they start together or inside an event that does have one.
+ */
+export function findOverlaps(notes: NotesData, dateKey: string): EventOverlap[] {
+    const events = blockingEvents(notes, dateKey).map(event => ({
+        ...event,
+        end: event.explicitEnd ? event.end : new Date(event.start.getTime() + 60000),
+    }));
+    const overlaps: EventOverlap[] = [];
+
+    for (let i = 0; i < events.length; i++) {
+        for (let j = i + 1; j < events.length; j++) {
+            const a = events[i];
+            const b = events[j];
+            if (a.start < b.end && b.start < a.end) {
+                overlaps.push({
+                    first: { dateKey: a.dateKey, note: a.note },
+                    second: { dateKey: b.dateKey, note: b.note },
+                    start: new Date(Math.max(a.start.getTime(), b.start.getTime())),
+                    end: new Date(Math.min(a.end.getTime(), b.end.getTime())),
+                });
+            }
+        }
+    }
+    return overlaps;
+}
+
+/**
+ * Merged busy time on a day, clipped to that day.
+ */
+export function getBusyIntervals(notes: NotesData, dateKey: string): TimeInterval[] {
+    const dayStart = fromDateKey(dateKey);
+    const dayEnd = fromDateKey(addDaysToKey(dateKey, 1));
+
+    const intervals = blockingEvents(notes, dateKey)
+        .map(({ start, end }) => ({
+            start: new Date(Math.max(start.getTime(), dayStart.getTime())),
+            end: new Date(Math.min(end.getTime(), dayEnd.getTime())),
+        }))
+        .filter(interval => interval.end > interval.start)
+        .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    const merged: TimeInterval[] = [];
+    for (const interval of intervals) {
+        const last = merged[merged.length - 1];
+        if (last && interval.start <= last.end) {
+            if (interval.end > last.end) last.end = interval.end;
+        } else {
+            merged.push({ ...interval });
+        }
+    }
+    return merged;
+}
+
+/**
+ * Gaps of at least `minMinutes` between busy intervals within working hours.
+ */
+export function getFreeSlots(
+    notes: NotesData,
+    dateKey: string,
+    { from = '09:00', to = '18:00', minMinutes = 30 }: { from?: string; to?: string; minMinutes?: number } = {}
+): TimeInterval[] {
+    const windowStart = atTime(dateKey, from);
+    const windowEnd = atTime(dateKey, to);
+    const slots: TimeInterval[] = [];
+
+    let cursor = windowStart;
+    for (const busy of getBusyIntervals(notes, dateKey)) {
+        if (busy.end <= cursor) continue;
+        if (busy.start >= windowEnd) break;
+        if (busy.start > cursor) slots.push({ start: cursor, end: busy.start < windowEnd ? busy.start : windowEnd });
+        cursor = busy.end > cursor ? busy.end : cursor;
+    }
+    if (cursor < windowEnd) slots.push({ start: cursor, end: windowEnd });
+
+    return slots.filter(slot => slot.end.getTime() - slot.start.getTime() >= minMinutes * 60000);
+}
+
+/**
+ * A compact free/busy summary of a day, for the AI briefing and dashboard.
+ */
+export function summariseDaySchedule(notes: NotesData, dateKey: string, options?: { from?: string; to?: string; minMinutes?: number }): DaySchedule {
+    const busyMinutes = getBusyIntervals(notes, dateKey)
+        .reduce((total, { start, end }) => total + (end.getTime() - start.getTime()) / 60000, 0);
+
+    return {
+        date: dateKey,
+        busyMinutes: Math.round(busyMinutes),
+        freeSlots: getFreeSlots(notes, dateKey, options).map(({ start, end }) => ({ start: toTime(start), end: toTime(end) })),
+        overlaps: findOverlaps(notes, dateKey).map(({ first, second, start, end }) => ({
+            first: first.note.title,
+            second: second.note.title,
+            start: toTime(start),
+            end: toTime(end),
+        })),
+        allDay: getEventsOnDate(notes, dateKey).filter(({ note }) => note.allDay).map(({ note }) => note.title),
+    };
+}
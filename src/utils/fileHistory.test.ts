@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { countDiffChanges, diffLines, diffRevisions, selectRevisionsToKeep } from './fileHistory';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * File history
+ *
+ * Thinning stored revisions over time and diffing two revisions.
+ */
+describe('fileHistory', () => {
+    it('keeps recent revisions and thins older ones to one per hour', () => {
+        const now = new Date('2025-03-10T12:00:00Z').getTime();
+        const revisions = [
+            { id: 'just-now', savedAt: now - 1 * MINUTE },
+            { id: 'five-min', savedAt: now - 5 * MINUTE },
+            { id: 'hour-ago-newer', savedAt: now - 62 * MINUTE },
+            { id: 'hour-ago-older', savedAt: now - 64 * MINUTE },
+            { id: 'last-year', savedAt: now - 400 * 24 * 60 * MINUTE },
+        ];
+
+        const keep = selectRevisionsToKeep(revisions, now);
+        expect([...keep].sort()).toEqual(['five-min', 'hour-ago-newer', 'just-now']);
+
+        const capped = selectRevisionsToKeep(revisions, now, { allMinutes: 10, hourly: 24, daily: 30, weekly: 26, maxRevisions: 1 });
+        expect([...capped]).toEqual(['just-now']);
+    });
+
+    it('diffs lines around a change', () => {
+        expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+            { type: 'same', text: 'a' },
+            { type: 'removed', text: 'b' },
+            { type: 'added', text: 'B' },
+            { type: 'same', text: 'c' },
+            { type: 'added', text: 'd' },
+        ]);
+        expect(diffLines('', 'x')).toEqual([{ type: 'added', text: 'x' }]);
+    });
+
+    it('diffs notebooks cell by cell and falls back to text', () => {
+        const before = JSON.stringify({ cells: [
+            { id: 'c1', type: 'markdown', content: '# Intro' },
+            { id: 'c2', type: 'code', content: 'x = 1' },
+            { id: 'c3', type: 'code', content: 'print(x)' },
+        ] });
+        const after = JSON.stringify({ cells: [
+            { id: 'c1', type: 'markdown', content: '# Intro' },
+            { id: 'c3', type: 'code', content: 'print(x + 1)' },
+            { id: 'c4', type: 'code', content: 'y = 2' },
+        ] });
+
+        const diff = diffRevisions('.exec', before, after);
+        expect(diff.kind).toBe('cells');
+        if (diff.kind !== 'cells') return;
+        expect(diff.cells.map(c => [c.id, c.status])).toEqual([
+            ['c1', 'same'], ['c2', 'removed'], ['c3', 'changed'], ['c4', 'added'],
+        ]);
+        expect(countDiffChanges(diff)).toEqual({ added: 2, removed: 2 });
+
+        expect(diffRevisions('.exec', 'not json', '{}').kind).toBe('text');
+        expect(diffRevisions('.nt', 'one', 'two')).toEqual({
+            kind: 'text',
+            lines: [{ type: 'removed', text: 'one' }, { type: 'added', text: 'two' }],
+        });
+    });
+});
@@ -0,0 +1,229 @@
+/**
+ * File History
+ * Local version history for native workspace files. The main process stores a
+ * gzip-compressed revision of a file each time it is saved, in the hidden
+ * .history folder of the workspace directory, and thins old revisions out over
+ * time. This module holds the thinning rules and the diffs shown between two
+ * revisions: line by line for text, cell by cell for notebooks.
+ */
+
+import { keepNewestPerPeriod } from './retention';
+
+export const HISTORY_FOLDER_NAME = '.history';
+
+// Native workspace formats that get a history
+export const VERSIONED_EXTENSIONS = ['.exec', '.brd', '.nbm', '.nt', '.deck'];
+
+export interface FileRevision {
+    id: string;
+    savedAt: number;
+    size: number;               // Uncompressed size in bytes
+    hash: string;               // Content hash, so identical saves aren't stored twice
+}
+
+export interface FileHistoryIndex {
+    filePath: string;           // Path the history was last recorded for
+    revisions: FileRevision[];  // Oldest first
+}
+
+export interface HistoryThinning {
+    allMinutes: number;         // Keep every revision this recent
+    hourly: number;             // Then the newest per hour for this many hours
+    daily: number;              // Then the newest per day for this many days
+    weekly: number;             // Then the newest per week for this many weeks
+    maxRevisions: number;
+}
+
+export const DEFAULT_HISTORY_THINNING: HistoryThinning = { allMinutes: 10, hourly: 24, daily: 30, weekly: 26, maxRevisions: 200 };
+
+const MINUTE_MS = 60 * 1000;
+
+// ============================================================================
+// IDS
+// ============================================================================
+
+/** File-safe id for a revision saved at `date`, e.g. 2025-03-10T14-05-00-123Z. */
+export function createRevisionId(date: Date): string {
+    return date.toISOString().replace(/[:.]/g, '-');
+}
+
+// ============================================================================
+// THINNING
+// ============================================================================
+
+/**
+ * Ids of the revisions to keep: every revision from the last few minutes,
+ * then the newest revision in each recent hour, day and week, capped at
+ * `maxRevisions`. The newest revision is always kept.
+ */
+export function selectRevisionsToKeep(
+    revisions: Pick<FileRevision, 'id' | 'savedAt'>[],
+    now: number,
+    thinning: HistoryThinning = DEFAULT_HISTORY_THINNING
+): Set<string> {
+    const newestFirst = [...revisions].sort((a, b) => b.savedAt - a.savedAt);
+    const keep = new Set<string>();
+    if (newestFirst.length > 0) keep.add(newestFirst[0].id);
+
+    for (const revision of newestFirst) {
+        if (now - revision.savedAt > thinning.allMinutes * MINUTE_MS) break;
+        keep.add(revision.id);
+    }
+
+    keepNewestPerPeriod(newestFirst.map(revision => ({ id: revision.id, time: revision.savedAt })), now, thinning, keep);
+
+    if (keep.size > thinning.maxRevisions) {
+        return new Set(newestFirst.filter(r => keep.has(r.id)).slice(0, thinning.maxRevisions).map(r => r.id));
+    }
+    return keep;
+}
+
+// ============================================================================
+// DIFFS
+// ============================================================================
+
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+export interface CellDiff {
+    id: string;
+    cellType: string;
+    status: 'same' | 'added' | 'removed' | 'changed';
+    lines: DiffLine[];
+}
+
+export type RevisionDiff =
+    | { kind: 'text'; lines: DiffLine[] }
+    | { kind: 'cells'; cells: CellDiff[] };
+
+// Above this many line pairs the diff falls back to "all removed, all added"
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Line diff of two texts, from the longest common subsequence of their lines. */
+export function diffLines(before: string, after: string): DiffLine[] {
+    const a = before === '' ? [] : before.split('\n');
+    const b = after === '' ? [] : after.split('\n');
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+    const head: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+    const tail: DiffLine[] = a.slice(endA).map(text => ({ type: 'same', text }));
+    const midA = a.slice(start, endA);
+    const midB = b.slice(start, endB);
+
+    if (midA.length * midB.length > MAX_LCS_CELLS) {
+        return [
+            ...head,
+            ...midA.map(text => ({ type: 'removed' as const, text })),
+            ...midB.map(text => ({ type: 'added' as const, text })),
+            ...tail,
+        ];
+    }
+
+    // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+    const lengths = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+    for (let i = midA.length - 1; i >= 0; i--) {
+        for (let j = midB.length - 1; j >= 0; j--) {
+            lengths[i][j] = midA[i] === midB[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const middle: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+        if (midA[i] === midB[j]) {
+            middle.push({ type: 'same', text: midA[i] });
+            i++; j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            middle.push({ type: 'removed', text: midA[i++] });
+        } else {
+            middle.push({ type: 'added', text: midB[j++] });
+        }
+    }
+    while (i < midA.length) middle.push({ type: 'removed', text: midA[i++] });
+    while (j < midB.length) middle.push({ type: 'added', text: midB[j++] });
+
+    return [...head, ...middle, ...tail];
+}
+
+interface NotebookCell {
+    id: string;
+    type?: string;
+    content?: string;
+}
+
+const parseCells = (raw: string): NotebookCell[] | null => {
+    try {
+        const cells = JSON.parse(raw)?.cells;
+        return Array.isArray(cells) && cells.every(c => typeof c?.id === 'string') ? cells : null;
+    } catch {
+        return null;
+    }
+};
+
+// Cells are matched by id; removed cells are shown where they used to be
+function diffCells(before: NotebookCell[], after: NotebookCell[]): CellDiff[] {
+    const afterIds = new Set(after.map(c => c.id));
+    const beforeById = new Map(before.map(c => [c.id, c]));
+    const result: CellDiff[] = [];
+    let beforeIndex = 0;
+
+    const flushRemoved = (untilId?: string) => {
+        while (beforeIndex < before.length && before[beforeIndex].id !== untilId) {
+            const cell = before[beforeIndex++];
+            if (afterIds.has(cell.id)) continue;
+            result.push({ id: cell.id, cellType: cell.type || 'code', status: 'removed', lines: diffLines(cell.content || '', '') });
+        }
+    };
+
+    for (const cell of after) {
+        const old = beforeById.get(cell.id);
+        if (old) {
+            flushRemoved(cell.id);
+            if (beforeIndex < before.length) beforeIndex++;
+            const changed = (old.content || '') !== (cell.content || '') || old.type !== cell.type;
+            result.push({
+                id: cell.id,
+                cellType: cell.type || 'code',
+                status: changed ? 'changed' : 'same',
+                lines: diffLines(old.content || '', cell.content || ''),
+            });
+        } else {
+            result.push({ id: cell.id, cellType: cell.type || 'code', status: 'added', lines: diffLines('', cell.content || '') });
+        }
+    }
+    flushRemoved();
+    return result;
+}
+
+/**
+ * Diff between two stored revisions of a file with extension `ext`.
+ * Notebooks are compared cell by cell when both revisions parse; everything
+ * else line by line as stored.
+ */
+export function diffRevisions(ext: string, before: string, after: string): RevisionDiff {
+    if (ext.toLowerCase() === '.exec') {
+        const beforeCells = parseCells(before);
+        const afterCells = parseCells(after);
+        if (beforeCells && afterCells) return { kind: 'cells', cells: diffCells(beforeCells, afterCells) };
+    }
+    return { kind: 'text', lines: diffLines(before, after) };
+}
+
+/** Number of added and removed lines in a diff. */
+export function countDiffChanges(diff: RevisionDiff): { added: number; removed: number } {
+    const lines = diff.kind === 'text' ? diff.lines : diff.cells.flatMap(c => c.lines);
+    return {
+        added: lines.filter(l => l.type === 'added').length,
+        removed: lines.filter(l => l.type === 'removed').length,
+    };
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildTagTree,
+    extractInlineTags,
+    formatPropertyValue,
+    matchesTagFilters,
+    mergeTags,
+    normalizeTag,
+    parsePropertyInput,
+    parseTagQuery,
+} from './fileMetadata';
+import { PropertyDefinition } from '../types/workspace';
+
+/**
+ * File metadata
+ *
+ * Inline #tags, nested tag filters and typed property values.
+ */
+describe('fileMetadata', () => {
+    it('finds inline tags outside headings, code and issue numbers', () => {
+        const text = '# Title\nWorking on #Project/Alpha and #urgent.\nFixes #42, see @plan#Setup\n`#fff` and\n```\n# comment #bash\n```\n#Urgent again';
+
+        expect(extractInlineTags(text)).toEqual(['project/alpha', 'urgent']);
+        expect(normalizeTag('  ##Reading List/ Books ')).toBe('reading-list/books');
+        expect(mergeTags(['A'], undefined, ['a', 'b/'])).toEqual(['a', 'b']);
+    });
+
+    it('matches nested tags and splits tags out of queries', () => {
+        expect(matchesTagFilters(['project/alpha', 'urgent'], ['project'])).toBe(true);
+        expect(matchesTagFilters(['project/alpha'], ['project', 'urgent'])).toBe(false);
+        expect(matchesTagFilters(['projects'], ['project'])).toBe(false);
+
+        expect(parseTagQuery('budget #Project/alpha tag:urgent q3')).toEqual({
+            text: 'budget q3', tags: ['project/alpha', 'urgent'],
+        });
+    });
+
+    it('builds a nested tag tree counting each file once per tag', () => {
+        const tree = buildTagTree({
+            f1: ['project/alpha', 'project/beta'],
+            f2: ['project/alpha'],
+            f3: ['inbox'],
+        });
+
+        expect(tree.map(n => [n.tag, n.fileIds.length])).toEqual([['inbox', 1], ['project', 2]]);
+        expect(tree[1].children.map(n => [n.name, n.fileIds])).toEqual([['alpha', ['f1', 'f2']], ['beta', ['f1']]]);
+    });
+
+    it('parses and formats typed property values', () => {
+        const def = (type: PropertyDefinition['type'], options?: string[]): PropertyDefinition => ({ id: type, name: type, type, options });
+
+        expect(parsePropertyInput(def('number'), ' 3.5 ')).toBe(3.5);
+        expect(parsePropertyInput(def('number'), 'abc')).toBeUndefined();
+        expect(parsePropertyInput(def('date'), '2025-02-30x')).toBeUndefined();
+        expect(parsePropertyInput(def('date'), '2025-02-03')).toBe('2025-02-03');
+        expect(parsePropertyInput(def('select', ['Draft', 'Done']), 'Done')).toBe('Done');
+        expect(parsePropertyInput(def('select', ['Draft']), 'Other')).toBeUndefined();
+        expect(parsePropertyInput(def('checkbox'), true)).toBe(true);
+        expect(parsePropertyInput(def('text'), '  ')).toBeUndefined();
+
+        expect(formatPropertyValue(def('checkbox'), false)).toBe('No');
+        expect(formatPropertyValue(def('number'), undefined)).toBe('');
+    });
+});
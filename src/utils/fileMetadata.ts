@@ -0,0 +1,164 @@
+/**
+ * File Metadata
+ * Tags and typed properties for workspace files. Tags come from two places:
+ * the ones assigned to a file in the workspace tree, and inline #tags written
+ * in its text (notes, Nerdbook cells, board notes). Tags nest with slashes
+ * (#project/alpha is inside #project), and filtering by a tag includes the
+ * tags nested under it. Used by the tag browser, the file tree, the graph and
+ * the main-process search index.
+ */
+
+import type { PropertyDefinition, PropertyValue } from '../types/workspace';
+
+// ============================================================================
+// TAGS
+// ============================================================================
+
+// A # at the start of a word, not a heading ("# Title") or a reference (@note#Heading)
+const INLINE_TAG_REGEX = /(?<=^|\s)#([\p{L}\p{N}_\-/]+)/gu;
+
+// Fenced and inline code hold things like CSS colors and shell comments
+const CODE_REGEX = /```[\s\S]*?(```|$)|`[^`\n]*`/g;
+
+/** Canonical form of a tag: no leading #, lower-case, no empty path parts. */
+export function normalizeTag(tag: string): string {
+    return tag
+        .trim()
+        .replace(/^#+/, '')
+        .toLowerCase()
+        .split('/')
+        .map(part => part.trim().replace(/\s+/g, '-'))
+        .filter(Boolean)
+        .join('/');
+}
+
+/** Inline #tags in a text, normalized and de-duplicated, in order of appearance. */
+export function extractInlineTags(text: string): string[] {
+    const tags = new Set<string>();
+    const prose = text.replace(CODE_REGEX, match => ' '.repeat(match.length));
+    let match;
+    INLINE_TAG_REGEX.lastIndex = 0;
+    while ((match = INLINE_TAG_REGEX.exec(prose)) !== null) {
+        const tag = normalizeTag(match[1]);
+        // Issue numbers like #42 aren't tags
+        if (tag && /\p{L}/u.test(tag)) tags.add(tag);
+    }
+    return [...tags];
+}
+
+/** Union of several tag lists, normalized, without duplicates. */
+export function mergeTags(...lists: (string[] | undefined)[]): string[] {
+    const tags = new Set<string>();
+    for (const list of lists) {
+        list?.forEach(tag => {
+            const normalized = normalizeTag(tag);
+            if (normalized) tags.add(normalized);
+        });
+    }
+    return [...tags];
+}
+
+/** Whether `tag` is `filter` or nested under it. */
+export function tagMatches(tag: string, filter: string): boolean {
+    const normalized = normalizeTag(filter);
+    return tag === normalized || tag.startsWith(normalized + '/');
+}
+
+/** Whether a file with `tags` passes every tag filter. */
+export function matchesTagFilters(tags: string[], filters: string[]): boolean {
+    return filters.every(filter => tags.some(tag => tagMatches(tag, filter)));
+}
+
+/**
+ * Split a search query into its text and its tag filters, written as #tag
+ * or tag:name, e.g. "budget #project/alpha" → text "budget", tags ["project/alpha"].
+ */
+export function parseTagQuery(query: string): { text: string; tags: string[] } {
+    const tags: string[] = [];
+    const text = query
+        .split(/\s+/)
+        .filter(word => {
+            const match = word.match(/^(?:#|tag:)(.+)$/i);
+            const tag = match ? normalizeTag(match[1]) : '';
+            if (tag) tags.push(tag);
+            return !tag;
+        })
+        .join(' ');
+    return { text, tags };
+}
+
+export interface TagTreeNode {
+    name: string;           // Last part of the tag, e.g. "alpha"
+    tag: string;            // Full tag, e.g. "project/alpha"
+    fileIds: string[];      // Files with this tag or one nested under it
+    children: TagTreeNode[];
+}
+
+/**
+ * Nested tag tree for the tag browser from each file's tags. Parent tags
+ * exist even when only their children are used.
+ */
+export function buildTagTree(tagsByFile: Record<string, string[]>): TagTreeNode[] {
+    const root: TagTreeNode = { name: '', tag: '', fileIds: [], children: [] };
+
+    for (const [fileId, tags] of Object.entries(tagsByFile)) {
+        const counted = new Set<TagTreeNode>();
+        for (const tag of tags) {
+            let node = root;
+            const parts = tag.split('/');
+            parts.forEach((part, index) => {
+                const path = parts.slice(0, index + 1).join('/');
+                let child = node.children.find(c => c.tag === path);
+                if (!child) node.children.push(child = { name: part, tag: path, fileIds: [], children: [] });
+                if (!counted.has(child)) {
+                    counted.add(child);
+                    child.fileIds.push(fileId);
+                }
+                node = child;
+            });
+        }
+    }
+
+    const sort = (nodes: TagTreeNode[]): TagTreeNode[] => nodes
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(node => ({ ...node, children: sort(node.children) }));
+    return sort(root.children);
+}
+
+// ============================================================================
+// PROPERTIES
+// ============================================================================
+
+/**
+ * Read a property value typed into an editor, or undefined if it isn't valid
+ * for the property (which clears it).
+ */
+export function parsePropertyInput(definition: PropertyDefinition, input: string | boolean): PropertyValue | undefined {
+    if (definition.type === 'checkbox') return typeof input === 'boolean' ? input : input === 'true';
+
+    const text = String(input).trim();
+    if (!text) return undefined;
+    switch (definition.type) {
+        case 'number': {
+            const value = Number(text);
+            return Number.isFinite(value) ? value : undefined;
+        }
+        case 'date':
+            return /^\d{4}-\d{2}-\d{2}$/.test(text) && !Number.isNaN(new Date(text).getTime()) ? text : undefined;
+        case 'select':
+            return definition.options?.includes(text) ? text : undefined;
+        default:
+            return text;
+    }
+}
+
+/** A property value as shown in lists. */
+export function formatPropertyValue(definition: PropertyDefinition, value: PropertyValue | undefined): string {
+    if (value === undefined || value === '') return '';
+    if (definition.type === 'checkbox') return value ? 'Yes' : 'No';
+    if (definition.type === 'date' && typeof value === 'string') {
+        const date = new Date(`${value}T00:00:00`);
+        return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString();
+    }
+    return String(value);
+}
@@ -0,0 +1,261 @@
+import { describe, it, expect } from 'vitest';
+import {
+    parseICalendar,
+    unfoldLines,
+    unescapeText,
+    parseDuration,
+    expandOccurrences,
+    toNoteRecurrence,
+    icalEventToNotes,
+    groupEventSeries,
+    findDuplicateEvents,
+} from './icalParser';
+
+const wrap = (body: string) => [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Test//EN',
+    body,
+    'END:VCALENDAR',
+].join('\r\n');
+
+/**
+ * iCalendar import engine
+ *
+ * Covers the RFC 5545 features the old line-splitting importer ignored:
+ * folding, escaping, TZID/UTC/DATE values, RRULE/EXDATE and VALARM.
+ */
+describe('icalParser', () => {
+    it('unfolds continuation lines and unescapes text', () => {
+        expect(unfoldLines('SUMMARY:Long\r\n  title\r\n\t continued')).toEqual(['SUMMARY:Long title continued']);
+        expect(unescapeText('a\\, b\\; c\\nd\\\\e')).toBe('a, b; c\nd\\e');
+    });
+
+    it('parses durations into signed minutes', () => {
+        expect(parseDuration('-PT15M')).toBe(-15);
+        expect(parseDuration('P1DT2H')).toBe(26 * 60);
+        expect(parseDuration('P1W')).toBe(7 * 24 * 60);
+        expect(parseDuration('nonsense')).toBeNull();
+    });
+
+    it('reads summary, description, all-day dates and alarms', () => {
+        const { events } = parseICalendar(wrap([
+            'BEGIN:VEVENT',
+            'UID:abc-123',
+            'SUMMARY:Lecture\\, Room 2',
+            'DESCRIPTION:Bring notes\\nand laptop',
+            'DTSTART;VALUE=DATE:20250310',
+            'BEGIN:VALARM',
+            'ACTION:DISPLAY',
+            'TRIGGER:-PT30M',
+            'DESCRIPTION:Alarm text should not leak',
+            'END:VALARM',
+            'BEGIN:VALARM',
+            'TRIGGER:-PT10M',
+            'END:VALARM',
+            'END:VEVENT',
+        ].join('\r\n')));
+
+        expect(events).toHaveLength(1);
+        const [evt] = events;
+        expect(evt.uid).toBe('abc-123');
+        expect(evt.summary).toBe('Lecture, Room 2');
+        expect(evt.description).toBe('Bring notes\nand laptop');
+        expect(evt.start.allDay).toBe(true);
+        expect(evt.start.date).toEqual(new Date(2025, 2, 10));
+        expect(evt.alarms).toEqual([10, 30]);
+    });
+
+    it('converts UTC and TZID times to absolute instants', () => {
+        const { events } = parseICalendar(wrap([
+            'BEGIN:VEVENT',
+            'SUMMARY:UTC',
+            'DTSTART:20250310T130000Z',
+            'END:VEVENT',
+            'BEGIN:VEVENT',
+            'SUMMARY:New York',
+            'DTSTART;TZID=America/New_York:20250310T090000',
+            'END:VEVENT',
+            'BEGIN:VEVENT',
+            'SUMMARY:New York winter',
+            'DTSTART;TZID="America/New_York":20250110T090000',
+            'END:VEVENT',
+        ].join('\r\n')));
+
+        expect(events[0].start.date.toISOString()).toBe('2025-03-10T13:00:00.000Z');
+        // EDT (UTC-4) is already in effect on 10 March 2025
+        expect(events[1].start.date.toISOString()).toBe('2025-03-10T13:00:00.000Z');
+        expect(events[1].start.tzid).toBe('America/New_York');
+        // EST (UTC-5) in January
+        expect(events[2].start.date.toISOString()).toBe('2025-01-10T14:00:00.000Z');
+    });
+
+    it('expands weekly rules with BYDAY, COUNT and EXDATE', () => {
+        const { events } = parseICalendar(wrap([
+            'BEGIN:VEVENT',
+            'SUMMARY:Seminar',
+            'DTSTART:20250303T100000',
+            'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4',
+            'EXDATE:20250305T100000',
+            'END:VEVENT',
+        ].join('\r\n')));
+
+        const dates = expandOccurrences(events[0]);
+        // COUNT includes the excluded Wednesday
+        expect(dates).toEqual([
+            new Date(2025, 2, 3, 10, 0),
+            new Date(2025, 2, 10, 10, 0),
+            new Date(2025, 2, 12, 10, 0),
+        ]);
+        expect(toNoteRecurrence(events[0].rrule!, events[0].start.date)).toEqual({ type: 'weekly', byWeekday: [1, 3], count: 4 });
+    });
+
+    it('expands monthly rules by ordinal weekday and stops at UNTIL', () => {
+        const { events } = parseICalendar(wrap([
+            'BEGIN:VEVENT',
+            'SUMMARY:Last Friday',
+            'DTSTART:20250131T170000',
+            'RRULE:FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20250430T235959',
+            'END:VEVENT',
+        ].join('\r\n')));
+
+        expect(toNoteRecurrence(events[0].rrule!, events[0].start.date)).toEqual({
+            type: 'monthly', byWeekday: [5], setPos: -1, endDate: '2025-04-30',
+        });
+        expect(expandOccurrences(events[0])).toEqual([
+            new Date(2025, 0, 31, 17, 0),
+            new Date(2025, 1, 28, 17, 0),
+            new Date(2025, 2, 28, 17, 0),
+            new Date(2025, 3, 25, 17, 0),
+        ]);
+    });
+
+    it('imports representable rules as a single series definition', () => {
+        const { events } = parseICalendar(wrap([
+            'BEGIN:VEVENT',
+            'SUMMARY:Standup',
+            'DTSTART:20250303T090000',
+            'RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=3',
+            'END:VEVENT',
+        ].join('\r\n')));
+
+        expect(toNoteRecurrence(events[0].rrule!, events[0].start.date)).toEqual({ type: 'fortnightly', count: 3 });
+
+        const instances = icalEventToNotes(events[0]);
+        expect(instances).toHaveLength(1);
+        expect(instances[0].dateKey).toBe('2025-03-03');
+        expect(instances[0].note).toMatchObject({ time: '09:00', recurrence: { type: 'fortnightly', count: 3 }, occurrenceExceptions: {} });
+    });
+
+    it('keeps end times, overnight ends and multi-day all-day spans', () => {
+        const { events } = parseICalendar(wrap([
+            'BEGIN:VEVENT',
+            'SUMMARY:Workshop',
+            'DTSTART:20250310T090000',
+            'DURATION:PT90M',
+            'END:VEVENT',
+            'BEGIN:VEVENT',
+            'SUMMARY:Night shift',
+            'DTSTART:20250310T220000',
+            'DTEND:20250311T060000',
+            'END:VEVENT',
+            'BEGIN:VEVENT',
+            'SUMMARY:Conference',
+            'DTSTART;VALUE=DATE:20250310',
+            'DTEND;VALUE=DATE:20250313',
+            'END:VEVENT',
+            'BEGIN:VEVENT',
+            'SUMMARY:Holiday',
+            'DTSTART;VALUE=DATE:20250310',
+            'DTEND;VALUE=DATE:20250311',
+            'END:VEVENT',
+        ].join('\r\n')));
+
+        const [workshop, shift, conference, holiday] = events.map(e => icalEventToNotes(e)[0].note);
+        expect(workshop).toMatchObject({ time: '09:00', endTime: '10:30' });
+        expect(workshop.endDate).toBeUndefined();
+        expect(shift).toMatchObject({ time: '22:00', endTime: '06:00', endDate: '2025-03-11' });
+        expect(conference).toMatchObject({ allDay: true, endDate: '2025-03-12' });
+        expect(holiday.allDay).toBe(true);
+        expect(holiday.endDate).toBeUndefined();
+    });
+
+    it('falls back to one note per occurrence for rules the engine cannot represent', () => {
+        const { events } = parseICalendar(wrap([
+            'BEGIN:VEVENT',
+            'SUMMARY:Payday',
+            'DTSTART:20250101T090000',
+            'RRULE:FREQ=MONTHLY;BYMONTHDAY=1,15;COUNT=3',
+            'END:VEVENT',
+        ].join('\r\n')));
+
+        expect(toNoteRecurrence(events[0].rrule!, events[0].start.date)).toBeUndefined();
+        const instances = icalEventToNotes(events[0]);
+        expect(instances.map(i => i.dateKey)).toEqual(['2025-01-01', '2025-01-15', '2025-02-01']);
+        expect(new Set(instances.map(i => i.note.seriesId)).size).toBe(1);
+    });
+
+    it('applies RECURRENCE-ID overrides to their series', () => {
+        const { events } = parseICalendar(wrap([
+            'BEGIN:VEVENT',
+            'UID:series-1',
+            'SUMMARY:Tutorial',
+            'DTSTART:20250303T140000',
+            'RRULE:FREQ=DAILY;COUNT=3',
+            'END:VEVENT',
+            'BEGIN:VEVENT',
+            'UID:series-1',
+            'RECURRENCE-ID:20250304T140000',
+            'SUMMARY:Tutorial (moved)',
+            'DTSTART:20250304T160000',
+            'END:VEVENT',
+        ].join('\r\n')));
+
+        const groups = groupEventSeries(events);
+        expect(groups).toHaveLength(1);
+        expect(groups[0].overrides).toHaveLength(1);
+
+        const [series] = icalEventToNotes(groups[0].event, groups[0].overrides);
+        expect(series.note.occurrenceExceptions).toEqual({
+            '2025-03-04': { overrides: { title: 'Tutorial (moved)', time: '16:00' } },
+        });
+    });
+
+    it('reports duplicates by UID and by title/date/time', () => {
+        const { events } = parseICalendar(wrap([
+            'BEGIN:VEVENT',
+            'UID:known',
+            'SUMMARY:Known',
+            'DTSTART:20250303T090000',
+            'END:VEVENT',
+            'BEGIN:VEVENT',
+            'SUMMARY:Dentist',
+            'DTSTART:20250305T110000',
+            'END:VEVENT',
+            'BEGIN:VEVENT',
+            'SUMMARY:New',
+            'DTSTART:20250306T110000',
+            'END:VEVENT',
+        ].join('\r\n')));
+
+        const duplicates = findDuplicateEvents(events, {
+            '2025-01-01': [{ id: '1', title: 'Other', description: '', time: '09:00', importance: 'low', icalUid: 'known' }],
+            '2025-03-05': [{ id: '2', title: 'dentist', description: '', time: '11:00', importance: 'medium' }],
+        });
+
+        expect(duplicates.has(0)).toBe(true);
+        expect(duplicates.has(1)).toBe(true);
+        expect(duplicates.has(2)).toBe(false);
+    });
+
+    it('skips events without a valid DTSTART and reports a warning', () => {
+        const { events, warnings } = parseICalendar(wrap([
+            'BEGIN:VEVENT',
+            'SUMMARY:Broken',
+            'END:VEVENT',
+        ].join('\r\n')));
+
+        expect(events).toHaveLength(0);
+        expect(warnings).toHaveLength(1);
+    });
+});
@@ -0,0 +1,766 @@
+/**
+ * iCalendar Import Engine
+ * Parses RFC 5545 (.ics) calendars into ThoughtsPlus calendar notes.
+ * Handles line folding, escaped text, TZID/UTC/floating times, VALUE=DATE,
+ * DTEND/DURATION, RRULE, EXDATE, RECURRENCE-ID overrides and VALARM triggers.
+ */
+
+import { Note, NotesData, RecurrenceRule, OccurrenceException } from '../types';
+import { addDaysToKey, createSeries, diffOverrides, getRuleDates } from './recurrence';
+import { zonedWallTimeToDate } from './timezone';
+
+// Safety limit for open-ended series (matches the Calendar page's recurrence cap)
+export const MAX_IMPORTED_OCCURRENCES = 100;
+
+// All-day events have no time of their own; the calendar still needs one
+const ALL_DAY_DEFAULT_TIME = '09:00';
+
+export type ICalFrequency = 'SECONDLY' | 'MINUTELY' | 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface ICalProperty {
+    name: string;                     // Upper-cased property name, e.g. DTSTART
+    params: Record<string, string>;   // Upper-cased parameter names, e.g. { TZID: 'Europe/London' }
+    value: string;                    // Raw (still escaped) value
+}
+
+export interface ICalDateTime {
+    date: Date;          // Instant converted to local time
+    allDay: boolean;     // VALUE=DATE (no time component)
+    tzid?: string;       // Original TZID parameter, if any
+}
+
+export interface ICalRecurrenceRule {
+    freq: ICalFrequency;
+    interval: number;
+    count?: number;
+    until?: Date;
+    byDay?: { weekday: number; ordinal?: number }[]; // weekday: 0 = Sunday
+    byMonthDay?: number[];
+    byMonth?: number[];
+    bySetPos?: number[];
+    raw: string;
+}
+
+export interface ICalEvent {
+    uid?: string;
+    summary: string;
+    description: string;
+    location?: string;
+    start: ICalDateTime;
+    end?: ICalDateTime;
+    rrule?: ICalRecurrenceRule;
+    exdates: Date[];
+    recurrenceId?: Date;    // Set on overrides of a single occurrence
+    alarms: number[];       // Minutes before start, sorted ascending
+    status?: string;
+    priority?: number;
+}
+
+export interface ICalParseResult {
+    calendarName?: string;
+    events: ICalEvent[];
+    warnings: string[];
+}
+
+export interface ImportedNoteInstance {
+    dateKey: string;
+    note: Note;
+}
+
+/** Returns a local-time YYYY-MM-DD string (timezone-safe). */
+const toLocalDateKey = (date: Date): string => {
+    const y = date.getFullYear();
+    const m = String(date.getMonth() + 1).padStart(2, '0');
+    const d = String(date.getDate()).padStart(2, '0');
+    return `${y}-${m}-${d}`;
+};
+
+const toLocalTime = (date: Date): string =>
+    `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// ============================================================================
+// LEXING
+// ============================================================================
+
+/**
+ * Join folded lines (RFC 5545 §3.1): a CRLF followed by a space or tab
+ * continues the previous line.
+ */
+export function unfoldLines(text: string): string[] {
+    return text
+        .replace(/\r\n|\r/g, '\n')
+        .replace(/\n[ \t]/g, '')
+        .split('\n')
+        .filter(line => line.length > 0);
+}
+
+/**
+ * Split a content line into name, parameters and value.
+ * Parameter values may be quoted and contain ':' or ';'.
+ */
+export function parseContentLine(line: string): ICalProperty | null {
+    let i = 0;
+    let inQuotes = false;
+    let nameEnd = -1;
+    let valueStart = -1;
+
+    for (; i < line.length; i++) {
+        const ch = line[i];
+        if (ch === '"') inQuotes = !inQuotes;
+        else if (!inQuotes && ch === ';' && nameEnd === -1) nameEnd = i;
+        else if (!inQuotes && ch === ':') {
+            valueStart = i + 1;
+            if (nameEnd === -1) nameEnd = i;
+            break;
+        }
+    }
+    if (valueStart === -1) return null;
+
+    const name = line.substring(0, nameEnd).toUpperCase();
+    const params: Record<string, string> = {};
+    const paramText = line.substring(nameEnd, valueStart - 1);
+
+    // Parameters: ;KEY=VALUE;KEY="quoted;value"
+    const paramRegex = /;([^=;]+)=("[^"]*"|[^;]*)/g;
+    let match;
+    while ((match = paramRegex.exec(paramText)) !== null) {
+        params[match[1].toUpperCase()] = match[2].replace(/^"|"$/g, '');
+    }
+
+    return { name, params, value: line.substring(valueStart) };
+}
+
+/**
+ * Unescape a TEXT value (RFC 5545 §3.3.11).
+ */
+export function unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+// ============================================================================
+// DATES AND TIME ZONES
+// ============================================================================
+
+/**
+ * Parse a DATE or DATE-TIME value into a local Date.
+ * Supports UTC ("Z"), TZID-qualified and floating times.
+ */
+export function parseICalDate(value: string, params: Record<string, string> = {}): ICalDateTime | null {
+    const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+    if (!match) return null;
+
+    const [, y, mo, d, h, mi, s, z] = match;
+    const year = parseInt(y, 10);
+    const month = parseInt(mo, 10);
+    const day = parseInt(d, 10);
+
+    if (params.VALUE === 'DATE' || h === undefined) {
+        return { date: new Date(year, month - 1, day), allDay: true };
+    }
+
+    const hour = parseInt(h, 10);
+    const minute = parseInt(mi, 10);
+    const second = s ? parseInt(s, 10) : 0;
+
+    if (z) {
+        return { date: new Date(Date.UTC(year, month - 1, day, hour, minute, second)), allDay: false };
+    }
+
+    const tzid = params.TZID?.replace(/^\//, '');
+    if (tzid) {
+        const zoned = zonedWallTimeToDate(year, month, day, hour, minute, second, tzid);
+        if (zoned) return { date: zoned, allDay: false, tzid };
+    }
+
+    // Floating time (or unknown zone): interpret in the viewer's local zone
+    return { date: new Date(year, month - 1, day, hour, minute, second), allDay: false, tzid };
+}
+
+/**
+ * Parse an ISO 8601 duration (e.g. -PT15M, P1DT2H) into signed minutes.
+ */
+export function parseDuration(value: string): number | null {
+    const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+    if (!match) return null;
+    const [, sign, w, d, h, m, s] = match;
+    const minutes =
+        (parseInt(w || '0', 10) * 7 * 24 * 60) +
+        (parseInt(d || '0', 10) * 24 * 60) +
+        (parseInt(h || '0', 10) * 60) +
+        parseInt(m || '0', 10) +
+        Math.floor(parseInt(s || '0', 10) / 60);
+    return sign === '-' ? -minutes : minutes;
+}
+
+// ============================================================================
+// RECURRENCE
+// ============================================================================
+
+/**
+ * Parse an RRULE value (RFC 5545 §3.3.10).
+ */
+export function parseRRule(value: string, startParams: Record<string, string> = {}): ICalRecurrenceRule | null {
+    const parts: Record<string, string> = {};
+    for (const segment of value.split(';')) {
+        const [key, val] = segment.split('=');
+        if (key && val !== undefined) parts[key.toUpperCase()] = val;
+    }
+
+    const freq = parts.FREQ?.toUpperCase() as ICalFrequency | undefined;
+    if (!freq) return null;
+
+    const toNumbers = (list?: string) =>
+        list ? list.split(',').map(n => parseInt(n, 10)).filter(n => !isNaN(n)) : undefined;
+
+    const rule: ICalRecurrenceRule = {
+        freq,
+        interval: Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1),
+        raw: value,
+    };
+
+    if (parts.COUNT) rule.count = parseInt(parts.COUNT, 10);
+    if (parts.UNTIL) {
+        // UNTIL shares the value type of DTSTART; a TZID applies to it only when it isn't UTC
+        const until = parseICalDate(parts.UNTIL, parts.UNTIL.endsWith('Z') ? {} : { TZID: startParams.TZID || '' });
+        if (until) {
+            rule.until = until.allDay
+                ? new Date(until.date.getFullYear(), until.date.getMonth(), until.date.getDate(), 23, 59, 59)
+                : until.date;
+        }
+    }
+    if (parts.BYDAY) {
+        rule.byDay = parts.BYDAY.split(',').map(token => {
+            const m = token.trim().toUpperCase().match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/);
+            if (!m) return null;
+            return {
+                weekday: WEEKDAY_CODES.indexOf(m[2]),
+                ordinal: m[1] ? parseInt(m[1], 10) : undefined,
+            };
+        }).filter((d): d is { weekday: number; ordinal: number | undefined } => d !== null);
+    }
+    rule.byMonthDay = toNumbers(parts.BYMONTHDAY);
+    rule.byMonth = toNumbers(parts.BYMONTH);
+    rule.bySetPos = toNumbers(parts.BYSETPOS);
+
+    return rule;
+}
+
+/** Days in the given month (month is 0-based). */
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+/**
+ * Candidate dates within one monthly/yearly period that satisfy BYDAY/BYMONTHDAY.
+ */
+function expandMonth(year: number, month: number, rule: ICalRecurrenceRule, start: Date): Date[] {
+    const total = daysInMonth(year, month);
+    let days: number[] = [];
+
+    if (rule.byMonthDay && rule.byMonthDay.length > 0) {
+        days = rule.byMonthDay
+            .map(d => (d < 0 ? total + d + 1 : d))
+            .filter(d => d >= 1 && d <= total);
+    }
+
+    if (rule.byDay && rule.byDay.length > 0) {
+        const byDayMatches: number[] = [];
+        for (const { weekday, ordinal } of rule.byDay) {
+            const matching: number[] = [];
+            for (let d = 1; d <= total; d++) {
+                if (new Date(year, month, d).getDay() === weekday) matching.push(d);
+            }
+            if (ordinal === undefined) byDayMatches.push(...matching);
+            else {
+                const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+                if (picked !== undefined) byDayMatches.push(picked);
+            }
+        }
+        days = days.length > 0 ? days.filter(d => byDayMatches.includes(d)) : byDayMatches;
+    }
+
+    if (days.length === 0 && !rule.byDay && !rule.byMonthDay) {
+        // Default: same day-of-month as DTSTART (months lacking it are skipped per RFC)
+        if (start.getDate() <= total) days = [start.getDate()];
+    }
+
+    days = Array.from(new Set(days)).sort((a, b) => a - b);
+
+    if (rule.bySetPos && rule.bySetPos.length > 0) {
+        days = rule.bySetPos
+            .map(pos => (pos > 0 ? days[pos - 1] : days[days.length + pos]))
+            .filter((d): d is number => d !== undefined)
+            .sort((a, b) => a - b);
+    }
+
+    return days.map(d => new Date(year, month, d, start.getHours(), start.getMinutes(), start.getSeconds()));
+}
+
+/**
+ * Expand an event's RRULE into concrete start times (including DTSTART),
+ * excluding EXDATEs. Open-ended rules are capped at `limit` occurrences.
+ */
+export function expandOccurrences(event: ICalEvent, limit: number = MAX_IMPORTED_OCCURRENCES): Date[] {
+    const start = event.start.date;
+    const rule = event.rrule;
+    if (!rule) return [start];
+
+    const excluded = new Set(event.exdates.map(d => (event.start.allDay ? toLocalDateKey(d) : String(d.getTime()))));
+    const isExcluded = (d: Date) => excluded.has(event.start.allDay ? toLocalDateKey(d) : String(d.getTime()));
+
+    const maxCount = rule.count ?? limit;
+    const results: Date[] = [];
+    let generated = 0; // COUNT includes excluded occurrences (RFC 5545 §3.8.5.1)
+
+    const accept = (candidate: Date): boolean => {
+        if (candidate < start) return true;
+        if (rule.until && candidate > rule.until) return false;
+        if (generated >= maxCount) return false;
+        generated++;
+        if (!isExcluded(candidate)) results.push(candidate);
+        return true;
+    };
+
+    // Hard stop for rules that never produce matches (e.g. BYMONTHDAY=31 in February only)
+    const MAX_PERIODS = 5000;
+
+    for (let period = 0; period < MAX_PERIODS; period++) {
+        let candidates: Date[] = [];
+        const step = period * rule.interval;
+
+        switch (rule.freq) {
+            case 'DAILY': {
+                const d = new Date(start);
+                d.setDate(start.getDate() + step);
+                if (rule.byDay && !rule.byDay.some(bd => bd.weekday === d.getDay())) break;
+                if (rule.byMonth && !rule.byMonth.includes(d.getMonth() + 1)) break;
+                candidates = [d];
+                break;
+            }
+            case 'WEEKLY': {
+                // Week containing DTSTART, starting Monday (WKST default)
+                const weekStart = new Date(start);
+                weekStart.setDate(start.getDate() - ((start.getDay() + 6) % 7) + step * 7);
+                const weekdays = rule.byDay && rule.byDay.length > 0
+                    ? rule.byDay.map(bd => bd.weekday)
+                    : [start.getDay()];
+                candidates = weekdays
+                    .map(wd => {
+                        const d = new Date(weekStart);
+                        d.setDate(weekStart.getDate() + ((wd + 6) % 7));
+                        return d;
+                    })
+                    .sort((a, b) => a.getTime() - b.getTime());
+                break;
+            }
+            case 'MONTHLY': {
+                const monthIndex = start.getMonth() + step;
+                const year = start.getFullYear() + Math.floor(monthIndex / 12);
+                const month = ((monthIndex % 12) + 12) % 12;
+                if (rule.byMonth && !rule.byMonth.includes(month + 1)) break;
+                candidates = expandMonth(year, month, rule, start);
+                break;
+            }
+            case 'YEARLY': {
+                const year = start.getFullYear() + step;
+                const months = rule.byMonth && rule.byMonth.length > 0 ? rule.byMonth.map(m => m - 1) : [start.getMonth()];
+                for (const month of months) {
+                    if (!rule.byDay && !rule.byMonthDay) {
+                        // Plain yearly: same month/day, skipping years without it (Feb 29)
+                        if (start.getDate() <= daysInMonth(year, month)) {
+                            candidates.push(new Date(year, month, start.getDate(), start.getHours(), start.getMinutes(), start.getSeconds()));
+                        }
+                    } else {
+                        candidates.push(...expandMonth(year, month, rule, start));
+                    }
+                }
+                break;
+            }
+            default:
+                // Sub-daily frequencies aren't meaningful for calendar notes
+                return [start];
+        }
+
+        for (const candidate of candidates) {
+            if (!accept(candidate)) return results;
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Map an RRULE onto a calendar RecurrenceRule when the recurrence engine can
+ * reproduce it exactly from `start`; returns undefined otherwise (e.g. BYMONTHDAY
+ * lists, hourly rules, or months the RFC would skip but the engine clamps).
+ */
+export function toNoteRecurrence(rule: ICalRecurrenceRule, start?: Date): RecurrenceRule | undefined {
+    const ordinals = (rule.byDay || []).filter(d => d.ordinal !== undefined);
+    const weekdays = (rule.byDay || []).map(d => d.weekday);
+    const startDay = start?.getDate();
+    if (rule.byMonthDay && !(rule.byMonthDay.length === 1 && rule.byMonthDay[0] === startDay)) return undefined;
+
+    const mapped: RecurrenceRule = { type: 'daily' };
+    switch (rule.freq) {
+        case 'DAILY':
+        case 'WEEKLY':
+            if (ordinals.length > 0 || rule.bySetPos || rule.byMonth) return undefined;
+            if (rule.freq === 'DAILY') mapped.type = 'daily';
+            else mapped.type = rule.interval === 2 ? 'fortnightly' : 'weekly';
+            if (weekdays.length > 0) mapped.byWeekday = weekdays;
+            break;
+        case 'MONTHLY':
+        case 'YEARLY': {
+            mapped.type = rule.freq === 'MONTHLY' ? 'monthly' : 'yearly';
+            if (rule.freq === 'YEARLY' && rule.byMonth && !(rule.byMonth.length === 1 && start && rule.byMonth[0] === start.getMonth() + 1)) return undefined;
+            if (rule.byDay && rule.byDay.length > 0) {
+                // A single nth weekday, written as BYDAY=2TU or BYDAY=TU;BYSETPOS=2
+                const setPos = rule.byDay.length === 1 ? (rule.byDay[0].ordinal ?? (rule.bySetPos?.length === 1 ? rule.bySetPos[0] : undefined)) : undefined;
+                if (setPos === undefined || (rule.byDay[0].ordinal !== undefined && rule.bySetPos)) return undefined;
+                if (rule.freq === 'YEARLY' && !rule.byMonth) return undefined;
+                mapped.byWeekday = [rule.byDay[0].weekday];
+                mapped.setPos = setPos;
+            } else if (rule.bySetPos || (startDay !== undefined && startDay > 28)) {
+                // The RFC skips months without the start day; the engine would clamp
+                return undefined;
+            }
+            break;
+        }
+        default:
+            return undefined;
+    }
+
+    if (rule.interval > 1 && mapped.type !== 'fortnightly') mapped.interval = rule.interval;
+    if (rule.count) mapped.count = rule.count;
+    else if (rule.until) mapped.endDate = toLocalDateKey(rule.until);
+
+    // DTSTART is always the first occurrence in iCalendar; the engine only emits dates matching the rule
+    if (start) {
+        const startKey = toLocalDateKey(start);
+        if (getRuleDates({ ...mapped, count: 1, endDate: undefined }, startKey, startKey)[0] !== startKey) return undefined;
+    }
+    return mapped;
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+/**
+ * Parse an iCalendar document into events.
+ * Unknown components (VTODO, VJOURNAL, VTIMEZONE) are skipped; zone
+ * definitions are resolved through the runtime's IANA database instead.
+ */
+export function parseICalendar(text: string): ICalParseResult {
+    const lines = unfoldLines(text);
+    const events: ICalEvent[] = [];
+    const warnings: string[] = [];
+    let calendarName: string | undefined;
+
+    // Component stack so VALARM properties don't leak into the VEVENT
+    const stack: string[] = [];
+    let props: ICalProperty[] = [];
+    let alarms: number[] = [];
+    let alarmTrigger: number | null = null;
+
+    for (const line of lines) {
+        const prop = parseContentLine(line);
+        if (!prop) continue;
+
+        if (prop.name === 'BEGIN') {
+            const component = prop.value.trim().toUpperCase();
+            stack.push(component);
+            if (component === 'VEVENT') {
+                props = [];
+                alarms = [];
+            } else if (component === 'VALARM') {
+                alarmTrigger = null;
+            }
+            continue;
+        }
+
+        if (prop.name === 'END') {
+            const component = stack.pop();
+            if (component === 'VALARM' && alarmTrigger !== null) {
+                alarms.push(alarmTrigger);
+            } else if (component === 'VEVENT') {
+                const event = buildEvent(props, alarms, warnings);
+                if (event) events.push(event);
+            }
+            continue;
+        }
+
+        const current = stack[stack.length - 1];
+        if (current === 'VEVENT') {
+            props.push(prop);
+        } else if (current === 'VALARM' && prop.name === 'TRIGGER') {
+            alarmTrigger = parseAlarmTrigger(prop, props);
+        } else if (current === 'VCALENDAR' && prop.name === 'X-WR-CALNAME') {
+            calendarName = unescapeText(prop.value);
+        }
+    }
+
+    return { calendarName, events, warnings };
+}
+
+/**
+ * Convert a VALARM TRIGGER into "minutes before start".
+ * Absolute triggers are resolved against the event's DTSTART.
+ */
+function parseAlarmTrigger(prop: ICalProperty, eventProps: ICalProperty[]): number | null {
+    if (prop.params.VALUE === 'DATE-TIME') {
+        const trigger = parseICalDate(prop.value, prop.params);
+        const startProp = eventProps.find(p => p.name === 'DTSTART');
+        const start = startProp ? parseICalDate(startProp.value, startProp.params) : null;
+        if (!trigger || !start) return null;
+        return Math.max(0, Math.round((start.date.getTime() - trigger.date.getTime()) / 60000));
+    }
+
+    if (prop.params.RELATED === 'END') return null; // End-relative alarms have no Note equivalent
+
+    // Triggers after the start can't be expressed as "minutes before"; fire at start instead
+    const minutes = parseDuration(prop.value);
+    if (minutes === null) return null;
+    return minutes >= 0 ? 0 : -minutes;
+}
+
+function buildEvent(props: ICalProperty[], alarms: number[], warnings: string[]): ICalEvent | null {
+    const get = (name: string) => props.find(p => p.name === name);
+
+    const startProp = get('DTSTART');
+    const start = startProp ? parseICalDate(startProp.value, startProp.params) : null;
+    const summary = get('SUMMARY');
+    if (!start) {
+        warnings.push(`Skipped "${summary ? unescapeText(summary.value) : 'Untitled'}": missing or invalid DTSTART`);
+        return null;
+    }
+
+    if (start.tzid && !start.allDay && zonedWallTimeToDate(2000, 1, 1, 0, 0, 0, start.tzid) === null) {
+        warnings.push(`Unknown time zone "${start.tzid}" - times shown as local`);
+    }
+
+    let end: ICalDateTime | undefined;
+    const endProp = get('DTEND');
+    const durationProp = get('DURATION');
+    if (endProp) {
+        end = parseICalDate(endProp.value, endProp.params) || undefined;
+    } else if (durationProp) {
+        const minutes = parseDuration(durationProp.value);
+        if (minutes !== null) {
+            end = { date: new Date(start.date.getTime() + minutes * 60000), allDay: start.allDay, tzid: start.tzid };
+        }
+    }
+
+    const rruleProp = get('RRULE');
+    const rrule = rruleProp ? parseRRule(rruleProp.value, startProp!.params) || undefined : undefined;
+
+    const exdates: Date[] = [];
+    for (const p of props.filter(p => p.name === 'EXDATE')) {
+        for (const value of p.value.split(',')) {
+            const parsed = parseICalDate(value, p.params);
+            if (parsed) exdates.push(parsed.date);
+        }
+    }
+
+    const recurrenceIdProp = get('RECURRENCE-ID');
+    const recurrenceId = recurrenceIdProp ? parseICalDate(recurrenceIdProp.value, recurrenceIdProp.params)?.date : undefined;
+
+    const priorityProp = get('PRIORITY');
+    const priority = priorityProp ? parseInt(priorityProp.value, 10) : undefined;
+
+    return {
+        uid: get('UID')?.value.trim(),
+        summary: summary ? unescapeText(summary.value).trim() : '',
+        description: get('DESCRIPTION') ? unescapeText(get('DESCRIPTION')!.value) : '',
+        location: get('LOCATION') ? unescapeText(get('LOCATION')!.value) : undefined,
+        start,
+        end,
+        rrule,
+        exdates,
+        recurrenceId,
+        alarms: Array.from(new Set(alarms)).sort((a, b) => a - b),
+        status: get('STATUS')?.value.trim().toUpperCase(),
+        priority: priority !== undefined && !isNaN(priority) ? priority : undefined,
+    };
+}
+
+// ============================================================================
+// CONVERSION TO NOTES
+// ============================================================================
+
+/**
+ * Map iCalendar PRIORITY (1 = highest, 9 = lowest, 0 = undefined) to importance.
+ */
+function priorityToImportance(priority?: number): Note['importance'] {
+    if (!priority) return 'medium';
+    if (priority <= 4) return 'high';
+    if (priority === 5) return 'medium';
+    return 'low';
+}
+
+/**
+ * All-day flag and end date/time for an occurrence starting at `date`, keeping
+ * the event's original length. DTEND is exclusive, so an all-day event ending
+ * on the 12th covers up to the 11th.
+ */
+function toNoteTiming(source: ICalEvent, date: Date): Pick<Note, 'allDay' | 'endDate' | 'endTime'> {
+    const startKey = toLocalDateKey(date);
+    const length = source.end ? source.end.date.getTime() - source.start.date.getTime() : 0;
+
+    if (source.start.allDay) {
+        const days = Math.round(length / 86400000);
+        return days > 1 ? { allDay: true, endDate: addDaysToKey(startKey, days - 1) } : { allDay: true };
+    }
+    if (length <= 0) return {};
+
+    const end = new Date(date.getTime() + length);
+    const endKey = toLocalDateKey(end);
+    return endKey > startKey ? { endTime: toLocalTime(end), endDate: endKey } : { endTime: toLocalTime(end) };
+}
+
+/**
+ * Convert an event into calendar notes. Recurring events the recurrence engine
+ * can represent become a single series definition, with EXDATEs and
+ * RECURRENCE-ID overrides stored as occurrence exceptions (overrides moved to
+ * another day become stand-alone notes). Other recurring events fall back to
+ * one Note per occurrence sharing a seriesId.
+ */
+export function icalEventToNotes(event: ICalEvent, overrides: ICalEvent[] = []): ImportedNoteInstance[] {
+    const seriesId = event.rrule || overrides.length > 0 ? crypto.randomUUID() : undefined;
+    const recurrence = event.rrule ? toNoteRecurrence(event.rrule, event.start.date) : undefined;
+
+    const build = (source: ICalEvent, date: Date): ImportedNoteInstance => {
+        const description = source.location
+            ? [source.description, `Location: ${source.location}`].filter(Boolean).join('\n\n')
+            : source.description;
+
+        const note: Note = {
+            id: crypto.randomUUID(),
+            title: source.summary || 'Imported Event',
+            description,
+            time: source.start.allDay ? ALL_DAY_DEFAULT_TIME : toLocalTime(date),
+            importance: priorityToImportance(source.priority),
+            icalUid: source.uid,
+        };
+        Object.assign(note, toNoteTiming(source, date));
+        if (source.alarms.length > 0) note.reminder = source.alarms;
+        if (seriesId) note.seriesId = seriesId;
+
+        return { dateKey: toLocalDateKey(date), note };
+    };
+
+    if (recurrence) {
+        const master = build(event, event.start.date);
+        const exceptions: Record<string, OccurrenceException> = {};
+        const moved: ImportedNoteInstance[] = [];
+
+        for (const exdate of event.exdates) exceptions[toLocalDateKey(exdate)] = { deleted: true };
+        for (const override of overrides) {
+            if (!override.recurrenceId) continue;
+            const key = toLocalDateKey(override.recurrenceId);
+            const instance = build(override, override.start.date);
+            if (override.status === 'CANCELLED' || instance.dateKey !== key) {
+                exceptions[key] = { deleted: true };
+                if (override.status !== 'CANCELLED') {
+                    const { seriesId: _seriesId, ...standalone } = instance.note;
+                    moved.push({ dateKey: instance.dateKey, note: standalone });
+                }
+                continue;
+            }
+            const changed = diffOverrides(master.note, instance.note);
+            if (changed && Object.keys(changed).length > 0) exceptions[key] = { overrides: changed };
+        }
+
+        return [
+            { dateKey: master.dateKey, note: createSeries({ ...master.note, occurrenceExceptions: exceptions }, recurrence) },
+            ...moved,
+        ];
+    }
+
+    const overriddenTimes = new Set(overrides.map(o => o.recurrenceId?.getTime()));
+    const occurrences = expandOccurrences(event).filter(d => !overriddenTimes.has(d.getTime()));
+
+    return [
+        ...occurrences.map(date => build(event, date)),
+        ...overrides
+            .filter(o => o.status !== 'CANCELLED')
+            .map(o => build(o, o.start.date)),
+    ];
+}
+
+/**
+ * Group parsed events into importable series: master events with their
+ * RECURRENCE-ID overrides attached. Cancelled standalone events are dropped.
+ */
+export function groupEventSeries(events: ICalEvent[]): { event: ICalEvent; overrides: ICalEvent[] }[] {
+    const masters = events.filter(e => !e.recurrenceId);
+    const overridesByUid = new Map<string, ICalEvent[]>();
+
+    for (const e of events) {
+        if (!e.recurrenceId || !e.uid) continue;
+        const list = overridesByUid.get(e.uid) || [];
+        list.push(e);
+        overridesByUid.set(e.uid, list);
+    }
+
+    const masterUids = new Set(masters.map(m => m.uid));
+    const groups = masters
+        .filter(e => e.status !== 'CANCELLED')
+        .map(event => ({ event, overrides: (event.uid && overridesByUid.get(event.uid)) || [] }));
+
+    // Overrides whose master isn't in this file are imported as standalone events
+    for (const e of events) {
+        if (e.recurrenceId && (!e.uid || !masterUids.has(e.uid)) && e.status !== 'CANCELLED') {
+            groups.push({ event: { ...e, recurrenceId: undefined }, overrides: [] });
+        }
+    }
+
+    return groups;
+}
+
+/**
+ * Find events that already exist in the calendar.
+ * Matches by UID first, then by identical title, date and time for notes
+ * created before UIDs were stored. Returns index → reason.
+ */
+export function findDuplicateEvents(events: ICalEvent[], existing: NotesData): Map<number, string> {
+    const existingUids = new Set<string>();
+    const existingKeys = new Set<string>();
+
+    for (const [dateKey, dayNotes] of Object.entries(existing)) {
+        for (const note of dayNotes) {
+            if (note.icalUid) existingUids.add(note.icalUid);
+            existingKeys.add(`${dateKey}|${note.time}|${note.title.trim().toLowerCase()}`);
+        }
+    }
+
+    const duplicates = new Map<number, string>();
+    events.forEach((event, index) => {
+        if (event.uid && existingUids.has(event.uid)) {
+            duplicates.set(index, 'Already imported (same UID)');
+            return;
+        }
+        const time = event.start.allDay ? ALL_DAY_DEFAULT_TIME : toLocalTime(event.start.date);
+        const key = `${toLocalDateKey(event.start.date)}|${time}|${(event.summary || 'Imported Event').toLowerCase()}`;
+        if (existingKeys.has(key)) {
+            duplicates.set(index, 'Matches an existing event');
+        }
+    });
+
+    return duplicates;
+}
+
+/**
+ * Human-readable summary of an event's recurrence for the import preview.
+ */
+export function describeRecurrence(rule: ICalRecurrenceRule): string {
+    const unit: Record<string, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+    const base = unit[rule.freq]
+        ? rule.interval === 1 ? `Every ${unit[rule.freq]}` : `Every ${rule.interval} ${unit[rule.freq]}s`
+        : rule.freq.toLowerCase();
+    const days = rule.byDay && rule.byDay.length > 0
+        ? ` on ${rule.byDay.map(d => `${d.ordinal ? `${d.ordinal} ` : ''}${WEEKDAY_CODES[d.weekday]}`).join(', ')}`
+        : '';
+    const end = rule.count ? `, ${rule.count} times` : rule.until ? `, until ${toLocalDateKey(rule.until)}` : '';
+    return `${base}${days}${end}`;
+}
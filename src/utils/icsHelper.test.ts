@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { generateICS, escapeICSText, foldICSLine } from './icsHelper';
+import { parseICalendar, groupEventSeries, expandOccurrences, icalEventToNotes } from './icalParser';
+import { NotesData } from '../types';
+
+/**
+ * iCalendar export
+ *
+ * Exports are checked by feeding them back through the import engine, so the
+ * two stay compatible with each other as well as with RFC 5545.
+ */
+describe('icsHelper export', () => {
+    const notes: NotesData = {
+        '2025-03-03': [
+            { id: 'a', title: 'Review; plan, ship', description: 'Line one\nLine two', time: '09:30', importance: 'high', reminder: [0, 15] },
+            { id: 's1', title: 'Standup', description: '', time: '10:00', importance: 'low', recurrence: { type: 'weekly', count: 3 }, seriesId: 'series' },
+        ],
+        // Second occurrence was deleted; third was completed on its own
+        '2025-03-17': [
+            { id: 's3', title: 'Standup', description: '', time: '10:00', importance: 'low', recurrence: { type: 'weekly', count: 3 }, seriesId: 'series', completed: true },
+        ],
+        '2025-04-01': [
+            { id: 'b', title: 'Later', description: '', time: '12:00', importance: 'medium', completed: true },
+        ],
+    };
+
+    it('escapes text and folds long lines', () => {
+        expect(escapeICSText('a;b,c\\d\ne')).toBe('a\\;b\\,c\\\\d\\ne');
+
+        const folded = foldICSLine(`DESCRIPTION:${'x'.repeat(200)}`);
+        folded.split('\r\n').forEach(line => expect(line.length).toBeLessThanOrEqual(75));
+        expect(folded.replace(/\r\n /g, '')).toBe(`DESCRIPTION:${'x'.repeat(200)}`);
+    });
+
+    it('round-trips events, reminders and recurring series through the importer', () => {
+        const ics = generateICS({ notes });
+        expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+
+        const { events, warnings } = parseICalendar(ics);
+        expect(warnings).toEqual([]);
+
+        const review = events.find(e => e.summary === 'Review; plan, ship')!;
+        expect(review.description).toBe('Line one\nLine two');
+        expect(review.alarms).toEqual([0, 15]);
+        expect(review.start.date).toEqual(new Date(2025, 2, 3, 9, 30));
+
+        const groups = groupEventSeries(events);
+        const standup = groups.find(g => g.event.summary === 'Standup')!;
+        expect(standup.event.rrule?.count).toBe(3);
+        expect(expandOccurrences(standup.event)).toEqual([
+            new Date(2025, 2, 3, 10, 0),
+            new Date(2025, 2, 17, 10, 0),
+        ]);
+        expect(standup.overrides).toHaveLength(1);
+    });
+
+    it('exports end times and all-day spans that import back unchanged', () => {
+        const timed: NotesData = {
+            '2025-03-10': [
+                { id: 'w', title: 'Workshop', description: '', time: '09:00', endTime: '10:30', importance: 'low' },
+                { id: 'c', title: 'Conference', description: '', time: '09:00', allDay: true, endDate: '2025-03-12', importance: 'low' },
+                { id: 'r', title: 'Retreat', description: '', time: '09:00', allDay: true, endDate: '2025-03-11', importance: 'low', recurrence: { type: 'monthly', count: 2 }, occurrenceExceptions: {} },
+            ],
+        };
+        const ics = generateICS({ notes: timed });
+        expect(ics).toContain('DTEND;VALUE=DATE:20250313');
+        expect(ics).toContain('DURATION:P2D');
+
+        const imported = groupEventSeries(parseICalendar(ics).events).map(g => icalEventToNotes(g.event, g.overrides)[0].note);
+        expect(imported.find(n => n.title === 'Workshop')).toMatchObject({ endTime: '10:30' });
+        expect(imported.find(n => n.title === 'Conference')).toMatchObject({ allDay: true, endDate: '2025-03-12' });
+        expect(imported.find(n => n.title === 'Retreat')).toMatchObject({ allDay: true, endDate: '2025-03-11', recurrence: { type: 'monthly', count: 2 } });
+    });
+
+    it('filters by date range, importance and completion', () => {
+        const inMarch = parseICalendar(generateICS({ notes }, { startDate: '2025-03-01', endDate: '2025-03-31' })).events;
+        expect(inMarch.some(e => e.summary === 'Later')).toBe(false);
+
+        const highOnly = parseICalendar(generateICS({ notes }, { importance: ['high'] })).events;
+        expect(highOnly.map(e => e.summary)).toEqual(['Review; plan, ship']);
+
+        const open = parseICalendar(generateICS({ notes }, { includeCompleted: false })).events;
+        expect(open.some(e => e.summary === 'Later')).toBe(false);
+    });
+
+    it('exports milestones and life chapters as all-day events', () => {
+        const ics = generateICS({
+            milestones: { '2025-09-01': [{ id: 'm', title: 'University Start', date: '2025-09-01' }] },
+            lifeChapters: { chapters: [{ id: 'c', title: 'Year One', startDate: '2025-09-01', endDate: '2026-06-30', colour: '#fff' }] },
+        });
+        const { events } = parseICalendar(ics);
+
+        const milestone = events.find(e => e.summary === 'University Start')!;
+        expect(milestone.start.allDay).toBe(true);
+
+        const chapter = events.find(e => e.summary === 'Year One')!;
+        expect(chapter.start.date).toEqual(new Date(2025, 8, 1));
+        // DTEND is exclusive
+        expect(chapter.end?.date).toEqual(new Date(2026, 6, 1));
+    });
+});
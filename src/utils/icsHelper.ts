@@ -1,3 +1,7 @@
+import { Note, NotesData, MilestonesData, LifeChaptersData, RecurrenceFrequency } from '../types';
+import { buildOccurrence, daysBetweenKeys, expandRecurringNotes, isSeriesDefinition, migrateLegacySeries } from './recurrence';
+import { getNoteInstant } from './timezone';
+import { getEventDurationMinutes, getEventRange } from './eventTiming';
 
 // Helper to format ICS date string (YYYYMMDDTHHmmssZ) to readable format
 export function formatICSDate(icsDate: string): string {
@@ -29,3 +33,349 @@ export function formatICSDate(icsDate: string): string {
 
     return icsDate; // Fallback
 }
+
+// ============================================================================
+// ICS EXPORT
+// ============================================================================
+
+export interface ICSExportOptions {
+    startDate?: string;                     // YYYY-MM-DD, inclusive
+    endDate?: string;                       // YYYY-MM-DD, inclusive
+    importance?: Note['importance'][];      // Only export events with these levels (all if omitted)
+    includeCompleted?: boolean;             // Defaults to true
+    includeMilestones?: boolean;            // Defaults to true
+    includeLifeChapters?: boolean;          // Defaults to true
+    calendarName?: string;
+}
+
+export interface ICSExportSource {
+    notes?: NotesData;
+    milestones?: MilestonesData;
+    lifeChapters?: LifeChaptersData;
+}
+
+const PRODUCT_ID = '-//ThoughtsPlus//Calendar Export//EN';
+const UID_DOMAIN = 'thoughtsplus';
+
+const IMPORTANCE_PRIORITY: Record<Note['importance'], number> = {
+    high: 1,
+    medium: 5,
+    low: 9,
+    misc: 0,
+};
+
+const RECURRENCE_FREQUENCIES: Record<RecurrenceFrequency, string> = {
+    daily: 'DAILY',
+    weekly: 'WEEKLY',
+    fortnightly: 'WEEKLY',
+    monthly: 'MONTHLY',
+    yearly: 'YEARLY',
+};
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Upper bound when checking whether an open-ended series reaches the export range
+const OPEN_END = '9999-12-31';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Escape a TEXT value (RFC 5545 §3.3.11)
+ */
+export function escapeICSText(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to 75 octets (RFC 5545 §3.1), never splitting a UTF-8 sequence
+ */
+export function foldICSLine(line: string): string {
+    const encoder = new TextEncoder();
+    if (encoder.encode(line).length <= 75) return line;
+
+    const parts: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+    for (const ch of line) {
+        const bytes = encoder.encode(ch).length;
+        // Continuation lines start with a space, which counts towards the limit
+        const limit = parts.length === 0 ? 75 : 74;
+        if (currentBytes + bytes > limit) {
+            parts.push(current);
+            current = '';
+            currentBytes = 0;
+        }
+        current += ch;
+        currentBytes += bytes;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+}
+
+/** YYYY-MM-DD → YYYYMMDD */
+const toICSDate = (dateKey: string) => dateKey.replace(/-/g, '');
+
+/** YYYY-MM-DD + HH:mm → floating local YYYYMMDDTHHmmss */
+const toICSLocalDateTime = (dateKey: string, time: string) => {
+    const [h, m] = (time || '00:00').split(':');
+    return `${toICSDate(dateKey)}T${pad(parseInt(h, 10) || 0)}${pad(parseInt(m, 10) || 0)}00`;
+};
+
+/** Date → UTC YYYYMMDDTHHmmssZ */
+const toICSUtc = (date: Date) =>
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+/** YYYY-MM-DD + HH:mm → local Date */
+const toLocalDate = (dateKey: string, time?: string) => {
+    const [y, mo, d] = dateKey.split('-').map(Number);
+    const [h, m] = (time || '00:00').split(':').map(Number);
+    return new Date(y, mo - 1, d, h || 0, m || 0);
+};
+
+/** Local Date → YYYY-MM-DD */
+const toDateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const addDays = (dateKey: string, days: number) => {
+    const date = toLocalDate(dateKey);
+    date.setDate(date.getDate() + days);
+    return toDateKey(date);
+};
+
+const inRange = (dateKey: string, options: ICSExportOptions) =>
+    (!options.startDate || dateKey >= options.startDate) && (!options.endDate || dateKey <= options.endDate);
+
+/**
+ * Properties shared by every exported note: text, priority, completion state and alarms
+ */
+function noteBodyLines(note: Note): string[] {
+    const lines: string[] = [`SUMMARY:${escapeICSText(note.title || 'Untitled Event')}`];
+    if (note.description) lines.push(`DESCRIPTION:${escapeICSText(note.description)}`);
+
+    lines.push(`PRIORITY:${IMPORTANCE_PRIORITY[note.importance] ?? 0}`);
+    lines.push(`CATEGORIES:${escapeICSText(note.importance)}`);
+    lines.push(`X-THOUGHTSPLUS-IMPORTANCE:${note.importance}`);
+    if (note.completed) lines.push('X-THOUGHTSPLUS-COMPLETED:TRUE');
+    if (note.completedLate) lines.push('X-THOUGHTSPLUS-COMPLETED-LATE:TRUE');
+    if (note.missed) lines.push('X-THOUGHTSPLUS-MISSED:TRUE');
+
+    for (const minutes of note.reminder || []) {
+        lines.push(
+            'BEGIN:VALARM',
+            'ACTION:DISPLAY',
+            `DESCRIPTION:${escapeICSText(note.title || 'Reminder')}`,
+            `TRIGGER:${minutes === 0 ? 'PT0M' : `-PT${minutes}M`}`,
+            'END:VALARM'
+        );
+    }
+    return lines;
+}
+
+const noteUid = (note: Note) => note.icalUid || `${note.id}@${UID_DOMAIN}`;
+
+/**
+ * Length of an event as a DURATION line: whole days for all-day events,
+ * minutes for timed events with an end (none when only a start was set)
+ */
+function durationLines(dateKey: string, note: Note): string[] {
+    if (note.allDay) {
+        const days = note.endDate && note.endDate > dateKey ? daysBetweenKeys(dateKey, note.endDate) + 1 : 1;
+        return [`DURATION:P${days}D`];
+    }
+    return note.endTime || note.endDate ? [`DURATION:PT${getEventDurationMinutes(dateKey, note)}M`] : [];
+}
+
+/**
+ * Build VEVENT lines for a stand-alone note (exported as an absolute UTC
+ * instant, or as DATE values when it lasts all day)
+ */
+function singleNoteEvent(dateKey: string, note: Note, stamp: string): string[] {
+    const range = getEventRange(dateKey, note);
+    const timing = note.allDay
+        ? [
+            `DTSTART;VALUE=DATE:${toICSDate(dateKey)}`,
+            // DTEND is exclusive for all-day events
+            `DTEND;VALUE=DATE:${toICSDate(addDays(note.endDate && note.endDate > dateKey ? note.endDate : dateKey, 1))}`,
+        ]
+        : [
+            `DTSTART:${toICSUtc(getNoteInstant(dateKey, note))}`,
+            ...(range.explicitEnd ? [`DTEND:${toICSUtc(range.end)}`] : []),
+        ];
+
+    return [
+        'BEGIN:VEVENT',
+        `UID:${noteUid(note)}`,
+        `DTSTAMP:${stamp}`,
+        ...timing,
+        ...noteBodyLines(note),
+        'END:VEVENT',
+    ];
+}
+
+/**
+ * Build the RRULE value for a series definition
+ */
+function toRRule(recurrence: NonNullable<Note['recurrence']>): string {
+    const interval = Math.max(1, recurrence.interval || 1) * (recurrence.type === 'fortnightly' ? 2 : 1);
+    const parts = [`FREQ=${RECURRENCE_FREQUENCIES[recurrence.type]}`];
+    if (interval > 1) parts.push(`INTERVAL=${interval}`);
+
+    const weekdays = (recurrence.byWeekday || []).map(d => WEEKDAY_CODES[d]);
+    if (weekdays.length === 1 && recurrence.setPos) {
+        parts.push(`BYDAY=${recurrence.setPos}${weekdays[0]}`);
+    } else if (weekdays.length > 0) {
+        parts.push(`BYDAY=${weekdays.join(',')}`);
+        if (recurrence.setPos) parts.push(`BYSETPOS=${recurrence.setPos}`);
+    }
+
+    if (recurrence.count) parts.push(`COUNT=${recurrence.count}`);
+    else if (recurrence.endDate) parts.push(`UNTIL=${toICSDate(recurrence.endDate)}T235959`);
+    return parts.join(';');
+}
+
+/**
+ * Build VEVENT lines for a recurring series: one master with an RRULE,
+ * EXDATEs for deleted occurrences, and RECURRENCE-ID overrides for
+ * occurrences edited or completed individually.
+ */
+function seriesEvents(dateKey: string, series: Note, stamp: string): string[] {
+    const uid = series.icalUid || `${series.seriesId || series.id}@${UID_DOMAIN}`;
+    const exceptions = Object.entries(series.occurrenceExceptions || {}).sort(([a], [b]) => a.localeCompare(b));
+    // IANA names are referenced directly; clients resolve them without a VTIMEZONE block
+    const tzParam = (zone?: string) => zone ? `;TZID=${zone}` : '';
+    // All-day series use DATE values for their start, exclusions and overrides
+    const seriesParam = series.allDay ? ';VALUE=DATE' : tzParam(series.timeZone);
+    const seriesValue = (key: string) => series.allDay ? toICSDate(key) : toICSLocalDateTime(key, series.time);
+
+    const lines: string[] = [
+        'BEGIN:VEVENT',
+        `UID:${uid}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART${seriesParam}:${seriesValue(dateKey)}`,
+        ...durationLines(dateKey, series),
+        `RRULE:${toRRule(series.recurrence!)}`,
+    ];
+    const deleted = exceptions.filter(([, exception]) => exception.deleted).map(([key]) => key);
+    if (deleted.length > 0) {
+        lines.push(`EXDATE${seriesParam}:${deleted.map(seriesValue).join(',')}`);
+    }
+    lines.push(...noteBodyLines(series), 'END:VEVENT');
+
+    for (const [key, exception] of exceptions) {
+        if (exception.deleted || !exception.overrides) continue;
+        const occurrence = buildOccurrence(series, key, dateKey);
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${uid}`,
+            `DTSTAMP:${stamp}`,
+            `RECURRENCE-ID${seriesParam}:${seriesValue(key)}`,
+            occurrence.allDay
+                ? `DTSTART;VALUE=DATE:${toICSDate(key)}`
+                : `DTSTART${tzParam(occurrence.timeZone)}:${toICSLocalDateTime(key, occurrence.time)}`,
+            ...durationLines(key, occurrence),
+            ...noteBodyLines(occurrence),
+            'END:VEVENT'
+        );
+    }
+    return lines;
+}
+
+/**
+ * Whether any occurrence of a series falls in the export range
+ */
+function seriesInRange(dateKey: string, series: Note, options: ICSExportOptions): boolean {
+    if (options.endDate && dateKey > options.endDate) return false;
+    if (!options.startDate) return true;
+    const occurrences = expandRecurringNotes({ [dateKey]: [series] }, options.endDate || OPEN_END, options.startDate);
+    return Object.keys(occurrences).length > 0;
+}
+
+/**
+ * Serialise calendar events, milestones and life chapters into an
+ * RFC 5545 calendar. Stand-alone events are written in UTC; recurring series
+ * use their own TZID, or floating local time (with X-WR-TIMEZONE), so they
+ * don't drift across DST.
+ */
+export function generateICS(source: ICSExportSource, options: ICSExportOptions = {}): string {
+    const stamp = toICSUtc(new Date());
+    const includeCompleted = options.includeCompleted !== false;
+    const importanceFilter = options.importance && options.importance.length > 0 ? new Set(options.importance) : null;
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+    const lines: string[] = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeICSText(options.calendarName || 'ThoughtsPlus')}`,
+    ];
+    if (timeZone) lines.push(`X-WR-TIMEZONE:${timeZone}`);
+
+    // Notes: data saved before series definitions existed is collapsed first so each series is exported once
+    const { notes } = migrateLegacySeries(source.notes || {});
+    for (const [dateKey, dayNotes] of Object.entries(notes)) {
+        if (!Array.isArray(dayNotes)) continue;
+        for (const note of dayNotes) {
+            if (importanceFilter && !importanceFilter.has(note.importance)) continue;
+            if (!includeCompleted && note.completed) continue;
+
+            if (isSeriesDefinition(note)) {
+                // A series is exported whole if any of its occurrences falls in the range
+                if (seriesInRange(dateKey, note, options)) lines.push(...seriesEvents(dateKey, note, stamp));
+            } else if (inRange(dateKey, options)) {
+                lines.push(...singleNoteEvent(dateKey, note, stamp));
+            }
+        }
+    }
+
+    if (options.includeMilestones !== false) {
+        for (const [dateKey, dayMilestones] of Object.entries(source.milestones || {})) {
+            if (!Array.isArray(dayMilestones) || !inRange(dateKey, options)) continue;
+            for (const milestone of dayMilestones) {
+                lines.push(
+                    'BEGIN:VEVENT',
+                    `UID:milestone-${milestone.id}@${UID_DOMAIN}`,
+                    `DTSTAMP:${stamp}`,
+                    milestone.time
+                        ? `DTSTART:${toICSUtc(toLocalDate(dateKey, milestone.time))}`
+                        : `DTSTART;VALUE=DATE:${toICSDate(dateKey)}`,
+                    `SUMMARY:${escapeICSText(milestone.title)}`,
+                    ...(milestone.description ? [`DESCRIPTION:${escapeICSText(milestone.description)}`] : []),
+                    'CATEGORIES:Milestone',
+                    'TRANSP:TRANSPARENT',
+                    'END:VEVENT'
+                );
+            }
+        }
+    }
+
+    if (options.includeLifeChapters !== false) {
+        const today = toDateKey(new Date());
+        for (const chapter of source.lifeChapters?.chapters || []) {
+            // Ongoing chapters run until today; DTEND is exclusive for all-day events
+            const end = chapter.endDate || (today > chapter.startDate ? today : chapter.startDate);
+            if (options.startDate && end < options.startDate) continue;
+            if (options.endDate && chapter.startDate > options.endDate) continue;
+
+            lines.push(
+                'BEGIN:VEVENT',
+                `UID:chapter-${chapter.id}@${UID_DOMAIN}`,
+                `DTSTAMP:${stamp}`,
+                `DTSTART;VALUE=DATE:${toICSDate(chapter.startDate)}`,
+                `DTEND;VALUE=DATE:${toICSDate(addDays(end, 1))}`,
+                `SUMMARY:${escapeICSText(chapter.title)}`,
+                ...(chapter.description ? [`DESCRIPTION:${escapeICSText(chapter.description)}`] : []),
+                'CATEGORIES:Life Chapter',
+                'TRANSP:TRANSPARENT',
+                'END:VEVENT'
+            );
+        }
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldICSLine).join('\r\n') + '\r\n';
+}
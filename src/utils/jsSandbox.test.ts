@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { JsSandbox, hoistTopLevelDeclarations, isInsideFolder, prepareCellCode, resolveInsideFolder } from './jsSandbox';
+
+// Stands in for the worker (jsdom has none): each run is answered by the test's script
+class FakeWorker extends EventTarget {
+    static instances: FakeWorker[] = [];
+    static script: (worker: FakeWorker, message: any) => void = () => {};
+    terminated = false;
+    received: any[] = [];
+
+    constructor() {
+        super();
+        FakeWorker.instances.push(this);
+    }
+
+    postMessage(message: any) {
+        this.received.push(message);
+        if (message.type === 'run') FakeWorker.script(this, message);
+    }
+
+    send(data: any) {
+        this.dispatchEvent(new MessageEvent('message', { data }));
+    }
+
+    terminate() {
+        this.terminated = true;
+    }
+}
+
+/**
+ * JavaScript sandbox
+ *
+ * Console capture, timeouts, stopping and the app access gate, against a fake worker.
+ */
+describe('JsSandbox', () => {
+    beforeEach(() => {
+        FakeWorker.instances = [];
+        vi.stubGlobal('Worker', FakeWorker);
+        URL.createObjectURL = vi.fn(() => 'blob:sandbox');
+        URL.revokeObjectURL = vi.fn();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+    });
+
+    it('collects console lines and the result', async () => {
+        FakeWorker.script = (worker, { runId }) => {
+            worker.send({ type: 'console', runId, level: 'log', text: 'hello' });
+            worker.send({ type: 'console', runId, level: 'warn', text: 'careful' });
+            worker.send({ type: 'done', runId, result: '42' });
+        };
+        const seen: string[] = [];
+        const result = await new JsSandbox().run('return 42', { timeoutMs: 1000, onOutput: output => seen.push(output) });
+
+        expect(result).toEqual({ status: 'completed', output: 'hello\n[WARN] careful\n>> 42', outputs: [], error: false });
+        expect(seen).toEqual(['hello', 'hello\n[WARN] careful']);
+    });
+
+    it('keeps displays apart from console text', async () => {
+        const table = { mime: 'application/vnd.nerdbook.table+json', data: '{"columns":["a"],"rows":[[1]]}' };
+        FakeWorker.script = (worker, { runId }) => {
+            worker.send({ type: 'display', runId, output: table });
+            worker.send({ type: 'done', runId });
+        };
+        const seen: number[] = [];
+        const result = await new JsSandbox().run('display([{ a: 1 }])', { timeoutMs: 1000, onOutput: (_, outputs) => seen.push(outputs.length) });
+
+        expect(result).toEqual({ status: 'completed', output: '', outputs: [table], error: false });
+        expect(seen).toEqual([1]);
+    });
+
+    it('terminates a run that times out or is stopped, starting fresh afterwards', async () => {
+        vi.useFakeTimers();
+        FakeWorker.script = () => {};
+        const sandbox = new JsSandbox();
+
+        const timedOut = sandbox.run('while (true) {}', { timeoutMs: 2000 });
+        await vi.advanceTimersByTimeAsync(2000);
+        expect((await timedOut).status).toBe('timed-out');
+        expect(FakeWorker.instances[0].terminated).toBe(true);
+
+        const stopped = sandbox.run('await new Promise(() => {})', { timeoutMs: 2000 });
+        await vi.advanceTimersByTimeAsync(0);
+        expect(sandbox.isRunning).toBe(true);
+        sandbox.stop();
+        expect(await stopped).toMatchObject({ status: 'stopped', error: true });
+        expect(FakeWorker.instances).toHaveLength(2);
+        expect(FakeWorker.instances[1].terminated).toBe(true);
+    });
+
+    it('forwards app.invoke only when app access is granted', async () => {
+        const invoke = vi.spyOn((window as any).ipcRenderer, 'invoke').mockResolvedValue(['note']);
+        FakeWorker.script = (worker, { runId }) => {
+            worker.send({ type: 'invoke', id: runId, channel: 'get-data', args: [] });
+            setTimeout(() => worker.send({ type: 'done', runId }), 0);
+        };
+        const sandbox = new JsSandbox();
+
+        await sandbox.run('await app.invoke("get-data")', { timeoutMs: 1000 });
+        const worker = FakeWorker.instances[0];
+        expect(invoke).not.toHaveBeenCalled();
+        expect(worker.received.find(m => m.type === 'invoke-result').error).toMatch(/App access is off/);
+
+        await sandbox.run('await app.invoke("get-data")', { timeoutMs: 1000, allowAppAccess: true });
+        expect(invoke).toHaveBeenCalledWith('get-data');
+        expect(worker.received.filter(m => m.type === 'invoke-result').pop()).toEqual({ type: 'invoke-result', id: 2, result: ['note'] });
+        invoke.mockRestore();
+    });
+
+    it('only forwards channels that read notes and workspace files', async () => {
+        const invoke = vi.spyOn((window as any).ipcRenderer, 'invoke')
+            .mockImplementation(async (channel: unknown, filePath?: unknown) => channel === 'resolve-workspace-file'
+                ? resolveInsideFolder(filePath as string, '/data/workspace', async value => value)
+                : 'content');
+        const requests: [string, unknown[]][] = [
+            ['run-local-cell', [{ code: 'rm -rf ~' }]],
+            ['get-api-key', []],
+            ['read-workspace-file', ['/home/me/.ssh/id_rsa']],
+            ['read-workspace-file', ['/data/workspace/../settings.json']],
+            ['read-workspace-file', ['/data/workspace/Notes/Plan.nt']],
+        ];
+        FakeWorker.script = (worker, { runId }) => {
+            requests.forEach(([channel, args], index) => worker.send({ type: 'invoke', id: index, channel, args }));
+            setTimeout(() => worker.send({ type: 'done', runId }), 0);
+        };
+
+        await new JsSandbox().run('', { timeoutMs: 1000, allowAppAccess: true });
+        const results = FakeWorker.instances[0].received.filter(m => m.type === 'invoke-result');
+        expect(results.map(r => r.error ? 'blocked' : r.result)).toEqual(['blocked', 'blocked', 'blocked', 'blocked', 'content']);
+        expect(invoke.mock.calls.map(call => call[0])).not.toContain('run-local-cell');
+        invoke.mockRestore();
+
+        expect(isInsideFolder('C:\\ws\\Notes\\a.nt', 'C:\\ws')).toBe(true);
+        expect(isInsideFolder('/data/workspace', '/data/workspace')).toBe(false);
+        expect(isInsideFolder('/data/workspace-old/a.nt', '/data/workspace')).toBe(false);
+    });
+
+    it('resolves symlinks before letting a file read through', async () => {
+        const root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'js-sandbox-')));
+        try {
+            const workspace = path.join(root, 'workspace');
+            await fs.mkdir(workspace);
+            await fs.writeFile(path.join(workspace, 'Plan.nt'), 'plan');
+            await fs.writeFile(path.join(root, 'secret.txt'), 'secret');
+            await fs.symlink(path.join(root, 'secret.txt'), path.join(workspace, 'secret.nt'));
+            await fs.symlink(path.join(workspace, 'Plan.nt'), path.join(workspace, 'Plan link.nt'));
+
+            expect(await resolveInsideFolder(path.join(workspace, 'Plan.nt'), workspace, fs.realpath)).toBe(path.join(workspace, 'Plan.nt'));
+            expect(await resolveInsideFolder(path.join(workspace, 'Plan link.nt'), workspace, fs.realpath)).toBe(path.join(workspace, 'Plan.nt'));
+            expect(await resolveInsideFolder(path.join(workspace, 'secret.nt'), workspace, fs.realpath)).toBeNull();
+            expect(await resolveInsideFolder(path.join(workspace, 'Missing.nt'), workspace, fs.realpath)).toBeNull();
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+});
+
+/**
+ * Cell scope
+ *
+ * Top-level declarations outlive their cell; nested ones, strings and comments are left alone.
+ */
+describe('prepareCellCode', () => {
+    const AsyncFunction = Object.getPrototypeOf(async function () { }).constructor;
+    const runCell = (code: string) => new AsyncFunction(prepareCellCode(code))();
+
+    afterEach(() => {
+        for (const name of ['total', 'a', 'renamed', 'double', 'Point', 'inner']) delete (globalThis as any)[name];
+    });
+
+    it('lists the names a cell declares at its top level', () => {
+        const { code, names } = hoistTopLevelDeclarations([
+            "const total = 2, { a, b: renamed } = { a: 1, b: 2 }",
+            "function double(n) { let local = n; return local * 2 }",
+            "class Point {}",
+            "for (let i = 0; i < 1; i++) { const inner = i }",
+        ].join('\n'));
+
+        expect(names).toEqual(['total', 'a', 'renamed', 'double', 'Point']);
+        expect(code).toContain('var total = 2, { a, b: renamed }');
+        expect(code).toContain('var Point = class Point {};');
+        expect(code).toContain('let local = n');
+        expect(code).toContain('for (let i = 0');
+    });
+
+    it('ignores declarations inside strings, comments, templates and regexes', () => {
+        const { names } = hoistTopLevelDeclarations("const s = 'let x = 1' // const y\n/* var z */ const re = /let w/, t = `${(() => { const u = 1; return u })()} let v`");
+        expect(names).toEqual(['s', 're', 't']);
+    });
+
+    it('keeps variables for later cells, even when a cell throws', async () => {
+        await runCell("const total = 2\nlet { a, b: renamed } = { a: 1, b: 2 }\nfunction double(n) { return n * 2 }\nfor (let i = 0; i < 1; i++) { const inner = i }");
+        expect(await runCell('return double(total) + a + renamed')).toBe(7);
+        expect((globalThis as any).inner).toBeUndefined();
+
+        await expect(runCell("const total = 5\nthrow new Error('late')")).rejects.toThrow('late');
+        expect(await runCell('return total')).toBe(5);
+    });
+});
@@ -0,0 +1,592 @@
+/**
+ * JavaScript Sandbox
+ * Runs Nerdbook JavaScript cells in a Web Worker instead of on the app's page.
+ * A runaway loop can't freeze the app: the worker is terminated when a cell
+ * times out or is stopped. Cells can't reach `window` or the IPC bridge, and
+ * their console output is captured inside the worker instead of by patching
+ * the app's console. Variables a cell declares at its top level stay
+ * available to later cells until the worker is terminated, like a Jupyter
+ * kernel's.
+ *
+ * The one way out is `app.invoke(channel, ...args)`, which the page forwards
+ * to ipcRenderer only for notebooks that have been granted app access, and
+ * only for the channels that read the user's notes, tasks and workspace files:
+ * nothing that changes data, runs programs or reads settings and keys.
+ *
+ * `display(value)` shows rich output: arrays of objects as tables, other
+ * objects as JSON. display.html(), .svg(), .png(), .json() and .table() pick
+ * the type themselves.
+ */
+
+import type { NerdCellOutput } from '../types';
+import type { VariableInfo } from './notebookKernels';
+import { MAX_TABLE_ROWS, TABLE_MIME } from './cellOutputs';
+
+export const DEFAULT_JS_TIMEOUT_SECONDS = 30;
+
+// Channels app.invoke may call
+export const APP_INVOKE_CHANNELS = [
+    'get-data', 'get-todos', 'get-boards', 'get-drawing', 'get-workspace', 'get-workspace-tags',
+    'list-all-workspace-files', 'search-workspace',
+];
+
+// Channels reading one file, whose real path must be inside the workspace folder
+export const APP_INVOKE_FILE_CHANNELS = ['read-workspace-file', 'load-workspace-file'];
+
+/** Whether `filePath` is inside `folder`, without climbing out of it with `..`. */
+export function isInsideFolder(filePath: string, folder: string): boolean {
+    const parts = (value: string) => value.replace(/\\/g, '/').split('/').filter(Boolean);
+    const fileParts = parts(filePath);
+    const folderParts = parts(folder);
+    if (fileParts.some(part => part === '..' || part === '.')) return false;
+    return fileParts.length > folderParts.length && folderParts.every((part, index) => part === fileParts[index]);
+}
+
+/**
+ * Real path of `filePath` if it is inside `folder` once symlinks are resolved,
+ * or null. The main process answers the sandbox's file reads with it, passing
+ * fs.realpath, so a link in the workspace can't lead a cell outside it.
+ */
+export async function resolveInsideFolder(
+    filePath: string,
+    folder: string,
+    realpath: (value: string) => Promise<string>
+): Promise<string | null> {
+    if (!isInsideFolder(filePath, folder)) return null;
+    try {
+        const resolved = await realpath(filePath);
+        return isInsideFolder(resolved, await realpath(folder)) ? resolved : null;
+    } catch {
+        return null;
+    }
+}
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export interface JsRunOptions {
+    timeoutMs: number;
+    allowAppAccess?: boolean;
+    onOutput?: (output: string, outputs: NerdCellOutput[]) => void;    // Output so far, each time a console line or display arrives
+}
+
+export interface JsRunResult {
+    status: 'completed' | 'failed' | 'timed-out' | 'stopped';
+    output: string;
+    outputs: NerdCellOutput[];
+    error: boolean;
+}
+
+// Runs inside the worker, so it's plain JavaScript and can't use anything from this module
+const WORKER_SOURCE = `
+const format = (value) => {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.name + ': ' + value.message;
+    if (typeof value === 'object' && value !== null) {
+        try { return JSON.stringify(value, null, 2); } catch { return String(value); }
+    }
+    return String(value);
+};
+
+let runId = null;
+for (const level of ['log', 'info', 'warn', 'error', 'debug']) {
+    console[level] = (...args) => self.postMessage({ type: 'console', runId, level, text: args.map(format).join(' ') });
+}
+
+const describe = (name, value) => {
+    const type = value === null ? 'null'
+        : Array.isArray(value) ? 'Array'
+        : typeof value === 'object' ? (value.constructor?.name || 'Object')
+        : typeof value;
+    let size = null;
+    if (typeof value === 'string') size = value.length + ' chars';
+    else if (Array.isArray(value) || ArrayBuffer.isView(value)) size = value.length + ' items';
+    else if (value instanceof Map || value instanceof Set) size = value.size + ' items';
+    else if (typeof value === 'object' && value !== null) size = Object.keys(value).length + ' keys';
+    let preview;
+    try {
+        preview = typeof value === 'function' ? String(value).split('\\n')[0]
+            : typeof value === 'object' && value !== null ? JSON.stringify(value) ?? String(value)
+            : String(value);
+    } catch {
+        preview = String(value);
+    }
+    return { name, type, size, preview: preview.length > 120 ? preview.slice(0, 119) + '…' : preview };
+};
+
+const tableCell = (value) => {
+    if (value === null || value === undefined) return null;
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value === 'string' || typeof value === 'boolean') return value;
+    return typeof value === 'object' ? format(value).replace(/\\s+/g, ' ') : String(value);
+};
+
+// Rows of objects (or of arrays) as columns and rows
+const toTable = (rows) => {
+    const shown = rows.slice(0, ${MAX_TABLE_ROWS});
+    const columns = [];
+    for (const row of shown) {
+        for (const key of Object.keys(row)) if (!columns.includes(key)) columns.push(key);
+    }
+    return JSON.stringify({
+        columns,
+        rows: shown.map(row => columns.map(column => tableCell(row[column]))),
+        totalRows: rows.length,
+    });
+};
+
+const isTable = (value) => Array.isArray(value) && value.length > 0 && value.every(row => typeof row === 'object' && row !== null);
+
+const toOutput = (value) => {
+    if (isTable(value)) return { mime: '${TABLE_MIME}', data: toTable(value) };
+    if (typeof value === 'object' && value !== null) {
+        try {
+            const json = JSON.stringify(value);
+            if (json !== undefined) return { mime: 'application/json', data: json };
+        } catch {}
+    }
+    return { mime: 'text/plain', data: format(value) };
+};
+
+const show = (output) => self.postMessage({ type: 'display', runId, output });
+self.display = (...values) => values.forEach(value => show(toOutput(value)));
+self.display.html = (html) => show({ mime: 'text/html', data: String(html) });
+self.display.svg = (svg) => show({ mime: 'image/svg+xml', data: String(svg) });
+self.display.png = (png) => show({ mime: 'image/png', data: String(png).replace(/^data:image\\/png;base64,/, '') });
+self.display.json = (value) => show({ mime: 'application/json', data: JSON.stringify(value) });
+self.display.table = (rows) => show(isTable(rows) ? { mime: '${TABLE_MIME}', data: toTable(rows) } : toOutput(rows));
+
+const pendingCalls = new Map();
+let nextCallId = 0;
+self.app = {
+    invoke: (channel, ...args) => new Promise((resolve, reject) => {
+        const id = nextCallId++;
+        pendingCalls.set(id, { resolve, reject });
+        self.postMessage({ type: 'invoke', id, channel, args });
+    }),
+};
+
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+self.onmessage = async (event) => {
+    const message = event.data;
+    if (message.type === 'variables') {
+        const variables = Object.getOwnPropertyNames(self)
+            .filter(name => !builtins.has(name))
+            .sort()
+            .map(name => describe(name, self[name]));
+        self.postMessage({ type: 'variables', requestId: message.requestId, variables });
+    } else if (message.type === 'invoke-result') {
+        const call = pendingCalls.get(message.id);
+        pendingCalls.delete(message.id);
+        if (message.error !== undefined) call?.reject(new Error(message.error));
+        else call?.resolve(message.result);
+    } else if (message.type === 'run') {
+        runId = message.runId;
+        try {
+            const result = await new AsyncFunction(message.code)();
+            self.postMessage({ type: 'done', runId: message.runId, result: result === undefined ? undefined : format(result) });
+        } catch (error) {
+            self.postMessage({ type: 'done', runId: message.runId, error: error instanceof Error ? error.message : format(error) });
+        }
+    }
+};
+
+// Everything on the global scope from here on came from cells
+const builtins = new Set(Object.getOwnPropertyNames(self));
+`;
+
+const RESERVED_WORDS = new Set([
+    'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do',
+    'else', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof',
+    'let', 'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'undefined',
+    'var', 'void', 'while', 'with', 'yield',
+]);
+
+// A regex can start after these; anywhere else `/` divides
+const REGEX_AFTER_CHARS = '(,=:[!&|?{};+-*%<>~^';
+const REGEX_AFTER_WORDS = new Set(['return', 'typeof', 'case', 'do', 'else', 'in', 'of', 'new', 'delete', 'void', 'throw', 'yield', 'await']);
+
+// A declaration can't follow these, so a keyword after one is part of an expression
+const CONTINUES_EXPRESSION = '=(,:?[!&|+-*/%<>~^.';
+
+interface Token {
+    kind: 'word' | 'punct' | 'space' | 'other';   // other: strings, comments, regexes and template text
+    text: string;
+    depth: number;                                 // Brackets open around the token; 0 is the cell's top level
+}
+
+// Just enough of a JavaScript tokenizer to tell the top level from everything nested
+function tokenize(code: string): Token[] {
+    const tokens: Token[] = [];
+    const stack: string[] = [];     // Open brackets, with '${' for a template's substitutions
+    let i = 0;
+
+    const lastSignificant = () => {
+        for (let t = tokens.length - 1; t >= 0; t--) {
+            if (tokens[t].kind !== 'space' && !/^\/[/*]/.test(tokens[t].text)) return tokens[t];
+        }
+        return null;
+    };
+    const push = (kind: Token['kind'], start: number) => tokens.push({ kind, text: code.slice(start, i), depth: stack.length });
+
+    // Template text up to its end or its next substitution
+    const readTemplate = (start: number) => {
+        while (i < code.length && code[i] !== '`' && !(code[i] === '$' && code[i + 1] === '{')) i += code[i] === '\\' ? 2 : 1;
+        if (code[i] === '`') {
+            i++;
+            push('other', start);
+        } else if (i < code.length) {
+            i += 2;
+            push('other', start);
+            stack.push('${');
+        } else {
+            push('other', start);
+        }
+    };
+
+    while (i < code.length) {
+        const start = i;
+        const char = code[i];
+        if (/\s/.test(char)) {
+            while (i < code.length && /\s/.test(code[i])) i++;
+            push('space', start);
+        } else if (/[A-Za-z_$0-9]/.test(char)) {
+            while (i < code.length && /[\w$]/.test(code[i])) i++;
+            push('word', start);
+        } else if (char === '"' || char === "'") {
+            i++;
+            while (i < code.length && code[i] !== char && code[i] !== '\n') i += code[i] === '\\' ? 2 : 1;
+            i++;
+            push('other', start);
+        } else if (char === '`') {
+            i++;
+            readTemplate(start);
+        } else if (char === '/' && code[i + 1] === '/') {
+            while (i < code.length && code[i] !== '\n') i++;
+            push('other', start);
+        } else if (char === '/' && code[i + 1] === '*') {
+            const end = code.indexOf('*/', i + 2);
+            i = end === -1 ? code.length : end + 2;
+            push('other', start);
+        } else if (char === '/' && (() => {
+            const previous = lastSignificant();
+            return !previous
+                || (previous.kind === 'punct' && REGEX_AFTER_CHARS.includes(previous.text))
+                || (previous.kind === 'word' && REGEX_AFTER_WORDS.has(previous.text));
+        })()) {
+            let inClass = false;
+            i++;
+            while (i < code.length && code[i] !== '\n' && (inClass || code[i] !== '/')) {
+                if (code[i] === '[') inClass = true;
+                else if (code[i] === ']') inClass = false;
+                i += code[i] === '\\' ? 2 : 1;
+            }
+            i++;
+            while (i < code.length && /\w/.test(code[i])) i++;
+            push('other', start);
+        } else if (char === '}' && stack[stack.length - 1] === '${') {
+            stack.pop();
+            i++;
+            readTemplate(start);
+        } else {
+            if (')]}'.includes(char)) stack.pop();
+            i++;
+            push('punct', start);
+            if ('([{'.includes(char)) stack.push(char);
+        }
+    }
+    return tokens;
+}
+
+/**
+ * Rewrite a cell's top-level declarations so they outlive it: let, const and
+ * class become var, and every top-level name is listed to be copied onto the
+ * worker's global scope when the cell ends. Declarations inside blocks and
+ * functions are left alone.
+ */
+export function hoistTopLevelDeclarations(code: string): { code: string; names: string[] } {
+    const tokens = tokenize(code);
+    const names = new Set<string>();
+    const replacements = new Map<number, string>();
+
+    const next = (index: number) => {
+        let j = index + 1;
+        while (j < tokens.length && (tokens[j].kind === 'space' || (tokens[j].kind === 'other' && /^\/[/*]/.test(tokens[j].text)))) j++;
+        return j;
+    };
+    const atStatementStart = (index: number) => {
+        let j = index - 1;
+        let newline = false;
+        while (j >= 0 && (tokens[j].kind === 'space' || (tokens[j].kind === 'other' && /^\/[/*]/.test(tokens[j].text)))) {
+            if (tokens[j].text.includes('\n')) newline = true;
+            j--;
+        }
+        if (j < 0) return true;
+        const previous = tokens[j];
+        if (previous.kind === 'punct') return ';{})'.includes(previous.text) || (newline && !CONTINUES_EXPRESSION.includes(previous.text));
+        return newline && !(previous.kind === 'word' && REGEX_AFTER_WORDS.has(previous.text));
+    };
+    const addName = (index: number) => {
+        const token = tokens[index];
+        if (token?.kind === 'word' && /^[A-Za-z_$]/.test(token.text) && !RESERVED_WORDS.has(token.text)) names.add(token.text);
+    };
+
+    // Names bound by `let a = 1, { b, c: d } = e` starting after the keyword
+    const collectDeclarators = (index: number) => {
+        let j = next(index);
+        while (j < tokens.length) {
+            if (tokens[j].kind === 'word') {
+                addName(j);
+                j = next(j);
+            } else if (tokens[j].text === '{' || tokens[j].text === '[') {
+                // Bound names in a pattern are the words not followed by `:` (that's a property key)
+                let k = j + 1;
+                while (k < tokens.length && tokens[k].depth > 0) {
+                    if (tokens[k].kind === 'word' && tokens[next(k)]?.text !== ':') addName(k);
+                    k++;
+                }
+                j = next(k);
+            } else {
+                return;
+            }
+            // Skip the initializer to the next declarator, or stop at the statement's end
+            while (j < tokens.length) {
+                const token = tokens[j];
+                if (token.depth === 0 && token.text === ',') break;
+                if (token.depth === 0 && (token.text === ';' || (token.kind === 'space' && token.text.includes('\n')))) return;
+                j++;
+            }
+            j = next(j);
+        }
+    };
+
+    for (let index = 0; index < tokens.length; index++) {
+        const token = tokens[index];
+        if (token.kind !== 'word' || token.depth !== 0 || !atStatementStart(index)) continue;
+
+        if (token.text === 'let' || token.text === 'const' || token.text === 'var') {
+            const following = tokens[next(index)];
+            // `let` is also a valid variable name
+            if (!following || !(following.kind === 'word' || following.text === '{' || following.text === '[')) continue;
+            replacements.set(index, 'var');
+            collectDeclarators(index);
+        } else if (token.text === 'class') {
+            const nameIndex = next(index);
+            if (tokens[nameIndex]?.kind !== 'word' || tokens[nameIndex].text === 'extends') continue;
+            addName(nameIndex);
+            replacements.set(index, `var ${tokens[nameIndex].text} = class`);
+            // End the class expression where the declaration's body closes
+            let body = nameIndex;
+            while (body < tokens.length && !(tokens[body].depth === 0 && tokens[body].text === '{')) body++;
+            let close = body + 1;
+            while (close < tokens.length && !(tokens[close].depth === 0 && tokens[close].text === '}')) close++;
+            if (close < tokens.length) replacements.set(close, '};');
+        } else if (token.text === 'function' || (token.text === 'async' && tokens[next(index)]?.text === 'function')) {
+            // Sloppy-mode function declarations are already function scoped; just export the name
+            let nameIndex = next(token.text === 'async' ? next(index) : index);
+            if (tokens[nameIndex]?.text === '*') nameIndex = next(nameIndex);
+            addName(nameIndex);
+        }
+    }
+
+    return {
+        code: tokens.map((token, index) => replacements.get(index) ?? token.text).join(''),
+        names: [...names],
+    };
+}
+
+/**
+ * A cell's code as the worker runs it. Its top-level variables are copied to
+ * the global scope when it finishes, even if it throws or returns early;
+ * one that was never assigned doesn't clear an earlier cell's value.
+ */
+export function prepareCellCode(code: string): string {
+    const { code: hoisted, names } = hoistTopLevelDeclarations(code);
+    if (names.length === 0) return code;
+    const exports = names.map(name => `if (typeof ${name} !== 'undefined') self.${name} = ${name};`).join(' ');
+    return `try {\n${hoisted}\n} finally { ${exports} }`;
+}
+
+/** A console line as cell output shows it: errors and warnings are prefixed. */
+export function formatConsoleLine(level: ConsoleLevel, text: string): string {
+    if (level === 'error') return `[ERROR] ${text}`;
+    if (level === 'warn') return `[WARN] ${text}`;
+    return text;
+}
+
+// Console output, then the line explaining why the run ended, like cells have always shown errors
+function joinOutput(lines: string[], outputs: NerdCellOutput[], ending?: string): string {
+    if (!ending) return lines.join('\n') || (outputs.length > 0 ? '' : '(No output)');
+    return lines.length > 0 ? `${lines.join('\n')}\n\n${ending}` : ending;
+}
+
+/**
+ * One notebook's JavaScript worker. Runs are queued, so "run all" and a cell
+ * started with Ctrl+Enter never overlap.
+ */
+export class JsSandbox {
+    private worker: Worker | null = null;
+    private workerUrl: string | null = null;
+    private allowAppAccess = false;
+    private nextRunId = 0;
+    private queue: Promise<unknown> = Promise.resolve();
+    private stopActiveRun: (() => void) | null = null;
+    private nextRequestId = 0;
+
+    get isRunning(): boolean {
+        return this.stopActiveRun !== null;
+    }
+
+    run(code: string, options: JsRunOptions): Promise<JsRunResult> {
+        const result = this.queue.then(() => this.execute(code, options));
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    /** Stop the running cell. The worker is terminated, so globals from earlier cells are gone too. */
+    stop(): void {
+        this.stopActiveRun?.();
+    }
+
+    /** Stop anything running and start over with a fresh worker, without the variables of earlier cells. */
+    restart(): void {
+        this.stop();
+        this.terminate();
+    }
+
+    dispose(): void {
+        this.restart();
+    }
+
+    /** Variables cells have left on the global scope, or null if the worker is too busy to answer. */
+    variables(): Promise<VariableInfo[] | null> {
+        const worker = this.worker;
+        if (!worker) return Promise.resolve([]);
+        const requestId = ++this.nextRequestId;
+        return new Promise(resolve => {
+            const finish = (variables: VariableInfo[] | null) => {
+                clearTimeout(timer);
+                worker.removeEventListener('message', handleMessage);
+                resolve(variables);
+            };
+            const handleMessage = (event: MessageEvent) => {
+                if (event.data?.type === 'variables' && event.data.requestId === requestId) finish(event.data.variables);
+            };
+            const timer = setTimeout(() => finish(null), 2000);
+            worker.addEventListener('message', handleMessage);
+            worker.postMessage({ type: 'variables', requestId });
+        });
+    }
+
+    private execute(code: string, { timeoutMs, allowAppAccess = false, onOutput }: JsRunOptions): Promise<JsRunResult> {
+        const worker = this.getWorker();
+        const runId = ++this.nextRunId;
+        const lines: string[] = [];
+        const outputs: NerdCellOutput[] = [];
+        this.allowAppAccess = allowAppAccess;
+
+        return new Promise<JsRunResult>(resolve => {
+            const finish = (status: JsRunResult['status'], ending?: string) => {
+                clearTimeout(timer);
+                worker.removeEventListener('message', handleMessage);
+                worker.removeEventListener('error', handleError);
+                this.stopActiveRun = null;
+                resolve({ status, output: joinOutput(lines, outputs, ending), outputs, error: status !== 'completed' });
+            };
+
+            const handleMessage = (event: MessageEvent) => {
+                const message = event.data;
+                if (message?.runId !== runId) return;
+                if (message.type === 'console') {
+                    lines.push(formatConsoleLine(message.level, message.text));
+                    onOutput?.(lines.join('\n'), [...outputs]);
+                } else if (message.type === 'display') {
+                    outputs.push(message.output);
+                    onOutput?.(lines.join('\n'), [...outputs]);
+                } else if (message.type === 'done') {
+                    if (message.error !== undefined) {
+                        finish('failed', `[ERROR] ${message.error}`);
+                    } else {
+                        if (message.result !== undefined) lines.push(`>> ${message.result}`);
+                        finish('completed');
+                    }
+                }
+            };
+
+            // Errors thrown later from timers or callbacks the cell started
+            const handleError = (event: ErrorEvent) => {
+                event.preventDefault();
+                lines.push(`[ERROR] ${event.message}`);
+                onOutput?.(lines.join('\n'), [...outputs]);
+            };
+
+            const timer = setTimeout(() => {
+                this.terminate();
+                finish('timed-out', `[ERROR] Stopped after ${timeoutMs / 1000}s without finishing. Variables from earlier cells were cleared.`);
+            }, timeoutMs);
+
+            this.stopActiveRun = () => {
+                this.terminate();
+                finish('stopped', '[STOPPED] Execution stopped. Variables from earlier cells were cleared.');
+            };
+
+            worker.addEventListener('message', handleMessage);
+            worker.addEventListener('error', handleError);
+            worker.postMessage({ type: 'run', runId, code: prepareCellCode(code) });
+        });
+    }
+
+    private getWorker(): Worker {
+        if (this.worker) return this.worker;
+        this.workerUrl = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+        const worker = new Worker(this.workerUrl);
+        worker.addEventListener('message', event => {
+            if (event.data?.type === 'invoke') this.forwardInvoke(worker, event.data);
+        });
+        this.worker = worker;
+        return worker;
+    }
+
+    private async forwardInvoke(worker: Worker, { id, channel, args }: { id: number; channel: string; args: unknown[] }) {
+        const reply = (payload: { result?: unknown; error?: string }) => {
+            try {
+                worker.postMessage({ type: 'invoke-result', id, ...payload });
+            } catch (e) {
+                // The result can't be copied into the worker
+                worker.postMessage({ type: 'invoke-result', id, error: (e as Error).message });
+            }
+        };
+
+        if (!this.allowAppAccess) {
+            reply({ error: `App access is off for this notebook, so app.invoke('${channel}') was blocked. Turn it on in the notebook's JavaScript settings.` });
+            return;
+        }
+        const readsFile = APP_INVOKE_FILE_CHANNELS.includes(channel);
+        if (!readsFile && !APP_INVOKE_CHANNELS.includes(channel)) {
+            reply({ error: `app.invoke('${channel}') isn't available to notebooks. Allowed: ${[...APP_INVOKE_CHANNELS, ...APP_INVOKE_FILE_CHANNELS].join(', ')}.` });
+            return;
+        }
+        try {
+            if (readsFile) {
+                // @ts-ignore
+                const resolved: string | null = typeof args[0] === 'string' ? await window.ipcRenderer?.invoke('resolve-workspace-file', args[0]) : null;
+                if (typeof resolved !== 'string') {
+                    reply({ error: `app.invoke('${channel}') can only read files inside the workspace folder.` });
+                    return;
+                }
+                args = [resolved, ...args.slice(1)];
+            }
+            // @ts-ignore
+            const result = await window.ipcRenderer?.invoke(channel, ...args);
+            reply({ result });
+        } catch (e) {
+            reply({ error: (e as Error).message });
+        }
+    }
+
+    private terminate() {
+        this.worker?.terminate();
+        this.worker = null;
+        if (this.workerUrl) URL.revokeObjectURL(this.workerUrl);
+        this.workerUrl = null;
+    }
+}
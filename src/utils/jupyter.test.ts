@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { ipynbToNotebook, notebookToIpynb, outputsToText } from './jupyter';
+import { NerdNotebook } from '../types';
+
+/**
+ * Jupyter notebooks
+ *
+ * Converting .ipynb files to Nerdbooks and back.
+ */
+describe('jupyter', () => {
+    it('imports cells, outputs and language metadata', () => {
+        const ipynb = JSON.stringify({
+            nbformat: 4,
+            nbformat_minor: 5,
+            metadata: { kernelspec: { name: 'python3', language: 'python' }, language_info: { name: 'python' } },
+            cells: [
+                { cell_type: 'markdown', source: ['# Analysis\n', 'Load the data'], metadata: {} },
+                {
+                    cell_type: 'code', source: 'x = 1\nx', metadata: {}, execution_count: 1,
+                    outputs: [
+                        { output_type: 'stream', name: 'stdout', text: ['loading\n'] },
+                        { output_type: 'execute_result', execution_count: 1, data: { 'text/plain': ['1'] }, metadata: {} },
+                    ],
+                },
+                { cell_type: 'code', source: 'ls', metadata: { vscode: { languageId: 'shell' } }, outputs: [] },
+                { cell_type: 'raw', source: 'raw text', metadata: {} },
+            ],
+        });
+        const notebook = ipynbToNotebook(ipynb, 'analysis');
+
+        expect(notebook.title).toBe('analysis');
+        expect(notebook.cells.map(c => [c.type, c.content, c.language, c.output])).toEqual([
+            ['markdown', '# Analysis\nLoad the data', undefined, undefined],
+            ['code', 'x = 1\nx', 'python', 'loading\n1'],
+            ['code', 'ls', 'bash', undefined],
+            ['text', 'raw text', undefined, undefined],
+        ]);
+        expect(notebook.cells.map(c => c.executionCount)).toEqual([undefined, 1, undefined, undefined]);
+    });
+
+    it('reads errors and rejects files that are not nbformat 4', () => {
+        expect(outputsToText([
+            { output_type: 'error', ename: 'NameError', evalue: 'x', traceback: ['\x1b[31mTraceback\x1b[0m', 'NameError: x'] },
+        ])).toEqual({ text: 'Traceback\nNameError: x', isError: true });
+
+        expect(() => ipynbToNotebook('{"nbformat": 3, "worksheets": []}', 'old')).toThrow(/format 3/);
+        expect(() => ipynbToNotebook('not json', 'bad')).toThrow(/not a valid/);
+    });
+
+    it('exports valid nbformat 4 that imports back the same', () => {
+        const notebook: NerdNotebook = {
+            id: 'n1', title: 'Demo', createdAt: '',
+            cells: [
+                { id: 'c1', type: 'markdown', content: 'Intro\n', createdAt: '' },
+                { id: 'c2', type: 'code', content: 'print(1)\nprint(2)', language: 'py', output: '1\n2', outputs: [{ mime: 'image/png', data: 'iVBOR' }], createdAt: '' },
+                { id: 'c3', type: 'code', content: 'console.log(x)', language: 'javascript', output: 'ReferenceError: x is not defined', executionError: true, executionCount: 4, createdAt: '' },
+            ],
+        };
+        const ipynb = notebookToIpynb(notebook);
+
+        expect(ipynb).toMatchObject({ nbformat: 4, nbformat_minor: 5, metadata: { kernelspec: { name: 'python3', language: 'python' } } });
+        expect(ipynb.cells[1]).toMatchObject({
+            id: 'c2', cell_type: 'code', source: ['print(1)\n', 'print(2)'], execution_count: null,
+            outputs: [
+                { output_type: 'stream', name: 'stdout', text: ['1\n', '2'] },
+                { output_type: 'display_data', data: { 'image/png': 'iVBOR', 'text/plain': ['<image>'] }, metadata: {} },
+            ],
+        });
+        expect(ipynb.cells[2]).toMatchObject({ metadata: { vscode: { languageId: 'javascript' } }, execution_count: 4 });
+        expect(ipynb.cells[2].outputs).toEqual([{
+            output_type: 'error', ename: 'ReferenceError', evalue: 'x is not defined', traceback: ['ReferenceError: x is not defined'],
+        }]);
+
+        const back = ipynbToNotebook(JSON.stringify(ipynb), 'fallback');
+        expect(back.title).toBe('Demo');
+        expect(back.cells.map(c => [c.content, c.language, c.output, !!c.executionError])).toEqual([
+            ['Intro\n', undefined, undefined, false],
+            ['print(1)\nprint(2)', 'python', '1\n2', false],
+            ['console.log(x)', 'javascript', 'ReferenceError: x is not defined', true],
+        ]);
+        expect(back.cells[1].outputs).toEqual([{ mime: 'image/png', data: 'iVBOR' }]);
+        expect(back.cells[2].executionCount).toBe(4);
+    });
+});
@@ -0,0 +1,242 @@
+/**
+ * Jupyter Notebooks
+ * Converts between Jupyter's nbformat 4 (.ipynb) and Nerdbook notebooks
+ * (.exec). Markdown, code and raw cells map one to one; code cell outputs
+ * become the cell's plain text output and back, and images, HTML, JSON and
+ * tables become its rich outputs. Jupyter notebooks have one
+ * kernel language, so code cells in another language keep theirs in the
+ * cell metadata the way VS Code does.
+ */
+
+import type { NerdCell, NerdCellOutput, NerdNotebook } from '../types';
+import { outputFromMimeBundle, outputToMimeBundle } from './cellOutputs';
+
+// ============================================================================
+// NBFORMAT TYPES
+// ============================================================================
+
+type MultilineString = string | string[];
+
+export type IpynbOutput =
+    | { output_type: 'stream'; name: 'stdout' | 'stderr'; text: MultilineString }
+    | { output_type: 'execute_result'; execution_count: number | null; data: Record<string, unknown>; metadata: Record<string, unknown> }
+    | { output_type: 'display_data'; data: Record<string, unknown>; metadata: Record<string, unknown> }
+    | { output_type: 'error'; ename: string; evalue: string; traceback: string[] };
+
+export interface IpynbCell {
+    id?: string;
+    cell_type: 'markdown' | 'code' | 'raw';
+    source: MultilineString;
+    metadata: Record<string, any>;
+    execution_count?: number | null;
+    outputs?: IpynbOutput[];
+}
+
+export interface IpynbNotebook {
+    nbformat: number;
+    nbformat_minor: number;
+    metadata: Record<string, any>;
+    cells: IpynbCell[];
+}
+
+// Kernels for the languages Nerdbooks run, so Jupyter picks the right one on open
+const KERNELS: Record<string, { name: string; display_name: string }> = {
+    python: { name: 'python3', display_name: 'Python 3' },
+    javascript: { name: 'javascript', display_name: 'JavaScript (Node.js)' },
+    typescript: { name: 'tslab', display_name: 'TypeScript' },
+};
+
+// Nerdbook shorthand for language names
+const LANGUAGE_ALIASES: Record<string, string> = { py: 'python', js: 'javascript', ts: 'typescript', shell: 'bash' };
+
+const normalizeLanguage = (language: string): string => {
+    const lower = language.trim().toLowerCase();
+    return LANGUAGE_ALIASES[lower] || lower;
+};
+
+const joinSource = (source: MultilineString | undefined): string =>
+    Array.isArray(source) ? source.join('') : source || '';
+
+// nbformat stores text as lines that keep their line breaks
+const splitSource = (text: string): string[] => text.split(/(?<=\n)/).filter(Boolean);
+
+// Tracebacks from IPython are colored with terminal escape codes
+const stripAnsi = (text: string): string => text.replace(/\x1b\[[0-9;]*m/g, '');
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/** Plain text of a code cell's outputs, and whether any of them is an error. Rich results are left to outputsToRich. */
+export function outputsToText(outputs: IpynbOutput[]): { text: string; isError: boolean } {
+    let text = '';
+    let isError = false;
+    for (const output of outputs) {
+        let part = '';
+        switch (output.output_type) {
+            case 'stream':
+                part = joinSource(output.text);
+                if (output.name === 'stderr') isError = true;
+                break;
+            case 'execute_result':
+            case 'display_data':
+                if (!outputFromMimeBundle(output.data || {})) part = joinSource(output.data?.['text/plain'] as MultilineString | undefined);
+                break;
+            case 'error':
+                part = output.traceback?.length
+                    ? stripAnsi(output.traceback.join('\n'))
+                    : `${output.ename}: ${output.evalue}`;
+                isError = true;
+                break;
+        }
+        if (!part) continue;
+        if (text && !text.endsWith('\n')) text += '\n';
+        text += part;
+    }
+    return { text: text.replace(/\n$/, ''), isError };
+}
+
+/** The rich outputs among a code cell's outputs: results and displays with more than plain text. */
+export function outputsToRich(outputs: IpynbOutput[]): NerdCellOutput[] {
+    return outputs
+        .map(output => output.output_type === 'execute_result' || output.output_type === 'display_data'
+            ? outputFromMimeBundle(output.data || {})
+            : null)
+        .filter((output): output is NerdCellOutput => output !== null);
+}
+
+/**
+ * Nerdbook notebook from the text of an .ipynb file. Throws if the file
+ * isn't an nbformat 4 notebook.
+ */
+export function ipynbToNotebook(raw: string, fallbackTitle: string): NerdNotebook {
+    let ipynb: IpynbNotebook;
+    try {
+        ipynb = JSON.parse(raw);
+    } catch {
+        throw new Error('The file is not a valid Jupyter notebook.');
+    }
+    if (!ipynb || !Array.isArray(ipynb.cells)) {
+        throw new Error(ipynb?.nbformat && ipynb.nbformat < 4
+            ? `Notebook format ${ipynb.nbformat} is not supported. Save it as format 4 in Jupyter first.`
+            : 'The file is not a valid Jupyter notebook.');
+    }
+
+    const metadata = ipynb.metadata || {};
+    const language = normalizeLanguage(metadata.language_info?.name || metadata.kernelspec?.language || 'python');
+    const now = new Date().toISOString();
+
+    const cells = ipynb.cells.map((cell): NerdCell => {
+        const content = joinSource(cell.source);
+        if (cell.cell_type === 'code') {
+            const { text, isError } = outputsToText(cell.outputs || []);
+            const rich = outputsToRich(cell.outputs || []);
+            const cellLanguage = cell.metadata?.vscode?.languageId;
+            return {
+                id: crypto.randomUUID(),
+                type: 'code',
+                content,
+                language: cellLanguage ? normalizeLanguage(cellLanguage) : language,
+                ...(text && { output: text }),
+                ...(rich.length > 0 && { outputs: rich }),
+                ...(isError && { executionError: true }),
+                ...(typeof cell.execution_count === 'number' && { executionCount: cell.execution_count }),
+                createdAt: now,
+            };
+        }
+        return {
+            id: crypto.randomUUID(),
+            type: cell.cell_type === 'raw' ? 'text' : 'markdown',
+            content,
+            createdAt: now,
+        };
+    });
+
+    return {
+        id: crypto.randomUUID(),
+        title: typeof metadata.title === 'string' && metadata.title.trim() ? metadata.title : fallbackTitle,
+        cells,
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+// The notebook's kernel language: the one most of its code cells use
+function getNotebookLanguage(notebook: NerdNotebook): string {
+    const counts = new Map<string, number>();
+    for (const cell of notebook.cells) {
+        if (cell.type !== 'code' || !cell.language) continue;
+        const language = normalizeLanguage(cell.language);
+        counts.set(language, (counts.get(language) || 0) + 1);
+    }
+    let best = 'python';
+    let bestCount = 0;
+    counts.forEach((count, language) => {
+        if (count > bestCount) {
+            best = language;
+            bestCount = count;
+        }
+    });
+    return best;
+}
+
+function outputToIpynb(cell: NerdCell): IpynbOutput[] {
+    const displays: IpynbOutput[] = (cell.outputs || []).map(output => ({
+        output_type: 'display_data',
+        data: Object.fromEntries(Object.entries(outputToMimeBundle(output)).map(([mime, value]) =>
+            [mime, typeof value === 'string' && mime !== 'image/png' ? splitSource(value) : value])),
+        metadata: {},
+    }));
+    if (!cell.output) return displays;
+    if (!cell.executionError) {
+        return [{ output_type: 'stream', name: 'stdout', text: splitSource(cell.output) }, ...displays];
+    }
+    // Python-style "NameError: name 'x' is not defined" on the last line
+    const lines = cell.output.split('\n');
+    const match = lines[lines.length - 1].match(/^(\w+(?:Error|Exception)):\s*(.*)$/);
+    return [...displays, {
+        output_type: 'error',
+        ename: match ? match[1] : 'Error',
+        evalue: match ? match[2] : cell.output,
+        traceback: lines,
+    }];
+}
+
+/** nbformat 4 notebook for a Nerdbook, with its outputs. */
+export function notebookToIpynb(notebook: NerdNotebook): IpynbNotebook {
+    const language = getNotebookLanguage(notebook);
+    const kernel = KERNELS[language] || { name: language, display_name: language.charAt(0).toUpperCase() + language.slice(1) };
+
+    const cells = notebook.cells.map((cell): IpynbCell => {
+        // Cell ids may only hold letters, digits, - and _
+        const id = cell.id.replace(/[^a-zA-Z0-9_-]/g, '').slice(0, 64) || crypto.randomUUID();
+        const source = splitSource(cell.content);
+        if (cell.type !== 'code') {
+            return { id, cell_type: cell.type === 'text' ? 'raw' : 'markdown', source, metadata: {} };
+        }
+        const cellLanguage = cell.language ? normalizeLanguage(cell.language) : language;
+        return {
+            id,
+            cell_type: 'code',
+            source,
+            metadata: cellLanguage !== language ? { vscode: { languageId: cellLanguage } } : {},
+            execution_count: cell.executionCount ?? null,
+            outputs: outputToIpynb(cell),
+        };
+    });
+
+    return {
+        nbformat: 4,
+        nbformat_minor: 5,
+        metadata: {
+            title: notebook.title,
+            kernelspec: { ...kernel, language },
+            language_info: { name: language },
+        },
+        cells,
+    };
+}
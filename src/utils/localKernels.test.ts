@@ -0,0 +1,67 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { buildLocalCommand, getLocalKernel, localKernelForLanguage, runLocalCell } from './localKernels';
+
+/**
+ * Local kernels
+ *
+ * Picking an interpreter for a cell, the command lines that limit it, and
+ * streaming a run's output through the IPC bridge.
+ */
+describe('localKernels', () => {
+    const originalIpc = (window as any).ipcRenderer;
+
+    afterEach(() => {
+        (window as any).ipcRenderer = originalIpc;
+    });
+
+    it('picks an interpreter by cell language, keeping Python in the browser unless asked', () => {
+        expect(localKernelForLanguage('Shell')?.id).toBe('bash');
+        expect(localKernelForLanguage('node')?.id).toBe('node');
+        expect(localKernelForLanguage('r')?.id).toBe('r');
+        expect(localKernelForLanguage('python')).toBeNull();
+        expect(localKernelForLanguage('python', true)?.id).toBe('python');
+        expect(localKernelForLanguage('javascript')).toBeNull();
+        expect(localKernelForLanguage('sql')).toBeNull();
+    });
+
+    it('limits memory with ulimit, or the heap size for Node, and not at all on Windows', () => {
+        expect(buildLocalCommand(getLocalKernel('python')!, '/usr/bin/python3', '/tmp/cell.py', 512, 'linux')).toEqual({
+            command: '/bin/sh',
+            args: ['-c', 'ulimit -v "$1" 2>/dev/null; shift; exec "$@"', 'sh', '524288', '/usr/bin/python3', '-u', '/tmp/cell.py'],
+        });
+        expect(buildLocalCommand(getLocalKernel('node')!, '/usr/bin/node', '/tmp/cell.js', 512, 'darwin')).toEqual({
+            command: '/usr/bin/node',
+            args: ['--max-old-space-size=512', '/tmp/cell.js'],
+        });
+        expect(buildLocalCommand(getLocalKernel('powershell')!, 'C:\\pwsh.exe', 'C:\\cell.ps1', 512, 'win32')).toEqual({
+            command: 'C:\\pwsh.exe',
+            args: ['-NoProfile', '-NonInteractive', '-ExecutionPolicy', 'Bypass', '-File', 'C:\\cell.ps1'],
+        });
+    });
+
+    it('streams printed output and ends it with why the run stopped', async () => {
+        let listener: (event: unknown, data: { runId: string; text: string }) => void = () => {};
+        (window as any).ipcRenderer = {
+            on: (_: string, handler: typeof listener) => { listener = handler; },
+            invoke: async (channel: string, request: { runId: string }) => {
+                if (channel !== 'run-local-cell') return null;
+                listener(null, { runId: request.runId, text: 'step 1\n' });
+                listener(null, { runId: 'other-run', text: 'not ours\n' });
+                listener(null, { runId: request.runId, text: 'step 2\n' });
+                return { status: 'timed-out', exitCode: null };
+            },
+        };
+        const seen: string[] = [];
+        const result = await runLocalCell('run-1', {
+            filePath: '/notes/demo.exec', kernelId: 'bash', code: 'echo', timeoutSeconds: 5, memoryMb: 256,
+            onOutput: output => seen.push(output),
+        });
+
+        expect(seen).toEqual(['step 1\n', 'step 1\nstep 2\n']);
+        expect(result).toEqual({
+            status: 'timed-out',
+            output: 'step 1\nstep 2\n\n[ERROR] Stopped after 5s without finishing.',
+            error: true,
+        });
+    });
+});
@@ -0,0 +1,195 @@
+/**
+ * Local Kernels
+ * Runs Nerdbook cells in languages the browser can't, with interpreters
+ * installed on the computer: bash, Node, the system's Python and others found
+ * on PATH. The main process writes each cell to a temporary script, runs it in
+ * the notebook's folder with a time and memory limit, and streams its output
+ * back as it's printed. Each cell is a fresh process, so variables don't carry
+ * over between cells the way they do in the browser kernels; files do.
+ *
+ * Nothing runs until the user has trusted the notebook: the main process asks
+ * the first time one of its cells needs a local interpreter and remembers the
+ * answer for that file on this device.
+ */
+
+export interface LocalKernelSpec {
+    id: string;
+    name: string;
+    commands: string[];     // Executables looked for on PATH, first found wins
+    args?: string[];        // Arguments before the script path
+    extension: string;      // Of the temporary script the cell is written to
+    languages: string[];    // Cell languages it runs
+}
+
+/** An interpreter and where it was found on this computer, or null if it wasn't. */
+export interface LocalKernelInfo {
+    id: string;
+    name: string;
+    path: string | null;
+}
+
+export type LocalRunStatus = 'completed' | 'failed' | 'timed-out' | 'stopped' | 'too-much-output' | 'untrusted' | 'unavailable';
+
+// What the main process reports when a run ends; its output was streamed before
+export interface LocalRunEnd {
+    status: LocalRunStatus;
+    exitCode: number | null;
+    error?: string;
+}
+
+export interface LocalRunOptions {
+    filePath: string;           // The notebook, so cells run in its folder and trust is asked for it
+    kernelId: string;
+    code: string;
+    timeoutSeconds: number;
+    memoryMb: number;
+    onOutput?: (output: string) => void;    // Output so far, each time the process prints
+}
+
+export interface LocalRunResult {
+    status: LocalRunStatus;
+    output: string;
+    error: boolean;
+}
+
+export const DEFAULT_LOCAL_TIMEOUT_SECONDS = 60;
+export const DEFAULT_LOCAL_MEMORY_MB = 2048;
+
+// A process printing more than this is stopped, so a runaway loop can't fill the notebook
+export const MAX_LOCAL_OUTPUT_CHARS = 1_000_000;
+
+export const LOCAL_KERNELS: LocalKernelSpec[] = [
+    { id: 'bash', name: 'Bash', commands: ['bash'], extension: '.sh', languages: ['bash', 'sh', 'shell'] },
+    { id: 'node', name: 'Node.js', commands: ['node'], extension: '.js', languages: ['node', 'nodejs'] },
+    // Unbuffered, so prints stream as they happen
+    { id: 'python', name: 'Python', commands: ['python3', 'python'], args: ['-u'], extension: '.py', languages: ['python', 'py'] },
+    { id: 'powershell', name: 'PowerShell', commands: ['pwsh', 'powershell'], args: ['-NoProfile', '-NonInteractive', '-ExecutionPolicy', 'Bypass', '-File'], extension: '.ps1', languages: ['powershell', 'pwsh', 'ps1'] },
+    { id: 'ruby', name: 'Ruby', commands: ['ruby'], extension: '.rb', languages: ['ruby', 'rb'] },
+    { id: 'perl', name: 'Perl', commands: ['perl'], extension: '.pl', languages: ['perl', 'pl'] },
+    { id: 'r', name: 'R', commands: ['Rscript'], extension: '.R', languages: ['r'] },
+    { id: 'lua', name: 'Lua', commands: ['lua'], extension: '.lua', languages: ['lua'] },
+    { id: 'php', name: 'PHP', commands: ['php'], extension: '.php', languages: ['php'] },
+];
+
+/**
+ * The local kernel for a cell language, or null if none runs it. Python runs
+ * in the browser unless the notebook is set to use the system's.
+ */
+export function localKernelForLanguage(language: string, useSystemPython = false): LocalKernelSpec | null {
+    const lower = language.trim().toLowerCase();
+    const spec = LOCAL_KERNELS.find(kernel => kernel.languages.includes(lower));
+    if (!spec || (spec.id === 'python' && !useSystemPython)) return null;
+    return spec;
+}
+
+export const getLocalKernel = (id: string): LocalKernelSpec | undefined => LOCAL_KERNELS.find(kernel => kernel.id === id);
+
+// ============================================================================
+// PROCESSES (main process)
+// ============================================================================
+
+/**
+ * Command line running a cell's script. Memory is capped with the heap size
+ * flag for Node and with `ulimit -v` elsewhere off Windows (Node reserves far
+ * more address space than it uses, so ulimit would stop it from starting);
+ * Windows has no per-process limit to set here, so only the timeout applies.
+ */
+export function buildLocalCommand(
+    spec: LocalKernelSpec,
+    executable: string,
+    scriptPath: string,
+    memoryMb: number,
+    platform: string,
+): { command: string; args: string[] } {
+    if (spec.id === 'node') {
+        return { command: executable, args: [`--max-old-space-size=${memoryMb}`, scriptPath] };
+    }
+    const args = [...(spec.args || []), scriptPath];
+    if (platform === 'win32') return { command: executable, args };
+    // Where ulimit -v isn't supported (macOS) the cell still runs, with only the timeout
+    return {
+        command: '/bin/sh',
+        args: ['-c', 'ulimit -v "$1" 2>/dev/null; shift; exec "$@"', 'sh', String(memoryMb * 1024), executable, ...args],
+    };
+}
+
+/** The line a cell's output ends with when its run didn't simply finish, like browser cells show errors. */
+export function describeLocalRunEnd(end: LocalRunEnd, spec: { name: string } | undefined, timeoutSeconds: number): string | null {
+    const name = spec?.name || 'The interpreter';
+    switch (end.status) {
+        case 'completed':
+            return null;
+        case 'failed':
+            return end.error ? `[ERROR] ${end.error}` : `[ERROR] Exited with code ${end.exitCode ?? 'unknown'}`;
+        case 'timed-out':
+            return `[ERROR] Stopped after ${timeoutSeconds}s without finishing.`;
+        case 'stopped':
+            return '[STOPPED] Execution stopped.';
+        case 'too-much-output':
+            return `[ERROR] Stopped after printing more than ${MAX_LOCAL_OUTPUT_CHARS.toLocaleString('en-US')} characters.`;
+        case 'untrusted':
+            return `[NOT RUN] This notebook isn't trusted to run local programs. Run the cell again to be asked.`;
+        case 'unavailable':
+            return `[ERROR] ${name} wasn't found on this computer. Install it or add it to PATH, then restart the app.`;
+    }
+}
+
+/** A cell's output: what the process printed, then why it ended if it didn't finish normally. */
+export function joinLocalOutput(printed: string, ending: string | null): string {
+    const text = printed.replace(/\n$/, '');
+    if (!ending) return text || '(No output)';
+    return text ? `${text}\n\n${ending}` : ending;
+}
+
+// ============================================================================
+// RUNS (renderer)
+// ============================================================================
+
+// One listener for every run's streamed output, so runs don't each add one to the IPC bridge
+const outputListeners = new Map<string, (text: string) => void>();
+let listening = false;
+
+function listenForOutput() {
+    if (listening) return;
+    listening = true;
+    // @ts-ignore
+    window.ipcRenderer?.on('local-kernel-output', (_: unknown, data: { runId: string; text: string }) => {
+        outputListeners.get(data?.runId)?.(data.text);
+    });
+}
+
+/** Interpreters the main process found on PATH. */
+export async function listLocalKernels(): Promise<LocalKernelInfo[]> {
+    // @ts-ignore
+    return await window.ipcRenderer?.invoke('list-local-kernels') || [];
+}
+
+/** Run a cell with a local interpreter. Resolves once the process has ended, or the user declined to trust the notebook. */
+export async function runLocalCell(runId: string, { filePath, kernelId, code, timeoutSeconds, memoryMb, onOutput }: LocalRunOptions): Promise<LocalRunResult> {
+    listenForOutput();
+    let printed = '';
+    outputListeners.set(runId, text => {
+        printed += text;
+        onOutput?.(printed);
+    });
+    let end: LocalRunEnd;
+    try {
+        // @ts-ignore
+        end = await window.ipcRenderer?.invoke('run-local-cell', { runId, filePath, kernelId, code, timeoutSeconds, memoryMb })
+            ?? { status: 'failed', exitCode: null, error: 'Local kernels are only available in the desktop app.' };
+    } catch (error: any) {
+        end = { status: 'failed', exitCode: null, error: error?.message || String(error) };
+    } finally {
+        outputListeners.delete(runId);
+    }
+    return {
+        status: end.status,
+        output: joinLocalOutput(printed, describeLocalRunEnd(end, getLocalKernel(kernelId), timeoutSeconds)),
+        error: end.status !== 'completed' && end.status !== 'untrusted',
+    };
+}
+
+export function stopLocalCell(runId: string): void {
+    // @ts-ignore
+    window.ipcRenderer?.invoke('stop-local-cell', runId);
+}
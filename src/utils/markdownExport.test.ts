@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import type { WorkspaceFile, WorkspaceFolder } from '../types/workspace';
+import { deckToMarkdown, mentionsToLinks, nodeMapToMarkdown, notebookToMarkdown, planMarkdownExport, workspaceFileToMarkdown } from './markdownExport';
+
+const stamp = '2024-01-01T00:00:00.000Z';
+const folder = (id: string, name: string, parentId: string | null = null): WorkspaceFolder =>
+    ({ id, name, parentId, createdAt: stamp, updatedAt: stamp });
+const file = (id: string, name: string, type: WorkspaceFile['type'], filePath: string | undefined, parentId: string | null = null): WorkspaceFile =>
+    ({ id, name, type, parentId, createdAt: stamp, updatedAt: stamp, contentId: id, filePath });
+
+/**
+ * Markdown export
+ *
+ * Planning export paths and converting workspace formats to markdown.
+ */
+describe('markdownExport', () => {
+    it('mirrors the folder tree with unique names', () => {
+        const entries = planMarkdownExport([
+            file('a', 'Plan', 'note', '/ws/files/Plan.nt', 'f2'),
+            file('b', 'plan', 'exec', '/ws/files/plan.exec', 'f2'),
+            file('c', 'Sketch', 'board', '/ws/files/Sketch.brd'),
+            file('d', 'Paper', 'pdf', '/docs/Paper.pdf'),
+            file('e', 'Legacy', 'note', undefined),
+        ], [folder('f1', 'Projects'), folder('f2', 'Alpha: 2', 'f1')]);
+
+        expect(entries.map(entry => entry.exportPath)).toEqual([
+            'Projects/Alpha_ 2/Plan.md',
+            'Projects/Alpha_ 2/plan (1).md',
+            'Sketch.md',
+            'Paper.pdf',
+        ]);
+        expect(entries[2].snapshotPath).toBe('Sketch.png');
+        expect(entries[3].convert).toBe(false);
+    });
+
+    it('turns mentions into relative links, leaving code alone', () => {
+        const context = {
+            exportPath: 'Projects/Plan.md',
+            linkTargets: new Map([['roadmap', 'Roadmap.md'], ['my notes', 'Projects/Notes/My notes.md']]),
+        };
+        expect(mentionsToLinks('See @"Roadmap#Next steps" and !@"My notes", not `@Roadmap` or @Ghost.', context))
+            .toBe('See [Roadmap › Next steps](../Roadmap.md#next-steps) and [My notes](Notes/My%20notes.md), not `@Roadmap` or @Ghost.');
+    });
+
+    it('points embedded workspace images at their exported copies and unwraps JSON notes', () => {
+        const context = {
+            exportPath: 'Projects/Plan.md',
+            linkTargets: new Map([['roadmap', 'Roadmap.md']]),
+            resolveImage: (src: string) => src === 'file:///ws/assets/chart.png' ? 'assets/chart.png' : null,
+        };
+        expect(mentionsToLinks('![Chart](file:///ws/assets/chart.png =300x) ![Web](https://example.com/a.png)', context))
+            .toBe('![Chart](../assets/chart.png =300x) ![Web](https://example.com/a.png)');
+        expect(workspaceFileToMarkdown('.nt', JSON.stringify({ content: 'See @Roadmap', connections: [] }), 'Plan', context))
+            .toBe('See [Roadmap](../Roadmap.md)');
+        expect(workspaceFileToMarkdown('.nt', 'Plain @Roadmap', 'Plan', context)).toBe('Plain [Roadmap](../Roadmap.md)');
+    });
+
+    it('converts notebooks, node maps and decks', () => {
+        const context = { exportPath: 'Book.md', linkTargets: new Map<string, string>() };
+        expect(notebookToMarkdown({
+            title: 'Book',
+            cells: [
+                { type: 'markdown', content: 'Intro' },
+                { type: 'code', language: 'python', content: 'print("```")', output: '```' },
+                { type: 'code', content: '  ' },
+            ],
+        }, context)).toBe('# Book\n\nIntro\n\n````python\nprint("```")\n````\n\n````output\n```\n````\n');
+
+        expect(nodeMapToMarkdown({
+            nodes: [{ id: 'x', label: 'Say "hi"', description: 'Start' }, { id: 'y', label: 'End' }],
+            edges: [{ source: 'x', target: 'y' }, { source: 'x', target: 'gone' }],
+        }, 'Flow')).toBe('# Flow\n\n```mermaid\nflowchart LR\n    n0["Say #quot;hi#quot;"]\n    n1["End"]\n    n0 --> n1\n```\n\n- **Say "hi"**: Start\n');
+
+        expect(deckToMarkdown({ name: 'Words', cards: [{ front: 'Hola', back: 'Hello', hint: 'Greeting' }, { front: 'Adiós', back: 'Bye' }] }))
+            .toBe('# Words\n\n**Q:** Hola\n\n**A:** Hello\n\n> Hint: Greeting\n\n---\n\n**Q:** Adiós\n\n**A:** Bye\n');
+    });
+});
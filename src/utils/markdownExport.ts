@@ -0,0 +1,279 @@
+/**
+ * Markdown Export
+ * Turns the workspace into plain markdown files other people and tools can
+ * read, in folders mirroring the workspace tree. Nerdbooks become markdown
+ * with fenced code and output blocks (rich outputs as images, tables and
+ * fenced HTML or JSON), boards a list of their sticky notes
+ * (next to a PNG snapshot rendered by the renderer), node maps Mermaid
+ * flowcharts and flashcard decks Q/A pairs. @mentions become relative links
+ * between the exported files, and images embedded from the workspace's assets
+ * folder are copied along and linked relatively. Documents and images in the
+ * tree are copied as they are.
+ * The main process reads and writes the files; this module plans paths and
+ * converts text.
+ */
+
+import type { WorkspaceFile, WorkspaceFolder } from '../types/workspace';
+import type { NerdCellOutput } from '../types';
+import { outputToMarkdown } from './cellOutputs';
+import { MENTION_REGEX, splitMentionTarget } from './noteLinking';
+import { slugifyHeading } from './blockRefs';
+
+// Stored formats converted to markdown; everything else is copied
+export const MARKDOWN_EXPORT_EXTENSIONS = ['.exec', '.brd', '.nbm', '.deck', '.nt'];
+
+// Local files an exported note may embed as an image and have copied along
+export const EXPORT_IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.webp', '.svg'];
+
+export interface MarkdownExportEntry {
+    fileId: string;
+    sourcePath: string;
+    exportPath: string;         // Relative to the export folder, with / separators
+    snapshotPath?: string;      // Boards: where their PNG snapshot goes
+    convert: boolean;           // Converted to markdown, or copied as is
+}
+
+export interface MarkdownExportContext {
+    exportPath: string;                     // Path of the file being written
+    linkTargets: Map<string, string>;       // Lower-case file name → export path
+    snapshotPath?: string;                  // Boards: path of their snapshot
+    linked?: Set<string>;                   // Filled with the export paths mentions link to
+    resolveImage?: (src: string) => string | null;  // Export path of a local image's copy, or null to keep the URL
+}
+
+const CODE_REGEX = /```[\s\S]*?(```|$)|`[^`\n]*`/g;
+const EMBEDDABLE_MENTION_REGEX = new RegExp(`!?${MENTION_REGEX.source}`, 'g');
+// ![alt](src), optionally sized (=300x200) and cropped like the editor writes them
+const IMAGE_REGEX = /!\[([^\]]*)\]\(([^)]+?)((?:\s+=\d*x?\d*)?(?:\s+crop)?)\s*\)/g;
+
+// Characters no file system takes in names
+const sanitizeName = (name: string): string => name.replace(/[<>:"/\\|?*]/g, '_').trim() || 'Untitled';
+
+const getExtension = (filePath: string): string => {
+    const name = filePath.split(/[\\/]/).pop() || '';
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? name.slice(dot).toLowerCase() : '';
+};
+
+// ============================================================================
+// PATHS
+// ============================================================================
+
+/**
+ * Export path of every workspace file that is on disk, mirroring the folder
+ * tree. Names are made unique per folder, ignoring case.
+ */
+export function planMarkdownExport(files: WorkspaceFile[], folders: WorkspaceFolder[]): MarkdownExportEntry[] {
+    const foldersById = new Map(folders.map(f => [f.id, f]));
+    const folderPath = (folderId: string | null, seen = new Set<string>()): string => {
+        const folder = folderId ? foldersById.get(folderId) : undefined;
+        if (!folder || seen.has(folder.id)) return '';
+        seen.add(folder.id);
+        const parent = folderPath(folder.parentId, seen);
+        return parent ? `${parent}/${sanitizeName(folder.name)}` : sanitizeName(folder.name);
+    };
+
+    const taken = new Set<string>();
+    const reserve = (dir: string, base: string, ext: string): string => {
+        let candidate = `${base}${ext}`;
+        for (let counter = 1; taken.has(`${dir}/${candidate}`.toLowerCase()); counter++) {
+            candidate = `${base} (${counter})${ext}`;
+        }
+        taken.add(`${dir}/${candidate}`.toLowerCase());
+        return dir ? `${dir}/${candidate}` : candidate;
+    };
+
+    const entries: MarkdownExportEntry[] = [];
+    for (const file of files) {
+        if (!file.filePath) continue;
+        const dir = folderPath(file.parentId);
+        const ext = getExtension(file.filePath);
+        const convert = MARKDOWN_EXPORT_EXTENSIONS.includes(ext);
+        const base = sanitizeName(file.name);
+        entries.push({
+            fileId: file.id,
+            sourcePath: file.filePath,
+            exportPath: reserve(dir, base, convert ? '.md' : ext),
+            ...(ext === '.brd' && { snapshotPath: reserve(dir, base, '.png') }),
+            convert,
+        });
+    }
+    return entries;
+}
+
+/** Relative link from the file at `fromPath` to `toPath`, URL-encoded for markdown. */
+export function relativeExportLink(fromPath: string, toPath: string): string {
+    const from = fromPath.split('/').slice(0, -1);
+    const to = toPath.split('/');
+    let common = 0;
+    while (common < from.length && common < to.length - 1 && from[common] === to[common]) common++;
+    const parts = [...from.slice(common).map(() => '..'), ...to.slice(common)];
+    return parts.map(part => encodeURIComponent(part)).join('/');
+}
+
+// ============================================================================
+// TEXT
+// ============================================================================
+
+// Relative link to the exported copy of a local image, or the URL as it was
+function exportImageUrl(src: string, context: MarkdownExportContext): string {
+    const target = context.resolveImage?.(src.trim());
+    return target ? relativeExportLink(context.exportPath, target) : src;
+}
+
+/**
+ * Replace @mentions of exported files with relative markdown links (headings
+ * become #anchors) and point local images at their exported copies, leaving
+ * code and unknown mentions alone.
+ */
+export function mentionsToLinks(text: string, context: MarkdownExportContext): string {
+    const isKnown = (name: string) => context.linkTargets.has(name.toLowerCase());
+
+    const linkImages = (prose: string) =>
+        prose.replace(IMAGE_REGEX, (_, alt, src, size) => `![${alt}](${exportImageUrl(src, context)}${size})`);
+
+    // An embed (!@note) can't be embedded in plain markdown, so it becomes a link too
+    const rewrite = (prose: string) => linkImages(prose).replace(EMBEDDABLE_MENTION_REGEX, (match, doubleQuoted, singleQuoted, bare) => {
+        const { fileName, anchor } = splitMentionTarget(doubleQuoted || singleQuoted || bare, isKnown);
+        const target = context.linkTargets.get(fileName.toLowerCase());
+        if (!target) return match;
+        context.linked?.add(target);
+        const hash = anchor?.kind === 'heading' ? `#${slugifyHeading(anchor.target)}` : '';
+        const label = anchor ? `${fileName} › ${anchor.target}` : fileName;
+        return `[${label}](${relativeExportLink(context.exportPath, target)}${hash})`;
+    });
+
+    let result = '';
+    let last = 0;
+    CODE_REGEX.lastIndex = 0;
+    let match;
+    while ((match = CODE_REGEX.exec(text)) !== null) {
+        result += rewrite(text.slice(last, match.index)) + match[0];
+        last = match.index + match[0].length;
+    }
+    return result + rewrite(text.slice(last));
+}
+
+// A code fence longer than any backtick run inside the content
+function fence(content: string, info: string = ''): string {
+    const longest = Math.max(2, ...(content.match(/`+/g) || []).map(run => run.length));
+    const ticks = '`'.repeat(longest + 1);
+    return `${ticks}${info}\n${content.replace(/\n$/, '')}\n${ticks}`;
+}
+
+const joinBlocks = (blocks: (string | undefined | false)[]): string =>
+    blocks.filter((block): block is string => !!block && !!block.trim()).join('\n\n') + '\n';
+
+/** A Nerdbook as markdown: markdown cells as they are, code cells fenced with their output below. */
+export function notebookToMarkdown(notebook: any, context: MarkdownExportContext): string {
+    const cells: any[] = Array.isArray(notebook?.cells) ? notebook.cells : [];
+    return joinBlocks([
+        notebook?.title && `# ${notebook.title}`,
+        ...cells.map(cell => {
+            const content = String(cell?.content ?? '');
+            if (cell?.type !== 'code') return mentionsToLinks(content, context);
+            const outputs: NerdCellOutput[] = Array.isArray(cell.outputs) ? cell.outputs : [];
+            if (!content.trim() && !cell.output && outputs.length === 0) return undefined;
+            return joinBlocks([
+                fence(content, cell.language || ''),
+                cell.output && fence(String(cell.output), 'output'),
+                ...outputs.map(output => outputToMarkdown(output, fence)),
+            ]).trimEnd();
+        }),
+    ]);
+}
+
+/** A board as a list of its sticky notes, top to bottom, after its snapshot. */
+export function boardToMarkdown(board: any, context: MarkdownExportContext): string {
+    const notes: any[] = Array.isArray(board?.notes) ? [...board.notes] : [];
+    notes.sort((a, b) => (a.y ?? 0) - (b.y ?? 0) || (a.x ?? 0) - (b.x ?? 0));
+
+    const indent = (text: string) => text.replace(/\n/g, '\n  ');
+    const items = notes.map(note => {
+        const content = mentionsToLinks(String(note?.content ?? '').trim(), context);
+        switch (note?.type) {
+            case 'list':
+                return [
+                    `- ${indent(content) || 'List'}`,
+                    ...(note.listItems || []).map((item: any) => `  - [${item.checked ? 'x' : ' '}] ${item.text}`),
+                ].join('\n');
+            case 'image':
+                // Pasted images are stored inline as data URLs, which are too big for a text file
+                return note.imageUrl && !note.imageUrl.startsWith('data:')
+                    ? `- ![${content || 'Image'}](${exportImageUrl(note.imageUrl, context)})`
+                    : `- ${content || 'Image'} (see snapshot)`;
+            case 'link':
+                return `- [${content || note.linkUrl}](${note.linkUrl})`;
+            case 'audio':
+                return `- ${content || 'Audio recording'} (audio not exported)`;
+            default:
+                return content ? `- ${indent(content)}` : null;
+        }
+    }).filter((item): item is string => item !== null);
+
+    return joinBlocks([
+        board?.name && `# ${board.name}`,
+        context.snapshotPath && `![Snapshot](${relativeExportLink(context.exportPath, context.snapshotPath)})`,
+        items.join('\n'),
+    ]);
+}
+
+// Mermaid labels are quoted; quotes inside use its entity syntax
+const mermaidLabel = (text: string): string => `"${text.replace(/"/g, '#quot;').replace(/\n/g, ' ')}"`;
+
+/** A node map as a Mermaid flowchart, with node descriptions listed below. */
+export function nodeMapToMarkdown(map: any, title: string): string {
+    const nodes: any[] = Array.isArray(map?.nodes) ? map.nodes : [];
+    const edges: any[] = Array.isArray(map?.edges) ? map.edges : [];
+    const ids = new Map(nodes.map((node, index) => [node.id, `n${index}`]));
+
+    const lines = ['flowchart LR'];
+    nodes.forEach(node => lines.push(`    ${ids.get(node.id)}[${mermaidLabel(String(node.label || node.type || 'Node'))}]`));
+    edges.forEach(edge => {
+        const source = ids.get(edge.source);
+        const target = ids.get(edge.target);
+        if (source && target) lines.push(`    ${source} --> ${target}`);
+    });
+
+    const described = nodes.filter(node => node.description?.trim());
+    return joinBlocks([
+        `# ${title}`,
+        nodes.length > 0 ? fence(lines.join('\n'), 'mermaid') : '_Empty node map_',
+        described.map(node => `- **${node.label || 'Node'}**: ${node.description.trim().replace(/\n/g, ' ')}`).join('\n'),
+    ]);
+}
+
+/** A flashcard deck as question and answer pairs. */
+export function deckToMarkdown(deck: any): string {
+    const cards: any[] = Array.isArray(deck?.cards) ? deck.cards : [];
+    return joinBlocks([
+        deck?.name && `# ${deck.name}`,
+        deck?.description,
+        cards.map(card => joinBlocks([
+            `**Q:** ${card.front}`,
+            `**A:** ${card.back}`,
+            card.hint && `> Hint: ${card.hint}`,
+        ]).trimEnd()).join('\n\n---\n\n'),
+    ]);
+}
+
+/** Markdown for a stored workspace file, or null if its format isn't converted. */
+export function workspaceFileToMarkdown(ext: string, raw: string, title: string, context: MarkdownExportContext): string | null {
+    if (!MARKDOWN_EXPORT_EXTENSIONS.includes(ext)) return null;
+
+    let data: any = null;
+    try {
+        data = JSON.parse(raw);
+    } catch {
+        // Notes are plain text unless a connection wrapped them as { content }
+        return ext === '.nt' ? mentionsToLinks(raw, context) : null;
+    }
+    switch (ext) {
+        case '.nt': return mentionsToLinks(typeof data?.content === 'string' ? data.content : raw, context);
+        case '.exec': return notebookToMarkdown(data, context);
+        case '.brd': return boardToMarkdown(data, context);
+        case '.nbm': return nodeMapToMarkdown(data, title);
+        case '.deck': return deckToMarkdown(data);
+        default: return null;
+    }
+}
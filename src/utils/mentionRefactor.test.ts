@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+    findBrokenMentions,
+    findUnlinkedMentions,
+    formatMention,
+    getMentionExcerpt,
+    linkUnlinkedMentionsInFile,
+    renameMentionsInFile,
+    renameMentionsInText,
+    suggestMentionTargets,
+} from './mentionRefactor';
+
+/**
+ * Mention refactoring
+ *
+ * Rewriting @mentions when a file is renamed, across the stored workspace
+ * formats, and reporting mentions that no longer resolve.
+ */
+describe('mentionRefactor', () => {
+    it('rewrites matching mentions and keeps quote style', () => {
+        const { text, occurrences } = renameMentionsInText(
+            'See @Lab-Notes and @"lab-notes", not @lab-notes-old.\n@\'Lab-Notes\' again',
+            'lab-notes',
+            'Memory forensics'
+        );
+        expect(text).toBe('See @"Memory forensics" and @"Memory forensics", not @lab-notes-old.\n@\'Memory forensics\' again');
+        expect(occurrences).toHaveLength(3);
+        expect(occurrences[0]).toEqual({
+            mention: '@Lab-Notes',
+            replacement: '@"Memory forensics"',
+            context: 'See @Lab-Notes and @"lab-notes", not @lab-notes-old.',
+        });
+
+        expect(renameMentionsInText('Jump to @plan#Goals or !@plan^c1', 'plan', 'road map').text)
+            .toBe('Jump to @"road map#Goals" or !@"road map^c1"');
+
+        expect(formatMention('kernel')).toBe('@kernel');
+        expect(formatMention('say "hi"')).toBe('@\'say "hi"\'');
+    });
+
+    it('renames mentions inside each stored format', () => {
+        const exec = JSON.stringify({ cells: [{ id: 'c1', type: 'markdown', content: 'Uses @plan' }, { id: 'c2', type: 'code', content: '@plan\ndef run(): pass' }] });
+        const renamedExec = renameMentionsInFile('.exec', exec, 'plan', 'roadmap')!;
+        expect(JSON.parse(renamedExec.content).cells.map((c: any) => c.content)).toEqual(['Uses @roadmap', '@plan\ndef run(): pass']);
+        expect(renamedExec.occurrences).toHaveLength(1);
+
+        const board = JSON.stringify({ notes: [
+            { id: 'n1', type: 'text', text: '📌 Connections:\n@plan' },
+            { id: 'n2', type: 'list', content: '', listItems: [{ id: 'i1', text: 'Read @plan', checked: false }] },
+        ] });
+        const renamedBoard = JSON.parse(renameMentionsInFile('.brd', board, 'plan', 'roadmap')!.content);
+        expect(renamedBoard.notes[0].text).toBe('📌 Connections:\n@roadmap');
+        expect(renamedBoard.notes[1].listItems[0].text).toBe('Read @roadmap');
+
+        const nodeMap = JSON.stringify({ nodes: [{ id: 'a', label: 'Start', description: 'see @plan' }], connections: ['@plan'] });
+        expect(JSON.parse(renameMentionsInFile('.nbm', nodeMap, 'plan', 'road map')!.content)).toMatchObject({
+            nodes: [{ description: 'see @"road map"' }],
+            connections: ['@"road map"'],
+        });
+
+        expect(renameMentionsInFile('.nt', 'Plain @plan text', 'plan', 'roadmap')!.content).toBe('Plain @roadmap text');
+        expect(JSON.parse(renameMentionsInFile('.nt', JSON.stringify({ content: '@plan' }), 'plan', 'roadmap')!.content))
+            .toEqual({ content: '@roadmap' });
+        expect(renameMentionsInFile('.nt', 'Nothing here', 'plan', 'roadmap')).toBeNull();
+        expect(renameMentionsInFile('.exec', 'not json', 'plan', 'roadmap')).toBeNull();
+    });
+
+    it('reports unresolved mentions with suggestions, skipping code and e-mail addresses', () => {
+        const exec = JSON.stringify({ cells: [
+            { id: 'c1', type: 'markdown', content: 'Links: @plan and @roadmpa or mail me@example.com' },
+            { id: 'c2', type: 'code', content: '@property\ndef x(self): pass' },
+        ] });
+        const broken = findBrokenMentions('/ws/a.exec', '.exec', exec, ['Plan', 'Roadmap', 'Budget']);
+
+        expect(broken.map(b => b.noteName)).toEqual(['roadmpa']);
+        expect(broken[0]).toMatchObject({ filePath: '/ws/a.exec', mention: '@roadmpa', suggestions: ['Roadmap'] });
+        expect(suggestMentionTargets('budg', ['Budget', 'Plan'])).toEqual(['Budget']);
+    });
+
+    it('finds plain-text mentions of a name and links them', () => {
+        const text = 'Read the Lab notes first. Then @"Lab notes" again, not lab notesy or `Lab notes`.';
+        const found = findUnlinkedMentions(text, 'lab notes');
+        expect(found.map(m => m.text)).toEqual(['Lab notes']);
+        expect(found[0].excerpt).toBe('Read the Lab notes first.');
+
+        const exec = JSON.stringify({ cells: [
+            { id: 'c1', type: 'markdown', content: 'See Budget and budget.' },
+            { id: 'c2', type: 'code', content: 'budget = 3' },
+        ] });
+        const linked = linkUnlinkedMentionsInFile('.exec', exec, 'Budget')!;
+        expect(linked.linked).toBe(2);
+        expect(JSON.parse(linked.content).cells.map((c: any) => c.content)).toEqual(['See @Budget and @Budget.', 'budget = 3']);
+        expect(linkUnlinkedMentionsInFile('.nt', 'Nothing here', 'Budget')).toBeNull();
+    });
+
+    it('excerpts the sentence around a mention', () => {
+        const text = '# Title\nFirst one. The @plan is here! Last.';
+        const start = text.indexOf('@plan');
+        expect(getMentionExcerpt(text, start, start + 5)).toBe('The @plan is here!');
+        expect(getMentionExcerpt(text, start, start + 5, 10)).toBe('…e @plan is…');
+    });
+});
@@ -0,0 +1,362 @@
+/**
+ * Mention Refactoring
+ * Finds and rewrites @mentions inside the stored workspace formats (.exec,
+ * .brd, .nbm and .nt) so renaming a file can update every link to it, and
+ * reports mentions that no longer resolve to any file. Also finds unlinked
+ * mentions (a file's name written as plain text) and turns them into links.
+ * Runs in the main process against files on disk; the renderer shows
+ * previews and reports.
+ */
+
+import { MENTION_REGEX, formatAnchor, scoreNameMatch, splitMentionTarget } from './noteLinking';
+
+// Formats whose text can contain @mentions
+export const MENTION_FILE_EXTENSIONS = ['.exec', '.brd', '.nbm', '.nt'];
+
+const CONTEXT_CHARS = 40;
+const EXCERPT_CHARS = 160;
+
+export interface MentionOccurrence {
+    mention: string;        // The mention as written, e.g. @"old name"
+    replacement: string;    // What it becomes, e.g. @"new name"
+    context: string;        // Surrounding text on the same line
+}
+
+export interface MentionRenameFile {
+    filePath: string;
+    occurrences: MentionOccurrence[];
+}
+
+export interface BrokenMention {
+    filePath: string;
+    noteName: string;
+    mention: string;
+    context: string;
+    suggestions: string[];  // Existing file names the mention probably meant
+}
+
+// ============================================================================
+// TEXT
+// ============================================================================
+
+/** Format a file name as a mention, quoting names that can't be written bare. */
+export function formatMention(name: string, preferredQuote: '"' | "'" = '"'): string {
+    if (/^[^\s@\[\]<>"']+$/.test(name)) return `@${name}`;
+    const quote = name.includes(preferredQuote) ? (preferredQuote === '"' ? "'" : '"') : preferredQuote;
+    return `@${quote}${name}${quote}`;
+}
+
+function getContext(text: string, start: number, end: number): string {
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    const lineEndIndex = text.indexOf('\n', end);
+    const lineEnd = lineEndIndex === -1 ? text.length : lineEndIndex;
+    const from = Math.max(lineStart, start - CONTEXT_CHARS);
+    const to = Math.min(lineEnd, end + CONTEXT_CHARS);
+    return `${from > lineStart ? '…' : ''}${text.slice(from, to).trim()}${to < lineEnd ? '…' : ''}`;
+}
+
+/**
+ * The sentence around `start`..`end` within its line, for showing where a
+ * mention occurs. Long sentences are clipped around the mention.
+ */
+export function getMentionExcerpt(text: string, start: number, end: number, maxLength: number = EXCERPT_CHARS): string {
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    const lineEndIndex = text.indexOf('\n', end);
+    const lineEnd = lineEndIndex === -1 ? text.length : lineEndIndex;
+
+    let sentenceStart = lineStart;
+    const before = text.slice(lineStart, start);
+    const boundary = /[.!?]\s+/g;
+    let match;
+    while ((match = boundary.exec(before)) !== null) sentenceStart = lineStart + match.index + match[0].length;
+    const after = text.slice(end, lineEnd).search(/[.!?](\s|$)/);
+    const sentenceEnd = after === -1 ? lineEnd : end + after + 1;
+
+    const spare = Math.max(0, maxLength - (end - start));
+    const from = Math.max(sentenceStart, start - Math.floor(spare / 2));
+    const to = Math.min(sentenceEnd, Math.max(end, from + maxLength));
+    const excerpt = text.slice(from, to).replace(/^[\s#>*-]+/, '').trim();
+    return `${from > sentenceStart ? '…' : ''}${excerpt}${to < sentenceEnd ? '…' : ''}`;
+}
+
+interface TextMention {
+    mention: string;
+    noteName: string;
+    start: number;
+    end: number;
+    quote: '"' | "'" | null;
+}
+
+function findTextMentions(text: string): TextMention[] {
+    const mentions: TextMention[] = [];
+    const regex = new RegExp(MENTION_REGEX.source, 'g');
+    let match;
+    while ((match = regex.exec(text)) !== null) {
+        mentions.push({
+            mention: match[0],
+            noteName: match[1] || match[2] || match[3],
+            start: match.index,
+            end: match.index + match[0].length,
+            quote: match[1] ? '"' : match[2] ? "'" : null,
+        });
+    }
+    return mentions;
+}
+
+/**
+ * Rewrite mentions of `oldName` (case-insensitive, like link resolution)
+ * to `newName`, keeping the original quote style and any #heading or ^block
+ * anchor where possible.
+ */
+export function renameMentionsInText(
+    text: string,
+    oldName: string,
+    newName: string
+): { text: string; occurrences: MentionOccurrence[] } {
+    const target = oldName.toLowerCase();
+    const occurrences: MentionOccurrence[] = [];
+    let result = '';
+    let lastIndex = 0;
+
+    for (const m of findTextMentions(text)) {
+        const { fileName, anchor } = splitMentionTarget(m.noteName, name => name.toLowerCase() === target);
+        if (fileName.toLowerCase() !== target) continue;
+        const replacement = formatMention(anchor ? newName + formatAnchor(anchor) : newName, m.quote || '"');
+        occurrences.push({ mention: m.mention, replacement, context: getContext(text, m.start, m.end) });
+        result += text.slice(lastIndex, m.start) + replacement;
+        lastIndex = m.end;
+    }
+
+    return occurrences.length > 0 ? { text: result + text.slice(lastIndex), occurrences } : { text, occurrences };
+}
+
+// ============================================================================
+// FILE FORMATS
+// ============================================================================
+
+/**
+ * Apply `transform` to every text field of a stored workspace file that may
+ * hold mentions. Code cells are flagged with `isCode` so reports can ignore
+ * things like Python decorators. Returns the new raw file content, or null
+ * if the file can't be parsed.
+ */
+export function mapMentionText(
+    ext: string,
+    raw: string,
+    transform: (text: string, isCode: boolean) => string
+): string | null {
+    const mapString = (value: unknown, isCode = false) =>
+        typeof value === 'string' && value ? transform(value, isCode) : value;
+
+    if (ext === '.nt') {
+        // Plain text, unless a connection was added and wrapped it as { content }
+        try {
+            const parsed = JSON.parse(raw);
+            if (parsed && typeof parsed === 'object' && typeof parsed.content === 'string') {
+                return JSON.stringify({ ...parsed, content: transform(parsed.content, false) }, null, 2);
+            }
+        } catch {
+            // Not JSON
+        }
+        return transform(raw, false);
+    }
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        return null;
+    }
+    if (!parsed || typeof parsed !== 'object') return null;
+
+    switch (ext) {
+        case '.exec':
+            if (Array.isArray(parsed.cells)) {
+                parsed.cells = parsed.cells.map((cell: any) => ({ ...cell, content: mapString(cell.content, cell.type === 'code') }));
+            }
+            break;
+        case '.brd':
+            if (Array.isArray(parsed.notes)) {
+                parsed.notes = parsed.notes.map((note: any) => ({
+                    ...note,
+                    content: mapString(note.content),
+                    text: mapString(note.text),
+                    ...(Array.isArray(note.listItems) && {
+                        listItems: note.listItems.map((item: any) => ({ ...item, text: mapString(item.text) })),
+                    }),
+                }));
+            }
+            break;
+        case '.nbm':
+            if (Array.isArray(parsed.connections)) {
+                parsed.connections = parsed.connections.map((c: unknown) => mapString(c));
+            }
+            if (Array.isArray(parsed.nodes)) {
+                parsed.nodes = parsed.nodes.map((node: any) => ({
+                    ...node,
+                    label: mapString(node.label),
+                    description: mapString(node.description),
+                }));
+            }
+            break;
+        default:
+            return null;
+    }
+    return JSON.stringify(parsed, null, 2);
+}
+
+/**
+ * Rename mentions in a stored file, leaving code cells alone (`@plan` there is
+ * a decorator, not a link). Returns null when nothing references `oldName`.
+ */
+export function renameMentionsInFile(
+    ext: string,
+    raw: string,
+    oldName: string,
+    newName: string
+): { content: string; occurrences: MentionOccurrence[] } | null {
+    const occurrences: MentionOccurrence[] = [];
+    const content = mapMentionText(ext, raw, (text, isCode) => {
+        if (isCode) return text;
+        const renamed = renameMentionsInText(text, oldName, newName);
+        occurrences.push(...renamed.occurrences);
+        return renamed.text;
+    });
+    return content !== null && occurrences.length > 0 ? { content, occurrences } : null;
+}
+
+// ============================================================================
+// BROKEN LINKS
+// ============================================================================
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// Typo tolerance for names that don't match by prefix, substring or in-order letters
+function scoreTypo(name: string, query: string): number {
+    const distance = editDistance(name.toLowerCase(), query);
+    const allowed = Math.max(1, Math.floor(query.length / 3));
+    return distance <= allowed ? 15 - distance : 0;
+}
+
+/** Existing names a broken mention most likely meant, best first. */
+export function suggestMentionTargets(noteName: string, knownNames: string[], maxResults: number = 3): string[] {
+    const query = noteName.toLowerCase();
+    return knownNames
+        .map(name => ({
+            name,
+            score: Math.max(scoreNameMatch(name, query), scoreNameMatch(query, name.toLowerCase()), scoreTypo(name, query)),
+        }))
+        .filter(item => item.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, maxResults)
+        .map(item => item.name);
+}
+
+/**
+ * Mentions in a stored file that don't resolve to any of `knownNames`.
+ * Code cells and mentions glued to a preceding word (e-mail addresses) are
+ * skipped, as they are rarely meant as links.
+ */
+export function findBrokenMentions(
+    filePath: string,
+    ext: string,
+    raw: string,
+    knownNames: string[]
+): BrokenMention[] {
+    const known = new Set(knownNames.map(name => name.toLowerCase()));
+    const broken: BrokenMention[] = [];
+
+    mapMentionText(ext, raw, (text, isCode) => {
+        if (isCode) return text;
+        for (const m of findTextMentions(text)) {
+            if (m.start > 0 && /\w/.test(text[m.start - 1])) continue;
+            const { fileName } = splitMentionTarget(m.noteName, name => known.has(name.toLowerCase()));
+            if (known.has(fileName.toLowerCase())) continue;
+            broken.push({
+                filePath,
+                noteName: fileName,
+                mention: m.mention,
+                context: getContext(text, m.start, m.end),
+                suggestions: suggestMentionTargets(fileName, knownNames),
+            });
+        }
+        return text;
+    });
+    return broken;
+}
+
+// ============================================================================
+// UNLINKED MENTIONS
+// ============================================================================
+
+export interface UnlinkedMention {
+    start: number;
+    end: number;
+    text: string;           // The name as written
+    excerpt: string;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Spans that never count as unlinked mentions: @mentions and markdown code
+function ignoredRanges(text: string): [number, number][] {
+    const ranges: [number, number][] = findTextMentions(text).map(m => [m.start, m.end]);
+    const code = /```[\s\S]*?(```|$)|`[^`\n]*`/g;
+    let match;
+    while ((match = code.exec(text)) !== null) ranges.push([match.index, match.index + match[0].length]);
+    return ranges;
+}
+
+/**
+ * Places where `name` appears as plain text (whole words, any case) rather
+ * than as an @mention. Text inside mentions and code is ignored.
+ */
+export function findUnlinkedMentions(text: string, name: string): UnlinkedMention[] {
+    if (name.trim().length < 2) return [];
+    const ranges = ignoredRanges(text);
+    const regex = new RegExp(`(?<![\\p{L}\\p{N}_@])${escapeRegExp(name)}(?![\\p{L}\\p{N}_])`, 'giu');
+    const found: UnlinkedMention[] = [];
+    let match;
+    while ((match = regex.exec(text)) !== null) {
+        const start = match.index;
+        const end = start + match[0].length;
+        if (ranges.some(([from, to]) => start < to && end > from)) continue;
+        found.push({ start, end, text: match[0], excerpt: getMentionExcerpt(text, start, end) });
+    }
+    return found;
+}
+
+/** Turn every unlinked mention of `name` in a text into an @mention. */
+export function linkUnlinkedMentionsInText(text: string, name: string): { text: string; linked: number } {
+    const found = findUnlinkedMentions(text, name);
+    let result = text;
+    for (const mention of [...found].reverse()) {
+        result = result.slice(0, mention.start) + formatMention(name) + result.slice(mention.end);
+    }
+    return { text: result, linked: found.length };
+}
+
+/**
+ * Link unlinked mentions of `name` in a stored file, leaving code cells
+ * alone. Returns null when there are none.
+ */
+export function linkUnlinkedMentionsInFile(ext: string, raw: string, name: string): { content: string; linked: number } | null {
+    let linked = 0;
+    const content = mapMentionText(ext, raw, (text, isCode) => {
+        if (isCode) return text;
+        const result = linkUnlinkedMentionsInText(text, name);
+        linked += result.linked;
+        return result.text;
+    });
+    return content !== null && linked > 0 ? { content, linked } : null;
+}
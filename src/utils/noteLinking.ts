@@ -8,14 +8,24 @@ import { WorkspaceFile } from '../types/workspace';
 
 // Regex to match @mentions - matches @followed by text until whitespace or end
 // Supports: @note-name, @"note with spaces", @'note with spaces'
+// A mention can point inside a file: @note#Heading, @"note#Heading with spaces"
+// or @notebook^cellId, and a leading ! (!@note#Heading) embeds the target
 export const MENTION_REGEX = /@(?:"([^"]+)"|'([^']+)'|([^\s@\[\]<>]+))/g;
 
 // Regex to detect when user is typing a mention (for autocomplete trigger)
 export const MENTION_TYPING_REGEX = /@([^\s@\[\]<>]*)$/;
 
+export interface MentionAnchor {
+    kind: 'heading' | 'block';  // #Heading or ^blockId
+    target: string;             // Heading text or block (cell / sticky note) id
+}
+
 export interface NoteMention {
     fullMatch: string;      // The full @mention text (e.g., @memory-forensics)
     noteName: string;       // The note name without @ (e.g., memory-forensics)
+    fileName: string;       // The file part of noteName, without any anchor
+    anchor?: MentionAnchor; // The heading or block inside the file, if any
+    isEmbed: boolean;       // Written as !@..., to show the target inline
     startIndex: number;     // Start position in the content
     endIndex: number;       // End position in the content
     linkedFile?: WorkspaceFile; // The linked file if found
@@ -27,6 +37,42 @@ export interface MentionSuggestion {
     matchScore: number;     // How well it matches the query (higher = better)
 }
 
+/**
+ * Split a mention name into the file name and an optional #heading or
+ * ^block anchor. A name that is itself a known file name is never split, so
+ * files with # or ^ in their names still resolve; otherwise the first split
+ * whose file part is known wins, then the first # or ^ at all.
+ */
+export function splitMentionTarget(
+    noteName: string,
+    isKnownName: (name: string) => boolean
+): { fileName: string; anchor?: MentionAnchor } {
+    if (isKnownName(noteName)) return { fileName: noteName };
+
+    const splits: number[] = [];
+    for (let i = 1; i < noteName.length - 1; i++) {
+        if (noteName[i] === '#' || noteName[i] === '^') splits.push(i);
+    }
+    const index = splits.find(i => isKnownName(noteName.slice(0, i))) ?? splits[0];
+    if (index === undefined) return { fileName: noteName };
+
+    return {
+        fileName: noteName.slice(0, index),
+        anchor: { kind: noteName[index] === '#' ? 'heading' : 'block', target: noteName.slice(index + 1) },
+    };
+}
+
+/** The anchor as written after the file name, e.g. #Goals or ^c1. */
+export function formatAnchor(anchor: MentionAnchor): string {
+    return `${anchor.kind === 'heading' ? '#' : '^'}${anchor.target}`;
+}
+
+/** Read an anchor written as #Heading or ^blockId back. */
+export function parseAnchor(text: string): MentionAnchor | undefined {
+    if (text.length < 2 || (text[0] !== '#' && text[0] !== '^')) return undefined;
+    return { kind: text[0] === '#' ? 'heading' : 'block', target: text.slice(1) };
+}
+
 /**
  * Parse all @mentions from content
  */
@@ -41,14 +87,19 @@ export function parseMentions(content: string, workspaceFiles: WorkspaceFile[]):
         // Get the note name from whichever capture group matched
         const noteName = match[1] || match[2] || match[3];
 
-        // Find the linked file (case-insensitive match)
-        const linkedFile = workspaceFiles.find(
-            f => f.name.toLowerCase() === noteName.toLowerCase()
+        // Find the linked file (case-insensitive match), looking past any #heading or ^block
+        const findFile = (name: string) => workspaceFiles.find(
+            f => f.name.toLowerCase() === name.toLowerCase()
         );
+        const { fileName, anchor } = splitMentionTarget(noteName, name => !!findFile(name));
+        const linkedFile = findFile(fileName);
 
         mentions.push({
             fullMatch: match[0],
             noteName,
+            fileName,
+            anchor,
+            isEmbed: match.index > 0 && content[match.index - 1] === '!',
             startIndex: match.index,
             endIndex: match.index + match[0].length,
             linkedFile,
@@ -59,6 +110,38 @@ export function parseMentions(content: string, workspaceFiles: WorkspaceFile[]):
 }
 
 
+/**
+ * Score how well a name matches a lower-cased query: exact, prefix, substring,
+ * then in-order fuzzy match (0 = no match). Shared with the command palette.
+ */
+export function scoreNameMatch(name: string, normalizedQuery: string): number {
+    const lowerName = name.toLowerCase();
+
+    // Exact match
+    if (lowerName === normalizedQuery) {
+        return 100;
+    }
+    // Starts with query
+    if (lowerName.startsWith(normalizedQuery)) {
+        return 80 + (normalizedQuery.length / lowerName.length) * 10;
+    }
+    // Contains query
+    if (lowerName.includes(normalizedQuery)) {
+        return 50 + (normalizedQuery.length / lowerName.length) * 10;
+    }
+    // Fuzzy match - check if all query chars appear in order
+    let queryIdx = 0;
+    for (let i = 0; i < lowerName.length && queryIdx < normalizedQuery.length; i++) {
+        if (lowerName[i] === normalizedQuery[queryIdx]) {
+            queryIdx++;
+        }
+    }
+    if (queryIdx === normalizedQuery.length) {
+        return 20 + (normalizedQuery.length / lowerName.length) * 10;
+    }
+    return 0;
+}
+
 /**
  * Get autocomplete suggestions for a partial mention query
  */
@@ -89,37 +172,7 @@ export function getMentionSuggestions(
 
     // Score and filter files based on query match
     const scored = eligibleFiles
-        .map(file => {
-            const name = file.name.toLowerCase();
-            let score = 0;
-
-            // Exact match
-            if (name === normalizedQuery) {
-                score = 100;
-            }
-            // Starts with query
-            else if (name.startsWith(normalizedQuery)) {
-                score = 80 + (normalizedQuery.length / name.length) * 10;
-            }
-            // Contains query
-            else if (name.includes(normalizedQuery)) {
-                score = 50 + (normalizedQuery.length / name.length) * 10;
-            }
-            // Fuzzy match - check if all query chars appear in order
-            else {
-                let queryIdx = 0;
-                for (let i = 0; i < name.length && queryIdx < normalizedQuery.length; i++) {
-                    if (name[i] === normalizedQuery[queryIdx]) {
-                        queryIdx++;
-                    }
-                }
-                if (queryIdx === normalizedQuery.length) {
-                    score = 20 + (normalizedQuery.length / name.length) * 10;
-                }
-            }
-
-            return { file, displayName: file.name, matchScore: score };
-        })
+        .map(file => ({ file, displayName: file.name, matchScore: scoreNameMatch(file.name, normalizedQuery) }))
         .filter(item => item.matchScore > 0)
         .sort((a, b) => b.matchScore - a.matchScore)
         .slice(0, maxResults);
@@ -129,12 +182,14 @@ export function getMentionSuggestions(
 
 /**
  * Render @mentions in content as highlighted HTML spans
- * Returns HTML string with mentions wrapped in clickable spans
+ * Returns HTML string with mentions wrapped in clickable spans.
+ * `renderEmbed` replaces !@ embeds (including the !) when it returns a string.
  */
 export function renderMentionsAsHtml(
     content: string,
     workspaceFiles: WorkspaceFile[],
-    accentColor: string = '#3b82f6'
+    accentColor: string = '#3b82f6',
+    renderEmbed?: (mention: NoteMention) => string | null
 ): string {
     const mentions = parseMentions(content, workspaceFiles);
 
@@ -146,15 +201,23 @@ export function renderMentionsAsHtml(
     let lastIndex = 0;
 
     for (const mention of mentions) {
+        const embed = mention.isEmbed && renderEmbed ? renderEmbed(mention) : null;
+        if (embed !== null) {
+            result += content.substring(lastIndex, mention.startIndex - 1) + embed;
+            lastIndex = mention.endIndex;
+            continue;
+        }
+
         // Add text before this mention
         result += content.substring(lastIndex, mention.startIndex);
 
         // Add the mention as a highlighted span
         const isValid = !!mention.linkedFile;
         const fileId = mention.linkedFile?.id || '';
+        const anchorAttr = mention.anchor ? ` data-anchor="${encodeURIComponent(formatAnchor(mention.anchor))}"` : '';
 
         if (isValid) {
-            result += `<span class="note-mention note-mention-valid" data-note-id="${fileId}" data-note-name="${mention.noteName}" style="color: ${accentColor}; cursor: pointer; font-weight: 500; background: ${accentColor}15; padding: 0 4px; border-radius: 3px; text-decoration: none;">${mention.fullMatch}</span>`;
+            result += `<span class="note-mention note-mention-valid" data-note-id="${fileId}" data-note-name="${mention.noteName}"${anchorAttr} style="color: ${accentColor}; cursor: pointer; font-weight: 500; background: ${accentColor}15; padding: 0 4px; border-radius: 3px; text-decoration: none;">${mention.fullMatch}</span>`;
         } else {
             result += `<span class="note-mention note-mention-invalid" data-note-name="${mention.noteName}" style="color: #9ca3af; cursor: default; font-style: italic; text-decoration: line-through;">${mention.fullMatch}</span>`;
         }
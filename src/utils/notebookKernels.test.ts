@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getNotebookKernels, restartNotebookKernels, shutdownNotebookKernels, shutdownNotebookKernelsExcept } from './notebookKernels';
+
+// A stand-in interpreter whose cells run until the test ends them, exposing the interrupt buffer it was given
+const fakePyodide = vi.hoisted(() => {
+    const state = { interruptBuffer: null as Int32Array | null, finishCell: () => {} };
+    const dict = () => ({ get: () => () => '["", "", [], null]', set: () => {}, destroy: () => {} });
+    const instance = {
+        setInterruptBuffer: (buffer: Int32Array) => { state.interruptBuffer = buffer; },
+        globals: { get: () => dict },
+        loadPackagesFromImports: async () => {},
+        runPythonAsync: (code: string) => code.startsWith('\nimport sys')
+            ? Promise.resolve()
+            : new Promise<void>(resolve => { state.finishCell = resolve; }),
+    };
+    return { state, instance };
+});
+vi.mock('./pyodideRuntime', () => ({ createPyodide: async () => fakePyodide.instance }));
+
+/**
+ * Notebook kernels
+ *
+ * One set of kernels per open notebook, restarted and shut down together.
+ */
+describe('notebookKernels', () => {
+    afterEach(() => {
+        shutdownNotebookKernelsExcept([]);
+    });
+
+    it('gives each notebook its own kernels, kept until it is shut down', () => {
+        const first = getNotebookKernels('nb-1');
+        expect(getNotebookKernels('nb-1')).toBe(first);
+        expect(getNotebookKernels('nb-2')).not.toBe(first);
+        expect(getNotebookKernels('nb-2').javascript).not.toBe(first.javascript);
+
+        shutdownNotebookKernels('nb-1');
+        expect(getNotebookKernels('nb-1')).not.toBe(first);
+    });
+
+    it('restarts both languages and counts executions from 1 again', () => {
+        const kernels = getNotebookKernels('nb-1');
+        kernels.executionCount = 3;
+        const restartPython = vi.spyOn(kernels.python, 'restart');
+        const restartJavascript = vi.spyOn(kernels.javascript, 'restart');
+
+        restartNotebookKernels('nb-1');
+
+        expect(kernels.executionCount).toBe(0);
+        expect(restartPython).toHaveBeenCalled();
+        expect(restartJavascript).toHaveBeenCalled();
+        expect(getNotebookKernels('nb-1')).toBe(kernels);
+    });
+
+    it('shuts down the kernels of notebooks that are no longer open', () => {
+        const open = getNotebookKernels('open');
+        const closed = getNotebookKernels('closed');
+        const dispose = vi.spyOn(closed.javascript, 'dispose');
+
+        shutdownNotebookKernelsExcept(['open']);
+
+        expect(dispose).toHaveBeenCalled();
+        expect(getNotebookKernels('open')).toBe(open);
+        expect(getNotebookKernels('closed')).not.toBe(closed);
+    });
+
+    it('only lets the notebook running a Python cell interrupt it', async () => {
+        const running = getNotebookKernels('running').python;
+        const other = getNotebookKernels('other').python;
+        const run = running.run('while True: await asyncio.sleep(0)');
+        await vi.waitFor(() => expect(fakePyodide.state.interruptBuffer).not.toBeNull());
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        other.interrupt();
+        expect(fakePyodide.state.interruptBuffer![0]).toBe(0);
+        running.interrupt();
+        expect(fakePyodide.state.interruptBuffer![0]).toBe(2);
+
+        fakePyodide.state.finishCell();
+        await run;
+    });
+});
@@ -0,0 +1,315 @@
+/**
+ * Notebook Kernels
+ * Every open Nerdbook gets its own kernel for each language, kept here rather
+ * than in the editor so variables survive switching tabs. Workspace shuts a
+ * notebook's kernels down when its tab closes.
+ *
+ * Python notebooks share one Pyodide interpreter, since loading it is slow and
+ * installed packages belong to the interpreter, but each notebook runs in its
+ * own globals dict: `x` in one notebook is never `x` in another. JavaScript
+ * notebooks each get a JsSandbox worker.
+ *
+ * Pyodide runs on the page's thread, so a Python cell can only be interrupted
+ * while it waits (asyncio.sleep, a package download); a busy loop holds the
+ * app until it finishes.
+ *
+ * Python cells get Jupyter's display(): DataFrames become tables, objects with
+ * _repr_png_/_repr_svg_/_repr_html_ show as such, and matplotlib figures are
+ * shown when the cell ends, like Jupyter's inline backend.
+ */
+
+import type { NerdCellOutput } from '../types';
+import { createPyodide } from './pyodideRuntime';
+import { JsSandbox } from './jsSandbox';
+import { MAX_TABLE_ROWS, TABLE_MIME } from './cellOutputs';
+
+export type KernelLanguage = 'python' | 'javascript';
+
+export interface VariableInfo {
+    name: string;
+    type: string;
+    size: string | null;     // "3 items", "12 chars", "100×4"; null when it has no size
+    preview: string;
+}
+
+export interface PythonRunResult {
+    output: string;
+    outputs: NerdCellOutput[];
+    error: boolean;
+    interrupted: boolean;
+}
+
+// ============================================================================
+// SHARED INTERPRETER
+// ============================================================================
+
+let pyodide: any = null;
+let pyodidePromise: Promise<any> | null = null;
+let helpers: { beginCapture: any; endCapture: any; describeVariables: any; display: any } | null = null;
+
+// Output is captured through sys.stdout, so notebooks take turns running Python
+let pythonQueue: Promise<unknown> = Promise.resolve();
+
+// Written by interrupt(); Pyodide checks it while Python runs and raises KeyboardInterrupt
+const interruptBuffer = new Int32Array(1);
+const SIGINT = 2;
+
+// The kernel whose cell is running, so one notebook can't interrupt another's
+let runningKernel: PythonKernel | null = null;
+
+// Output capture, display() and the variable inspector, run in their own globals so notebooks never see them
+const HELPERS_SOURCE = `
+import sys, io, os, json, math, types, base64, warnings
+
+# Figures are drawn off-screen and shown as images; plt.show() has nothing else to do
+os.environ['MPLBACKEND'] = 'AGG'
+warnings.filterwarnings('ignore', message='.*non-GUI backend.*')
+
+displayed = []
+
+def table_cell(value):
+    if hasattr(value, 'item') and not isinstance(value, (list, tuple, dict, str)):
+        try:
+            value = value.item()
+        except Exception:
+            pass
+    if value is None or isinstance(value, (bool, int, str)):
+        return value
+    if isinstance(value, float):
+        return value if math.isfinite(value) else None
+    return str(value)
+
+def to_output(value):
+    try:
+        pandas = sys.modules.get('pandas')
+        if pandas is not None and isinstance(value, pandas.Series):
+            value = value.to_frame()
+        if pandas is not None and isinstance(value, pandas.DataFrame):
+            frame = value.head(${MAX_TABLE_ROWS})
+            columns = [str(frame.index.name or '')] + [str(column) for column in frame.columns]
+            rows = [[table_cell(index)] + [table_cell(cell) for cell in row]
+                    for index, row in zip(frame.index, frame.itertuples(index=False, name=None))]
+            return {'mime': '${TABLE_MIME}', 'data': json.dumps({'columns': columns, 'rows': rows, 'totalRows': len(value)})}
+        if hasattr(value, 'savefig'):
+            buffer = io.BytesIO()
+            value.savefig(buffer, format='png', bbox_inches='tight')
+            return {'mime': 'image/png', 'data': base64.b64encode(buffer.getvalue()).decode()}
+        for method, mime in (('_repr_png_', 'image/png'), ('_repr_svg_', 'image/svg+xml'), ('_repr_html_', 'text/html'), ('_repr_json_', 'application/json')):
+            represent = getattr(value, method, None)
+            data = represent() if callable(represent) else None
+            if data is None:
+                continue
+            if mime == 'image/png' and isinstance(data, bytes):
+                data = base64.b64encode(data).decode()
+            elif mime == 'application/json':
+                data = json.dumps(data)
+            return {'mime': mime, 'data': data}
+        if isinstance(value, (dict, list)):
+            return {'mime': 'application/json', 'data': json.dumps(value)}
+    except Exception:
+        pass
+    return {'mime': 'text/plain', 'data': repr(value)}
+
+def display(*values):
+    for value in values:
+        displayed.append(to_output(value))
+
+def show_figures(*args, **kwargs):
+    pyplot = sys.modules.get('matplotlib.pyplot')
+    if pyplot is None:
+        return
+    for number in pyplot.get_fignums():
+        displayed.append(to_output(pyplot.figure(number)))
+    pyplot.close('all')
+
+def begin_capture():
+    displayed.clear()
+    # Once pyplot is imported, plt.show() shows the figures so far, in order with other displays
+    pyplot = sys.modules.get('matplotlib.pyplot')
+    if pyplot is not None:
+        pyplot.show = show_figures
+    sys.stdout = io.StringIO()
+    sys.stderr = io.StringIO()
+
+def end_capture(result):
+    # Figures the cell drew but didn't show, then its last expression if that has a rich form
+    show_figures()
+    if result is not None:
+        output = to_output(result)
+        if output['mime'] != 'text/plain':
+            displayed.append(output)
+            result = None
+    captured = [sys.stdout.getvalue(), sys.stderr.getvalue(), list(displayed), None if result is None else repr(result)]
+    sys.stdout, sys.stderr = sys.__stdout__, sys.__stderr__
+    displayed.clear()
+    return json.dumps(captured)
+
+def describe_variables(namespace):
+    rows = []
+    for name, value in sorted(namespace.items()):
+        if name.startswith('_') or isinstance(value, types.ModuleType) or value is display:
+            continue
+        size = None
+        shape = getattr(value, 'shape', None)
+        if isinstance(shape, tuple):
+            size = '\\u00d7'.join(str(n) for n in shape)
+        elif isinstance(value, str):
+            size = f'{len(value)} chars'
+        elif not isinstance(value, type) and hasattr(value, '__len__'):
+            try:
+                size = f'{len(value)} items'
+            except Exception:
+                pass
+        try:
+            preview = ' '.join(repr(value).split())
+        except Exception:
+            preview = '<unprintable>'
+        if len(preview) > 120:
+            preview = preview[:119] + '\\u2026'
+        rows.append({'name': name, 'type': type(value).__name__, 'size': size, 'preview': preview})
+    return json.dumps(rows)
+`;
+
+export function isPyodideLoaded(): boolean {
+    return pyodide !== null;
+}
+
+/** The interpreter every notebook's Python kernel runs in, loaded on first use. */
+export function loadSharedPyodide(): Promise<any> {
+    if (pyodide) return Promise.resolve(pyodide);
+    pyodidePromise ??= (async () => {
+        try {
+            const instance = await createPyodide();
+            instance.setInterruptBuffer?.(interruptBuffer);
+            const namespace = instance.globals.get('dict')();
+            await instance.runPythonAsync(HELPERS_SOURCE, { globals: namespace });
+            helpers = {
+                beginCapture: namespace.get('begin_capture'),
+                endCapture: namespace.get('end_capture'),
+                describeVariables: namespace.get('describe_variables'),
+                display: namespace.get('display'),
+            };
+            pyodide = instance;
+            return instance;
+        } catch (error) {
+            pyodidePromise = null;
+            throw error;
+        }
+    })();
+    return pyodidePromise;
+}
+
+// ============================================================================
+// KERNELS
+// ============================================================================
+
+/** One notebook's Python globals in the shared interpreter. */
+export class PythonKernel {
+    private namespace: any = null;
+
+    run(code: string): Promise<PythonRunResult> {
+        const result = pythonQueue.then(() => this.execute(code));
+        pythonQueue = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Ask this notebook's running cell to stop. It raises KeyboardInterrupt
+     * when Python next gets to run after the cell awaits something.
+     */
+    interrupt(): void {
+        if (runningKernel === this) interruptBuffer[0] = SIGINT;
+    }
+
+    /** Forget every variable. Installed packages stay installed in the shared interpreter. */
+    restart(): void {
+        this.namespace?.destroy?.();
+        this.namespace = null;
+    }
+
+    variables(): VariableInfo[] {
+        if (!this.namespace || !helpers) return [];
+        return JSON.parse(helpers.describeVariables(this.namespace));
+    }
+
+    private async execute(code: string): Promise<PythonRunResult> {
+        const instance = await loadSharedPyodide();
+        if (!this.namespace) {
+            this.namespace = instance.globals.get('dict')();
+            this.namespace.set('__name__', '__main__');
+            this.namespace.set('display', helpers!.display);
+        }
+
+        // Packages the code imports that ship with Pyodide
+        await instance.loadPackagesFromImports(code);
+
+        interruptBuffer[0] = 0;
+        helpers!.beginCapture();
+
+        let result: any;
+        let failure: any = null;
+        runningKernel = this;
+        try {
+            result = await instance.runPythonAsync(code, { globals: this.namespace });
+        } catch (error) {
+            failure = error;
+        } finally {
+            runningKernel = null;
+        }
+        const [stdout, stderr, outputs, value]: [string, string, NerdCellOutput[], string | null] = JSON.parse(helpers!.endCapture(failure ? null : result));
+        result?.destroy?.();
+
+        if (failure) {
+            const interrupted = failure.type === 'KeyboardInterrupt';
+            const ending = interrupted
+                ? '[INTERRUPTED] Execution interrupted. Variables were kept.'
+                : `[PYTHON ERROR] ${failure.message}`;
+            return { output: stdout ? `${stdout}\n${ending}` : ending, outputs, error: true, interrupted };
+        }
+        if (stderr) return { output: stderr, outputs, error: true, interrupted: false };
+        // A cell that only displayed something has no text output
+        return { output: stdout || value || (outputs.length > 0 ? '' : '(No output)'), outputs, error: false, interrupted: false };
+    }
+}
+
+export interface NotebookKernels {
+    python: PythonKernel;
+    javascript: JsSandbox;
+    executionCount: number;     // Last [n] handed out; shared by both languages, like one Jupyter kernel
+}
+
+const kernels = new Map<string, NotebookKernels>();
+
+/** The kernels of a notebook, started the first time it asks. */
+export function getNotebookKernels(notebookId: string): NotebookKernels {
+    let notebookKernels = kernels.get(notebookId);
+    if (!notebookKernels) {
+        notebookKernels = { python: new PythonKernel(), javascript: new JsSandbox(), executionCount: 0 };
+        kernels.set(notebookId, notebookKernels);
+    }
+    return notebookKernels;
+}
+
+/** Restart both of a notebook's kernels, and count executions from 1 again. */
+export function restartNotebookKernels(notebookId: string): void {
+    const notebookKernels = kernels.get(notebookId);
+    if (!notebookKernels) return;
+    notebookKernels.python.restart();
+    notebookKernels.javascript.restart();
+    notebookKernels.executionCount = 0;
+}
+
+/** Shut down a notebook's kernels; the next run starts new ones. */
+export function shutdownNotebookKernels(notebookId: string): void {
+    const notebookKernels = kernels.get(notebookId);
+    if (!notebookKernels) return;
+    notebookKernels.python.restart();
+    notebookKernels.javascript.dispose();
+    kernels.delete(notebookId);
+}
+
+/** Shut down the kernels of every notebook that is no longer open. */
+export function shutdownNotebookKernelsExcept(openNotebookIds: Iterable<string>): void {
+    const open = new Set(openNotebookIds);
+    [...kernels.keys()].filter(notebookId => !open.has(notebookId)).forEach(shutdownNotebookKernels);
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { parseRequirements, pointPypiFilesAtCache, pyodideRequestPath, requirementName } from './pyodideRuntime';
+
+/**
+ * Pyodide runtime
+ *
+ * Notebook requirements and the pyodide:// protocol's paths and PyPI rewriting.
+ */
+describe('pyodideRuntime', () => {
+    it('parses requirement lists and dedupes by package name', () => {
+        expect(requirementName('Scikit_Learn>=1.3')).toBe('scikit-learn');
+        expect(parseRequirements('numpy, pandas>=2.0\n# plotting\nmatplotlib  # for charts\nNumPy==1.26\n\n')).toEqual([
+            'numpy',
+            'pandas>=2.0',
+            'matplotlib',
+        ]);
+    });
+
+    it('rejects request paths that leave their folder', () => {
+        expect(pyodideRequestPath('/packages/ab/cd/six-1.16.0-py2.py3-none-any.whl')).toBe('packages/ab/cd/six-1.16.0-py2.py3-none-any.whl');
+        expect(pyodideRequestPath('/pyodide.asm.wasm')).toBe('pyodide.asm.wasm');
+        expect(pyodideRequestPath('/../secrets.txt')).toBeNull();
+        expect(pyodideRequestPath('/%2e%2e/secrets.txt')).toBeNull();
+        expect(pyodideRequestPath('/C:/Windows/win.ini')).toBeNull();
+        expect(pyodideRequestPath('/')).toBeNull();
+    });
+
+    it('points PyPI wheel URLs at the local cache', () => {
+        const wheel = { filename: 'six-1.16.0-py2.py3-none-any.whl', url: 'https://files.pythonhosted.org/packages/d9/six-1.16.0-py2.py3-none-any.whl' };
+        const elsewhere = { filename: 'six.tar.gz', url: 'https://example.com/six.tar.gz' };
+        const metadata = pointPypiFilesAtCache({ info: { name: 'six' }, urls: [wheel, elsewhere], releases: { '1.16.0': [wheel] } });
+
+        expect(metadata.info).toEqual({ name: 'six' });
+        expect(metadata.urls.map((file: any) => file.url)).toEqual([
+            'pyodide://files/packages/d9/six-1.16.0-py2.py3-none-any.whl',
+            'https://example.com/six.tar.gz',
+        ]);
+        expect(metadata.releases['1.16.0'][0].url).toBe('pyodide://files/packages/d9/six-1.16.0-py2.py3-none-any.whl');
+    });
+});
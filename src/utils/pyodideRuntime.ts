@@ -0,0 +1,142 @@
+/**
+ * Pyodide Runtime
+ * Loads Python for Nerdbook code cells without needing the internet. The
+ * runtime ships with the app (public/pyodide, filled by
+ * `npm run download:pyodide`, which the builds run first) and is served by
+ * the main process over pyodide://, which also caches everything downloaded
+ * later: runtime files missing from the bundle, Pyodide packages and wheels
+ * micropip installs from PyPI. A package installed once keeps working offline.
+ *
+ *   pyodide://runtime/<file>       the bundled runtime, else a cached CDN download
+ *   pyodide://pypi/<name>/json     PyPI metadata, with wheel URLs pointed at pyodide://files/
+ *   pyodide://files/<path>         wheels from files.pythonhosted.org
+ */
+
+// download-pyodide.mjs reads this to fetch the matching runtime
+export const PYODIDE_VERSION = '0.24.1';
+export const PYODIDE_CDN_URL = `https://cdn.jsdelivr.net/pyodide/v${PYODIDE_VERSION}/full/`;
+
+export const PYODIDE_SCHEME = 'pyodide';
+export const PYODIDE_INDEX_URL = `${PYODIDE_SCHEME}://runtime/`;
+export const PYODIDE_PYPI_INDEX_URL = `${PYODIDE_SCHEME}://pypi/{package_name}/json`;
+export const PYODIDE_FILES_URL = `${PYODIDE_SCHEME}://files/`;
+export const PYPI_FILES_URL = 'https://files.pythonhosted.org/';
+
+export interface RequirementsInstallResult {
+    installed: string[];
+    failed: { requirement: string; error: string }[];
+}
+
+// ============================================================================
+// REQUIREMENTS
+// ============================================================================
+
+/** Package name of a requirement like "pandas>=2.0", normalized the way PyPI compares names. */
+export function requirementName(requirement: string): string {
+    const name = requirement.trim().match(/^[A-Za-z0-9][A-Za-z0-9._-]*/)?.[0] || '';
+    return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+/** Requirements from text with one per line or comma separated; comments dropped, later duplicates too. */
+export function parseRequirements(text: string): string[] {
+    const seen = new Set<string>();
+    const requirements: string[] = [];
+    for (const part of text.split(/[\n,]/)) {
+        const requirement = part.replace(/#.*$/, '').trim();
+        const name = requirementName(requirement);
+        if (!name || seen.has(name)) continue;
+        seen.add(name);
+        requirements.push(requirement);
+    }
+    return requirements;
+}
+
+// ============================================================================
+// PROTOCOL (main process)
+// ============================================================================
+
+/** Relative path of a pyodide:// request, or null if it's empty or tries to leave its folder. */
+export function pyodideRequestPath(pathname: string): string | null {
+    let decoded = pathname;
+    try {
+        decoded = decodeURIComponent(pathname);
+    } catch {
+        return null;
+    }
+    const parts = decoded.split(/[\\/]/).filter(Boolean);
+    if (parts.length === 0 || parts.some(part => part === '..' || part === '.' || part.includes(':'))) return null;
+    return parts.join('/');
+}
+
+/** PyPI JSON metadata with its wheel URLs pointed at the cache, so micropip downloads through it. */
+export function pointPypiFilesAtCache(metadata: any): any {
+    const rewrite = (file: any) => typeof file?.url === 'string' && file.url.startsWith(PYPI_FILES_URL)
+        ? { ...file, url: PYODIDE_FILES_URL + file.url.slice(PYPI_FILES_URL.length) }
+        : file;
+    const rewriteAll = (files: unknown) => (Array.isArray(files) ? files.map(rewrite) : files);
+
+    return {
+        ...metadata,
+        urls: rewriteAll(metadata?.urls),
+        ...(metadata?.releases && {
+            releases: Object.fromEntries(Object.entries(metadata.releases).map(([version, files]) => [version, rewriteAll(files)])),
+        }),
+    };
+}
+
+// ============================================================================
+// LOADING (renderer)
+// ============================================================================
+
+let scriptPromise: Promise<void> | null = null;
+
+function loadPyodideScript(): Promise<void> {
+    if ((window as any).loadPyodide) return Promise.resolve();
+    scriptPromise ??= new Promise<void>((resolve, reject) => {
+        const script = document.createElement('script');
+        script.src = `${PYODIDE_INDEX_URL}pyodide.js`;
+        script.async = true;
+        script.onload = () => resolve();
+        script.onerror = () => {
+            scriptPromise = null;
+            script.remove();
+            reject(new Error('Failed to load the Python runtime.'));
+        };
+        document.body.appendChild(script);
+    });
+    return scriptPromise;
+}
+
+/** A new Python interpreter, with micropip installing through the local package cache. */
+export async function createPyodide(): Promise<any> {
+    await loadPyodideScript();
+    const pyodide = await (window as any).loadPyodide({ indexURL: PYODIDE_INDEX_URL });
+    await pyodide.loadPackage('micropip');
+    await pyodide.runPythonAsync(`
+import micropip
+if hasattr(micropip, "set_index_urls"):
+    micropip.set_index_urls([${JSON.stringify(PYODIDE_PYPI_INDEX_URL)}])
+`);
+    return pyodide;
+}
+
+/** Install requirements one at a time, so one that can't be found doesn't stop the rest. */
+export async function installRequirements(pyodide: any, requirements: string[]): Promise<RequirementsInstallResult> {
+    const result: RequirementsInstallResult = { installed: [], failed: [] };
+    const micropip = pyodide.pyimport('micropip');
+    try {
+        for (const requirement of requirements) {
+            try {
+                await micropip.install(requirement);
+                result.installed.push(requirement);
+            } catch (error: any) {
+                // micropip's errors end with the useful line
+                const message = String(error?.message || error).trim().split('\n').pop() || 'Install failed';
+                result.failed.push({ requirement, error: message });
+            }
+        }
+    } finally {
+        micropip.destroy?.();
+    }
+    return result;
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+    getRuleDates,
+    expandRecurringNotes,
+    getNotesForDate,
+    updateOccurrence,
+    deleteOccurrence,
+    migrateLegacySeries,
+    occurrenceId,
+    describeRule,
+    withNextOccurrenceOnly,
+} from './recurrence';
+import { Note, NotesData } from '../types';
+
+const series = (overrides: Partial<Note> = {}): Note => ({
+    id: 'standup',
+    title: 'Standup',
+    description: '',
+    time: '09:00',
+    importance: 'low',
+    seriesId: 'series-1',
+    recurrence: { type: 'weekly', count: 4 },
+    occurrenceExceptions: {},
+    ...overrides,
+});
+
+/**
+ * Recurrence engine
+ *
+ * Series are stored once and expanded on read; edits become exceptions,
+ * splits or definition changes rather than rewrites of every copy.
+ */
+describe('recurrence', () => {
+    it('expands weekday, nth-weekday and yearly rules', () => {
+        expect(getRuleDates({ type: 'daily', byWeekday: [1, 2, 3, 4, 5] }, '2025-03-07', '2025-03-11'))
+            .toEqual(['2025-03-07', '2025-03-10', '2025-03-11']);
+
+        expect(getRuleDates({ type: 'monthly', byWeekday: [2], setPos: 2, count: 3 }, '2025-01-14', '2026-01-01'))
+            .toEqual(['2025-01-14', '2025-02-11', '2025-03-11']);
+
+        expect(getRuleDates({ type: 'monthly', byWeekday: [5], setPos: -1 }, '2025-01-31', '2025-03-31'))
+            .toEqual(['2025-01-31', '2025-02-28', '2025-03-28']);
+
+        expect(getRuleDates({ type: 'weekly', interval: 2, byWeekday: [1, 3], endDate: '2025-03-20' }, '2025-03-03', '2025-12-31'))
+            .toEqual(['2025-03-03', '2025-03-05', '2025-03-17', '2025-03-19']);
+
+        // Month-end and leap-day starts clamp rather than skip
+        expect(getRuleDates({ type: 'monthly', count: 3 }, '2025-01-31', '2025-12-31'))
+            .toEqual(['2025-01-31', '2025-02-28', '2025-03-31']);
+        expect(getRuleDates({ type: 'yearly', count: 2 }, '2024-02-29', '2030-01-01'))
+            .toEqual(['2024-02-29', '2025-02-28']);
+    });
+
+    it('expands series into virtual occurrences with exceptions applied', () => {
+        const notes: NotesData = {
+            '2025-03-03': [series({
+                occurrenceExceptions: {
+                    '2025-03-10': { deleted: true },
+                    '2025-03-17': { overrides: { title: 'Retro', completed: true } },
+                },
+            })],
+        };
+
+        const expanded = expandRecurringNotes(notes, '2025-12-31');
+        expect(Object.keys(expanded)).toEqual(['2025-03-03', '2025-03-17', '2025-03-24']);
+        expect(expanded['2025-03-17'][0]).toMatchObject({
+            id: occurrenceId('standup', '2025-03-17'),
+            title: 'Retro',
+            completed: true,
+            occurrenceDate: '2025-03-17',
+        });
+        expect(getNotesForDate(notes, '2025-03-24')).toHaveLength(1);
+        expect(getNotesForDate(notes, '2025-03-24')).toBe(getNotesForDate(notes, '2025-03-24'));
+        expect(getNotesForDate(notes, '2025-03-10')).toHaveLength(0);
+
+        // Summaries keep what has happened and only the next occurrence
+        expect(Object.keys(withNextOccurrenceOnly(expanded, '2025-03-05'))).toEqual(['2025-03-03', '2025-03-17']);
+    });
+
+    it('edits this occurrence, this and following, or the whole series', () => {
+        const notes: NotesData = { '2025-03-03': [series()] };
+        const third = getNotesForDate(notes, '2025-03-17')[0];
+
+        const single = updateOccurrence(notes, { ...third, title: 'Moved' }, 'this');
+        expect(single['2025-03-03'][0].occurrenceExceptions).toEqual({ '2025-03-17': { overrides: { title: 'Moved' } } });
+
+        const split = updateOccurrence(notes, { ...third, time: '10:00' }, 'following');
+        expect(split['2025-03-03'][0].recurrence).toEqual({ type: 'weekly', count: 2, endDate: undefined });
+        expect(split['2025-03-17'][0]).toMatchObject({ time: '10:00', recurrence: { type: 'weekly', count: 2 } });
+        expect(split['2025-03-17'][0].seriesId).not.toBe('series-1');
+        expect(Object.keys(expandRecurringNotes(split, '2025-12-31'))).toHaveLength(4);
+
+        const all = updateOccurrence(single, { ...getNotesForDate(single, '2025-03-24')[0], importance: 'high' }, 'all');
+        expect(all['2025-03-03'][0].importance).toBe('high');
+        // Unrelated overrides survive a series-wide change
+        expect(getNotesForDate(all, '2025-03-17')[0]).toMatchObject({ title: 'Moved', importance: 'high' });
+
+        // A multi-day series' occurrence keeps its own end date without it becoming an override
+        const trip: NotesData = { '2025-03-03': [series({ endDate: '2025-03-04' })] };
+        const renamed = updateOccurrence(trip, { ...getNotesForDate(trip, '2025-03-10')[0], title: 'Offsite' }, 'this');
+        expect(renamed['2025-03-03'][0].occurrenceExceptions).toEqual({ '2025-03-10': { overrides: { title: 'Offsite' } } });
+        expect(getNotesForDate(renamed, '2025-03-10')[0]).toMatchObject({ title: 'Offsite', endDate: '2025-03-11' });
+    });
+
+    it('deletes single occurrences, the rest of a series, or all of it', () => {
+        const notes: NotesData = { '2025-03-03': [series()] };
+        const second = getNotesForDate(notes, '2025-03-10')[0];
+
+        expect(Object.keys(expandRecurringNotes(deleteOccurrence(notes, second, 'this'), '2025-12-31')))
+            .toEqual(['2025-03-03', '2025-03-17', '2025-03-24']);
+        expect(Object.keys(expandRecurringNotes(deleteOccurrence(notes, second, 'following'), '2025-12-31')))
+            .toEqual(['2025-03-03']);
+        expect(deleteOccurrence(notes, second, 'all')).toEqual({});
+    });
+
+    it('migrates legacy copy-per-date series into a single definition', () => {
+        const copy = (id: string, extra: Partial<Note> = {}): Note => ({
+            id, title: 'Gym', description: '', time: '18:00', importance: 'medium',
+            seriesId: 'legacy', recurrence: { type: 'weekly', count: 3 }, ...extra,
+        });
+        const notes: NotesData = {
+            '2025-03-03': [copy('a')],
+            // 2025-03-10 was deleted by the user
+            '2025-03-17': [copy('c', { completed: true })],
+            '2025-03-18': [{ id: 'x', title: 'Other', description: '', time: '12:00', importance: 'low' }],
+        };
+
+        const { notes: migrated, migrated: count } = migrateLegacySeries(notes);
+        expect(count).toBe(1);
+        expect(migrated['2025-03-17']).toBeUndefined();
+        expect(migrated['2025-03-03'][0].occurrenceExceptions).toEqual({
+            '2025-03-10': { deleted: true },
+            '2025-03-17': { overrides: { completed: true } },
+        });
+        expect(migrated['2025-03-18']).toEqual(notes['2025-03-18']);
+        expect(migrateLegacySeries(migrated).migrated).toBe(0);
+    });
+
+    it('describes rules in plain language', () => {
+        expect(describeRule({ type: 'monthly', byWeekday: [2], setPos: 2 })).toBe('Monthly on the 2nd Tuesday');
+        expect(describeRule({ type: 'daily', byWeekday: [1, 2, 3, 4, 5] })).toBe('Every weekday');
+        expect(describeRule({ type: 'fortnightly', count: 5 })).toBe('Every 2 weeks, 5 times');
+        expect(describeRule({ type: 'daily', interval: 2, byWeekday: [1, 3] })).toBe('Every 2 days on Monday, Wednesday');
+        expect(describeRule({ type: 'monthly', byWeekday: [5], setPos: -2 })).toBe('Monthly on the second-to-last Friday');
+        expect(describeRule({ type: 'yearly', byWeekday: [1], setPos: 22 })).toBe('Yearly on the 22nd Monday');
+        expect(describeRule({ type: 'yearly', byWeekday: [1], setPos: 12 })).toBe('Yearly on the 12th Monday');
+    });
+});
@@ -0,0 +1,642 @@
+/**
+ * Recurrence Engine
+ * Recurring events are stored once as a series definition (a Note with a
+ * `recurrence` rule and `occurrenceExceptions`) and expanded into virtual
+ * occurrences on demand, instead of being copied into every date key.
+ *
+ * Virtual occurrences carry `occurrenceDate` and an id of the form
+ * `<seriesNoteId>::<YYYY-MM-DD>`; edits to them are written back to the
+ * series as exceptions ("this one"), a split ("this and following") or a
+ * change to the definition ("all").
+ */
+
+import { Note, NotesData, RecurrenceRule, OccurrenceException } from '../types';
+
+export type OccurrenceEditScope = 'this' | 'following' | 'all';
+
+const OCCURRENCE_ID_SEPARATOR = '::';
+
+// Hard cap on occurrences per series per expansion (~13 years of a daily event)
+export const MAX_OCCURRENCES = 5000;
+
+// Upper bound used when expanding count-limited legacy series
+const LEGACY_OPEN_END = '9999-12-31';
+
+// Fields an occurrence can override on its own
+const OVERRIDABLE_FIELDS = ['title', 'description', 'summary', 'time', 'endTime', 'endDate', 'allDay', 'timeZone', 'importance', 'completed', 'completedLate', 'missed', 'reminder'] as const;
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const TO_LAST_WORDS: Record<number, string> = { 2: 'second', 3: 'third', 4: 'fourth', 5: 'fifth' };
+
+const ordinalNumber = (n: number) => {
+    const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[n % 10] || 'th';
+    return `${n}${suffix}`;
+};
+
+// "2nd", "last", "second-to-last": positions count back from the end when negative
+const describePosition = (setPos: number) =>
+    setPos > 0 ? ordinalNumber(setPos)
+        : setPos === -1 ? 'last'
+            : `${TO_LAST_WORDS[-setPos] || ordinalNumber(-setPos)}-to-last`;
+
+// ============================================================================
+// DATE HELPERS (local dates only, keyed as YYYY-MM-DD)
+// ============================================================================
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toDateKey = (date: Date): string =>
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const fromDateKey = (key: string): Date => {
+    const [y, m, d] = key.split('-').map(Number);
+    return new Date(y, m - 1, d);
+};
+
+export const addDaysToKey = (key: string, days: number): string => {
+    const date = fromDateKey(key);
+    date.setDate(date.getDate() + days);
+    return toDateKey(date);
+};
+
+/** Whole days from one date key to another (negative if `to` is earlier). */
+export const daysBetweenKeys = (from: string, to: string): number =>
+    Math.round((fromDateKey(to).getTime() - fromDateKey(from).getTime()) / 86400000);
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+// ============================================================================
+// IDENTIFIERS
+// ============================================================================
+
+export function occurrenceId(seriesNoteId: string, dateKey: string): string {
+    return `${seriesNoteId}${OCCURRENCE_ID_SEPARATOR}${dateKey}`;
+}
+
+export function parseOccurrenceId(id: string): { seriesNoteId: string; dateKey: string } | null {
+    const index = id.lastIndexOf(OCCURRENCE_ID_SEPARATOR);
+    if (index === -1) return null;
+    return { seriesNoteId: id.substring(0, index), dateKey: id.substring(index + OCCURRENCE_ID_SEPARATOR.length) };
+}
+
+/** A stored series definition (as opposed to a legacy copy or a plain note). */
+export function isSeriesDefinition(note: Note): boolean {
+    return !!note.recurrence && !!note.occurrenceExceptions && !note.occurrenceDate;
+}
+
+/** A virtual occurrence produced by expandRecurringNotes. */
+export function isOccurrence(note: Note): boolean {
+    return !!note.occurrenceDate;
+}
+
+// ============================================================================
+// RULE EXPANSION
+// ============================================================================
+
+/**
+ * Days in a month matching byWeekday (optionally narrowed to the setPos-th match),
+ * or the start's day of month, clamped to the month's length.
+ */
+function monthDays(year: number, month: number, rule: RecurrenceRule, startDay: number): number[] {
+    const total = daysInMonth(year, month);
+    if (!rule.byWeekday || rule.byWeekday.length === 0) {
+        return [Math.min(startDay, total)];
+    }
+
+    const matching: number[] = [];
+    for (let d = 1; d <= total; d++) {
+        if (rule.byWeekday.includes(new Date(year, month, d).getDay())) matching.push(d);
+    }
+    if (!rule.setPos) return matching;
+
+    const picked = rule.setPos > 0 ? matching[rule.setPos - 1] : matching[matching.length + rule.setPos];
+    return picked !== undefined ? [picked] : [];
+}
+
+/**
+ * Every date key a rule produces from `startKey` (inclusive) up to `untilKey`
+ * (inclusive), ignoring exceptions. Stops at the rule's count/endDate.
+ */
+export function getRuleDates(rule: RecurrenceRule, startKey: string, untilKey: string, limit: number = MAX_OCCURRENCES): string[] {
+    const dates: string[] = [];
+    const start = fromDateKey(startKey);
+    const lastKey = rule.endDate && rule.endDate < untilKey ? rule.endDate : untilKey;
+    const maxCount = Math.min(rule.count ?? Number.MAX_SAFE_INTEGER, limit);
+    const interval = Math.max(1, rule.interval || 1) * (rule.type === 'fortnightly' ? 2 : 1);
+
+    // Returns false once the series is exhausted
+    const push = (date: Date): boolean => {
+        const key = toDateKey(date);
+        if (key < startKey) return true;
+        if (key > lastKey || dates.length >= maxCount) return false;
+        dates.push(key);
+        return true;
+    };
+
+    // Periods are bounded so rules that can never match (e.g. a 5th Monday filter) terminate
+    const maxPeriods = MAX_OCCURRENCES * 7;
+
+    for (let period = 0; period < maxPeriods; period++) {
+        const step = period * interval;
+
+        switch (rule.type) {
+            case 'daily': {
+                const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + step);
+                if (rule.byWeekday && rule.byWeekday.length > 0 && !rule.byWeekday.includes(date.getDay())) {
+                    if (toDateKey(date) > lastKey) return dates;
+                    continue;
+                }
+                if (!push(date)) return dates;
+                break;
+            }
+            case 'weekly':
+            case 'fortnightly': {
+                // Weeks start on Monday
+                const weekStart = new Date(start.getFullYear(), start.getMonth(), start.getDate() - ((start.getDay() + 6) % 7) + step * 7);
+                if (toDateKey(weekStart) > lastKey) return dates;
+                const weekdays = rule.byWeekday && rule.byWeekday.length > 0 ? rule.byWeekday : [start.getDay()];
+                const days = [...weekdays]
+                    .map(wd => (wd + 6) % 7)
+                    .sort((a, b) => a - b)
+                    .map(offset => new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + offset));
+                for (const date of days) {
+                    if (!push(date)) return dates;
+                }
+                break;
+            }
+            case 'monthly': {
+                const year = start.getFullYear() + Math.floor((start.getMonth() + step) / 12);
+                const month = (start.getMonth() + step) % 12;
+                if (toDateKey(new Date(year, month, 1)) > lastKey) return dates;
+                for (const day of monthDays(year, month, rule, start.getDate())) {
+                    if (!push(new Date(year, month, day))) return dates;
+                }
+                break;
+            }
+            case 'yearly': {
+                const year = start.getFullYear() + step;
+                if (toDateKey(new Date(year, start.getMonth(), 1)) > lastKey) return dates;
+                for (const day of monthDays(year, start.getMonth(), rule, start.getDate())) {
+                    if (!push(new Date(year, start.getMonth(), day))) return dates;
+                }
+                break;
+            }
+        }
+    }
+
+    return dates;
+}
+
+/**
+ * Build the virtual occurrence of a series on a given date. Multi-day series
+ * (with an endDate) keep their length, so pass the series' own date key.
+ */
+export function buildOccurrence(series: Note, dateKey: string, seriesKey: string = dateKey): Note {
+    const { occurrenceExceptions, ...definition } = series;
+    const overrides = occurrenceExceptions?.[dateKey]?.overrides || {};
+    if (definition.endDate) {
+        definition.endDate = addDaysToKey(dateKey, daysBetweenKeys(seriesKey, definition.endDate));
+    }
+    return {
+        ...definition,
+        ...overrides,
+        id: occurrenceId(series.id, dateKey),
+        seriesId: series.seriesId || series.id,
+        occurrenceDate: dateKey,
+    };
+}
+
+/**
+ * Replace series definitions with their occurrences up to `untilKey`.
+ * Plain notes (and legacy copies) are passed through unchanged.
+ */
+export function expandRecurringNotes(notes: NotesData, untilKey: string, fromKey?: string): NotesData {
+    const expanded: NotesData = {};
+
+    const add = (key: string, note: Note) => {
+        if (!expanded[key]) expanded[key] = [];
+        expanded[key].push(note);
+    };
+
+    for (const [dateKey, dayNotes] of Object.entries(notes)) {
+        if (!Array.isArray(dayNotes)) continue;
+        for (const note of dayNotes) {
+            if (!isSeriesDefinition(note)) {
+                if (!fromKey || dateKey >= fromKey) add(dateKey, note);
+                continue;
+            }
+            for (const key of getRuleDates(note.recurrence!, dateKey, untilKey)) {
+                if (fromKey && key < fromKey) continue;
+                if (note.occurrenceExceptions?.[key]?.deleted) continue;
+                add(key, buildOccurrence(note, key, dateKey));
+            }
+        }
+    }
+
+    // Keep days with only plain notes in their stored order; sort days that received occurrences
+    for (const key of Object.keys(expanded)) {
+        if (expanded[key].some(isOccurrence)) {
+            expanded[key].sort((a, b) => (a.time || '').localeCompare(b.time || ''));
+        }
+    }
+
+    return expanded;
+}
+
+// Days already expanded for a notes object; replaced notes objects drop out with their cache
+const dayCache = new WeakMap<NotesData, Map<string, Note[]>>();
+
+/**
+ * Occurrences of every series on a single day, plus that day's plain notes.
+ * Cached per notes object and day, so don't mutate the result.
+ */
+export function getNotesForDate(notes: NotesData, dateKey: string): Note[] {
+    let days = dayCache.get(notes);
+    if (!days) {
+        days = new Map();
+        dayCache.set(notes, days);
+    }
+    let dayNotes = days.get(dateKey);
+    if (!dayNotes) {
+        dayNotes = expandRecurringNotes(notes, dateKey, dateKey)[dateKey] || [];
+        days.set(dateKey, dayNotes);
+    }
+    return dayNotes;
+}
+
+/**
+ * Expanded notes cut down for summaries: occurrences up to `todayKey`, then
+ * only the next one of each series, so a series' future counts once rather
+ * than as every occurrence of the expansion horizon. Plain notes are kept.
+ */
+export function withNextOccurrenceOnly(expanded: NotesData, todayKey: string): NotesData {
+    const seen = new Set<string>();
+    const result: NotesData = {};
+    for (const key of Object.keys(expanded).sort()) {
+        const dayNotes = expanded[key].filter(note => {
+            if (key <= todayKey || !isOccurrence(note) || !note.seriesId) return true;
+            if (seen.has(note.seriesId)) return false;
+            seen.add(note.seriesId);
+            return true;
+        });
+        if (dayNotes.length > 0) result[key] = dayNotes;
+    }
+    return result;
+}
+
+// ============================================================================
+// EDITING
+// ============================================================================
+
+/**
+ * Locate the stored series definition an occurrence belongs to.
+ */
+export function findSeries(notes: NotesData, occurrence: Note): { dateKey: string; note: Note } | null {
+    const parsed = parseOccurrenceId(occurrence.id);
+    if (!parsed) return null;
+    for (const [dateKey, dayNotes] of Object.entries(notes)) {
+        const note = dayNotes.find(n => n.id === parsed.seriesNoteId);
+        if (note && isSeriesDefinition(note)) return { dateKey, note };
+    }
+    return null;
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/** Fields of `occurrence` that differ from the series definition. */
+export function diffOverrides(series: Note, occurrence: Note): OccurrenceException['overrides'] {
+    const overrides: Record<string, unknown> = {};
+    for (const field of OVERRIDABLE_FIELDS) {
+        if (!sameValue(occurrence[field], series[field])) overrides[field] = occurrence[field];
+    }
+    return overrides as OccurrenceException['overrides'];
+}
+
+function withNote(notes: NotesData, dateKey: string, replace: (dayNotes: Note[]) => Note[]): NotesData {
+    const next = { ...notes, [dateKey]: replace(notes[dateKey] || []) };
+    if (next[dateKey].length === 0) delete next[dateKey];
+    return next;
+}
+
+/** Strip fields that only exist on virtual occurrences. */
+function toStoredNote(note: Note): Note {
+    const { occurrenceDate: _occurrenceDate, ...stored } = note;
+    return stored;
+}
+
+/**
+ * Count how many occurrences a rule produces strictly before `dateKey`.
+ */
+function countBefore(rule: RecurrenceRule, startKey: string, dateKey: string): number {
+    if (dateKey <= startKey) return 0;
+    return getRuleDates({ ...rule, count: undefined, endDate: undefined }, startKey, addDaysToKey(dateKey, -1)).length;
+}
+
+/**
+ * End a series just before `dateKey`. Returns null if nothing would remain.
+ */
+function truncateSeries(series: Note, seriesDateKey: string, dateKey: string): Note | null {
+    const before = countBefore(series.recurrence!, seriesDateKey, dateKey);
+    if (before === 0) return null;
+
+    const exceptions: Record<string, OccurrenceException> = {};
+    for (const [key, exception] of Object.entries(series.occurrenceExceptions || {})) {
+        if (key < dateKey) exceptions[key] = exception;
+    }
+
+    return {
+        ...series,
+        recurrence: {
+            ...series.recurrence!,
+            count: series.recurrence!.count ? Math.min(series.recurrence!.count, before) : undefined,
+            endDate: series.recurrence!.count ? series.recurrence!.endDate : addDaysToKey(dateKey, -1),
+        },
+        occurrenceExceptions: exceptions,
+    };
+}
+
+/**
+ * Apply an edit made to a virtual occurrence back to the stored notes.
+ * `updated` is the edited occurrence; `newRule` optionally replaces the rule
+ * for "following"/"all" edits.
+ */
+export function updateOccurrence(
+    notes: NotesData,
+    updated: Note,
+    scope: OccurrenceEditScope,
+    newRule?: RecurrenceRule
+): NotesData {
+    const found = findSeries(notes, updated);
+    if (!found || !updated.occurrenceDate) return notes;
+    const { dateKey: seriesKey, note: series } = found;
+    const occurrenceKey = updated.occurrenceDate;
+
+    if (scope === 'this') {
+        // Against the occurrence as the series alone builds it, so a multi-day series' shifted endDate isn't an override
+        const exceptions = { ...(series.occurrenceExceptions || {}) };
+        delete exceptions[occurrenceKey];
+        const overrides = diffOverrides(buildOccurrence({ ...series, occurrenceExceptions: exceptions }, occurrenceKey, seriesKey), updated);
+        if (overrides && Object.keys(overrides).length > 0) exceptions[occurrenceKey] = { overrides };
+        else delete exceptions[occurrenceKey];
+
+        return withNote(notes, seriesKey, day => day.map(n => n.id === series.id ? { ...series, occurrenceExceptions: exceptions } : n));
+    }
+
+    // Only fields the user actually changed on this occurrence spread to other occurrences
+    const changed = diffOverrides(buildOccurrence(series, occurrenceKey, seriesKey), updated) || {};
+
+    if (scope === 'all' || occurrenceKey <= seriesKey) {
+        // An occurrence's end date is relative to its own date; the definition's to the series start
+        const endDate = changed.endDate
+            ? addDaysToKey(seriesKey, daysBetweenKeys(occurrenceKey, changed.endDate))
+            : 'endDate' in changed ? undefined : series.endDate;
+        const definition: Note = {
+            ...series,
+            ...changed,
+            endDate,
+            recurrence: newRule || series.recurrence,
+            occurrenceExceptions: newRule ? {} : withoutFields(series.occurrenceExceptions || {}, Object.keys(changed)),
+        };
+        return withNote(notes, seriesKey, day => day.map(n => n.id === series.id ? definition : n));
+    }
+
+    // "This and following": end the current series and start a new one here
+    const truncated = truncateSeries(series, seriesKey, occurrenceKey);
+    const before = countBefore(series.recurrence!, seriesKey, occurrenceKey);
+    const rule = newRule || {
+        ...series.recurrence!,
+        count: series.recurrence!.count ? Math.max(1, series.recurrence!.count - before) : undefined,
+    };
+
+    const laterExceptions: Record<string, OccurrenceException> = {};
+    if (!newRule) {
+        for (const [key, exception] of Object.entries(series.occurrenceExceptions || {})) {
+            if (key >= occurrenceKey) laterExceptions[key] = exception;
+        }
+    }
+
+    const newSeries: Note = {
+        ...series,
+        ...changed,
+        id: crypto.randomUUID(),
+        seriesId: crypto.randomUUID(),
+        recurrence: rule,
+        occurrenceExceptions: withoutFields(laterExceptions, Object.keys(changed)),
+    };
+
+    let next = withNote(notes, seriesKey, day => truncated
+        ? day.map(n => n.id === series.id ? truncated : n)
+        : day.filter(n => n.id !== series.id));
+    next = withNote(next, occurrenceKey, day => [...day, newSeries]);
+    return next;
+}
+
+/** Drop overrides of the given fields, removing exceptions left empty. */
+function withoutFields(exceptions: Record<string, OccurrenceException>, fields: string[]): Record<string, OccurrenceException> {
+    const result: Record<string, OccurrenceException> = {};
+    for (const [key, exception] of Object.entries(exceptions)) {
+        if (exception.deleted) {
+            result[key] = exception;
+            continue;
+        }
+        const overrides = { ...(exception.overrides || {}) } as Record<string, unknown>;
+        for (const field of fields) delete overrides[field];
+        if (Object.keys(overrides).length > 0) result[key] = { overrides: overrides as OccurrenceException['overrides'] };
+    }
+    return result;
+}
+
+/**
+ * Delete an occurrence ("this"), the rest of the series ("following") or the
+ * whole series ("all").
+ */
+export function deleteOccurrence(notes: NotesData, occurrence: Note, scope: OccurrenceEditScope): NotesData {
+    const found = findSeries(notes, occurrence);
+    if (!found || !occurrence.occurrenceDate) return notes;
+    const { dateKey: seriesKey, note: series } = found;
+    const occurrenceKey = occurrence.occurrenceDate;
+
+    if (scope === 'all' || (scope === 'following' && occurrenceKey <= seriesKey)) {
+        return withNote(notes, seriesKey, day => day.filter(n => n.id !== series.id));
+    }
+
+    if (scope === 'following') {
+        const truncated = truncateSeries(series, seriesKey, occurrenceKey);
+        return withNote(notes, seriesKey, day => truncated
+            ? day.map(n => n.id === series.id ? truncated : n)
+            : day.filter(n => n.id !== series.id));
+    }
+
+    const exceptions = { ...(series.occurrenceExceptions || {}), [occurrenceKey]: { deleted: true } };
+    return withNote(notes, seriesKey, day => day.map(n => n.id === series.id ? { ...series, occurrenceExceptions: exceptions } : n));
+}
+
+/**
+ * Create a series definition from a note and its rule.
+ */
+export function createSeries(note: Note, rule: RecurrenceRule): Note {
+    return {
+        ...toStoredNote(note),
+        recurrence: rule,
+        seriesId: note.seriesId || crypto.randomUUID(),
+        occurrenceExceptions: note.occurrenceExceptions || {},
+    };
+}
+
+/**
+ * A plain (non-recurring) copy of a note or occurrence, with a fresh id.
+ */
+export function toStandaloneNote(note: Note): Note {
+    const { occurrenceDate: _occurrenceDate, occurrenceExceptions: _exceptions, recurrence: _recurrence, seriesId: _seriesId, ...plain } = note;
+    return { ...plain, id: crypto.randomUUID() };
+}
+
+/** Compare two rules, ignoring unset fields and weekday order. */
+export function isSameRule(a?: RecurrenceRule, b?: RecurrenceRule): boolean {
+    const normalise = (rule?: RecurrenceRule) => rule && {
+        type: rule.type,
+        interval: rule.interval && rule.interval > 1 ? rule.interval : undefined,
+        byWeekday: rule.byWeekday && rule.byWeekday.length > 0 ? [...rule.byWeekday].sort() : undefined,
+        setPos: rule.setPos || undefined,
+        endDate: rule.endDate || undefined,
+        count: rule.count || undefined,
+    };
+    return sameValue(normalise(a), normalise(b));
+}
+
+// ============================================================================
+// MIGRATION
+// ============================================================================
+
+/**
+ * Collapse legacy series (copies sharing a seriesId) into single definitions.
+ * Missing copies become deleted exceptions; copies whose fields or state differ
+ * from the first become overrides; copies moved off the rule's dates stay as
+ * plain notes. Returns the original object when nothing needed migrating.
+ */
+export function migrateLegacySeries(notes: NotesData): { notes: NotesData; migrated: number } {
+    const groups = new Map<string, { dateKey: string; note: Note }[]>();
+    for (const [dateKey, dayNotes] of Object.entries(notes)) {
+        if (!Array.isArray(dayNotes)) continue;
+        for (const note of dayNotes) {
+            if (note.seriesId && note.recurrence && !note.occurrenceExceptions) {
+                const list = groups.get(note.seriesId) || [];
+                list.push({ dateKey, note });
+                groups.set(note.seriesId, list);
+            }
+        }
+    }
+    if (groups.size === 0) return { notes, migrated: 0 };
+
+    const removeIds = new Set<string>();
+    const additions: { dateKey: string; note: Note }[] = [];
+    const plainUpdates = new Map<string, Note>();
+
+    for (const [seriesId, instances] of groups) {
+        instances.sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+        const first = instances[0];
+        const legacy = first.note.recurrence!;
+
+        // Bound the rule the way the legacy creators did, so deleted copies aren't resurrected.
+        // Open-ended legacy series are closed at their last stored copy.
+        const lastKey = instances[instances.length - 1].dateKey;
+        const rule: RecurrenceRule = { type: legacy.type };
+        if (legacy.count) rule.count = legacy.count;
+        else rule.endDate = legacy.endDate || lastKey;
+
+        const ruleDates = getRuleDates(rule, first.dateKey, rule.endDate || LEGACY_OPEN_END);
+        const expected = new Set(ruleDates);
+        const byDate = new Map<string, Note>();
+        const exceptions: Record<string, OccurrenceException> = {};
+
+        for (const instance of instances) {
+            if (!expected.has(instance.dateKey) || byDate.has(instance.dateKey)) {
+                // Moved off-pattern (or a duplicate on the same day): keep as a plain note
+                const { recurrence: _recurrence, seriesId: _seriesId, ...plain } = instance.note;
+                plainUpdates.set(instance.note.id, plain as Note);
+                continue;
+            }
+            byDate.set(instance.dateKey, instance.note);
+            removeIds.add(instance.note.id);
+        }
+
+        for (const key of ruleDates) {
+            const copy = byDate.get(key);
+            if (!copy) {
+                exceptions[key] = { deleted: true };
+                continue;
+            }
+            const overrides = diffOverrides(first.note, copy);
+            if (overrides && Object.keys(overrides).length > 0) exceptions[key] = { overrides };
+        }
+
+        additions.push({
+            dateKey: first.dateKey,
+            note: {
+                ...first.note,
+                seriesId,
+                recurrence: rule,
+                occurrenceExceptions: exceptions,
+            },
+        });
+    }
+
+    const migratedNotes: NotesData = {};
+    for (const [dateKey, dayNotes] of Object.entries(notes)) {
+        if (!Array.isArray(dayNotes)) continue;
+        const kept = dayNotes
+            .filter(n => !removeIds.has(n.id))
+            .map(n => plainUpdates.get(n.id) || n);
+        if (kept.length > 0) migratedNotes[dateKey] = kept;
+    }
+    for (const { dateKey, note } of additions) {
+        migratedNotes[dateKey] = [...(migratedNotes[dateKey] || []), note];
+    }
+
+    return { notes: migratedNotes, migrated: groups.size };
+}
+
+// ============================================================================
+// DESCRIPTIONS
+// ============================================================================
+
+/**
+ * Human-readable description of a rule, e.g. "Every 2nd Tuesday of the month".
+ */
+export function describeRule(rule: RecurrenceRule): string {
+    const interval = Math.max(1, rule.interval || 1);
+    const days = (rule.byWeekday || []).slice().sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+    const isWeekdays = days.length === 5 && [1, 2, 3, 4, 5].every(d => days.includes(d));
+    const dayList = isWeekdays ? 'weekday' : days.map(d => WEEKDAY_NAMES[d]).join(', ');
+
+    let text: string;
+    switch (rule.type) {
+        case 'daily':
+            if (days.length === 0) text = interval === 1 ? 'Daily' : `Every ${interval} days`;
+            else if (interval === 1) text = isWeekdays ? 'Every weekday' : `Every ${dayList}`;
+            else text = `Every ${interval} days on ${isWeekdays ? 'weekdays' : dayList}`;
+            break;
+        case 'weekly':
+        case 'fortnightly': {
+            const weeks = interval * (rule.type === 'fortnightly' ? 2 : 1);
+            const base = weeks === 1 ? 'Weekly' : weeks === 2 ? 'Every 2 weeks' : `Every ${weeks} weeks`;
+            text = days.length > 0 ? `${base} on ${isWeekdays ? 'weekdays' : dayList}` : base;
+            break;
+        }
+        case 'monthly': {
+            const base = interval === 1 ? 'Monthly' : `Every ${interval} months`;
+            text = days.length > 0 && rule.setPos
+                ? `${base} on the ${describePosition(rule.setPos)} ${dayList}`
+                : base;
+            break;
+        }
+        case 'yearly':
+            text = interval === 1 ? 'Yearly' : `Every ${interval} years`;
+            if (days.length > 0 && rule.setPos) text += ` on the ${describePosition(rule.setPos)} ${dayList}`;
+            break;
+    }
+
+    if (rule.count) text += `, ${rule.count} times`;
+    else if (rule.endDate) text += `, until ${rule.endDate}`;
+    return text;
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+    createReminderState,
+    normaliseReminderState,
+    pruneReminderState,
+    recordFired,
+    recordRepeat,
+    snoozeReminder,
+    acknowledgeReminder,
+    getDueRepeats,
+    getActiveReminders,
+    hasFired,
+    reminderKey,
+} from './reminderSchedule';
+
+const MINUTE = 60000;
+const info = { dateKey: '2025-03-10', noteId: 'n1', minutes: 15 };
+const key = reminderKey(info.dateKey, info.noteId, info.minutes);
+
+/**
+ * Reminder schedule
+ *
+ * Snoozes, escalation and the persisted state that stops reminders being
+ * lost or repeated across restarts.
+ */
+describe('reminderSchedule', () => {
+    it('fires once and survives a save/load round trip', () => {
+        const fired = recordFired(createReminderState(), key, info, 0, false);
+        expect(hasFired(fired, key)).toBe(true);
+
+        const reloaded = normaliseReminderState(JSON.parse(JSON.stringify(fired)));
+        expect(hasFired(reloaded, key)).toBe(true);
+        expect(getActiveReminders(reloaded).map(([k]) => k)).toEqual([key]);
+        expect(normaliseReminderState({ records: { bad: { status: 'weird' } } }).records).toEqual({});
+        expect(normaliseReminderState(null)).toEqual(createReminderState());
+    });
+
+    it('brings snoozed reminders back when the snooze runs out', () => {
+        let state = recordFired(createReminderState(), key, info, 0, false);
+        state = snoozeReminder(state, key, 10 * MINUTE);
+
+        expect(getDueRepeats(state, 5 * MINUTE)).toEqual([]);
+        expect(getActiveReminders(state)).toEqual([]);
+        expect(getDueRepeats(state, 10 * MINUTE).map(([k]) => k)).toEqual([key]);
+
+        state = recordRepeat(state, key, 10 * MINUTE, false);
+        expect(state.records[key]).toMatchObject({ status: 'active', repeatCount: 1, snoozedUntil: undefined });
+        expect(getDueRepeats(state, 60 * MINUTE)).toEqual([]);
+    });
+
+    it('repeats escalating reminders with growing gaps until acknowledged', () => {
+        let state = recordFired(createReminderState(), key, info, 0, true);
+        expect(state.records[key].nextRepeatAt).toBe(2 * MINUTE);
+
+        state = recordRepeat(state, key, 2 * MINUTE, true);
+        expect(state.records[key].nextRepeatAt).toBe(7 * MINUTE);
+        state = recordRepeat(state, key, 7 * MINUTE, true);
+        state = recordRepeat(state, key, 17 * MINUTE, true);
+        expect(state.records[key].nextRepeatAt).toBe(27 * MINUTE);
+
+        state = acknowledgeReminder(state, key);
+        expect(getDueRepeats(state, 60 * MINUTE)).toEqual([]);
+        // Acknowledged reminders can't be snoozed back to life
+        expect(snoozeReminder(state, key, 70 * MINUTE)).toBe(state);
+    });
+
+    it('prunes records from previous days only', () => {
+        const state = recordFired(createReminderState(), key, info, 0, false);
+        expect(pruneReminderState(state, '2025-03-12')).toBe(state);
+        expect(pruneReminderState(state, '2025-03-13').records).toEqual({});
+    });
+});
@@ -0,0 +1,172 @@
+/**
+ * Reminder Schedule
+ * State for background event reminders: which reminders have fired, which
+ * are snoozed and which high-importance reminders keep repeating until they
+ * are acknowledged. It is plain data so the main process can persist it and
+ * carry on after a restart without losing or repeating reminders.
+ */
+
+import { addDaysToKey } from './recurrence';
+
+// Snooze options offered by the overlay and native notification
+export const SNOOZE_PRESET_MINUTES = [5, 10, 30];
+
+// Gaps between repeats of an unacknowledged high-importance reminder (the last one repeats)
+export const ESCALATION_INTERVAL_MINUTES = [2, 5, 10];
+
+// Reminders stop repeating, and aren't restored after a restart, this long after the event starts
+export const REMINDER_EXPIRY_MINUTES = 120;
+
+// Records are kept for a couple of days so events near midnight aren't re-fired
+const RETENTION_DAYS = 2;
+
+export type ReminderStatus = 'active' | 'snoozed' | 'acknowledged';
+
+export interface ReminderRecord {
+    dateKey: string;
+    noteId: string;
+    minutes: number;            // Which of the note's reminder offsets fired
+    firedAt: number;            // When it was last shown
+    status: ReminderStatus;
+    snoozedUntil?: number;
+    repeatCount?: number;       // Times shown again after a snooze or escalation
+    nextRepeatAt?: number;      // Escalating reminders: when to show it again
+}
+
+export interface ReminderState {
+    version: 1;
+    records: Record<string, ReminderRecord>;
+}
+
+/** Key identifying one reminder offset of one event occurrence. */
+export const reminderKey = (dateKey: string, noteId: string, minutes: number) => `${dateKey}-${noteId}-${minutes}`;
+
+export function createReminderState(): ReminderState {
+    return { version: 1, records: {} };
+}
+
+/**
+ * Read state loaded from disk, dropping anything malformed.
+ */
+export function normaliseReminderState(raw: unknown): ReminderState {
+    const state = createReminderState();
+    const records = (raw as ReminderState | null)?.records;
+    if (!records || typeof records !== 'object') return state;
+
+    for (const [key, record] of Object.entries(records)) {
+        if (!record || typeof record.dateKey !== 'string' || typeof record.noteId !== 'string') continue;
+        if (!['active', 'snoozed', 'acknowledged'].includes(record.status)) continue;
+        state.records[key] = record;
+    }
+    return state;
+}
+
+/**
+ * Drop records for events more than RETENTION_DAYS before today.
+ */
+export function pruneReminderState(state: ReminderState, todayKey: string): ReminderState {
+    const cutoff = addDaysToKey(todayKey, -RETENTION_DAYS);
+    const kept = Object.entries(state.records).filter(([, record]) => record.dateKey >= cutoff);
+    if (kept.length === Object.keys(state.records).length) return state;
+    return { ...state, records: Object.fromEntries(kept) };
+}
+
+/** When an escalating reminder that has been shown `repeatCount` times should next repeat. */
+export function nextEscalationAt(repeatCount: number, now: number): number {
+    const minutes = ESCALATION_INTERVAL_MINUTES[Math.min(repeatCount, ESCALATION_INTERVAL_MINUTES.length - 1)];
+    return now + minutes * 60000;
+}
+
+// ============================================================================
+// TRANSITIONS
+// ============================================================================
+
+/**
+ * Record a reminder firing for the first time. Escalating reminders are
+ * scheduled to repeat until acknowledged.
+ */
+export function recordFired(
+    state: ReminderState,
+    key: string,
+    info: Pick<ReminderRecord, 'dateKey' | 'noteId' | 'minutes'>,
+    now: number,
+    escalate: boolean
+): ReminderState {
+    const record: ReminderRecord = {
+        ...info,
+        firedAt: now,
+        status: 'active',
+        repeatCount: 0,
+        nextRepeatAt: escalate ? nextEscalationAt(0, now) : undefined,
+    };
+    return { ...state, records: { ...state.records, [key]: record } };
+}
+
+/**
+ * Record a snoozed or escalating reminder being shown again.
+ */
+export function recordRepeat(state: ReminderState, key: string, now: number, escalate: boolean): ReminderState {
+    const record = state.records[key];
+    if (!record) return state;
+
+    const repeatCount = (record.repeatCount || 0) + 1;
+    return {
+        ...state,
+        records: {
+            ...state.records,
+            [key]: {
+                ...record,
+                firedAt: now,
+                status: 'active',
+                snoozedUntil: undefined,
+                repeatCount,
+                nextRepeatAt: escalate ? nextEscalationAt(repeatCount, now) : undefined,
+            },
+        },
+    };
+}
+
+/** Hide a reminder until `until`, when it fires again. */
+export function snoozeReminder(state: ReminderState, key: string, until: number): ReminderState {
+    const record = state.records[key];
+    if (!record || record.status === 'acknowledged') return state;
+    return {
+        ...state,
+        records: { ...state.records, [key]: { ...record, status: 'snoozed', snoozedUntil: until, nextRepeatAt: undefined } },
+    };
+}
+
+/** Stop a reminder for good (dismissed, viewed, or its event was completed). */
+export function acknowledgeReminder(state: ReminderState, key: string): ReminderState {
+    const record = state.records[key];
+    if (!record || record.status === 'acknowledged') return state;
+    return {
+        ...state,
+        records: { ...state.records, [key]: { ...record, status: 'acknowledged', snoozedUntil: undefined, nextRepeatAt: undefined } },
+    };
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/** Whether a reminder has already fired (in any state). */
+export function hasFired(state: ReminderState, key: string): boolean {
+    return key in state.records;
+}
+
+/**
+ * Reminders that should be shown again now: snoozes that have run out and
+ * escalating reminders whose next repeat is due.
+ */
+export function getDueRepeats(state: ReminderState, now: number): [string, ReminderRecord][] {
+    return Object.entries(state.records).filter(([, record]) =>
+        (record.status === 'snoozed' && (record.snoozedUntil ?? 0) <= now) ||
+        (record.status === 'active' && record.nextRepeatAt !== undefined && record.nextRepeatAt <= now)
+    );
+}
+
+/** Reminders currently waiting for the user, e.g. to restore the overlay after a restart. */
+export function getActiveReminders(state: ReminderState): [string, ReminderRecord][] {
+    return Object.entries(state.records).filter(([, record]) => record.status === 'active');
+}
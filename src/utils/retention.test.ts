@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { keepNewestPerBucket, keepNewestPerPeriod, localDayKey, localWeekKey } from './retention';
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date(2025, 2, 12, 12, 30).getTime(); // Wednesday
+
+const item = (hoursAgo: number) => ({ id: `i-${hoursAgo}`, time: now - hoursAgo * HOUR });
+
+/**
+ * Retention
+ *
+ * The hour/day/week buckets shared by backups and file history.
+ */
+describe('retention', () => {
+    it('buckets by local day and by week starting on Monday', () => {
+        expect(localDayKey(new Date(2025, 2, 12, 23, 59).getTime())).toBe(localDayKey(new Date(2025, 2, 12, 0, 1).getTime()));
+        expect(localWeekKey(new Date(2025, 2, 16, 20).getTime())).toBe(localDayKey(new Date(2025, 2, 10).getTime()));
+        expect(localWeekKey(new Date(2025, 2, 17, 8).getTime())).toBe(localDayKey(new Date(2025, 2, 17).getTime()));
+    });
+
+    it('keeps the newest item per bucket inside the window', () => {
+        const newestFirst = [item(0.1), item(0.5), item(1.2), item(30)];
+        const keep = new Set<string>();
+        keepNewestPerBucket(newestFirst, now, 2 * HOUR, time => Math.floor(time / HOUR), keep);
+        expect([...keep]).toEqual(['i-0.1', 'i-1.2']);
+
+        const periods = new Set<string>();
+        keepNewestPerPeriod(newestFirst, now, { hourly: 2, daily: 2, weekly: 1 }, periods);
+        expect([...periods]).toEqual(['i-0.1', 'i-1.2', 'i-30']);
+    });
+});
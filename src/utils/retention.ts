@@ -0,0 +1,60 @@
+/**
+ * Retention
+ * Grandfather-father-son thinning shared by the data backups and the
+ * workspace file history: of everything taken within a window, only the
+ * newest in each hour, local day or local week survives.
+ */
+
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+
+export interface Dated {
+    id: string;
+    time: number;
+}
+
+export interface PeriodRetention {
+    hourly: number;             // Hours to keep the newest of each hour for
+    daily: number;              // Days to keep the newest of each day for
+    weekly: number;             // Weeks to keep the newest of each week for
+}
+
+export const localDayKey = (time: number) => {
+    const date = new Date(time);
+    return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+};
+
+// Weeks start on Monday
+export const localWeekKey = (time: number) => {
+    const date = new Date(time);
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+    return localDayKey(date.getTime());
+};
+
+/**
+ * Add to `keep` the newest item of each bucket among those at most
+ * `windowMs` old. `newestFirst` must be sorted newest first.
+ */
+export function keepNewestPerBucket(
+    newestFirst: Dated[],
+    now: number,
+    windowMs: number,
+    bucketOf: (time: number) => string | number,
+    keep: Set<string>
+): void {
+    const seen = new Set<string | number>();
+    for (const item of newestFirst) {
+        if (now - item.time > windowMs) break;
+        const bucket = bucketOf(item.time);
+        if (seen.has(bucket)) continue;
+        seen.add(bucket);
+        keep.add(item.id);
+    }
+}
+
+/** Add to `keep` the newest item of each recent hour, day and week. */
+export function keepNewestPerPeriod(newestFirst: Dated[], now: number, retention: PeriodRetention, keep: Set<string>): void {
+    keepNewestPerBucket(newestFirst, now, retention.hourly * HOUR_MS, time => Math.floor(time / HOUR_MS), keep);
+    keepNewestPerBucket(newestFirst, now, retention.daily * DAY_MS, localDayKey, keep);
+    keepNewestPerBucket(newestFirst, now, retention.weekly * 7 * DAY_MS, localWeekKey, keep);
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+    SearchIndex,
+    buildSnippet,
+    createEventDocuments,
+    createFileDocument,
+    createTaskDocuments,
+    extractWorkspaceText,
+} from './searchIndex';
+
+const file = (filePath: string, text: string) => createFileDocument(filePath, text);
+
+/**
+ * Search index
+ *
+ * Ranking, snippets and highlights over workspace files, events and tasks.
+ */
+describe('searchIndex', () => {
+    it('extracts text from native workspace formats', () => {
+        expect(extractWorkspaceText('.exec', JSON.stringify({
+            title: 'Forensics', cells: [{ id: 'c1', type: 'code', content: 'import volatility' }],
+        }))).toBe('Forensics\nimport volatility');
+        expect(extractWorkspaceText('.brd', JSON.stringify({
+            name: 'Plans', notes: [{ content: 'Trip', listItems: [{ text: 'Passport' }] }],
+        }))).toBe('Plans\nTrip\nPassport');
+        expect(extractWorkspaceText('.nbm', JSON.stringify({ nodes: [{ label: 'Kernel', description: 'Core' }] })))
+            .toBe('Kernel\nCore');
+        expect(extractWorkspaceText('.deck', JSON.stringify({
+            name: 'Spanish', cards: [{ front: 'perro', back: 'dog' }],
+        }))).toBe('Spanish\nperro\ndog');
+        expect(extractWorkspaceText('.exec', JSON.stringify({
+            title: 'Forensics', cells: [{ id: 'c1', type: 'code', content: 'import volatility' }],
+        }), false)).toBe('Forensics');
+        expect(extractWorkspaceText('.exec', 'not json')).toBe('');
+        expect(extractWorkspaceText('.pdf', '%PDF')).toBeNull();
+    });
+
+    it('ranks title matches first and requires every query word', () => {
+        const index = new SearchIndex();
+        index.add(file('/ws/Memory forensics.exec', 'Notes on volatility plugins'));
+        index.add(file('/ws/Lab.nt', 'Today we covered memory forensics with volatility'));
+        index.add(file('/ws/Shopping.nt', 'Memory card, batteries'));
+
+        expect(index.search('memory forensics').map(r => r.document.title)).toEqual(['Memory forensics', 'Lab']);
+        // Words match by prefix too
+        expect(index.search('vol').map(r => r.document.title).sort()).toEqual(['Lab', 'Memory forensics']);
+        expect(index.search('forensics xyz')).toEqual([]);
+    });
+
+    it('keeps the index current as documents change', () => {
+        const index = new SearchIndex();
+        index.add(file('/ws/a.nt', 'alpha'));
+        index.add(file('/ws/a.nt', 'beta'));
+        expect(index.size).toBe(1);
+        expect(index.search('alpha')).toEqual([]);
+        expect(index.search('beta')).toHaveLength(1);
+
+        index.removeWhere(d => d.filePath!.startsWith('/ws/'));
+        expect(index.search('beta')).toEqual([]);
+    });
+
+    it('builds snippets and highlight ranges around the first match', () => {
+        const body = `${'lorem ipsum '.repeat(30)}the kernel panicked ${'dolor sit '.repeat(30)}`;
+        const snippet = buildSnippet(body, ['kernel']);
+        expect(snippet.startsWith('…')).toBe(true);
+        expect(snippet.endsWith('…')).toBe(true);
+        expect(snippet).toContain('the kernel panicked');
+
+        const index = new SearchIndex();
+        index.add(file('/ws/Kernel notes.nt', body));
+        const [result] = index.search('kern');
+        const [highlight] = result.snippetHighlights;
+        expect(result.snippet.slice(highlight.start, highlight.end)).toBe('kernel');
+        expect(result.titleHighlights).toEqual([{ start: 0, end: 6 }]);
+    });
+
+    it('indexes events and tasks and filters by kind', () => {
+        const index = new SearchIndex();
+        index.replaceKind('event', createEventDocuments({
+            '2025-03-10': [{
+                id: 'e1', title: 'Dentist', description: 'Bring insurance card', time: '09:00', importance: 'medium',
+                occurrenceExceptions: { '2025-03-17': { overrides: { title: 'Dentist follow-up' } } },
+            }],
+        }));
+        index.replaceKind('task', createTaskDocuments([
+            { id: 't1', title: 'Renew insurance', tags: ['admin'], completed: false, createdAt: '2025-03-01T00:00:00Z', order: 0 },
+        ]));
+
+        expect(index.search('insurance').map(r => r.document.kind).sort()).toEqual(['event', 'task']);
+        expect(index.search('insurance', { kinds: ['task'] }).map(r => r.document.taskId)).toEqual(['t1']);
+        expect(index.search('follow')[0].document).toMatchObject({ dateKey: '2025-03-10', noteId: 'e1' });
+
+        index.replaceKind('task', []);
+        expect(index.search('admin')).toEqual([]);
+    });
+
+    it('filters by inline and assigned tags, including nested ones', () => {
+        const index = new SearchIndex();
+        index.add(file('/ws/Budget.nt', 'Quarterly budget #project/alpha'));
+        index.add(file('/ws/Plan.nt', 'Budget for the trip `#fff` #travel'));
+        index.add(file('/ws/Ideas.nt', 'Nothing tagged here'));
+        index.setAssignedTags(new Map([['/ws/Ideas.nt', ['Project']]]));
+
+        expect(index.search('budget #project').map(r => r.document.title)).toEqual(['Budget']);
+        expect(index.search('tag:project').map(r => r.document.title).sort()).toEqual(['Budget', 'Ideas']);
+        expect(index.search('budget', { tags: ['travel'] }).map(r => r.document.title)).toEqual(['Plan']);
+        expect(index.search('#fff')).toEqual([]);
+        expect(index.listDocumentTags('file')['/ws/Budget.nt']).toEqual(['project/alpha']);
+
+        // Notebook code cells (CSS colors, C preprocessor lines) aren't tags
+        const notebook = JSON.stringify({ title: 'Styles', cells: [
+            { id: 'c1', type: 'markdown', content: 'Palette for #design' },
+            { id: 'c2', type: 'code', content: 'color = "#fff"\n#include <stdio.h>' },
+        ] });
+        expect(createFileDocument('/ws/Styles.exec', extractWorkspaceText('.exec', notebook)!, undefined, extractWorkspaceText('.exec', notebook, false)!).tags)
+            .toEqual(['design']);
+    });
+});
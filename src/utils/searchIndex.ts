@@ -0,0 +1,432 @@
+/**
+ * Search Index
+ * Full-text index over workspace files, calendar events and tasks. The main
+ * process owns a single index, keeps it current from the workspace watcher
+ * and answers `search-workspace` queries with ranked results, snippets and
+ * highlight ranges the renderer can draw directly. Queries can filter by
+ * tag with #tag or tag:name words.
+ */
+
+import { Note, NotesData, Task } from '../types';
+import { extractInlineTags, matchesTagFilters, mergeTags, parseTagQuery } from './fileMetadata';
+
+export type SearchSourceKind = 'file' | 'event' | 'task';
+
+export interface SearchDocument {
+    id: string;                 // Unique across kinds: file path, `event:<date>:<id>` or `task:<id>`
+    kind: SearchSourceKind;
+    title: string;
+    body: string;
+    filePath?: string;          // Files: absolute path on disk
+    extension?: string;         // Files: lower-case extension including the dot
+    dateKey?: string;           // Events: date the event (or series) starts on
+    noteId?: string;            // Events: id of the stored note
+    taskId?: string;
+    completed?: boolean;        // Events and tasks
+    updatedAt?: number;
+    tags?: string[];            // Files: inline #tags in the text; tasks: their tags
+}
+
+export interface HighlightRange {
+    start: number;
+    end: number;                // Exclusive
+}
+
+export interface SearchResult {
+    document: Omit<SearchDocument, 'body'>;
+    score: number;
+    snippet: string;
+    titleHighlights: HighlightRange[];
+    snippetHighlights: HighlightRange[];
+}
+
+export interface SearchOptions {
+    limit?: number;
+    kinds?: SearchSourceKind[];
+    extensions?: string[];
+    tags?: string[];            // Every tag must match (nested tags count)
+}
+
+// Title matches count this many times a body match
+const TITLE_WEIGHT = 3;
+
+// BM25 tuning; the usual defaults
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Query terms this long or longer also match words they are a prefix of
+const MIN_PREFIX_LENGTH = 2;
+
+// A prefix match is worth less than the exact word
+const PREFIX_PENALTY = 0.7;
+
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 40;
+const DEFAULT_LIMIT = 50;
+
+const WORD_REGEX = /[\p{L}\p{N}]+/gu;
+
+/** Lower-cased words in `text`, in order. */
+export function tokenize(text: string): string[] {
+    return (text.toLowerCase().match(WORD_REGEX) || []);
+}
+
+// ============================================================================
+// INDEX
+// ============================================================================
+
+interface IndexedDocument {
+    document: SearchDocument;
+    titleCounts: Map<string, number>;
+    bodyCounts: Map<string, number>;
+    length: number;             // Weighted token count used for length normalisation
+}
+
+const countTerms = (tokens: string[]): Map<string, number> => {
+    const counts = new Map<string, number>();
+    for (const token of tokens) counts.set(token, (counts.get(token) || 0) + 1);
+    return counts;
+};
+
+export class SearchIndex {
+    private documents = new Map<string, IndexedDocument>();
+    private postings = new Map<string, Set<string>>();
+    private totalLength = 0;
+    private assignedTags = new Map<string, string[]>();
+
+    get size(): number {
+        return this.documents.size;
+    }
+
+    has(id: string): boolean {
+        return this.documents.has(id);
+    }
+
+    /** Add a document, replacing any existing one with the same id. */
+    add(document: SearchDocument): void {
+        this.remove(document.id);
+
+        const titleCounts = countTerms(tokenize(document.title));
+        const bodyCounts = countTerms(tokenize(document.body));
+        let length = 0;
+        titleCounts.forEach(count => { length += count * TITLE_WEIGHT; });
+        bodyCounts.forEach(count => { length += count; });
+
+        this.documents.set(document.id, { document, titleCounts, bodyCounts, length });
+        this.totalLength += length;
+
+        for (const term of new Set([...titleCounts.keys(), ...bodyCounts.keys()])) {
+            let ids = this.postings.get(term);
+            if (!ids) this.postings.set(term, ids = new Set());
+            ids.add(document.id);
+        }
+    }
+
+    remove(id: string): boolean {
+        const existing = this.documents.get(id);
+        if (!existing) return false;
+
+        for (const term of new Set([...existing.titleCounts.keys(), ...existing.bodyCounts.keys()])) {
+            const ids = this.postings.get(term);
+            ids?.delete(id);
+            if (ids && ids.size === 0) this.postings.delete(term);
+        }
+        this.totalLength -= existing.length;
+        this.documents.delete(id);
+        return true;
+    }
+
+    /** Remove every document matching `predicate`, e.g. all files under a deleted folder. */
+    removeWhere(predicate: (document: SearchDocument) => boolean): number {
+        const ids = [...this.documents.values()].filter(d => predicate(d.document)).map(d => d.document.id);
+        ids.forEach(id => this.remove(id));
+        return ids.length;
+    }
+
+    /** Swap out every document of one kind, e.g. after events or tasks are saved. */
+    replaceKind(kind: SearchSourceKind, documents: SearchDocument[]): void {
+        this.removeWhere(d => d.kind === kind);
+        documents.forEach(d => this.add(d));
+    }
+
+    clear(): void {
+        this.documents.clear();
+        this.postings.clear();
+        this.totalLength = 0;
+    }
+
+    /**
+     * Tags assigned to documents outside their text (files tagged in the
+     * workspace tree), by document id. They count alongside inline tags.
+     */
+    setAssignedTags(tagsById: Map<string, string[]>): void {
+        this.assignedTags = tagsById;
+    }
+
+    /** All tags of a document: its own plus any assigned ones. */
+    getTags(id: string): string[] {
+        return mergeTags(this.documents.get(id)?.document.tags, this.assignedTags.get(id));
+    }
+
+    /** The document's own tags (inline #tags for files) by id, for one kind. */
+    listDocumentTags(kind: SearchSourceKind): Record<string, string[]> {
+        const tags: Record<string, string[]> = {};
+        for (const { document } of this.documents.values()) {
+            if (document.kind === kind) tags[document.id] = document.tags || [];
+        }
+        return tags;
+    }
+
+    /**
+     * Ranked search. Every query word must match, as a whole word or (from
+     * MIN_PREFIX_LENGTH characters) as a prefix; results are scored with BM25
+     * over title and body, with bonuses for the whole query as a phrase.
+     */
+    search(query: string, options: SearchOptions = {}): SearchResult[] {
+        const parsed = parseTagQuery(query);
+        const tags = mergeTags(options.tags, parsed.tags);
+        const terms = [...new Set(tokenize(parsed.text))];
+        if ((terms.length === 0 && tags.length === 0) || this.documents.size === 0) return [];
+
+        const { limit = DEFAULT_LIMIT, kinds, extensions } = options;
+        const avgLength = this.totalLength / this.documents.size || 1;
+        const scores = new Map<string, number>();
+
+        // Only tags: every tagged document, most recent first
+        if (terms.length === 0) {
+            this.documents.forEach((_, id) => scores.set(id, 0));
+        }
+
+        terms.forEach((term, termIndex) => {
+            const termScores = new Map<string, number>();
+
+            for (const [indexTerm, ids] of this.matchingTerms(term)) {
+                const exact = indexTerm === term;
+                const idf = Math.log(1 + (this.documents.size - ids.size + 0.5) / (ids.size + 0.5));
+
+                for (const id of ids) {
+                    const entry = this.documents.get(id)!;
+                    const tf = (entry.titleCounts.get(indexTerm) || 0) * TITLE_WEIGHT + (entry.bodyCounts.get(indexTerm) || 0);
+                    const norm = tf * (BM25_K1 + 1) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * entry.length / avgLength));
+                    const score = idf * norm * (exact ? 1 : PREFIX_PENALTY);
+                    termScores.set(id, Math.max(termScores.get(id) || 0, score));
+                }
+            }
+
+            // AND semantics: drop documents missing this term
+            if (termIndex === 0) {
+                termScores.forEach((score, id) => scores.set(id, score));
+            } else {
+                for (const [id, score] of scores) {
+                    const termScore = termScores.get(id);
+                    if (termScore === undefined) scores.delete(id);
+                    else scores.set(id, score + termScore);
+                }
+            }
+        });
+
+        const phrase = terms.join(' ');
+        const results: SearchResult[] = [];
+
+        for (const [id, baseScore] of scores) {
+            const { document } = this.documents.get(id)!;
+            if (kinds && !kinds.includes(document.kind)) continue;
+            if (extensions && (!document.extension || !extensions.includes(document.extension))) continue;
+            if (tags.length > 0 && !matchesTagFilters(this.getTags(id), tags)) continue;
+
+            const title = tokenize(document.title).join(' ');
+            let score = baseScore;
+            if (title === phrase) score *= 2;
+            else if (title.startsWith(phrase)) score *= 1.5;
+            else if (terms.length > 1 && title.includes(phrase)) score *= 1.3;
+            else if (terms.length > 1 && tokenize(document.body).join(' ').includes(phrase)) score *= 1.2;
+
+            const { body: _body, ...rest } = document;
+            const snippet = buildSnippet(document.body, terms);
+            results.push({
+                document: rest,
+                score,
+                snippet,
+                titleHighlights: findHighlights(document.title, terms),
+                snippetHighlights: findHighlights(snippet, terms),
+            });
+        }
+
+        return results
+            .sort((a, b) => b.score - a.score || (b.document.updatedAt || 0) - (a.document.updatedAt || 0))
+            .slice(0, limit);
+    }
+
+    private matchingTerms(term: string): [string, Set<string>][] {
+        const exact = this.postings.get(term);
+        if (term.length < MIN_PREFIX_LENGTH) return exact ? [[term, exact]] : [];
+
+        const matches: [string, Set<string>][] = [];
+        for (const entry of this.postings) {
+            if (entry[0].startsWith(term)) matches.push(entry);
+        }
+        return matches;
+    }
+}
+
+// ============================================================================
+// SNIPPETS & HIGHLIGHTS
+// ============================================================================
+
+/**
+ * Ranges of the words in `text` that a query term matches (exactly or as a
+ * prefix), for the renderer to wrap in <mark>.
+ */
+export function findHighlights(text: string, terms: string[]): HighlightRange[] {
+    const ranges: HighlightRange[] = [];
+    for (const match of text.matchAll(WORD_REGEX)) {
+        const word = match[0].toLowerCase();
+        if (terms.some(term => term.length >= MIN_PREFIX_LENGTH ? word.startsWith(term) : word === term)) {
+            ranges.push({ start: match.index!, end: match.index! + match[0].length });
+        }
+    }
+    return ranges;
+}
+
+/**
+ * A short extract of `body` around the first matching word, cut at word
+ * boundaries with ellipses where text was dropped.
+ */
+export function buildSnippet(body: string, terms: string[]): string {
+    const text = body.replace(/\s+/g, ' ').trim();
+    if (text.length <= SNIPPET_LENGTH) return text;
+
+    const [first] = findHighlights(text, terms);
+    let start = first ? Math.max(0, first.start - SNIPPET_LEAD) : 0;
+    let end = Math.min(text.length, start + SNIPPET_LENGTH);
+    start = Math.max(0, end - SNIPPET_LENGTH);
+
+    if (start > 0) {
+        const space = text.indexOf(' ', start);
+        if (space !== -1 && (!first || space < first.start)) start = space + 1;
+    }
+    if (end < text.length) {
+        const space = text.lastIndexOf(' ', end);
+        if (space > start) end = space;
+    }
+
+    return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+// ============================================================================
+// DOCUMENT BUILDERS
+// ============================================================================
+
+const safeParse = (raw: string): any => {
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return null;
+    }
+};
+
+const joinText = (parts: unknown[]): string =>
+    parts.filter(p => typeof p === 'string' && p.trim()).join('\n');
+
+/**
+ * Searchable text of a native workspace file (.exec, .brd, .nbm, .deck, .nt)
+ * or plain text document. Returns null for formats that need the main
+ * process to extract their text (PDF, DOCX, XLSX) or that have none. Without
+ * `includeCode`, notebook code cells are left out, e.g. to read #tags from.
+ */
+export function extractWorkspaceText(extension: string, raw: string, includeCode = true): string | null {
+    switch (extension) {
+        case '.nt':
+        case '.txt':
+        case '.md':
+        case '.markdown':
+            return raw;
+        case '.exec': {
+            const notebook = safeParse(raw);
+            const cells = (notebook?.cells || []).filter((c: any) => includeCode || c?.type !== 'code');
+            return joinText([notebook?.title, ...cells.map((c: any) => c?.content)]);
+        }
+        case '.brd': {
+            const board = safeParse(raw);
+            return joinText([
+                board?.name,
+                ...(board?.notes || []).flatMap((n: any) => [n?.content, ...(n?.listItems || []).map((i: any) => i?.text)]),
+            ]);
+        }
+        case '.nbm': {
+            const map = safeParse(raw);
+            return joinText((map?.nodes || []).flatMap((n: any) => [n?.label, n?.description]));
+        }
+        case '.deck': {
+            const deck = safeParse(raw);
+            return joinText([
+                deck?.name,
+                deck?.description,
+                ...(deck?.cards || []).flatMap((c: any) => [c?.front, c?.back, c?.hint]),
+            ]);
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Document for a workspace file, titled by its name without extension. Inline
+ * #tags are read from `tagText` when given (the text without code cells).
+ */
+export function createFileDocument(filePath: string, text: string, updatedAt?: number, tagText: string = text): SearchDocument {
+    const fileName = filePath.split(/[\\/]/).pop() || filePath;
+    const dot = fileName.lastIndexOf('.');
+    return {
+        id: filePath,
+        kind: 'file',
+        title: dot > 0 ? fileName.slice(0, dot) : fileName,
+        body: text,
+        filePath,
+        extension: dot > 0 ? fileName.slice(dot).toLowerCase() : '',
+        updatedAt,
+        tags: extractInlineTags(tagText),
+    };
+}
+
+/**
+ * One document per stored event. Recurring series are stored once, so they
+ * are indexed once; text from edited occurrences is added to the body.
+ */
+export function createEventDocuments(notes: NotesData): SearchDocument[] {
+    const documents: SearchDocument[] = [];
+    for (const [dateKey, dayNotes] of Object.entries(notes || {})) {
+        if (!Array.isArray(dayNotes)) continue;
+        for (const note of dayNotes as Note[]) {
+            if (!note?.id) continue;
+            const overrides = Object.values(note.occurrenceExceptions || {}).map(e => e.overrides);
+            documents.push({
+                id: `event:${dateKey}:${note.id}`,
+                kind: 'event',
+                title: note.title || '',
+                body: joinText([
+                    note.description,
+                    note.summary,
+                    ...overrides.flatMap(o => [o?.title, o?.description]),
+                ]),
+                dateKey,
+                noteId: note.id,
+                completed: note.completed,
+            });
+        }
+    }
+    return documents;
+}
+
+export function createTaskDocuments(tasks: Task[]): SearchDocument[] {
+    return (tasks || []).filter(t => t?.id).map(task => ({
+        id: `task:${task.id}`,
+        kind: 'task' as const,
+        title: task.title || '',
+        body: joinText([task.description, ...(task.tags || []).map(tag => `#${tag}`)]),
+        taskId: task.id,
+        completed: task.completed,
+        updatedAt: Date.parse(task.completedAt || task.createdAt) || undefined,
+        tags: mergeTags(task.tags),
+    }));
+}
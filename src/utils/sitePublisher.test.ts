@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import type { WorkspaceFile, WorkspaceFolder } from '../types/workspace';
+import { localFilePathFromUrl, markdownToHtml, planSite, renderNavTree, renderSitePage } from './sitePublisher';
+
+const stamp = '2024-01-01T00:00:00.000Z';
+const folder = (id: string, name: string, parentId: string | null = null): WorkspaceFolder =>
+    ({ id, name, parentId, createdAt: stamp, updatedAt: stamp });
+const file = (id: string, name: string, type: WorkspaceFile['type'], filePath: string, parentId: string | null = null): WorkspaceFile =>
+    ({ id, name, type, parentId, createdAt: stamp, updatedAt: stamp, contentId: id, filePath });
+
+/**
+ * Site publisher
+ *
+ * Planning a published folder and rendering its pages as HTML.
+ */
+describe('sitePublisher', () => {
+    it('publishes only the chosen folder, with pages as .html', () => {
+        const entries = planSite([
+            file('a', 'Overview', 'note', '/ws/Overview.nt', 'team'),
+            file('b', 'Guide', 'md', '/docs/Guide.md', 'sub'),
+            file('c', 'Spec', 'pdf', '/docs/Spec.pdf', 'sub'),
+            file('d', 'Private', 'note', '/ws/Private.nt'),
+        ], [folder('team', 'Team'), folder('sub', 'Specs', 'team')], 'team');
+
+        expect(entries.map(entry => [entry.exportPath, entry.convert])).toEqual([
+            ['notes/Overview.html', true],
+            ['notes/Specs/Guide.html', true],
+            ['notes/Specs/Spec.pdf', false],
+        ]);
+    });
+
+    it('renders headings, lists, tables and highlighted code', () => {
+        const html = markdownToHtml([
+            '## Next steps',
+            '- [x] Ship **it**',
+            '- See [Guide](Specs/Guide.html)',
+            '  1. nested',
+            '',
+            '| Name | Count |',
+            '| --- | ---: |',
+            '| a_b | 2 |',
+            '',
+            '```python',
+            'print(1 < 2)',
+            '```',
+            '',
+            '<!-- table-theme: {} -->',
+            'Line with <b>tags</b> and `a*b*c`',
+            'and a second line',
+        ].join('\n'), { pagePath: 'notes/Overview.html' });
+
+        expect(html).toContain('<h2 id="next-steps">Next steps</h2>');
+        expect(html).toContain('<li class="task"><input type="checkbox" disabled checked> Ship <strong>it</strong></li>');
+        expect(html).toContain('<a href="Specs/Guide.html">Guide</a>\n<ol>\n<li>nested</li>\n</ol></li>');
+        expect(html).toContain('<td>a_b</td><td style="text-align: right">2</td>');
+        expect(html).toContain('<pre class="language-python"><code><span class="token keyword">print</span>');
+        expect(html).toContain('<p>Line with &lt;b&gt;tags&lt;/b&gt; and <code>a*b*c</code><br>\nand a second line</p>');
+        expect(html).not.toContain('table-theme');
+    });
+
+    it('points local images at their copies and links pages relative to each other', () => {
+        const html = markdownToHtml('![Chart](file:///C:/ws/assets/chart%201.png =300x)', {
+            pagePath: 'notes/Specs/Guide.html',
+            resolveImage: src => localFilePathFromUrl(src) === 'C:/ws/assets/chart 1.png' ? 'assets/chart 1.png' : null,
+        });
+        expect(html).toBe('<p><img src="../../assets/chart%201.png" alt="Chart" style="width: 300px" loading="lazy"></p>');
+
+        // Only web, mailto, relative and anchor links, and data: images, become elements
+        const unsafe = markdownToHtml('[a](javascript:alert(1)) [b](java\tscript:x) ![c](file:///etc/passwd) [d](#top) [e](mailto:me@example.com) ![f](data:image/png;base64,AA==)', {
+            pagePath: 'notes/Guide.html',
+        });
+        expect(unsafe).not.toContain('href="java');
+        expect(unsafe).not.toContain('src="file:');
+        expect(unsafe).toContain('[a](javascript:alert(1))');
+        expect(unsafe).toContain('![c](file:///etc/passwd)');
+        expect(unsafe).toContain('<a href="#top">d</a> <a href="mailto:me@example.com">e</a> <img src="data:image/png;base64,AA==" alt="f" loading="lazy">');
+
+        const pages = [{ title: 'Overview', path: 'notes/Overview.html' }, { title: 'Guide', path: 'notes/Specs/Guide.html' }];
+        expect(renderNavTree(pages, 'notes/Specs/Guide.html')).toBe(
+            '<ul><li class="folder"><details open><summary>Specs</summary><ul><li><a href="Guide.html" class="current">Guide</a></li></ul></details></li>'
+            + '<li><a href="../Overview.html">Overview</a></li></ul>'
+        );
+
+        const page = renderSitePage({
+            siteName: 'Team', title: 'Guide', pagePath: 'notes/Specs/Guide.html', bodyHtml: '<p>Hi</p>', navHtml: '', backlinks: [pages[0]],
+        });
+        expect(page).toContain('<link rel="stylesheet" href="../../site.css">');
+        expect(page).toContain('<h1>Guide</h1>\n<p>Hi</p>');
+        expect(page).toContain('<li><a href="../Overview.html">Overview</a></li>');
+    });
+});
@@ -0,0 +1,507 @@
+/**
+ * Site Publisher
+ * Renders a workspace folder as a static website that opens in any browser,
+ * without ThoughtsPlus: an index page, one page per file with a navigation
+ * tree, @mentions as links between pages, backlinks, Prism-highlighted code,
+ * tables and board snapshots. Pages are built from the markdown export (see
+ * markdownExport), so a file reads the same in both. The main process reads
+ * and writes the files; this module plans paths and renders HTML.
+ */
+
+import Prism from 'prismjs';
+import 'prismjs/components/prism-typescript';
+import 'prismjs/components/prism-python';
+import 'prismjs/components/prism-jsx';
+import 'prismjs/components/prism-tsx';
+import 'prismjs/components/prism-json';
+import 'prismjs/components/prism-markdown';
+import 'prismjs/components/prism-bash';
+import 'prismjs/components/prism-sql';
+import type { WorkspaceFile, WorkspaceFolder } from '../types/workspace';
+import {
+    MARKDOWN_EXPORT_EXTENSIONS,
+    MarkdownExportContext,
+    MarkdownExportEntry,
+    mentionsToLinks,
+    planMarkdownExport,
+    relativeExportLink,
+    workspaceFileToMarkdown,
+} from './markdownExport';
+import { slugifyHeading } from './blockRefs';
+
+// Files that get a page; everything else is copied and linked as it is
+export const SITE_PAGE_EXTENSIONS = [...MARKDOWN_EXPORT_EXTENSIONS, '.md', '.markdown'];
+
+// Pages and files go under notes/, next to index.html, site.css and assets/
+const SITE_NOTES_DIR = 'notes';
+
+export interface SitePage {
+    title: string;
+    path: string;           // Site path, with / separators
+}
+
+export interface SiteRenderOptions {
+    pagePath: string;                               // Site path of the page being rendered
+    resolveImage?: (src: string) => string | null;  // Site path of a local image's copy, or null to keep the URL
+}
+
+const PRISM_LANGUAGES: Record<string, string> = {
+    javascript: 'javascript',
+    js: 'javascript',
+    typescript: 'typescript',
+    ts: 'typescript',
+    python: 'python',
+    py: 'python',
+    jsx: 'jsx',
+    tsx: 'tsx',
+    css: 'css',
+    json: 'json',
+    markdown: 'markdown',
+    md: 'markdown',
+    bash: 'bash',
+    sh: 'bash',
+    shell: 'bash',
+    sql: 'sql',
+    html: 'markup',
+    xml: 'markup',
+};
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const getExtension = (filePath: string): string => {
+    const name = filePath.split(/[\\/]/).pop() || '';
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? name.slice(dot).toLowerCase() : '';
+};
+
+// ============================================================================
+// PATHS
+// ============================================================================
+
+/**
+ * Site paths of the files in a folder and its subfolders (the whole
+ * workspace for null), laid out like the markdown export under notes/.
+ */
+export function planSite(files: WorkspaceFile[], folders: WorkspaceFolder[], rootFolderId: string | null): MarkdownExportEntry[] {
+    const inside = new Set<string>();
+    const collect = (folderId: string) => {
+        inside.add(folderId);
+        folders.filter(f => f.parentId === folderId && !inside.has(f.id)).forEach(f => collect(f.id));
+    };
+    if (rootFolderId) collect(rootFolderId);
+
+    const inSite = (parentId: string | null) => !rootFolderId || (parentId !== null && inside.has(parentId));
+    const rebase = (parentId: string | null) => (parentId === rootFolderId ? null : parentId);
+    const siteFolders = folders
+        .filter(f => f.id !== rootFolderId && inSite(f.parentId))
+        .map(f => ({ ...f, parentId: rebase(f.parentId) }));
+    const siteFiles = files
+        .filter(f => inSite(f.parentId))
+        .map(f => ({ ...f, parentId: rebase(f.parentId) }));
+
+    return planMarkdownExport(siteFiles, siteFolders).map(entry => {
+        const isPage = SITE_PAGE_EXTENSIONS.includes(getExtension(entry.sourcePath));
+        const exportPath = isPage ? entry.exportPath.replace(/\.(md|markdown)$/i, '.html') : entry.exportPath;
+        return {
+            ...entry,
+            exportPath: `${SITE_NOTES_DIR}/${exportPath}`,
+            ...(entry.snapshotPath && { snapshotPath: `${SITE_NOTES_DIR}/${entry.snapshotPath}` }),
+            convert: isPage,
+        };
+    });
+}
+
+/** Path on disk of a file:// URL or absolute path, or null for web and relative URLs. */
+export function localFilePathFromUrl(src: string): string | null {
+    let url = src.trim();
+    try {
+        url = decodeURI(url);
+    } catch {
+        // Not URL-encoded after all
+    }
+    if (/^file:\/\//i.test(url)) {
+        const filePath = url.replace(/^file:\/\//i, '');
+        // file:///C:/... on Windows
+        return /^\/[a-z]:/i.test(filePath) ? filePath.slice(1) : filePath;
+    }
+    if (url.startsWith('/') || /^[a-z]:[\\/]/i.test(url)) return url;
+    return null;
+}
+
+// ============================================================================
+// MARKDOWN → HTML
+// ============================================================================
+
+/** Markdown for a page, with @mentions as links to other pages. */
+export function sitePageMarkdown(ext: string, raw: string, title: string, context: MarkdownExportContext): string | null {
+    if (ext === '.md' || ext === '.markdown') return mentionsToLinks(raw, context);
+    return workspaceFileToMarkdown(ext, raw, title, context);
+}
+
+/** Code highlighted by Prism as HTML, or escaped if the language isn't known. */
+export function highlightCode(code: string, language: string): string {
+    const lang = PRISM_LANGUAGES[language.toLowerCase()];
+    const grammar = lang ? Prism.languages[lang] : undefined;
+    if (!grammar) return escapeHtml(code);
+    try {
+        return Prism.highlight(code, grammar, lang);
+    } catch {
+        return escapeHtml(code);
+    }
+}
+
+const IMAGE_REGEX = /!\[([^\]]*)\]\(([^)]+?)(?:\s+=(\d*)x?(\d*))?(?:\s+crop)?\s*\)/g;
+const LINK_REGEX = /\[([^\]]+)\]\(([^)\s]+)\)/g;
+const URL_REGEX = /https?:\/\/[^\s<>()\u0000]*[^\s<>()\u0000.,;:!?'"]/g;
+
+/**
+ * Whether a page may point a link or image at `url`: web, mailto and relative
+ * URLs, #anchors, and data: images for images. Anything else (javascript:,
+ * file: and other schemes) is shown as text. Browsers ignore tabs, newlines
+ * and leading control characters in URLs, so those don't count.
+ */
+export function isSafeSiteUrl(url: string, isImage = false): boolean {
+    const cleaned = url.replace(/[\u0000-\u0020\u007f]/g, '');
+    const scheme = cleaned.match(/^([a-z][a-z0-9+.-]*):/i)?.[1].toLowerCase();
+    if (!scheme) return true;
+    if (scheme === 'http' || scheme === 'https') return true;
+    return isImage ? /^data:image\//i.test(cleaned) : scheme === 'mailto';
+}
+
+const formatEmphasis = (html: string): string => html
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/__(?=\S)([\s\S]*?\S)__/g, '<strong>$1</strong>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+    .replace(/\*(?=\S)([^*]*?\S)\*/g, '<em>$1</em>')
+    .replace(/(^|\W)_(?=\S)([^_]*?\S)_(?!\w)/g, '$1<em>$2</em>');
+
+// Code spans, images and links are set aside first so emphasis can't reach into them
+function renderInline(text: string, options: SiteRenderOptions): string {
+    const kept: string[] = [];
+    const keep = (html: string) => `\u0000${kept.push(html) - 1}\u0000`;
+
+    const html = text
+        .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, _ticks, code) => keep(`<code>${escapeHtml(code.trim())}</code>`))
+        .replace(IMAGE_REGEX, (match, alt, src, width, height) => {
+            const sitePath = options.resolveImage?.(src.trim());
+            const url = sitePath ? relativeExportLink(options.pagePath, sitePath) : src.trim();
+            if (!isSafeSiteUrl(url, true)) return match;
+            const style = [width && `width: ${width}px`, height && `height: ${height}px`].filter(Boolean).join('; ');
+            return keep(`<img src="${escapeHtml(url)}" alt="${escapeHtml(alt)}"${style ? ` style="${style}"` : ''} loading="lazy">`);
+        })
+        .replace(LINK_REGEX, (match, label, href) => isSafeSiteUrl(href)
+            ? keep(`<a href="${escapeHtml(href)}">${formatEmphasis(escapeHtml(label))}</a>`)
+            : match)
+        .replace(URL_REGEX, url => keep(`<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`));
+
+    return formatEmphasis(escapeHtml(html)).replace(/\u0000(\d+)\u0000/g, (_, index) => kept[Number(index)]);
+}
+
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_SEPARATOR_REGEX = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const HEADING_REGEX = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_REGEX = /^\s*([-*_])(\s*\1){2,}\s*$/;
+
+const indentOf = (line: string): number => line.replace(/\t/g, '    ').match(/^ */)![0].length;
+
+const splitTableRow = (row: string): string[] =>
+    row.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const isTableStart = (lines: string[], index: number): boolean =>
+    lines[index].includes('|') && index + 1 < lines.length && lines[index + 1].includes('-') && TABLE_SEPARATOR_REGEX.test(lines[index + 1]);
+
+const startsBlock = (lines: string[], index: number): boolean => {
+    const line = lines[index];
+    return /^\s*(`{3,}|~{3,})/.test(line) || HEADING_REGEX.test(line) || RULE_REGEX.test(line)
+        || /^\s*>/.test(line) || LIST_ITEM_REGEX.test(line) || isTableStart(lines, index);
+};
+
+function renderTable(lines: string[], options: SiteRenderOptions): string {
+    const alignments = splitTableRow(lines[1]).map(cell =>
+        cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : '');
+    const cells = (row: string, tag: 'th' | 'td') => splitTableRow(row).map((cell, index) => {
+        const align = alignments[index] ? ` style="text-align: ${alignments[index]}"` : '';
+        return `<${tag}${align}>${renderInline(cell, options)}</${tag}>`;
+    }).join('');
+    const body = lines.slice(2).map(row => `<tr>${cells(row, 'td')}</tr>`).join('\n');
+    return `<div class="table"><table>\n<thead><tr>${cells(lines[0], 'th')}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table></div>`;
+}
+
+// A list and its nested content; items are the lines at the first item's indent
+function renderList(lines: string[], options: SiteRenderOptions): string {
+    const first = lines[0].match(LIST_ITEM_REGEX)!;
+    const baseIndent = indentOf(first[1]);
+    const ordered = /\d/.test(first[2]);
+
+    const items: { text: string; children: string[] }[] = [];
+    let contentIndent = 0;
+    for (const line of lines) {
+        const item = line.match(LIST_ITEM_REGEX);
+        if (item && indentOf(item[1]) <= baseIndent + 1) {
+            items.push({ text: item[3], children: [] });
+            contentIndent = indentOf(item[1]) + item[2].length + 1;
+        } else {
+            const dedented = line.replace(/\t/g, '    ');
+            items[items.length - 1].children.push(dedented.slice(Math.min(indentOf(dedented), contentIndent)));
+        }
+    }
+
+    const tag = ordered ? 'ol' : 'ul';
+    const start = ordered && parseInt(first[2], 10) !== 1 ? ` start="${parseInt(first[2], 10)}"` : '';
+    const rendered = items.map(({ text, children }) => {
+        const task = text.match(/^\[([ xX])\]\s+(.*)$/);
+        const content = task
+            ? `<input type="checkbox" disabled${task[1] === ' ' ? '' : ' checked'}> ${renderInline(task[2], options)}`
+            : renderInline(text, options);
+        const nested = children.some(line => line.trim()) ? `\n${renderBlocks(children, options)}` : '';
+        return `<li${task ? ' class="task"' : ''}>${content}${nested}</li>`;
+    });
+    return `<${tag}${start}>\n${rendered.join('\n')}\n</${tag}>`;
+}
+
+function renderBlocks(lines: string[], options: SiteRenderOptions): string {
+    const blocks: string[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+        // Blank lines and comments (like table themes) render nothing
+        if (!line.trim() || /^\s*<!--.*-->\s*$/.test(line)) {
+            i++;
+            continue;
+        }
+
+        const fence = line.match(/^\s*(`{3,}|~{3,})\s*([^\s`]*)/);
+        if (fence) {
+            const [, marker, info] = fence;
+            const isClosing = (candidate: string) => {
+                const trimmed = candidate.trim();
+                return trimmed.length >= marker.length && trimmed === marker[0].repeat(trimmed.length);
+            };
+            const code: string[] = [];
+            for (i++; i < lines.length && !isClosing(lines[i]); i++) code.push(lines[i]);
+            i++;
+            const language = info.toLowerCase();
+            blocks.push(language === 'output'
+                ? `<pre class="output"><code>${escapeHtml(code.join('\n'))}</code></pre>`
+                : `<pre class="language-${escapeHtml(language || 'none')}"><code>${highlightCode(code.join('\n'), language)}</code></pre>`);
+            continue;
+        }
+
+        const heading = line.match(HEADING_REGEX);
+        if (heading) {
+            const level = heading[1].length;
+            blocks.push(`<h${level} id="${escapeHtml(slugifyHeading(heading[2]))}">${renderInline(heading[2], options)}</h${level}>`);
+            i++;
+            continue;
+        }
+
+        if (RULE_REGEX.test(line)) {
+            blocks.push('<hr>');
+            i++;
+            continue;
+        }
+
+        if (isTableStart(lines, i)) {
+            const start = i;
+            for (i += 2; i < lines.length && lines[i].trim() && lines[i].includes('|'); i++);
+            blocks.push(renderTable(lines.slice(start, i), options));
+            continue;
+        }
+
+        if (/^\s*>/.test(line)) {
+            const quoted: string[] = [];
+            for (; i < lines.length && /^\s*>/.test(lines[i]); i++) quoted.push(lines[i].replace(/^\s*> ?/, ''));
+            blocks.push(`<blockquote>\n${renderBlocks(quoted, options)}\n</blockquote>`);
+            continue;
+        }
+
+        if (LIST_ITEM_REGEX.test(line)) {
+            const baseIndent = indentOf(line);
+            const start = i;
+            for (i++; i < lines.length; i++) {
+                if (lines[i].trim()) {
+                    if (LIST_ITEM_REGEX.test(lines[i]) || indentOf(lines[i]) > baseIndent) continue;
+                    break;
+                }
+                // A blank line carries on the list only if it's followed by more of it
+                let next = i + 1;
+                while (next < lines.length && !lines[next].trim()) next++;
+                if (next < lines.length && (LIST_ITEM_REGEX.test(lines[next]) || indentOf(lines[next]) > baseIndent)) {
+                    i = next - 1;
+                    continue;
+                }
+                break;
+            }
+            blocks.push(renderList(lines.slice(start, i), options));
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        for (; i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines, i)); i++) {
+            paragraph.push(renderInline(lines[i].trim(), options));
+        }
+        blocks.push(`<p>${paragraph.join('<br>\n')}</p>`);
+    }
+    return blocks.join('\n');
+}
+
+/** Markdown as HTML: headings with anchors, lists and tasks, tables, quotes and highlighted code. */
+export function markdownToHtml(markdown: string, options: SiteRenderOptions): string {
+    return renderBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'), options);
+}
+
+// ============================================================================
+// PAGES
+// ============================================================================
+
+interface NavFolder {
+    folders: Map<string, NavFolder>;
+    pages: SitePage[];
+}
+
+/** Navigation tree of the site's pages, linked from `currentPath` (the index for null). */
+export function renderNavTree(pages: SitePage[], currentPath: string | null): string {
+    const root: NavFolder = { folders: new Map(), pages: [] };
+    for (const page of pages) {
+        const folderNames = page.path.split('/').slice(1, -1);
+        let folder = root;
+        for (const name of folderNames) {
+            if (!folder.folders.has(name)) folder.folders.set(name, { folders: new Map(), pages: [] });
+            folder = folder.folders.get(name)!;
+        }
+        folder.pages.push(page);
+    }
+
+    const from = currentPath ?? 'index.html';
+    const render = (folder: NavFolder, folderPath: string): string => {
+        const folderItems = [...folder.folders.entries()]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([name, child]) => {
+                const childPath = `${folderPath}/${name}`;
+                const open = currentPath === null || currentPath.startsWith(`${childPath}/`);
+                return `<li class="folder"><details${open ? ' open' : ''}><summary>${escapeHtml(name)}</summary>${render(child, childPath)}</details></li>`;
+            });
+        const pageItems = [...folder.pages]
+            .sort((a, b) => a.title.localeCompare(b.title))
+            .map(page => {
+                const current = page.path === currentPath ? ' class="current"' : '';
+                return `<li><a href="${relativeExportLink(from, page.path)}"${current}>${escapeHtml(page.title)}</a></li>`;
+            });
+        return `<ul>${[...folderItems, ...pageItems].join('')}</ul>`;
+    };
+    return render(root, SITE_NOTES_DIR);
+}
+
+/** A complete HTML page with the site navigation beside it and its backlinks below. */
+export function renderSitePage({ siteName, title, pagePath, bodyHtml, navHtml, backlinks = [] }: {
+    siteName: string;
+    title: string;
+    pagePath: string;
+    bodyHtml: string;
+    navHtml: string;
+    backlinks?: SitePage[];
+}): string {
+    const root = relativeExportLink(pagePath, 'index.html').replace(/index\.html$/, '');
+    const heading = bodyHtml.startsWith('<h1') ? '' : `<h1>${escapeHtml(title)}</h1>\n`;
+    const backlinksHtml = backlinks.length > 0
+        ? `<section class="backlinks">\n<h2>Linked from</h2>\n<ul>${[...backlinks]
+            .sort((a, b) => a.title.localeCompare(b.title))
+            .map(page => `<li><a href="${relativeExportLink(pagePath, page.path)}">${escapeHtml(page.title)}</a></li>`)
+            .join('')}</ul>\n</section>\n`
+        : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title === siteName ? siteName : `${title} · ${siteName}`)}</title>
+<link rel="stylesheet" href="${root}site.css">
+</head>
+<body>
+<nav class="sidebar">
+<a class="site-name" href="${root}index.html">${escapeHtml(siteName)}</a>
+${navHtml}
+</nav>
+<main>
+<article>
+${heading}${bodyHtml}
+</article>
+${backlinksHtml}</main>
+</body>
+</html>
+`;
+}
+
+/** The site's front page, listing every page. */
+export function renderSiteIndex(siteName: string, pages: SitePage[], publishedOn: string): string {
+    const count = `${pages.length} ${pages.length === 1 ? 'page' : 'pages'}`;
+    return renderSitePage({
+        siteName,
+        title: siteName,
+        pagePath: 'index.html',
+        bodyHtml: `<p class="meta">${count} · Published ${escapeHtml(publishedOn)}</p>\n<div class="contents">${renderNavTree(pages, null)}</div>`,
+        navHtml: renderNavTree(pages, 'index.html'),
+    });
+}
+
+// Layout, typography and Prism token colours (after its Tomorrow theme)
+export const SITE_STYLESHEET = `:root {
+    --text: #1f2937; --muted: #6b7280; --background: #ffffff; --sidebar: #f9fafb;
+    --border: #e5e7eb; --accent: #2563eb; --code: #f3f4f6;
+}
+@media (prefers-color-scheme: dark) {
+    :root {
+        --text: #e5e7eb; --muted: #9ca3af; --background: #111827; --sidebar: #1f2937;
+        --border: #374151; --accent: #60a5fa; --code: #1f2937;
+    }
+}
+* { box-sizing: border-box; }
+body { margin: 0; display: flex; min-height: 100vh; color: var(--text); background: var(--background);
+    font: 16px/1.6 system-ui, -apple-system, "Segoe UI", sans-serif; }
+a { color: var(--accent); text-decoration: none; }
+a:hover { text-decoration: underline; }
+.sidebar { width: 280px; flex-shrink: 0; padding: 24px 16px; background: var(--sidebar); border-right: 1px solid var(--border);
+    position: sticky; top: 0; height: 100vh; overflow-y: auto; font-size: 14px; }
+.sidebar .site-name { display: block; font-weight: 700; font-size: 16px; color: var(--text); margin-bottom: 16px; }
+.sidebar ul, .contents ul { list-style: none; margin: 0; padding-left: 14px; }
+.sidebar > ul, .contents > ul { padding-left: 0; }
+.sidebar li, .contents li { margin: 2px 0; }
+.sidebar summary, .contents summary { cursor: pointer; color: var(--muted); font-weight: 600; }
+.sidebar a.current { font-weight: 700; color: var(--text); }
+main { flex: 1; min-width: 0; padding: 40px 56px; max-width: 920px; }
+h1, h2, h3, h4, h5, h6 { line-height: 1.25; margin: 1.6em 0 0.6em; }
+article > h1:first-child { margin-top: 0; }
+.meta { color: var(--muted); }
+img { max-width: 100%; border-radius: 8px; }
+hr { border: 0; border-top: 1px solid var(--border); margin: 2em 0; }
+blockquote { margin: 1em 0; padding: 0 1em; border-left: 4px solid var(--border); color: var(--muted); }
+li.task { list-style: none; margin-left: -1.3em; }
+code { font-family: ui-monospace, "Cascadia Code", Consolas, monospace; font-size: 0.9em; background: var(--code);
+    padding: 0.1em 0.35em; border-radius: 4px; }
+pre { padding: 14px 16px; border-radius: 8px; overflow-x: auto; background: #2d2d2d; color: #ccc; line-height: 1.45; }
+pre code { background: none; padding: 0; font-size: 13px; }
+pre.output { background: var(--code); color: var(--text); border-left: 4px solid var(--border); }
+.table { overflow-x: auto; margin: 1em 0; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid var(--border); padding: 6px 12px; }
+th { background: var(--sidebar); }
+.backlinks { margin-top: 3em; padding-top: 1em; border-top: 1px solid var(--border); font-size: 14px; }
+.backlinks h2 { margin-top: 0; font-size: 14px; text-transform: uppercase; letter-spacing: 0.05em; color: var(--muted); }
+.token.comment, .token.prolog, .token.doctype, .token.cdata { color: #999; }
+.token.punctuation { color: #ccc; }
+.token.tag, .token.attr-name, .token.namespace, .token.deleted { color: #e2777a; }
+.token.function-name { color: #6196cc; }
+.token.boolean, .token.number, .token.function { color: #f08d49; }
+.token.property, .token.class-name, .token.constant, .token.symbol { color: #f8c555; }
+.token.selector, .token.important, .token.atrule, .token.keyword, .token.builtin { color: #cc99cd; }
+.token.string, .token.char, .token.attr-value, .token.regex, .token.variable { color: #7ec699; }
+.token.operator, .token.entity, .token.url { color: #67cdcc; }
+.token.inserted { color: green; }
+@media (max-width: 760px) {
+    body { display: block; }
+    .sidebar { position: static; width: auto; height: auto; border-right: 0; border-bottom: 1px solid var(--border); }
+    main { padding: 24px 20px; }
+}
+`;
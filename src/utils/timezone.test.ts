@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { getNoteInstant, toViewerDateTime, isValidTimeZone, getLocalTimeZone, zonedWallTimeToDate } from './timezone';
+
+/**
+ * Time zone helpers
+ *
+ * Zoned events resolve to absolute instants; floating events stay on the
+ * viewer's wall clock.
+ */
+describe('timezone', () => {
+    it('resolves zoned wall times across DST changes', () => {
+        expect(getNoteInstant('2025-03-10', { time: '09:00', timeZone: 'America/New_York' }).toISOString())
+            .toBe('2025-03-10T13:00:00.000Z');
+        expect(getNoteInstant('2025-01-10', { time: '09:00', timeZone: 'America/New_York' }).toISOString())
+            .toBe('2025-01-10T14:00:00.000Z');
+        expect(zonedWallTimeToDate(2025, 7, 1, 0, 30, 0, 'Asia/Tokyo')?.toISOString()).toBe('2025-06-30T15:30:00.000Z');
+    });
+
+    it('keeps floating and same-zone events on the wall clock', () => {
+        expect(getNoteInstant('2025-03-10', { time: '09:00' })).toEqual(new Date(2025, 2, 10, 9, 0));
+        expect(toViewerDateTime('2025-03-10', { time: '09:00', timeZone: getLocalTimeZone() }))
+            .toEqual({ dateKey: '2025-03-10', time: '09:00', dayOffset: 0 });
+    });
+
+    it('converts foreign-zone events to the viewer and reports day shifts', () => {
+        const viewer = toViewerDateTime('2025-03-10', { time: '23:30', timeZone: 'Pacific/Kiritimati' });
+        const instant = new Date('2025-03-10T09:30:00.000Z');
+        expect(viewer.time).toBe(`${String(instant.getHours()).padStart(2, '0')}:${String(instant.getMinutes()).padStart(2, '0')}`);
+        expect(viewer.dayOffset).toBe(instant.getDate() - 10);
+    });
+
+    it('validates zone names', () => {
+        expect(isValidTimeZone('Europe/London')).toBe(true);
+        expect(isValidTimeZone('W. Europe Standard Time')).toBe(false);
+    });
+});
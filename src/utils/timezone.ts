@@ -0,0 +1,154 @@
+/**
+ * Time Zone Utilities
+ * Events may carry an IANA time zone (`Note.timeZone`). Their date key and
+ * `time` are then wall-clock values in that zone and are converted to the
+ * viewer's zone for display and reminders. Events without a zone float: they
+ * happen at their wall-clock time wherever the viewer currently is.
+ */
+
+import { Note } from '../types';
+
+// Used when the runtime can't enumerate its zones (Intl.supportedValuesOf is ES2022)
+const FALLBACK_TIME_ZONES = [
+    'UTC',
+    'Europe/London', 'Europe/Dublin', 'Europe/Lisbon', 'Europe/Paris', 'Europe/Berlin', 'Europe/Madrid',
+    'Europe/Rome', 'Europe/Amsterdam', 'Europe/Stockholm', 'Europe/Athens', 'Europe/Istanbul', 'Europe/Moscow',
+    'Africa/Cairo', 'Africa/Johannesburg', 'Africa/Lagos', 'Africa/Nairobi',
+    'Asia/Dubai', 'Asia/Karachi', 'Asia/Kolkata', 'Asia/Dhaka', 'Asia/Bangkok', 'Asia/Singapore',
+    'Asia/Hong_Kong', 'Asia/Shanghai', 'Asia/Seoul', 'Asia/Tokyo',
+    'Australia/Perth', 'Australia/Adelaide', 'Australia/Sydney', 'Pacific/Auckland',
+    'America/St_Johns', 'America/Halifax', 'America/New_York', 'America/Chicago', 'America/Denver',
+    'America/Phoenix', 'America/Los_Angeles', 'America/Anchorage', 'Pacific/Honolulu',
+    'America/Mexico_City', 'America/Bogota', 'America/Lima', 'America/Santiago', 'America/Sao_Paulo',
+    'America/Argentina/Buenos_Aires',
+];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// ============================================================================
+// ZONES
+// ============================================================================
+
+/** The viewer's current IANA zone (e.g. "Europe/London"). */
+export function getLocalTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/** Whether the runtime recognises an IANA zone name. */
+export function isValidTimeZone(timeZone: string): boolean {
+    if (!timeZone) return false;
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** All zones the runtime knows, for pickers. */
+export function getTimeZoneOptions(): string[] {
+    const supportedValuesOf = (Intl as any).supportedValuesOf as ((key: string) => string[]) | undefined;
+    const zones = supportedValuesOf ? supportedValuesOf('timeZone') : FALLBACK_TIME_ZONES;
+    const local = getLocalTimeZone();
+    return zones.includes(local) ? zones : [local, ...zones];
+}
+
+/**
+ * Offset label for a zone at a given instant, e.g. "GMT+9" or "GMT-4".
+ */
+export function formatTimeZoneOffset(timeZone: string, at: Date = new Date()): string {
+    try {
+        const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'shortOffset' } as Intl.DateTimeFormatOptions).formatToParts(at);
+        return parts.find(p => p.type === 'timeZoneName')?.value || timeZone;
+    } catch {
+        return timeZone;
+    }
+}
+
+/** "Asia/Tokyo" → "Tokyo" */
+export function formatTimeZoneCity(timeZone: string): string {
+    return timeZone.split('/').pop()!.replace(/_/g, ' ');
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/**
+ * Offset of a zone from UTC at an instant, in milliseconds (null for unknown zones).
+ */
+function getZoneOffset(utcMs: number, timeZone: string): number | null {
+    try {
+        const parts = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric', month: '2-digit', day: '2-digit',
+            hour: '2-digit', minute: '2-digit', second: '2-digit',
+        }).formatToParts(new Date(utcMs));
+        const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+        const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+        return asUtc - Math.floor(utcMs / 1000) * 1000;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Convert a wall-clock time in an IANA zone to an absolute instant.
+ * Returns null for zones the runtime doesn't know (e.g. Outlook's Windows names).
+ */
+export function zonedWallTimeToDate(
+    year: number, month: number, day: number,
+    hour: number, minute: number, second: number,
+    timeZone: string
+): Date | null {
+    const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+    const firstOffset = getZoneOffset(wall, timeZone);
+    if (firstOffset === null) return null;
+
+    // Re-check the offset at the candidate instant to handle DST transitions
+    let utc = wall - firstOffset;
+    const secondOffset = getZoneOffset(utc, timeZone);
+    if (secondOffset !== null && secondOffset !== firstOffset) {
+        utc = wall - secondOffset;
+    }
+    return new Date(utc);
+}
+
+/**
+ * The instant an event starts: its wall time in its own zone, or in the
+ * viewer's zone for floating events.
+ */
+export function getNoteInstant(dateKey: string, note: Pick<Note, 'time' | 'timeZone'>): Date {
+    const [y, mo, d] = dateKey.split('-').map(Number);
+    const [h, m] = (note.time || '00:00').split(':').map(Number);
+    if (note.timeZone) {
+        const zoned = zonedWallTimeToDate(y, mo, d, h || 0, m || 0, 0, note.timeZone);
+        if (zoned) return zoned;
+    }
+    return new Date(y, mo - 1, d, h || 0, m || 0);
+}
+
+/** Whether an event is pinned to a zone other than the viewer's. */
+export function isForeignTimeZone(note: Pick<Note, 'timeZone'>): boolean {
+    return !!note.timeZone && note.timeZone !== getLocalTimeZone();
+}
+
+/**
+ * An event's date and time as seen by the viewer. `dayOffset` is -1/+1 when
+ * the conversion crosses midnight.
+ */
+export function toViewerDateTime(dateKey: string, note: Pick<Note, 'time' | 'timeZone'>): { dateKey: string; time: string; dayOffset: number } {
+    if (!isForeignTimeZone(note)) return { dateKey, time: note.time, dayOffset: 0 };
+
+    const instant = getNoteInstant(dateKey, note);
+    const localKey = `${instant.getFullYear()}-${pad(instant.getMonth() + 1)}-${pad(instant.getDate())}`;
+    const [y, mo, d] = dateKey.split('-').map(Number);
+    const dayOffset = Math.round((new Date(instant.getFullYear(), instant.getMonth(), instant.getDate()).getTime() - new Date(y, mo - 1, d).getTime()) / 86400000);
+
+    return {
+        dateKey: localKey,
+        time: `${pad(instant.getHours())}:${pad(instant.getMinutes())}`,
+        dayOffset,
+    };
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { convertVaultNote, extractFrontmatterTags, resolveVaultPath } from './vaultImport';
+
+const notePaths = ['Index.md', 'Projects/Alpha.md', 'Archive/Alpha.md', 'Daily/2024-01-05.md', 'Specs/v1.2.md'];
+const attachmentPaths = ['attachments/diagram.png', 'Projects/photo 1.jpg', 'paper.pdf'];
+
+/**
+ * Vault import
+ *
+ * Resolving links the way Obsidian does and rewriting them as mentions.
+ */
+describe('vaultImport', () => {
+    it('resolves links relative to the note, from the root, then by name', () => {
+        expect(resolveVaultPath('Alpha', 'Projects/Plan.md', notePaths)).toBe('Projects/Alpha.md');
+        expect(resolveVaultPath('Archive/Alpha', 'Projects/Plan.md', notePaths)).toBe('Archive/Alpha.md');
+        // Shortest path wins when several notes share a name
+        expect(resolveVaultPath('alpha', 'Index.md', notePaths)).toBe('Archive/Alpha.md');
+        expect(resolveVaultPath('v1.2', 'Index.md', notePaths)).toBe('Specs/v1.2.md');
+        expect(resolveVaultPath('../attachments/diagram.png', 'Projects/Alpha.md', attachmentPaths)).toBe('attachments/diagram.png');
+        expect(resolveVaultPath('Missing', 'Index.md', notePaths)).toBeNull();
+    });
+
+    it('rewrites wikilinks, embeds and images, leaving code alone', () => {
+        const text = [
+            'See [[Alpha]], [[Daily/2024-01-05|yesterday]] and [[Alpha#Next steps]].',
+            '![[Alpha]] ![[diagram.png|300]] ![photo](photo%201.jpg) ![[paper.pdf]]',
+            'Also [[Ghost note]] and [[#Top]] and [[Alpha#^abc123]].',
+            '`[[Alpha]]` and ![web](https://example.com/a.png)',
+        ].join('\n');
+        const { content, unresolved } = convertVaultNote(text, {
+            resolveNote: target => {
+                if (!target) return 'Index';
+                const found = resolveVaultPath(target, 'Projects/Index.md', notePaths);
+                return found ? found.split('/').pop()!.replace(/\.md$/, '') : null;
+            },
+            resolveAttachment: target => {
+                const found = resolveVaultPath(target, 'Projects/Index.md', attachmentPaths);
+                return found && !found.endsWith('.pdf') ? `file:///ws/assets/${found.split('/').pop()}` : null;
+            },
+        });
+
+        expect(content.split('\n')).toEqual([
+            'See @Alpha, @2024-01-05 and @"Alpha#Next steps".',
+            '!@Alpha ![diagram](file:///ws/assets/diagram.png) ![photo](file:///ws/assets/photo 1.jpg) ![[paper.pdf]]',
+            'Also @"Ghost note" and @Index#Top and @Alpha.',
+            '`[[Alpha]]` and ![web](https://example.com/a.png)',
+        ]);
+        expect(unresolved).toEqual(['paper.pdf', 'Ghost note']);
+    });
+
+    it('reads tags from frontmatter', () => {
+        expect(extractFrontmatterTags('---\ntitle: x\ntags: [Reading, "project/alpha"]\n---\nBody')).toEqual(['reading', 'project/alpha']);
+        expect(extractFrontmatterTags('---\ntags:\n  - one\n  - two\naliases:\n  - three\n---\n')).toEqual(['one', 'two']);
+        expect(extractFrontmatterTags('No frontmatter\ntags: nope')).toEqual([]);
+    });
+});
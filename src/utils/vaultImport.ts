@@ -0,0 +1,166 @@
+/**
+ * Vault Import
+ * Converts the notes of a markdown vault (Obsidian or similar) into native
+ * workspace notes. [[wikilinks]] become @mentions, embedded notes become
+ * !@embeds, and embedded images point at copies in the workspace assets
+ * folder. Links are resolved the way Obsidian does: by path relative to the
+ * note, by path from the vault root, then by file name anywhere in the vault.
+ * The main process walks the vault and copies files; this module only
+ * works on paths and text.
+ */
+
+import { formatMention } from './mentionRefactor';
+import { normalizeTag } from './fileMetadata';
+
+export const VAULT_NOTE_EXTENSIONS = ['.md', '.markdown'];
+export const VAULT_IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.webp', '.svg'];
+
+export interface VaultLinkResolver {
+    // Workspace name of the note a link points at ('' is the note itself), or null if it isn't in the vault
+    resolveNote: (target: string) => string | null;
+    // URL of the workspace copy of an embedded image, or null if it isn't in the vault
+    resolveAttachment: (target: string) => string | null;
+}
+
+export interface UnresolvedVaultLink {
+    notePath: string;       // Vault-relative path of the note with the link
+    target: string;         // The link target as written
+}
+
+// Code is left alone; otherwise wikilinks, embeds and markdown images
+const VAULT_LINK_REGEX = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)|(!?)\[\[([^\]\n]+)\]\]|!\[([^\]\n]*)\]\(([^)\n]+)\)/g;
+
+const getExtension = (filePath: string): string => {
+    const name = filePath.split('/').pop() || '';
+    const match = name.match(/.(\.[a-z0-9]+)$/i);
+    return match ? match[1].toLowerCase() : '';
+};
+
+const getBaseName = (filePath: string): string => {
+    const name = filePath.split('/').pop() || filePath;
+    const ext = getExtension(name);
+    return ext ? name.slice(0, -ext.length) : name;
+};
+
+// Collapse ./ and ../ in a vault-relative path
+function normalizeVaultPath(filePath: string): string {
+    const parts: string[] = [];
+    for (const part of filePath.split('/')) {
+        if (!part || part === '.') continue;
+        if (part === '..') parts.pop();
+        else parts.push(part);
+    }
+    return parts.join('/');
+}
+
+/**
+ * Vault-relative path a link from the note at `fromPath` points at, among
+ * `paths`, or null. Targets without an extension match notes.
+ */
+export function resolveVaultPath(target: string, fromPath: string, paths: string[]): string | null {
+    const cleaned = target.trim().replace(/\\/g, '/');
+    if (!cleaned) return null;
+    // Note names can contain dots, so "v1.2" may still mean "v1.2.md"
+    const candidates = VAULT_NOTE_EXTENSIONS.includes(getExtension(cleaned))
+        ? [cleaned]
+        : [cleaned, ...VAULT_NOTE_EXTENSIONS.map(ext => cleaned + ext)];
+    const byLowerPath = new Map(paths.map(p => [p.toLowerCase(), p]));
+    const folder = fromPath.includes('/') ? fromPath.slice(0, fromPath.lastIndexOf('/')) : '';
+
+    for (const candidate of candidates) {
+        const relative = byLowerPath.get(normalizeVaultPath(`${folder}/${candidate}`).toLowerCase());
+        if (relative) return relative;
+        const absolute = byLowerPath.get(normalizeVaultPath(candidate).toLowerCase());
+        if (absolute) return absolute;
+    }
+
+    // By file name (or trailing path) anywhere in the vault, preferring the shortest path
+    const matches = paths.filter(p => candidates.some(candidate => {
+        const lower = p.toLowerCase();
+        const suffix = candidate.toLowerCase();
+        return lower === suffix || lower.endsWith('/' + suffix);
+    }));
+    return matches.sort((a, b) => a.length - b.length)[0] ?? null;
+}
+
+/**
+ * Rewrite a vault note's links for the workspace. Returns the new text and
+ * the link targets that couldn't be resolved; unresolved note links still
+ * become @mentions (they show up as broken links), unresolved embeds of
+ * other files are left as written.
+ */
+export function convertVaultNote(text: string, resolver: VaultLinkResolver): { content: string; unresolved: string[] } {
+    const unresolved = new Set<string>();
+
+    const content = text.replace(VAULT_LINK_REGEX, (match, code, bang, wikilink, alt, imagePath) => {
+        if (code) return match;
+
+        if (wikilink !== undefined) {
+            const [link] = wikilink.split('|');
+            const hashIndex = link.indexOf('#');
+            const target = (hashIndex === -1 ? link : link.slice(0, hashIndex)).trim();
+            const anchor = hashIndex === -1 ? '' : link.slice(hashIndex + 1).trim();
+            const ext = getExtension(target);
+
+            // Embedded images and other attachments, unless it's a note with a dot in its name
+            const isAttachment = bang && ext && !VAULT_NOTE_EXTENSIONS.includes(ext);
+            const url = isAttachment ? resolver.resolveAttachment(target) : null;
+            if (url) return `![${getBaseName(target)}](${url})`;
+            const name = resolver.resolveNote(target);
+            if (name === null) unresolved.add(target);
+            if (isAttachment && name === null) return match;
+
+            const noteName = name ?? getBaseName(target);
+            // Obsidian block ids (#^id) don't exist in workspace notes; headings do
+            const heading = anchor && !anchor.startsWith('^') ? `#${anchor}` : '';
+            return `${bang}${formatMention(noteName + heading)}`;
+        }
+
+        // Markdown image with a local path
+        if (/^(https?:|data:|file:)/i.test(imagePath.trim())) return match;
+        const written = imagePath.trim().replace(/^<|>$/g, '').split(/\s+"/)[0];
+        let target = written;
+        try {
+            target = decodeURI(written);
+        } catch {
+            // Not URL-encoded after all
+        }
+        const url = resolver.resolveAttachment(target);
+        if (!url) {
+            unresolved.add(target);
+            return match;
+        }
+        return `![${alt}](${url})`;
+    });
+
+    return { content, unresolved: [...unresolved] };
+}
+
+/** Tags listed in a note's YAML frontmatter (tags: [a, b], tags: a, or a - list). */
+export function extractFrontmatterTags(text: string): string[] {
+    const frontmatter = text.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+    if (!frontmatter) return [];
+
+    const lines = frontmatter[1].split(/\r?\n/);
+    const index = lines.findIndex(line => /^tags?:/i.test(line));
+    if (index === -1) return [];
+
+    const inline = lines[index].replace(/^tags?:/i, '').trim();
+    const values: string[] = [];
+    if (inline) {
+        values.push(...inline.replace(/^\[|\]$/g, '').split(/[,\s]+/));
+    } else {
+        // A YAML list on the following lines
+        for (const line of lines.slice(index + 1)) {
+            const item = line.match(/^\s*-\s*(.+)$/);
+            if (!item) break;
+            values.push(item[1]);
+        }
+    }
+    const tags = new Set<string>();
+    for (const value of values) {
+        const tag = normalizeTag(value.replace(/^["']|["']$/g, ''));
+        if (tag) tags.add(tag);
+    }
+    return [...tags];
+}
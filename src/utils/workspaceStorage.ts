@@ -1,4 +1,4 @@
-import { WorkspaceData, WorkspaceSession } from '../types/workspace';
+import { FileType, WorkspaceData, WorkspaceSession } from '../types/workspace';
 
 // Maximum number of recent files to keep
 const MAX_RECENT_FILES = 10;
@@ -24,6 +24,7 @@ export function getDefaultWorkspaceData(): WorkspaceData {
         migrationComplete: false,
         fileBasedMigrationComplete: false,
         sessions: [],
+        propertyDefinitions: [],
     };
 }
 
@@ -70,6 +71,7 @@ export async function loadWorkspace(): Promise<WorkspaceData> {
                 migrationComplete: Boolean(data.migrationComplete),
                 fileBasedMigrationComplete: Boolean(data.fileBasedMigrationComplete),
                 sessions: Array.isArray(data.sessions) ? data.sessions : [],
+                propertyDefinitions: Array.isArray(data.propertyDefinitions) ? data.propertyDefinitions : [],
             };
         }
 
@@ -138,6 +140,56 @@ export function renameSession(
     );
 }
 
+/**
+ * Opens a saved session's tabs, skipping files that have since been deleted
+ * @param session - The session to restore
+ * @param data - Current workspace data
+ * @returns Workspace data with the session's tabs open
+ */
+export function applySession(session: WorkspaceSession, data: WorkspaceData): WorkspaceData {
+    const existing = new Set(data.files.map(f => f.id));
+    const openTabs = session.openTabs.filter(id => existing.has(id));
+    const activeTabId = session.activeTabId && openTabs.includes(session.activeTabId)
+        ? session.activeTabId
+        : openTabs[0] ?? null;
+
+    return { ...data, openTabs, activeTabId };
+}
+
+/**
+ * A request for the workspace page to open files, restore a session or start
+ * creating a file, made from elsewhere in the app (e.g. the command palette).
+ */
+export interface WorkspaceOpenRequest {
+    fileId?: string;
+    sessionId?: string;
+    createType?: FileType;
+}
+
+// Event fired when a request is made while the workspace page may already be mounted
+export const WORKSPACE_OPEN_REQUEST_EVENT = 'workspace-open-request';
+
+let pendingOpenRequest: WorkspaceOpenRequest | null = null;
+
+/**
+ * Queues a request for the workspace page. It is picked up straight away if the
+ * page is mounted, or once it has loaded otherwise.
+ * @param request - What to open
+ */
+export function requestWorkspaceOpen(request: WorkspaceOpenRequest): void {
+    pendingOpenRequest = request;
+    window.dispatchEvent(new CustomEvent(WORKSPACE_OPEN_REQUEST_EVENT));
+}
+
+/**
+ * Returns and clears the pending workspace request, if any
+ */
+export function takeWorkspaceOpenRequest(): WorkspaceOpenRequest | null {
+    const request = pendingOpenRequest;
+    pendingOpenRequest = null;
+    return request;
+}
+
 /**
  * Adds a file ID to the recent files list, maintaining the cap and order
  * - Moves the file to the front if it already exists
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { TrashEntry, isTrashEntryExpired, planTrashRestore } from './workspaceTrash';
+import type { WorkspaceFile, WorkspaceFolder } from '../types/workspace';
+
+const file = (id: string, name: string, parentId: string | null): WorkspaceFile => ({
+    id, name, type: 'note', parentId, createdAt: '2025-01-01T00:00:00Z', updatedAt: '2025-01-01T00:00:00Z',
+    contentId: id, filePath: `/ws/${name}.nt`,
+});
+
+const folder = (id: string, name: string, parentId: string | null): WorkspaceFolder => ({
+    id, name, parentId, createdAt: '2025-01-01T00:00:00Z', updatedAt: '2025-01-01T00:00:00Z',
+});
+
+/**
+ * Workspace trash
+ *
+ * Retention and putting deleted items back into the tree.
+ */
+describe('workspaceTrash', () => {
+    it('expires entries after the retention period unless retention is off', () => {
+        const entry = { deletedAt: '2025-03-01T00:00:00Z' };
+        const now = new Date('2025-03-20T00:00:00Z').getTime();
+
+        expect(isTrashEntryExpired(entry, now, 30)).toBe(false);
+        expect(isTrashEntryExpired(entry, now, 7)).toBe(true);
+        expect(isTrashEntryExpired(entry, now, 0)).toBe(false);
+    });
+
+    it('restores a folder to its parent with its contents nested inside', () => {
+        const entry: TrashEntry = {
+            id: 't1', deletedAt: '2025-03-01T00:00:00Z', name: 'Labs', isFolder: true,
+            folders: [folder('labs', 'Labs', 'uni'), folder('week1', 'Week 1', 'labs')],
+            files: [{ file: file('f1', 'Intro', 'week1'), trashPath: '/ws/.trash/t1/f1.nt' }],
+        };
+        const { files, folders } = planTrashRestore(entry, [], [folder('uni', 'Uni', null)], { f1: '/ws/Intro (1).nt' });
+
+        expect(folders.map(f => [f.id, f.parentId, f.name])).toEqual([['labs', 'uni', 'Labs'], ['week1', 'labs', 'Week 1']]);
+        expect(files[0]).toMatchObject({ id: 'f1', parentId: 'week1', name: 'Intro', filePath: '/ws/Intro (1).nt' });
+    });
+
+    it('falls back to the root and avoids name clashes', () => {
+        const entry: TrashEntry = {
+            id: 't2', deletedAt: '2025-03-01T00:00:00Z', name: 'Ideas', isFolder: false,
+            folders: [],
+            files: [{ file: file('f2', 'Ideas', 'gone'), trashPath: '/ws/.trash/t2/f2.nt' }],
+        };
+        const { files } = planTrashRestore(entry, [file('f3', 'Ideas', null), file('f4', 'Ideas (1)', null)], []);
+
+        expect(files[0]).toMatchObject({ parentId: null, name: 'Ideas (2)' });
+    });
+});
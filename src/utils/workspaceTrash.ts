@@ -0,0 +1,80 @@
+/**
+ * Workspace Trash
+ * Deleted workspace files and folders are moved into the hidden .trash folder
+ * of the workspace directory instead of being removed. Each deletion becomes
+ * one trash entry that remembers the deleted items' metadata (and so their
+ * place in the tree) until it is restored or purged.
+ */
+
+import type { WorkspaceFile, WorkspaceFolder } from '../types/workspace';
+
+export const TRASH_FOLDER_NAME = '.trash';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Native workspace formats are moved into the trash; external documents are
+// only removed from the tree and stay where they are on disk
+export const TRASHABLE_EXTENSIONS = ['.exec', '.brd', '.nbm', '.nt', '.deck'];
+
+export interface TrashedFile {
+    file: WorkspaceFile;
+    trashPath?: string;         // Where the file waits in .trash; unset for files left in place
+}
+
+export interface TrashEntry {
+    id: string;
+    deletedAt: string;          // ISO date string
+    name: string;               // Name of the deleted file or folder
+    isFolder: boolean;
+    files: TrashedFile[];
+    folders: WorkspaceFolder[]; // The deleted folder and every folder inside it
+}
+
+/** Whether an entry has outlived the retention period. Zero or less keeps entries forever. */
+export function isTrashEntryExpired(entry: Pick<TrashEntry, 'deletedAt'>, now: number, retentionDays: number): boolean {
+    if (retentionDays <= 0) return false;
+    return now - new Date(entry.deletedAt).getTime() > retentionDays * 24 * 60 * 60 * 1000;
+}
+
+const uniqueName = (name: string, taken: (candidate: string) => boolean) => {
+    if (!taken(name)) return name;
+    let counter = 1;
+    while (taken(`${name} (${counter})`)) counter++;
+    return `${name} (${counter})`;
+};
+
+/**
+ * Metadata to put back into the tree when restoring an entry. Items return to
+ * their original folder, or to the root if that folder is gone, and the
+ * restored top-level item is renamed if its old name has since been reused.
+ * `restoredPaths` maps file ids to where the files were put back on disk.
+ */
+export function planTrashRestore(
+    entry: TrashEntry,
+    currentFiles: WorkspaceFile[],
+    currentFolders: WorkspaceFolder[],
+    restoredPaths: Record<string, string> = {}
+): { files: WorkspaceFile[]; folders: WorkspaceFolder[] } {
+    const restoredFolderIds = new Set(entry.folders.map(f => f.id));
+    const folderExists = (id: string | null) =>
+        id === null || restoredFolderIds.has(id) || currentFolders.some(f => f.id === id);
+    const now = new Date().toISOString();
+
+    const folders = entry.folders.map(folder => {
+        const parentId = folderExists(folder.parentId) ? folder.parentId : null;
+        if (restoredFolderIds.has(parentId ?? '')) return { ...folder, parentId };
+        const name = uniqueName(folder.name, candidate => currentFolders.some(f =>
+            f.parentId === parentId && f.name.toLowerCase() === candidate.toLowerCase()));
+        return { ...folder, parentId, name, updatedAt: now };
+    });
+
+    const files = entry.files.map(({ file }) => {
+        const parentId = folderExists(file.parentId) ? file.parentId : null;
+        const filePath = restoredPaths[file.id] ?? file.filePath;
+        if (restoredFolderIds.has(parentId ?? '')) return { ...file, parentId, filePath };
+        const name = uniqueName(file.name, candidate => currentFiles.some(f =>
+            f.parentId === parentId && f.type === file.type && f.name.toLowerCase() === candidate.toLowerCase()));
+        return { ...file, parentId, name, filePath, updatedAt: now };
+    });
+
+    return { files, folders };
+}
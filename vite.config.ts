@@ -16,7 +16,8 @@ export default defineConfig({
         vite: {
           build: {
             rollupOptions: {
-              external: ['cheerio', 'better-sqlite3', 'adm-zip'],
+              // pdfjs-dist loads its worker from node_modules at runtime
+              external: ['cheerio', 'better-sqlite3', 'adm-zip', /^pdfjs-dist\//],
             },
           },
         },